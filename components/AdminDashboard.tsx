@@ -5,12 +5,16 @@ import {
   UsersIcon,
   HeartIcon,
   BuildingOfficeIcon,
+  UserGroupIcon,
   ArrowTrendingUpIcon,
   ExclamationTriangleIcon,
   CheckCircleIcon,
   ClockIcon,
   DocumentArrowDownIcon,
   EyeIcon,
+  ClipboardDocumentListIcon,
+  ChatBubbleLeftRightIcon,
+  MegaphoneIcon,
 } from '@heroicons/react/24/outline';
 import {
   BarChart,
@@ -102,6 +106,34 @@ export default function AdminDashboard({
             <BuildingOfficeIcon className="w-4 h-4 mr-2" />
             Manage Locations
           </button>
+          <button
+            onClick={() => window.location.href = '/admin/users'}
+            className="btn-secondary flex items-center"
+          >
+            <UserGroupIcon className="w-4 h-4 mr-2" />
+            Manage Users
+          </button>
+          <button
+            onClick={() => window.location.href = '/admin/sms-templates'}
+            className="btn-secondary flex items-center"
+          >
+            <ChatBubbleLeftRightIcon className="w-4 h-4 mr-2" />
+            SMS Templates
+          </button>
+          <button
+            onClick={() => window.location.href = '/admin/sms-campaigns'}
+            className="btn-secondary flex items-center"
+          >
+            <MegaphoneIcon className="w-4 h-4 mr-2" />
+            SMS Campaigns
+          </button>
+          <button
+            onClick={() => window.location.href = '/admin/audit'}
+            className="btn-secondary flex items-center"
+          >
+            <ClipboardDocumentListIcon className="w-4 h-4 mr-2" />
+            Audit Log
+          </button>
           <button
             onClick={onViewSubmissions}
             className="btn-secondary flex items-center"
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowPathIcon, CheckCircleIcon, EyeIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { format, formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { AnalysisQueueItem, HealthSubmission } from '@/types';
+
+interface AnalysisQueueProps {
+  locationNames: Map<string, string>;
+  onOpenSubmission: (submission: HealthSubmission) => void;
+  /** Called after analyses finish so the submissions list can refresh */
+  onAnalyzed: () => void;
+}
+
+export default function AnalysisQueue({ locationNames, onOpenSubmission, onAnalyzed }: AnalysisQueueProps) {
+  const [items, setItems] = useState<AnalysisQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/analysis-jobs');
+      const result = await response.json();
+
+      if (result.success) {
+        setItems(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load the analysis queue');
+      }
+    } catch {
+      toast.error('Failed to load the analysis queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const runDueJobs = async () => {
+    setIsRunning(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/analysis-jobs', { method: 'POST' });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(result.message);
+        onAnalyzed();
+        await fetchQueue();
+      } else {
+        toast.error(result.message || result.error || 'Failed to run the analysis queue');
+      }
+    } catch {
+      toast.error('Failed to run the analysis queue');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const rerun = async (submissionId: string) => {
+    setRerunningId(submissionId);
+    try {
+      const response = await fetchWithAuth(`/api/admin/submissions/${submissionId}/reanalyze`, { method: 'POST' });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(result.message);
+        onAnalyzed();
+        await fetchQueue();
+      } else {
+        toast.error(result.message || result.error || 'Failed to re-run analysis');
+      }
+    } catch {
+      toast.error('Failed to re-run analysis');
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card">
+        <div className="card-body text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading analysis queue...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-trust-900">Selfie Analysis Queue</h3>
+          <p className="text-sm text-trust-600">
+            Analyses run in the background after each submission and are retried automatically.
+          </p>
+        </div>
+        <button
+          onClick={runDueJobs}
+          disabled={isRunning}
+          className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlayIcon className="w-4 h-4 mr-2" />
+          {isRunning ? 'Running...' : 'Run Due Jobs'}
+        </button>
+      </div>
+      <div className="card-body overflow-x-auto">
+        {items.length === 0 ? (
+          <div className="text-center py-12">
+            <CheckCircleIcon className="w-16 h-16 text-health-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-trust-900 mb-2">Nothing waiting</h3>
+            <p className="text-trust-600">Every submitted selfie has been analyzed.</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-trust-200">
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Participant</th>
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Location</th>
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Submitted</th>
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Status</th>
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Attempts</th>
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Last Error</th>
+                <th className="text-left py-3 px-4 font-medium text-trust-900">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(({ job, submission }) => (
+                <tr key={job.id} className="border-b border-trust-100">
+                  <td className="py-3 px-4 font-medium text-trust-900">
+                    {submission.firstName} {submission.lastName}
+                  </td>
+                  <td className="py-3 px-4 text-trust-700">
+                    {locationNames.get(submission.churchId) || submission.churchId}
+                  </td>
+                  <td className="py-3 px-4 text-trust-700">
+                    {format(new Date(submission.submissionDate), 'MMM dd, yyyy h:mm a')}
+                  </td>
+                  <td className="py-3 px-4">
+                    {job.status === 'failed' ? (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">Failed</span>
+                    ) : (
+                      <>
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-primary-100 text-primary-800">Pending</span>
+                        {job.attempts > 0 && (
+                          <div className="text-xs text-trust-500 mt-1">
+                            Next try {formatDistanceToNow(new Date(job.nextAttemptAt), { addSuffix: true })}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-trust-700">{job.attempts}</td>
+                  <td className="py-3 px-4 text-sm text-trust-600 max-w-xs truncate" title={job.lastError}>
+                    {job.lastError || '—'}
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => rerun(submission.id)}
+                        disabled={rerunningId === submission.id}
+                        className="text-primary-600 hover:text-primary-900 disabled:opacity-50"
+                        title="Re-run analysis"
+                      >
+                        <ArrowPathIcon className={`w-4 h-4 ${rerunningId === submission.id ? 'animate-spin' : ''}`} />
+                      </button>
+                      <button
+                        onClick={() => onOpenSubmission(submission)}
+                        className="text-primary-600 hover:text-primary-900"
+                        title="View details"
+                      >
+                        <EyeIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { UseFormRegisterReturn } from 'react-hook-form';
+import { CustomField } from '@/types';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  registration: UseFormRegisterReturn;
+  error?: string;
+  /** Empty choice of a select, in the participant's language */
+  selectPrompt?: string;
+}
+
+/**
+ * One of a location's custom questions as participants see it. Used by the
+ * screening form and the live preview in the form builder.
+ */
+export default function CustomFieldInput({ field, registration, error, selectPrompt = 'Select an option' }: CustomFieldInputProps) {
+  return (
+    <div>
+      {field.type === 'checkbox' ? (
+        <label className="flex items-start">
+          <input
+            type="checkbox"
+            {...registration}
+            className="checkbox-custom mt-1"
+          />
+          <span className="ml-3 text-trust-900">
+            {field.label}{field.required && ' *'}
+          </span>
+        </label>
+      ) : (
+        <>
+          <label className="form-label">
+            {field.label}{field.required && ' *'}
+          </label>
+          {field.type === 'select' ? (
+            <select {...registration} className="form-input">
+              <option value="">{selectPrompt}</option>
+              {(field.options || []).map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type={field.type}
+              {...registration}
+              className="form-input"
+              placeholder={field.placeholder}
+              {...(field.type === 'number' && {
+                min: field.validation?.min,
+                max: field.validation?.max,
+                step: 'any',
+              })}
+            />
+          )}
+        </>
+      )}
+      {error && <p className="form-error">{error}</p>}
+    </div>
+  );
+}
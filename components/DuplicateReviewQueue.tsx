@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircleIcon, EyeIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { DuplicateMatchReason, DuplicateReviewItem, HealthSubmission } from '@/types';
+
+interface DuplicateReviewQueueProps {
+  locationNames: Map<string, string>;
+  onOpenSubmission: (submission: HealthSubmission) => void;
+  /** Called after a merge or dismissal so the submissions list can refresh */
+  onResolved: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  fingerprint: 'Same device & answers',
+  phone: 'Same phone',
+  name_dob: 'Same name & DOB',
+};
+
+interface ReviewSelection {
+  primaryId: string;
+  mergeIds: Set<string>;
+}
+
+// Default to keeping the earliest screening as the primary record
+function defaultSelection(item: DuplicateReviewItem): ReviewSelection {
+  const records = [item.submission, ...item.candidates.map((candidate) => candidate.submission)];
+  const earliest = records.reduce((oldest, record) =>
+    record.submissionDate < oldest.submissionDate ? record : oldest
+  );
+  return { primaryId: earliest.id, mergeIds: new Set(records.map((record) => record.id)) };
+}
+
+export default function DuplicateReviewQueue({ locationNames, onOpenSubmission, onResolved }: DuplicateReviewQueueProps) {
+  const [items, setItems] = useState<DuplicateReviewItem[]>([]);
+  const [selections, setSelections] = useState<Record<string, ReviewSelection>>({});
+  const [nextToken, setNextToken] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async (loadMoreToken?: string) => {
+    try {
+      const params = new URLSearchParams();
+      if (loadMoreToken) params.append('nextToken', loadMoreToken);
+
+      const response = await fetchWithAuth(`/api/admin/duplicates?${params.toString()}`);
+      const result = await response.json();
+
+      if (result.success) {
+        const pageItems: DuplicateReviewItem[] = result.data.items;
+        setItems((prev) => (loadMoreToken ? [...prev, ...pageItems] : pageItems));
+        setSelections((prev) => {
+          const next = loadMoreToken ? { ...prev } : {};
+          pageItems.forEach((item) => {
+            next[item.submission.id] = defaultSelection(item);
+          });
+          return next;
+        });
+        setNextToken(result.data.nextToken);
+      } else {
+        toast.error(result.error || 'Failed to load possible duplicates');
+      }
+    } catch {
+      toast.error('Failed to load possible duplicates');
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const updateSelection = (itemId: string, update: (selection: ReviewSelection) => ReviewSelection) => {
+    setSelections((prev) => ({ ...prev, [itemId]: update(prev[itemId]) }));
+  };
+
+  const toggleMerge = (itemId: string, submissionId: string) => {
+    updateSelection(itemId, (selection) => {
+      const mergeIds = new Set(selection.mergeIds);
+      if (mergeIds.has(submissionId)) {
+        mergeIds.delete(submissionId);
+      } else {
+        mergeIds.add(submissionId);
+      }
+      return { ...selection, mergeIds };
+    });
+  };
+
+  const resolve = async (item: DuplicateReviewItem, action: 'merge' | 'dismiss') => {
+    const selection = selections[item.submission.id];
+    const submissionIds = Array.from(new Set([selection.primaryId, ...Array.from(selection.mergeIds)]));
+
+    if (action === 'merge' && submissionIds.length < 2) {
+      toast.error('Select at least one other screening to merge');
+      return;
+    }
+
+    const body = action === 'merge'
+      ? { action, primaryId: selection.primaryId, submissionIds }
+      : { action, submissionId: item.submission.id };
+
+    setResolvingId(item.submission.id);
+    try {
+      const response = await fetchWithAuth('/api/admin/duplicates', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(action === 'merge' ? result.message : 'Marked as not a duplicate');
+        setItems((prev) => prev.filter((existing) => existing.submission.id !== item.submission.id));
+        onResolved();
+      } else {
+        toast.error(result.message || result.error || 'Update failed');
+      }
+    } catch {
+      toast.error('Update failed');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card">
+        <div className="card-body text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading possible duplicates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="card">
+        <div className="card-body text-center py-12">
+          <CheckCircleIcon className="w-16 h-16 text-health-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-trust-900 mb-2">No possible duplicates</h3>
+          <p className="text-trust-600">
+            Submissions that match an earlier screening by device, phone, or name and date of birth appear here.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {items.map((item) => {
+        const selection = selections[item.submission.id];
+        const rows = [
+          { submission: item.submission, reasons: [] as DuplicateMatchReason[], isFlagged: true },
+          ...item.candidates.map((candidate) => ({ ...candidate, isFlagged: false })),
+        ];
+
+        return (
+          <div key={item.submission.id} className="card">
+            <div className="card-header flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-medium text-trust-900">
+                  {item.submission.firstName} {item.submission.lastName}
+                </h3>
+                <p className="text-sm text-trust-600">
+                  Submitted {format(new Date(item.submission.submissionDate), 'MMM dd, yyyy h:mm a')} &middot;{' '}
+                  {item.candidates.length} possible match{item.candidates.length === 1 ? '' : 'es'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => resolve(item, 'dismiss')}
+                  disabled={resolvingId === item.submission.id}
+                  className="btn-secondary flex items-center disabled:opacity-50"
+                >
+                  <XMarkIcon className="w-4 h-4 mr-2" />
+                  Not a Duplicate
+                </button>
+                <button
+                  onClick={() => resolve(item, 'merge')}
+                  disabled={resolvingId === item.submission.id}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  Merge Selected
+                </button>
+              </div>
+            </div>
+            <div className="card-body overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-trust-200">
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Merge</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Primary</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Participant</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Date of Birth</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Location</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Date</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Matched On</th>
+                    <th className="text-left py-3 px-4 font-medium text-trust-900">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ submission, reasons, isFlagged }) => (
+                    <tr key={submission.id} className="border-b border-trust-100">
+                      <td className="py-3 px-4">
+                        <input
+                          type="checkbox"
+                          checked={selection?.mergeIds.has(submission.id) ?? false}
+                          disabled={selection?.primaryId === submission.id}
+                          onChange={() => toggleMerge(item.submission.id, submission.id)}
+                          className="rounded border-trust-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                      <td className="py-3 px-4">
+                        <input
+                          type="radio"
+                          name={`primary-${item.submission.id}`}
+                          checked={selection?.primaryId === submission.id}
+                          onChange={() =>
+                            updateSelection(item.submission.id, (current) => ({
+                              primaryId: submission.id,
+                              mergeIds: new Set(current.mergeIds).add(submission.id),
+                            }))
+                          }
+                          className="border-trust-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="font-medium text-trust-900">
+                          {submission.firstName} {submission.lastName}
+                          {isFlagged && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">New</span>
+                          )}
+                        </div>
+                        {submission.phone && <div className="text-sm text-trust-500">{submission.phone}</div>}
+                      </td>
+                      <td className="py-3 px-4 text-trust-700">{submission.dateOfBirth}</td>
+                      <td className="py-3 px-4 text-trust-700">
+                        {locationNames.get(submission.churchId) || submission.churchId}
+                      </td>
+                      <td className="py-3 px-4 text-trust-700">
+                        {format(new Date(submission.submissionDate), 'MMM dd, yyyy')}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex flex-wrap gap-1">
+                          {reasons.map((reason) => (
+                            <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-primary-100 text-primary-800">
+                              {REASON_LABELS[reason]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4">
+                        <button
+                          onClick={() => onOpenSubmission(submission)}
+                          className="text-primary-600 hover:text-primary-900"
+                          title="View details"
+                        >
+                          <EyeIcon className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+
+      {nextToken && (
+        <div className="text-center py-6">
+          <button
+            onClick={() => {
+              setIsLoadingMore(true);
+              fetchQueue(nextToken);
+            }}
+            disabled={isLoadingMore}
+            className="btn-primary mx-auto disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
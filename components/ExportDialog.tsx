@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { DocumentArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import {
+  DEFAULT_EXPORT_COLUMN_IDS,
+  EXPORT_COLUMN_GROUP_LABELS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportColumnGroup,
+  ExportFormat,
+} from '@/lib/export-columns';
+import { ExportFilterOptions } from '@/types';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: ExportFilterOptions;
+  /** Short description of the active filters, shown above the column picker */
+  filterSummary?: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (Excel, Google Sheets)',
+  xlsx: 'Excel Workbook (.xlsx)',
+  ndjson: 'NDJSON (one JSON record per line)',
+};
+
+const COLUMN_GROUPS = Object.keys(EXPORT_COLUMN_GROUP_LABELS) as ExportColumnGroup[];
+
+function getFileName(response: Response, fallback: string): string {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const match = disposition.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+export default function ExportDialog({ isOpen, onClose, filters, filterSummary }: ExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [selectedColumns, setSelectedColumns] = useState<Set<string>>(
+    () => new Set(DEFAULT_EXPORT_COLUMN_IDS)
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const toggleColumn = (columnId: string) => {
+    setSelectedColumns((prev) => {
+      const next = new Set(prev);
+      if (next.has(columnId)) {
+        next.delete(columnId);
+      } else {
+        next.add(columnId);
+      }
+      return next;
+    });
+  };
+
+  const toggleGroup = (group: ExportColumnGroup, checked: boolean) => {
+    setSelectedColumns((prev) => {
+      const next = new Set(prev);
+      EXPORT_COLUMNS.filter((column) => column.group === group).forEach((column) => {
+        if (checked) {
+          next.add(column.id);
+        } else {
+          next.delete(column.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    if (selectedColumns.size === 0) {
+      toast.error('Select at least one column to export');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      toast.success('Export started! This may take a moment...');
+
+      const response = await fetchWithAuth('/api/admin/export', {
+        method: 'POST',
+        body: JSON.stringify({
+          format: exportFormat,
+          filters,
+          columns: EXPORT_COLUMNS
+            .filter((column) => selectedColumns.has(column.id))
+            .map((column) => column.id),
+        }),
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = getFileName(
+          response,
+          `health-screening-export-${new Date().toISOString().split('T')[0]}.${EXPORT_FORMATS[exportFormat].extension}`
+        );
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+
+        toast.success('Data exported successfully!');
+        onClose();
+      } else {
+        toast.error('Export failed');
+      }
+    } catch {
+      toast.error('Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 bg-white border-b border-trust-200 p-6 rounded-t-lg flex justify-between items-center">
+          <h3 className="text-xl font-semibold text-trust-900">Export Submissions</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-trust-400 hover:text-trust-900 hover:bg-trust-100 rounded-lg transition-colors"
+            title="Close"
+          >
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {filterSummary && (
+            <p className="text-sm text-trust-600">{filterSummary}</p>
+          )}
+
+          <div>
+            <label className="form-label">Format</label>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className="form-input"
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((value) => (
+                <option key={value} value={value}>
+                  {FORMAT_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="form-label mb-0">Columns</label>
+              <span className="text-sm text-trust-500">{selectedColumns.size} selected</span>
+            </div>
+            <div className="space-y-4">
+              {COLUMN_GROUPS.map((group) => {
+                const columns = EXPORT_COLUMNS.filter((column) => column.group === group);
+                const allSelected = columns.every((column) => selectedColumns.has(column.id));
+
+                return (
+                  <fieldset key={group} className="border border-trust-200 rounded-lg p-4">
+                    <legend className="px-1">
+                      <label className="flex items-center text-sm font-medium text-trust-900">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={(e) => toggleGroup(group, e.target.checked)}
+                          className="mr-2"
+                        />
+                        {EXPORT_COLUMN_GROUP_LABELS[group]}
+                      </label>
+                    </legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {columns.map((column) => (
+                        <label key={column.id} className="flex items-center text-sm text-trust-700">
+                          <input
+                            type="checkbox"
+                            checked={selectedColumns.has(column.id)}
+                            onChange={() => toggleColumn(column.id)}
+                            className="mr-2"
+                          />
+                          {column.title}
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="sticky bottom-0 bg-white border-t border-trust-200 p-6 flex justify-end space-x-3">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || selectedColumns.size === 0}
+            className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DocumentArrowDownIcon className="w-4 h-4 mr-2" />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { ContactChannel, FollowUpEvent, FollowUpReminderSkipReason, HealthSubmission } from '@/types';
+
+interface FollowUpPanelProps {
+  submission: HealthSubmission;
+  onUpdated: (submission: HealthSubmission) => void;
+}
+
+const SKIP_REASON_LABELS: Record<FollowUpReminderSkipReason, string> = {
+  no_phone: 'no valid phone number',
+  no_consent: 'no SMS consent',
+  opted_out: 'opted out of texts',
+  duplicate_phone: 'same number reminded in this run',
+  no_email: 'no email address',
+  unsubscribed: 'unsubscribed from email',
+  duplicate_email: 'same address reminded in this run',
+  expired: 'follow-up date too far in the past',
+};
+
+const CHANNEL_LABELS: Record<ContactChannel, string> = {
+  sms: 'Text',
+  email: 'Email',
+};
+
+function describeEvent(event: FollowUpEvent): string {
+  const dueDate = event.followUpDate ? ` for ${format(new Date(event.followUpDate), 'MMM dd, yyyy')}` : '';
+  const reminder = event.channel ? `${CHANNEL_LABELS[event.channel]} reminder` : 'Reminder';
+  switch (event.action) {
+    case 'reminder_sent':
+      return `Reminder ${event.channel === 'email' ? 'emailed' : 'texted'}${dueDate}`;
+    case 'reminder_failed':
+      return `${reminder}${dueDate} failed: ${event.error || 'unknown error'}`;
+    case 'reminder_skipped':
+      return `${reminder}${dueDate} skipped: ${event.skipReason ? SKIP_REASON_LABELS[event.skipReason] : 'unknown reason'}`;
+    case 'escalated':
+      return 'Escalated: still pending after the follow-up period';
+  }
+}
+
+// Reminders go out on the morning of the chosen day
+function toFollowUpDate(day: string): string {
+  return new Date(`${day}T09:00:00`).toISOString();
+}
+
+/**
+ * Next follow-up date, which the reminder scheduler texts the participant on,
+ * and everything the scheduler has done for this screening.
+ */
+export default function FollowUpPanel({ submission, onUpdated }: FollowUpPanelProps) {
+  const [day, setDay] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDay(submission.followUpDate ? format(new Date(submission.followUpDate), 'yyyy-MM-dd') : '');
+  }, [submission.followUpDate]);
+
+  const saveDate = async () => {
+    if (!day) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/submissions/${submission.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ followUpDate: toFollowUpDate(day) }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        toast.success('Follow-up date saved');
+        onUpdated(result.data);
+      } else {
+        toast.error(result.error || 'Failed to save follow-up date');
+      }
+    } catch {
+      toast.error('Failed to save follow-up date');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const history = [...(submission.followUpHistory || [])].reverse();
+  const isEscalated = Boolean(submission.followUpEscalatedAt) && (submission.followUpStatus || 'Pending') === 'Pending';
+
+  return (
+    <div className="bg-trust-50 rounded-lg p-4">
+      <h4 className="text-lg font-medium text-trust-900 mb-3">Follow-up</h4>
+
+      {isEscalated && (
+        <p className="flex items-center text-sm font-medium text-red-800 mb-3">
+          <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+          Escalated on {format(new Date(submission.followUpEscalatedAt as string), 'MMM dd, yyyy')}; still pending
+        </p>
+      )}
+
+      <div className="flex items-end gap-2 mb-3">
+        <div>
+          <label className="form-label">Next follow-up</label>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+            className="form-input"
+          />
+        </div>
+        <button
+          onClick={saveDate}
+          disabled={isSaving || !day}
+          className="btn-primary disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      <p className="text-xs text-trust-500 mb-3">
+        Participants get a reminder by text or email, as they chose, on this date unless the follow-up is completed.
+      </p>
+
+      {history.length > 0 && (
+        <ul className="space-y-1 text-sm text-trust-600">
+          {history.map((event, index) => (
+            <li key={`${event.at}-${index}`}>
+              {format(new Date(event.at), 'MMM dd, yyyy h:mm a')}: {describeEvent(event)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import CustomFieldInput from '@/components/CustomFieldInput';
+import { fetchWithAuth } from '@/lib/api-client';
+import {
+  CUSTOM_FIELD_LIMIT,
+  CUSTOM_FIELD_TYPE_LABELS,
+  CUSTOM_FIELD_TYPES,
+  checkCustomFieldDefinitions,
+  normalizeCustomField,
+  validateCustomFieldValue,
+} from '@/lib/custom-fields';
+import { CustomField, LocationFormHistory, OutreachLocation } from '@/types';
+
+interface FormBuilderProps {
+  location: OutreachLocation;
+  onClose: () => void;
+  onPublished: () => void;
+}
+
+// Ids stay fixed across versions, so answers to a relabeled question still line up in exports
+function newFieldId(existing: CustomField[]): string {
+  let id: string;
+  do {
+    id = `q-${Math.random().toString(36).slice(2, 10)}`;
+  } while (existing.some((field) => field.id === id));
+  return id;
+}
+
+function parseBound(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+/**
+ * Editor for a location's custom questions with a live preview of the form
+ * step participants see. Publishing saves a new form version; earlier
+ * versions can be loaded back into the editor.
+ */
+export default function FormBuilder({ location, onClose, onPublished }: FormBuilderProps) {
+  const [history, setHistory] = useState<LocationFormHistory | null>(null);
+  const [draft, setDraft] = useState<CustomField[]>([]);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const preview = useForm<{ answers: Record<string, string | boolean> }>({ shouldUnregister: true });
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/locations/${location.id}/form`);
+      const result = await response.json();
+      if (result.success) {
+        setHistory(result.data);
+        setDraft(result.data.fields);
+      } else {
+        toast.error(result.error || 'Failed to load form');
+      }
+    } catch (error) {
+      console.error('Failed to load location form:', error);
+      toast.error('Failed to load form');
+    }
+  }, [location.id]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const normalized = useMemo(() => draft.map(normalizeCustomField), [draft]);
+  const problems = useMemo(() => [
+    ...normalized
+      .map((field, index) => (field.label ? null : `Question ${index + 1} needs a label`))
+      .filter((problem): problem is string => problem !== null),
+    ...checkCustomFieldDefinitions(normalized.filter((field) => field.label)),
+  ], [normalized]);
+  const hasChanges = history !== null && JSON.stringify(normalized) !== JSON.stringify(history.fields);
+
+  const updateField = (index: number, updates: Partial<CustomField>) => {
+    setDraft((fields) => fields.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+  };
+
+  const updateValidation = (index: number, updates: NonNullable<CustomField['validation']>) => {
+    setDraft((fields) => fields.map((field, i) => (
+      i === index ? { ...field, validation: { ...field.validation, ...updates } } : field
+    )));
+  };
+
+  const addField = () => {
+    setDraft((fields) => [
+      ...fields,
+      { id: newFieldId(fields), type: 'text', label: '', required: false },
+    ]);
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setDraft((fields) => {
+      const target = index + offset;
+      if (target < 0 || target >= fields.length) return fields;
+      const reordered = [...fields];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removeField = (index: number) => {
+    setDraft((fields) => fields.filter((_, i) => i !== index));
+  };
+
+  const publish = async () => {
+    if (!history) return;
+
+    setIsPublishing(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/locations/${location.id}/form`, {
+        method: 'PUT',
+        body: JSON.stringify({ fields: normalized, baseVersion: history.formVersion }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        toast.success(result.message || 'Form published');
+        setHistory(result.data);
+        setDraft(result.data.fields);
+        onPublished();
+      } else {
+        toast.error(result.message || result.error || 'Failed to publish form');
+      }
+    } catch (error) {
+      console.error('Failed to publish location form:', error);
+      toast.error('Failed to publish form');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const close = () => {
+    if (hasChanges && !confirm('Discard unpublished changes to this form?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="card mb-8">
+      <div className="card-header flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-trust-900">Questions for {location.name}</h2>
+          <p className="text-sm text-trust-600 mt-1">
+            {history?.formVersion
+              ? `Version ${history.formVersion} is live.`
+              : 'No questions published yet.'}
+            {' '}Questions appear as an extra step of the screening form.
+          </p>
+        </div>
+        <button onClick={close} className="text-trust-400 hover:text-trust-600" title="Close">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="card-body">
+        {!history ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Editor */}
+            <div className="space-y-4">
+              {draft.length === 0 && (
+                <p className="text-sm text-trust-600">
+                  This location asks no questions of its own. Add one to get started.
+                </p>
+              )}
+
+              {draft.map((field, index) => (
+                <div key={field.id} className="border border-trust-200 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-trust-600">Question {index + 1}</span>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => moveField(index, -1)}
+                        disabled={index === 0}
+                        className="text-trust-400 hover:text-trust-600 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUpIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveField(index, 1)}
+                        disabled={index === draft.length - 1}
+                        className="text-trust-400 hover:text-trust-600 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDownIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeField(index)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Remove question"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="form-label">Question *</label>
+                    <input
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      className="form-input"
+                      placeholder="e.g., Which service do you usually attend?"
+                      maxLength={200}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="form-label">Answer type</label>
+                      <select
+                        value={field.type}
+                        onChange={(e) => updateField(index, { type: e.target.value as CustomField['type'] })}
+                        className="form-input"
+                      >
+                        {CUSTOM_FIELD_TYPES.map((type) => (
+                          <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <label className="flex items-center mt-6">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateField(index, { required: e.target.checked })}
+                        className="checkbox-custom"
+                      />
+                      <span className="ml-2 text-sm text-trust-900">
+                        {field.type === 'checkbox' ? 'Must be checked' : 'Required'}
+                      </span>
+                    </label>
+                  </div>
+
+                  {field.type === 'select' && (
+                    <div>
+                      <label className="form-label">Options (one per line)</label>
+                      <textarea
+                        value={(field.options || []).join('\n')}
+                        onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                        className="form-input"
+                        rows={4}
+                      />
+                    </div>
+                  )}
+
+                  {(field.type === 'text' || field.type === 'number') && (
+                    <>
+                      <div>
+                        <label className="form-label">Placeholder</label>
+                        <input
+                          value={field.placeholder || ''}
+                          onChange={(e) => updateField(index, { placeholder: e.target.value })}
+                          className="form-input"
+                          maxLength={100}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="form-label">
+                            {field.type === 'text' ? 'Minimum length' : 'Minimum'}
+                          </label>
+                          <input
+                            type="number"
+                            value={field.validation?.min ?? ''}
+                            onChange={(e) => updateValidation(index, { min: parseBound(e.target.value) })}
+                            className="form-input"
+                          />
+                        </div>
+                        <div>
+                          <label className="form-label">
+                            {field.type === 'text' ? 'Maximum length' : 'Maximum'}
+                          </label>
+                          <input
+                            type="number"
+                            value={field.validation?.max ?? ''}
+                            onChange={(e) => updateValidation(index, { max: parseBound(e.target.value) })}
+                            className="form-input"
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
+
+                  {field.type === 'text' && (
+                    <div>
+                      <label className="form-label">Pattern (regular expression)</label>
+                      <input
+                        value={field.validation?.pattern || ''}
+                        onChange={(e) => updateValidation(index, { pattern: e.target.value || undefined })}
+                        className="form-input font-mono"
+                        placeholder="e.g., [A-Z]{2}[0-9]{4}"
+                        maxLength={200}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={addField}
+                disabled={draft.length >= CUSTOM_FIELD_LIMIT}
+                className="btn-secondary flex items-center disabled:opacity-50"
+              >
+                <PlusIcon className="w-4 h-4 mr-2" />
+                Add Question
+              </button>
+
+              {problems.length > 0 && (
+                <ul className="text-sm text-red-700 list-disc pl-5 space-y-1">
+                  {problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setDraft(history.fields)}
+                  disabled={!hasChanges}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  Discard Changes
+                </button>
+                <button
+                  type="button"
+                  onClick={publish}
+                  disabled={!hasChanges || problems.length > 0 || isPublishing}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {isPublishing ? 'Publishing...' : `Publish Version ${history.formVersion + 1}`}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-8">
+              {/* Live preview */}
+              <div>
+                <h3 className="font-medium text-trust-900 mb-3">Preview</h3>
+                <div className="bg-trust-50 rounded-lg p-4 space-y-6">
+                  {normalized.filter((field) => field.label).length === 0 ? (
+                    <p className="text-sm text-trust-600">Questions appear here as you write them.</p>
+                  ) : (
+                    <>
+                      {normalized.filter((field) => field.label).map((field) => (
+                        <CustomFieldInput
+                          key={`${field.id}-${field.type}`}
+                          field={field}
+                          registration={preview.register(`answers.${field.id}`, {
+                            validate: (value) => validateCustomFieldValue(field, value).error || true,
+                          })}
+                          error={preview.formState.errors.answers?.[field.id]?.message}
+                        />
+                      ))}
+                      <button
+                        type="button"
+                        onClick={async () => {
+                          if (await preview.trigger()) toast.success('These answers would be accepted');
+                        }}
+                        className="btn-secondary text-sm"
+                      >
+                        Check Answers
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Version history */}
+              {history.versions.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-trust-900 mb-3">Published Versions</h3>
+                  <ul className="divide-y divide-trust-100 border border-trust-200 rounded-lg">
+                    {history.versions.map((version) => (
+                      <li key={version.version} className="flex items-center justify-between px-4 py-3">
+                        <div>
+                          <div className="text-sm font-medium text-trust-900">
+                            Version {version.version}
+                            {version.version === history.formVersion && (
+                              <span className="ml-2 px-2 py-0.5 bg-health-100 text-health-800 text-xs rounded-full">Live</span>
+                            )}
+                          </div>
+                          <div className="text-xs text-trust-600">
+                            {version.fields.length} {version.fields.length === 1 ? 'question' : 'questions'}
+                            {' · '}{format(new Date(version.publishedAt), 'MMM d, yyyy h:mm a')}
+                            {' · '}{version.publishedBy}
+                          </div>
+                        </div>
+                        {version.version !== history.formVersion && (
+                          <button
+                            type="button"
+                            onClick={() => setDraft(version.fields)}
+                            className="text-sm text-primary-600 hover:text-primary-900"
+                          >
+                            Load into editor
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
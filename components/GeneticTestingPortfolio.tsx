@@ -1,27 +1,9 @@
 import React, { useState } from 'react';
 import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
+import { assessRisk, getSubmissionRuleSet, ReferralPriority, toRiskInputs } from '@/lib/risk-engine';
+import { HealthSubmission } from '@/types';
 
-interface HealthSubmission {
-  id: string;
-  name: string;
-  age: number;
-  gender: string;
-  healthRiskScore: number;
-  familyHistory: {
-    diabetes: boolean;
-    hypertension: boolean;
-    dementia: boolean;
-    heartDisease: boolean;
-  };
-  symptoms: {
-    nervePain: boolean;
-    memoryIssues: boolean;
-    balanceProblems: boolean;
-    visionChanges: boolean;
-  };
-  estimatedBMI: number;
-  bmiCategory: string;
-}
+type Urgency = 'Immediate' | 'Soon' | 'Routine';
 
 interface MedicalRecommendation {
   category: string;
@@ -30,12 +12,123 @@ interface MedicalRecommendation {
   specialists: Array<{
     type: string;
     reason: string;
-    urgency: 'Immediate' | 'Soon' | 'Routine';
+    urgency: Urgency;
     tests: string[];
   }>;
-  priority: 'High' | 'Medium' | 'Low';
+  priority: ReferralPriority;
 }
 
+interface ReferralContent {
+  title: string;
+  description: string;
+  specialists: Array<{
+    type: string;
+    reason: string;
+    urgency: Urgency;
+    /** Urgency when the rule set escalates the referral */
+    escalatedUrgency?: Urgency;
+    tests: string[];
+  }>;
+}
+
+// Display copy for each referral category; whether a category applies comes from the risk rules
+const REFERRAL_CONTENT: Record<string, ReferralContent> = {
+  diabetes: {
+    title: 'Diabetes Prevention & Management',
+    description: 'Based on family history and risk factors, comprehensive diabetes screening is recommended',
+    specialists: [
+      {
+        type: 'Endocrinologist',
+        reason: 'Diabetes specialist for comprehensive metabolic evaluation',
+        urgency: 'Soon',
+        escalatedUrgency: 'Immediate',
+        tests: ['HbA1c', 'Fasting Glucose', 'Oral Glucose Tolerance Test', 'Insulin Levels']
+      },
+      {
+        type: 'Registered Dietitian',
+        reason: 'Nutritional counseling for diabetes prevention',
+        urgency: 'Soon',
+        tests: ['Dietary Assessment', 'Meal Planning', 'Carbohydrate Counting Education']
+      }
+    ]
+  },
+  cardiovascular: {
+    title: 'Heart Health Assessment',
+    description: 'Family history indicates need for comprehensive cardiovascular evaluation',
+    specialists: [
+      {
+        type: 'Cardiologist',
+        reason: 'Heart disease risk assessment and prevention',
+        urgency: 'Routine',
+        escalatedUrgency: 'Soon',
+        tests: ['Lipid Panel', 'Blood Pressure Monitoring', 'ECG', 'Echocardiogram']
+      },
+      {
+        type: 'Primary Care Physician',
+        reason: 'Blood pressure management and monitoring',
+        urgency: 'Soon',
+        tests: ['Blood Pressure Check', 'Cholesterol Screening', 'BMI Assessment']
+      }
+    ]
+  },
+  neurological: {
+    title: 'Brain Health & Memory Assessment',
+    description: 'Neurological evaluation recommended for memory concerns and family history',
+    specialists: [
+      {
+        type: 'Neurologist',
+        reason: 'Memory assessment and neurological evaluation',
+        urgency: 'Routine',
+        escalatedUrgency: 'Soon',
+        tests: ['Cognitive Assessment', 'Brain MRI', 'Blood Work for Dementia', 'Memory Testing']
+      },
+      {
+        type: 'Geriatrician',
+        reason: 'Comprehensive aging and memory care',
+        urgency: 'Routine',
+        tests: ['Comprehensive Geriatric Assessment', 'Fall Risk Assessment', 'Medication Review']
+      }
+    ]
+  },
+  neurology: {
+    title: 'Nerve Function & Balance',
+    description: 'Neurological symptoms require evaluation for neuropathy and balance disorders',
+    specialists: [
+      {
+        type: 'Neurologist',
+        reason: 'Nerve pain and balance problem evaluation',
+        urgency: 'Soon',
+        tests: ['Nerve Conduction Study', 'EMG', 'Balance Testing', 'Vitamin B12 Levels']
+      },
+      {
+        type: 'Physical Therapist',
+        reason: 'Balance and mobility assessment',
+        urgency: 'Soon',
+        tests: ['Balance Assessment', 'Gait Analysis', 'Fall Risk Evaluation']
+      }
+    ]
+  },
+  vision: {
+    title: 'Eye Health & Vision Care',
+    description: 'Vision changes and diabetes risk require comprehensive eye examination',
+    specialists: [
+      {
+        type: 'Ophthalmologist',
+        reason: 'Comprehensive eye examination and diabetic retinopathy screening',
+        urgency: 'Routine',
+        escalatedUrgency: 'Soon',
+        tests: ['Dilated Eye Exam', 'Retinal Photography', 'Visual Field Test', 'Glaucoma Screening']
+      },
+      {
+        type: 'Optometrist',
+        reason: 'Regular vision screening and glasses prescription',
+        urgency: 'Routine',
+        tests: ['Vision Test', 'Prescription Update', 'Eye Pressure Check']
+      }
+    ]
+  }
+};
+
 interface HealthAnalysisProps {
   submission: HealthSubmission;
   onRecommendationUpdate?: (recommendations: string[]) => void;
@@ -48,132 +141,27 @@ const HealthAnalysisPortfolio: React.FC<HealthAnalysisProps> = ({
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['diabetes']));
   const [selectedRecommendations, setSelectedRecommendations] = useState<Set<string>>(new Set());
 
-  // Calculate risk factors and generate medical recommendations
-  const generateMedicalRecommendations = (): MedicalRecommendation[] => {
-    const recommendations: MedicalRecommendation[] = [];
-
-    // Diabetes-related recommendations
-    if (submission.familyHistory.diabetes || submission.healthRiskScore >= 6 || submission.estimatedBMI >= 25) {
-      recommendations.push({
-        category: 'diabetes',
-        title: 'Diabetes Prevention & Management',
-        description: 'Based on family history and risk factors, comprehensive diabetes screening is recommended',
-        specialists: [
-          {
-            type: 'Endocrinologist',
-            reason: 'Diabetes specialist for comprehensive metabolic evaluation',
-            urgency: submission.healthRiskScore >= 8 ? 'Immediate' : 'Soon',
-            tests: ['HbA1c', 'Fasting Glucose', 'Oral Glucose Tolerance Test', 'Insulin Levels']
-          },
-          {
-            type: 'Registered Dietitian',
-            reason: 'Nutritional counseling for diabetes prevention',
-            urgency: 'Soon',
-            tests: ['Dietary Assessment', 'Meal Planning', 'Carbohydrate Counting Education']
-          }
-        ],
-        priority: 'High'
-      });
-    }
-
-    // Cardiovascular recommendations
-    if (submission.familyHistory.heartDisease || submission.familyHistory.hypertension || submission.healthRiskScore >= 5) {
-      recommendations.push({
-        category: 'cardiovascular',
-        title: 'Heart Health Assessment',
-        description: 'Family history indicates need for comprehensive cardiovascular evaluation',
-        specialists: [
-          {
-            type: 'Cardiologist',
-            reason: 'Heart disease risk assessment and prevention',
-            urgency: submission.healthRiskScore >= 7 ? 'Soon' : 'Routine',
-            tests: ['Lipid Panel', 'Blood Pressure Monitoring', 'ECG', 'Echocardiogram']
-          },
-          {
-            type: 'Primary Care Physician',
-            reason: 'Blood pressure management and monitoring',
-            urgency: 'Soon',
-            tests: ['Blood Pressure Check', 'Cholesterol Screening', 'BMI Assessment']
-          }
-        ],
-        priority: 'High'
-      });
-    }
+  // Evaluate referrals under the rule version the submission was scored with
+  const assessment = assessRisk(toRiskInputs(submission), getSubmissionRuleSet(submission));
+  const riskScore = submission.healthRiskScore ?? assessment.riskScore;
+  const riskLevelName = submission.healthRiskLevel || assessment.riskLevel;
 
-    // Neurological recommendations
-    if (submission.familyHistory.dementia || submission.symptoms.memoryIssues || submission.symptoms.nervePain) {
-      recommendations.push({
-        category: 'neurological',
-        title: 'Brain Health & Memory Assessment',
-        description: 'Neurological evaluation recommended for memory concerns and family history',
-        specialists: [
-          {
-            type: 'Neurologist',
-            reason: 'Memory assessment and neurological evaluation',
-            urgency: submission.symptoms.memoryIssues ? 'Soon' : 'Routine',
-            tests: ['Cognitive Assessment', 'Brain MRI', 'Blood Work for Dementia', 'Memory Testing']
-          },
-          {
-            type: 'Geriatrician',
-            reason: 'Comprehensive aging and memory care',
-            urgency: 'Routine',
-            tests: ['Comprehensive Geriatric Assessment', 'Fall Risk Assessment', 'Medication Review']
-          }
-        ],
-        priority: submission.symptoms.memoryIssues ? 'High' : 'Medium'
+  const generateMedicalRecommendations = (): MedicalRecommendation[] =>
+    assessment.referrals
+      .filter((referral) => REFERRAL_CONTENT[referral.category])
+      .map((referral) => {
+        const content = REFERRAL_CONTENT[referral.category];
+        return {
+          category: referral.category,
+          title: content.title,
+          description: content.description,
+          priority: referral.priority,
+          specialists: content.specialists.map(({ escalatedUrgency, ...specialist }) => ({
+            ...specialist,
+            urgency: referral.escalated && escalatedUrgency ? escalatedUrgency : specialist.urgency,
+          })),
+        };
       });
-    }
-
-    // Nerve/balance issues
-    if (submission.symptoms.nervePain || submission.symptoms.balanceProblems) {
-      recommendations.push({
-        category: 'neurology',
-        title: 'Nerve Function & Balance',
-        description: 'Neurological symptoms require evaluation for neuropathy and balance disorders',
-        specialists: [
-          {
-            type: 'Neurologist',
-            reason: 'Nerve pain and balance problem evaluation',
-            urgency: 'Soon',
-            tests: ['Nerve Conduction Study', 'EMG', 'Balance Testing', 'Vitamin B12 Levels']
-          },
-          {
-            type: 'Physical Therapist',
-            reason: 'Balance and mobility assessment',
-            urgency: 'Soon',
-            tests: ['Balance Assessment', 'Gait Analysis', 'Fall Risk Evaluation']
-          }
-        ],
-        priority: 'High'
-      });
-    }
-
-    // Vision concerns
-    if (submission.symptoms.visionChanges || submission.familyHistory.diabetes) {
-      recommendations.push({
-        category: 'vision',
-        title: 'Eye Health & Vision Care',
-        description: 'Vision changes and diabetes risk require comprehensive eye examination',
-        specialists: [
-          {
-            type: 'Ophthalmologist',
-            reason: 'Comprehensive eye examination and diabetic retinopathy screening',
-            urgency: submission.symptoms.visionChanges ? 'Soon' : 'Routine',
-            tests: ['Dilated Eye Exam', 'Retinal Photography', 'Visual Field Test', 'Glaucoma Screening']
-          },
-          {
-            type: 'Optometrist',
-            reason: 'Regular vision screening and glasses prescription',
-            urgency: 'Routine',
-            tests: ['Vision Test', 'Prescription Update', 'Eye Pressure Check']
-          }
-        ],
-        priority: submission.symptoms.visionChanges ? 'High' : 'Medium'
-      });
-    }
-
-    return recommendations;
-  };
 
   const medicalRecommendations = generateMedicalRecommendations();
 
@@ -220,9 +208,12 @@ const HealthAnalysisPortfolio: React.FC<HealthAnalysisProps> = ({
   };
 
   const getRiskLevel = () => {
-    if (submission.healthRiskScore >= 8) return { level: 'High', color: 'bg-red-500', textColor: 'text-red-700' };
-    if (submission.healthRiskScore >= 6) return { level: 'Moderate', color: 'bg-yellow-500', textColor: 'text-yellow-700' };
-    return { level: 'Low', color: 'bg-green-500', textColor: 'text-green-700' };
+    switch (riskLevelName) {
+      case 'Very High': return { level: 'Very High', color: 'bg-red-500', textColor: 'text-red-700' };
+      case 'High': return { level: 'High', color: 'bg-orange-500', textColor: 'text-orange-700' };
+      case 'Moderate': return { level: 'Moderate', color: 'bg-yellow-500', textColor: 'text-yellow-700' };
+      default: return { level: 'Low', color: 'bg-green-500', textColor: 'text-green-700' };
+    }
   };
 
   const riskLevel = getRiskLevel();
@@ -235,7 +226,7 @@ const HealthAnalysisPortfolio: React.FC<HealthAnalysisProps> = ({
           🏥 Medical Recommendations & Doctor Referrals
         </h2>
         <p className="text-gray-600">
-          Healthcare guidance for {submission.name} based on risk assessment and symptoms
+          Healthcare guidance for {submission.firstName} {submission.lastName} based on risk assessment and symptoms
         </p>
       </div>
 
@@ -251,16 +242,17 @@ const HealthAnalysisPortfolio: React.FC<HealthAnalysisProps> = ({
         <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
           <div 
             className={`h-3 rounded-full ${riskLevel.color} transition-all duration-500`}
-            style={{ width: `${Math.min(submission.healthRiskScore * 10, 100)}%` }}
+            style={{ width: `${Math.min((riskScore / assessment.maxScore) * 100, 100)}%` }}
           ></div>
         </div>
         
         <p className="text-sm text-gray-600 mt-2">
-          Risk Score: {submission.healthRiskScore}/10 - 
-          {submission.healthRiskScore >= 8 && ' Multiple specialists recommended for comprehensive care'}
-          {submission.healthRiskScore >= 6 && submission.healthRiskScore < 8 && ' Several medical evaluations needed'}
-          {submission.healthRiskScore < 6 && ' Preventive care and routine screenings recommended'}
+          Risk Score: {riskScore}/{assessment.maxScore} - 
+          {riskLevel.level === 'Very High' && ' Multiple specialists recommended for comprehensive care'}
+          {riskLevel.level === 'High' && ' Several medical evaluations needed'}
+          {(riskLevel.level === 'Low' || riskLevel.level === 'Moderate') && ' Preventive care and routine screenings recommended'}
         </p>
+        <p className="text-xs text-gray-500 mt-1">Scored with risk rules {assessment.ruleVersion}</p>
       </div>
 
       {/* Medical Recommendations */}
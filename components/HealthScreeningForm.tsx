@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import Webcam from 'react-webcam';
 import Image from 'next/image';
@@ -14,33 +14,78 @@ import {
   ShieldCheckIcon,
   ArrowRightIcon,
   ArrowLeftIcon,
+  ClipboardDocumentListIcon,
   PhotoIcon
 } from '@heroicons/react/24/outline';
-import { type FormData } from '@/types';
+import { type ContactPreference, type CustomField, type FormData } from '@/types';
 import { collectClientDeviceInfo } from '@/lib/device-tracker';
+import { CURRENT_TCPA_DISCLOSURE, localizeTcpaDisclosure } from '@/lib/consent';
+import { validateCustomFieldValue } from '@/lib/custom-fields';
+import { getTranslator, type Locale, type MessageKey } from '@/lib/i18n';
+import {
+  buildSubmissionFormData,
+  createIdempotencyKey,
+  isOfflineQueueSupported,
+  postSubmission,
+  queueSubmission,
+  type SubmissionAttemptResult,
+} from '@/lib/offline-submissions';
+import CustomFieldInput from '@/components/CustomFieldInput';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import OfflineQueueStatus from '@/components/OfflineQueueStatus';
 import toast from 'react-hot-toast';
 
 interface HealthScreeningFormProps {
   churchId: string;
   churchName: string;
+  customFields?: CustomField[];
+  formVersion?: number;
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
   onSuccess?: (submissionId: string) => void;
+  /** Called instead of onSuccess when the screening was saved on the device to send later */
+  onQueued?: () => void;
+  /** Kiosk session token, so screenings taken on a kiosk tablet are attributed to its volunteer */
+  kioskToken?: string;
 }
 
-const STEPS = [
-  { id: 1, name: 'Personal Info', icon: UserIcon },
-  { id: 2, name: 'Photo', icon: CameraIcon },
-  { id: 3, name: 'Health Questions', icon: HeartIcon },
-  { id: 4, name: 'Additional Info', icon: DocumentTextIcon },
-  { id: 5, name: 'Consent', icon: ShieldCheckIcon },
+type StepId = 'personal' | 'photo' | 'health' | 'additional' | 'custom' | 'consent';
+
+// The location step only appears when the location has custom fields
+const STEPS: { id: StepId; icon: typeof UserIcon }[] = [
+  { id: 'personal', icon: UserIcon },
+  { id: 'photo', icon: CameraIcon },
+  { id: 'health', icon: HeartIcon },
+  { id: 'additional', icon: DocumentTextIcon },
+  { id: 'custom', icon: ClipboardDocumentListIcon },
+  { id: 'consent', icon: ShieldCheckIcon },
+];
+
+const CONTACT_PREFERENCE_OPTIONS: { value: ContactPreference; label: MessageKey }[] = [
+  { value: 'sms', label: 'consent.contactSms' },
+  { value: 'email', label: 'consent.contactEmail' },
+  { value: 'both', label: 'consent.contactBoth' },
 ];
 
 export default function HealthScreeningForm({ 
   churchId, 
   churchName, 
-  onSuccess 
+  customFields = [],
+  formVersion,
+  locale,
+  onLocaleChange,
+  onSuccess,
+  onQueued,
+  kioskToken
 }: HealthScreeningFormProps) {
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const tcpaDisclosure = localizeTcpaDisclosure(CURRENT_TCPA_DISCLOSURE, locale);
+  const steps = customFields.length > 0 ? STEPS : STEPS.filter((step) => step.id !== 'custom');
   const [currentStep, setCurrentStep] = useState(1);
+  const stepId = steps[currentStep - 1].id;
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Sent with every attempt at this screening, including later syncs, so the server saves it once
+  const [idempotencyKey] = useState(createIdempotencyKey);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [showCamera, setShowCamera] = useState(false);
   const webcamRef = useRef<Webcam>(null);
@@ -63,6 +108,7 @@ export default function HealthScreeningForm({
       selfie: null,
       // Health questions require explicit user selection - no defaults
       tcpaConsent: false, // Explicit consent required
+      contactPreference: 'sms',
     },
   });
 
@@ -96,39 +142,39 @@ export default function HealthScreeningForm({
           trigger('selfie');
         } catch (fallbackError) {
           console.error('All photo conversion methods failed:', fallbackError);
-          toast.error('Photo processing issue. Please try uploading a file instead.');
+          toast.error(t('toast.photoConversion'));
           // Keep the visual photo but note the conversion issue
         }
       }
     }
-  }, [setValue, trigger]);
+  }, [setValue, trigger, t]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       // File size validation (5MB limit)
       if (file.size > 5 * 1024 * 1024) {
-        toast.error('Image must be less than 5MB');
+        toast.error(t('toast.imageTooLarge'));
         return;
       }
       
       // File type validation - only allow image types
       const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
       if (!allowedTypes.includes(file.type)) {
-        toast.error('Please upload a valid image file (JPEG, PNG, or WebP)');
+        toast.error(t('toast.imageType'));
         return;
       }
       
       // File extension validation
       const allowedExtensions = /\.(jpg|jpeg|png|webp)$/i;
       if (!allowedExtensions.test(file.name)) {
-        toast.error('Invalid file extension. Please use .jpg, .png, or .webp files');
+        toast.error(t('toast.imageExtension'));
         return;
       }
       
       // Additional security: check for suspicious filenames
       if (file.name.includes('..') || file.name.includes('/') || file.name.includes('\\')) {
-        toast.error('Invalid filename. Please choose a different file');
+        toast.error(t('toast.imageFilename'));
         return;
       }
       
@@ -139,7 +185,7 @@ export default function HealthScreeningForm({
           
           // Basic image signature validation
           if (!result.startsWith('data:image/')) {
-            toast.error('Invalid image file. Please try a different file');
+            toast.error(t('toast.imageInvalid'));
             return;
           }
           
@@ -148,12 +194,12 @@ export default function HealthScreeningForm({
           trigger('selfie');
         } catch (error) {
           console.error('Error processing uploaded photo:', error);
-          toast.error('Error processing photo. Please try again.');
+          toast.error(t('toast.photoProcessing'));
         }
       };
       
       reader.onerror = () => {
-        toast.error('Error reading photo file. Please try again.');
+        toast.error(t('toast.photoRead'));
       };
       
       reader.readAsDataURL(file);
@@ -166,29 +212,33 @@ export default function HealthScreeningForm({
   const nextStep = async () => {
     let isValid = false;
     
-    switch (currentStep) {
-      case 1:
+    switch (stepId) {
+      case 'personal':
         isValid = await trigger(['firstName', 'lastName', 'dateOfBirth', 'phone']);
         break;
-      case 2:
+      case 'photo':
         // Check both the form field AND the captured image state to handle async photo processing
         isValid = !!watch('selfie') || !!capturedImage;
-        if (!isValid) toast.error('Please take a photo to continue');
+        if (!isValid) toast.error(t('toast.photoRequired'));
         break;
-      case 3:
+      case 'health':
         isValid = true; // Health questions are optional
         break;
-      case 4:
+      case 'additional':
         isValid = await trigger(['sex', 'cardiovascularHistory', 'chronicKidneyDisease', 'diabetes', 'insuranceType']);
-        if (!isValid) toast.error('Please answer all additional health questions');
+        if (!isValid) toast.error(t('toast.additionalRequired'));
         break;
-      case 5:
+      case 'custom':
+        isValid = await trigger(customFields.map((field) => `customFields.${field.id}` as const));
+        if (!isValid) toast.error(t('toast.customRequired'));
+        break;
+      case 'consent':
         isValid = watch('tcpaConsent');
-        if (!isValid) toast.error('Please provide TCPA consent to continue');
+        if (!isValid) toast.error(t('toast.consentRequired'));
         break;
     }
 
-    if (isValid && currentStep < 5) {
+    if (isValid && currentStep < steps.length) {
       setCurrentStep(currentStep + 1);
     }
   };
@@ -205,58 +255,60 @@ export default function HealthScreeningForm({
     
     try {
       // Ensure photo is captured before submitting
-      if (!data.selfie && !capturedImage) {
+      const selfie = data.selfie;
+      if (!(selfie instanceof File)) {
         console.log('No photo found - blocking submission');
-        toast.error('Please take a photo before submitting');
+        toast.error(t('toast.photoBeforeSubmit'));
         setIsSubmitting(false);
         return;
       }
       
-      console.log('Photo check passed - creating FormData');
-      console.log('Photo file:', data.selfie);
-      
-      const formData = new FormData();
-      
-      // Add all form fields
+      // Plain strings, so the screening can be stored on the device if it cannot be sent yet
+      const fields: Record<string, string> = {};
       Object.entries(data).forEach(([key, value]) => {
-        console.log(`Adding field ${key}:`, value);
-        if (key === 'selfie' && value instanceof File) {
-          formData.append(key, value);
-          console.log(`Added photo file: ${value.name}, size: ${value.size}`);
-        } else if (typeof value === 'boolean') {
-          formData.append(key, value.toString());
-        } else if (value !== null && value !== undefined) {
-          formData.append(key, value.toString());
+        if (key === 'selfie' || key === 'customFields') {
+          // Sent as the photo file and as one JSON field below
+          return;
+        }
+        if (value !== null && value !== undefined) {
+          fields[key] = value.toString();
         }
       });
       
-      formData.append('churchId', churchId);
-      console.log('Added churchId:', churchId);
+      fields.churchId = churchId;
+
+      if (customFields.length > 0) {
+        fields.customFields = JSON.stringify(data.customFields || {});
+      }
+      if (formVersion) {
+        fields.formVersion = String(formVersion);
+      }
+
+      // Records exactly which consent text was on screen
+      fields.tcpaDisclosureVersion = CURRENT_TCPA_DISCLOSURE.version;
+      // Follow-up messages are sent in the language the form was filled in
+      fields.locale = locale;
+      if (kioskToken) {
+        fields.kioskToken = kioskToken;
+      }
       
       // Add client-side device information
-      const clientDeviceInfo = collectClientDeviceInfo();
-      formData.append('clientDeviceInfo', JSON.stringify(clientDeviceInfo));
-      console.log('Added client device info');
+      fields.clientDeviceInfo = JSON.stringify(collectClientDeviceInfo());
 
       console.log('Sending request to /api/submissions...');
-      const response = await fetch('/api/submissions', {
-        method: 'POST',
-        headers: {
-          'x-health-form': 'submission', // CSRF protection
-        },
-        body: formData,
-      });
-
-      console.log('Response status:', response.status);
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()));
+      const result: SubmissionAttemptResult = navigator.onLine
+        ? await postSubmission(idempotencyKey, buildSubmissionFormData(fields, selfie, selfie.name))
+        : { status: 'retry', error: 'Offline' };
+      console.log('Submission result:', result);
 
-      const result = await response.json();
-      console.log('Response data:', result);
-
-      if (result.success) {
-        console.log('Submission successful!');
-        toast.success('Your health screening has been submitted successfully!');
-        onSuccess?.(result.data.id);
+      if (result.status === 'sent') {
+        toast.success(t('toast.submitted'));
+        onSuccess?.(result.submissionId);
+      } else if (result.status === 'retry' && isOfflineQueueSupported()) {
+        // No connection (or the server is struggling): keep it on the device and send it later
+        await queueSubmission({ id: idempotencyKey, churchId, fields, selfie, selfieName: selfie.name });
+        toast.success(t('toast.savedOffline'));
+        onQueued?.();
       } else {
         console.error('Submission failed with error:', result.error);
         throw new Error(result.error || 'Submission failed');
@@ -268,27 +320,31 @@ export default function HealthScreeningForm({
         stack: error instanceof Error ? error.stack : undefined,
         name: error instanceof Error ? error.name : 'Unknown'
       });
-      toast.error('Failed to submit form. Please try again.');
+      toast.error(t('toast.submitFailed'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const progressPercentage = (currentStep / STEPS.length) * 100;
+  const progressPercentage = (currentStep / steps.length) * 100;
 
   return (
     <div className="mobile-container">
       <div className="trust-gradient min-h-screen py-6">
         {/* Header */}
+        <div className="flex justify-end mb-2">
+          <LanguageSwitcher locale={locale} onChange={onLocaleChange} label={t('form.language')} />
+        </div>
+        <OfflineQueueStatus locale={locale} />
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gradient mb-2">
-            Health Screening
+            {t('form.title')}
           </h1>
           <p className="text-trust-600">
             {churchName}
           </p>
           <p className="text-sm text-trust-500 mt-1">
-            Join the fight against diabetes
+            {t('form.tagline')}
           </p>
         </div>
 
@@ -301,10 +357,10 @@ export default function HealthScreeningForm({
             />
           </div>
           <div className="flex justify-between mt-2">
-            {STEPS.map((step) => {
+            {steps.map((step, index) => {
               const Icon = step.icon;
-              const isActive = currentStep === step.id;
-              const isCompleted = currentStep > step.id;
+              const isActive = currentStep === index + 1;
+              const isCompleted = currentStep > index + 1;
               
               return (
                 <div 
@@ -324,7 +380,7 @@ export default function HealthScreeningForm({
                       <Icon className="w-4 h-4" />
                     )}
                   </div>
-                  <span className="text-xs mt-1 text-center">{step.name}</span>
+                  <span className="text-xs mt-1 text-center">{t(`steps.${step.id}`)}</span>
                 </div>
               );
             })}
@@ -334,25 +390,25 @@ export default function HealthScreeningForm({
         {/* Form Steps */}
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           {/* Step 1: Personal Information */}
-          {currentStep === 1 && (
+          {stepId === 'personal' && (
             <div className="card animate-fade-in-up">
               <div className="card-header">
                 <h2 className="text-xl font-semibold text-trust-900 flex items-center">
                   <UserIcon className="w-6 h-6 mr-2 text-primary-600" />
-                  Personal Information
+                  {t('personal.title')}
                 </h2>
               </div>
               <div className="card-body space-y-4">
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div>
-                    <label className="form-label">First Name *</label>
+                    <label className="form-label">{t('personal.firstName')}</label>
                     <input
                       {...register('firstName', { 
-                        required: 'First name is required',
-                        minLength: { value: 2, message: 'First name must be at least 2 characters' }
+                        required: t('personal.firstNameRequired'),
+                        minLength: { value: 2, message: t('personal.firstNameLength') }
                       })}
                       className={`form-input ${errors.firstName ? 'form-input-error' : ''}`}
-                      placeholder="Enter your first name"
+                      placeholder={t('personal.firstNamePlaceholder')}
                     />
                     {errors.firstName && (
                       <p className="form-error">{errors.firstName.message}</p>
@@ -360,14 +416,14 @@ export default function HealthScreeningForm({
                   </div>
                   
                   <div>
-                    <label className="form-label">Last Name *</label>
+                    <label className="form-label">{t('personal.lastName')}</label>
                     <input
                       {...register('lastName', { 
-                        required: 'Last name is required',
-                        minLength: { value: 2, message: 'Last name must be at least 2 characters' }
+                        required: t('personal.lastNameRequired'),
+                        minLength: { value: 2, message: t('personal.lastNameLength') }
                       })}
                       className={`form-input ${errors.lastName ? 'form-input-error' : ''}`}
-                      placeholder="Enter your last name"
+                      placeholder={t('personal.lastNamePlaceholder')}
                     />
                     {errors.lastName && (
                       <p className="form-error">{errors.lastName.message}</p>
@@ -376,33 +432,33 @@ export default function HealthScreeningForm({
                 </div>
                 
                 <div>
-                  <label className="form-label">Date of Birth *</label>
+                  <label className="form-label">{t('personal.dateOfBirth')}</label>
                   <input
                     type="text"
                     {...register('dateOfBirth', { 
-                      required: 'Date of birth is required',
+                      required: t('personal.dateOfBirthRequired'),
                       pattern: {
                         value: /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/,
-                        message: 'Please enter date in MM/DD/YYYY format (e.g., 02/04/1992)'
+                        message: t('personal.dateOfBirthPattern')
                       },
                       validate: (value) => {
                         // Parse MM/DD/YYYY format
                         const parts = value.split('/');
-                        if (parts.length !== 3) return 'Please enter date in MM/DD/YYYY format';
+                        if (parts.length !== 3) return t('personal.dateOfBirthFormat');
                         
                         const month = parseInt(parts[0], 10);
                         const day = parseInt(parts[1], 10);
                         const year = parseInt(parts[2], 10);
                         
                         // Validate ranges
-                        if (month < 1 || month > 12) return 'Please enter a valid month (01-12)';
-                        if (day < 1 || day > 31) return 'Please enter a valid day (01-31)';
-                        if (year < 1900 || year > new Date().getFullYear()) return 'Please enter a valid year';
+                        if (month < 1 || month > 12) return t('personal.dateOfBirthMonth');
+                        if (day < 1 || day > 31) return t('personal.dateOfBirthDay');
+                        if (year < 1900 || year > new Date().getFullYear()) return t('personal.dateOfBirthYear');
                         
                         // Check if date is valid
                         const date = new Date(year, month - 1, day);
                         if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
-                          return 'Please enter a valid date';
+                          return t('personal.dateOfBirthInvalid');
                         }
                         
                         // Age validation
@@ -414,13 +470,13 @@ export default function HealthScreeningForm({
                           age--;
                         }
                         
-                        if (age < 18) return 'Must be 18 or older';
-                        if (age > 120) return 'Please enter a valid date';
+                        if (age < 18) return t('personal.dateOfBirthAge');
+                        if (age > 120) return t('personal.dateOfBirthInvalid');
                         return true;
                       }
                     })}
                     className={`form-input ${errors.dateOfBirth ? 'form-input-error' : ''}`}
-                    placeholder="MM/DD/YYYY (e.g., 02/04/1992)"
+                    placeholder={t('personal.dateOfBirthPlaceholder')}
                     maxLength={10}
                     onInput={(e) => {
                       // Auto-format as user types
@@ -440,14 +496,14 @@ export default function HealthScreeningForm({
                 </div>
                 
                 <div>
-                  <label className="form-label">Phone Number *</label>
+                  <label className="form-label">{t('personal.phone')}</label>
                   <input
                     type="tel"
                     {...register('phone', {
-                      required: 'Phone number is required',
+                      required: t('personal.phoneRequired'),
                       pattern: {
                         value: /^[\+]?[1-9][\d]{0,15}$/,
-                        message: 'Please enter a valid phone number'
+                        message: t('personal.phoneInvalid')
                       }
                     })}
                     className={`form-input ${errors.phone ? 'form-input-error' : ''}`}
@@ -459,13 +515,13 @@ export default function HealthScreeningForm({
                 </div>
                 
                 <div>
-                  <label className="form-label">Email Address (Optional)</label>
+                  <label className="form-label">{t('personal.email')}</label>
                   <input
                     type="email"
                     {...register('email', {
                       pattern: {
                         value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                        message: 'Please enter a valid email address'
+                        message: t('personal.emailInvalid')
                       }
                     })}
                     className={`form-input ${errors.email ? 'form-input-error' : ''}`}
@@ -480,15 +536,15 @@ export default function HealthScreeningForm({
           )}
 
           {/* Step 2: Photo Capture */}
-          {currentStep === 2 && (
+          {stepId === 'photo' && (
             <div className="card animate-fade-in-up">
               <div className="card-header">
                 <h2 className="text-xl font-semibold text-trust-900 flex items-center">
                   <CameraIcon className="w-6 h-6 mr-2 text-primary-600" />
-                  Take Your Photo
+                  {t('photo.title')}
                 </h2>
                 <p className="text-sm text-trust-600 mt-1">
-                  We'll use AI to estimate your health metrics from your photo
+                  {t('photo.subtitle')}
                 </p>
               </div>
               <div className="card-body">
@@ -513,14 +569,14 @@ export default function HealthScreeningForm({
                             className="btn-primary"
                           >
                             <CameraIcon className="w-5 h-5 mr-2" />
-                            Capture
+                            {t('photo.capture')}
                           </button>
                           <button
                             type="button"
                             onClick={() => setShowCamera(false)}
                             className="btn-secondary"
                           >
-                            Cancel
+                            {t('photo.cancel')}
                           </button>
                         </div>
                       </div>
@@ -529,8 +585,8 @@ export default function HealthScreeningForm({
                         <div className="camera-container">
                           <div className="flex flex-col items-center justify-center h-64 text-trust-500">
                             <PhotoIcon className="w-16 h-16 mb-4" />
-                            <p className="text-lg font-medium">Ready to take your photo?</p>
-                            <p className="text-sm">This helps us estimate your health metrics</p>
+                            <p className="text-lg font-medium">{t('photo.ready')}</p>
+                            <p className="text-sm">{t('photo.readyHint')}</p>
                           </div>
                         </div>
                         
@@ -541,7 +597,7 @@ export default function HealthScreeningForm({
                             className="btn-primary"
                           >
                             <CameraIcon className="w-5 h-5 mr-2" />
-                            Use Camera
+                            {t('photo.useCamera')}
                           </button>
                           <button
                             type="button"
@@ -549,7 +605,7 @@ export default function HealthScreeningForm({
                             className="btn-secondary"
                           >
                             <PhotoIcon className="w-5 h-5 mr-2" />
-                            Upload Photo
+                            {t('photo.upload')}
                           </button>
                         </div>
                         
@@ -568,7 +624,7 @@ export default function HealthScreeningForm({
                     <div className="camera-container">
                       <Image
                         src={capturedImage}
-                        alt="Captured selfie"
+                        alt={t('photo.alt')}
                         className="camera-preview"
                         width={640}
                         height={480}
@@ -585,13 +641,13 @@ export default function HealthScreeningForm({
                         }}
                         className="btn-secondary"
                       >
-                        Retake Photo
+                        {t('photo.retake')}
                       </button>
                     </div>
                     
                     <div className="flex items-center justify-center text-health-600">
                       <CheckCircleIcon className="w-5 h-5 mr-2" />
-                      <span className="text-sm font-medium">Photo captured successfully!</span>
+                      <span className="text-sm font-medium">{t('photo.captured')}</span>
                     </div>
                   </div>
                 )}
@@ -600,44 +656,43 @@ export default function HealthScreeningForm({
           )}
 
           {/* Step 3: Health Questions */}
-          {currentStep === 3 && (
+          {stepId === 'health' && (
             <div className="card animate-fade-in-up">
               <div className="card-header">
                 <h2 className="text-xl font-semibold text-trust-900 flex items-center">
                   <HeartIcon className="w-6 h-6 mr-2 text-primary-600" />
-                  Health Screening Questions
+                  {t('health.title')}
                 </h2>
                 <p className="text-sm text-trust-600 mt-1">
-                  These questions help us assess your health risk factors
+                  {t('health.subtitle')}
                 </p>
               </div>
               <div className="card-body space-y-6">
                 {/* Family History - Diabetes */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Family History of Diabetes</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('health.familyDiabetes')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      It is estimated that up to 80% of African Americans have a family history of diabetes. 
-                      Do you have a family history of diabetes (parents, grandparents, aunts, or uncles)?
+                      {t('health.familyDiabetesQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryDiabetes', { required: 'Please select an answer' })}
+                          {...register('familyHistoryDiabetes', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryDiabetes', { required: 'Please select an answer' })}
+                          {...register('familyHistoryDiabetes', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                     {errors.familyHistoryDiabetes && (
@@ -649,29 +704,28 @@ export default function HealthScreeningForm({
                 {/* Family History - High Blood Pressure */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Family History of High Blood Pressure</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('health.familyHighBP')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      More than half of all African Americans have a family history of high blood pressure. 
-                      Do you have a family history of high blood pressure?
+                      {t('health.familyHighBPQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryHighBP', { required: 'Please select an answer' })}
+                          {...register('familyHistoryHighBP', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryHighBP', { required: 'Please select an answer' })}
+                          {...register('familyHistoryHighBP', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                     {errors.familyHistoryHighBP && (
@@ -683,28 +737,28 @@ export default function HealthScreeningForm({
                 {/* Family History - Dementia */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Family History of Dementia or Alzheimer's</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('health.familyDementia')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Has your mother, father, grandparent, or close relative ever been treated for dementia or Alzheimer's?
+                      {t('health.familyDementiaQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryDementia', { required: 'Please select an answer' })}
+                          {...register('familyHistoryDementia', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryDementia', { required: 'Please select an answer' })}
+                          {...register('familyHistoryDementia', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                     {errors.familyHistoryDementia && (
@@ -716,28 +770,28 @@ export default function HealthScreeningForm({
                 {/* Nerve Symptoms */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Nerve Symptoms – Neuropathy</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('health.nerveSymptoms')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Do you have numbness or tingling in your feet after standing or sitting for a while?
+                      {t('health.nerveSymptomsQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('nerveSymptoms', { required: 'Please select an answer' })}
+                          {...register('nerveSymptoms', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('nerveSymptoms', { required: 'Please select an answer' })}
+                          {...register('nerveSymptoms', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                     {errors.nerveSymptoms && (
@@ -749,28 +803,28 @@ export default function HealthScreeningForm({
                 {/* Eczema Diagnosis */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Eczema Diagnosis</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('health.eczema')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Have you ever been diagnosed with eczema by a healthcare provider?
+                      {t('health.eczemaQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('eczemaHistory', { required: 'Please select an answer' })}
+                          {...register('eczemaHistory', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('eczemaHistory', { required: 'Please select an answer' })}
+                          {...register('eczemaHistory', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                     {errors.eczemaHistory && (
@@ -782,28 +836,28 @@ export default function HealthScreeningForm({
                 {/* Family History of Asthma */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Family History of Asthma</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('health.familyAsthma')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Has your mother, father, grandparent, or close relative ever been diagnosed with asthma?
+                      {t('health.familyAsthmaQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryAsthma', { required: 'Please select an answer' })}
+                          {...register('familyHistoryAsthma', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('familyHistoryAsthma', { required: 'Please select an answer' })}
+                          {...register('familyHistoryAsthma', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                     {errors.familyHistoryAsthma && (
@@ -816,22 +870,22 @@ export default function HealthScreeningForm({
           )}
 
           {/* Step 4: Additional Health Info */}
-          {currentStep === 4 && (
+          {stepId === 'additional' && (
             <div className="card animate-fade-in-up">
               <div className="card-header">
                 <h2 className="text-xl font-semibold text-trust-900 flex items-center">
                   <DocumentTextIcon className="w-6 h-6 mr-2 text-primary-600" />
-                  Additional Health Information
+                  {t('additional.title')}
                 </h2>
                 <p className="text-sm text-trust-600 mt-1">
-                  Let us know more about your health history and insurance
+                  {t('additional.subtitle')}
                 </p>
               </div>
               <div className="card-body space-y-6">
                 {/* Sex */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Sex</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('additional.sex')}</h3>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
@@ -840,7 +894,7 @@ export default function HealthScreeningForm({
                           value="male"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Male</span>
+                        <span className="ml-2">{t('additional.male')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
@@ -849,7 +903,7 @@ export default function HealthScreeningForm({
                           value="female"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Female</span>
+                        <span className="ml-2">{t('additional.female')}</span>
                       </label>
                     </div>
                   </div>
@@ -858,9 +912,9 @@ export default function HealthScreeningForm({
                 {/* Cardiovascular History */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Cardiovascular History</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('additional.cardiovascular')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Have you ever been diagnosed with heart disease, high blood pressure, or stroke?
+                      {t('additional.cardiovascularQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
@@ -870,7 +924,7 @@ export default function HealthScreeningForm({
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
@@ -879,7 +933,7 @@ export default function HealthScreeningForm({
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                   </div>
@@ -888,28 +942,28 @@ export default function HealthScreeningForm({
                 {/* Chronic Kidney Disease */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Chronic Kidney Disease</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('additional.kidney')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Have you been diagnosed with chronic kidney disease or are you currently on dialysis?
+                      {t('additional.kidneyQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('chronicKidneyDisease', { required: 'Please select an answer' })}
+                          {...register('chronicKidneyDisease', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('chronicKidneyDisease', { required: 'Please select an answer' })}
+                          {...register('chronicKidneyDisease', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                   </div>
@@ -918,28 +972,28 @@ export default function HealthScreeningForm({
                 {/* Diabetes */}
                 <div className="health-card card">
                   <div className="card-body">
-                    <h3 className="font-medium text-trust-900 mb-3">Diabetes</h3>
+                    <h3 className="font-medium text-trust-900 mb-3">{t('additional.diabetes')}</h3>
                     <p className="text-sm text-trust-600 mb-4">
-                      Have you ever been diagnosed with diabetes?
+                      {t('additional.diabetesQuestion')}
                     </p>
                     <div className="flex space-x-6">
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('diabetes', { required: 'Please select an answer' })}
+                          {...register('diabetes', { required: t('form.answerRequired') })}
                           value="true"
                           className="radio-custom"
                         />
-                        <span className="ml-2">Yes</span>
+                        <span className="ml-2">{t('form.yes')}</span>
                       </label>
                       <label className="flex items-center">
                         <input
                           type="radio"
-                          {...register('diabetes', { required: 'Please select an answer' })}
+                          {...register('diabetes', { required: t('form.answerRequired') })}
                           value="false"
                           className="radio-custom"
                         />
-                        <span className="ml-2">No</span>
+                        <span className="ml-2">{t('form.no')}</span>
                       </label>
                     </div>
                   </div>
@@ -948,46 +1002,46 @@ export default function HealthScreeningForm({
                                  {/* Insurance Type */}
                  <div className="health-card card">
                    <div className="card-body">
-                     <h3 className="font-medium text-trust-900 mb-3">Insurance Type</h3>
+                     <h3 className="font-medium text-trust-900 mb-3">{t('additional.insuranceType')}</h3>
                      <p className="text-sm text-trust-600 mb-4">
-                       What type of insurance do you have?
+                       {t('additional.insuranceTypeQuestion')}
                      </p>
                      <div className="space-y-3">
                        <label className="flex items-center">
                          <input
                            type="radio"
-                           {...register('insuranceType', { required: 'Please select an answer' })}
+                           {...register('insuranceType', { required: t('form.answerRequired') })}
                            value="private"
                            className="radio-custom"
                          />
-                         <span className="ml-2">Private insurance (Blue Cross, Aetna, Kaiser, etc.)</span>
+                         <span className="ml-2">{t('additional.insurancePrivate')}</span>
                        </label>
                        <label className="flex items-center">
                          <input
                            type="radio"
-                           {...register('insuranceType', { required: 'Please select an answer' })}
+                           {...register('insuranceType', { required: t('form.answerRequired') })}
                            value="government"
                            className="radio-custom"
                          />
-                         <span className="ml-2">Government insurance (Medicare, Medi-Cal, Medicaid, VA, etc.)</span>
+                         <span className="ml-2">{t('additional.insuranceGovernment')}</span>
                        </label>
                        <label className="flex items-center">
                          <input
                            type="radio"
-                           {...register('insuranceType', { required: 'Please select an answer' })}
+                           {...register('insuranceType', { required: t('form.answerRequired') })}
                            value="none"
                            className="radio-custom"
                          />
-                         <span className="ml-2">No insurance / Self-pay</span>
+                         <span className="ml-2">{t('additional.insuranceNone')}</span>
                        </label>
                        <label className="flex items-center">
                          <input
                            type="radio"
-                           {...register('insuranceType', { required: 'Please select an answer' })}
+                           {...register('insuranceType', { required: t('form.answerRequired') })}
                            value="not-sure"
                            className="radio-custom"
                          />
-                         <span className="ml-2">Not sure</span>
+                         <span className="ml-2">{t('additional.insuranceNotSure')}</span>
                        </label>
                      </div>
                    </div>
@@ -996,18 +1050,18 @@ export default function HealthScreeningForm({
                  {/* Insurance ID */}
                  <div className="health-card card">
                    <div className="card-body">
-                     <h3 className="font-medium text-trust-900 mb-3">Insurance ID</h3>
+                     <h3 className="font-medium text-trust-900 mb-3">{t('additional.insuranceId')}</h3>
                      <p className="text-sm text-trust-600 mb-4">
-                       Please enter your insurance ID number (if available)
+                       {t('additional.insuranceIdQuestion')}
                      </p>
                      <input
                        type="text"
                        {...register('insuranceId')}
                        className="form-input"
-                       placeholder="Enter your insurance ID number"
+                       placeholder={t('additional.insuranceIdPlaceholder')}
                      />
                      <p className="text-xs text-trust-500 mt-2">
-                       This field is optional. You can find this on your insurance card.
+                       {t('additional.insuranceIdHint')}
                      </p>
                    </div>
                  </div>
@@ -1015,16 +1069,44 @@ export default function HealthScreeningForm({
             </div>
           )}
 
+          {/* Location questions */}
+          {stepId === 'custom' && (
+            <div className="card animate-fade-in-up">
+              <div className="card-header">
+                <h2 className="text-xl font-semibold text-trust-900 flex items-center">
+                  <ClipboardDocumentListIcon className="w-6 h-6 mr-2 text-primary-600" />
+                  {t('custom.title')}
+                </h2>
+                <p className="text-sm text-trust-600 mt-1">
+                  {t('custom.subtitle', { location: churchName })}
+                </p>
+              </div>
+              <div className="card-body space-y-6">
+                {customFields.map((field) => (
+                  <CustomFieldInput
+                    key={field.id}
+                    field={field}
+                    registration={register(`customFields.${field.id}`, {
+                      validate: (value) => validateCustomFieldValue(field, value, t).error || true,
+                    })}
+                    error={errors.customFields?.[field.id]?.message}
+                    selectPrompt={t('custom.selectPrompt')}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Step 5: TCPA Consent */}
-          {currentStep === 5 && (
+          {stepId === 'consent' && (
             <div className="card animate-fade-in-up">
               <div className="card-header">
                 <h2 className="text-xl font-semibold text-trust-900 flex items-center">
                   <ShieldCheckIcon className="w-6 h-6 mr-2 text-primary-600" />
-                  Consent & Follow-up
+                  {t('consent.title')}
                 </h2>
                 <p className="text-sm text-trust-600 mt-1">
-                  We need your permission to contact you about your health screening
+                  {t('consent.subtitle')}
                 </p>
               </div>
               <div className="card-body space-y-4">
@@ -1038,31 +1120,46 @@ export default function HealthScreeningForm({
                       />
                       <div>
                         <span className="font-medium text-trust-900">
-                          TCPA Consent - I agree to be contacted about my health screening
+                          {tcpaDisclosure.label}
                         </span>
                         <p className="text-sm text-trust-600 mt-2">
-                          By providing my phone number and checking this box, I consent to receive calls, texts, and messages from this health ministry regarding my health screening results, follow-up appointments, health tips, and related communications. I understand that:
+                          {tcpaDisclosure.body}
                         </p>
                         <ul className="text-sm text-trust-600 mt-2 ml-4 space-y-1">
-                          <li>• Message and data rates may apply</li>
-                          <li>• I can opt-out at any time by replying STOP</li>
-                          <li>• This consent is not required to receive services</li>
-                          <li>• Communications may include appointment reminders, health education, and follow-up care coordination</li>
+                          {tcpaDisclosure.terms.map((term) => (
+                            <li key={term}>• {term}</li>
+                          ))}
                         </ul>
                       </div>
                     </label>
                   </div>
                 </div>
 
+                {watch('email') && (
+                  <div>
+                    <label className="form-label">{t('consent.contactPreference')}</label>
+                    <div className="flex flex-wrap gap-x-6 gap-y-2">
+                      {CONTACT_PREFERENCE_OPTIONS.map((option) => (
+                        <label key={option.value} className="flex items-center">
+                          <input
+                            type="radio"
+                            {...register('contactPreference')}
+                            value={option.value}
+                            className="radio-custom"
+                          />
+                          <span className="ml-2">{t(option.label)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="bg-trust-50 border border-trust-200 rounded-lg p-4">
                   <div className="flex items-start space-x-3">
                     <ExclamationTriangleIcon className="w-5 h-5 text-trust-500 mt-0.5" />
                     <div className="text-sm text-trust-600">
-                      <p className="font-medium mb-1">Important Notice</p>
-                      <p>
-                        This screening is for informational purposes only and does not replace professional medical advice. 
-                        Please consult with your healthcare provider for any health concerns.
-                      </p>
+                      <p className="font-medium mb-1">{t('consent.noticeTitle')}</p>
+                      <p>{t('consent.noticeBody')}</p>
                     </div>
                   </div>
                 </div>
@@ -1079,16 +1176,16 @@ export default function HealthScreeningForm({
               className={`btn-secondary ${currentStep === 1 ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
               <ArrowLeftIcon className="w-4 h-4 mr-2" />
-              Previous
+              {t('form.previous')}
             </button>
 
-            {currentStep < 5 ? (
+            {currentStep < steps.length ? (
               <button
                 type="button"
                 onClick={nextStep}
                 className="btn-primary"
               >
-                Next
+                {t('form.next')}
                 <ArrowRightIcon className="w-4 h-4 ml-2" />
               </button>
             ) : (
@@ -1100,11 +1197,11 @@ export default function HealthScreeningForm({
                 {isSubmitting ? (
                   <>
                     <div className="loading-spinner mr-2" />
-                    Submitting...
+                    {t('form.submitting')}
                   </>
                 ) : (
                   <>
-                    Submit Screening
+                    {t('form.submit')}
                     <CheckCircleIcon className="w-4 h-4 ml-2" />
                   </>
                 )}
@@ -0,0 +1,516 @@
+import { FormEvent, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Head from 'next/head';
+import toast from 'react-hot-toast';
+import {
+  CheckCircleIcon,
+  ClockIcon,
+  CloudArrowUpIcon,
+  DeviceTabletIcon,
+  HandRaisedIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline';
+import HealthScreeningForm from '@/components/HealthScreeningForm';
+import OfflineQueueStatus from '@/components/OfflineQueueStatus';
+import {
+  KIOSK_IDLE_COUNTDOWN_MS,
+  KIOSK_IDLE_WARNING_MS,
+  KIOSK_UNLOCK_ATTEMPTS,
+  KIOSK_UNLOCK_LOCKOUT_MS,
+  type KioskSessionGrant,
+} from '@/lib/kiosk';
+import {
+  checkKioskPin,
+  clearKioskSession,
+  getKioskDevice,
+  isKioskSessionExpired,
+  loadKioskSession,
+  storeKioskSession,
+  type StoredKioskSession,
+} from '@/lib/kiosk/device';
+import { getTranslator, type Locale, type MessageKey, type Translator } from '@/lib/i18n';
+import { formManifestUrl, THEME_COLOR } from '@/lib/pwa';
+import { ApiResponse, OutreachLocation } from '@/types';
+
+interface KioskModeProps {
+  church: OutreachLocation;
+  initialLocale: Locale;
+}
+
+type KioskPhase = 'loading' | 'setup' | 'form' | 'handback' | 'volunteer';
+
+// How the last participant's turn ended, shown on the hand-back screen
+type TurnOutcome = 'submitted' | 'queued' | 'timedOut';
+
+const OUTCOME_MESSAGES: Record<TurnOutcome, MessageKey> = {
+  submitted: 'kiosk.thanks',
+  queued: 'kiosk.thanksSaved',
+  timedOut: 'kiosk.timedOut',
+};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+/**
+ * Seconds left before an inactivity reset once the warning is showing, or
+ * null while someone is using the tablet. Any touch or key press counts as
+ * activity; onTimeout runs when the countdown reaches zero.
+ */
+function useIdleCountdown(isActive: boolean, onTimeout: () => void): [number | null, () => void] {
+  const lastActivity = useRef(Date.now());
+  const timeoutRef = useRef(onTimeout);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    timeoutRef.current = onTimeout;
+  });
+
+  const markActive = useCallback(() => {
+    lastActivity.current = Date.now();
+    setSecondsLeft(null);
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    markActive();
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      const remaining = KIOSK_IDLE_WARNING_MS + KIOSK_IDLE_COUNTDOWN_MS - (Date.now() - lastActivity.current);
+      if (remaining <= 0) {
+        setSecondsLeft(null);
+        timeoutRef.current();
+      } else if (remaining <= KIOSK_IDLE_COUNTDOWN_MS) {
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      }
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, markActive));
+      clearInterval(timer);
+      setSecondsLeft(null);
+    };
+  }, [isActive, markActive]);
+
+  return [secondsLeft, markActive];
+}
+
+/**
+ * The screening form on a tablet passed between participants at a staffed
+ * table. A volunteer starts a kiosk session with the location's PIN; after
+ * each participant (or after inactivity) the form is unmounted, which wipes
+ * its answers and stops the camera, and the tablet asks to be handed back
+ * until a volunteer unlocks it with the PIN.
+ */
+export default function KioskMode({ church, initialLocale }: KioskModeProps) {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const [phase, setPhase] = useState<KioskPhase>('loading');
+  const [session, setSession] = useState<StoredKioskSession | null>(null);
+  const [setupNotice, setSetupNotice] = useState<MessageKey | null>(null);
+  const [outcome, setOutcome] = useState<TurnOutcome | null>(null);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // A reload mid-screening comes back locked, never to the participant's answers
+  useEffect(() => {
+    if (!church.kioskEnabled) {
+      // Turned off since this tablet's session started
+      clearKioskSession();
+      setPhase('setup');
+      return;
+    }
+    const stored = loadKioskSession(church.id);
+    if (stored && !isKioskSessionExpired(stored)) {
+      setSession(stored);
+      setPhase('handback');
+      return;
+    }
+    if (stored) {
+      clearKioskSession();
+      setSetupNotice('kiosk.sessionExpired');
+    }
+    setPhase('setup');
+  }, [church.id, church.kioskEnabled]);
+
+  const showPhase = (next: KioskPhase) => {
+    setPhase(next);
+    window.scrollTo(0, 0);
+  };
+
+  const endSession = (notice: MessageKey | null) => {
+    clearKioskSession();
+    setSession(null);
+    setSetupNotice(notice);
+    setLocale(initialLocale);
+    showPhase('setup');
+  };
+
+  const endTurn = (result: TurnOutcome | null) => {
+    // Toasts can name what the participant entered
+    toast.dismiss();
+    setOutcome(result);
+    showPhase('handback');
+  };
+
+  const startNextScreening = () => {
+    if (!session || isKioskSessionExpired(session)) {
+      endSession('kiosk.sessionExpired');
+      return;
+    }
+    setOutcome(null);
+    setLocale(initialLocale);
+    showPhase('form');
+  };
+
+  const handleEndSession = () => {
+    if (window.confirm(t('kiosk.endConfirm'))) {
+      endSession(null);
+    }
+  };
+
+  const [idleSeconds, stillHere] = useIdleCountdown(
+    phase === 'form' || phase === 'volunteer',
+    () => endTurn(phase === 'form' ? 'timedOut' : null)
+  );
+
+  let content: ReactNode = null;
+  if (phase === 'setup') {
+    content = (
+      <KioskSetup
+        church={church}
+        t={t}
+        notice={setupNotice}
+        onStarted={(started) => {
+          setSession(started);
+          setSetupNotice(null);
+          showPhase('volunteer');
+        }}
+      />
+    );
+  } else if (phase === 'handback' && session) {
+    content = <KioskHandBack t={t} session={session} outcome={outcome} onUnlocked={() => showPhase('volunteer')} />;
+  } else if (phase === 'volunteer' && session) {
+    content = (
+      <KioskScreen>
+        <DeviceTabletIcon className="w-16 h-16 mx-auto text-primary-600 mb-4" aria-hidden="true" />
+        <h1 className="text-2xl font-bold text-trust-900 mb-2">{t('kiosk.volunteerTitle')}</h1>
+        <p className="text-sm text-trust-600 mb-6">
+          {t('kiosk.sessionInfo', {
+            volunteer: session.volunteerName,
+            device: session.deviceLabel,
+            time: new Date(session.startedAt).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' }),
+          })}
+        </p>
+        <OfflineQueueStatus locale={locale} />
+        <div className="space-y-3">
+          <button type="button" onClick={startNextScreening} className="btn-primary w-full">
+            {t('kiosk.nextScreening')}
+          </button>
+          <button type="button" onClick={handleEndSession} className="btn-secondary w-full">
+            {t('kiosk.endSession')}
+          </button>
+        </div>
+      </KioskScreen>
+    );
+  } else if (phase === 'form' && session) {
+    content = (
+      <HealthScreeningForm
+        churchId={church.id}
+        churchName={church.name}
+        customFields={church.customFields || []}
+        formVersion={church.formVersion}
+        locale={locale}
+        onLocaleChange={setLocale}
+        onSuccess={() => endTurn('submitted')}
+        onQueued={() => endTurn('queued')}
+        kioskToken={session.token}
+      />
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>{t('page.title', { location: church.name })}</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex, nofollow" />
+        <meta name="theme-color" content={THEME_COLOR} />
+        <link rel="manifest" href={formManifestUrl(church.id)} />
+      </Head>
+
+      {content}
+
+      {idleSeconds !== null && (
+        <div
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="kiosk-idle-title"
+          className="fixed inset-0 z-50 flex items-center justify-center bg-trust-900/60 p-4"
+        >
+          <div className="card w-full max-w-sm text-center">
+            <div className="card-body space-y-4">
+              <ClockIcon className="w-12 h-12 mx-auto text-primary-600" aria-hidden="true" />
+              <h2 id="kiosk-idle-title" className="text-xl font-semibold text-trust-900">
+                {t('kiosk.idleTitle')}
+              </h2>
+              <p className="text-trust-600">{t('kiosk.idleBody', { seconds: idleSeconds })}</p>
+              <button type="button" onClick={stillHere} className="btn-primary w-full">
+                {t('kiosk.idleContinue')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+function KioskScreen({ children }: { children: ReactNode }) {
+  return (
+    <div className="min-h-screen trust-gradient flex items-center justify-center">
+      <div className="mobile-container">
+        <div className="card text-center animate-fade-in-up">
+          <div className="card-body">{children}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface KioskSetupProps {
+  church: OutreachLocation;
+  t: Translator;
+  notice: MessageKey | null;
+  onStarted: (session: StoredKioskSession) => void;
+}
+
+/** A volunteer signs the tablet in; needs a connection so the server can check the PIN */
+function KioskSetup({ church, t, notice, onStarted }: KioskSetupProps) {
+  const [volunteerName, setVolunteerName] = useState('');
+  const [deviceLabel, setDeviceLabel] = useState('');
+  const [pin, setPin] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDeviceLabel(getKioskDevice().label);
+  }, []);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!navigator.onLine) {
+      setError(t('kiosk.setupOffline'));
+      return;
+    }
+
+    setIsStarting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/kiosk/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          churchId: church.id,
+          pin,
+          volunteerName,
+          deviceLabel,
+          deviceId: getKioskDevice().id,
+        }),
+      });
+      const result: ApiResponse<KioskSessionGrant> = await response.json();
+      if (!response.ok || !result.success || !result.data) {
+        setError(t('kiosk.setupFailed', { error: result.message || result.error || response.statusText }));
+        return;
+      }
+      onStarted(await storeKioskSession(result.data, pin));
+    } catch (startError) {
+      console.error('Failed to start kiosk session:', startError);
+      setError(t('kiosk.setupFailed', { error: startError instanceof Error ? startError.message : String(startError) }));
+    } finally {
+      setPin('');
+      setIsStarting(false);
+    }
+  };
+
+  if (!church.kioskEnabled) {
+    return (
+      <KioskScreen>
+        <DeviceTabletIcon className="w-16 h-16 mx-auto text-trust-400 mb-4" aria-hidden="true" />
+        <p className="text-trust-700">{t('kiosk.notEnabled')}</p>
+      </KioskScreen>
+    );
+  }
+
+  return (
+    <KioskScreen>
+      <DeviceTabletIcon className="w-16 h-16 mx-auto text-primary-600 mb-4" aria-hidden="true" />
+      <h1 className="text-2xl font-bold text-trust-900 mb-2">{t('kiosk.setupTitle')}</h1>
+      <p className="text-sm text-trust-600 mb-2">{church.name}</p>
+      <p className="text-sm text-trust-600 mb-6">{t('kiosk.setupSubtitle')}</p>
+
+      {notice && (
+        <div className="bg-primary-50 border border-primary-200 rounded-lg p-3 mb-4 text-sm text-primary-800">
+          {t(notice)}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 text-left">
+        <div>
+          <label htmlFor="kiosk-volunteer" className="form-label">{t('kiosk.volunteerName')}</label>
+          <input
+            id="kiosk-volunteer"
+            value={volunteerName}
+            onChange={(event) => setVolunteerName(event.target.value)}
+            className="form-input"
+            maxLength={60}
+            autoComplete="name"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="kiosk-device" className="form-label">{t('kiosk.deviceLabel')}</label>
+          <input
+            id="kiosk-device"
+            value={deviceLabel}
+            onChange={(event) => setDeviceLabel(event.target.value)}
+            className="form-input"
+            placeholder={t('kiosk.deviceLabelPlaceholder')}
+            maxLength={40}
+            autoComplete="off"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="kiosk-pin" className="form-label">{t('kiosk.pin')}</label>
+          <PinInput id="kiosk-pin" value={pin} onChange={setPin} />
+        </div>
+
+        {error && <p className="form-error">{error}</p>}
+
+        <button type="submit" disabled={isStarting || !pin} className="btn-primary w-full disabled:opacity-50">
+          {isStarting ? t('kiosk.starting') : t('kiosk.start')}
+        </button>
+      </form>
+    </KioskScreen>
+  );
+}
+
+interface KioskHandBackProps {
+  t: Translator;
+  session: StoredKioskSession;
+  outcome: TurnOutcome | null;
+  onUnlocked: () => void;
+}
+
+/** Between participants: asks for the tablet back and only a volunteer's PIN moves on */
+function KioskHandBack({ t, session, outcome, onUnlocked }: KioskHandBackProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const isLocked = lockedUntil > now;
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(0);
+        setError('');
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (isLocked || !pin) return;
+
+    const isCorrect = await checkKioskPin(session, pin);
+    setPin('');
+    if (isCorrect) {
+      onUnlocked();
+      return;
+    }
+
+    const attempts = failedAttempts + 1;
+    if (attempts >= KIOSK_UNLOCK_ATTEMPTS) {
+      const current = Date.now();
+      setFailedAttempts(0);
+      setNow(current);
+      setLockedUntil(current + KIOSK_UNLOCK_LOCKOUT_MS);
+      setError('');
+    } else {
+      setFailedAttempts(attempts);
+      setError(t('kiosk.wrongPin'));
+    }
+  };
+
+  return (
+    <KioskScreen>
+      {outcome && (
+        <div className="mb-6">
+          <div className="text-health-600 mb-4">
+            {outcome === 'queued' ? (
+              <CloudArrowUpIcon className="w-16 h-16 mx-auto" aria-hidden="true" />
+            ) : outcome === 'submitted' ? (
+              <CheckCircleIcon className="w-16 h-16 mx-auto" aria-hidden="true" />
+            ) : (
+              <ClockIcon className="w-16 h-16 mx-auto text-trust-400" aria-hidden="true" />
+            )}
+          </div>
+          <p className="text-lg text-trust-700">{t(OUTCOME_MESSAGES[outcome])}</p>
+        </div>
+      )}
+
+      <HandRaisedIcon className="w-12 h-12 mx-auto text-primary-600 mb-3" aria-hidden="true" />
+      <h1 className="text-2xl font-bold text-gradient mb-2">{t('kiosk.handBackTitle')}</h1>
+      <p className="text-trust-600 mb-8">{t('kiosk.handBackBody')}</p>
+
+      <form onSubmit={handleSubmit} className="pt-6 border-t border-trust-200 text-left space-y-3">
+        <label htmlFor="kiosk-unlock" className="form-label flex items-center">
+          <LockClosedIcon className="w-4 h-4 mr-1" aria-hidden="true" />
+          {t('kiosk.unlockPrompt')}
+        </label>
+        <PinInput id="kiosk-unlock" value={pin} onChange={setPin} disabled={isLocked} />
+        {isLocked ? (
+          <p className="form-error">
+            {t('kiosk.lockedOut', { seconds: Math.ceil((lockedUntil - now) / 1000) })}
+          </p>
+        ) : (
+          error && <p className="form-error">{error}</p>
+        )}
+        <button type="submit" disabled={isLocked || !pin} className="btn-secondary w-full disabled:opacity-50">
+          {t('kiosk.unlock')}
+        </button>
+      </form>
+    </KioskScreen>
+  );
+}
+
+interface PinInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+function PinInput({ id, value, onChange, disabled }: PinInputProps) {
+  return (
+    <input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      pattern="\d*"
+      autoComplete="off"
+      maxLength={8}
+      value={value}
+      onChange={(event) => onChange(event.target.value.replace(/\D/g, ''))}
+      disabled={disabled}
+      className="form-input text-center tracking-widest"
+    />
+  );
+}
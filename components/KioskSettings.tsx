@@ -0,0 +1,124 @@
+import { FormEvent, useState } from 'react';
+import { ClipboardDocumentIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { kioskFormPath } from '@/lib/kiosk';
+import { OutreachLocation } from '@/types';
+
+interface KioskSettingsProps {
+  location: OutreachLocation;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Kiosk mode for a location: the volunteer PIN that starts a kiosk session
+ * on an event tablet, and the link to open on that tablet.
+ */
+export default function KioskSettings({ location, onClose, onChanged }: KioskSettingsProps) {
+  const [pin, setPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const kioskUrl = `${typeof window !== 'undefined' ? window.location.origin : ''}${kioskFormPath(location.id)}`;
+
+  const save = async (method: 'PUT' | 'DELETE', body?: { pin: string }) => {
+    setIsSaving(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/locations/${location.id}/kiosk`, {
+        method,
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        toast.success(result.message || 'Kiosk settings saved');
+        setPin('');
+        onChanged();
+      } else {
+        toast.error(result.message || result.error || 'Failed to save kiosk settings');
+      }
+    } catch (error) {
+      console.error('Failed to save kiosk settings:', error);
+      toast.error('Failed to save kiosk settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    save('PUT', { pin });
+  };
+
+  const turnOff = () => {
+    if (!confirm(`Turn off kiosk mode for ${location.name}? Tablets will need a new PIN to start a kiosk session.`)) return;
+    save('DELETE');
+  };
+
+  const copyKioskUrl = () => {
+    navigator.clipboard.writeText(kioskUrl);
+    toast.success('Kiosk link copied to clipboard!');
+  };
+
+  return (
+    <div className="card mb-8">
+      <div className="card-header flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-trust-900">Kiosk mode for {location.name}</h2>
+          <p className="text-sm text-trust-600 mt-1">
+            {location.kioskEnabled
+              ? `Kiosk mode is on${location.kioskPinUpdatedAt ? `; PIN set ${format(new Date(location.kioskPinUpdatedAt), 'MMM d, yyyy h:mm a')}` : ''}.`
+              : 'Kiosk mode is off.'}
+            {' '}A volunteer starts a kiosk session on a shared tablet with the PIN. The form is wiped after
+            each participant, and screenings record the volunteer and tablet.
+          </p>
+        </div>
+        <button onClick={onClose} className="text-trust-400 hover:text-trust-600" title="Close">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="card-body space-y-6">
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="kiosk-pin" className="form-label">
+              {location.kioskEnabled ? 'New volunteer PIN' : 'Volunteer PIN'}
+            </label>
+            <input
+              id="kiosk-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={pin}
+              onChange={(event) => setPin(event.target.value.replace(/\D/g, ''))}
+              className="form-input w-40"
+              minLength={4}
+              maxLength={8}
+              required
+            />
+            <p className="form-help">4 to 8 digits</p>
+          </div>
+          <button type="submit" disabled={isSaving || pin.length < 4} className="btn-primary disabled:opacity-50">
+            {location.kioskEnabled ? 'Change PIN' : 'Turn on kiosk mode'}
+          </button>
+          {location.kioskEnabled && (
+            <button type="button" onClick={turnOff} disabled={isSaving} className="btn-secondary disabled:opacity-50">
+              Turn off kiosk mode
+            </button>
+          )}
+        </form>
+
+        {location.kioskEnabled && (
+          <div>
+            <p className="form-label">Open this link on the event tablet</p>
+            <div className="flex items-center space-x-2">
+              <code className="text-xs bg-trust-100 px-2 py-1 rounded text-trust-800 truncate">{kioskUrl}</code>
+              <button onClick={copyKioskUrl} className="text-trust-400 hover:text-trust-600" title="Copy kiosk link">
+                <ClipboardDocumentIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { LanguageIcon } from '@heroicons/react/24/outline';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, type Locale } from '@/lib/i18n';
+
+interface LanguageSwitcherProps {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+  /** Accessible name for the group, in the current language */
+  label: string;
+}
+
+/**
+ * Buttons for each supported language, each named in its own language so a
+ * participant can find theirs without reading the current one.
+ */
+export default function LanguageSwitcher({ locale, onChange, label }: LanguageSwitcherProps) {
+  return (
+    <div role="group" aria-label={label} className="flex items-center space-x-1">
+      <LanguageIcon className="w-4 h-4 text-trust-500 mr-1" aria-hidden="true" />
+      {SUPPORTED_LOCALES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          onClick={() => onChange(option)}
+          aria-pressed={option === locale}
+          className={`px-2 py-1 text-sm rounded-md ${
+            option === locale
+              ? 'bg-primary-100 text-primary-700 font-medium'
+              : 'text-trust-600 hover:bg-trust-100'
+          }`}
+        >
+          {LOCALE_NAMES[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowPathIcon, CloudArrowUpIcon, ExclamationTriangleIcon, SignalSlashIcon } from '@heroicons/react/24/outline';
+import {
+  discardRejectedSubmissions,
+  isOfflineQueueSupported,
+  listQueuedSubmissions,
+  syncQueuedSubmissions,
+  type QueuedSubmission,
+} from '@/lib/offline-submissions';
+import { getTranslator, type Locale } from '@/lib/i18n';
+
+interface OfflineQueueStatusProps {
+  locale: Locale;
+}
+
+// How often to retry while screenings are waiting and the browser thinks it is online
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Screenings saved on this device that still need sending. Sends them when the
+ * page opens, when the browser comes back online, and every so often while any
+ * are waiting. Renders nothing while the queue is empty.
+ */
+export default function OfflineQueueStatus({ locale }: OfflineQueueStatusProps) {
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const [items, setItems] = useState<QueuedSubmission[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+  const isMounted = useRef(true);
+
+  const refresh = useCallback(async () => {
+    setItems(await listQueuedSubmissions());
+  }, []);
+
+  const sync = useCallback(async () => {
+    if (!isOfflineQueueSupported()) return;
+    clearTimeout(retryTimer.current);
+    setIsSyncing(true);
+    try {
+      const result = await syncQueuedSubmissions();
+      if (result.pending > 0 && isMounted.current) {
+        retryTimer.current = setTimeout(sync, Math.max(result.retryAfterMs ?? 0, RETRY_INTERVAL_MS));
+      }
+    } catch (error) {
+      console.error('Failed to send saved screenings:', error);
+    } finally {
+      setIsSyncing(false);
+      await refresh().catch(() => undefined);
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    isMounted.current = true;
+    setIsOnline(navigator.onLine);
+    sync();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      isMounted.current = false;
+      clearTimeout(retryTimer.current);
+    };
+  }, [sync]);
+
+  const handleDiscard = async () => {
+    if (!window.confirm(t('queue.discardConfirm'))) return;
+    await discardRejectedSubmissions();
+    await refresh();
+  };
+
+  const pending = items.filter((item) => item.status === 'pending');
+  const rejected = items.filter((item) => item.status === 'rejected');
+  if (pending.length === 0 && rejected.length === 0) {
+    return null;
+  }
+
+  const latestError = rejected[rejected.length - 1]?.lastError || '';
+
+  return (
+    <div role="status" className="mb-4 space-y-2 text-sm">
+      {pending.length > 0 && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-primary-200 bg-primary-50 p-3 text-primary-800">
+          <div className="flex items-start">
+            {isOnline ? (
+              <CloudArrowUpIcon className="w-5 h-5 mr-2 flex-shrink-0" aria-hidden="true" />
+            ) : (
+              <SignalSlashIcon className="w-5 h-5 mr-2 flex-shrink-0" aria-hidden="true" />
+            )}
+            <div>
+              <p>
+                {pending.length === 1
+                  ? t('queue.pendingOne')
+                  : t('queue.pendingMany', { count: pending.length })}
+              </p>
+              <p className="text-xs text-primary-600 mt-1">
+                {isSyncing ? t('queue.sending') : !isOnline ? t('queue.offline') : null}
+              </p>
+            </div>
+          </div>
+          {isOnline && (
+            <button
+              type="button"
+              onClick={sync}
+              disabled={isSyncing}
+              className="flex items-center px-3 py-1 rounded-md bg-white border border-primary-300 text-primary-700 hover:bg-primary-100 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} aria-hidden="true" />
+              {t('queue.sendNow')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {rejected.length > 0 && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-red-200 bg-red-50 p-3 text-red-800">
+          <div className="flex items-start">
+            <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" aria-hidden="true" />
+            <p>
+              {rejected.length === 1
+                ? t('queue.rejectedOne', { error: latestError })
+                : t('queue.rejectedMany', { count: rejected.length, error: latestError })}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleDiscard}
+            className="px-3 py-1 rounded-md bg-white border border-red-300 text-red-700 hover:bg-red-100"
+          >
+            {t('queue.discard')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,69 +1,144 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   DevicePhoneMobileIcon,
   PaperAirplaneIcon,
-  CheckCircleIcon,
-  ExclamationCircleIcon,
   InformationCircleIcon,
+  MegaphoneIcon,
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import { fetchWithAuth } from '@/lib/api-client';
+import {
+  renderSmsTemplate,
+  selectSmsTemplate,
+  SMS_REPLY_TEMPLATE_KEYS,
+  SMS_TEMPLATE_MAX_LENGTH,
+} from '@/lib/sms-templates';
+import { OutreachLocation, SmsLogEntry, SmsTemplate } from '@/types';
+import SmsSegmentCounter from './SmsSegmentCounter';
+import SmsStatusBadge from './SmsStatusBadge';
+
+// Built-in message types and keyword replies, which are not offered as extra templates
+const SYSTEM_TEMPLATE_KEYS = ['welcome', 'followup', 'test', ...SMS_REPLY_TEMPLATE_KEYS];
 
 interface SMSManagementProps {
   submissions: any[];
   onRefresh: () => void;
 }
 
-interface SMSHistory {
-  id: string;
-  phoneNumber: string;
-  message: string;
-  status: 'sent' | 'failed' | 'pending';
-  timestamp: Date;
-  messageId?: string;
-}
-
 export default function SMSManagement({ submissions, onRefresh }: SMSManagementProps) {
   const [activeTab, setActiveTab] = useState<'send' | 'history'>('send');
   const [isLoading, setIsLoading] = useState(false);
-  const [smsHistory, setSMSHistory] = useState<SMSHistory[]>([]);
+  // Pages of the SMS log, newest first
+  const [smsHistory, setSMSHistory] = useState<SmsLogEntry[]>([]);
+  const [historyNextToken, setHistoryNextToken] = useState<string | undefined>();
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [locationNames, setLocationNames] = useState<Map<string, string>>(new Map());
 
   // Form state
   const [selectedSubmission, setSelectedSubmission] = useState<string>('');
-  const [messageType, setMessageType] = useState<'welcome' | 'followup' | 'custom'>('welcome');
+  // `custom` or the key of the template to send; `welcome` and `followup` are the built-in message types
+  const [messageType, setMessageType] = useState<string>('welcome');
   const [customMessage, setCustomMessage] = useState('');
   const [customPhoneNumber, setCustomPhoneNumber] = useState('');
 
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const [templatesResponse, locationsResponse] = await Promise.all([
+        fetchWithAuth('/api/admin/sms-templates'),
+        fetchWithAuth('/api/admin/locations'),
+      ]);
+      const templatesResult = await templatesResponse.json();
+      const locationsResult = await locationsResponse.json();
+
+      if (templatesResult.success) {
+        setTemplates(templatesResult.data.templates);
+      }
+      if (locationsResult.success) {
+        setLocationNames(new Map(
+          (locationsResult.data as OutreachLocation[]).map((location) => [location.id, location.name])
+        ));
+      }
+    } catch (error) {
+      // Previews fall back to the built-in templates
+      console.error('Fetch SMS templates error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const fetchHistory = useCallback(async (nextToken?: string) => {
+    setIsHistoryLoading(true);
+    try {
+      const params = new URLSearchParams({ pageSize: '50' });
+      if (nextToken) params.set('nextToken', nextToken);
+
+      const response = await fetchWithAuth(`/api/admin/sms-log?${params.toString()}`);
+      const result = await response.json();
+      if (result.success) {
+        setSMSHistory((previous) => nextToken ? [...previous, ...result.data.items] : result.data.items);
+        setHistoryNextToken(result.data.nextToken);
+      } else {
+        toast.error(result.message || result.error || 'Failed to load SMS history');
+      }
+    } catch (error) {
+      console.error('Fetch SMS history error:', error);
+      toast.error('Failed to load SMS history');
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'history') {
+      fetchHistory();
+    }
+  }, [activeTab, fetchHistory]);
+
+  // Stored templates other than the built-in message types, one option per key
+  const extraTemplateOptions = Array.from(
+    new Map(
+      templates
+        .filter((template) => !SYSTEM_TEMPLATE_KEYS.includes(template.key))
+        .map((template) => [template.key, template.name])
+    )
+  );
+
   const handleSendSMS = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
       let phoneNumber: string;
-      let firstName: string;
+      let submission: any;
 
       if (selectedSubmission) {
         // Send to selected submission
-        const submission = submissions.find(s => s.id === selectedSubmission);
+        submission = submissions.find(s => s.id === selectedSubmission);
         if (!submission) {
           toast.error('Selected submission not found');
           return;
         }
         phoneNumber = submission.phone;
-        firstName = submission.firstName;
       } else {
         // Send to custom phone number
         phoneNumber = customPhoneNumber;
-        firstName = 'Participant';
       }
 
+      const isCustom = messageType === 'custom';
+
       const response = await fetchWithAuth('/api/sms/send', {
         method: 'POST',
         body: JSON.stringify({
           phoneNumber,
-          message: messageType === 'custom' ? customMessage : undefined,
-          firstName,
-          messageType,
+          message: isCustom ? customMessage : undefined,
+          messageType: messageType === 'welcome' || messageType === 'followup' ? messageType : 'custom',
+          templateKey: isCustom ? undefined : messageType,
+          // The server fills the template variables from the screening
+          submissionId: submission?.id,
         }),
       });
 
@@ -72,18 +147,6 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
       if (result.success) {
         toast.success('SMS sent successfully!');
 
-        // Add to history
-        const newHistoryItem: SMSHistory = {
-          id: Date.now().toString(),
-          phoneNumber,
-          message: messageType === 'custom' ? customMessage : getMessagePreview(messageType, firstName),
-          status: 'sent',
-          timestamp: new Date(),
-          messageId: result.data?.messageId,
-        };
-
-        setSMSHistory(prev => [newHistoryItem, ...prev]);
-
         // Reset form
         setSelectedSubmission('');
         setCustomMessage('');
@@ -127,15 +190,21 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
     }
   };
 
-  const getMessagePreview = (type: string, firstName: string): string => {
-    switch (type) {
-      case 'welcome':
-        return `Hi ${firstName}! Thank you for completing your health screening...`;
-      case 'followup':
-        return `Hi ${firstName}! This is a friendly reminder about your health screening follow-up...`;
-      default:
-        return customMessage;
+  // Same template choice the server makes, so the preview matches what is sent
+  const getMessagePreview = (submission?: any): string => {
+    if (messageType === 'custom') {
+      return customMessage;
     }
+
+    const template = selectSmsTemplate(templates, messageType, { churchId: submission?.churchId, locale: submission?.locale });
+    if (!template) {
+      return '';
+    }
+    return renderSmsTemplate(template.body, {
+      firstName: submission?.firstName,
+      locationName: submission?.churchId ? locationNames.get(submission.churchId) : undefined,
+      riskLevel: submission?.healthRiskLevel,
+    }, template.locale);
   };
 
   const formatPhoneNumber = (phone: string): string => {
@@ -156,14 +225,23 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
               <DevicePhoneMobileIcon className="w-5 h-5 mr-2 text-blue-600" />
               SMS Management
             </h2>
-            <button
-              onClick={testSMSService}
-              disabled={isLoading}
-              className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 disabled:opacity-50 flex items-center"
-            >
-              <InformationCircleIcon className="w-4 h-4 mr-1" />
-              Test Service
-            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => window.location.href = '/admin/sms-campaigns'}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 flex items-center"
+              >
+                <MegaphoneIcon className="w-4 h-4 mr-1" />
+                Bulk Campaign
+              </button>
+              <button
+                onClick={testSMSService}
+                disabled={isLoading}
+                className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 disabled:opacity-50 flex items-center"
+              >
+                <InformationCircleIcon className="w-4 h-4 mr-1" />
+                Test Service
+              </button>
+            </div>
           </div>
         </div>
 
@@ -186,7 +264,7 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
                 : 'border-transparent text-gray-500 hover:text-gray-700'
             }`}
           >
-            SMS History ({smsHistory.length})
+            SMS History
           </button>
         </div>
       </div>
@@ -241,11 +319,14 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
               </label>
               <select
                 value={messageType}
-                onChange={(e) => setMessageType(e.target.value as 'welcome' | 'followup' | 'custom')}
+                onChange={(e) => setMessageType(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
               >
                 <option value="welcome">Welcome Message</option>
                 <option value="followup">Follow-up Reminder</option>
+                {extraTemplateOptions.map(([key, name]) => (
+                  <option key={key} value={key}>{name}</option>
+                ))}
                 <option value="custom">Custom Message</option>
               </select>
             </div>
@@ -260,13 +341,12 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
                   value={customMessage}
                   onChange={(e) => setCustomMessage(e.target.value)}
                   rows={3}
+                  maxLength={SMS_TEMPLATE_MAX_LENGTH}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
                   placeholder="Enter your custom message..."
                   required={messageType === 'custom'}
                 />
-                <p className="text-sm text-gray-500 mt-1">
-                  {customMessage.length}/160 characters
-                </p>
+                <SmsSegmentCounter text={customMessage} className="mt-1" />
               </div>
             )}
 
@@ -275,11 +355,14 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
               <div className="bg-gray-50 p-4 rounded-md">
                 <h4 className="text-sm font-medium text-gray-700 mb-2">Message Preview:</h4>
                 <p className="text-sm text-gray-600 italic">
-                  {getMessagePreview(messageType, selectedSubmission ?
-                    submissions.find(s => s.id === selectedSubmission)?.firstName || 'Participant' :
-                    'Participant'
-                  )}
+                  {getMessagePreview(submissions.find(s => s.id === selectedSubmission))}
                 </p>
+                {messageType !== 'custom' && (
+                  <SmsSegmentCounter
+                    text={getMessagePreview(submissions.find(s => s.id === selectedSubmission))}
+                    className="mt-2"
+                  />
+                )}
               </div>
             )}
 
@@ -303,7 +386,7 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
             {smsHistory.length === 0 ? (
               <div className="text-center py-8">
                 <DevicePhoneMobileIcon className="w-12 h-12 mx-auto text-gray-400 mb-4" />
-                <p className="text-gray-500">No SMS messages sent yet</p>
+                <p className="text-gray-500">{isHistoryLoading ? 'Loading messages...' : 'No SMS messages sent yet'}</p>
               </div>
             ) : (
               <div className="space-y-3">
@@ -313,40 +396,38 @@ export default function SMSManagement({ submissions, onRefresh }: SMSManagementP
                       <div className="flex-1">
                         <div className="flex items-center mb-2">
                           <span className="text-sm font-medium text-gray-900">
-                            {formatPhoneNumber(sms.phoneNumber)}
+                            {sms.direction === 'inbound' ? 'From ' : ''}{formatPhoneNumber(sms.phone)}
                           </span>
                           <span className="ml-2 text-sm text-gray-500">
-                            {sms.timestamp.toLocaleString()}
+                            {new Date(sms.sentAt).toLocaleString()}
                           </span>
                         </div>
-                        <p className="text-sm text-gray-700 mb-2">{sms.message}</p>
-                        {sms.messageId && (
-                          <p className="text-xs text-gray-500">Message ID: {sms.messageId}</p>
+                        <p className="text-sm text-gray-700 mb-2">{sms.body}</p>
+                        {sms.status === 'failed' && (sms.error || sms.providerResponse) && (
+                          <p className="text-xs text-red-700 mb-1">{sms.error || sms.providerResponse}</p>
                         )}
+                        <p className="text-xs text-gray-500">
+                          {sms.direction === 'outbound' && `Message ID: ${sms.id}`}
+                          {sms.sentBy && ` · Sent by ${sms.sentBy}`}
+                        </p>
                       </div>
                       <div className="ml-4">
-                        {sms.status === 'sent' && (
-                          <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
-                            <CheckCircleIcon className="w-3 h-3 mr-1" />
-                            Sent
-                          </span>
-                        )}
-                        {sms.status === 'failed' && (
-                          <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full">
-                            <ExclamationCircleIcon className="w-3 h-3 mr-1" />
-                            Failed
-                          </span>
-                        )}
-                        {sms.status === 'pending' && (
-                          <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full">
-                            <div className="w-3 h-3 border border-yellow-600 border-t-transparent rounded-full animate-spin mr-1" />
-                            Pending
-                          </span>
-                        )}
+                        <SmsStatusBadge status={sms.status} />
                       </div>
                     </div>
                   </div>
                 ))}
+                {historyNextToken && (
+                  <div className="text-center">
+                    <button
+                      onClick={() => fetchHistory(historyNextToken)}
+                      disabled={isHistoryLoading}
+                      className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      {isHistoryLoading ? 'Loading...' : 'Load more'}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
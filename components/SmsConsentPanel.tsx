@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { NoSymbolIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { ConsentRecord, ConsentSource, HealthSubmission, SmsConsentSummary } from '@/types';
+
+interface SmsConsentPanelProps {
+  submission: HealthSubmission;
+}
+
+const SOURCE_LABELS: Record<ConsentSource, string> = {
+  screening_form: 'screening form',
+  sms_keyword: 'text reply',
+  admin: 'admin',
+};
+
+function describeRecord(record: ConsentRecord): string {
+  const action = record.status === 'granted' ? 'Consented' : 'Opted out';
+  const parts = [`${action} via ${SOURCE_LABELS[record.source]}`];
+  if (record.keyword) parts.push(`"${record.keyword}"`);
+  if (record.disclosureVersion) {
+    parts.push(`disclosure ${record.disclosureVersion}${record.disclosureLocale ? ` (${record.disclosureLocale})` : ''}`);
+  }
+  if (record.ipAddress) parts.push(`IP ${record.ipAddress}`);
+  if (record.actorEmail) parts.push(`by ${record.actorEmail}`);
+  return parts.join(' · ');
+}
+
+/**
+ * SMS consent for a submission's phone number, from the consent ledger,
+ * with actions to stop texts or (admins only) resume them.
+ */
+export default function SmsConsentPanel({ submission }: SmsConsentPanelProps) {
+  const [consent, setConsent] = useState<SmsConsentSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const fetchConsent = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/submissions/${submission.id}/consent`);
+      const result = await response.json();
+      if (result.success) {
+        setConsent(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load SMS consent:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [submission.id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchConsent();
+  }, [fetchConsent]);
+
+  const stopTexts = async () => {
+    if (!confirm('Stop all texts to this number? Only an admin can resume them.')) return;
+
+    setIsUpdating(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/sms-suppressions', {
+        method: 'POST',
+        body: JSON.stringify({ phoneNumber: submission.phone, submissionId: submission.id }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        toast.success(result.message);
+        fetchConsent();
+      } else {
+        toast.error(result.message || result.error || 'Failed to stop texts');
+      }
+    } catch {
+      toast.error('Failed to stop texts');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const resumeTexts = async () => {
+    const note = prompt('How did the participant ask to receive texts again?');
+    if (!note?.trim()) return;
+
+    setIsUpdating(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/sms-suppressions', {
+        method: 'DELETE',
+        body: JSON.stringify({ phoneNumber: submission.phone, note }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        toast.success(result.message);
+        fetchConsent();
+      } else {
+        toast.error(result.message || result.error || 'Failed to resume texts');
+      }
+    } catch {
+      toast.error('Failed to resume texts');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading || !consent) {
+    return null;
+  }
+
+  return (
+    <div className="bg-trust-50 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-lg font-medium text-trust-900">SMS Consent</h4>
+        {consent.suppression ? (
+          <button
+            onClick={resumeTexts}
+            disabled={isUpdating}
+            className="text-sm text-primary-600 hover:text-primary-900 disabled:opacity-50"
+          >
+            Resume texts
+          </button>
+        ) : (
+          <button
+            onClick={stopTexts}
+            disabled={isUpdating}
+            className="flex items-center text-sm text-red-600 hover:text-red-900 disabled:opacity-50"
+          >
+            <NoSymbolIcon className="w-4 h-4 mr-1" />
+            Stop texts
+          </button>
+        )}
+      </div>
+
+      {consent.suppression ? (
+        <p className="text-sm font-medium text-red-800 mb-2">
+          Opted out on {format(new Date(consent.suppression.createdAt), 'MMM dd, yyyy h:mm a')}; no texts are sent to this number
+        </p>
+      ) : (
+        <p className="text-sm text-health-800 mb-2">Texts allowed</p>
+      )}
+
+      {consent.records.length > 0 && (
+        <ul className="space-y-1 text-sm text-trust-600">
+          {consent.records.map((record) => (
+            <li key={record.id}>
+              {format(new Date(record.recordedAt), 'MMM dd, yyyy h:mm a')}: {describeRecord(record)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fetchWithAuth } from '@/lib/api-client';
+import { HealthSubmission, SmsLogEntry } from '@/types';
+import SmsStatusBadge from './SmsStatusBadge';
+
+interface SmsHistoryPanelProps {
+  submission: HealthSubmission;
+}
+
+function describeSender(message: SmsLogEntry): string {
+  if (message.direction === 'inbound') return 'Reply from participant';
+  if (message.campaignId) return 'Campaign';
+  if (message.sentBy) return `Sent by ${message.sentBy}`;
+  return message.templateKey === 'welcome' ? 'Welcome message' : 'Automatic';
+}
+
+/**
+ * Every text sent about a submission and every reply tied to it, newest
+ * first, with the delivery status SNS reported.
+ */
+export default function SmsHistoryPanel({ submission }: SmsHistoryPanelProps) {
+  const [messages, setMessages] = useState<SmsLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    (async () => {
+      try {
+        const response = await fetchWithAuth(`/api/admin/submissions/${submission.id}/sms`);
+        const result = await response.json();
+        if (!cancelled && result.success) {
+          setMessages(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to load SMS history:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submission.id]);
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="bg-trust-50 rounded-lg p-4">
+      <h4 className="text-lg font-medium text-trust-900 mb-3">Contact History</h4>
+      {messages.length === 0 ? (
+        <p className="text-sm text-trust-600">No texts sent or received for this screening</p>
+      ) : (
+        <ul className="space-y-3">
+          {messages.map((message) => (
+            <li
+              key={message.id}
+              className={`rounded-lg p-3 text-sm ${message.direction === 'inbound' ? 'bg-white mr-8' : 'bg-primary-50 ml-8'}`}
+            >
+              <div className="flex justify-between items-center mb-1 text-xs text-trust-600">
+                <span>
+                  {format(new Date(message.sentAt), 'MMM dd, yyyy h:mm a')} · {describeSender(message)}
+                </span>
+                <SmsStatusBadge status={message.status} />
+              </div>
+              <p className="text-trust-900 whitespace-pre-wrap">{message.body}</p>
+              {message.status === 'failed' && (message.error || message.providerResponse) && (
+                <p className="mt-1 text-xs text-red-700">{message.error || message.providerResponse}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { countSmsSegments } from '@/lib/sms-templates';
+
+interface SmsSegmentCounterProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Character and segment count for an SMS body, warning when the text
+ * falls back to UCS-2 and each segment holds far fewer characters.
+ */
+export default function SmsSegmentCounter({ text, className = '' }: SmsSegmentCounterProps) {
+  const info = countSmsSegments(text);
+
+  return (
+    <p className={`text-sm text-gray-500 ${className}`}>
+      {info.length} characters · {info.segments} {info.segments === 1 ? 'segment' : 'segments'}
+      {' '}({info.encoding}, {info.remaining} left in this segment)
+      {info.encoding === 'UCS-2' && (
+        <span className="block text-amber-700">
+          Emoji or special characters limit each segment to {info.perSegment} characters.
+        </span>
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,28 @@
+import {
+  ArrowDownLeftIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+import { SmsMessageStatus } from '@/types';
+
+const STATUS_STYLES: Record<SmsMessageStatus, { label: string; className: string; Icon: typeof ClockIcon }> = {
+  queued: { label: 'Sent', className: 'bg-yellow-100 text-yellow-800', Icon: ClockIcon },
+  delivered: { label: 'Delivered', className: 'bg-green-100 text-green-800', Icon: CheckCircleIcon },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800', Icon: ExclamationCircleIcon },
+  received: { label: 'Received', className: 'bg-blue-100 text-blue-800', Icon: ArrowDownLeftIcon },
+};
+
+/**
+ * Delivery status of a logged SMS. `queued` reads as "Sent" until the
+ * carrier's delivery receipt arrives.
+ */
+export default function SmsStatusBadge({ status }: { status: SmsMessageStatus }) {
+  const { label, className, Icon } = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label}
+    </span>
+  );
+}
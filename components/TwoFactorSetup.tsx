@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { ClipboardDocumentIcon, DocumentArrowDownIcon, QrCodeIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { TwoFactorEnrollment } from '@/types';
+
+interface TwoFactorSetupProps {
+  /** `enroll` challenge from the login step; omit when the user is already signed in */
+  challengeToken?: string;
+  /** Called once the user has saved their recovery codes */
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+interface RecoveryCodeListProps {
+  codes: string[];
+  onDone: () => void;
+  doneLabel?: string;
+}
+
+/**
+ * One-time display of recovery codes with copy and download actions
+ */
+export function RecoveryCodeList({ codes, onDone, doneLabel = 'I saved these codes' }: RecoveryCodeListProps) {
+  const text = codes.join('\n');
+
+  const handleDownload = () => {
+    const blob = new Blob([`${text}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-trust-600">
+        Each recovery code signs you in once if you lose your phone. Store them somewhere safe;
+        they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 bg-trust-100 rounded-lg p-4 font-mono text-sm text-trust-900">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex justify-between items-center">
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={() => {
+              navigator.clipboard.writeText(text);
+              toast.success('Recovery codes copied to clipboard!');
+            }}
+            className="text-trust-600 hover:text-trust-900 flex items-center text-sm"
+          >
+            <ClipboardDocumentIcon className="w-4 h-4 mr-1" />
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="text-trust-600 hover:text-trust-900 flex items-center text-sm"
+          >
+            <DocumentArrowDownIcon className="w-4 h-4 mr-1" />
+            Download
+          </button>
+        </div>
+        <button type="button" onClick={onDone} className="btn-primary">
+          {doneLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Authenticator enrollment: QR code, confirmation code, then recovery codes
+ */
+export default function TwoFactorSetup({ challengeToken, onComplete, onCancel }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    // Each setup call replaces the pending secret, so only show the latest one
+    let isCurrent = true;
+
+    const startSetup = async () => {
+      try {
+        const response = await fetchWithAuth('/api/admin/two-factor/setup', {
+          method: 'POST',
+          body: JSON.stringify({ challengeToken }),
+        });
+        const result = await response.json();
+
+        if (!isCurrent) return;
+        if (result.success) {
+          setEnrollment(result.data);
+        } else {
+          toast.error(result.error || 'Failed to start two-factor setup');
+        }
+      } catch (error) {
+        console.error('Two-factor setup error:', error);
+        toast.error('Failed to start two-factor setup');
+      }
+    };
+
+    startSetup();
+    return () => {
+      isCurrent = false;
+    };
+  }, [challengeToken]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetchWithAuth('/api/admin/two-factor/enable', {
+        method: 'POST',
+        body: JSON.stringify({ code, challengeToken }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Two-factor authentication enabled!');
+        setRecoveryCodes(result.data.recoveryCodes);
+      } else {
+        toast.error(result.message || result.error || 'Invalid code');
+      }
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      toast.error('Failed to enable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={onComplete} />;
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="loading-spinner" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <div className="flex items-center text-sm text-trust-700">
+        <QrCodeIcon className="w-5 h-5 mr-2 text-primary-600" />
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </div>
+      <div className="flex justify-center">
+        {/* A generated data URL; there is nothing for the image optimizer to fetch */}
+        <Image src={enrollment.qrCode} alt="Two-factor authentication QR code" width={240} height={240} unoptimized />
+      </div>
+      <div className="text-center">
+        <p className="text-xs text-trust-500 mb-1">Can&apos;t scan? Enter this key instead:</p>
+        <code className="bg-trust-100 px-3 py-1 rounded text-sm text-trust-900 font-mono break-all">
+          {enrollment.secret}
+        </code>
+      </div>
+      <div>
+        <label className="form-label">6-digit code from the app</label>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="form-input text-center tracking-widest"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          placeholder="123456"
+          autoFocus
+        />
+      </div>
+      <div className="flex justify-end space-x-3">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+        )}
+        <button type="submit" disabled={isSubmitting || code.trim().length < 6} className="btn-primary">
+          {isSubmitting ? 'Verifying...' : 'Verify and Enable'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,192 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getJwtSecret,
+  getTokenClaims,
+  getUserFromRefreshToken,
+  JwtPayload,
+  refreshUserTokens,
+  requireAuth,
+  startSession,
+} from '@/lib/auth';
+import { ROLE_DEFAULT_PERMISSIONS } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { AdminUser, AUTH_COOKIE_NAMES } from '@/types';
+
+describe('getJwtSecret', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses JWT_SECRET when it is set', () => {
+    vi.stubEnv('JWT_SECRET', 'configured-secret');
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(getJwtSecret()).toBe('configured-secret');
+  });
+
+  it('refuses to sign tokens without JWT_SECRET outside development', () => {
+    vi.stubEnv('JWT_SECRET', '');
+
+    for (const env of ['production', 'test']) {
+      vi.stubEnv('NODE_ENV', env);
+      expect(() => getJwtSecret()).toThrow('JWT_SECRET is required');
+    }
+  });
+
+  it('falls back to a development-only secret under next dev', () => {
+    vi.stubEnv('JWT_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'development');
+
+    expect(getJwtSecret()).toBe('development-only-jwt-secret');
+  });
+});
+
+function request(cookie = ''): NextApiRequest {
+  return {
+    headers: { cookie, 'user-agent': 'vitest', 'x-forwarded-for': '203.0.113.7' },
+  } as unknown as NextApiRequest;
+}
+
+function response() {
+  const headers = new Map<string, unknown>();
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    getHeader: (name: string) => headers.get(name.toLowerCase()),
+    setHeader: (name: string, value: unknown) => {
+      headers.set(name.toLowerCase(), value);
+      return res;
+    },
+    status: (code: number) => {
+      res.statusCode = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      res.body = body;
+      return res;
+    },
+  };
+  return res as typeof res & NextApiResponse;
+}
+
+function copyClaims(payload: JwtPayload) {
+  return {
+    userId: payload.userId,
+    email: payload.email,
+    role: payload.role,
+    name: payload.name,
+    churchId: payload.churchId,
+    permissions: payload.permissions,
+  };
+}
+
+let userCount = 0;
+
+async function signedInUser(overrides: Partial<AdminUser> = {}) {
+  const user: AdminUser = {
+    id: `user-${++userCount}`,
+    email: `coordinator${userCount}@example.org`,
+    passwordHash: 'unused',
+    role: 'coordinator',
+    firstName: 'Ana',
+    lastName: 'Diaz',
+    createdDate: new Date().toISOString(),
+    isActive: true,
+    churchId: 'church-1',
+    permissions: { ...ROLE_DEFAULT_PERMISSIONS.coordinator },
+    ...overrides,
+  };
+  await getStorage().users.create(user);
+
+  const { refreshToken, sessionId } = await startSession(request(), response(), getTokenClaims(user));
+  const refreshUser = getUserFromRefreshToken(request(`${AUTH_COOKIE_NAMES.refreshToken}=${refreshToken}`));
+  if (!refreshUser) {
+    throw new Error('Refresh token did not decode');
+  }
+  return { user, refreshUser, sessionId };
+}
+
+describe('refreshUserTokens', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('re-reads the account so changed access applies on refresh', async () => {
+    const { user, refreshUser, sessionId } = await signedInUser();
+    await getStorage().users.update(user.id, {
+      churchId: 'church-2',
+      permissions: { ...user.permissions, canExportData: false },
+    });
+
+    const result = await refreshUserTokens(request(), response(), refreshUser);
+
+    expect(result.status).toBe('refreshed');
+    if (result.status === 'refreshed') {
+      expect(result.claims).toMatchObject({ churchId: 'church-2', sessionId });
+      expect(result.claims.permissions?.canExportData).toBe(false);
+      expect(result.tokens.refreshToken).toBeDefined();
+    }
+  });
+
+  it.each([
+    ['deactivated', { isActive: false }],
+    ['unassigned', { churchId: '' }],
+  ])('revokes the session of a %s account', async (_label, updates) => {
+    const { user, refreshUser, sessionId } = await signedInUser();
+    await getStorage().users.update(user.id, updates);
+
+    const result = await refreshUserTokens(request(), response(), refreshUser);
+
+    expect(result).toEqual({ status: 'account_disabled' });
+    expect((await getStorage().sessions.get(sessionId))?.revokedAt).toBeDefined();
+  });
+
+  it('ends sessions of accounts that have not enrolled in mandatory two-factor', async () => {
+    vi.stubEnv('APP_REQUIRE_TWO_FACTOR', 'true');
+    const { refreshUser, sessionId } = await signedInUser();
+
+    expect(await refreshUserTokens(request(), response(), refreshUser)).toEqual({ status: 'two_factor_required' });
+    expect((await getStorage().sessions.get(sessionId))?.revokedAt).toBeDefined();
+  });
+
+  it('rejects a refresh token that was already rotated', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { refreshUser } = await signedInUser();
+    await refreshUserTokens(request(), response(), refreshUser);
+
+    vi.useFakeTimers({ now: Date.now() + 60 * 1000, toFake: ['Date'] });
+    try {
+      expect(await refreshUserTokens(request(), response(), refreshUser)).toEqual({ status: 'session_expired' });
+    } finally {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe('requireAuth', () => {
+  it('refreshes from the refresh cookie with the current account claims', async () => {
+    const { user, refreshUser } = await signedInUser();
+    await getStorage().users.update(user.id, { role: 'viewer', permissions: { ...ROLE_DEFAULT_PERMISSIONS.viewer } });
+    const { refreshToken } = await startSession(request(), response(), copyClaims(refreshUser));
+
+    const res = response();
+    const resolved = await requireAuth(request(`${AUTH_COOKIE_NAMES.refreshToken}=${refreshToken}`), res);
+
+    expect(resolved).toMatchObject({ userId: user.id, role: 'viewer', type: 'access' });
+    expect(String(res.getHeader('Set-Cookie'))).toContain(`${AUTH_COOKIE_NAMES.accessToken}=`);
+  });
+
+  it('rejects the refresh cookie of a deactivated account', async () => {
+    const { user, refreshUser } = await signedInUser();
+    await getStorage().users.update(user.id, { isActive: false });
+    const { refreshToken } = await startSession(request(), response(), copyClaims(refreshUser));
+
+    const res = response();
+    const resolved = await requireAuth(request(`${AUTH_COOKIE_NAMES.refreshToken}=${refreshToken}`), res);
+
+    expect(resolved).toBeNull();
+    expect(res.statusCode).toBe(401);
+  });
+});
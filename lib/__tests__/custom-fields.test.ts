@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkCustomFieldDefinitions,
+  normalizeCustomField,
+  validateCustomFieldAnswers,
+  validateCustomFieldValue,
+} from '@/lib/custom-fields';
+import { getTranslator } from '@/lib/i18n';
+import { CustomField } from '@/types';
+
+function field(overrides: Partial<CustomField>): CustomField {
+  return { id: 'field-1', type: 'text', label: 'Answer', required: false, ...overrides };
+}
+
+describe('validateCustomFieldValue', () => {
+  it('trims text and applies its length and pattern rules', () => {
+    const code = field({ label: 'Member code', validation: { min: 3, max: 6, pattern: '[A-Z]+\\d*' } });
+
+    expect(validateCustomFieldValue(code, '  AB12 ')).toEqual({ value: 'AB12' });
+    expect(validateCustomFieldValue(code, 'AB')).toEqual({ error: 'Member code must be at least 3 characters' });
+    expect(validateCustomFieldValue(code, 'ABCDEFG')).toEqual({ error: 'Member code must be 6 characters or less' });
+    // The pattern has to match the whole answer
+    expect(validateCustomFieldValue(code, 'AB12x')).toEqual({ error: 'Member code is not in the expected format' });
+    expect(validateCustomFieldValue(field({}), 'x'.repeat(501)).error).toBe('Answer must be 500 characters or less');
+  });
+
+  it('leaves optional fields empty and requires the rest', () => {
+    expect(validateCustomFieldValue(field({}), '   ')).toEqual({});
+    expect(validateCustomFieldValue(field({}), null)).toEqual({});
+    expect(validateCustomFieldValue(field({ required: true }), '')).toEqual({ error: 'Answer is required' });
+    expect(validateCustomFieldValue(field({}), { text: 'x' })).toEqual({ error: 'Answer is invalid' });
+  });
+
+  it('parses numbers within their range', () => {
+    const household = field({ type: 'number', label: 'Household size', validation: { min: 1, max: 12 } });
+
+    expect(validateCustomFieldValue(household, '4')).toEqual({ value: 4 });
+    expect(validateCustomFieldValue(household, 3)).toEqual({ value: 3 });
+    expect(validateCustomFieldValue(household, 'four').error).toBe('Household size must be a number');
+    expect(validateCustomFieldValue(household, '0').error).toBe('Household size must be at least 1');
+    expect(validateCustomFieldValue(household, '13').error).toBe('Household size must be at most 12');
+  });
+
+  it('accepts only listed options and real calendar dates', () => {
+    const service = field({ type: 'select', label: 'Service', options: ['Morning', 'Evening'] });
+    const visit = field({ type: 'date', label: 'Last visit' });
+
+    expect(validateCustomFieldValue(service, 'Evening')).toEqual({ value: 'Evening' });
+    expect(validateCustomFieldValue(service, 'evening').error).toBe('Please choose an option for Service');
+    expect(validateCustomFieldValue(visit, '2024-02-29')).toEqual({ value: '2024-02-29' });
+    for (const date of ['2026-02-30', '2026-13-01', '03/04/2026']) {
+      expect(validateCustomFieldValue(visit, date).error).toBe('Last visit must be a valid date');
+    }
+  });
+
+  it('reads checkboxes from the form and the API, and enforces required ones', () => {
+    const agree = field({ type: 'checkbox', label: 'Photo release', required: true });
+
+    expect(validateCustomFieldValue(agree, true)).toEqual({ value: true });
+    expect(validateCustomFieldValue(agree, 'true')).toEqual({ value: true });
+    expect(validateCustomFieldValue(agree, false)).toEqual({ error: 'Photo release must be checked' });
+    expect(validateCustomFieldValue(field({ type: 'checkbox' }), undefined)).toEqual({ value: false });
+  });
+
+  it('reports errors in the participant language', () => {
+    expect(validateCustomFieldValue(field({ required: true, label: 'Iglesia' }), '', getTranslator('es')))
+      .toEqual({ error: 'Iglesia es obligatorio' });
+  });
+});
+
+describe('validateCustomFieldAnswers', () => {
+  it('keeps answers to the location fields only and collects every error', () => {
+    const fields = [
+      field({ id: 'size', type: 'number', label: 'Household size' }),
+      field({ id: 'notes', label: 'Notes' }),
+      field({ id: 'release', type: 'checkbox', label: 'Photo release', required: true }),
+    ];
+
+    const result = validateCustomFieldAnswers(fields, { size: '3', notes: '', release: false, other: 'dropped' });
+
+    expect(result).toEqual({
+      answers: [{ fieldId: 'size', label: 'Household size', value: 3 }],
+      errors: ['Photo release must be checked'],
+    });
+  });
+});
+
+describe('field definitions', () => {
+  it('drops settings that do not apply to the field type', () => {
+    const changed = field({
+      type: 'select',
+      label: ' Service ',
+      options: [' Morning ', '', 'Evening'],
+      placeholder: 'Pick one',
+      validation: { min: 1, pattern: '\\d+' },
+    });
+
+    expect(normalizeCustomField(changed)).toEqual({
+      id: 'field-1',
+      type: 'select',
+      label: 'Service',
+      required: false,
+      options: ['Morning', 'Evening'],
+    });
+  });
+
+  it('reports problems the shape does not catch', () => {
+    const problems = checkCustomFieldDefinitions([
+      field({ id: 'a', label: 'Service', type: 'select', options: ['Morning', 'Morning'] }),
+      field({ id: 'a', label: 'service ' }),
+      field({ id: 'b', label: 'Size', type: 'number', validation: { min: 5, max: 1 } }),
+      field({ id: 'c', label: 'Code', validation: { pattern: '[' } }),
+      field({ id: 'd', label: 'Choice', type: 'select' }),
+    ]);
+
+    expect(problems).toEqual([
+      'Service has the same option twice',
+      'service has the same id as another question',
+      'More than one question is labeled "service"',
+      'Size has a minimum greater than its maximum',
+      'Code has a pattern that is not a valid regular expression',
+      'Choice needs at least one option',
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  applySubmissionToRollups,
+  getBmiBucket,
+  getDashboardStatsFromRollups,
+  rebuildRollups,
+  ROLLUP_KEYS,
+} from '@/lib/dashboard-rollups';
+import { getStorage } from '@/lib/storage';
+import { OutreachLocation } from '@/types';
+import { buildSubmission } from './fixtures';
+
+const now = new Date('2026-03-10T18:00:00.000Z');
+
+const locations = [
+  { id: 'church-1', name: 'First Church' },
+  { id: 'church-2', name: 'Second Church' },
+] as OutreachLocation[];
+
+function readRollups(...keys: string[]) {
+  return getStorage().rollups.getMany(keys);
+}
+
+describe('applySubmissionToRollups', () => {
+  beforeEach(async () => {
+    await rebuildRollups([]);
+  });
+
+  it('counts a new submission in the global and location scopes', async () => {
+    const submission = buildSubmission({ healthRiskLevel: 'High', healthRiskScore: 5, estimatedBMI: 31 });
+
+    await applySubmissionToRollups(submission);
+
+    const day = ROLLUP_KEYS.day(new Date(submission.submissionDate));
+    const records = await readRollups(ROLLUP_KEYS.TOTALS, ROLLUP_KEYS.location('church-1'), day);
+    expect(records[ROLLUP_KEYS.TOTALS]).toMatchObject({
+      total: 1,
+      riskScoreSum: 5,
+      withContact: 1,
+      'risk:High': 1,
+      'followUp:Pending': 1,
+      'bmi:obese': 1,
+      'gender:female': 1,
+    });
+    expect(records[ROLLUP_KEYS.location('church-1')]).toEqual(records[ROLLUP_KEYS.TOTALS]);
+    expect(records[day]).toEqual({ count: 1, 'risk:High': 1 });
+    expect(await getStorage().rollups.getRecent(ROLLUP_KEYS.RECENT)).toEqual([submission.id]);
+  });
+
+  it('moves an updated submission between buckets without changing the total', async () => {
+    const before = buildSubmission({ healthRiskLevel: 'Low', healthRiskScore: 1 });
+    await applySubmissionToRollups(before);
+
+    await applySubmissionToRollups(
+      { ...before, healthRiskLevel: 'Moderate', healthRiskScore: 4, followUpStatus: 'Contacted' },
+      before
+    );
+
+    const { [ROLLUP_KEYS.TOTALS]: totals } = await readRollups(ROLLUP_KEYS.TOTALS);
+    expect(totals).toMatchObject({
+      total: 1,
+      riskScoreSum: 4,
+      'risk:Low': 0,
+      'risk:Moderate': 1,
+      'followUp:Pending': 0,
+      'followUp:Contacted': 1,
+    });
+  });
+
+  it('moves a submission reassigned to another location', async () => {
+    const before = buildSubmission();
+    await applySubmissionToRollups(before);
+
+    await applySubmissionToRollups({ ...before, churchId: 'church-2' }, before);
+
+    const records = await readRollups(ROLLUP_KEYS.location('church-1'), ROLLUP_KEYS.location('church-2'));
+    expect(records[ROLLUP_KEYS.location('church-1')].total).toBe(0);
+    expect(records[ROLLUP_KEYS.location('church-2')].total).toBe(1);
+  });
+
+  it('matches a full rebuild after a series of writes', async () => {
+    const first = buildSubmission({ healthRiskLevel: 'Low' });
+    const second = buildSubmission({ churchId: 'church-2', healthRiskLevel: 'High', healthRiskScore: 6 });
+    const secondUpdated = { ...second, followUpStatus: 'Completed' as const, estimatedAge: 40 };
+    await applySubmissionToRollups(first);
+    await applySubmissionToRollups(second);
+    await applySubmissionToRollups(secondUpdated, second);
+    const incremental = await getDashboardStatsFromRollups(locations, undefined, now);
+
+    await rebuildRollups([first, secondUpdated]);
+    const rebuilt = await getDashboardStatsFromRollups(locations, undefined, now);
+
+    expect(incremental).toEqual(rebuilt);
+  });
+});
+
+describe('getDashboardStatsFromRollups', () => {
+  beforeEach(async () => {
+    await rebuildRollups([]);
+  });
+
+  it('reads one location when scoped to it', async () => {
+    const submissions = [
+      buildSubmission({ healthRiskLevel: 'Low', healthRiskScore: 2 }),
+      buildSubmission({ healthRiskLevel: 'High', healthRiskScore: 6 }),
+      buildSubmission({ churchId: 'church-2', healthRiskLevel: 'Very High', healthRiskScore: 8, phone: '', email: '' }),
+    ];
+    await Promise.all(submissions.map((submission) => getStorage().submissions.create(submission)));
+    await rebuildRollups(submissions);
+
+    const global = await getDashboardStatsFromRollups(locations, undefined, now);
+    const scoped = await getDashboardStatsFromRollups(locations, 'church-1', now);
+
+    expect(global).toMatchObject({
+      totalSubmissions: 3,
+      todaySubmissions: 3,
+      averageRiskScore: 16 / 3,
+      conversionRate: 2 / 3,
+      riskDistribution: { low: 1, moderate: 0, high: 1, veryHigh: 1 },
+    });
+    expect(global.topLocations.map((location) => location.name)).toEqual(['First Church', 'Second Church']);
+    expect(scoped).toMatchObject({ totalSubmissions: 2, averageRiskScore: 4, conversionRate: 1 });
+    expect(scoped.recentSubmissions.map((submission) => submission.id).sort())
+      .toEqual([submissions[0].id, submissions[1].id].sort());
+  });
+});
+
+describe('getBmiBucket', () => {
+  it('prefers the reported category and falls back to the estimate', () => {
+    expect(getBmiBucket({ bmiCategory: 'Normal weight', estimatedBMI: 32 })).toBe('normal');
+    expect(getBmiBucket({ estimatedBMI: 18.4 })).toBe('underweight');
+    expect(getBmiBucket({ estimatedBMI: 25 })).toBe('overweight');
+    expect(getBmiBucket({})).toBe('unknown');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dismissDuplicate,
+  findDuplicateMatches,
+  hasWelcomeSmsBeenSent,
+  identityMatchKey,
+  mergeSubmissions,
+  phoneMatchKey,
+  unlinkedMatches,
+} from '@/lib/duplicates';
+import { resolveParticipant } from '@/lib/participants';
+import { getStorage } from '@/lib/storage';
+import { HealthSubmission } from '@/types';
+import { buildSubmission } from './fixtures';
+
+const actor = { userId: 'admin-1', email: 'admin@example.org', role: 'admin' };
+
+/** Save a screening with its match keys derived the way the submission API does */
+async function saveScreening(overrides: Partial<HealthSubmission> = {}): Promise<HealthSubmission> {
+  const submission = buildSubmission(overrides);
+  submission.phoneKey = phoneMatchKey(submission.phone);
+  submission.identityKey = identityMatchKey(submission.firstName, submission.lastName, submission.dateOfBirth);
+  await getStorage().submissions.create(submission);
+  return submission;
+}
+
+describe('match keys', () => {
+  it('normalizes US phone numbers and ignores ones too short to match on', () => {
+    expect(phoneMatchKey('(555) 201-3344')).toBe('5552013344');
+    expect(phoneMatchKey('+1 555.201.3344')).toBe('5552013344');
+    expect(phoneMatchKey('201-3344')).toBeUndefined();
+    expect(phoneMatchKey(undefined)).toBeUndefined();
+  });
+
+  it('ignores case and punctuation in names but keeps accented letters', () => {
+    expect(identityMatchKey("Mary-Ann", "O'Neil", '1970-04-12')).toBe('oneil|maryann|1970-04-12');
+    expect(identityMatchKey('maryann', 'ONEIL', '1970-04-12T00:00:00.000Z')).toBe('oneil|maryann|1970-04-12');
+    expect(identityMatchKey('José', 'Núñez', '1980-01-01')).toBe('núñez|josé|1980-01-01');
+    expect(identityMatchKey('', 'Lopez', '1970-04-12')).toBeUndefined();
+  });
+});
+
+describe('findDuplicateMatches', () => {
+  it('reports every shared key of earlier screenings, newest first', async () => {
+    const older = await saveScreening({
+      firstName: 'Rosa',
+      lastName: 'Vega',
+      phone: '555-300-0001',
+      submissionDate: '2026-01-05T10:00:00.000Z',
+    });
+    const newer = await saveScreening({
+      firstName: 'Other',
+      lastName: 'Person',
+      phone: '555-300-0001',
+      submissionFingerprint: 'fp-300',
+      submissionDate: '2026-02-05T10:00:00.000Z',
+    });
+    const unrelated = await saveScreening({ firstName: 'Nobody', lastName: 'Else', phone: '555-300-9999' });
+
+    const submission = await saveScreening({
+      firstName: 'rosa',
+      lastName: 'VEGA',
+      phone: '+1 (555) 300-0001',
+      submissionFingerprint: 'fp-300',
+    });
+    const matches = await findDuplicateMatches(submission);
+
+    expect(matches.map((match) => [match.submission.id, match.reasons])).toEqual([
+      [newer.id, ['fingerprint', 'phone']],
+      [older.id, ['phone', 'name_dob']],
+    ]);
+    expect(matches.some((match) => match.submission.id === unrelated.id)).toBe(false);
+  });
+
+  it('does not flag screenings already linked to the same participant', async () => {
+    const person = { lastName: 'Linked', phone: '555-301-0001' };
+    const linked = await saveScreening({ ...person, participantId: 'participant-301' });
+    const other = await saveScreening(person);
+    const submission = await saveScreening(person);
+
+    const matches = unlinkedMatches(await findDuplicateMatches(submission), 'participant-301');
+
+    expect(matches.map((match) => match.submission.id)).toEqual([other.id]);
+    expect(matches.map((match) => match.submission.id)).not.toContain(linked.id);
+  });
+
+  it('knows when the welcome text already went to the phone number', async () => {
+    await saveScreening({ lastName: 'Welcomed', phone: '555-302-0001', welcomeSmsSentAt: '2026-01-01T00:00:00.000Z' });
+    const submission = await saveScreening({ lastName: 'Welcomed', phone: '555-302-0001' });
+    const nameOnly = await saveScreening({ firstName: 'Solo', lastName: 'Match', phone: '555-302-0002' });
+
+    expect(hasWelcomeSmsBeenSent(await findDuplicateMatches(submission))).toBe(true);
+    expect(hasWelcomeSmsBeenSent(await findDuplicateMatches(nameOnly))).toBe(false);
+  });
+});
+
+describe('mergeSubmissions', () => {
+  it('links every record to one participant and folds in their other participants', async () => {
+    const primary = await saveScreening({ phone: '555-400-0001' });
+    const flagged = await saveScreening({ phone: '555-400-0001', duplicateStatus: 'pending' });
+    // Another participant with a screening that is not part of the merge
+    const absorbedId = 'participant-400';
+    await getStorage().participants.create({
+      id: absorbedId,
+      firstName: 'Maria',
+      lastName: 'Lopez',
+      dateOfBirth: '1970-04-12',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    const selected = await saveScreening({ participantId: absorbedId });
+    const carried = await saveScreening({ participantId: absorbedId });
+
+    const { participantId, merged } = await mergeSubmissions(primary, [primary, flagged, selected], actor);
+
+    expect(merged.map((record) => record.participantId)).toEqual([participantId, participantId, participantId]);
+    expect(merged.map((record) => record.duplicateStatus)).toEqual([undefined, 'merged', undefined]);
+    expect(merged[1].mergeHistory).toEqual([
+      expect.objectContaining({
+        action: 'merged',
+        by: actor.email,
+        participantId,
+        submissionIds: [primary.id, flagged.id, selected.id],
+      }),
+    ]);
+    expect((await getStorage().submissions.get(carried.id))?.participantId).toBe(participantId);
+    expect((await resolveParticipant(absorbedId))?.id).toBe(participantId);
+  });
+
+  it('reuses the primary participant on a later merge', async () => {
+    const primary = await saveScreening({ phone: '555-401-0001' });
+    const first = await mergeSubmissions(primary, [primary], actor);
+    const linkedPrimary = (await getStorage().submissions.get(primary.id)) as HealthSubmission;
+    const later = await saveScreening({ phone: '555-401-0001', duplicateStatus: 'pending' });
+
+    const second = await mergeSubmissions(linkedPrimary, [later], actor);
+
+    expect(second.participantId).toBe(first.participantId);
+  });
+});
+
+describe('dismissDuplicate', () => {
+  it('records the dismissed candidates on the flagged screening', async () => {
+    const flagged = await saveScreening({
+      duplicateStatus: 'pending',
+      duplicateCandidates: [{ submissionId: 'submission-a', reasons: ['phone'] }],
+    });
+
+    const dismissed = await dismissDuplicate(flagged, actor);
+
+    expect(dismissed?.duplicateStatus).toBe('dismissed');
+    expect(dismissed?.mergeHistory).toEqual([
+      expect.objectContaining({ action: 'dismissed', submissionIds: [flagged.id, 'submission-a'] }),
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+import { HealthSubmission } from '@/types';
+
+let nextId = 1;
+
+/** A saved screening with no risk factors; override what the test is about */
+export function buildSubmission(overrides: Partial<HealthSubmission> = {}): HealthSubmission {
+  const id = `submission-${nextId++}`;
+  return {
+    id,
+    firstName: 'Maria',
+    lastName: 'Lopez',
+    dateOfBirth: '1970-04-12',
+    selfieUrl: `submissions/${id}/photo.jpg`,
+    churchId: 'church-1',
+    submissionDate: '2026-03-10T15:00:00.000Z',
+    familyHistoryDiabetes: false,
+    familyHistoryHighBP: false,
+    familyHistoryDementia: false,
+    nerveSymptoms: false,
+    eczemaHistory: false,
+    familyHistoryAsthma: false,
+    sex: 'female',
+    cardiovascularHistory: false,
+    chronicKidneyDisease: false,
+    diabetes: false,
+    insuranceType: 'private',
+    tcpaConsent: true,
+    phone: '(555) 201-3344',
+    followUpStatus: 'Pending',
+    ...overrides,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canAccessChurch,
+  getChurchScope,
+  hasPermission,
+  hasValidScope,
+  resolvePermissions,
+  ROLE_DEFAULT_PERMISSIONS,
+} from '@/lib/permissions';
+
+const admin = { role: 'admin', churchId: 'church-1' };
+const coordinator = { role: 'coordinator', churchId: 'church-1' };
+const viewer = { role: 'viewer', churchId: 'church-1' };
+
+describe('resolvePermissions', () => {
+  it('gives admins every flag regardless of stored flags', () => {
+    const permissions = resolvePermissions({
+      role: 'admin',
+      permissions: { ...ROLE_DEFAULT_PERMISSIONS.viewer, canManageUsers: false },
+    });
+
+    expect(Object.values(permissions).every(Boolean)).toBe(true);
+  });
+
+  it('layers stored flags over the role defaults', () => {
+    expect(hasPermission(viewer, 'canExportData')).toBe(false);
+    expect(hasPermission({ ...viewer, permissions: { ...ROLE_DEFAULT_PERMISSIONS.viewer, canExportData: true } }, 'canExportData'))
+      .toBe(true);
+    expect(hasPermission({ ...coordinator, permissions: { ...ROLE_DEFAULT_PERMISSIONS.coordinator, canExportData: false } }, 'canExportData'))
+      .toBe(false);
+  });
+
+  it('denies everything to unknown roles', () => {
+    expect(Object.values(resolvePermissions({ role: 'volunteer', churchId: 'church-1' })).some(Boolean)).toBe(false);
+  });
+});
+
+describe('location scope', () => {
+  it('never scopes admins', () => {
+    expect(getChurchScope(admin)).toBeUndefined();
+    expect(hasValidScope({ role: 'admin' })).toBe(true);
+    expect(canAccessChurch(admin, 'church-2')).toBe(true);
+  });
+
+  it('limits coordinators and viewers to their location', () => {
+    for (const subject of [coordinator, viewer]) {
+      expect(getChurchScope(subject)).toBe('church-1');
+      expect(hasValidScope(subject)).toBe(true);
+      expect(canAccessChurch(subject, 'church-1')).toBe(true);
+      expect(canAccessChurch(subject, 'church-2')).toBe(false);
+      expect(canAccessChurch(subject, undefined)).toBe(false);
+    }
+  });
+
+  it('gives non-admin accounts without a location no access', () => {
+    for (const role of ['coordinator', 'viewer', 'volunteer']) {
+      const subject = { role, churchId: undefined };
+      expect(hasValidScope(subject)).toBe(false);
+      expect(canAccessChurch(subject, 'church-1')).toBe(false);
+      expect(canAccessChurch(subject, undefined)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { NextApiRequest } from 'next';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSession, RefreshRotationResult, rotateRefreshToken } from '@/lib/sessions';
+import { getStorage } from '@/lib/storage';
+
+function request(ip = '203.0.113.7'): NextApiRequest {
+  return {
+    headers: {
+      'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 Chrome/120.0 Safari/537.36',
+      'x-forwarded-for': ip,
+    },
+  } as unknown as NextApiRequest;
+}
+
+function newSession() {
+  return createSession(request(), { userId: 'user-1', email: 'admin@example.org' });
+}
+
+function rotated(result: RefreshRotationResult) {
+  if (result.status !== 'rotated') {
+    throw new Error(`Expected the token to rotate, got ${result.status}`);
+  }
+  return result;
+}
+
+describe('rotateRefreshToken', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('swaps the presented token for a new one', async () => {
+    const session = await newSession();
+
+    const result = rotated(await rotateRefreshToken(session.id, session.refreshTokenId, request('198.51.100.4')));
+
+    expect(result.refreshTokenId).not.toBe(session.refreshTokenId);
+    expect(result.session.refreshTokenId).toBe(result.refreshTokenId);
+    expect(result.session.previousRefreshTokenId).toBe(session.refreshTokenId);
+    expect(result.session.ipAddress).toBe('198.51.100.4');
+    expect(result.session.rotatedAt).toBeDefined();
+  });
+
+  it('accepts the just-rotated token from a concurrent refresh', async () => {
+    const session = await newSession();
+    const first = rotated(await rotateRefreshToken(session.id, session.refreshTokenId, request()));
+
+    const second = await rotateRefreshToken(session.id, session.refreshTokenId, request());
+
+    expect(second.status).toBe('concurrent');
+    const stored = await getStorage().sessions.get(session.id);
+    expect(stored?.revokedAt).toBeUndefined();
+    expect(stored?.refreshTokenId).toBe(first.refreshTokenId);
+  });
+
+  it('revokes the session when a rotated token is replayed after the grace period', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const session = await newSession();
+    await rotateRefreshToken(session.id, session.refreshTokenId, request());
+
+    vi.useFakeTimers({ now: Date.now() + 31 * 1000, toFake: ['Date'] });
+    const result = await rotateRefreshToken(session.id, session.refreshTokenId, request());
+
+    expect(result.status).toBe('reused');
+    const stored = await getStorage().sessions.get(session.id);
+    expect(stored?.revokedAt).toBeDefined();
+    expect(stored?.revokedReason).toBe('refresh_token_reuse');
+  });
+
+  it('revokes the session when an unknown token is presented', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const session = await newSession();
+
+    const result = await rotateRefreshToken(session.id, 'not-the-refresh-token', request());
+
+    expect(result.status).toBe('reused');
+    expect((await getStorage().sessions.get(session.id))?.revokedReason).toBe('refresh_token_reuse');
+  });
+
+  it('rejects revoked, expired and missing sessions', async () => {
+    const revoked = await newSession();
+    await getStorage().sessions.update(revoked.id, { revokedAt: new Date().toISOString() });
+    const expired = await newSession();
+    await getStorage().sessions.update(expired.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await rotateRefreshToken(revoked.id, revoked.refreshTokenId, request())).toEqual({ status: 'invalid' });
+    expect(await rotateRefreshToken(expired.id, expired.refreshTokenId, request())).toEqual({ status: 'invalid' });
+    expect(await rotateRefreshToken('no-such-session', 'token', request())).toEqual({ status: 'invalid' });
+  });
+
+  it('lets only one of two simultaneous refreshes rotate', async () => {
+    const session = await newSession();
+
+    const results = await Promise.all([
+      rotateRefreshToken(session.id, session.refreshTokenId, request()),
+      rotateRefreshToken(session.id, session.refreshTokenId, request()),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['concurrent', 'rotated']);
+  });
+});
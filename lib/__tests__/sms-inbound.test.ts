@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSmsConsent, isSuppressed, optOut, recordConsent } from '@/lib/consent/ledger';
+import { classifyInboundSms, handleInboundSms } from '@/lib/sms-inbound';
+import { smsService } from '@/lib/sms-service';
+
+describe('classifyInboundSms', () => {
+  it('opts out on a STOP keyword at the start of the reply', () => {
+    for (const body of ['STOP', 'stop.', 'Stop texting me', ' unsubscribe ', 'Alto', 'CANCELAR por favor']) {
+      expect(classifyInboundSms(body)).toBe('opt_out');
+    }
+  });
+
+  it('needs START and HELP keywords on their own', () => {
+    expect(classifyInboundSms('start')).toBe('opt_in');
+    expect(classifyInboundSms('Help!')).toBe('help');
+    expect(classifyInboundSms('ayuda')).toBe('help');
+    expect(classifyInboundSms('Start again next week')).toBe('none');
+    expect(classifyInboundSms('I need help with my appointment')).toBe('none');
+    expect(classifyInboundSms('Thanks, see you Sunday')).toBe('none');
+  });
+});
+
+describe('handleInboundSms', () => {
+  const sendTemplateSMS = vi.fn();
+
+  beforeEach(() => {
+    sendTemplateSMS.mockResolvedValue({ success: true });
+    vi.spyOn(smsService, 'sendTemplateSMS').mockImplementation(sendTemplateSMS);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    sendTemplateSMS.mockReset();
+  });
+
+  it('suppresses the number on STOP and lifts it on START, confirming both', async () => {
+    const phone = '+15553010001';
+
+    expect(await handleInboundSms({ originationNumber: phone, messageBody: 'STOP', inboundMessageId: 'in-1' }))
+      .toEqual({ action: 'opt_out', replied: true });
+    expect(await isSuppressed(phone)).toBe(true);
+
+    expect(await handleInboundSms({ originationNumber: phone, messageBody: 'START', inboundMessageId: 'in-2' }))
+      .toEqual({ action: 'opt_in', replied: true });
+    expect(await isSuppressed(phone)).toBe(false);
+
+    expect(sendTemplateSMS.mock.calls.map(([, key, , options]) => [key, options.ignoreSuppression]))
+      .toEqual([['opt-out', true], ['opt-in', true]]);
+    expect((await getSmsConsent(phone)).records.map((record) => record.status).sort())
+      .toEqual(['granted', 'revoked']);
+  });
+
+  it('applies a redelivered message once', async () => {
+    const phone = '+15553010002';
+    const message = { originationNumber: phone, messageBody: 'STOP', inboundMessageId: 'in-3' };
+
+    await handleInboundSms(message);
+    const redelivered = await handleInboundSms(message);
+
+    expect(redelivered).toEqual({ action: 'opt_out', replied: false, duplicate: true });
+    expect(sendTemplateSMS).toHaveBeenCalledTimes(1);
+    expect((await getSmsConsent(phone)).records).toHaveLength(1);
+  });
+
+  it('does not reply to other messages', async () => {
+    expect(await handleInboundSms({ originationNumber: '+15553010003', messageBody: 'Thank you!' }))
+      .toEqual({ action: 'none', replied: false });
+    expect(sendTemplateSMS).not.toHaveBeenCalled();
+  });
+});
+
+describe('consent ledger', () => {
+  it('keeps an opt-out in place when the form records consent again', async () => {
+    const phone = '+15553010004';
+    await optOut(phone, { source: 'admin', actorEmail: 'admin@example.org' });
+
+    await recordConsent(phone, { source: 'screening_form', disclosureVersion: 'v2' });
+
+    const consent = await getSmsConsent(phone);
+    expect(consent.suppression).toMatchObject({ id: phone, source: 'admin', createdBy: 'admin@example.org' });
+    expect(consent.records).toHaveLength(2);
+  });
+});
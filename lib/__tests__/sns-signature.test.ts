@@ -0,0 +1,135 @@
+import { createSign, generateKeyPairSync } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSnsMessage, SnsMessage, verifySnsMessage } from '@/lib/sns-signature';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const signingKey = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+let certNumber = 0;
+
+// Certificates are cached per URL, so each message gets its own
+function certUrl(): string {
+  certNumber += 1;
+  return `https://sns.us-east-1.amazonaws.com/SimpleNotificationService-${certNumber}.pem`;
+}
+
+function sign(message: Omit<SnsMessage, 'Signature'>, fields: (keyof SnsMessage)[]): SnsMessage {
+  const signed = fields
+    .filter((field) => message[field as keyof typeof message] !== undefined)
+    .map((field) => `${field}\n${message[field as keyof typeof message]}\n`)
+    .join('');
+  const algorithm = message.SignatureVersion === '2' ? 'RSA-SHA256' : 'RSA-SHA1';
+  return { ...message, Signature: createSign(algorithm).update(signed, 'utf8').sign(privateKey, 'base64') };
+}
+
+function notification(overrides: Partial<SnsMessage> = {}): SnsMessage {
+  return sign({
+    Type: 'Notification',
+    MessageId: 'message-1',
+    TopicArn: 'arn:aws:sns:us-east-1:123456789012:sms-delivery',
+    Message: '{"status":"SUCCESS"}',
+    Timestamp: '2026-01-01T00:00:00.000Z',
+    SignatureVersion: '1',
+    SigningCertURL: certUrl(),
+    ...overrides,
+  }, ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']);
+}
+
+describe('parseSnsMessage', () => {
+  it('accepts a message as an object or as JSON text', () => {
+    const message = notification();
+
+    expect(parseSnsMessage(message)).toEqual(message);
+    expect(parseSnsMessage(JSON.stringify(message))).toEqual(message);
+  });
+
+  it('rejects bodies that are not SNS messages', () => {
+    const unsigned: Partial<SnsMessage> = notification();
+    delete unsigned.Signature;
+
+    expect(parseSnsMessage('not json')).toBeNull();
+    expect(parseSnsMessage(null)).toBeNull();
+    expect(parseSnsMessage({ hello: 'world' })).toBeNull();
+    expect(parseSnsMessage(unsigned)).toBeNull();
+  });
+});
+
+describe('verifySnsMessage', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockImplementation(async () => new Response(signingKey));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it('accepts notifications signed with SHA1 and SHA256', async () => {
+    expect(await verifySnsMessage(notification())).toBe(true);
+    expect(await verifySnsMessage(notification({ SignatureVersion: '2' }))).toBe(true);
+    expect(await verifySnsMessage(notification({ Subject: 'Delivery status' }))).toBe(true);
+  });
+
+  it('accepts subscription confirmations', async () => {
+    const message = sign({
+      Type: 'SubscriptionConfirmation',
+      MessageId: 'message-2',
+      TopicArn: 'arn:aws:sns:us-east-1:123456789012:sms-delivery',
+      Message: 'You have chosen to subscribe to the topic.',
+      Timestamp: '2026-01-01T00:00:00.000Z',
+      SignatureVersion: '1',
+      SigningCertURL: certUrl(),
+      Token: 'token-1',
+      SubscribeURL: 'https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription',
+    }, ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type']);
+
+    expect(await verifySnsMessage(message)).toBe(true);
+  });
+
+  it('rejects a message changed after signing', async () => {
+    const message = { ...notification(), Message: '{"status":"FAILURE"}' };
+
+    expect(await verifySnsMessage(message)).toBe(false);
+  });
+
+  it('rejects unknown signature versions', async () => {
+    expect(await verifySnsMessage(notification({ SignatureVersion: '3' }))).toBe(false);
+  });
+
+  it('never fetches certificates from outside SNS', async () => {
+    const urls = [
+      'http://sns.us-east-1.amazonaws.com/cert.pem',
+      'https://sns.us-east-1.amazonaws.com.attacker.example/cert.pem',
+      'https://attacker.example/sns.us-east-1.amazonaws.com/cert.pem',
+      'https://sns.us-east-1.amazonaws.com/cert.txt',
+      'not a url',
+    ];
+
+    for (const url of urls) {
+      expect(await verifySnsMessage(notification({ SigningCertURL: url }))).toBe(false);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fetches each certificate once', async () => {
+    const url = certUrl();
+
+    expect(await verifySnsMessage(notification({ SigningCertURL: url }))).toBe(true);
+    expect(await verifySnsMessage(notification({ SigningCertURL: url, MessageId: 'message-3' }))).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a certificate that failed to download', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const url = certUrl();
+    fetchMock.mockImplementationOnce(async () => new Response('unavailable', { status: 503 }));
+
+    expect(await verifySnsMessage(notification({ SigningCertURL: url }))).toBe(false);
+    expect(await verifySnsMessage(notification({ SigningCertURL: url }))).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
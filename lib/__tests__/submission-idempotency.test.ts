@@ -0,0 +1,116 @@
+import { NextApiRequest } from 'next';
+import { v4 as uuidv4 } from 'uuid';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getStorage } from '@/lib/storage';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  isValidIdempotencyKey,
+  readIdempotencyKey,
+  releaseIdempotencyKey,
+} from '@/lib/submission-idempotency';
+import { buildSubmission } from './fixtures';
+
+function newKey(): string {
+  return uuidv4().replace(/-/g, '');
+}
+
+describe('readIdempotencyKey', () => {
+  it('reads the header, taking the first of repeated values', () => {
+    const single = { headers: { 'idempotency-key': 'abc' } } as unknown as NextApiRequest;
+    const repeated = { headers: { 'idempotency-key': ['first', 'second'] } } as unknown as NextApiRequest;
+    const missing = { headers: {} } as unknown as NextApiRequest;
+
+    expect(readIdempotencyKey(single)).toBe('abc');
+    expect(readIdempotencyKey(repeated)).toBe('first');
+    expect(readIdempotencyKey(missing)).toBeUndefined();
+  });
+});
+
+describe('isValidIdempotencyKey', () => {
+  it('accepts 16 to 128 URL-safe characters', () => {
+    expect(isValidIdempotencyKey('a'.repeat(16))).toBe(true);
+    expect(isValidIdempotencyKey('A1_-'.repeat(32))).toBe(true);
+    expect(isValidIdempotencyKey('a'.repeat(15))).toBe(false);
+    expect(isValidIdempotencyKey('a'.repeat(129))).toBe(false);
+    expect(isValidIdempotencyKey('not a valid key!!')).toBe(false);
+  });
+});
+
+describe('claimIdempotencyKey', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims a new key', async () => {
+    const key = newKey();
+
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'claimed' });
+    expect((await getStorage().idempotencyKeys.get(key))?.status).toBe('processing');
+  });
+
+  it('reports a key held by another request as in progress', async () => {
+    const key = newKey();
+    await claimIdempotencyKey(key, uuidv4());
+
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'in_progress' });
+  });
+
+  it('lets only one of two simultaneous requests claim a key', async () => {
+    const key = newKey();
+
+    const results = await Promise.all([claimIdempotencyKey(key, uuidv4()), claimIdempotencyKey(key, uuidv4())]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['claimed', 'in_progress']);
+  });
+
+  it('replays the submission once the key is completed', async () => {
+    const key = newKey();
+    await claimIdempotencyKey(key, uuidv4());
+    await completeIdempotencyKey(key, 'submission-1');
+
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'completed', submissionId: 'submission-1' });
+    expect((await getStorage().idempotencyKeys.get(key))?.completedAt).toBeDefined();
+  });
+
+  it('frees a released key for a retry', async () => {
+    const key = newKey();
+    await claimIdempotencyKey(key, uuidv4());
+    await releaseIdempotencyKey(key);
+
+    expect(await getStorage().idempotencyKeys.get(key)).toBeNull();
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'claimed' });
+  });
+
+  it('reclaims a key whose request died after the lease ran out', async () => {
+    const key = newKey();
+    await claimIdempotencyKey(key, uuidv4());
+
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 1000 + 1000, toFake: ['Date'] });
+
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'claimed' });
+  });
+
+  it('replays a saved submission whose key was never completed', async () => {
+    const key = newKey();
+    const submission = buildSubmission();
+    await claimIdempotencyKey(key, submission.id);
+    await getStorage().submissions.create(submission);
+
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'completed', submissionId: submission.id });
+
+    // Including after the lease of the request that saved it has run out
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 1000 + 1000, toFake: ['Date'] });
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'completed', submissionId: submission.id });
+  });
+
+  it('never reclaims a completed key, however old its lease', async () => {
+    const key = newKey();
+    await claimIdempotencyKey(key, uuidv4());
+    await completeIdempotencyKey(key, 'submission-2');
+
+    vi.useFakeTimers({ now: Date.now() + 24 * 60 * 60 * 1000, toFake: ['Date'] });
+
+    expect(await claimIdempotencyKey(key, uuidv4())).toEqual({ status: 'completed', submissionId: 'submission-2' });
+  });
+});
@@ -0,0 +1,154 @@
+import { Writable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { resolveExportColumns } from '@/lib/export-columns';
+import { createRowWriter, streamSubmissionsExport } from '@/lib/submissions-export';
+import { getStorage } from '@/lib/storage';
+import { buildSubmission } from './fixtures';
+
+class Collector extends Writable {
+  chunks: Buffer[] = [];
+
+  _write(chunk: Buffer | string, _encoding: BufferEncoding, callback: () => void) {
+    this.chunks.push(Buffer.from(chunk));
+    callback();
+  }
+
+  get buffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+/** Read one entry of a ZIP archive through its central directory record */
+function readZipEntry(zip: Buffer, name: string): string {
+  let offset = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entryCount = zip.readUInt16LE(offset + 10);
+  offset = zip.readUInt32LE(offset + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    if (entryName === name) {
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+      return inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    }
+    offset += 46 + nameLength;
+  }
+  throw new Error(`No ${name} in archive`);
+}
+
+const columns = [
+  { id: 'name', title: 'Name' },
+  { id: 'note', title: 'Note' },
+  { id: 'consent', title: 'Consent' },
+];
+
+describe('createRowWriter', () => {
+  it('writes CSV with a byte order mark, quoting and formula neutralizing', async () => {
+    const out = new Collector();
+    const writer = createRowWriter('csv', out);
+
+    await writer.start(columns);
+    await writer.writeRow(['José "Pepe"', '=HYPERLINK("x")', true]);
+    await writer.writeRow(['+1 (555) 201-3344', undefined, false]);
+    await writer.end();
+
+    expect(out.buffer.toString('utf8')).toBe(
+      '\uFEFFName,Note,Consent\r\n' +
+      '"José ""Pepe""","\'=HYPERLINK(""x"")",Yes\r\n' +
+      '+1 (555) 201-3344,,No\r\n'
+    );
+  });
+
+  it('writes NDJSON keyed by column id', async () => {
+    const out = new Collector();
+    const writer = createRowWriter('ndjson', out);
+
+    await writer.start(columns);
+    await writer.writeRow(['Maria', undefined, true]);
+    await writer.end();
+
+    expect(JSON.parse(out.buffer.toString('utf8'))).toEqual({ name: 'Maria', note: null, consent: true });
+  });
+
+  it('writes an XLSX workbook with escaped inline strings and numeric cells', async () => {
+    const out = new Collector();
+    const writer = createRowWriter('xlsx', out, 'Q1 <All>');
+
+    await writer.start(columns);
+    await writer.writeRow(['Ana & Luis\u0007', 27.5, false]);
+    await writer.end();
+
+    const zip = out.buffer;
+    expect(readZipEntry(zip, 'xl/workbook.xml')).toContain('<sheet name="Q1 &lt;All&gt;"');
+
+    const sheet = readZipEntry(zip, 'xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ana &amp; Luis</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>27.5</v></c>');
+    expect(sheet).toContain('<c r="C2" t="inlineStr"><is><t xml:space="preserve">No</t></is></c>');
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true);
+  });
+});
+
+describe('streamSubmissionsExport', () => {
+  const church1 = [buildSubmission(), buildSubmission()];
+  const church2 = [buildSubmission({ churchId: 'church-2' })];
+
+  beforeAll(async () => {
+    for (const submission of [...church1, ...church2]) {
+      await getStorage().submissions.create(submission);
+    }
+  });
+
+  async function exportIds(churchIds?: string[]): Promise<string[]> {
+    const out = new Collector();
+    const count = await streamSubmissionsExport(out, {
+      format: 'ndjson',
+      filters: { churchIds },
+      columns: resolveExportColumns(['id'], 'admin'),
+      context: { locationNames: new Map() },
+    });
+    const ids = out.buffer.toString('utf8').trim().split('\n').map((line) => JSON.parse(line).id);
+    expect(ids).toHaveLength(count);
+    return ids.sort();
+  }
+
+  it('exports every location without a church filter', async () => {
+    expect(await exportIds()).toEqual([...church1, ...church2].map((s) => s.id).sort());
+  });
+
+  it('exports each filtered location once even when repeated', async () => {
+    expect(await exportIds(['church-1', 'church-1'])).toEqual(church1.map((s) => s.id).sort());
+  });
+});
+
+describe('resolveExportColumns', () => {
+  it('keeps catalogue order and drops unknown ids', () => {
+    expect(resolveExportColumns(['phone', 'nope', 'id'], 'admin').map((c) => c.id)).toEqual(['id', 'phone']);
+  });
+
+  it('lets coordinators export contact details', () => {
+    expect(resolveExportColumns(['phone', 'email', 'followUpNotes'], 'coordinator').map((c) => c.id))
+      .toEqual(['phone', 'email', 'followUpNotes']);
+  });
+
+  it('never gives viewers PII, even when requested', () => {
+    const ids = resolveExportColumns(
+      ['id', 'firstName', 'phone', 'email', 'followUpNotes', 'customFields', 'ipAddress', 'healthRiskLevel'],
+      'viewer'
+    ).map((c) => c.id);
+
+    expect(ids).toEqual(['id', 'healthRiskLevel']);
+  });
+
+  it('applies the viewer allowlist to the default columns and unknown roles', () => {
+    const viewerDefaults = resolveExportColumns(undefined, 'viewer').map((c) => c.id);
+
+    expect(viewerDefaults).toContain('submissionDate');
+    expect(viewerDefaults).not.toContain('lastName');
+    expect(resolveExportColumns(undefined, 'intern').map((c) => c.id)).toEqual(viewerDefaults);
+  });
+});
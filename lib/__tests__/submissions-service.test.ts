@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getStorage } from '@/lib/storage';
+import { updateSelfieAnalysis } from '@/lib/submissions-service';
+import { HealthSubmission } from '@/types';
+import { buildSubmission } from './fixtures';
+
+/** A screening analyzed earlier, with every selfie estimate filled in */
+async function saveAnalyzed(): Promise<HealthSubmission> {
+  const submission = buildSubmission({
+    analysisStatus: 'complete',
+    estimatedBMI: 31.2,
+    bmiCategory: 'Obese',
+    estimatedAge: 54,
+    estimatedGender: 'female',
+  });
+  await getStorage().submissions.create(submission);
+  return submission;
+}
+
+describe('updateSelfieAnalysis', () => {
+  it('clears the estimates of an earlier run when the new run has none', async () => {
+    const before = await saveAnalyzed();
+
+    const updated = await updateSelfieAnalysis(before, {
+      status: 'unknown',
+      provider: 'arya',
+      reason: 'No person detected',
+      retryable: false,
+    });
+    const stored = await getStorage().submissions.get(before.id);
+
+    for (const record of [updated, stored]) {
+      expect(record).toMatchObject({ analysisStatus: 'unknown', analysisError: 'No person detected' });
+      expect(record).not.toHaveProperty('estimatedBMI');
+      expect(record).not.toHaveProperty('bmiCategory');
+      expect(record).not.toHaveProperty('estimatedAge');
+      expect(record).not.toHaveProperty('estimatedGender');
+    }
+  });
+
+  it('replaces every estimate with the new result', async () => {
+    const before = await saveAnalyzed();
+
+    await updateSelfieAnalysis(before, {
+      status: 'complete',
+      provider: 'stub',
+      bmi: { value: 23.4, range: '22-25', category: 'Normal' },
+    });
+    const stored = await getStorage().submissions.get(before.id);
+
+    expect(stored).toMatchObject({ analysisStatus: 'complete', estimatedBMI: 23.4, bmiCategory: 'Normal' });
+    expect(stored).not.toHaveProperty('estimatedAge');
+    expect(stored).not.toHaveProperty('estimatedGender');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpCode,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isTotpCode,
+  verifyTotpCode,
+} from '@/lib/totp';
+
+// RFC 6238 appendix B test key ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('generateTotpCode', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 SHA-1 vector at %is', (seconds, code) => {
+    expect(generateTotpCode(RFC_SECRET, seconds * 1000)).toBe(code);
+  });
+
+  it('reads secrets regardless of case, spacing and padding', () => {
+    expect(generateTotpCode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==', 59_000)).toBe('287082');
+  });
+});
+
+describe('verifyTotpCode', () => {
+  const now = 1234567890 * 1000;
+  const step = Math.floor(1234567890 / 30);
+
+  it('returns the matched step and tolerates one step of drift', () => {
+    expect(verifyTotpCode(RFC_SECRET, '005924', undefined, now)).toBe(step);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, now - 30_000), undefined, now)).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, now + 30_000), undefined, now)).toBe(step + 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, now - 60_000), undefined, now)).toBeNull();
+  });
+
+  it('rejects codes at or before the last used step', () => {
+    expect(verifyTotpCode(RFC_SECRET, '005924', step, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '005924', step - 1, now)).toBe(step);
+  });
+
+  it('ignores spaces and rejects anything but six digits', () => {
+    expect(verifyTotpCode(RFC_SECRET, '005 924', undefined, now)).toBe(step);
+    expect(verifyTotpCode(RFC_SECRET, '05924', undefined, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', undefined, now)).toBeNull();
+  });
+});
+
+describe('enrollment helpers', () => {
+  it('generates 160-bit base32 secrets that round-trip through codes', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(verifyTotpCode(secret, generateTotpCode(secret))).not.toBeNull();
+  });
+
+  it('builds an otpauth URI with the issuer in the label and parameters', () => {
+    const url = new URL(buildOtpauthUrl('ABC', 'ana@example.org', 'Health Screening'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/Health Screening:ana@example.org');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: 'ABC',
+      issuer: 'Health Screening',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct xxxxx-xxxxx codes that are not mistaken for TOTP codes', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+      expect(isTotpCode(code)).toBe(false);
+    }
+    expect(isTotpCode('123 456')).toBe(true);
+  });
+
+  it('hashes codes the same way however they are typed', () => {
+    const hash = hashRecoveryCode('abcde-fghij');
+
+    expect(hashRecoveryCode('ABCDE FGHIJ')).toBe(hash);
+    expect(hashRecoveryCode('abcdefghij')).toBe(hash);
+    expect(hashRecoveryCode('abcde-fghik')).not.toBe(hash);
+  });
+});
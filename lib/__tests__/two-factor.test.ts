@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ROLE_DEFAULT_PERMISSIONS } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { generateTotpCode } from '@/lib/totp';
+import {
+  beginEnrollment,
+  completeEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from '@/lib/two-factor';
+import { AdminUser } from '@/types';
+
+let userCount = 0;
+
+async function createUser(): Promise<AdminUser> {
+  const user: AdminUser = {
+    id: `user-${++userCount}`,
+    email: `admin${userCount}@example.org`,
+    passwordHash: 'unused',
+    role: 'admin',
+    firstName: 'Ana',
+    lastName: 'Diaz',
+    createdDate: new Date().toISOString(),
+    isActive: true,
+    permissions: { ...ROLE_DEFAULT_PERMISSIONS.admin },
+  };
+  await getStorage().users.create(user);
+  return user;
+}
+
+async function reload(user: AdminUser): Promise<AdminUser> {
+  const stored = await getStorage().users.get(user.id);
+  if (!stored) {
+    throw new Error(`User ${user.id} is missing`);
+  }
+  return stored;
+}
+
+/** Enroll a user with a code from the current step; returns their recovery codes */
+async function enroll(user: AdminUser) {
+  const { secret } = await beginEnrollment(user);
+  const recoveryCodes = await completeEnrollment(await reload(user), generateTotpCode(secret));
+  if (!recoveryCodes) {
+    throw new Error('Enrollment failed');
+  }
+  return { secret, recoveryCodes };
+}
+
+describe('two-factor enrollment', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a new secret pending until the first code is confirmed', async () => {
+    const user = await createUser();
+
+    const enrollment = await beginEnrollment(user);
+
+    expect(enrollment.otpauthUrl).toContain(`secret=${enrollment.secret}`);
+    expect(enrollment.qrCode).toMatch(/^data:image\/png;base64,/);
+    expect(getTwoFactorStatus(await reload(user)).enabled).toBe(false);
+    expect(await completeEnrollment(await reload(user), '000000')).toBeNull();
+
+    const recoveryCodes = await completeEnrollment(await reload(user), generateTotpCode(enrollment.secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(getTwoFactorStatus(await reload(user))).toMatchObject({ enabled: true, recoveryCodesRemaining: 10 });
+  });
+
+  it('does not accept the enrollment code again at sign-in', async () => {
+    // Start mid-step so the enrollment and sign-in codes fall in the same step
+    const now = 1_800_000_015_000;
+    vi.useFakeTimers({ now, toFake: ['Date'] });
+    const user = await createUser();
+    const { secret } = await enroll(user);
+
+    expect(await verifySecondFactor(await reload(user), generateTotpCode(secret))).toBeNull();
+
+    vi.setSystemTime(now + 30 * 1000);
+    const nextCode = generateTotpCode(secret);
+    expect(await verifySecondFactor(await reload(user), nextCode)).toBe('totp');
+    expect(await verifySecondFactor(await reload(user), nextCode)).toBeNull();
+  });
+
+  it('consumes each recovery code once', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user);
+
+    expect(await verifySecondFactor(await reload(user), recoveryCodes[0].toUpperCase())).toBe('recovery');
+    expect(await verifySecondFactor(await reload(user), recoveryCodes[0])).toBeNull();
+    expect(getTwoFactorStatus(await reload(user)).recoveryCodesRemaining).toBe(9);
+  });
+
+  it('invalidates old recovery codes when they are regenerated', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user);
+
+    const replacements = await regenerateRecoveryCodes(await reload(user));
+
+    expect(await verifySecondFactor(await reload(user), recoveryCodes[1])).toBeNull();
+    expect(await verifySecondFactor(await reload(user), replacements[1])).toBe('recovery');
+  });
+
+  it('rejects every code once two-factor is disabled', async () => {
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user);
+
+    await disableTwoFactor(user.id);
+
+    expect(getTwoFactorStatus(await reload(user)).enabled).toBe(false);
+    expect(await verifySecondFactor(await reload(user), recoveryCodes[0])).toBeNull();
+  });
+});
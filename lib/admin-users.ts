@@ -0,0 +1,49 @@
+import type { JwtPayload } from '@/lib/auth';
+import { getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { AdminUser, PublicAdminUser } from '@/types';
+
+/**
+ * Helpers shared by the admin user management routes.
+ */
+
+export function toPublicAdminUser(user: AdminUser): PublicAdminUser {
+  const publicUser: Partial<AdminUser> = { ...user };
+  delete publicUser.passwordHash;
+  delete publicUser.twoFactor;
+  return {
+    ...(publicUser as Omit<AdminUser, 'passwordHash' | 'twoFactor'>),
+    twoFactorEnabled: !!user.twoFactor?.enabledAt,
+  };
+}
+
+function isActiveAdmin(user: Pick<AdminUser, 'role' | 'isActive'>): boolean {
+  return user.role === 'admin' && user.isActive;
+}
+
+/**
+ * True when deleting `target` (pass `next = null`) or changing it to `next`
+ * would leave the users table without an active admin.
+ */
+export async function wouldRemoveLastAdmin(
+  target: AdminUser,
+  next: Pick<AdminUser, 'role' | 'isActive'> | null
+): Promise<boolean> {
+  if (!isActiveAdmin(target) || (next && isActiveAdmin(next))) {
+    return false;
+  }
+
+  const users = await getStorage().users.list();
+  return !users.some((user) => user.id !== target.id && isActiveAdmin(user));
+}
+
+/**
+ * Location-scoped managers can only see and manage non-admin accounts in their own location
+ */
+export function canManageAccount(
+  actor: JwtPayload,
+  target: Pick<AdminUser, 'role' | 'churchId'>
+): boolean {
+  const scope = getChurchScope(actor);
+  return !scope || (target.role !== 'admin' && target.churchId === scope);
+}
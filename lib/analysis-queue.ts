@@ -0,0 +1,187 @@
+import { sendResultsEmail } from '@/lib/results-email';
+import { analyzeSelfie } from '@/lib/selfie-analysis';
+import { getStorage } from '@/lib/storage';
+import { updateSelfieAnalysis } from '@/lib/submissions-service';
+import { AnalysisJob, HealthSubmission } from '@/types';
+
+/** Attempts before a job is marked failed and left for an admin to re-run */
+export const ANALYSIS_MAX_ATTEMPTS = 5;
+
+// Retries wait 30s, 1m, 2m, then 4m
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// Longer than the provider timeout, so a lease only expires if the runner died
+const LEASE_MS = 2 * 60 * 1000;
+
+export type AnalysisJobOutcome = 'complete' | 'unknown' | 'retrying' | 'failed' | 'skipped';
+
+export type AnalysisRunSummary = Record<AnalysisJobOutcome, number>;
+
+function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+async function loadPhoto(photoKey: string): Promise<Buffer> {
+  const photo = await getStorage().photos.get(photoKey);
+  if (!photo) {
+    throw new Error('Photo is no longer stored');
+  }
+  return photo.body;
+}
+
+/**
+ * Queue analysis of a submission's selfie, replacing any earlier job for it.
+ * The submission should already be saved with `analysisStatus: 'pending'`.
+ */
+export async function enqueueAnalysis(
+  submission: Pick<HealthSubmission, 'id' | 'churchId'>,
+  photoKey: string,
+  mimeType: string
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: submission.id,
+    churchId: submission.churchId,
+    photoKey,
+    mimeType,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getStorage().analysisJobs.put(job);
+  return job;
+}
+
+/**
+ * Queue a fresh analysis of an existing submission with a full set of retries.
+ * Returns null when the submission has no stored photo to analyze. Jobs are
+ * removed once they finish, so re-runs read the photo's type from photo storage.
+ */
+export async function requeueAnalysis(submission: HealthSubmission): Promise<AnalysisJob | null> {
+  const { photos, analysisJobs } = getStorage();
+  const photoKey = submission.selfieUrl ? photos.keyFromUrl(submission.selfieUrl) : null;
+  if (!photoKey) {
+    return null;
+  }
+
+  const existing = await analysisJobs.get(submission.id);
+  const mimeType = existing?.mimeType || (await photos.head(photoKey))?.contentType;
+  if (!mimeType) {
+    return null;
+  }
+  const job = await enqueueAnalysis(submission, photoKey, mimeType);
+
+  await getStorage().submissions.update(submission.id, {
+    analysisStatus: 'pending',
+    analysisError: '',
+    updatedAt: job.createdAt,
+  });
+  return job;
+}
+
+async function retryOrFail(
+  job: AnalysisJob,
+  submission: HealthSubmission,
+  reason: string
+): Promise<AnalysisJobOutcome> {
+  const { analysisJobs, submissions } = getStorage();
+  const attempts = job.attempts + 1;
+  const now = new Date().toISOString();
+
+  if (attempts >= ANALYSIS_MAX_ATTEMPTS) {
+    await analysisJobs.update(job.id, {
+      status: 'failed',
+      attempts,
+      lastError: reason,
+      lockedUntil: now,
+      updatedAt: now,
+    });
+    await submissions.update(submission.id, {
+      analysisStatus: 'failed',
+      analysisError: reason,
+      updatedAt: now,
+    });
+    return 'failed';
+  }
+
+  await analysisJobs.update(job.id, {
+    attempts,
+    lastError: reason,
+    nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+    lockedUntil: now,
+    updatedAt: now,
+  });
+  return 'retrying';
+}
+
+/**
+ * Run one queued job if it is pending and no other runner holds it.
+ * Results are saved and the job removed; provider failures are retried with
+ * exponential backoff until ANALYSIS_MAX_ATTEMPTS, then the job is marked failed.
+ */
+export async function runAnalysisJob(id: string): Promise<AnalysisJobOutcome> {
+  const { analysisJobs, submissions } = getStorage();
+  const now = Date.now();
+
+  const job = await analysisJobs.claim(id, new Date(now).toISOString(), new Date(now + LEASE_MS).toISOString());
+  if (!job) {
+    return 'skipped';
+  }
+
+  const submission = await submissions.get(job.id);
+  if (!submission) {
+    await analysisJobs.delete(job.id);
+    return 'skipped';
+  }
+
+  let image: Buffer;
+  try {
+    image = await loadPhoto(job.photoKey);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to load photo for analysis of submission ${job.id}:`, message);
+    return retryOrFail(job, submission, `Could not load photo: ${message}`);
+  }
+
+  const analysis = await analyzeSelfie(image, job.mimeType);
+  if (analysis.status === 'unknown' && analysis.retryable) {
+    return retryOrFail(job, submission, analysis.reason);
+  }
+
+  const updated = await updateSelfieAnalysis(submission, analysis);
+  await analysisJobs.delete(job.id);
+
+  // Participants who chose email get their results as soon as they are scored
+  if (updated?.analysisStatus === 'complete') {
+    await sendResultsEmail(updated);
+  }
+  return analysis.status;
+}
+
+/**
+ * Run pending jobs whose next attempt is due, oldest first and one at a time
+ * so a backlog does not flood the provider.
+ */
+export async function runDueAnalysisJobs(limit: number = 10): Promise<AnalysisRunSummary> {
+  const now = new Date().toISOString();
+  const summary: AnalysisRunSummary = { complete: 0, unknown: 0, retrying: 0, failed: 0, skipped: 0 };
+
+  const due = (await getStorage().analysisJobs.list('pending'))
+    .filter((job) => job.nextAttemptAt <= now && (!job.lockedUntil || job.lockedUntil < now))
+    .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+    .slice(0, limit);
+
+  for (const job of due) {
+    try {
+      summary[await runAnalysisJob(job.id)]++;
+    } catch (error) {
+      console.error(`Analysis job ${job.id} errored:`, error);
+      summary.skipped++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,73 @@
+import { Writable } from 'stream';
+import { getStorage } from '@/lib/storage';
+import { createRowWriter, writeText } from '@/lib/submissions-export';
+import { CellValue, ExportFormat } from '@/lib/export-columns';
+import { AuditEvent, AuditLogQueryParams } from '@/types';
+
+const EXPORT_PAGE_SIZE = 500;
+
+interface AuditExportColumn {
+  id: string;
+  title: string;
+  value: (event: AuditEvent) => CellValue;
+}
+
+function formatJson(value: Record<string, unknown> | undefined): string {
+  return value ? JSON.stringify(value) : '';
+}
+
+export const AUDIT_EXPORT_COLUMNS: AuditExportColumn[] = [
+  { id: 'timestamp', title: 'Timestamp (UTC)', value: (e) => e.timestamp },
+  { id: 'action', title: 'Action', value: (e) => e.action },
+  { id: 'actorEmail', title: 'Actor Email', value: (e) => e.actorEmail },
+  { id: 'actorRole', title: 'Actor Role', value: (e) => e.actorRole },
+  { id: 'actorId', title: 'Actor ID', value: (e) => e.actorId },
+  { id: 'ipAddress', title: 'IP Address', value: (e) => e.ipAddress },
+  { id: 'resourceType', title: 'Resource Type', value: (e) => e.resourceType },
+  { id: 'resourceId', title: 'Resource ID', value: (e) => e.resourceId },
+  { id: 'churchId', title: 'Church ID', value: (e) => e.churchId },
+  { id: 'before', title: 'Before', value: (e) => formatJson(e.before) },
+  { id: 'after', title: 'After', value: (e) => formatJson(e.after) },
+  { id: 'details', title: 'Details', value: (e) => formatJson(e.details) },
+  { id: 'userAgent', title: 'User Agent', value: (e) => e.userAgent },
+  { id: 'id', title: 'Entry ID', value: (e) => e.id },
+];
+
+/**
+ * Stream every audit entry matching the filters, newest first.
+ * NDJSON keeps entries as-is; CSV and XLSX flatten before/after to JSON text.
+ * Returns the number of entries written.
+ */
+export async function streamAuditExport(
+  out: Writable,
+  options: { format: ExportFormat; filters: AuditLogQueryParams }
+): Promise<number> {
+  const { format, filters } = options;
+  const writer = format === 'ndjson' ? null : createRowWriter(format, out, 'Audit Log');
+  let rowCount = 0;
+
+  await writer?.start(AUDIT_EXPORT_COLUMNS);
+
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const page = await getStorage().audit.list({
+      ...filters,
+      pageSize: EXPORT_PAGE_SIZE,
+      exclusiveStartKey,
+    });
+
+    for (const event of page.items) {
+      if (writer) {
+        await writer.writeRow(AUDIT_EXPORT_COLUMNS.map((column) => column.value(event)));
+      } else {
+        await writeText(out, `${JSON.stringify(event)}\n`);
+      }
+      rowCount++;
+    }
+
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  await writer?.end();
+  return rowCount;
+}
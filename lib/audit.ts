@@ -0,0 +1,161 @@
+import { NextApiRequest } from 'next';
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from '@/lib/storage';
+import { extractIpAddress } from '@/lib/device-tracker';
+import {
+  AdminUser,
+  AuditAction,
+  AuditEvent,
+  AuditResourceType,
+  HealthSubmission,
+  OutreachLocation,
+  SmsTemplate,
+} from '@/types';
+
+/**
+ * Audit trail of PHI access and admin actions.
+ *
+ * Entries are append-only: the repositories expose no update or delete, and
+ * the DynamoDB table is expected to grant the app role PutItem and Query only.
+ */
+
+export interface AuditActor {
+  userId: string;
+  email: string;
+  role?: string;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId?: string;
+  churchId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  details?: Record<string, unknown>;
+}
+
+// Location fields recorded when a location is created, edited or deleted
+export const LOCATION_AUDIT_FIELDS: (keyof OutreachLocation)[] = [
+  'name',
+  'address',
+  'contactPerson',
+  'contactEmail',
+  'contactPhone',
+  'isActive',
+  'archivedAt',
+];
+
+// Account fields recorded for user management; credentials are never logged
+export const USER_AUDIT_FIELDS: (keyof AdminUser)[] = [
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+  'churchId',
+  'isActive',
+  'permissions',
+];
+
+// Template fields recorded when an SMS template is created, edited or deleted
+export const SMS_TEMPLATE_AUDIT_FIELDS: (keyof SmsTemplate)[] = [
+  'key',
+  'name',
+  'locale',
+  'churchId',
+  'body',
+];
+
+// Fields a follow-up edit can change
+const FOLLOW_UP_FIELDS: (keyof HealthSubmission)[] = ['followUpStatus', 'followUpNotes', 'followUpDate'];
+
+/**
+ * Append an audit entry for the current request.
+ * A failed write is logged rather than thrown so it never blocks the admin's action.
+ */
+export async function recordAudit(
+  req: NextApiRequest,
+  actor: AuditActor,
+  entry: AuditEntry
+): Promise<void> {
+  const event: AuditEvent = {
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    actorId: actor.userId,
+    actorEmail: actor.email.toLowerCase(),
+    actorRole: actor.role,
+    ipAddress: extractIpAddress(req),
+    userAgent: req.headers['user-agent'],
+    ...entry,
+  };
+
+  try {
+    // JSON round trip drops nested undefined values, which DynamoDB rejects
+    await getStorage().audit.append(JSON.parse(JSON.stringify(event)) as AuditEvent);
+  } catch (error) {
+    console.error(`Failed to write audit entry ${event.action} by ${event.actorEmail}:`, error);
+  }
+}
+
+/**
+ * Changed fields between two versions of a record, limited to `fields`.
+ * Returns null when none of them changed.
+ */
+export function diffFields<T extends object>(
+  before: T | null | undefined,
+  after: T | null | undefined,
+  fields: (keyof T)[]
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  fields.forEach((field) => {
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changedBefore[field as string] = previous ?? null;
+      changedAfter[field as string] = next ?? null;
+    }
+  });
+
+  return Object.keys(changedAfter).length > 0
+    ? { before: changedBefore, after: changedAfter }
+    : null;
+}
+
+/**
+ * Copy of the listed fields of a record, for create and delete entries
+ */
+export function pickFields<T extends object>(
+  record: T,
+  fields: (keyof T)[]
+): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  fields.forEach((field) => {
+    if (record[field] !== undefined) {
+      snapshot[field as string] = record[field];
+    }
+  });
+  return snapshot;
+}
+
+/**
+ * Record a follow-up status or notes edit with the changed values
+ */
+export async function recordFollowUpUpdate(
+  req: NextApiRequest,
+  actor: AuditActor,
+  before: HealthSubmission,
+  updated: HealthSubmission
+): Promise<void> {
+  const changes = diffFields(before, updated, FOLLOW_UP_FIELDS);
+  if (!changes) return;
+
+  await recordAudit(req, actor, {
+    action: 'submission.update',
+    resourceType: 'submission',
+    resourceId: updated.id,
+    churchId: updated.churchId,
+    ...changes,
+  });
+}
@@ -1,17 +1,48 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import jwt from 'jsonwebtoken';
-import { parse } from 'cookie';
-import { AUTH_COOKIE_NAMES } from '@/types';
+import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import { parse, serialize, CookieSerializeOptions } from 'cookie';
+import { AdminPermission, AdminPermissions, AdminUser, AUTH_COOKIE_NAMES, AuthTokenClaims } from '@/types';
+import { recordAudit } from '@/lib/audit';
+import { hasPermission, hasValidScope, isAdminRole, resolvePermissions } from '@/lib/permissions';
+import { createSession, getActiveSession, revokeSession, rotateRefreshToken } from '@/lib/sessions';
+import { getStorage } from '@/lib/storage';
+import { isTwoFactorEnabled, isTwoFactorRequired } from '@/lib/two-factor';
+
+/**
+ * bcrypt cost factor; matches the hashes the login route already verifies
+ */
+const PASSWORD_HASH_ROUNDS = 12;
+
+/**
+ * Only `next dev` may run without JWT_SECRET; tokens signed with this are
+ * worthless anywhere else
+ */
+const DEVELOPMENT_JWT_SECRET = 'development-only-jwt-secret';
+
+/**
+ * Secret used to sign every token the portal issues
+ */
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'development') {
+    return DEVELOPMENT_JWT_SECRET;
+  }
+  throw new Error('JWT_SECRET is required outside development');
+}
 
 /**
  * JWT payload interface
  */
-export interface JwtPayload {
-  userId: string;
-  email: string;
-  role: string;
+export interface JwtPayload extends Omit<AuthTokenClaims, 'iat' | 'exp'> {
   iat?: number;
   exp?: number;
+  /** Refresh token id, rotated on every refresh */
+  jti?: string;
   type: 'access' | 'refresh';
 }
 
@@ -34,7 +65,7 @@ export interface TokenResponse {
 const getCookieOptions = (
   isProduction: boolean = process.env.NODE_ENV === 'production',
   tokenType: 'access' | 'refresh' = 'access'
-) => {
+): CookieSerializeOptions => {
   const baseOptions = {
     httpOnly: true,
     secure: isProduction,
@@ -46,55 +77,49 @@ const getCookieOptions = (
   if (tokenType === 'access') {
     return {
       ...baseOptions,
-      maxAge: 4 * 60 * 60 * 1000, // 4 hours
+      maxAge: 4 * 60 * 60, // 4 hours, in seconds
     };
   }
 
   // Refresh tokens: 30 days
   return {
     ...baseOptions,
-    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    maxAge: 30 * 24 * 60 * 60, // 30 days, in seconds
   };
 };
 
+/**
+ * Add cookies to the response without discarding ones set earlier in the request
+ */
+function appendSetCookie(res: NextApiResponse, cookies: string[]): void {
+  const existing = res.getHeader('Set-Cookie');
+  const current = existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+  res.setHeader('Set-Cookie', [...current, ...cookies]);
+}
+
 /**
  * Set access token as HttpOnly cookie
  */
 export function setAccessTokenCookie(res: NextApiResponse, token: string): void {
-  const cookieName = AUTH_COOKIE_NAMES.accessToken;
-  const options = getCookieOptions(true, 'access');
-
-  res.setHeader('Set-Cookie', `${cookieName}=${token}; ${Object.entries(options)
-    .map(([key, value]) => `${key}=${value}`)
-    .join('; ')}`);
+  appendSetCookie(res, [serialize(AUTH_COOKIE_NAMES.accessToken, token, getCookieOptions(true, 'access'))]);
 }
 
 /**
  * Set refresh token as HttpOnly cookie
  */
 export function setRefreshTokenCookie(res: NextApiResponse, token: string): void {
-  const cookieName = AUTH_COOKIE_NAMES.refreshToken;
-  const options = getCookieOptions(true, 'refresh');
-
-  res.setHeader('Set-Cookie', `${cookieName}=${token}; ${Object.entries(options)
-    .map(([key, value]) => `${key}=${value}`)
-    .join('; ')}`);
+  appendSetCookie(res, [serialize(AUTH_COOKIE_NAMES.refreshToken, token, getCookieOptions(true, 'refresh'))]);
 }
 
 /**
  * Clear auth cookies
  */
 export function clearAuthCookies(res: NextApiResponse): void {
-  const accessOptions = getCookieOptions(true, 'access');
-  const refreshOptions = getCookieOptions(true, 'refresh');
+  const expired = { maxAge: 0, expires: new Date(0) };
 
   res.setHeader('Set-Cookie', [
-    `${AUTH_COOKIE_NAMES.accessToken}=; ${Object.entries(accessOptions)
-      .map(([key, value]) => `${key}=${value}`)
-      .join('; ')}; expires=Thu, 01 Jan 1970 00:00:00 GMT`,
-    `${AUTH_COOKIE_NAMES.refreshToken}=; ${Object.entries(refreshOptions)
-      .map(([key, value]) => `${key}=${value}`)
-      .join('; ')}; expires=Thu, 01 Jan 1970 00:00:00 GMT`
+    serialize(AUTH_COOKIE_NAMES.accessToken, '', { ...getCookieOptions(true, 'access'), ...expired }),
+    serialize(AUTH_COOKIE_NAMES.refreshToken, '', { ...getCookieOptions(true, 'refresh'), ...expired }),
   ]);
 }
 
@@ -147,8 +172,7 @@ export function verifyRefreshToken(req: NextApiRequest): boolean {
   }
 
   try {
-    // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-    const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+    const secret = getJwtSecret();
     const decoded = jwt.verify(token, secret) as JwtPayload;
     return decoded.type === 'refresh';
   } catch {
@@ -166,8 +190,7 @@ export function getUserFromToken(req: NextApiRequest): JwtPayload | null {
   }
 
   try {
-    // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-    const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+    const secret = getJwtSecret();
     const decoded = jwt.verify(token, secret) as JwtPayload;
     return decoded.type === 'access' ? decoded : null;
   } catch {
@@ -185,8 +208,7 @@ export function getUserFromRefreshToken(req: NextApiRequest): JwtPayload | null
   }
 
   try {
-    // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-    const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+    const secret = getJwtSecret();
     const decoded = jwt.verify(token, secret) as JwtPayload;
     return decoded.type === 'refresh' ? decoded : null;
   } catch {
@@ -210,50 +232,257 @@ export function isAdmin(req: NextApiRequest): boolean {
 }
 
 /**
- * Admin middleware function - guards admin-only endpoints
+ * Token claims for a user account, including its location scope and permission flags
+ */
+export function getTokenClaims(user: AdminUser): Omit<JwtPayload, 'type'> {
+  return {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    name: `${user.firstName} ${user.lastName}`.trim(),
+    churchId: user.role === 'admin' ? undefined : user.churchId,
+    permissions: resolvePermissions(user),
+  };
+}
+
+/**
+ * Copy the identity claims of a decoded token, dropping the JWT timing fields
+ */
+function copyTokenClaims(payload: JwtPayload): Omit<JwtPayload, 'type'> {
+  return {
+    userId: payload.userId,
+    email: payload.email,
+    role: payload.role,
+    name: payload.name,
+    churchId: payload.churchId,
+    permissions: payload.permissions,
+    sessionId: payload.sessionId,
+  };
+}
+
+/**
+ * Start a server-side session for a signed-in user and set its token cookies
+ */
+export async function startSession(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  claims: Omit<JwtPayload, 'type' | 'sessionId'>
+): Promise<{ accessToken: string; refreshToken: string; sessionId: string }> {
+  const session = await createSession(req, { userId: claims.userId, email: claims.email });
+  const tokens = generateTokenPair({ ...claims, sessionId: session.id }, session.refreshTokenId);
+
+  setAuthTokens(res, tokens.accessToken, tokens.refreshToken);
+
+  return { ...tokens, sessionId: session.id };
+}
+
+/**
+ * Successful sign-in payload returned by the login and two-factor routes
+ */
+export interface SignInResult {
+  accessToken: string;
+  refreshToken: string;
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    churchId?: string;
+    permissions?: AdminPermissions;
+  };
+}
+
+/**
+ * Finish signing a user in once every factor has been checked:
+ * starts the session, sets the cookies and records the login time
+ */
+export async function completeSignIn(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: AdminUser
+): Promise<SignInResult> {
+  // Tokens carry the session id, location scope and permissions
+  const claims = getTokenClaims(user);
+  const tokens = await startSession(req, res, claims);
+
+  try {
+    // Accounts outside the users table (the demo admin) are simply not updated
+    await getStorage().users.update(user.id, { lastLogin: new Date().toISOString() });
+  } catch (updateError) {
+    console.error('Failed to record last login:', updateError);
+  }
+
+  await recordAudit(req, claims, {
+    action: 'auth.login',
+    resourceType: 'session',
+    resourceId: tokens.sessionId,
+    churchId: claims.churchId,
+  });
+
+  return {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      churchId: claims.churchId,
+      permissions: claims.permissions,
+    },
+  };
+}
+
+/**
+ * Exchange a decoded refresh token for new tokens, rotating the session's refresh token id.
+ * Returns null when the session is gone, revoked, or the token was already used;
+ * the caller should clear the auth cookies.
+ * A refresh that lost a race with a parallel one only receives a new access token.
+ */
+export async function refreshSessionTokens(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  refreshUser: JwtPayload,
+  claims: Omit<JwtPayload, 'type'> = copyTokenClaims(refreshUser)
+): Promise<{ accessToken: string; refreshToken?: string } | null> {
+  if (!refreshUser.sessionId || !refreshUser.jti) {
+    return null;
+  }
+
+  const result = await rotateRefreshToken(refreshUser.sessionId, refreshUser.jti, req);
+  const sessionClaims = { ...claims, sessionId: refreshUser.sessionId };
+
+  if (result.status === 'rotated') {
+    const tokens = generateTokenPair(sessionClaims, result.refreshTokenId);
+    setAuthTokens(res, tokens.accessToken, tokens.refreshToken);
+    return tokens;
+  }
+
+  if (result.status === 'concurrent') {
+    const accessToken = generateAccessToken(sessionClaims);
+    setAccessTokenCookie(res, accessToken);
+    return { accessToken };
+  }
+
+  return null;
+}
+
+export type TokenRefreshResult =
+  | {
+    status: 'refreshed';
+    claims: Omit<JwtPayload, 'type'>;
+    tokens: { accessToken: string; refreshToken?: string };
+  }
+  | { status: 'account_disabled' }
+  | { status: 'two_factor_required' }
+  | { status: 'session_expired' };
+
+/**
+ * Refresh the token pair for a decoded refresh token. The account is re-read
+ * so role, location and permission changes apply on refresh; disabled or
+ * unassigned accounts, and accounts that still need to enroll in mandatory
+ * two-factor, have their session revoked instead. Accounts outside the users
+ * table (the demo admin) keep their existing claims.
+ * Callers clear the auth cookies for every status other than `refreshed`.
+ */
+export async function refreshUserTokens(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  refreshUser: JwtPayload
+): Promise<TokenRefreshResult> {
+  const account = await getStorage().users.get(refreshUser.userId);
+  const claims = account ? getTokenClaims(account) : copyTokenClaims(refreshUser);
+
+  if ((account && !account.isActive) || !isAdminRole(claims.role) || !hasValidScope(claims)) {
+    if (refreshUser.sessionId) {
+      await revokeSession(refreshUser.sessionId, 'account_changed');
+    }
+    return { status: 'account_disabled' };
+  }
+
+  // Sessions from before two-factor became mandatory end here; the next sign-in enrolls
+  if (account && isTwoFactorRequired() && !isTwoFactorEnabled(account)) {
+    if (refreshUser.sessionId) {
+      await revokeSession(refreshUser.sessionId, 'account_changed');
+    }
+    return { status: 'two_factor_required' };
+  }
+
+  // Rotate the session's refresh token; presenting an already-used one revokes the session
+  const tokens = await refreshSessionTokens(req, res, refreshUser, claims);
+  if (!tokens) {
+    return { status: 'session_expired' };
+  }
+
+  return {
+    status: 'refreshed',
+    claims: { ...claims, sessionId: refreshUser.sessionId },
+    tokens,
+  };
+}
+
+/**
+ * Auth middleware function - resolves the signed-in portal user, refreshing the
+ * token pair from the refresh cookie when the access token has expired.
+ * Tokens must belong to an active server-side session, so revoked sessions
+ * are rejected immediately rather than when their tokens expire.
+ * Sends a 401 when neither token is valid and a 403 for unknown roles or
+ * non-admin accounts without an outreach location.
  */
-export function requireAdmin(req: NextApiRequest, res: NextApiResponse): JwtPayload | null {
+export async function requireAuth(req: NextApiRequest, res: NextApiResponse): Promise<JwtPayload | null> {
   // First try to get user from access token
   const user = getUserFromToken(req);
+  if (user) {
+    if (!isAdminRole(user.role) || !hasValidScope(user)) {
+      res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        message: 'This account cannot access the admin portal'
+      });
+      return null;
+    }
 
-  // If no valid access token but we have a refresh token, try to refresh
-  if (!user) {
-    const refreshToken = getRefreshTokenFromCookie(req);
-    if (refreshToken) {
-      try {
-        const refreshUser = getUserFromRefreshToken(req);
-        if (refreshUser && refreshUser.role === 'admin') {
-          // Generate new token pair
-          const newTokens = generateTokenPair({
-            userId: refreshUser.userId,
-            email: refreshUser.email,
-            role: refreshUser.role,
-          });
-
-          // Set new cookies
-          setAuthTokens(res, newTokens.accessToken, newTokens.refreshToken);
-
-          return {
-            ...refreshUser,
-            type: 'access',
-          };
-        }
-      } catch {
-        // Refresh token is invalid, clear cookies
-        clearAuthCookies(res);
-      }
+    if (user.sessionId && await getActiveSession(user.sessionId, req)) {
+      return user;
     }
 
-    // No valid tokens found
+    clearAuthCookies(res);
     res.status(401).json({
       success: false,
-      error: 'Authentication required',
-      message: 'Please log in to access this resource',
+      error: 'Session expired',
+      message: 'Your session has ended. Please log in again',
       requiresAuth: true
     });
     return null;
   }
 
+  // If no valid access token but we have a refresh token, try to refresh
+  const refreshUser = getUserFromRefreshToken(req);
+  if (refreshUser) {
+    const result = await refreshUserTokens(req, res, refreshUser);
+    if (result.status === 'refreshed') {
+      return { ...result.claims, type: 'access' };
+    }
+
+    // Refresh token is revoked, reused or no longer valid, clear cookies
+    clearAuthCookies(res);
+  }
+
+  // No valid tokens found
+  res.status(401).json({
+    success: false,
+    error: 'Authentication required',
+    message: 'Please log in to access this resource',
+    requiresAuth: true
+  });
+  return null;
+}
+
+/**
+ * Admin middleware function - guards admin-only endpoints
+ */
+export async function requireAdmin(req: NextApiRequest, res: NextApiResponse): Promise<JwtPayload | null> {
+  const user = await requireAuth(req, res);
+  if (!user) return null;
+
   if (user.role !== 'admin') {
     res.status(403).json({
       success: false,
@@ -266,6 +495,42 @@ export function requireAdmin(req: NextApiRequest, res: NextApiResponse): JwtPayl
   return user;
 }
 
+/**
+ * Permission middleware function - guards endpoints by permission flag.
+ * Admins pass every check; coordinators and viewers need the flag on their account.
+ * Pass `write` for endpoints that modify data, which viewers are never allowed to do.
+ * Callers must still limit data to `getChurchScope(user)`.
+ */
+export async function requirePermission(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  permission: AdminPermission,
+  options: { write?: boolean } = {}
+): Promise<JwtPayload | null> {
+  const user = await requireAuth(req, res);
+  if (!user) return null;
+
+  if (!hasPermission(user, permission)) {
+    res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: `Permission required: ${permission}`
+    });
+    return null;
+  }
+
+  if (options.write && user.role === 'viewer') {
+    res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'Read-only accounts cannot make changes'
+    });
+    return null;
+  }
+
+  return user;
+}
+
 /**
  * Check if request has valid access token or refresh token
  */
@@ -280,8 +545,7 @@ export function hasValidToken(req: NextApiRequest): boolean {
   // If we have an access token, verify it's valid
   if (accessToken) {
     try {
-      // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-      const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+      const secret = getJwtSecret();
       const decoded = jwt.verify(accessToken, secret) as JwtPayload;
       return decoded.type === 'access';
     } catch {
@@ -292,8 +556,7 @@ export function hasValidToken(req: NextApiRequest): boolean {
   // If we have a refresh token, verify it's valid
   if (refreshToken) {
     try {
-      // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-      const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+      const secret = getJwtSecret();
       const decoded = jwt.verify(refreshToken, secret) as JwtPayload;
       return decoded.type === 'refresh';
     } catch {
@@ -308,8 +571,7 @@ export function hasValidToken(req: NextApiRequest): boolean {
  * Generate access token (4 hours)
  */
 export function generateAccessToken(payload: Omit<JwtPayload, 'type'>): string {
-  // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-  const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+  const secret = getJwtSecret();
 
   const tokenPayload: JwtPayload = {
     ...payload,
@@ -322,11 +584,10 @@ export function generateAccessToken(payload: Omit<JwtPayload, 'type'>): string {
 }
 
 /**
- * Generate refresh token (30 days)
+ * Generate refresh token (30 days), identified by the session's current refresh token id
  */
-export function generateRefreshToken(payload: Omit<JwtPayload, 'type'>): string {
-  // TODO: Fix Amplify environment variable issue and use process.env.JWT_SECRET
-  const secret = process.env.JWT_SECRET || 'q(rY0b9qTgT6ZsdpflqNJXltC6Q9PRkRX2dEj6tY8=';
+export function generateRefreshToken(payload: Omit<JwtPayload, 'type'>, refreshTokenId: string): string {
+  const secret = getJwtSecret();
 
   const tokenPayload: JwtPayload = {
     ...payload,
@@ -335,15 +596,40 @@ export function generateRefreshToken(payload: Omit<JwtPayload, 'type'>): string
 
   return jwt.sign(tokenPayload, secret, {
     expiresIn: '30d',
+    jwtid: refreshTokenId,
   });
 }
 
 /**
  * Generate both access and refresh tokens
  */
-export function generateTokenPair(payload: Omit<JwtPayload, 'type'>): { accessToken: string; refreshToken: string } {
+export function generateTokenPair(
+  payload: Omit<JwtPayload, 'type'>,
+  refreshTokenId: string
+): { accessToken: string; refreshToken: string } {
   return {
     accessToken: generateAccessToken(payload),
-    refreshToken: generateRefreshToken(payload),
+    refreshToken: generateRefreshToken(payload, refreshTokenId),
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Hash a password for storage in the users table
+ */
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_HASH_ROUNDS);
+}
+
+/**
+ * Compare a password against a stored bcrypt hash
+ */
+export function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Random password for invites and resets, shown to the administrator once
+ */
+export function generateTemporaryPassword(): string {
+  return randomBytes(12).toString('base64url');
+}
@@ -2,6 +2,7 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { S3Client } from '@aws-sdk/client-s3';
 import { SNSClient } from '@aws-sdk/client-sns';
+import { SESv2Client } from '@aws-sdk/client-sesv2';
 
 // AWS Configuration
 const awsConfig = {
@@ -20,11 +21,29 @@ export const s3Client = new S3Client(awsConfig);
 // SNS Client
 export const snsClient = new SNSClient(awsConfig);
 
+// SES Client
+export const sesClient = new SESv2Client(awsConfig);
+
 // Table Names - Use fallback values since environment variables aren't reaching Lambda
 export const TABLES = {
   SUBMISSIONS: process.env.APP_DYNAMODB_TABLE_NAME || 'health-screening-submissions',
+  PARTICIPANTS: process.env.APP_DYNAMODB_PARTICIPANTS_TABLE || 'health-screening-participants',
+  ANALYSIS_JOBS: process.env.APP_DYNAMODB_ANALYSIS_JOBS_TABLE || 'health-screening-analysis-jobs',
   CHURCHES: process.env.APP_DYNAMODB_CHURCHES_TABLE || 'health-screening-churches',
+  FORM_VERSIONS: process.env.APP_DYNAMODB_FORM_VERSIONS_TABLE || 'health-screening-form-versions',
+  SMS_TEMPLATES: process.env.APP_DYNAMODB_SMS_TEMPLATES_TABLE || 'health-screening-sms-templates',
+  SMS_SUPPRESSIONS: process.env.APP_DYNAMODB_SMS_SUPPRESSIONS_TABLE || 'health-screening-sms-suppressions',
+  CONSENT_LEDGER: process.env.APP_DYNAMODB_CONSENT_LEDGER_TABLE || 'health-screening-consent-ledger',
+  SMS_CAMPAIGNS: process.env.APP_DYNAMODB_SMS_CAMPAIGNS_TABLE || 'health-screening-sms-campaigns',
+  SMS_CAMPAIGN_RECIPIENTS: process.env.APP_DYNAMODB_SMS_CAMPAIGN_RECIPIENTS_TABLE || 'health-screening-sms-campaign-recipients',
+  SMS_LOG: process.env.APP_DYNAMODB_SMS_LOG_TABLE || 'health-screening-sms-log',
+  EMAIL_SUPPRESSIONS: process.env.APP_DYNAMODB_EMAIL_SUPPRESSIONS_TABLE || 'health-screening-email-suppressions',
   USERS: process.env.APP_DYNAMODB_USERS_TABLE || 'health-screening-users',
+  STATS: process.env.APP_DYNAMODB_STATS_TABLE || 'health-screening-stats',
+  SESSIONS: process.env.APP_DYNAMODB_SESSIONS_TABLE || 'health-screening-sessions',
+  IDEMPOTENCY_KEYS: process.env.APP_DYNAMODB_IDEMPOTENCY_KEYS_TABLE || 'health-screening-idempotency-keys',
+  AUDIT: process.env.APP_DYNAMODB_AUDIT_TABLE || 'health-screening-audit-log',
+  RATE_LIMITS: process.env.APP_DYNAMODB_RATE_LIMITS_TABLE || 'health-screening-rate-limits',
 };
 
 // DynamoDB Global Secondary Indexes - Use fallback values
@@ -38,4 +57,10 @@ export const S3_BUCKET = process.env.APP_S3_BUCKET_NAME || process.env.AWS_S3_BU
 // Secondary Indexes - Use fallback values
 export const INDEXES = {
   SUBMISSIONS_BY_CHURCH_DATE: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_CHURCH_DATE || 'submissions-church-date-index',
+  SUBMISSIONS_BY_FINGERPRINT: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_FINGERPRINT || 'submissions-fingerprint-index',
+  SUBMISSIONS_BY_PHONE: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_PHONE || 'submissions-phone-index',
+  SUBMISSIONS_BY_IDENTITY: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_IDENTITY || 'submissions-identity-index',
+  SUBMISSIONS_BY_PARTICIPANT: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_PARTICIPANT || 'submissions-participant-index',
+  SMS_LOG_BY_SUBMISSION: process.env.APP_DYNAMODB_SMS_LOG_GSI_SUBMISSION || 'sms-log-submission-index',
+  SMS_LOG_BY_DAY: process.env.APP_DYNAMODB_SMS_LOG_GSI_DAY || 'sms-log-day-index',
 };
\ No newline at end of file
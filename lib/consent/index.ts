@@ -0,0 +1,73 @@
+import { TcpaDisclosure, TcpaDisclosureCopy } from './types';
+
+export * from './types';
+
+/**
+ * Published TCPA disclosures, oldest first. To change the wording, add a new
+ * version; the last one is shown on the screening form.
+ */
+export const TCPA_DISCLOSURES: TcpaDisclosure[] = [
+  {
+    version: 'v1',
+    publishedAt: '2024-01-01',
+    label: 'TCPA Consent - I agree to be contacted about my health screening',
+    body: 'By providing my phone number and checking this box, I consent to receive calls, texts, and messages from this health ministry regarding my health screening results, follow-up appointments, health tips, and related communications. I understand that:',
+    terms: [
+      'Message and data rates may apply',
+      'I can opt-out at any time by replying STOP',
+      'This consent is not required to receive services',
+      'Communications may include appointment reminders, health education, and follow-up care coordination',
+    ],
+  },
+  // Same English text as v1, with the Spanish translation the form can show
+  {
+    version: 'v2',
+    publishedAt: '2026-10-18',
+    label: 'TCPA Consent - I agree to be contacted about my health screening',
+    body: 'By providing my phone number and checking this box, I consent to receive calls, texts, and messages from this health ministry regarding my health screening results, follow-up appointments, health tips, and related communications. I understand that:',
+    terms: [
+      'Message and data rates may apply',
+      'I can opt-out at any time by replying STOP',
+      'This consent is not required to receive services',
+      'Communications may include appointment reminders, health education, and follow-up care coordination',
+    ],
+    translations: {
+      es: {
+        label: 'Consentimiento TCPA - Acepto que se comuniquen conmigo sobre mi evaluación de salud',
+        body: 'Al proporcionar mi número de teléfono y marcar esta casilla, doy mi consentimiento para recibir llamadas, mensajes de texto y mensajes de este ministerio de salud sobre los resultados de mi evaluación de salud, citas de seguimiento, consejos de salud y comunicaciones relacionadas. Entiendo que:',
+        terms: [
+          'Pueden aplicarse tarifas de mensajes y datos',
+          'Puedo cancelar en cualquier momento respondiendo STOP',
+          'Este consentimiento no es obligatorio para recibir servicios',
+          'Las comunicaciones pueden incluir recordatorios de citas, educación sobre la salud y coordinación de atención de seguimiento',
+        ],
+      },
+    },
+  },
+];
+
+export const CURRENT_TCPA_DISCLOSURE = TCPA_DISCLOSURES[TCPA_DISCLOSURES.length - 1];
+
+// Shown before disclosure versions were sent with the form
+export const LEGACY_TCPA_DISCLOSURE_VERSION = 'v1';
+
+export function getTcpaDisclosure(version: string): TcpaDisclosure | undefined {
+  return TCPA_DISCLOSURES.find((disclosure) => disclosure.version === version);
+}
+
+/** Whether the disclosure was published in `locale`; English is always available */
+export function hasTcpaTranslation(disclosure: TcpaDisclosure, locale: string): boolean {
+  return locale === 'en' || !!disclosure.translations?.[locale];
+}
+
+/** The disclosure's wording in `locale`, or the English text when it has no translation */
+export function localizeTcpaDisclosure(disclosure: TcpaDisclosure, locale?: string): TcpaDisclosureCopy {
+  const translation = locale ? disclosure.translations?.[locale] : undefined;
+  return translation || { label: disclosure.label, body: disclosure.body, terms: disclosure.terms };
+}
+
+/** The disclosure as one block of plain text, as it reads on the form */
+export function tcpaDisclosureText(disclosure: TcpaDisclosure, locale?: string): string {
+  const copy = localizeTcpaDisclosure(disclosure, locale);
+  return [copy.label, copy.body, ...copy.terms.map((term) => `• ${term}`)].join('\n');
+}
@@ -0,0 +1,68 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from '@/lib/storage';
+import { ConsentRecord, SmsConsentSummary, SmsSuppression } from '@/types';
+
+/**
+ * TCPA consent ledger and SMS suppression list. Phone numbers are E.164
+ * (see `formatPhoneNumber` in the SMS service).
+ *
+ * Every consent change is appended to the ledger; the suppression list is
+ * the current opt-outs, checked before each send. A new consent on the
+ * screening form is recorded but does not lift an opt-out: that takes a
+ * START reply or an admin.
+ */
+
+type ConsentDetails = Omit<ConsentRecord, 'id' | 'phone' | 'channel' | 'status' | 'recordedAt'>;
+
+async function appendRecord(phone: string, status: ConsentRecord['status'], details: ConsentDetails): Promise<ConsentRecord> {
+  const record: ConsentRecord = {
+    id: uuidv4(),
+    phone,
+    channel: 'sms',
+    status,
+    source: details.source,
+    recordedAt: new Date().toISOString(),
+    // Unset details are left out; DynamoDB rejects undefined attributes
+    ...Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)),
+  };
+  await getStorage().consentLedger.append(record);
+  return record;
+}
+
+export function recordConsent(phone: string, details: ConsentDetails): Promise<ConsentRecord> {
+  return appendRecord(phone, 'granted', details);
+}
+
+/** Suppress the number and record the opt-out */
+export async function optOut(phone: string, details: ConsentDetails): Promise<SmsSuppression> {
+  const suppression: SmsSuppression = {
+    id: phone,
+    source: details.source,
+    createdAt: new Date().toISOString(),
+    ...(details.keyword ? { keyword: details.keyword } : {}),
+    ...(details.actorEmail ? { createdBy: details.actorEmail } : {}),
+    ...(details.note ? { note: details.note } : {}),
+  };
+  await getStorage().smsSuppressions.put(suppression);
+  await appendRecord(phone, 'revoked', details);
+  return suppression;
+}
+
+/** Lift the number's suppression and record the renewed consent */
+export async function optIn(phone: string, details: ConsentDetails): Promise<ConsentRecord> {
+  await getStorage().smsSuppressions.delete(phone);
+  return appendRecord(phone, 'granted', details);
+}
+
+export async function isSuppressed(phone: string): Promise<boolean> {
+  return Boolean(await getStorage().smsSuppressions.get(phone));
+}
+
+export async function getSmsConsent(phone: string): Promise<SmsConsentSummary> {
+  const { smsSuppressions, consentLedger } = getStorage();
+  const [suppression, records] = await Promise.all([
+    smsSuppressions.get(phone),
+    consentLedger.listByPhone(phone),
+  ]);
+  return { phone, suppression, records };
+}
@@ -0,0 +1,19 @@
+/** Wording of a TCPA disclosure in one language */
+export interface TcpaDisclosureCopy {
+  /** Checkbox label */
+  label: string;
+  body: string;
+  terms: string[];
+}
+
+/**
+ * TCPA disclosure shown next to the consent checkbox. Published versions are
+ * never edited: the consent ledger records only the version and language, so
+ * the text has to stay exactly as the participant saw it.
+ */
+export interface TcpaDisclosure extends TcpaDisclosureCopy {
+  version: string;
+  publishedAt: string;
+  /** The same disclosure in other languages, keyed by locale; the base text is English */
+  translations?: Record<string, TcpaDisclosureCopy>;
+}
@@ -0,0 +1,18 @@
+import { ContactChannel, ContactPreference, HealthSubmission } from '@/types';
+
+/**
+ * Channels a participant asked to be contacted on. Screenings from before
+ * the choice was offered, and email choices without an address, get SMS.
+ */
+export function contactChannels(submission: Pick<HealthSubmission, 'contactPreference' | 'email'>): ContactChannel[] {
+  const preference = submission.contactPreference || 'sms';
+  if (!submission.email || preference === 'sms') return ['sms'];
+  return preference === 'both' ? ['sms', 'email'] : ['email'];
+}
+
+const CONTACT_PREFERENCES: ContactPreference[] = ['sms', 'email', 'both'];
+
+/** Preference from the screening form; anything unrecognized, or no email address, means SMS */
+export function parseContactPreference(value: string | undefined, email: string | undefined): ContactPreference {
+  return email && CONTACT_PREFERENCES.includes(value as ContactPreference) ? value as ContactPreference : 'sms';
+}
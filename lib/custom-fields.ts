@@ -0,0 +1,235 @@
+import { DEFAULT_LOCALE, getTranslator, type Translator } from '@/lib/i18n';
+import { CustomField, CustomFieldAnswer } from '@/types';
+
+/**
+ * Validation for a location's custom form fields. Kept free of server-only
+ * imports so the public form and the submissions API check answers against
+ * the same definitions.
+ */
+
+export type CustomFieldValue = CustomFieldAnswer['value'];
+
+export interface CustomFieldCheck {
+  /** Normalized answer; unset when the field was left empty */
+  value?: CustomFieldValue;
+  error?: string;
+}
+
+/** Longest text answer accepted when the field sets no maximum */
+export const CUSTOM_FIELD_TEXT_MAX_LENGTH = 500;
+
+/** Most questions one location's form can have */
+export const CUSTOM_FIELD_LIMIT = 20;
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'select', 'checkbox', 'date'] as const satisfies readonly CustomField['type'][];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomField['type'], string> = {
+  text: 'Short answer',
+  number: 'Number',
+  select: 'Dropdown',
+  checkbox: 'Checkbox',
+  date: 'Date',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date rolls days past the end of the month over (2026-02-30 is March 2), so the parsed day must read back the same
+function isCalendarDate(text: string): boolean {
+  const date = new Date(text);
+  return DATE_PATTERN.test(text) && !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === text;
+}
+
+// Patterns must match the whole answer; a pattern that does not compile is ignored
+function matchesPattern(pattern: string, text: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(text);
+  } catch {
+    return true;
+  }
+}
+
+function checkText(field: CustomField, text: string, t: Translator): string | undefined {
+  const { min, max, pattern } = field.validation || {};
+  const label = field.label;
+  if (min !== undefined && text.length < min) {
+    return t('customField.tooShort', { label, min });
+  }
+  if (text.length > (max ?? CUSTOM_FIELD_TEXT_MAX_LENGTH)) {
+    return t('customField.tooLong', { label, max: max ?? CUSTOM_FIELD_TEXT_MAX_LENGTH });
+  }
+  if (pattern && !matchesPattern(pattern, text)) {
+    return t('customField.format', { label });
+  }
+  return undefined;
+}
+
+function checkNumber(field: CustomField, value: number, t: Translator): string | undefined {
+  const { min, max } = field.validation || {};
+  const label = field.label;
+  if (min !== undefined && value < min) {
+    return t('customField.belowMin', { label, min });
+  }
+  if (max !== undefined && value > max) {
+    return t('customField.aboveMax', { label, max });
+  }
+  return undefined;
+}
+
+/**
+ * Check one answer against its field. `raw` is what the form holds (a string,
+ * or a boolean for checkboxes) or what the API received. Errors are in the
+ * language of `t`, English unless the caller passes the participant's.
+ */
+export function validateCustomFieldValue(
+  field: CustomField,
+  raw: unknown,
+  t: Translator = getTranslator(DEFAULT_LOCALE)
+): CustomFieldCheck {
+  const label = field.label;
+
+  if (field.type === 'checkbox') {
+    const checked = raw === true || raw === 'true';
+    if (field.required && !checked) {
+      return { error: t('customField.mustCheck', { label }) };
+    }
+    return { value: checked };
+  }
+
+  if (raw !== undefined && raw !== null && typeof raw !== 'string' && typeof raw !== 'number') {
+    return { error: t('customField.invalid', { label }) };
+  }
+
+  const text = raw === undefined || raw === null ? '' : String(raw).trim();
+  if (!text) {
+    return field.required ? { error: t('customField.required', { label }) } : {};
+  }
+
+  switch (field.type) {
+    case 'text': {
+      const error = checkText(field, text, t);
+      return error ? { error } : { value: text };
+    }
+    case 'number': {
+      const value = Number(text);
+      if (!Number.isFinite(value)) {
+        return { error: t('customField.notNumber', { label }) };
+      }
+      const error = checkNumber(field, value, t);
+      return error ? { error } : { value };
+    }
+    case 'select':
+      return (field.options || []).includes(text)
+        ? { value: text }
+        : { error: t('customField.chooseOption', { label }) };
+    case 'date':
+      return isCalendarDate(text)
+        ? { value: text }
+        : { error: t('customField.invalidDate', { label }) };
+    default:
+      return { error: t('customField.unsupported', { label }) };
+  }
+}
+
+/**
+ * Check every answer for a location's fields. Answers to fields the location
+ * does not have are dropped; empty optional fields are left out.
+ */
+export function validateCustomFieldAnswers(
+  fields: CustomField[],
+  raw: Record<string, unknown>,
+  t?: Translator
+): { answers: CustomFieldAnswer[]; errors: string[] } {
+  const answers: CustomFieldAnswer[] = [];
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const check = validateCustomFieldValue(field, raw[field.id], t);
+    if (check.error) {
+      errors.push(check.error);
+    } else if (check.value !== undefined) {
+      answers.push({ fieldId: field.id, label: field.label, value: check.value });
+    }
+  }
+
+  return { answers, errors };
+}
+
+/**
+ * Drop settings that do not apply to the field's type, so a question that
+ * changed type does not carry stale options or rules into the published form.
+ */
+export function normalizeCustomField(field: CustomField): CustomField {
+  const { min, max, pattern } = field.validation || {};
+  const validation = {
+    ...((field.type === 'text' || field.type === 'number') && min !== undefined && { min }),
+    ...((field.type === 'text' || field.type === 'number') && max !== undefined && { max }),
+    ...(field.type === 'text' && pattern && { pattern }),
+  };
+  const placeholder = field.placeholder?.trim();
+
+  return {
+    id: field.id,
+    type: field.type,
+    label: field.label.trim(),
+    required: field.required,
+    ...(field.type === 'select' && { options: (field.options || []).map((option) => option.trim()).filter(Boolean) }),
+    ...(placeholder && (field.type === 'text' || field.type === 'number') && { placeholder }),
+    ...(Object.keys(validation).length > 0 && { validation }),
+  };
+}
+
+/**
+ * Problems with a set of field definitions that the shape alone does not
+ * catch: repeated ids or labels, dropdowns without options, inverted ranges
+ * and patterns that do not compile.
+ */
+export function checkCustomFieldDefinitions(fields: CustomField[]): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  const labels = new Set<string>();
+
+  fields.forEach((field, index) => {
+    const name = field.label.trim() || `Question ${index + 1}`;
+    if (ids.has(field.id)) {
+      problems.push(`${name} has the same id as another question`);
+    }
+    ids.add(field.id);
+
+    const label = field.label.trim().toLowerCase();
+    if (labels.has(label)) {
+      problems.push(`More than one question is labeled "${field.label.trim()}"`);
+    }
+    labels.add(label);
+
+    if (field.type === 'select') {
+      const options = field.options || [];
+      if (options.length === 0) {
+        problems.push(`${name} needs at least one option`);
+      } else if (new Set(options).size !== options.length) {
+        problems.push(`${name} has the same option twice`);
+      }
+    }
+
+    const { min, max, pattern } = field.validation || {};
+    if (min !== undefined && max !== undefined && min > max) {
+      problems.push(`${name} has a minimum greater than its maximum`);
+    }
+    if (pattern) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        problems.push(`${name} has a pattern that is not a valid regular expression`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+/** Answer as shown in the admin view and exports */
+export function formatCustomFieldValue(value: CustomFieldValue): string {
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return String(value);
+}
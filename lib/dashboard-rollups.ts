@@ -0,0 +1,287 @@
+import {
+  eachDayOfInterval,
+  endOfDay,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { getStorage, RollupCounters } from '@/lib/storage';
+import { DashboardStats, HealthSubmission, OutreachLocation } from '@/types';
+
+/**
+ * Incrementally maintained dashboard counters.
+ *
+ * Every submission contributes to two scopes: the global scope and the scope
+ * of its outreach location. Each scope has
+ * - a totals record (`totals` / `location#<churchId>`): overall counts per risk level,
+ *   BMI bucket, follow-up status, gender and age range
+ * - day records (`day#yyyy-MM-dd` / `location#<churchId>#day#yyyy-MM-dd`):
+ *   submissions per calendar day (server time)
+ * - a recent-submissions list (`recent` / `location#<churchId>#recent`)
+ *
+ * Writes apply the difference between a submission's old and new contributions,
+ * so the dashboard can read a bounded number of records regardless of table size.
+ * Location scopes back the dashboard of coordinators limited to one church.
+ */
+
+export const ROLLUP_KEYS = {
+  TOTALS: 'totals',
+  RECENT: 'recent',
+  day: (date: Date) => `day#${format(date, 'yyyy-MM-dd')}`,
+  location: (churchId: string) => `location#${churchId}`,
+  locationDay: (churchId: string, date: Date) => `location#${churchId}#day#${format(date, 'yyyy-MM-dd')}`,
+  locationRecent: (churchId: string) => `location#${churchId}#recent`,
+};
+
+interface RollupScope {
+  totals: string;
+  day: (date: Date) => string;
+  recent: string;
+}
+
+const GLOBAL_SCOPE: RollupScope = {
+  totals: ROLLUP_KEYS.TOTALS,
+  day: ROLLUP_KEYS.day,
+  recent: ROLLUP_KEYS.RECENT,
+};
+
+function getLocationScope(churchId: string): RollupScope {
+  return {
+    totals: ROLLUP_KEYS.location(churchId),
+    day: (date) => ROLLUP_KEYS.locationDay(churchId, date),
+    recent: ROLLUP_KEYS.locationRecent(churchId),
+  };
+}
+
+function getScopes(submission: HealthSubmission): RollupScope[] {
+  return [GLOBAL_SCOPE, getLocationScope(submission.churchId)];
+}
+
+const RECENT_SUBMISSIONS_LIMIT = 20;
+
+const AGE_RANGES: { range: string; min: number; max: number }[] = [
+  { range: '18-25', min: 18, max: 25 },
+  { range: '26-35', min: 26, max: 35 },
+  { range: '36-45', min: 36, max: 45 },
+  { range: '46-55', min: 46, max: 55 },
+  { range: '56-65', min: 56, max: 65 },
+  { range: '65+', min: 66, max: Infinity },
+];
+
+type RollupContributions = Record<string, RollupCounters>;
+
+export function getBmiBucket(submission: Pick<HealthSubmission, 'bmiCategory' | 'estimatedBMI'>): string {
+  switch (submission.bmiCategory) {
+    case 'Underweight':
+      return 'underweight';
+    case 'Normal':
+    case 'Normal weight':
+      return 'normal';
+    case 'Overweight':
+      return 'overweight';
+    case 'Obese':
+      return 'obese';
+  }
+
+  const bmi = submission.estimatedBMI;
+  if (typeof bmi !== 'number') return 'unknown';
+  if (bmi < 18.5) return 'underweight';
+  if (bmi < 25) return 'normal';
+  if (bmi < 30) return 'overweight';
+  return 'obese';
+}
+
+function getGenderBucket(submission: HealthSubmission): string {
+  if (submission.estimatedGender === 'Male') return 'male';
+  if (submission.estimatedGender === 'Female') return 'female';
+  return submission.sex || 'unknown';
+}
+
+function getAgeBucket(submission: HealthSubmission): string {
+  const age = submission.estimatedAge;
+  if (typeof age !== 'number') return 'unknown';
+  return AGE_RANGES.find((bucket) => age >= bucket.min && age <= bucket.max)?.range || 'unknown';
+}
+
+function getContributions(submission: HealthSubmission): RollupContributions {
+  const riskField = `risk:${submission.healthRiskLevel || 'unknown'}`;
+  const submissionDate = new Date(submission.submissionDate);
+  const contributions: RollupContributions = {};
+
+  getScopes(submission).forEach((scope) => {
+    contributions[scope.totals] = {
+      total: 1,
+      riskScoreSum: submission.healthRiskScore || 0,
+      withContact: submission.phone || submission.email ? 1 : 0,
+      [riskField]: 1,
+      [`followUp:${submission.followUpStatus || 'Pending'}`]: 1,
+      [`bmi:${getBmiBucket(submission)}`]: 1,
+      [`gender:${getGenderBucket(submission)}`]: 1,
+      [`age:${getAgeBucket(submission)}`]: 1,
+    };
+    contributions[scope.day(submissionDate)] = {
+      count: 1,
+      [riskField]: 1,
+    };
+  });
+
+  return contributions;
+}
+
+function addContributions(
+  target: RollupContributions,
+  source: RollupContributions,
+  sign: 1 | -1
+): RollupContributions {
+  Object.entries(source).forEach(([key, counters]) => {
+    const record = target[key] || (target[key] = {});
+    Object.entries(counters).forEach(([field, amount]) => {
+      record[field] = (record[field] || 0) + sign * amount;
+    });
+  });
+  return target;
+}
+
+/**
+ * Apply a submission change to the rollups. Pass `before` for updates and
+ * omit it for newly created submissions.
+ */
+export async function applySubmissionToRollups(
+  after: HealthSubmission,
+  before?: HealthSubmission | null
+): Promise<void> {
+  const { rollups } = getStorage();
+  const delta = addContributions({}, getContributions(after), 1);
+  if (before) {
+    addContributions(delta, getContributions(before), -1);
+  }
+
+  await Promise.all(
+    Object.entries(delta).map(([key, counters]) => rollups.increment(key, counters))
+  );
+
+  if (!before) {
+    await Promise.all(
+      getScopes(after).map((scope) => rollups.pushRecent(scope.recent, after.id, RECENT_SUBMISSIONS_LIMIT))
+    );
+  }
+}
+
+/**
+ * Recompute every rollup record from the submissions table.
+ * Used to backfill rollups for data written before they existed.
+ */
+export async function rebuildRollups(submissions: HealthSubmission[]): Promise<number> {
+  const records: RollupContributions = {};
+  submissions.forEach((submission) => {
+    addContributions(records, getContributions(submission), 1);
+  });
+
+  const recentLists: Record<string, string[]> = {};
+  [...submissions]
+    .sort((a, b) => new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime())
+    .forEach((submission) => {
+      getScopes(submission).forEach((scope) => {
+        const ids = recentLists[scope.recent] || (recentLists[scope.recent] = []);
+        if (ids.length < RECENT_SUBMISSIONS_LIMIT) {
+          ids.push(submission.id);
+        }
+      });
+    });
+
+  await getStorage().rollups.replaceAll(records, recentLists);
+  return submissions.length;
+}
+
+function sumDays(days: RollupContributions, scope: RollupScope, from: Date, to: Date): number {
+  return eachDayOfInterval({ start: from, end: to }).reduce(
+    (sum, day) => sum + (days[scope.day(day)]?.count || 0),
+    0
+  );
+}
+
+/**
+ * Build `DashboardStats` from rollup records. Reads one totals record, at most
+ * a month and a week of day records, one record per location and the recent list.
+ * Pass `churchId` to read a single location's scope instead of the global one.
+ */
+export async function getDashboardStatsFromRollups(
+  locations: OutreachLocation[],
+  churchId?: string,
+  now: Date = new Date()
+): Promise<DashboardStats> {
+  const { rollups, submissions } = getStorage();
+  const scope = churchId ? getLocationScope(churchId) : GLOBAL_SCOPE;
+
+  const today = startOfDay(now);
+  const weekStart = startOfWeek(now);
+  const monthStart = startOfMonth(now);
+  const rangeStart = weekStart < monthStart ? weekStart : monthStart;
+
+  const dayKeys = eachDayOfInterval({ start: rangeStart, end: endOfDay(now) }).map(scope.day);
+  const locationKeys = locations.map((location) => ROLLUP_KEYS.location(location.id));
+
+  const [records, recentIds] = await Promise.all([
+    rollups.getMany([scope.totals, ...dayKeys, ...locationKeys]),
+    rollups.getRecent(scope.recent),
+  ]);
+
+  const totals = records[scope.totals] || {};
+  const count = (field: string) => totals[field] || 0;
+  const totalSubmissions = count('total');
+
+  const topLocations = locations
+    .map((location) => {
+      const record = records[ROLLUP_KEYS.location(location.id)] || {};
+      const locationCount = record.total || 0;
+      return {
+        name: location.name,
+        submissions: locationCount,
+        riskScore: locationCount > 0 ? (record.riskScoreSum || 0) / locationCount : 0,
+      };
+    })
+    .filter((location) => location.submissions > 0)
+    .sort((a, b) => b.submissions - a.submissions)
+    .slice(0, 5);
+
+  const recentSubmissions = (
+    await Promise.all(recentIds.map((id) => submissions.get(id)))
+  ).filter((submission): submission is HealthSubmission => submission !== null);
+
+  return {
+    totalSubmissions,
+    todaySubmissions: sumDays(records, scope, today, now),
+    weekSubmissions: sumDays(records, scope, weekStart, now),
+    monthSubmissions: sumDays(records, scope, monthStart, now),
+    totalOutreachLocations: locations.length,
+    averageRiskScore: totalSubmissions > 0 ? count('riskScoreSum') / totalSubmissions : 0,
+    conversionRate: totalSubmissions > 0 ? count('withContact') / totalSubmissions : 0,
+    riskDistribution: {
+      low: count('risk:Low'),
+      moderate: count('risk:Moderate'),
+      high: count('risk:High'),
+      veryHigh: count('risk:Very High'),
+    },
+    ageDistribution: AGE_RANGES.map(({ range }) => ({ range, count: count(`age:${range}`) })),
+    genderDistribution: {
+      male: count('gender:male'),
+      female: count('gender:female'),
+      unknown: count('gender:unknown'),
+    },
+    bmiDistribution: {
+      underweight: count('bmi:underweight'),
+      normal: count('bmi:normal'),
+      overweight: count('bmi:overweight'),
+      obese: count('bmi:obese'),
+    },
+    followUpDistribution: {
+      pending: count('followUp:Pending'),
+      contacted: count('followUp:Contacted'),
+      scheduled: count('followUp:Scheduled'),
+      completed: count('followUp:Completed'),
+    },
+    topLocations,
+    recentSubmissions,
+  };
+}
@@ -146,7 +146,8 @@ export function extractNetworkInfo(req: NextApiRequest): NetworkInfo {
 }
 
 /**
- * Generate a unique fingerprint for the submission
+ * Fingerprint of the device, network and answers. It has no time component,
+ * so submitting the same answers twice from one device gives the same value.
  */
 export function generateSubmissionFingerprint(
   deviceInfo: DeviceInfo,
@@ -161,25 +162,34 @@ export function generateSubmissionFingerprint(
     device: deviceInfo.device,
     screen: deviceInfo.screen,
     timezone: deviceInfo.timezone,
-    timestamp: Date.now(),
     formHash: hashObject(formData),
   };
 
-  return btoa(JSON.stringify(fingerprintData)).substring(0, 32);
+  return hashString(JSON.stringify(fingerprintData));
 }
 
 /**
  * Create a simple hash of an object for fingerprinting
  */
 function hashObject(obj: Record<string, unknown>): string {
-  const str = JSON.stringify(obj, Object.keys(obj).sort());
-  let hash = 0;
+  return hashString(JSON.stringify(obj, Object.keys(obj).sort()));
+}
+
+/**
+ * 53-bit string hash (cyrb53). Not cryptographic, but runs in the browser too
+ * and keeps collisions rare enough for duplicate matching.
+ */
+function hashString(str: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
   }
-  return hash.toString(36);
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
 }
 
 /**
@@ -0,0 +1,224 @@
+import { getStorage } from '@/lib/storage';
+import { AuditActor } from '@/lib/audit';
+import { absorbParticipants, createParticipant, resolveParticipant } from '@/lib/participants';
+import {
+  DuplicateCandidate,
+  DuplicateMatchReason,
+  DuplicateReviewItem,
+  HealthSubmission,
+  PaginatedResult,
+  SubmissionMergeEvent,
+} from '@/types';
+
+/**
+ * Duplicate detection for screenings: a new submission is matched against
+ * earlier ones by device fingerprint, phone number, and name plus date of birth.
+ * Matches are only flagged; an admin merges or dismisses them from the review queue.
+ * Screenings already linked to the same participant are not flagged again.
+ */
+
+// Most earlier submissions a new one is compared against
+const MAX_CANDIDATES = 10;
+
+export interface DuplicateMatch {
+  submission: HealthSubmission;
+  reasons: DuplicateMatchReason[];
+}
+
+/**
+ * Digits-only phone number without the US country code, or undefined when too short to match on
+ */
+export function phoneMatchKey(phone?: string): string | undefined {
+  const digits = (phone || '').replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length >= 10 ? national : undefined;
+}
+
+/**
+ * Lowercased letters of the last and first name with the date of birth,
+ * so "O'Neil, Mary-Ann" and "oneil, maryann" match
+ */
+export function identityMatchKey(firstName: string, lastName: string, dateOfBirth: string): string | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}]/gu, '');
+  const first = normalize(firstName);
+  const last = normalize(lastName);
+  const dob = dateOfBirth.trim().slice(0, 10);
+  return first && last && dob ? `${last}|${first}|${dob}` : undefined;
+}
+
+function matchReasons(submission: HealthSubmission, other: HealthSubmission): DuplicateMatchReason[] {
+  const reasons: DuplicateMatchReason[] = [];
+  if (submission.submissionFingerprint && submission.submissionFingerprint === other.submissionFingerprint) {
+    reasons.push('fingerprint');
+  }
+  if (submission.phoneKey && submission.phoneKey === other.phoneKey) {
+    reasons.push('phone');
+  }
+  if (submission.identityKey && submission.identityKey === other.identityKey) {
+    reasons.push('name_dob');
+  }
+  return reasons;
+}
+
+/**
+ * Earlier submissions that share a match key with `submission`, newest first.
+ * `submission` must already carry its phoneKey and identityKey.
+ */
+export async function findDuplicateMatches(submission: HealthSubmission): Promise<DuplicateMatch[]> {
+  const matches = await getStorage().submissions.findMatches(
+    {
+      submissionFingerprint: submission.submissionFingerprint,
+      phoneKey: submission.phoneKey,
+      identityKey: submission.identityKey,
+    },
+    MAX_CANDIDATES + 1
+  );
+
+  return matches
+    .filter((match) => match.id !== submission.id)
+    .slice(0, MAX_CANDIDATES)
+    .map((match) => ({ submission: match, reasons: matchReasons(submission, match) }))
+    .filter((match) => match.reasons.length > 0);
+}
+
+/**
+ * Matches worth flagging for review: those not already linked to `participantId`
+ */
+export function unlinkedMatches(matches: DuplicateMatch[], participantId?: string): DuplicateMatch[] {
+  return participantId
+    ? matches.filter((match) => match.submission.participantId !== participantId)
+    : matches;
+}
+
+export function toDuplicateCandidates(matches: DuplicateMatch[]): DuplicateCandidate[] {
+  return matches.map((match) => ({ submissionId: match.submission.id, reasons: match.reasons }));
+}
+
+/**
+ * Whether the welcome text already went to this phone number for an earlier screening
+ */
+export function hasWelcomeSmsBeenSent(matches: DuplicateMatch[]): boolean {
+  return matches.some((match) => match.reasons.includes('phone') && !!match.submission.welcomeSmsSentAt);
+}
+
+/**
+ * Page of submissions waiting for duplicate review, each with its candidates.
+ * Keeps reading until at least `pageSize` flagged submissions are found, since
+ * DynamoDB applies the status filter after the page limit.
+ */
+export async function fetchDuplicateReviewPage(options: {
+  churchId?: string;
+  pageSize: number;
+  exclusiveStartKey?: Record<string, unknown>;
+}): Promise<PaginatedResult<DuplicateReviewItem>> {
+  const { submissions } = getStorage();
+  const flagged: HealthSubmission[] = [];
+  let exclusiveStartKey = options.exclusiveStartKey;
+
+  do {
+    const page = await submissions.list({
+      churchId: options.churchId,
+      duplicateStatuses: ['pending'],
+      pageSize: options.pageSize,
+      exclusiveStartKey,
+    });
+    flagged.push(...page.items);
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey && flagged.length < options.pageSize);
+
+  const items = await Promise.all(
+    flagged.map(async (submission) => {
+      const candidates = await Promise.all(
+        (submission.duplicateCandidates || []).map(async (candidate) => ({
+          submission: await submissions.get(candidate.submissionId),
+          reasons: candidate.reasons,
+        }))
+      );
+      return {
+        submission,
+        // Coordinators only see candidates from their own location
+        candidates: candidates.filter(
+          (candidate): candidate is DuplicateReviewItem['candidates'][number] =>
+            !!candidate.submission && (!options.churchId || candidate.submission.churchId === options.churchId)
+        ),
+      };
+    })
+  );
+
+  items.sort((a, b) => b.submission.submissionDate.localeCompare(a.submission.submissionDate));
+
+  return { items, lastEvaluatedKey: exclusiveStartKey };
+}
+
+/**
+ * Link screenings to one participant: the primary's participant, created if it
+ * has none. Participants the other records belong to are folded into it, so
+ * their other screenings move too. Every record is kept as its own screening;
+ * each selected one gets a merge history entry.
+ */
+export async function mergeSubmissions(
+  primary: HealthSubmission,
+  records: HealthSubmission[],
+  actor: AuditActor
+): Promise<{ participantId: string; merged: HealthSubmission[] }> {
+  const existing = primary.participantId ? await resolveParticipant(primary.participantId) : null;
+  // Keep the id of a participant whose record is missing so its screenings stay linked
+  const target = existing || (await createParticipant(primary, primary.participantId));
+
+  const absorbedIds = Array.from(new Set(
+    records
+      .map((record) => record.participantId)
+      .filter((id): id is string => !!id && id !== target.id)
+  ));
+  await absorbParticipants(target, absorbedIds);
+
+  const now = new Date().toISOString();
+  const event: SubmissionMergeEvent = {
+    action: 'merged',
+    at: now,
+    by: actor.email,
+    participantId: target.id,
+    submissionIds: records.map((record) => record.id),
+  };
+
+  const updated = await Promise.all(
+    records.map((record) =>
+      getStorage().submissions.update(record.id, {
+        participantId: target.id,
+        duplicateStatus: record.duplicateStatus ? 'merged' : undefined,
+        mergeHistory: [...(record.mergeHistory || []), event],
+        updatedAt: now,
+      })
+    )
+  );
+
+  return {
+    participantId: target.id,
+    merged: updated.filter((record): record is HealthSubmission => !!record),
+  };
+}
+
+/**
+ * Mark a flagged submission as not a duplicate of its candidates
+ */
+export async function dismissDuplicate(
+  submission: HealthSubmission,
+  actor: AuditActor
+): Promise<HealthSubmission | null> {
+  const now = new Date().toISOString();
+  const event: SubmissionMergeEvent = {
+    action: 'dismissed',
+    at: now,
+    by: actor.email,
+    submissionIds: [
+      submission.id,
+      ...(submission.duplicateCandidates || []).map((candidate) => candidate.submissionId),
+    ],
+  };
+
+  return getStorage().submissions.update(submission.id, {
+    duplicateStatus: 'dismissed',
+    mergeHistory: [...(submission.mergeHistory || []), event],
+    updatedAt: now,
+  });
+}
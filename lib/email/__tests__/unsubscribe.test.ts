@@ -0,0 +1,84 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { emailService } from '@/lib/email';
+import {
+  createUnsubscribeToken,
+  isEmailSuppressed,
+  suppressEmail,
+  unsubscribeEndpointUrl,
+  verifyUnsubscribeToken,
+} from '@/lib/email/unsubscribe';
+
+describe('unsubscribe tokens', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trip the normalized address and the submission', () => {
+    const token = createUnsubscribeToken(' Ana.Diaz@Example.org ', 'submission-1');
+
+    expect(verifyUnsubscribeToken(token)).toEqual({ email: 'ana.diaz@example.org', submissionId: 'submission-1' });
+    expect(verifyUnsubscribeToken(createUnsubscribeToken('ana@example.org'))).toEqual({ email: 'ana@example.org' });
+  });
+
+  it('reject a token whose address was swapped', () => {
+    const [, signature] = createUnsubscribeToken('ana@example.org').split('.');
+    const forged = Buffer.from(JSON.stringify({ email: 'someone@example.org' }), 'utf8').toString('base64url');
+
+    expect(verifyUnsubscribeToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('reject malformed tokens and tokens signed with another secret', () => {
+    const token = createUnsubscribeToken('ana@example.org');
+    vi.stubEnv('JWT_SECRET', 'a-different-secret-that-is-long-enough');
+
+    expect(verifyUnsubscribeToken(token)).toBeNull();
+    expect(verifyUnsubscribeToken('')).toBeNull();
+    expect(verifyUnsubscribeToken('no-signature')).toBeNull();
+  });
+});
+
+describe('sendTemplateEmail', () => {
+  const outbox = path.join(process.env.APP_LOCAL_DATA_DIR as string, 'outbox');
+
+  beforeEach(() => {
+    vi.stubEnv('APP_EMAIL_TRANSPORT', 'file');
+    vi.stubEnv('APP_EMAIL_FILE_DIR', outbox);
+    vi.stubEnv('APP_EMAIL_FROM', 'Health Screening <screening@example.org>');
+    vi.stubEnv('APP_PUBLIC_URL', 'https://screening.example.org/');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('adds a one-click unsubscribe link for the recipient', async () => {
+    const result = await emailService.sendTemplateEmail('Ana@Example.org', 'results', {
+      firstName: 'Ana',
+      submissionId: 'submission-2',
+    });
+
+    expect(result.success).toBe(true);
+    const [file] = readdirSync(outbox);
+    const message = readFileSync(path.join(outbox, file), 'utf8');
+    const header = message.match(/^List-Unsubscribe: <(.+)>$/m)?.[1];
+    expect(header).toMatch(/^https:\/\/screening\.example\.org\/api\/email\/unsubscribe\?token=/);
+    expect(message).toMatch(/^List-Unsubscribe-Post: List-Unsubscribe=One-Click$/m);
+
+    const token = new URL(header as string).searchParams.get('token') as string;
+    expect(header).toBe(unsubscribeEndpointUrl(token));
+    expect(verifyUnsubscribeToken(token)).toEqual({ email: 'ana@example.org', submissionId: 'submission-2' });
+  });
+
+  it('skips addresses that unsubscribed, whatever their case', async () => {
+    await suppressEmail('Ben@Example.org', 'unsubscribe_link');
+
+    const result = await emailService.sendTemplateEmail('ben@example.org', 'followup');
+
+    expect(await isEmailSuppressed(' BEN@example.org')).toBe(true);
+    expect(result).toMatchObject({ success: false, suppressed: true });
+  });
+});
@@ -0,0 +1,142 @@
+import path from 'path';
+import { getStorage } from '@/lib/storage';
+import { renderEmailTemplate, EmailTemplateVariables } from './templates';
+import { createFileTransport } from './transports/file';
+import { createSesTransport } from './transports/ses';
+import { createSmtpTransport } from './transports/smtp';
+import { EmailMessage, EmailResult, EmailTemplateKey, EmailTransport, EmailTransportName } from './types';
+import {
+  createUnsubscribeToken,
+  isEmailSuppressed,
+  unsubscribeEndpointUrl,
+  unsubscribePageUrl,
+} from './unsubscribe';
+
+export * from './types';
+
+let transport: EmailTransport | null | undefined;
+
+/**
+ * Resolve the configured transport (APP_EMAIL_TRANSPORT=ses|smtp|file|none).
+ * Defaults to SMTP when APP_SMTP_URL is set and to none otherwise; `null`
+ * means email is switched off.
+ */
+function getTransport(): EmailTransport | null {
+  if (transport !== undefined) {
+    return transport;
+  }
+
+  const defaultTransport = process.env.APP_SMTP_URL ? 'smtp' : 'none';
+  const name = (process.env.APP_EMAIL_TRANSPORT || defaultTransport) as EmailTransportName;
+
+  if (name !== 'none' && !process.env.APP_EMAIL_FROM) {
+    throw new Error('APP_EMAIL_FROM is required when email is enabled');
+  }
+
+  switch (name) {
+    case 'ses':
+      transport = createSesTransport(process.env.APP_SES_CONFIGURATION_SET || undefined);
+      break;
+    case 'smtp': {
+      const smtpUrl = process.env.APP_SMTP_URL;
+      if (!smtpUrl) {
+        throw new Error('APP_SMTP_URL is required when APP_EMAIL_TRANSPORT=smtp');
+      }
+      transport = createSmtpTransport(smtpUrl);
+      break;
+    }
+    case 'file': {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('APP_EMAIL_TRANSPORT=file is not allowed in production');
+      }
+      transport = createFileTransport(process.env.APP_EMAIL_FILE_DIR || path.join(process.cwd(), 'data', 'outbox'));
+      break;
+    }
+    case 'none':
+      transport = null;
+      break;
+    default:
+      throw new Error(`Unknown email transport: ${name}`);
+  }
+
+  return transport;
+}
+
+export interface EmailRenderContext extends Omit<EmailTemplateVariables, 'locationName' | 'unsubscribeUrl'> {
+  churchId?: string;
+  /** Recorded with an unsubscribe from this email */
+  submissionId?: string;
+  /** Language the participant used on the form */
+  locale?: string;
+}
+
+export class EmailService {
+  /**
+   * Send an email with the configured transport. Never throws; addresses
+   * that unsubscribed are skipped.
+   */
+  async sendEmail(message: Omit<EmailMessage, 'from'>): Promise<EmailResult> {
+    try {
+      const target = getTransport();
+      if (!target) {
+        console.log('Email service is disabled');
+        return { success: false, error: 'Email service is disabled' };
+      }
+
+      if (await isEmailSuppressed(message.to)) {
+        console.log('Email not sent: recipient has unsubscribed');
+        return { success: false, suppressed: true, error: 'Recipient has unsubscribed from email' };
+      }
+
+      const result = await target.send({ ...message, from: process.env.APP_EMAIL_FROM as string });
+      console.log('Email sent successfully:', result.messageId);
+      return { success: true, messageId: result.messageId };
+    } catch (error) {
+      console.error('Email sending failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Render a built-in template for the recipient, with the location name and
+   * an unsubscribe link, and send it. Mail clients that support RFC 8058 show
+   * their own one-click unsubscribe button.
+   */
+  async sendTemplateEmail(
+    to: string,
+    templateKey: EmailTemplateKey,
+    context: EmailRenderContext = {}
+  ): Promise<EmailResult> {
+    const { churchId, submissionId, locale, ...variables } = context;
+    const location = churchId ? await getStorage().locations.get(churchId) : null;
+    const token = createUnsubscribeToken(to, submissionId);
+
+    const rendered = renderEmailTemplate(templateKey, {
+      ...variables,
+      locationName: location?.name,
+      unsubscribeUrl: unsubscribePageUrl(token),
+    }, locale);
+
+    return this.sendEmail({
+      to,
+      ...rendered,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeEndpointUrl(token)}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+  }
+
+  /**
+   * Check if a transport is configured
+   */
+  isEnabled(): boolean {
+    return getTransport() !== null;
+  }
+}
+
+// Export singleton instance
+export const emailService = new EmailService();
@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+import { EmailMessage } from './types';
+
+// Header values outside printable ASCII are sent as RFC 2047 encoded words
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/** Bare address from `Name <address>` or `address` */
+export function addressOf(mailbox: string): string {
+  return (mailbox.match(/<([^>]+)>/)?.[1] || mailbox).trim();
+}
+
+/** Message-ID on the sender's domain */
+export function createMessageId(from: string): string {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  return `<${randomBytes(16).toString('hex')}@${domain}>`;
+}
+
+/**
+ * Build a multipart/alternative message with text and HTML parts, ready for
+ * SMTP DATA, SES raw sends or an .eml file. Lines end in CRLF.
+ */
+export function buildMimeMessage(message: EmailMessage, messageId: string): string {
+  const boundary = `alt-${randomBytes(12).toString('hex')}`;
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
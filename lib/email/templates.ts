@@ -0,0 +1,164 @@
+import { DEFAULT_LOCALE, Locale, resolveLocale, riskLevelLabel } from '@/lib/i18n';
+import { EmailTemplateKey, RenderedEmail } from './types';
+
+export interface EmailTemplateVariables {
+  firstName?: string;
+  locationName?: string;
+  riskLevel?: string;
+  riskScore?: number;
+  bmiCategory?: string;
+  recommendations?: string[];
+  unsubscribeUrl: string;
+}
+
+interface EmailBody {
+  subject: string;
+  heading: string;
+  /** Plain text; newlines become line breaks */
+  paragraphs: string[];
+  list?: { title: string; items: string[] };
+  /** Shown after the list */
+  closing?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const TEMPLATES: Record<Locale, Record<EmailTemplateKey, (variables: EmailTemplateVariables) => EmailBody>> = {
+  en: {
+    results: (variables) => ({
+      subject: 'Your health screening results',
+      heading: `Hi ${variables.firstName || 'there'},`,
+      paragraphs: [
+        `Thank you for completing your health screening with ${variables.locationName || 'our outreach team'}. Here is a summary of your results.`,
+        [
+          `Risk level: ${variables.riskLevel || 'pending'}`,
+          variables.riskScore !== undefined ? `Risk score: ${variables.riskScore}` : '',
+          variables.bmiCategory ? `Estimated BMI category: ${variables.bmiCategory}` : '',
+        ].filter(Boolean).join('\n'),
+      ],
+      ...(variables.recommendations?.length && {
+        list: { title: 'Recommendations', items: variables.recommendations },
+      }),
+      closing: 'This screening is for informational purposes only and does not replace professional medical advice. Please talk with your healthcare provider about any health concerns.',
+    }),
+    followup: (variables) => ({
+      subject: 'Reminder: your health screening follow-up',
+      heading: `Hi ${variables.firstName || 'there'},`,
+      paragraphs: [
+        `This is a friendly reminder about your health screening follow-up with ${variables.locationName || 'our outreach team'}.`,
+        'Please contact us to schedule your next appointment.',
+      ],
+    }),
+  },
+  es: {
+    results: (variables) => ({
+      subject: 'Los resultados de su evaluación de salud',
+      heading: `Hola ${variables.firstName || 'participante'}:`,
+      paragraphs: [
+        `Gracias por completar su evaluación de salud con ${variables.locationName || 'nuestro equipo de alcance'}. Este es un resumen de sus resultados.`,
+        [
+          `Nivel de riesgo: ${variables.riskLevel ? riskLevelLabel(variables.riskLevel, 'es') : 'pendiente'}`,
+          variables.riskScore !== undefined ? `Puntaje de riesgo: ${variables.riskScore}` : '',
+          variables.bmiCategory ? `Categoría estimada de IMC: ${variables.bmiCategory}` : '',
+        ].filter(Boolean).join('\n'),
+      ],
+      ...(variables.recommendations?.length && {
+        list: { title: 'Recomendaciones', items: variables.recommendations },
+      }),
+      closing: 'Esta evaluación es solo informativa y no reemplaza el consejo médico profesional. Hable con su proveedor de salud sobre cualquier inquietud de salud.',
+    }),
+    followup: (variables) => ({
+      subject: 'Recordatorio: el seguimiento de su evaluación de salud',
+      heading: `Hola ${variables.firstName || 'participante'}:`,
+      paragraphs: [
+        `Le recordamos el seguimiento de su evaluación de salud con ${variables.locationName || 'nuestro equipo de alcance'}.`,
+        'Comuníquese con nosotros para programar su próxima cita.',
+      ],
+    }),
+  },
+};
+
+// Unsubscribe wording that ends every email
+interface EmailFooter {
+  text: string;
+  notice: string;
+  link: string;
+}
+
+const FOOTERS: Record<Locale, EmailFooter> = {
+  en: {
+    text: 'To stop receiving these emails, visit',
+    notice: 'You are receiving this because you asked for email updates about your health screening.',
+    link: 'Unsubscribe',
+  },
+  es: {
+    text: 'Para dejar de recibir estos correos, visite',
+    notice: 'Recibe este correo porque pidió recibir noticias sobre su evaluación de salud por correo electrónico.',
+    link: 'Cancelar suscripción',
+  },
+};
+
+function renderText(body: EmailBody, footer: EmailFooter, unsubscribeUrl: string): string {
+  const list = body.list
+    ? [`${body.list.title}:`, ...body.list.items.map((item) => `- ${item}`)].join('\n')
+    : '';
+  return [
+    body.heading,
+    ...body.paragraphs,
+    list,
+    body.closing,
+    `${footer.text} ${unsubscribeUrl}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+function renderHtml(body: EmailBody, footer: EmailFooter, locale: Locale, unsubscribeUrl: string): string {
+  const paragraph = (text: string) =>
+    `<p style="margin:0 0 16px">${escapeHtml(text).replace(/\n/g, '<br>')}</p>`;
+  const list = body.list
+    ? `<p style="margin:0 0 8px"><strong>${escapeHtml(body.list.title)}</strong></p>` +
+      `<ul style="margin:0 0 16px;padding-left:20px">${body.list.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}"><head><meta charset="utf-8"><title>${escapeHtml(body.subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f8fafc;font-family:Arial,sans-serif;color:#1e293b;font-size:15px;line-height:1.5">',
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">',
+    paragraph(body.heading),
+    ...body.paragraphs.map(paragraph),
+    list,
+    body.closing ? paragraph(body.closing) : '',
+    '</div>',
+    '<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#64748b;text-align:center">',
+    `${escapeHtml(footer.notice)} <a href="${escapeHtml(unsubscribeUrl)}" style="color:#64748b">${escapeHtml(footer.link)}</a>`,
+    '</p>',
+    '</body></html>',
+  ].join('\n');
+}
+
+/**
+ * Render a built-in email as a subject with HTML and text bodies, in the
+ * participant's language when it is supported. Every email ends with the
+ * unsubscribe link.
+ */
+export function renderEmailTemplate(
+  key: EmailTemplateKey,
+  variables: EmailTemplateVariables,
+  locale: string = DEFAULT_LOCALE
+): RenderedEmail {
+  const language = resolveLocale(locale);
+  const body = TEMPLATES[language][key](variables);
+  const footer = FOOTERS[language];
+  return {
+    subject: body.subject,
+    html: renderHtml(body, footer, language, variables.unsubscribeUrl),
+    text: renderText(body, footer, variables.unsubscribeUrl),
+  };
+}
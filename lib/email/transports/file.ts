@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { buildMimeMessage, createMessageId } from '../mime';
+import { EmailTransport } from '../types';
+
+/**
+ * Writes each message to `<dir>/<timestamp>-<id>.eml` instead of sending it,
+ * for development and testing. Open the files in any mail client.
+ */
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    name: 'file',
+
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.slice(1, 9)}.eml`;
+
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, name), buildMimeMessage(message, messageId), 'utf8');
+      return { messageId };
+    },
+  };
+}
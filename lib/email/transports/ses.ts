@@ -0,0 +1,26 @@
+import { SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { sesClient } from '@/lib/aws-config';
+import { addressOf, buildMimeMessage, createMessageId } from '../mime';
+import { EmailTransport } from '../types';
+
+/**
+ * Amazon SES (v2 API). Messages go out raw so the unsubscribe headers are kept;
+ * the sender must be a verified identity. `APP_SES_CONFIGURATION_SET` picks the
+ * configuration set, e.g. for bounce and complaint events.
+ */
+export function createSesTransport(configurationSetName?: string): EmailTransport {
+  return {
+    name: 'ses',
+
+    async send(message) {
+      const raw = buildMimeMessage(message, createMessageId(message.from));
+      const result = await sesClient.send(new SendEmailCommand({
+        FromEmailAddress: addressOf(message.from),
+        Destination: { ToAddresses: [addressOf(message.to)] },
+        Content: { Raw: { Data: Buffer.from(raw, 'utf8') } },
+        ...(configurationSetName && { ConfigurationSetName: configurationSetName }),
+      }));
+      return { messageId: result.MessageId || '' };
+    },
+  };
+}
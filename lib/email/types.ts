@@ -0,0 +1,33 @@
+export type EmailTransportName = 'ses' | 'smtp' | 'file' | 'none';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Extra headers, e.g. `List-Unsubscribe` */
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  /** Hand the message to the transport; throws when it was not accepted */
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+export interface EmailResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  /** Not sent because the address unsubscribed */
+  suppressed?: boolean;
+}
+
+export type EmailTemplateKey = 'results' | 'followup';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getJwtSecret } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { EmailSuppression, EmailSuppressionSource } from '@/types';
+
+/**
+ * Email unsubscribe links and the email suppression list. Links carry a
+ * signed token naming the address, so no one can unsubscribe an address they
+ * were not sent; tokens do not expire, since old emails must keep working.
+ */
+
+interface UnsubscribeTokenPayload {
+  email: string;
+  submissionId?: string;
+}
+
+// Keyed apart from session tokens, which are signed with the same secret
+function sign(payload: string): string {
+  return createHmac('sha256', `email-unsubscribe:${getJwtSecret()}`).update(payload).digest('base64url');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function createUnsubscribeToken(email: string, submissionId?: string): string {
+  const payload: UnsubscribeTokenPayload = {
+    email: normalizeEmail(email),
+    ...(submissionId && { submissionId }),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/** The token's address and submission, or null when it is malformed or not ours */
+export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as UnsubscribeTokenPayload;
+    return typeof payload.email === 'string' && payload.email ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Public origin links in emails point at (`APP_PUBLIC_URL`, defaulting to NEXTAUTH_URL) */
+export function publicBaseUrl(): string {
+  return (process.env.APP_PUBLIC_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/** Page a participant confirms the unsubscribe on */
+export function unsubscribePageUrl(token: string): string {
+  return `${publicBaseUrl()}/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/** RFC 8058 one-click endpoint mail clients POST to */
+export function unsubscribeEndpointUrl(token: string): string {
+  return `${publicBaseUrl()}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export async function isEmailSuppressed(email: string): Promise<boolean> {
+  return Boolean(await getStorage().emailSuppressions.get(normalizeEmail(email)));
+}
+
+export async function suppressEmail(
+  email: string,
+  source: EmailSuppressionSource,
+  submissionId?: string
+): Promise<EmailSuppression> {
+  const suppression: EmailSuppression = {
+    id: normalizeEmail(email),
+    source,
+    createdAt: new Date().toISOString(),
+    ...(submissionId && { submissionId }),
+  };
+  await getStorage().emailSuppressions.put(suppression);
+  return suppression;
+}
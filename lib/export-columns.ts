@@ -0,0 +1,207 @@
+import { AdminRole, HealthSubmission, OutreachLocation } from '@/types';
+import { LEGACY_RISK_RULE_VERSION } from '@/lib/risk-engine';
+import { formatCustomFieldValue } from '@/lib/custom-fields';
+
+/**
+ * Column catalogue for submission exports. Kept free of server-only imports
+ * so the admin UI can render the column picker from the same definitions.
+ */
+
+export type CellValue = string | number | boolean | null | undefined;
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export type ExportColumnGroup =
+  | 'identity'
+  | 'contact'
+  | 'screening'
+  | 'custom'
+  | 'analysis'
+  | 'followUp'
+  | 'device';
+
+export interface ExportContext {
+  locationNames: Map<string, string>;
+}
+
+export interface ExportColumn {
+  id: string;
+  title: string;
+  group: ExportColumnGroup;
+  value: (submission: HealthSubmission, context: ExportContext) => CellValue;
+}
+
+export const EXPORT_COLUMN_GROUP_LABELS: Record<ExportColumnGroup, string> = {
+  identity: 'Submission',
+  contact: 'Contact Details (PII)',
+  screening: 'Screening Answers',
+  custom: 'Location Questions',
+  analysis: 'Calculated Results',
+  followUp: 'Follow-up',
+  device: 'Device & Network',
+};
+
+function joinParts(...parts: (string | number | undefined)[]): string {
+  return parts.filter((part) => part !== undefined && part !== '').join(' ');
+}
+
+/**
+ * Every column the export can produce. Keep ids stable: they are what API
+ * callers pass in `columns` and what NDJSON uses as object keys.
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'id', title: 'Submission ID', group: 'identity', value: (s) => s.id },
+  { id: 'churchId', title: 'Church ID', group: 'identity', value: (s) => s.churchId },
+  {
+    id: 'churchName',
+    title: 'Church Name',
+    group: 'identity',
+    value: (s, ctx) => ctx.locationNames.get(s.churchId) || s.churchId,
+  },
+  { id: 'submissionDate', title: 'Submission Date', group: 'identity', value: (s) => s.submissionDate },
+  { id: 'kioskVolunteer', title: 'Kiosk Volunteer', group: 'identity', value: (s) => s.kiosk?.volunteerName },
+  { id: 'kioskDevice', title: 'Kiosk Tablet', group: 'identity', value: (s) => s.kiosk?.deviceLabel },
+
+  { id: 'firstName', title: 'First Name', group: 'contact', value: (s) => s.firstName },
+  { id: 'lastName', title: 'Last Name', group: 'contact', value: (s) => s.lastName },
+  { id: 'dateOfBirth', title: 'Date of Birth', group: 'contact', value: (s) => s.dateOfBirth },
+  { id: 'phone', title: 'Phone Number', group: 'contact', value: (s) => s.phone },
+  { id: 'email', title: 'Email Address', group: 'contact', value: (s) => s.email },
+  { id: 'tcpaConsent', title: 'TCPA Consent', group: 'contact', value: (s) => s.tcpaConsent },
+  { id: 'contactPreference', title: 'Contact Preference', group: 'contact', value: (s) => s.contactPreference || 'sms' },
+  { id: 'locale', title: 'Language', group: 'contact', value: (s) => s.locale || 'en' },
+
+  { id: 'familyHistoryDiabetes', title: 'Family History - Diabetes', group: 'screening', value: (s) => s.familyHistoryDiabetes },
+  { id: 'familyHistoryHighBP', title: 'Family History - High BP', group: 'screening', value: (s) => s.familyHistoryHighBP },
+  { id: 'familyHistoryDementia', title: 'Family History - Dementia', group: 'screening', value: (s) => s.familyHistoryDementia },
+  { id: 'nerveSymptoms', title: 'Nerve Symptoms', group: 'screening', value: (s) => s.nerveSymptoms },
+  { id: 'sex', title: 'Sex', group: 'screening', value: (s) => s.sex },
+  { id: 'cardiovascularHistory', title: 'Cardiovascular History', group: 'screening', value: (s) => s.cardiovascularHistory },
+  { id: 'chronicKidneyDisease', title: 'Chronic Kidney Disease', group: 'screening', value: (s) => s.chronicKidneyDisease },
+  { id: 'diabetes', title: 'Diabetes', group: 'screening', value: (s) => s.diabetes },
+  { id: 'insuranceType', title: 'Insurance Type', group: 'screening', value: (s) => s.insuranceType },
+
+  { id: 'formVersion', title: 'Form Version', group: 'custom', value: (s) => s.formVersion },
+  // Expanded into one column per field by expandCustomFieldColumns
+  {
+    id: 'customFields',
+    title: 'Location Questions',
+    group: 'custom',
+    value: (s) => (s.customFieldAnswers || [])
+      .map((answer) => `${answer.label}: ${formatCustomFieldValue(answer.value)}`)
+      .join('; '),
+  },
+
+  { id: 'estimatedBMI', title: 'Estimated BMI', group: 'analysis', value: (s) => s.estimatedBMI },
+  { id: 'bmiCategory', title: 'BMI Category', group: 'analysis', value: (s) => s.bmiCategory },
+  { id: 'estimatedAge', title: 'Estimated Age', group: 'analysis', value: (s) => s.estimatedAge },
+  { id: 'estimatedGender', title: 'Estimated Gender', group: 'analysis', value: (s) => s.estimatedGender },
+  { id: 'healthRiskLevel', title: 'Health Risk Level', group: 'analysis', value: (s) => s.healthRiskLevel },
+  { id: 'healthRiskScore', title: 'Health Risk Score', group: 'analysis', value: (s) => s.healthRiskScore },
+  { id: 'riskRuleVersion', title: 'Risk Rule Version', group: 'analysis', value: (s) => s.healthRiskLevel ? s.riskRuleVersion || LEGACY_RISK_RULE_VERSION : undefined },
+
+  { id: 'followUpStatus', title: 'Follow-up Status', group: 'followUp', value: (s) => s.followUpStatus },
+  { id: 'followUpDate', title: 'Follow-up Date', group: 'followUp', value: (s) => s.followUpDate },
+  { id: 'followUpNotes', title: 'Follow-up Notes', group: 'followUp', value: (s) => s.followUpNotes },
+
+  { id: 'ipAddress', title: 'IP Address', group: 'device', value: (s) => s.networkInfo?.ipAddress },
+  { id: 'deviceType', title: 'Device Type', group: 'device', value: (s) => s.deviceInfo?.device?.type },
+  {
+    id: 'browser',
+    title: 'Browser',
+    group: 'device',
+    value: (s) => joinParts(s.deviceInfo?.browser?.name, s.deviceInfo?.browser?.version),
+  },
+  {
+    id: 'operatingSystem',
+    title: 'Operating System',
+    group: 'device',
+    value: (s) => joinParts(s.deviceInfo?.os?.name, s.deviceInfo?.os?.version),
+  },
+  { id: 'submissionFingerprint', title: 'Submission Fingerprint', group: 'device', value: (s) => s.submissionFingerprint },
+  { id: 'timezone', title: 'Timezone', group: 'device', value: (s) => s.deviceInfo?.timezone },
+  {
+    id: 'screenResolution',
+    title: 'Screen Resolution',
+    group: 'device',
+    value: (s) =>
+      s.deviceInfo?.screen ? `${s.deviceInfo.screen.width}x${s.deviceInfo.screen.height}` : undefined,
+  },
+  { id: 'userAgent', title: 'User Agent', group: 'device', value: (s) => s.deviceInfo?.userAgent },
+  { id: 'sessionId', title: 'Session ID', group: 'device', value: (s) => s.sessionId },
+];
+
+/** Columns used when the caller does not pick any: everything except raw device fingerprints */
+export const DEFAULT_EXPORT_COLUMN_IDS = EXPORT_COLUMNS
+  .filter((column) => column.group !== 'device')
+  .map((column) => column.id);
+
+/** Columns that identify a participant or can hold free-text personal details */
+const PII_COLUMN_GROUPS: ExportColumnGroup[] = ['contact', 'device'];
+const PII_COLUMN_IDS = ['customFields', 'followUpNotes'];
+
+function isPiiColumn(column: ExportColumn): boolean {
+  return PII_COLUMN_GROUPS.includes(column.group) || PII_COLUMN_IDS.includes(column.id);
+}
+
+/**
+ * Column ids each role may export. Viewers who are granted export access
+ * still never receive PII.
+ */
+export const ROLE_EXPORT_COLUMN_IDS: Record<AdminRole, string[]> = {
+  admin: EXPORT_COLUMNS.map((column) => column.id),
+  coordinator: EXPORT_COLUMNS.map((column) => column.id),
+  viewer: EXPORT_COLUMNS.filter((column) => !isPiiColumn(column)).map((column) => column.id),
+};
+
+/**
+ * Resolve requested column ids in catalogue order, dropping unknown ids and
+ * columns the role may not export. Unknown roles get the viewer allowlist.
+ */
+export function resolveExportColumns(columnIds: string[] | undefined, role: string): ExportColumn[] {
+  const requested = new Set(columnIds && columnIds.length > 0 ? columnIds : DEFAULT_EXPORT_COLUMN_IDS);
+  const allowed = new Set(ROLE_EXPORT_COLUMN_IDS[role as AdminRole] || ROLE_EXPORT_COLUMN_IDS.viewer);
+  return EXPORT_COLUMNS.filter((column) => requested.has(column.id) && allowed.has(column.id));
+}
+
+/**
+ * Replace the `customFields` column with one column per custom field of the
+ * exported locations. Titles name the location when more than one location
+ * contributes fields, since field labels often repeat between locations.
+ */
+export function expandCustomFieldColumns(
+  columns: ExportColumn[],
+  locations: Pick<OutreachLocation, 'id' | 'name' | 'customFields'>[]
+): ExportColumn[] {
+  const withFields = locations.filter((location) => location.customFields?.length);
+  if (withFields.length === 0) {
+    return columns;
+  }
+
+  return columns.flatMap((column) => {
+    if (column.id !== 'customFields') {
+      return [column];
+    }
+    return withFields.flatMap((location) =>
+      (location.customFields || []).map((field): ExportColumn => ({
+        id: `custom.${location.id}.${field.id}`,
+        title: withFields.length > 1 ? `${location.name}: ${field.label}` : field.label,
+        group: 'custom',
+        value: (s) => {
+          if (s.churchId !== location.id) return undefined;
+          const answer = s.customFieldAnswers?.find((a) => a.fieldId === field.id);
+          return answer ? formatCustomFieldValue(answer.value) : undefined;
+        },
+      }))
+    );
+  });
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+};
@@ -213,45 +213,3 @@ export const SELFIE_VALIDATION_OPTIONS: FileValidationOptions = {
   allowedExtensions: ['.jpg', '.jpeg', '.png', '.webp'],
   checkMagicBytes: true,
 };
-
-/**
- * Rate limiting for file uploads (simple in-memory implementation)
- */
-const uploadAttempts = new Map<string, { count: number; lastAttempt: number }>();
-
-export function checkUploadRateLimit(identifier: string, maxAttempts = 5, windowMs = 60000): boolean {
-  const now = Date.now();
-  const userAttempts = uploadAttempts.get(identifier);
-
-  if (!userAttempts) {
-    uploadAttempts.set(identifier, { count: 1, lastAttempt: now });
-    return true;
-  }
-
-  // Reset if window has passed
-  if (now - userAttempts.lastAttempt > windowMs) {
-    uploadAttempts.set(identifier, { count: 1, lastAttempt: now });
-    return true;
-  }
-
-  // Check if under limit
-  if (userAttempts.count < maxAttempts) {
-    userAttempts.count++;
-    userAttempts.lastAttempt = now;
-    return true;
-  }
-
-  return false;
-}
-
-/**
- * Clean up old rate limit entries (call periodically)
- */
-export function cleanupRateLimitEntries(maxAge = 3600000): void {
-  const now = Date.now();
-  for (const [key, value] of uploadAttempts.entries()) {
-    if (now - value.lastAttempt > maxAge) {
-      uploadAttempts.delete(key);
-    }
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,319 @@
+import { contactChannels } from '@/lib/contact-preference';
+import { emailService } from '@/lib/email';
+import { normalizeEmail } from '@/lib/email/unsubscribe';
+import { isThrottlingError, smsSendIntervalMs } from '@/lib/sms-campaigns';
+import { formatPhoneNumber, smsService } from '@/lib/sms-service';
+import { getStorage } from '@/lib/storage';
+import { fetchAllSubmissions } from '@/lib/submissions-service';
+import {
+  ContactChannel,
+  FollowUpEvent,
+  FollowUpReminderSkipReason,
+  HealthSubmission,
+  OutreachLocation,
+  SubmissionFollowUpStatus,
+} from '@/types';
+
+/**
+ * The follow-up scheduler. Participants whose follow-up date has come get the
+ * `followup` reminder once per date, by text, email or both as they chose on
+ * the form, and screenings still Pending after the escalation period are
+ * flagged and reported to their location's contact.
+ * Everything it does is written to the submission's follow-up history.
+ */
+
+/** Follow-up dates further in the past than this are skipped rather than sent late */
+export const FOLLOW_UP_REMINDER_MAX_OVERDUE_DAYS = 7;
+
+// Completed follow-ups need no reminder
+const REMINDER_STATUSES: SubmissionFollowUpStatus[] = ['Pending', 'Contacted', 'Scheduled'];
+
+// A run stops starting sends after this, so it finishes inside a 60s function timeout
+const RUN_TIME_BUDGET_MS = 45 * 1000;
+
+const SCHEDULER = 'scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FollowUpRunSummary {
+  reminded: number;
+  failed: number;
+  skipped: number;
+  escalated: number;
+  /** Locations whose contact was texted about newly escalated screenings */
+  locationsNotified: number;
+  /** Reminders left for the next run because SNS throttled or the time budget ran out */
+  deferred: number;
+}
+
+/** Days a screening may stay Pending before it is escalated (`APP_FOLLOW_UP_ESCALATION_DAYS`, default 7) */
+export function followUpEscalationDays(): number {
+  const days = Number(process.env.APP_FOLLOW_UP_ESCALATION_DAYS);
+  return days > 0 ? days : 7;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
+
+export function isReminderDue(submission: HealthSubmission, now: Date): boolean {
+  return Boolean(
+    submission.followUpDate &&
+    submission.followUpDate <= now.toISOString() &&
+    submission.followUpReminderFor !== submission.followUpDate &&
+    REMINDER_STATUSES.includes(submission.followUpStatus || 'Pending')
+  );
+}
+
+/**
+ * Pending for longer than the escalation period, counted from the screening
+ * or from a later follow-up date, whichever is later.
+ */
+export function isEscalationDue(submission: HealthSubmission, now: Date): boolean {
+  if ((submission.followUpStatus || 'Pending') !== 'Pending' || submission.followUpEscalatedAt) {
+    return false;
+  }
+  const pendingSince = [submission.submissionDate, submission.followUpDate || '']
+    .sort()
+    .pop() as string;
+  return now.getTime() - new Date(pendingSince).getTime() > followUpEscalationDays() * DAY_MS;
+}
+
+type ReminderEvent = Omit<FollowUpEvent, 'at' | 'by'>;
+
+const SUMMARY_COUNTERS: Record<Exclude<FollowUpEvent['action'], 'escalated'>, 'reminded' | 'failed' | 'skipped'> = {
+  reminder_sent: 'reminded',
+  reminder_failed: 'failed',
+  reminder_skipped: 'skipped',
+};
+
+async function recordEvents(
+  submission: HealthSubmission,
+  events: ReminderEvent[],
+  updates: Partial<HealthSubmission> = {}
+): Promise<void> {
+  const now = new Date().toISOString();
+  // DynamoDB rejects undefined attributes, so only set the optional ones that have values
+  const entries = events.map((event): FollowUpEvent => ({
+    action: event.action,
+    at: now,
+    by: SCHEDULER,
+    ...(event.channel && { channel: event.channel }),
+    ...(event.followUpDate && { followUpDate: event.followUpDate }),
+    ...(event.messageId && { messageId: event.messageId }),
+    ...(event.skipReason && { skipReason: event.skipReason }),
+    ...(event.error && { error: event.error }),
+  }));
+
+  await getStorage().submissions.update(submission.id, {
+    ...updates,
+    followUpHistory: [...(submission.followUpHistory || []), ...entries],
+    updatedAt: now,
+  });
+}
+
+/** Text the reminder. Returns null when SNS throttled it. */
+async function textReminder(submission: HealthSubmission, texted: Set<string>): Promise<ReminderEvent | null> {
+  const followUpDate = submission.followUpDate;
+  const phone = formatPhoneNumber(submission.phone || '');
+  const reason: FollowUpReminderSkipReason | null = !phone
+    ? 'no_phone'
+    : !submission.tcpaConsent
+      ? 'no_consent'
+      : texted.has(phone)
+        ? 'duplicate_phone'
+        : null;
+  if (reason || !phone) {
+    return { action: 'reminder_skipped', channel: 'sms', followUpDate, skipReason: reason || 'no_phone' };
+  }
+
+  const result = await smsService.sendTemplateSMS(phone, 'followup', {
+    churchId: submission.churchId,
+    locale: submission.locale,
+    firstName: submission.firstName,
+    riskLevel: submission.healthRiskLevel,
+  }, {
+    log: { submissionId: submission.id, churchId: submission.churchId },
+  });
+
+  if (result.success) {
+    texted.add(phone);
+    return { action: 'reminder_sent', channel: 'sms', followUpDate, messageId: result.messageId };
+  }
+  if (isThrottlingError(result.error)) {
+    return null;
+  }
+  if (result.suppressed) {
+    return { action: 'reminder_skipped', channel: 'sms', followUpDate, skipReason: 'opted_out' };
+  }
+  return { action: 'reminder_failed', channel: 'sms', followUpDate, error: result.error || 'Unknown error' };
+}
+
+async function emailReminder(submission: HealthSubmission, emailed: Set<string>): Promise<ReminderEvent> {
+  const followUpDate = submission.followUpDate;
+  const email = normalizeEmail(submission.email || '');
+  if (!email || emailed.has(email)) {
+    return {
+      action: 'reminder_skipped',
+      channel: 'email',
+      followUpDate,
+      skipReason: email ? 'duplicate_email' : 'no_email',
+    };
+  }
+
+  const result = await emailService.sendTemplateEmail(email, 'followup', {
+    churchId: submission.churchId,
+    submissionId: submission.id,
+    locale: submission.locale,
+    firstName: submission.firstName,
+  });
+
+  if (result.success) {
+    emailed.add(email);
+    return { action: 'reminder_sent', channel: 'email', followUpDate, messageId: result.messageId };
+  }
+  if (result.suppressed) {
+    return { action: 'reminder_skipped', channel: 'email', followUpDate, skipReason: 'unsubscribed' };
+  }
+  return { action: 'reminder_failed', channel: 'email', followUpDate, error: result.error || 'Unknown error' };
+}
+
+/**
+ * Send the reminder for one due submission on each of `channels`. Returns
+ * false when SNS throttled the text, leaving the reminder due for the next run.
+ */
+async function remind(
+  submission: HealthSubmission,
+  now: Date,
+  channels: ContactChannel[],
+  sent: { phones: Set<string>; emails: Set<string> },
+  summary: FollowUpRunSummary
+): Promise<boolean> {
+  const followUpDate = submission.followUpDate;
+  const events: ReminderEvent[] = [];
+
+  const overdueMs = now.getTime() - new Date(followUpDate || '').getTime();
+  if (overdueMs > FOLLOW_UP_REMINDER_MAX_OVERDUE_DAYS * DAY_MS) {
+    events.push({ action: 'reminder_skipped', followUpDate, skipReason: 'expired' });
+  } else {
+    // Texts go first, so a throttled text does not leave an email to be sent twice
+    if (channels.includes('sms')) {
+      const event = await textReminder(submission, sent.phones);
+      if (!event) return false;
+      events.push(event);
+    }
+    if (channels.includes('email')) {
+      events.push(await emailReminder(submission, sent.emails));
+    }
+  }
+
+  // Marked handled even when a send failed, so a broken number or address is not retried every run
+  events.forEach((event) => summary[SUMMARY_COUNTERS[event.action as keyof typeof SUMMARY_COUNTERS]]++);
+  await recordEvents(submission, events, { followUpReminderFor: followUpDate });
+  return true;
+}
+
+/** Reminder channels that are switched on */
+function enabledChannels(): ContactChannel[] {
+  const channels: ContactChannel[] = smsService.isEnabled() ? ['sms'] : [];
+  try {
+    if (emailService.isEnabled()) channels.push('email');
+  } catch (error) {
+    console.error('Email is misconfigured; follow-up reminders are texted only:', error);
+  }
+  return channels;
+}
+
+async function notifyLocation(location: OutreachLocation, count: number): Promise<boolean> {
+  if (!location.contactPhone) {
+    return false;
+  }
+  const screenings = count === 1 ? '1 screening has' : `${count} screenings have`;
+  const result = await smsService.sendSMS({
+    phoneNumber: location.contactPhone,
+    message: `${location.name}: ${screenings} been pending follow-up for more than ${followUpEscalationDays()} days. Please review them in the admin portal.`,
+  }, {
+    log: { churchId: location.id },
+  });
+  if (!result.success) {
+    console.warn(`Failed to notify ${location.name} about escalated follow-ups:`, result.error);
+  }
+  return result.success;
+}
+
+/**
+ * Send due reminders, earliest follow-up date first, at the SMS campaign rate
+ * until the run's time budget is used up, then escalate stale Pending
+ * screenings. Meant to run from a scheduler every hour or so; reminders wait
+ * while the channels a participant chose are off, but escalation still happens.
+ */
+export async function runFollowUpReminders(now: Date = new Date()): Promise<FollowUpRunSummary> {
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  const summary: FollowUpRunSummary = {
+    reminded: 0,
+    failed: 0,
+    skipped: 0,
+    escalated: 0,
+    locationsNotified: 0,
+    deferred: 0,
+  };
+
+  const submissions = await fetchAllSubmissions({ followUpStatuses: REMINDER_STATUSES });
+
+  const due = submissions
+    .filter((submission) => isReminderDue(submission, now))
+    .sort((a, b) => (a.followUpDate || '').localeCompare(b.followUpDate || ''));
+
+  const enabled = enabledChannels();
+  if (enabled.length > 0) {
+    const sent = { phones: new Set<string>(), emails: new Set<string>() };
+    const interval = smsSendIntervalMs();
+    let nextSendAt = Date.now();
+
+    for (const [index, submission] of Array.from(due.entries())) {
+      if (Date.now() >= deadline) {
+        summary.deferred += due.length - index;
+        break;
+      }
+
+      await sleep(nextSendAt - Date.now());
+      nextSendAt = Date.now() + interval;
+
+      // Read it again so history written by another run is not overwritten
+      const current = await getStorage().submissions.get(submission.id);
+      if (!current || !isReminderDue(current, now)) continue;
+
+      // Left due while every channel the participant chose is switched off
+      const channels = contactChannels(current).filter((channel) => enabled.includes(channel));
+      if (channels.length === 0) continue;
+
+      if (!(await remind(current, now, channels, sent, summary))) {
+        console.warn('Follow-up reminders were throttled; the rest are left for the next run');
+        summary.deferred += due.length - index;
+        break;
+      }
+    }
+  }
+
+  const escalatedByLocation = new Map<string, number>();
+  for (const submission of submissions.filter((item) => isEscalationDue(item, now))) {
+    const current = await getStorage().submissions.get(submission.id);
+    if (!current || !isEscalationDue(current, now)) continue;
+
+    await recordEvents(current, [{ action: 'escalated' }], { followUpEscalatedAt: new Date().toISOString() });
+    escalatedByLocation.set(current.churchId, (escalatedByLocation.get(current.churchId) || 0) + 1);
+    summary.escalated++;
+  }
+
+  if (escalatedByLocation.size > 0 && smsService.isEnabled()) {
+    const locations = await getStorage().locations.list();
+    for (const location of locations) {
+      const count = escalatedByLocation.get(location.id);
+      if (count && (await notifyLocation(location, count))) {
+        summary.locationsNotified++;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,91 @@
+import { en, MessageKey } from './messages/en';
+import { es } from './messages/es';
+
+export type { MessageKey } from './messages/en';
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Each language in its own words, for the language switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+/** Remembers the participant's choice between visits to the form */
+export const LOCALE_COOKIE = 'hs_locale';
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+export type Translator = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+/** Supported language for a tag such as `es-MX` or `ES`, or null when there is none */
+export function matchLocale(value: string | undefined | null): Locale | null {
+  const language = value?.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find((locale) => locale === language) || null;
+}
+
+/** Supported languages from an Accept-Language header, most preferred first */
+function acceptedLocales(header: string): Locale[] {
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { tag, index, quality: quality ? Number(quality.slice(2)) || 0 : 1 };
+    })
+    .filter((entry) => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((entry) => matchLocale(entry.tag))
+    .filter((locale): locale is Locale => locale !== null);
+}
+
+/**
+ * Language to show the form in: a `?lang=` link (e.g. on a Spanish flyer's
+ * QR code) wins, then the language the participant picked before, then the
+ * browser's languages.
+ */
+export function detectLocale(sources: {
+  query?: string | string[];
+  cookie?: string;
+  acceptLanguage?: string;
+}): Locale {
+  const query = Array.isArray(sources.query) ? sources.query[0] : sources.query;
+  return matchLocale(query)
+    || matchLocale(sources.cookie)
+    || acceptedLocales(sources.acceptLanguage || '')[0]
+    || DEFAULT_LOCALE;
+}
+
+/** Language stored with a submission; anything unsupported is recorded as the default */
+export function resolveLocale(value: string | undefined | null): Locale {
+  return matchLocale(value) || DEFAULT_LOCALE;
+}
+
+/** Message text for `key`, with `{name}` placeholders filled from `values` */
+export function translate(locale: Locale, key: MessageKey, values: Record<string, string | number> = {}): string {
+  const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+}
+
+export function getTranslator(locale: Locale): Translator {
+  return (key, values) => translate(locale, key, values);
+}
+
+const RISK_LEVEL_KEYS: Record<string, MessageKey> = {
+  Low: 'risk.low',
+  Moderate: 'risk.moderate',
+  High: 'risk.high',
+  'Very High': 'risk.veryHigh',
+};
+
+/** A stored risk level (`Very High`) in the participant's language; unknown values pass through */
+export function riskLevelLabel(riskLevel: string, locale: string | undefined): string {
+  const key = RISK_LEVEL_KEYS[riskLevel];
+  return key ? translate(resolveLocale(locale), key) : riskLevel;
+}
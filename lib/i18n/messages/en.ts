@@ -0,0 +1,214 @@
+/**
+ * Participant-facing text in English. Every other language must translate
+ * each key; `{name}` placeholders are filled in when the text is shown.
+ */
+export const en = {
+  // Screening form
+  'form.title': 'Health Screening',
+  'form.tagline': 'Join the fight against diabetes',
+  'form.language': 'Language',
+  'form.previous': 'Previous',
+  'form.next': 'Next',
+  'form.submit': 'Submit Screening',
+  'form.submitting': 'Submitting...',
+  'form.yes': 'Yes',
+  'form.no': 'No',
+  'form.answerRequired': 'Please select an answer',
+
+  'steps.personal': 'Personal Info',
+  'steps.photo': 'Photo',
+  'steps.health': 'Health Questions',
+  'steps.additional': 'Additional Info',
+  'steps.custom': 'Location Questions',
+  'steps.consent': 'Consent',
+
+  'toast.photoConversion': 'Photo processing issue. Please try uploading a file instead.',
+  'toast.imageTooLarge': 'Image must be less than 5MB',
+  'toast.imageType': 'Please upload a valid image file (JPEG, PNG, or WebP)',
+  'toast.imageExtension': 'Invalid file extension. Please use .jpg, .png, or .webp files',
+  'toast.imageFilename': 'Invalid filename. Please choose a different file',
+  'toast.imageInvalid': 'Invalid image file. Please try a different file',
+  'toast.photoProcessing': 'Error processing photo. Please try again.',
+  'toast.photoRead': 'Error reading photo file. Please try again.',
+  'toast.photoRequired': 'Please take a photo to continue',
+  'toast.additionalRequired': 'Please answer all additional health questions',
+  'toast.customRequired': 'Please answer the location questions',
+  'toast.consentRequired': 'Please provide TCPA consent to continue',
+  'toast.photoBeforeSubmit': 'Please take a photo before submitting',
+  'toast.submitted': 'Your health screening has been submitted successfully!',
+  'toast.submitFailed': 'Failed to submit form. Please try again.',
+  'toast.savedOffline': 'No connection right now. Your screening was saved on this device and will be sent automatically.',
+
+  'personal.title': 'Personal Information',
+  'personal.firstName': 'First Name *',
+  'personal.firstNameRequired': 'First name is required',
+  'personal.firstNameLength': 'First name must be at least 2 characters',
+  'personal.firstNamePlaceholder': 'Enter your first name',
+  'personal.lastName': 'Last Name *',
+  'personal.lastNameRequired': 'Last name is required',
+  'personal.lastNameLength': 'Last name must be at least 2 characters',
+  'personal.lastNamePlaceholder': 'Enter your last name',
+  'personal.dateOfBirth': 'Date of Birth *',
+  'personal.dateOfBirthRequired': 'Date of birth is required',
+  'personal.dateOfBirthPattern': 'Please enter date in MM/DD/YYYY format (e.g., 02/04/1992)',
+  'personal.dateOfBirthFormat': 'Please enter date in MM/DD/YYYY format',
+  'personal.dateOfBirthMonth': 'Please enter a valid month (01-12)',
+  'personal.dateOfBirthDay': 'Please enter a valid day (01-31)',
+  'personal.dateOfBirthYear': 'Please enter a valid year',
+  'personal.dateOfBirthInvalid': 'Please enter a valid date',
+  'personal.dateOfBirthAge': 'Must be 18 or older',
+  'personal.dateOfBirthPlaceholder': 'MM/DD/YYYY (e.g., 02/04/1992)',
+  'personal.phone': 'Phone Number *',
+  'personal.phoneRequired': 'Phone number is required',
+  'personal.phoneInvalid': 'Please enter a valid phone number',
+  'personal.email': 'Email Address (Optional)',
+  'personal.emailInvalid': 'Please enter a valid email address',
+
+  'photo.title': 'Take Your Photo',
+  'photo.subtitle': "We'll use AI to estimate your health metrics from your photo",
+  'photo.capture': 'Capture',
+  'photo.cancel': 'Cancel',
+  'photo.ready': 'Ready to take your photo?',
+  'photo.readyHint': 'This helps us estimate your health metrics',
+  'photo.useCamera': 'Use Camera',
+  'photo.upload': 'Upload Photo',
+  'photo.alt': 'Captured selfie',
+  'photo.retake': 'Retake Photo',
+  'photo.captured': 'Photo captured successfully!',
+
+  'health.title': 'Health Screening Questions',
+  'health.subtitle': 'These questions help us assess your health risk factors',
+  'health.familyDiabetes': 'Family History of Diabetes',
+  'health.familyDiabetesQuestion': 'It is estimated that up to 80% of African Americans have a family history of diabetes. Do you have a family history of diabetes (parents, grandparents, aunts, or uncles)?',
+  'health.familyHighBP': 'Family History of High Blood Pressure',
+  'health.familyHighBPQuestion': 'More than half of all African Americans have a family history of high blood pressure. Do you have a family history of high blood pressure?',
+  'health.familyDementia': "Family History of Dementia or Alzheimer's",
+  'health.familyDementiaQuestion': "Has your mother, father, grandparent, or close relative ever been treated for dementia or Alzheimer's?",
+  'health.nerveSymptoms': 'Nerve Symptoms – Neuropathy',
+  'health.nerveSymptomsQuestion': 'Do you have numbness or tingling in your feet after standing or sitting for a while?',
+  'health.eczema': 'Eczema Diagnosis',
+  'health.eczemaQuestion': 'Have you ever been diagnosed with eczema by a healthcare provider?',
+  'health.familyAsthma': 'Family History of Asthma',
+  'health.familyAsthmaQuestion': 'Has your mother, father, grandparent, or close relative ever been diagnosed with asthma?',
+
+  'additional.title': 'Additional Health Information',
+  'additional.subtitle': 'Let us know more about your health history and insurance',
+  'additional.sex': 'Sex',
+  'additional.male': 'Male',
+  'additional.female': 'Female',
+  'additional.cardiovascular': 'Cardiovascular History',
+  'additional.cardiovascularQuestion': 'Have you ever been diagnosed with heart disease, high blood pressure, or stroke?',
+  'additional.kidney': 'Chronic Kidney Disease',
+  'additional.kidneyQuestion': 'Have you been diagnosed with chronic kidney disease or are you currently on dialysis?',
+  'additional.diabetes': 'Diabetes',
+  'additional.diabetesQuestion': 'Have you ever been diagnosed with diabetes?',
+  'additional.insuranceType': 'Insurance Type',
+  'additional.insuranceTypeQuestion': 'What type of insurance do you have?',
+  'additional.insurancePrivate': 'Private insurance (Blue Cross, Aetna, Kaiser, etc.)',
+  'additional.insuranceGovernment': 'Government insurance (Medicare, Medi-Cal, Medicaid, VA, etc.)',
+  'additional.insuranceNone': 'No insurance / Self-pay',
+  'additional.insuranceNotSure': 'Not sure',
+  'additional.insuranceId': 'Insurance ID',
+  'additional.insuranceIdQuestion': 'Please enter your insurance ID number (if available)',
+  'additional.insuranceIdPlaceholder': 'Enter your insurance ID number',
+  'additional.insuranceIdHint': 'This field is optional. You can find this on your insurance card.',
+
+  'custom.title': 'Location Questions',
+  'custom.subtitle': 'A few questions from {location}',
+  'custom.selectPrompt': 'Select an option',
+
+  // Answers to a location's own questions; {label} is the question as the location wrote it
+  'customField.required': '{label} is required',
+  'customField.mustCheck': '{label} must be checked',
+  'customField.invalid': '{label} is invalid',
+  'customField.tooShort': '{label} must be at least {min} characters',
+  'customField.tooLong': '{label} must be {max} characters or less',
+  'customField.format': '{label} is not in the expected format',
+  'customField.notNumber': '{label} must be a number',
+  'customField.belowMin': '{label} must be at least {min}',
+  'customField.aboveMax': '{label} must be at most {max}',
+  'customField.chooseOption': 'Please choose an option for {label}',
+  'customField.invalidDate': '{label} must be a valid date',
+  'customField.unsupported': '{label} has an unsupported type',
+
+  'consent.title': 'Consent & Follow-up',
+  'consent.subtitle': 'We need your permission to contact you about your health screening',
+  'consent.contactPreference': 'How should we send your results and reminders?',
+  'consent.contactSms': 'Text message',
+  'consent.contactEmail': 'Email',
+  'consent.contactBoth': 'Both',
+  'consent.noticeTitle': 'Important Notice',
+  'consent.noticeBody': 'This screening is for informational purposes only and does not replace professional medical advice. Please consult with your healthcare provider for any health concerns.',
+
+  // Form page and results screen
+  'page.title': 'Health Screening | {location}',
+  'page.description': 'Complete your health screening with {location} - Join the fight against diabetes',
+  'page.errorTitle': 'Oops! Something went wrong',
+  'page.goHome': 'Go Home',
+  'page.notFound': 'Church not found. Please check your QR code and try again.',
+  'page.unavailable': 'This health screening is currently unavailable. Please contact the church directly.',
+  'page.loadFailed': 'Unable to load the health screening form right now. Please try again later.',
+
+  'results.title': 'Thank You - Health Screening | {location}',
+  'results.description': 'Thank you for completing your health screening',
+  'results.heading': 'Thank You!',
+  'results.submitted': 'Your health screening has been submitted successfully.',
+  'results.submissionId': 'Submission ID:',
+  'results.saveId': "Save this ID for your records. We'll contact you soon with your results and next steps.",
+  'results.nextTitle': "What's Next?",
+  'results.nextResults': "You'll receive your results and personalized recommendations",
+  'results.nextFollowUp': 'Our team will contact you to discuss follow-up care if needed',
+  'results.closing': 'Thank you for taking the first step in your health journey with {location}',
+  'results.savedOffline': 'Your health screening has been saved on this device.',
+  'results.savedOfflineDetail': "It will be sent automatically once this device is back online. We'll contact you with your results and next steps after it arrives.",
+
+  // Screenings saved on the device while offline
+  'queue.pendingOne': '1 screening saved on this device is waiting to be sent',
+  'queue.pendingMany': '{count} screenings saved on this device are waiting to be sent',
+  'queue.sending': 'Sending saved screenings...',
+  'queue.offline': 'Offline. Saved screenings will be sent when the connection returns.',
+  'queue.sendNow': 'Send now',
+  'queue.rejectedOne': '1 saved screening could not be sent: {error}',
+  'queue.rejectedMany': '{count} saved screenings could not be sent. Latest error: {error}',
+  'queue.discard': 'Remove',
+  'queue.discardConfirm': 'Remove the saved screenings that could not be sent? They will be deleted from this device.',
+
+  // Kiosk mode on a tablet passed between participants
+  'kiosk.setupTitle': 'Start kiosk mode',
+  'kiosk.setupSubtitle': 'Volunteers: sign this tablet in so each screening is wiped after the participant finishes.',
+  'kiosk.volunteerName': 'Volunteer name',
+  'kiosk.deviceLabel': 'Tablet name',
+  'kiosk.deviceLabelPlaceholder': 'e.g. Table 2 iPad',
+  'kiosk.pin': 'Volunteer PIN',
+  'kiosk.start': 'Start kiosk',
+  'kiosk.starting': 'Starting...',
+  'kiosk.setupOffline': 'Connect to the internet to start kiosk mode. Once started, it keeps working offline.',
+  'kiosk.setupFailed': 'Kiosk mode could not be started: {error}',
+  'kiosk.notEnabled': 'Kiosk mode is not turned on for this location. Ask an administrator to set a volunteer PIN.',
+  'kiosk.sessionExpired': 'The kiosk session has ended. Enter the PIN to start a new one.',
+  'kiosk.thanks': 'Thank you! Your screening was submitted.',
+  'kiosk.thanksSaved': 'Thank you! Your screening was saved and will be sent when the tablet is back online.',
+  'kiosk.timedOut': 'The screening was cleared because nobody was using the tablet.',
+  'kiosk.handBackTitle': 'Please hand the tablet back to a volunteer',
+  'kiosk.handBackBody': 'Your answers and photo have been cleared from this tablet.',
+  'kiosk.unlockPrompt': 'Volunteer PIN',
+  'kiosk.unlock': 'Unlock',
+  'kiosk.wrongPin': 'That PIN is not correct.',
+  'kiosk.lockedOut': 'Too many wrong PINs. Try again in {seconds} seconds.',
+  'kiosk.volunteerTitle': 'Volunteer menu',
+  'kiosk.sessionInfo': '{volunteer} on {device}, since {time}',
+  'kiosk.nextScreening': 'Start next screening',
+  'kiosk.endSession': 'End kiosk session',
+  'kiosk.endConfirm': 'End kiosk mode on this tablet? A volunteer PIN will be needed to start it again.',
+  'kiosk.idleTitle': 'Are you still there?',
+  'kiosk.idleBody': 'For your privacy, this screening will be cleared in {seconds} seconds.',
+  'kiosk.idleContinue': 'I am still here',
+
+  // Risk levels as stored on a scored screening
+  'risk.low': 'Low',
+  'risk.moderate': 'Moderate',
+  'risk.high': 'High',
+  'risk.veryHigh': 'Very High',
+};
+
+export type MessageKey = keyof typeof en;
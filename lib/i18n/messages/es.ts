@@ -0,0 +1,211 @@
+import { MessageKey } from './en';
+
+/** Participant-facing text in Spanish */
+export const es: Record<MessageKey, string> = {
+  // Screening form
+  'form.title': 'Evaluación de Salud',
+  'form.tagline': 'Únase a la lucha contra la diabetes',
+  'form.language': 'Idioma',
+  'form.previous': 'Anterior',
+  'form.next': 'Siguiente',
+  'form.submit': 'Enviar Evaluación',
+  'form.submitting': 'Enviando...',
+  'form.yes': 'Sí',
+  'form.no': 'No',
+  'form.answerRequired': 'Por favor seleccione una respuesta',
+
+  'steps.personal': 'Datos Personales',
+  'steps.photo': 'Foto',
+  'steps.health': 'Preguntas de Salud',
+  'steps.additional': 'Información Adicional',
+  'steps.custom': 'Preguntas del Lugar',
+  'steps.consent': 'Consentimiento',
+
+  'toast.photoConversion': 'Hubo un problema al procesar la foto. Intente subir un archivo.',
+  'toast.imageTooLarge': 'La imagen debe pesar menos de 5MB',
+  'toast.imageType': 'Suba un archivo de imagen válido (JPEG, PNG o WebP)',
+  'toast.imageExtension': 'Extensión de archivo no válida. Use archivos .jpg, .png o .webp',
+  'toast.imageFilename': 'Nombre de archivo no válido. Elija otro archivo',
+  'toast.imageInvalid': 'Archivo de imagen no válido. Intente con otro archivo',
+  'toast.photoProcessing': 'Error al procesar la foto. Inténtelo de nuevo.',
+  'toast.photoRead': 'Error al leer la foto. Inténtelo de nuevo.',
+  'toast.photoRequired': 'Tómese una foto para continuar',
+  'toast.additionalRequired': 'Responda todas las preguntas de salud adicionales',
+  'toast.customRequired': 'Responda las preguntas del lugar',
+  'toast.consentRequired': 'Dé su consentimiento TCPA para continuar',
+  'toast.photoBeforeSubmit': 'Tómese una foto antes de enviar',
+  'toast.submitted': '¡Su evaluación de salud se envió correctamente!',
+  'toast.submitFailed': 'No se pudo enviar el formulario. Inténtelo de nuevo.',
+  'toast.savedOffline': 'No hay conexión en este momento. Su evaluación se guardó en este dispositivo y se enviará automáticamente.',
+
+  'personal.title': 'Información Personal',
+  'personal.firstName': 'Nombre *',
+  'personal.firstNameRequired': 'El nombre es obligatorio',
+  'personal.firstNameLength': 'El nombre debe tener al menos 2 caracteres',
+  'personal.firstNamePlaceholder': 'Escriba su nombre',
+  'personal.lastName': 'Apellido *',
+  'personal.lastNameRequired': 'El apellido es obligatorio',
+  'personal.lastNameLength': 'El apellido debe tener al menos 2 caracteres',
+  'personal.lastNamePlaceholder': 'Escriba su apellido',
+  'personal.dateOfBirth': 'Fecha de Nacimiento *',
+  'personal.dateOfBirthRequired': 'La fecha de nacimiento es obligatoria',
+  'personal.dateOfBirthPattern': 'Escriba la fecha en formato MM/DD/AAAA (p. ej., 02/04/1992)',
+  'personal.dateOfBirthFormat': 'Escriba la fecha en formato MM/DD/AAAA',
+  'personal.dateOfBirthMonth': 'Escriba un mes válido (01-12)',
+  'personal.dateOfBirthDay': 'Escriba un día válido (01-31)',
+  'personal.dateOfBirthYear': 'Escriba un año válido',
+  'personal.dateOfBirthInvalid': 'Escriba una fecha válida',
+  'personal.dateOfBirthAge': 'Debe tener 18 años o más',
+  'personal.dateOfBirthPlaceholder': 'MM/DD/AAAA (p. ej., 02/04/1992)',
+  'personal.phone': 'Número de Teléfono *',
+  'personal.phoneRequired': 'El número de teléfono es obligatorio',
+  'personal.phoneInvalid': 'Escriba un número de teléfono válido',
+  'personal.email': 'Correo Electrónico (Opcional)',
+  'personal.emailInvalid': 'Escriba un correo electrónico válido',
+
+  'photo.title': 'Tómese una Foto',
+  'photo.subtitle': 'Usaremos IA para estimar sus indicadores de salud a partir de su foto',
+  'photo.capture': 'Tomar',
+  'photo.cancel': 'Cancelar',
+  'photo.ready': '¿Listo para tomarse la foto?',
+  'photo.readyHint': 'Esto nos ayuda a estimar sus indicadores de salud',
+  'photo.useCamera': 'Usar Cámara',
+  'photo.upload': 'Subir Foto',
+  'photo.alt': 'Foto tomada',
+  'photo.retake': 'Tomar Otra Foto',
+  'photo.captured': '¡Foto tomada correctamente!',
+
+  'health.title': 'Preguntas de Evaluación de Salud',
+  'health.subtitle': 'Estas preguntas nos ayudan a evaluar sus factores de riesgo',
+  'health.familyDiabetes': 'Antecedentes Familiares de Diabetes',
+  'health.familyDiabetesQuestion': 'Se estima que hasta el 80% de los afroamericanos tienen antecedentes familiares de diabetes. ¿Tiene antecedentes familiares de diabetes (padres, abuelos, tías o tíos)?',
+  'health.familyHighBP': 'Antecedentes Familiares de Presión Arterial Alta',
+  'health.familyHighBPQuestion': 'Más de la mitad de los afroamericanos tienen antecedentes familiares de presión arterial alta. ¿Tiene antecedentes familiares de presión arterial alta?',
+  'health.familyDementia': 'Antecedentes Familiares de Demencia o Alzheimer',
+  'health.familyDementiaQuestion': '¿Su madre, padre, abuelo o algún familiar cercano ha recibido tratamiento por demencia o Alzheimer?',
+  'health.nerveSymptoms': 'Síntomas Nerviosos – Neuropatía',
+  'health.nerveSymptomsQuestion': '¿Siente adormecimiento u hormigueo en los pies después de estar de pie o sentado un rato?',
+  'health.eczema': 'Diagnóstico de Eccema',
+  'health.eczemaQuestion': '¿Algún proveedor de salud le ha diagnosticado eccema?',
+  'health.familyAsthma': 'Antecedentes Familiares de Asma',
+  'health.familyAsthmaQuestion': '¿A su madre, padre, abuelo o algún familiar cercano le han diagnosticado asma?',
+
+  'additional.title': 'Información de Salud Adicional',
+  'additional.subtitle': 'Cuéntenos más sobre su historial de salud y su seguro',
+  'additional.sex': 'Sexo',
+  'additional.male': 'Masculino',
+  'additional.female': 'Femenino',
+  'additional.cardiovascular': 'Historial Cardiovascular',
+  'additional.cardiovascularQuestion': '¿Le han diagnosticado alguna vez enfermedad del corazón, presión arterial alta o un derrame cerebral?',
+  'additional.kidney': 'Enfermedad Renal Crónica',
+  'additional.kidneyQuestion': '¿Le han diagnosticado enfermedad renal crónica o recibe diálisis actualmente?',
+  'additional.diabetes': 'Diabetes',
+  'additional.diabetesQuestion': '¿Le han diagnosticado diabetes alguna vez?',
+  'additional.insuranceType': 'Tipo de Seguro',
+  'additional.insuranceTypeQuestion': '¿Qué tipo de seguro médico tiene?',
+  'additional.insurancePrivate': 'Seguro privado (Blue Cross, Aetna, Kaiser, etc.)',
+  'additional.insuranceGovernment': 'Seguro del gobierno (Medicare, Medi-Cal, Medicaid, VA, etc.)',
+  'additional.insuranceNone': 'Sin seguro / Pago por cuenta propia',
+  'additional.insuranceNotSure': 'No estoy seguro',
+  'additional.insuranceId': 'Número de Seguro',
+  'additional.insuranceIdQuestion': 'Escriba su número de identificación del seguro (si lo tiene)',
+  'additional.insuranceIdPlaceholder': 'Escriba su número de seguro',
+  'additional.insuranceIdHint': 'Este campo es opcional. Lo encontrará en su tarjeta del seguro.',
+
+  'custom.title': 'Preguntas del Lugar',
+  'custom.subtitle': 'Algunas preguntas de {location}',
+  'custom.selectPrompt': 'Seleccione una opción',
+
+  // Respuestas a las preguntas propias del lugar; {label} es la pregunta tal como la escribió el lugar
+  'customField.required': '{label} es obligatorio',
+  'customField.mustCheck': 'Debe marcar {label}',
+  'customField.invalid': '{label} no es válido',
+  'customField.tooShort': '{label} debe tener al menos {min} caracteres',
+  'customField.tooLong': '{label} debe tener {max} caracteres o menos',
+  'customField.format': '{label} no tiene el formato esperado',
+  'customField.notNumber': '{label} debe ser un número',
+  'customField.belowMin': '{label} debe ser al menos {min}',
+  'customField.aboveMax': '{label} debe ser como máximo {max}',
+  'customField.chooseOption': 'Elija una opción para {label}',
+  'customField.invalidDate': '{label} debe ser una fecha válida',
+  'customField.unsupported': '{label} tiene un tipo no compatible',
+
+  'consent.title': 'Consentimiento y Seguimiento',
+  'consent.subtitle': 'Necesitamos su permiso para comunicarnos con usted sobre su evaluación de salud',
+  'consent.contactPreference': '¿Cómo prefiere recibir sus resultados y recordatorios?',
+  'consent.contactSms': 'Mensaje de texto',
+  'consent.contactEmail': 'Correo electrónico',
+  'consent.contactBoth': 'Ambos',
+  'consent.noticeTitle': 'Aviso Importante',
+  'consent.noticeBody': 'Esta evaluación es solo informativa y no reemplaza el consejo médico profesional. Consulte a su proveedor de salud sobre cualquier inquietud de salud.',
+
+  // Form page and results screen
+  'page.title': 'Evaluación de Salud | {location}',
+  'page.description': 'Complete su evaluación de salud con {location} - Únase a la lucha contra la diabetes',
+  'page.errorTitle': '¡Uy! Algo salió mal',
+  'page.goHome': 'Ir al Inicio',
+  'page.notFound': 'No se encontró la iglesia. Revise su código QR e inténtelo de nuevo.',
+  'page.unavailable': 'Esta evaluación de salud no está disponible en este momento. Comuníquese directamente con la iglesia.',
+  'page.loadFailed': 'No pudimos cargar el formulario de evaluación. Inténtelo más tarde.',
+
+  'results.title': 'Gracias - Evaluación de Salud | {location}',
+  'results.description': 'Gracias por completar su evaluación de salud',
+  'results.heading': '¡Gracias!',
+  'results.submitted': 'Su evaluación de salud se envió correctamente.',
+  'results.submissionId': 'Número de envío:',
+  'results.saveId': 'Guarde este número para sus registros. Pronto nos comunicaremos con usted con sus resultados y los próximos pasos.',
+  'results.nextTitle': '¿Qué Sigue?',
+  'results.nextResults': 'Recibirá sus resultados y recomendaciones personalizadas',
+  'results.nextFollowUp': 'Nuestro equipo se comunicará con usted para hablar sobre la atención de seguimiento si es necesario',
+  'results.closing': 'Gracias por dar el primer paso en su camino hacia la salud con {location}',
+  'results.savedOffline': 'Su evaluación de salud se guardó en este dispositivo.',
+  'results.savedOfflineDetail': 'Se enviará automáticamente cuando este dispositivo vuelva a tener conexión. Nos comunicaremos con usted con sus resultados y los próximos pasos cuando llegue.',
+
+  // Evaluaciones guardadas en el dispositivo sin conexión
+  'queue.pendingOne': '1 evaluación guardada en este dispositivo está esperando para enviarse',
+  'queue.pendingMany': '{count} evaluaciones guardadas en este dispositivo están esperando para enviarse',
+  'queue.sending': 'Enviando evaluaciones guardadas...',
+  'queue.offline': 'Sin conexión. Las evaluaciones guardadas se enviarán cuando vuelva la conexión.',
+  'queue.sendNow': 'Enviar ahora',
+  'queue.rejectedOne': '1 evaluación guardada no se pudo enviar: {error}',
+  'queue.rejectedMany': '{count} evaluaciones guardadas no se pudieron enviar. Último error: {error}',
+  'queue.discard': 'Eliminar',
+  'queue.discardConfirm': '¿Eliminar las evaluaciones guardadas que no se pudieron enviar? Se borrarán de este dispositivo.',
+
+  // Modo quiosco en una tableta que pasa de un participante a otro
+  'kiosk.setupTitle': 'Iniciar modo quiosco',
+  'kiosk.setupSubtitle': 'Voluntarios: registren esta tableta para que cada evaluación se borre cuando el participante termine.',
+  'kiosk.volunteerName': 'Nombre del voluntario',
+  'kiosk.deviceLabel': 'Nombre de la tableta',
+  'kiosk.deviceLabelPlaceholder': 'p. ej. iPad de la mesa 2',
+  'kiosk.pin': 'PIN de voluntario',
+  'kiosk.start': 'Iniciar quiosco',
+  'kiosk.starting': 'Iniciando...',
+  'kiosk.setupOffline': 'Conéctese a internet para iniciar el modo quiosco. Una vez iniciado, sigue funcionando sin conexión.',
+  'kiosk.setupFailed': 'No se pudo iniciar el modo quiosco: {error}',
+  'kiosk.notEnabled': 'El modo quiosco no está activado para este lugar. Pida a un administrador que configure un PIN de voluntario.',
+  'kiosk.sessionExpired': 'La sesión del quiosco terminó. Ingrese el PIN para iniciar una nueva.',
+  'kiosk.thanks': '¡Gracias! Su evaluación fue enviada.',
+  'kiosk.thanksSaved': '¡Gracias! Su evaluación se guardó y se enviará cuando la tableta vuelva a tener conexión.',
+  'kiosk.timedOut': 'La evaluación se borró porque nadie estaba usando la tableta.',
+  'kiosk.handBackTitle': 'Por favor, devuelva la tableta a un voluntario',
+  'kiosk.handBackBody': 'Sus respuestas y su foto se borraron de esta tableta.',
+  'kiosk.unlockPrompt': 'PIN de voluntario',
+  'kiosk.unlock': 'Desbloquear',
+  'kiosk.wrongPin': 'Ese PIN no es correcto.',
+  'kiosk.lockedOut': 'Demasiados PIN incorrectos. Intente de nuevo en {seconds} segundos.',
+  'kiosk.volunteerTitle': 'Menú del voluntario',
+  'kiosk.sessionInfo': '{volunteer} en {device}, desde las {time}',
+  'kiosk.nextScreening': 'Comenzar la siguiente evaluación',
+  'kiosk.endSession': 'Terminar la sesión del quiosco',
+  'kiosk.endConfirm': '¿Terminar el modo quiosco en esta tableta? Se necesitará un PIN de voluntario para iniciarlo de nuevo.',
+  'kiosk.idleTitle': '¿Sigue ahí?',
+  'kiosk.idleBody': 'Para proteger su privacidad, esta evaluación se borrará en {seconds} segundos.',
+  'kiosk.idleContinue': 'Sigo aquí',
+
+  // Risk levels as stored on a scored screening
+  'risk.low': 'Bajo',
+  'risk.moderate': 'Moderado',
+  'risk.high': 'Alto',
+  'risk.veryHigh': 'Muy Alto',
+};
@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createHash, timingSafeEqual } from 'crypto';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check that a request to a scheduled job endpoint carries
+ * `Authorization: Bearer <APP_JOB_RUNNER_SECRET>`. Job endpoints are reported
+ * as missing while the secret is unset. Returns false once a response is sent.
+ */
+export function requireJobRunner(req: NextApiRequest, res: NextApiResponse): boolean {
+  const secret = process.env.APP_JOB_RUNNER_SECRET;
+  if (!secret) {
+    res.status(404).json({ success: false, error: 'Not found' });
+    return false;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return false;
+  }
+
+  const authorization = req.headers.authorization || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+  if (!token || !timingSafeEqual(digest(token), digest(secret))) {
+    res.status(401).json({ success: false, error: 'Unauthorized' });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KIOSK_SESSION_TTL_MS } from '@/lib/kiosk';
+import {
+  checkKioskPin,
+  clearKioskSession,
+  isKioskSessionExpired,
+  loadKioskSession,
+  storeKioskSession,
+} from '@/lib/kiosk/device';
+import { createKioskSession, isKioskAvailable, verifyKioskToken, withoutKioskPin } from '@/lib/kiosk/tokens';
+import { OutreachLocation } from '@/types';
+
+const details = {
+  deviceId: '6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f',
+  deviceLabel: 'Tablet 2',
+  volunteerName: 'Ana',
+};
+
+describe('kiosk session tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('attribute screenings to the volunteer and device for one event day', () => {
+    vi.useFakeTimers({ now: new Date('2026-03-10T15:00:00.000Z'), toFake: ['Date'] });
+
+    const session = createKioskSession('church-1', details);
+
+    expect(session.expiresAt).toBe(new Date(Date.now() + KIOSK_SESSION_TTL_MS).toISOString());
+    expect(verifyKioskToken(session.token, 'church-1')).toEqual({
+      ...details,
+      sessionId: session.sessionId,
+      startedAt: '2026-03-10T15:00:00.000Z',
+    });
+  });
+
+  it('still attribute once the session expired, for screenings synced later', () => {
+    const session = createKioskSession('church-1', details);
+
+    vi.useFakeTimers({ now: Date.now() + 7 * KIOSK_SESSION_TTL_MS, toFake: ['Date'] });
+
+    expect(verifyKioskToken(session.token, 'church-1')?.sessionId).toBe(session.sessionId);
+  });
+
+  it('reject tokens from another location, edited tokens and tokens signed with another secret', () => {
+    const { token } = createKioskSession('church-1', details);
+    const [encoded, signature] = token.split('.');
+    const edited = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')), volunteerName: 'Someone else' }),
+      'utf8'
+    ).toString('base64url');
+
+    expect(verifyKioskToken(token, 'church-2')).toBeNull();
+    expect(verifyKioskToken(`${edited}.${signature}`, 'church-1')).toBeNull();
+    expect(verifyKioskToken(encoded, 'church-1')).toBeNull();
+
+    vi.stubEnv('JWT_SECRET', 'a-different-secret-that-is-long-enough');
+    expect(verifyKioskToken(token, 'church-1')).toBeNull();
+  });
+});
+
+describe('kiosk locations', () => {
+  const location = {
+    id: 'church-1',
+    name: 'Grace Church',
+    isActive: true,
+    kioskEnabled: true,
+    kioskPinHash: '$2a$12$hash',
+  } as OutreachLocation;
+
+  it('are available only when active, enabled and given a PIN', () => {
+    expect(isKioskAvailable(location)).toBe(true);
+    expect(isKioskAvailable({ ...location, isActive: false })).toBe(false);
+    expect(isKioskAvailable({ ...location, kioskEnabled: false })).toBe(false);
+    expect(isKioskAvailable({ ...location, kioskPinHash: undefined })).toBe(false);
+    expect(isKioskAvailable(null)).toBe(false);
+  });
+
+  it('never send the PIN hash to browsers', () => {
+    expect(withoutKioskPin(location)).not.toHaveProperty('kioskPinHash');
+    expect(location.kioskPinHash).toBe('$2a$12$hash');
+  });
+});
+
+describe('kiosk session on the tablet', () => {
+  beforeEach(() => {
+    const values = new Map<string, string>();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => values.set(key, value),
+        removeItem: (key: string) => values.delete(key),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('unlocks with the PIN it was started with, without storing the PIN', async () => {
+    const stored = await storeKioskSession(createKioskSession('church-1', details), '4821');
+
+    expect(JSON.stringify(stored)).not.toContain('4821');
+    const session = loadKioskSession('church-1');
+    expect(session).toEqual(stored);
+    expect(await checkKioskPin(session!, '4821')).toBe(true);
+    expect(await checkKioskPin(session!, '4822')).toBe(false);
+  });
+
+  it('salts the PIN hash per session', async () => {
+    const first = await storeKioskSession(createKioskSession('church-1', details), '4821');
+    const second = await storeKioskSession(createKioskSession('church-1', details), '4821');
+
+    expect(second.pinHash).not.toBe(first.pinHash);
+  });
+
+  it('belongs to the location it was started for until cleared or expired', async () => {
+    const stored = await storeKioskSession(createKioskSession('church-1', details), '4821');
+
+    expect(loadKioskSession('church-2')).toBeNull();
+    expect(isKioskSessionExpired(stored)).toBe(false);
+    expect(isKioskSessionExpired(stored, Date.now() + KIOSK_SESSION_TTL_MS)).toBe(true);
+
+    clearKioskSession();
+    expect(loadKioskSession('church-1')).toBeNull();
+  });
+});
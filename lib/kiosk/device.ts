@@ -0,0 +1,77 @@
+import { v4 as uuidv4 } from 'uuid';
+import { KioskSessionGrant } from './index';
+
+/**
+ * The kiosk session stored on the tablet. The PIN is checked by the server
+ * when a session starts; after that the tablet unlocks offline against a
+ * salted hash of the PIN the volunteer entered. That only keeps participants
+ * away from the volunteer menu, it does not protect data on the device.
+ */
+
+const SESSION_KEY = 'hs_kiosk_session';
+const DEVICE_KEY = 'hs_kiosk_device';
+
+export interface StoredKioskSession extends KioskSessionGrant {
+  pinSalt: string;
+  pinHash: string;
+}
+
+export interface KioskDevice {
+  id: string;
+  label: string;
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** This tablet's id and the name volunteers gave it, created on first use */
+export function getKioskDevice(): KioskDevice {
+  const stored = readJson<KioskDevice>(DEVICE_KEY);
+  if (stored?.id) {
+    return stored;
+  }
+  const device: KioskDevice = { id: uuidv4(), label: '' };
+  window.localStorage.setItem(DEVICE_KEY, JSON.stringify(device));
+  return device;
+}
+
+function saveKioskDevice(device: KioskDevice): void {
+  window.localStorage.setItem(DEVICE_KEY, JSON.stringify(device));
+}
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function storeKioskSession(grant: KioskSessionGrant, pin: string): Promise<StoredKioskSession> {
+  const pinSalt = uuidv4();
+  const session: StoredKioskSession = { ...grant, pinSalt, pinHash: await hashPin(pin, pinSalt) };
+  window.localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  saveKioskDevice({ id: grant.deviceId, label: grant.deviceLabel });
+  return session;
+}
+
+/** The tablet's kiosk session for this location, if one was started here */
+export function loadKioskSession(churchId: string): StoredKioskSession | null {
+  const session = readJson<StoredKioskSession>(SESSION_KEY);
+  return session?.churchId === churchId ? session : null;
+}
+
+export function isKioskSessionExpired(session: StoredKioskSession, now = Date.now()): boolean {
+  return new Date(session.expiresAt).getTime() <= now;
+}
+
+export async function checkKioskPin(session: StoredKioskSession, pin: string): Promise<boolean> {
+  return (await hashPin(pin, session.pinSalt)) === session.pinHash;
+}
+
+export function clearKioskSession(): void {
+  window.localStorage.removeItem(SESSION_KEY);
+}
@@ -0,0 +1,33 @@
+import { KioskAttribution } from '@/types';
+
+/**
+ * Kiosk mode: one tablet at a staffed table, passed from participant to
+ * participant. A volunteer starts a kiosk session on the tablet with the
+ * location's PIN; every screening taken in it is attributed to that volunteer
+ * and device, the form is wiped after each participant, and the PIN unlocks
+ * the tablet for the next one.
+ */
+
+// One event day; after that a volunteer starts a new session with the PIN
+export const KIOSK_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Inactivity before the participant is asked whether they are still there,
+// and how long they then have before the form is wiped
+export const KIOSK_IDLE_WARNING_MS = 90 * 1000;
+export const KIOSK_IDLE_COUNTDOWN_MS = 30 * 1000;
+
+// Wrong PINs allowed on the hand-back screen before it locks for a while
+export const KIOSK_UNLOCK_ATTEMPTS = 5;
+export const KIOSK_UNLOCK_LOCKOUT_MS = 30 * 1000;
+
+/** Kiosk session handed to the tablet; `token` is sent with each screening */
+export interface KioskSessionGrant extends KioskAttribution {
+  churchId: string;
+  token: string;
+  expiresAt: string;
+}
+
+/** Link that opens a location's form in kiosk mode */
+export function kioskFormPath(churchId: string): string {
+  return `/form/${encodeURIComponent(churchId)}?kiosk=1`;
+}
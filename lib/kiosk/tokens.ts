@@ -0,0 +1,77 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getJwtSecret } from '@/lib/auth';
+import { KioskAttribution, OutreachLocation } from '@/types';
+import { KIOSK_SESSION_TTL_MS, KioskSessionGrant } from './index';
+
+interface KioskTokenPayload extends KioskAttribution {
+  churchId: string;
+}
+
+// Keyed apart from session tokens, which are signed with the same secret
+function sign(payload: string): string {
+  return createHmac('sha256', `kiosk-session:${getJwtSecret()}`).update(payload).digest('base64url');
+}
+
+/** Location as sent to browsers, without the PIN hash */
+export function withoutKioskPin(location: OutreachLocation): OutreachLocation {
+  const publicLocation = { ...location };
+  delete publicLocation.kioskPinHash;
+  return publicLocation;
+}
+
+export function isKioskAvailable(location: OutreachLocation | null): location is OutreachLocation {
+  return Boolean(location?.isActive && location.kioskEnabled && location.kioskPinHash);
+}
+
+export function createKioskSession(
+  churchId: string,
+  details: Pick<KioskAttribution, 'deviceId' | 'deviceLabel' | 'volunteerName'>
+): KioskSessionGrant {
+  const now = new Date();
+  const payload: KioskTokenPayload = {
+    churchId,
+    sessionId: uuidv4(),
+    deviceId: details.deviceId,
+    deviceLabel: details.deviceLabel,
+    volunteerName: details.volunteerName,
+    startedAt: now.toISOString(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+
+  return {
+    ...payload,
+    token: `${encoded}.${sign(encoded)}`,
+    expiresAt: new Date(now.getTime() + KIOSK_SESSION_TTL_MS).toISOString(),
+  };
+}
+
+/**
+ * Attribution for a screening sent with a kiosk token, or null when the token
+ * is malformed, not ours, or from another location. Expired sessions still
+ * attribute: screenings queued offline may arrive long after the event.
+ */
+export function verifyKioskToken(token: string, churchId: string): KioskAttribution | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as KioskTokenPayload;
+    if (payload.churchId !== churchId) return null;
+    return {
+      sessionId: payload.sessionId,
+      deviceId: payload.deviceId,
+      deviceLabel: payload.deviceLabel,
+      volunteerName: payload.volunteerName,
+      startedAt: payload.startedAt,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,31 @@
+import { getStorage } from '@/lib/storage';
+import { CustomField, OutreachLocation } from '@/types';
+
+export interface AnsweredForm {
+  fields: CustomField[];
+  /** Unset for locations whose questions were never published from the builder */
+  version?: number;
+}
+
+/**
+ * The questions a participant was shown. A form opened before a newer
+ * version was published is checked against the version it was rendered
+ * with; unknown versions fall back to the current questions.
+ */
+export async function loadAnsweredForm(
+  location: OutreachLocation | null,
+  requestedVersion?: number
+): Promise<AnsweredForm> {
+  if (!location) {
+    return { fields: [] };
+  }
+
+  if (requestedVersion && location.formVersion && requestedVersion !== location.formVersion) {
+    const snapshot = await getStorage().formVersions.get(location.id, requestedVersion);
+    if (snapshot) {
+      return { fields: snapshot.fields, version: snapshot.version };
+    }
+  }
+
+  return { fields: location.customFields || [], version: location.formVersion };
+}
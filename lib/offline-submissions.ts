@@ -0,0 +1,231 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Screening form submissions kept in the browser's IndexedDB while the device
+ * is offline, then sent to /api/submissions once it reconnects.
+ *
+ * Each submission carries the idempotency key it was first sent with, so a
+ * request that reached the server before the connection dropped is replayed
+ * rather than saved twice. The queue only drains while a form page is open.
+ */
+
+const DB_NAME = 'health-screening-offline';
+const DB_VERSION = 1;
+const STORE = 'submissions';
+
+// Photo uploads over a weak signal are slow; give up well before the browser would
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+export type QueuedSubmissionStatus = 'pending' | 'rejected';
+
+export interface QueuedSubmission {
+  id: string; // Idempotency key
+  churchId: string;
+  fields: Record<string, string>;
+  selfie: Blob;
+  selfieName: string;
+  status: QueuedSubmissionStatus;
+  attempts: number;
+  queuedAt: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export type SubmissionAttemptResult =
+  | { status: 'sent'; submissionId: string }
+  | { status: 'retry'; error: string; retryAfterMs?: number }
+  | { status: 'rejected'; error: string };
+
+export interface QueueSyncResult {
+  sent: number;
+  pending: number;
+  rejected: number;
+  retryAfterMs?: number;
+}
+
+// Statuses worth retrying: the server was busy, still working on the key, or failing
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+export function createIdempotencyKey(): string {
+  return uuidv4();
+}
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+export function buildSubmissionFormData(fields: Record<string, string>, selfie: Blob, selfieName: string): FormData {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+  formData.append('selfie', selfie, selfieName);
+  return formData;
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/** Send one submission; never throws */
+export async function postSubmission(idempotencyKey: string, formData: FormData): Promise<SubmissionAttemptResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch('/api/submissions', {
+      method: 'POST',
+      headers: {
+        'x-health-form': 'submission', // CSRF protection
+        'Idempotency-Key': idempotencyKey,
+      },
+      body: formData,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    return { status: 'retry', error: error instanceof Error ? error.message : 'Network error' };
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const result = await response.json().catch(() => null);
+  if (response.ok && result?.success && result.data?.submissionId) {
+    return { status: 'sent', submissionId: result.data.submissionId };
+  }
+
+  const error = result?.message || result?.error || `Request failed with status ${response.status}`;
+  if (RETRYABLE_STATUSES.has(response.status) || response.status >= 500) {
+    return { status: 'retry', error, retryAfterMs: retryAfterMs(response) };
+  }
+  return { status: 'rejected', error };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE, mode);
+  // Writes only count once the transaction commits
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await promisify(run(transaction.objectStore(STORE)));
+  await committed;
+  return result;
+}
+
+export async function queueSubmission(
+  submission: Omit<QueuedSubmission, 'status' | 'attempts' | 'queuedAt'>
+): Promise<void> {
+  const queued: QueuedSubmission = {
+    ...submission,
+    status: 'pending',
+    attempts: 0,
+    queuedAt: new Date().toISOString(),
+  };
+  await withStore('readwrite', (store) => store.put(queued));
+}
+
+/** Every queued submission on this device, oldest first */
+export async function listQueuedSubmissions(): Promise<QueuedSubmission[]> {
+  const items = await withStore<QueuedSubmission[]>('readonly', (store) => store.getAll());
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+async function saveQueuedSubmission(submission: QueuedSubmission): Promise<void> {
+  await withStore('readwrite', (store) => store.put(submission));
+}
+
+async function deleteQueuedSubmission(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/** Drop submissions the server refused; retrying them would only fail again */
+export async function discardRejectedSubmissions(): Promise<number> {
+  const rejected = (await listQueuedSubmissions()).filter((item) => item.status === 'rejected');
+  for (const item of rejected) {
+    await deleteQueuedSubmission(item.id);
+  }
+  return rejected.length;
+}
+
+async function drainQueue(): Promise<QueueSyncResult> {
+  const result: QueueSyncResult = { sent: 0, pending: 0, rejected: 0 };
+  const items = await listQueuedSubmissions();
+
+  for (const item of items) {
+    if (item.status === 'rejected') {
+      result.rejected++;
+      continue;
+    }
+    // Oldest first; once one has to wait, the rest wait too
+    if (result.retryAfterMs !== undefined || !navigator.onLine) {
+      result.pending++;
+      continue;
+    }
+
+    const attempt = await postSubmission(item.id, buildSubmissionFormData(item.fields, item.selfie, item.selfieName));
+    if (attempt.status === 'sent') {
+      await deleteQueuedSubmission(item.id);
+      result.sent++;
+      continue;
+    }
+
+    await saveQueuedSubmission({
+      ...item,
+      status: attempt.status === 'rejected' ? 'rejected' : 'pending',
+      attempts: item.attempts + 1,
+      lastAttemptAt: new Date().toISOString(),
+      lastError: attempt.error,
+    });
+    if (attempt.status === 'rejected') {
+      result.rejected++;
+    } else {
+      result.pending++;
+      result.retryAfterMs = attempt.retryAfterMs ?? 0;
+    }
+  }
+
+  return result;
+}
+
+let activeSync: Promise<QueueSyncResult> | null = null;
+
+/**
+ * Send pending submissions one at a time. Calls made while a sync is running
+ * share it, so no submission is sent twice at once from this tab.
+ */
+export function syncQueuedSubmissions(): Promise<QueueSyncResult> {
+  if (!activeSync) {
+    activeSync = drainQueue().finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
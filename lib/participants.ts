@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from '@/lib/storage';
+import { DuplicateMatch } from '@/lib/duplicates';
+import { HealthSubmission, Participant, ParticipantTimeline } from '@/types';
+
+/**
+ * Participants group one person's screenings across events. The identity key
+ * (normalized name and date of birth) links a new screening to an earlier
+ * participant; anything fuzzier goes through the duplicate review queue.
+ */
+
+// Longest chain of merged participants followed before giving up
+const MAX_MERGE_DEPTH = 5;
+
+/**
+ * Load a participant, following merges to the participant that absorbed it.
+ * Returns null when the participant does not exist.
+ */
+export async function resolveParticipant(id: string): Promise<Participant | null> {
+  const { participants } = getStorage();
+  let participant = await participants.get(id);
+
+  for (let depth = 0; participant?.mergedIntoId && depth < MAX_MERGE_DEPTH; depth++) {
+    participant = await participants.get(participant.mergedIntoId);
+  }
+
+  return participant;
+}
+
+/**
+ * Participant id of the newest earlier screening with the same name and date of birth
+ */
+export function findParticipantIdForIdentity(matches: DuplicateMatch[]): string | undefined {
+  return matches.find((match) => match.reasons.includes('name_dob') && match.submission.participantId)
+    ?.submission.participantId;
+}
+
+export async function createParticipant(submission: HealthSubmission, id: string = uuidv4()): Promise<Participant> {
+  const now = new Date().toISOString();
+  const participant: Participant = {
+    id,
+    identityKey: submission.identityKey,
+    firstName: submission.firstName,
+    lastName: submission.lastName,
+    dateOfBirth: submission.dateOfBirth,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getStorage().participants.create(participant);
+  return participant;
+}
+
+/**
+ * Fold every screening of the `absorbed` participants into `target`.
+ * The absorbed records are kept with mergedIntoId so old links still resolve.
+ * Returns the screenings that were moved.
+ */
+export async function absorbParticipants(
+  target: Participant,
+  absorbedIds: string[]
+): Promise<HealthSubmission[]> {
+  const { participants, submissions } = getStorage();
+  const now = new Date().toISOString();
+  const moved: HealthSubmission[] = [];
+
+  for (const absorbedId of absorbedIds) {
+    const linked = await submissions.listByParticipant(absorbedId);
+    const updated = await Promise.all(
+      linked.map((submission) =>
+        submissions.update(submission.id, { participantId: target.id, updatedAt: now })
+      )
+    );
+    moved.push(...updated.filter((submission): submission is HealthSubmission => !!submission));
+    await participants.update(absorbedId, { mergedIntoId: target.id, updatedAt: now });
+  }
+
+  return moved;
+}
+
+/**
+ * Participant with their screenings, oldest first. Coordinators only see
+ * screenings from their own location; returns null when nothing is visible.
+ */
+export async function getParticipantTimeline(
+  id: string,
+  churchId?: string
+): Promise<ParticipantTimeline | null> {
+  const participant = await resolveParticipant(id);
+  if (!participant) {
+    return null;
+  }
+
+  const screenings = (await getStorage().submissions.listByParticipant(participant.id))
+    .filter((submission) => !churchId || submission.churchId === churchId);
+
+  if (screenings.length === 0) {
+    return null;
+  }
+
+  return {
+    participant,
+    entries: screenings.map((submission) => ({
+      id: submission.id,
+      churchId: submission.churchId,
+      submissionDate: submission.submissionDate,
+      estimatedBMI: submission.estimatedBMI,
+      bmiCategory: submission.bmiCategory,
+      healthRiskScore: submission.healthRiskScore,
+      healthRiskLevel: submission.healthRiskLevel,
+      followUpStatus: submission.followUpStatus,
+      followUpDate: submission.followUpDate,
+      followUpNotes: submission.followUpNotes,
+    })),
+  };
+}
@@ -0,0 +1,81 @@
+import { AdminPermission, AdminPermissions, AdminRole, AuthTokenClaims } from '@/types';
+
+/**
+ * Role defaults and checks for the admin portal permission flags.
+ * Shared by API guards and admin pages, so it must stay free of server-only imports.
+ */
+
+export const ADMIN_ROLES: AdminRole[] = ['admin', 'coordinator', 'viewer'];
+
+export const ROLE_DEFAULT_PERMISSIONS: Record<AdminRole, AdminPermissions> = {
+  admin: {
+    canViewSubmissions: true,
+    canExportData: true,
+    canManageChurches: true,
+    canManageUsers: true,
+    canViewAnalytics: true,
+  },
+  coordinator: {
+    canViewSubmissions: true,
+    canExportData: true,
+    canManageChurches: false,
+    canManageUsers: false,
+    canViewAnalytics: true,
+  },
+  viewer: {
+    canViewSubmissions: true,
+    canExportData: false,
+    canManageChurches: false,
+    canManageUsers: false,
+    canViewAnalytics: true,
+  },
+};
+
+type PermissionSubject = Pick<AuthTokenClaims, 'role' | 'churchId' | 'permissions'>;
+
+export function isAdminRole(role: string): role is AdminRole {
+  return (ADMIN_ROLES as string[]).includes(role);
+}
+
+/**
+ * Effective permission flags. Admins always hold every flag; other roles use
+ * their stored flags, falling back to the role defaults for missing ones.
+ */
+export function resolvePermissions(subject: PermissionSubject): AdminPermissions {
+  if (!isAdminRole(subject.role)) {
+    return { ...ROLE_DEFAULT_PERMISSIONS.viewer, canViewSubmissions: false, canViewAnalytics: false };
+  }
+  if (subject.role === 'admin') {
+    return { ...ROLE_DEFAULT_PERMISSIONS.admin };
+  }
+  return { ...ROLE_DEFAULT_PERMISSIONS[subject.role], ...(subject.permissions || {}) };
+}
+
+export function hasPermission(subject: PermissionSubject, permission: AdminPermission): boolean {
+  return resolvePermissions(subject)[permission];
+}
+
+/**
+ * Outreach location the subject is limited to, or undefined for full access.
+ * Admins are never scoped; check hasValidScope before trusting an undefined
+ * scope for anyone else.
+ */
+export function getChurchScope(subject: PermissionSubject): string | undefined {
+  return subject.role === 'admin' ? undefined : subject.churchId || undefined;
+}
+
+/**
+ * Every role except admin must be assigned to a location; an unassigned
+ * account has no access
+ */
+export function hasValidScope(subject: PermissionSubject): boolean {
+  return subject.role === 'admin' || !!subject.churchId;
+}
+
+export function canAccessChurch(subject: PermissionSubject, churchId: string | undefined): boolean {
+  if (!hasValidScope(subject)) {
+    return false;
+  }
+  const scope = getChurchScope(subject);
+  return !scope || scope === churchId;
+}
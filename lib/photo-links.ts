@@ -0,0 +1,30 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getJwtSecret } from '@/lib/auth';
+
+/**
+ * Expiring links to photos in the local file store, the counterpart of S3
+ * presigned URLs. The link is only valid for the key and expiry it was made for.
+ */
+
+export const LOCAL_PHOTO_ROUTE = '/api/photos/view';
+
+// Keyed apart from session tokens, which are signed with the same secret
+function sign(key: string, expires: string): string {
+  return createHmac('sha256', `photo-link:${getJwtSecret()}`).update(`${key}\n${expires}`).digest('base64url');
+}
+
+export function createPhotoLink(key: string, expiresInSeconds: number): string {
+  const expires = String(Math.floor(Date.now() / 1000) + expiresInSeconds);
+  const query = new URLSearchParams({ key, expires, signature: sign(key, expires) });
+  return `${LOCAL_PHOTO_ROUTE}?${query.toString()}`;
+}
+
+/** Whether a link's signature matches and it has not expired */
+export function verifyPhotoLink(key: string, expires: string, signature: string): boolean {
+  const expected = Buffer.from(sign(key, expires));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return false;
+  }
+  return Number(expires) * 1000 > Date.now();
+}
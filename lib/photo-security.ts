@@ -1,5 +1,4 @@
-import { HeadObjectCommand } from '@aws-sdk/client-s3';
-import { s3Client } from './aws-config';
+import { getStorage } from '@/lib/storage';
 
 /**
  * Photo security configuration
@@ -61,8 +60,10 @@ export function validatePhotoUrl(url: string, submissionId?: string): {
     return { isValid: false, errors: ['Photo URL is required'] };
   }
 
-  // Parse the S3 URL
-  const parsedUrl = parseS3Url(url);
+  // Parse the S3 URL; the local photo store records bare keys, in the configured bucket's place
+  const parsedUrl = url.startsWith(PHOTO_SECURITY_CONFIG.keyPrefix)
+    ? { bucket: PHOTO_SECURITY_CONFIG.allowedBuckets[0], key: url }
+    : parseS3Url(url);
   if (!parsedUrl) {
     errors.push('Invalid S3 URL format');
     return { isValid: false, errors };
@@ -126,50 +127,44 @@ export async function verifyPhotoAccess(url: string): Promise<{
     };
   }
 
-  const { bucket, key } = validation.metadata!;
+  const { key } = validation.metadata!;
 
   try {
-    const command = new HeadObjectCommand({
-      Bucket: bucket,
-      Key: key,
-    });
-
-    const response = await s3Client.send(command);
+    const photo = await getStorage().photos.head(key);
+    if (!photo) {
+      return {
+        exists: false,
+        errors: ['Photo not found in photo storage']
+      };
+    }
 
     // Validate file size
-    if (response.ContentLength && response.ContentLength > PHOTO_SECURITY_CONFIG.maxFileSize) {
+    if (photo.size > PHOTO_SECURITY_CONFIG.maxFileSize) {
       return {
         exists: false,
-        errors: [`Photo file too large: ${response.ContentLength} bytes (max: ${PHOTO_SECURITY_CONFIG.maxFileSize})`]
+        errors: [`Photo file too large: ${photo.size} bytes (max: ${PHOTO_SECURITY_CONFIG.maxFileSize})`]
       };
     }
 
     // Validate content type
-    if (response.ContentType && !PHOTO_SECURITY_CONFIG.allowedMimeTypes.includes(response.ContentType as any)) {
+    if (photo.contentType && !PHOTO_SECURITY_CONFIG.allowedMimeTypes.includes(photo.contentType as any)) {
       return {
         exists: false,
-        errors: [`Invalid photo content type: ${response.ContentType}`]
+        errors: [`Invalid photo content type: ${photo.contentType}`]
       };
     }
 
     return {
       exists: true,
       metadata: {
-        size: response.ContentLength || 0,
-        contentType: response.ContentType || 'unknown',
-        lastModified: response.LastModified || new Date(),
+        size: photo.size,
+        contentType: photo.contentType || 'unknown',
+        lastModified: photo.lastModified ? new Date(photo.lastModified) : new Date(),
       },
       errors: []
     };
 
   } catch (error: any) {
-    if (error.name === 'NotFound' || error.name === 'NoSuchKey') {
-      return {
-        exists: false,
-        errors: ['Photo not found in S3 bucket']
-      };
-    }
-
     if (error.name === 'AccessDenied') {
       return {
         exists: false,
@@ -0,0 +1,61 @@
+import { OutreachLocation } from '@/types';
+
+/**
+ * The screening form as an installable, offline-capable web app. The service
+ * worker only controls /form/ pages; admin pages always need the network.
+ */
+
+export const FORM_SCOPE = '/form/';
+
+export const SERVICE_WORKER_URL = '/api/pwa/service-worker';
+
+export const THEME_COLOR = '#0ea5e9';
+
+export function formManifestUrl(churchId: string): string {
+  return `/api/pwa/manifest/${encodeURIComponent(churchId)}`;
+}
+
+/** Web app manifest that opens straight into one location's form */
+export function buildFormManifest(location: Pick<OutreachLocation, 'id' | 'name'>) {
+  return {
+    id: `${FORM_SCOPE}${encodeURIComponent(location.id)}`,
+    name: `Health Screening | ${location.name}`,
+    short_name: 'Health Screening',
+    start_url: `${FORM_SCOPE}${encodeURIComponent(location.id)}`,
+    scope: FORM_SCOPE,
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#ffffff',
+    theme_color: THEME_COLOR,
+    icons: [
+      { src: '/api/pwa/icon', sizes: 'any', type: 'image/svg+xml', purpose: 'any maskable' },
+    ],
+  };
+}
+
+/**
+ * Register the form's service worker. Production only: in development every
+ * rebuild changes the assets the worker would otherwise keep serving.
+ */
+export async function registerFormServiceWorker(): Promise<void> {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: FORM_SCOPE });
+    if (navigator.serviceWorker.controller) {
+      return;
+    }
+
+    // First visit: this page and its scripts loaded before the worker existed
+    const worker = registration.active || (await navigator.serviceWorker.ready).active;
+    const scripts = performance
+      .getEntriesByType('resource')
+      .map((entry) => entry.name)
+      .filter((name) => new URL(name).pathname.startsWith('/_next/static/'));
+    worker?.postMessage({ type: 'CACHE_URLS', urls: [window.location.href, ...scripts] });
+  } catch (error) {
+    console.warn('Service worker registration failed:', error);
+  }
+}
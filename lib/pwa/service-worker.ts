@@ -0,0 +1,117 @@
+/**
+ * Service worker for the screening form, served by /api/pwa/service-worker
+ * and registered with the /form/ scope.
+ *
+ * Form pages are network-first, falling back to the last copy when the
+ * network is down or slow, so a form opened once with signal keeps loading in
+ * a basement without it. Build assets are content-hashed and cache-first.
+ * Submissions are never cached here; the page queues them in IndexedDB.
+ *
+ * Bump the cache versions when the caching rules change; activation deletes
+ * caches from older versions.
+ */
+export const SERVICE_WORKER_SOURCE = `
+const PAGE_CACHE = 'health-screening-pages-v1';
+const ASSET_CACHE = 'health-screening-assets-v1';
+const CACHE_PREFIX = 'health-screening-';
+const NETWORK_TIMEOUT_MS = 4000;
+
+function isFormPage(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith('/form/');
+}
+
+function isStaticAsset(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith('/_next/static/');
+}
+
+// One copy per location; the language and other query options are applied by the page
+function pageCacheKey(url) {
+  return url.origin + url.pathname;
+}
+
+async function cachePage(url, response) {
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(PAGE_CACHE);
+    await cache.put(pageCacheKey(url), response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  const url = new URL(request.url);
+  const network = fetch(request).then((response) => cachePage(url, response));
+  const cached = await caches.match(pageCacheKey(url), { cacheName: PAGE_CACHE });
+  if (!cached) {
+    return network;
+  }
+
+  const timeout = new Promise((resolve) => setTimeout(() => resolve(null), NETWORK_TIMEOUT_MS));
+  const response = await Promise.race([network.catch(() => null), timeout]);
+  return response || cached;
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// The page that registered the worker loaded before it was active, so it sends
+// its own URL and scripts to be cached
+async function cacheUrls(urls) {
+  await Promise.all(urls.map(async (href) => {
+    try {
+      const url = new URL(href, self.location.origin);
+      if (isFormPage(url)) {
+        await cachePage(url, await fetch(url.href, { credentials: 'same-origin' }));
+      } else if (isStaticAsset(url)) {
+        await cacheFirst(new Request(url.href));
+      }
+    } catch (error) {
+      // Whatever could not be fetched is cached on the next visit
+    }
+  }));
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const current = [PAGE_CACHE, ASSET_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith(CACHE_PREFIX) && !current.includes(name))
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate' && isFormPage(url)) {
+    event.respondWith(networkFirst(request));
+  } else if (isStaticAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'CACHE_URLS' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheUrls(event.data.urls));
+  }
+});
+`;
@@ -0,0 +1,129 @@
+import { IncomingMessage } from 'http';
+import { describe, expect, it } from 'vitest';
+import { slidingWindow, tokenBucket } from '@/lib/rate-limiter/algorithms';
+import { createMemoryStore } from '@/lib/rate-limiter/memory';
+import { createRateLimitHeaders, getClientIP, RateLimitPolicy, RateLimitStore } from '@/lib/rate-limiter';
+
+const MINUTE = 60 * 1000;
+// Start of the current minute, so the memory store's real-clock expiry keeps every window alive
+const windowStart = Math.floor(Date.now() / MINUTE) * MINUTE;
+
+const slidingPolicy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 4, windowMs: MINUTE };
+const bucketPolicy: RateLimitPolicy = { algorithm: 'token-bucket', limit: 4, windowMs: MINUTE };
+
+describe('slidingWindow', () => {
+  it('allows the limit within a window and then blocks until it ends', async () => {
+    const store = createMemoryStore();
+
+    const results = [];
+    for (let i = 0; i < 5; i++) {
+      results.push(await slidingWindow(store, 'ip', slidingPolicy, windowStart + 1000));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([3, 2, 1, 0, 0]);
+    expect(results[4].resetTime).toBe(windowStart + MINUTE);
+  });
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < 4; i++) {
+      await slidingWindow(store, 'ip', slidingPolicy, windowStart + 1000);
+    }
+
+    // A quarter into the next window, 3 of the previous 4 requests still count
+    const quarterIn = windowStart + MINUTE + MINUTE / 4;
+    expect((await slidingWindow(store, 'ip', slidingPolicy, quarterIn)).allowed).toBe(true);
+    expect((await slidingWindow(store, 'ip', slidingPolicy, quarterIn)).allowed).toBe(false);
+
+    // By the end of the window the previous one no longer counts
+    const lastMoment = windowStart + 2 * MINUTE - 1;
+    expect((await slidingWindow(store, 'ip', slidingPolicy, lastMoment)).remaining).toBe(2);
+  });
+
+  it('keeps separate counts per key', async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < 4; i++) {
+      await slidingWindow(store, 'a', slidingPolicy, windowStart);
+    }
+
+    expect((await slidingWindow(store, 'a', slidingPolicy, windowStart)).allowed).toBe(false);
+    expect((await slidingWindow(store, 'b', slidingPolicy, windowStart)).allowed).toBe(true);
+  });
+});
+
+describe('tokenBucket', () => {
+  it('allows a burst up to capacity and reports when the next token arrives', async () => {
+    const store = createMemoryStore();
+
+    const results = [];
+    for (let i = 0; i < 5; i++) {
+      results.push(await tokenBucket(store, 'ip', bucketPolicy, windowStart));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, true, false]);
+    expect(results[3].remaining).toBe(0);
+    // One token refills every 15 seconds
+    expect(results[4].resetTime).toBe(windowStart + 15 * 1000);
+  });
+
+  it('refills continuously at the sustained rate', async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < 4; i++) {
+      await tokenBucket(store, 'ip', bucketPolicy, windowStart);
+    }
+
+    expect((await tokenBucket(store, 'ip', bucketPolicy, windowStart + 14 * 1000)).allowed).toBe(false);
+    expect((await tokenBucket(store, 'ip', bucketPolicy, windowStart + 15 * 1000)).allowed).toBe(true);
+    expect((await tokenBucket(store, 'ip', bucketPolicy, windowStart + 15 * 1000)).allowed).toBe(false);
+  });
+
+  it('never holds more than its capacity after idling', async () => {
+    const store = createMemoryStore();
+    await tokenBucket(store, 'ip', bucketPolicy, windowStart);
+
+    const result = await tokenBucket(store, 'ip', bucketPolicy, windowStart + 10 * MINUTE);
+
+    expect(result.remaining).toBe(3);
+  });
+
+  it('refuses the request when concurrent writers keep winning', async () => {
+    const store: RateLimitStore = {
+      ...createMemoryStore(),
+      compareAndSet: async () => false,
+    };
+
+    const result = await tokenBucket(store, 'ip', bucketPolicy, windowStart);
+
+    expect(result.allowed).toBe(false);
+  });
+});
+
+describe('createRateLimitHeaders', () => {
+  it('sends Retry-After only when blocked', () => {
+    const resetTime = Date.now() + 30 * 1000;
+    const allowed = createRateLimitHeaders({ allowed: true, limit: 5, remaining: 2, resetTime, windowMs: MINUTE });
+    const blocked = createRateLimitHeaders({ allowed: false, limit: 5, remaining: 0, resetTime, windowMs: MINUTE });
+
+    expect(allowed).toEqual({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '30',
+      'RateLimit-Policy': '5;w=60',
+    });
+    expect(blocked['Retry-After']).toBe('30');
+  });
+});
+
+describe('getClientIP', () => {
+  function request(headers: Record<string, string | string[]>, remoteAddress?: string): IncomingMessage {
+    return { headers, socket: { remoteAddress } } as unknown as IncomingMessage;
+  }
+
+  it('prefers the first forwarded address, then the proxy headers, then the socket', () => {
+    expect(getClientIP(request({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'x-real-ip': '10.0.0.2' }))).toBe('203.0.113.7');
+    expect(getClientIP(request({ 'x-real-ip': '198.51.100.4' }, '10.0.0.3'))).toBe('198.51.100.4');
+    expect(getClientIP(request({}, '10.0.0.3'))).toBe('10.0.0.3');
+    expect(getClientIP(request({}))).toBe('unknown');
+  });
+});
@@ -0,0 +1,82 @@
+import { RateLimitPolicy, RateLimitResult, RateLimitStore, TokenBucketState } from './types';
+
+// Concurrent token bucket writers retry a few times before the request is refused
+const MAX_BUCKET_RETRIES = 3;
+
+/**
+ * Sliding window approximated from two fixed windows: the previous window's
+ * count is weighted by how much of it still overlaps the sliding window.
+ * Counters are keyed by window index, so expiry is only housekeeping.
+ */
+export async function slidingWindow(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = policy;
+  const windowIndex = Math.floor(now / windowMs);
+  const windowEnd = (windowIndex + 1) * windowMs;
+  const elapsed = (now - windowIndex * windowMs) / windowMs;
+
+  const previousCount = await store.getCount(`${key}:${windowIndex - 1}`);
+  const weightedPrevious = Math.floor(previousCount * (1 - elapsed));
+  const allowedInWindow = limit - weightedPrevious;
+
+  const count = allowedInWindow > 0
+    ? await store.incrementIfBelow(`${key}:${windowIndex}`, allowedInWindow, windowMs * 2)
+    : null;
+
+  return {
+    allowed: count !== null,
+    limit,
+    remaining: count === null ? 0 : Math.max(0, allowedInWindow - count),
+    resetTime: windowEnd,
+    windowMs,
+  };
+}
+
+/**
+ * Token bucket holding up to `limit` tokens, refilled continuously at
+ * `limit` per window. Allows short bursts while capping the sustained rate.
+ */
+export async function tokenBucket(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = policy;
+  const refillPerMs = limit / windowMs;
+
+  for (let attempt = 0; attempt < MAX_BUCKET_RETRIES; attempt++) {
+    const current = await store.getState<TokenBucketState>(key);
+    const tokens = current
+      ? Math.min(limit, current.value.tokens + Math.max(0, now - current.value.refilledAt) * refillPerMs)
+      : limit;
+
+    if (tokens < 1) {
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetTime: now + Math.ceil((1 - tokens) / refillPerMs),
+        windowMs,
+      };
+    }
+
+    const next: TokenBucketState = { tokens: tokens - 1, refilledAt: now };
+    // An idle bucket is full again after one window, so state can expire then
+    if (await store.compareAndSet(key, next, current?.version ?? null, windowMs)) {
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.floor(next.tokens),
+        resetTime: now + Math.ceil((limit - next.tokens) / refillPerMs),
+        windowMs,
+      };
+    }
+  }
+
+  return { allowed: false, limit, remaining: 0, resetTime: now + 1000, windowMs };
+}
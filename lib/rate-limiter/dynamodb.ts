@@ -0,0 +1,81 @@
+import { GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '@/lib/aws-config';
+import { isConditionalCheckFailure } from '@/lib/storage/dynamodb';
+import { RateLimitStore, VersionedState } from './types';
+
+interface RateLimitItem {
+  id: string;
+  count?: number;
+  state?: unknown;
+  version?: number;
+  ttl?: number;
+}
+
+// DynamoDB TTL is in epoch seconds
+function expiresAt(ttlMs: number): number {
+  return Math.ceil((Date.now() + ttlMs) / 1000);
+}
+
+/**
+ * Shared store backed by conditional writes on the rate-limits table
+ * (partition key `id`, TTL attribute `ttl`). Counts are enforced by the
+ * condition expression, so concurrent Lambda instances can't overshoot a limit.
+ */
+export const dynamoRateLimitStore: RateLimitStore = {
+  async incrementIfBelow(key, max, ttlMs) {
+    if (max < 1) return null;
+
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: TABLES.RATE_LIMITS,
+        Key: { id: key },
+        UpdateExpression: 'SET #count = if_not_exists(#count, :zero) + :one, #ttl = if_not_exists(#ttl, :ttl)',
+        ConditionExpression: 'attribute_not_exists(#count) OR #count < :max',
+        ExpressionAttributeNames: { '#count': 'count', '#ttl': 'ttl' },
+        ExpressionAttributeValues: { ':zero': 0, ':one': 1, ':max': max, ':ttl': expiresAt(ttlMs) },
+        ReturnValues: 'UPDATED_NEW',
+      }));
+      return (result.Attributes?.count as number | undefined) ?? 1;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) return null;
+      throw error;
+    }
+  },
+
+  async getCount(key) {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLES.RATE_LIMITS,
+      Key: { id: key },
+      ConsistentRead: true,
+    }));
+    return (result.Item as RateLimitItem | undefined)?.count ?? 0;
+  },
+
+  async getState<T>(key: string): Promise<VersionedState<T> | null> {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLES.RATE_LIMITS,
+      Key: { id: key },
+      ConsistentRead: true,
+    }));
+    const item = result.Item as RateLimitItem | undefined;
+    return item?.state !== undefined && item.version !== undefined
+      ? { value: item.state as T, version: item.version }
+      : null;
+  },
+
+  async compareAndSet(key, value, expectedVersion, ttlMs) {
+    try {
+      await docClient.send(new PutCommand({
+        TableName: TABLES.RATE_LIMITS,
+        Item: { id: key, state: value, version: (expectedVersion ?? 0) + 1, ttl: expiresAt(ttlMs) },
+        ConditionExpression: expectedVersion === null ? 'attribute_not_exists(id)' : '#version = :expected',
+        ExpressionAttributeNames: expectedVersion === null ? undefined : { '#version': 'version' },
+        ExpressionAttributeValues: expectedVersion === null ? undefined : { ':expected': expectedVersion },
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) return false;
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,164 @@
+import { IncomingMessage } from 'http';
+import { slidingWindow, tokenBucket } from './algorithms';
+import { dynamoRateLimitStore } from './dynamodb';
+import { createMemoryStore } from './memory';
+import { createRedisStore } from './redis';
+import { RateLimitPolicy, RateLimitResult, RateLimitStore, RateLimitStoreName } from './types';
+
+export * from './types';
+
+/**
+ * Per-route rate limit policies.
+ * Credential endpoints use a sliding window so a burst can't be replayed at each
+ * window boundary; general API and public form traffic use token buckets.
+ */
+export const RATE_LIMIT_POLICIES = {
+  LOGIN: {
+    algorithm: 'sliding-window',
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    limit: 5, // 5 attempts per window
+  },
+  API: {
+    algorithm: 'token-bucket',
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    limit: 100, // 100 requests per window
+  },
+  REFRESH: {
+    algorithm: 'sliding-window',
+    windowMs: 60 * 1000, // 1 minute
+    limit: 10, // 10 refresh attempts per minute
+  },
+  TWO_FACTOR: {
+    algorithm: 'sliding-window',
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    limit: 5, // 5 code attempts per window
+  },
+  SUBMISSION: {
+    algorithm: 'token-bucket',
+    windowMs: 60 * 1000, // 1 minute
+    limit: 5, // 5 screening submissions per minute
+  },
+  KIOSK_PIN: {
+    algorithm: 'sliding-window',
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    limit: 10, // 10 kiosk sessions per location per window; event tablets often share one IP
+  },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitType = keyof typeof RATE_LIMIT_POLICIES;
+
+let store: RateLimitStore | null = null;
+let fallbackStore: RateLimitStore | null = null;
+
+function getFallbackStore(): RateLimitStore {
+  if (!fallbackStore) {
+    fallbackStore = createMemoryStore();
+  }
+  return fallbackStore;
+}
+
+/**
+ * Resolve the configured store (APP_RATE_LIMIT_STORE=memory|dynamodb|redis).
+ * Defaults to DynamoDB alongside the DynamoDB storage backend and to memory for local storage.
+ */
+function getStore(): RateLimitStore {
+  if (store) {
+    return store;
+  }
+
+  const defaultStore = process.env.APP_STORAGE_BACKEND === 'local' ? 'memory' : 'dynamodb';
+  const name = (process.env.APP_RATE_LIMIT_STORE || defaultStore) as RateLimitStoreName;
+
+  switch (name) {
+    case 'memory':
+      store = getFallbackStore();
+      break;
+    case 'dynamodb':
+      store = dynamoRateLimitStore;
+      break;
+    case 'redis': {
+      const redisUrl = process.env.APP_REDIS_URL;
+      if (!redisUrl) {
+        throw new Error('APP_REDIS_URL is required when APP_RATE_LIMIT_STORE=redis');
+      }
+      store = createRedisStore(redisUrl);
+      break;
+    }
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+
+  return store;
+}
+
+function runPolicy(target: RateLimitStore, key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+  return policy.algorithm === 'token-bucket'
+    ? tokenBucket(target, key, policy)
+    : slidingWindow(target, key, policy);
+}
+
+/**
+ * Count a request against the policy for `type` and report whether it is allowed.
+ * If the shared store is unreachable the check falls back to the in-process
+ * store, so an outage weakens limits to per-instance instead of removing them.
+ */
+export async function checkRateLimit(
+  identifier: string,
+  type: RateLimitType = 'API'
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[type];
+  const key = `${type}:${identifier}`;
+
+  try {
+    return await runPolicy(getStore(), key, policy);
+  } catch (error) {
+    console.error(`Rate limit store error for ${type}, using in-memory limits:`, error);
+    return runPolicy(getFallbackStore(), key, policy);
+  }
+}
+
+/**
+ * Get client IP address for rate limiting
+ */
+export function getClientIP(req: IncomingMessage): string {
+  // Check common headers for IP
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const realIP = req.headers['x-real-ip'];
+  const clientIP = req.headers['x-client-ip'];
+
+  if (forwardedFor) {
+    return Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor.split(',')[0];
+  }
+
+  if (realIP) {
+    return Array.isArray(realIP) ? realIP[0] : realIP;
+  }
+
+  if (clientIP) {
+    return Array.isArray(clientIP) ? clientIP[0] : clientIP;
+  }
+
+  // Fallback to connection remote address
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Standard RateLimit-* response headers (IETF httpapi-ratelimit-headers draft).
+ * RateLimit-Reset is in seconds from now; Retry-After is only sent when blocked.
+ */
+export function createRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000));
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': Math.max(0, result.remaining).toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = Math.max(1, resetSeconds).toString();
+  }
+
+  return headers;
+}
@@ -0,0 +1,73 @@
+import { RateLimitStore, VersionedState } from './types';
+
+interface MemoryEntry {
+  count: number;
+  state?: unknown;
+  version: number;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Per-process store. Only enforces limits within one server instance, so it
+ * suits local development and single-instance hosting.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  const getLive = (key: string): MemoryEntry | undefined => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Drop expired entries so idle keys don't accumulate; unref so the timer never keeps the process alive
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries.entries()) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }, SWEEP_INTERVAL_MS).unref?.();
+
+  return {
+    async incrementIfBelow(key, max, ttlMs) {
+      const entry = getLive(key);
+      if (!entry) {
+        if (max < 1) return null;
+        entries.set(key, { count: 1, version: 0, expiresAt: Date.now() + ttlMs });
+        return 1;
+      }
+      if (entry.count >= max) return null;
+      entry.count++;
+      return entry.count;
+    },
+
+    async getCount(key) {
+      return getLive(key)?.count ?? 0;
+    },
+
+    async getState<T>(key: string): Promise<VersionedState<T> | null> {
+      const entry = getLive(key);
+      return entry && entry.state !== undefined ? { value: entry.state as T, version: entry.version } : null;
+    },
+
+    async compareAndSet(key, value, expectedVersion, ttlMs) {
+      const entry = getLive(key);
+      const storedVersion = entry && entry.state !== undefined ? entry.version : null;
+      if (storedVersion !== expectedVersion) return false;
+      entries.set(key, {
+        count: 0,
+        state: value,
+        version: (expectedVersion ?? 0) + 1,
+        expiresAt: Date.now() + ttlMs,
+      });
+      return true;
+    },
+  };
+}
@@ -0,0 +1,215 @@
+import net from 'net';
+import tls from 'tls';
+import { RateLimitStore, VersionedState } from './types';
+
+type RedisReply = string | number | null | RedisReply[];
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const COMMAND_TIMEOUT_MS = 2000;
+const KEY_PREFIX = 'ratelimit:';
+
+// Atomic "increment unless at max"; returns -1 when the counter is full
+const INCREMENT_IF_BELOW_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count >= tonumber(ARGV[1]) then return -1 end
+count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[2]) end
+return count`;
+
+// Write the state hash only if its version matches ARGV[1] ('' means absent)
+const COMPARE_AND_SET_SCRIPT = `
+local version = redis.call('HGET', KEYS[1], 'version')
+if ARGV[1] == '' then
+  if version then return 0 end
+elseif version ~= ARGV[1] then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'version', ARGV[2], 'state', ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return 1`;
+
+function encodeCommand(args: (string | number)[]): string {
+  return args.reduce<string>((out, arg) => {
+    const value = String(arg);
+    return `${out}$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }, `*${args.length}\r\n`);
+}
+
+/**
+ * Parse one RESP reply from the buffer. Returns null when the reply is incomplete.
+ */
+function parseReply(buffer: Buffer, offset: number): { reply: RedisReply | Error; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next };
+    case '-':
+      return { reply: new Error(line), offset: next };
+    case ':':
+      return { reply: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { reply: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { reply: null, offset: next };
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        if (item.reply instanceof Error) return item;
+        items.push(item.reply);
+        position = item.offset;
+      }
+      return { reply: items, offset: position };
+    }
+    default:
+      return { reply: new Error(`Unexpected Redis reply type: ${type}`), offset: buffer.length };
+  }
+}
+
+/**
+ * Minimal pipelined RESP client, enough for the few commands the limiter needs.
+ * Any error or timeout drops the connection; the next command reconnects.
+ */
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  send(args: (string | number)[]): Promise<RedisReply> {
+    const socket = this.socket ?? this.connect();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.reset(new Error(`Redis command timed out after ${COMMAND_TIMEOUT_MS}ms`));
+      }, COMMAND_TIMEOUT_MS);
+
+      this.pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): net.Socket {
+    const port = Number(this.url.port) || 6379;
+    const host = this.url.hostname;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    socket.setNoDelay(true);
+    socket.unref();
+    // Events from a socket that has already been replaced are ignored
+    socket.on('data', (chunk) => this.socket === socket && this.onData(chunk));
+    socket.on('error', (error) => this.socket === socket && this.reset(error));
+    socket.on('close', () => this.socket === socket && this.reset(new Error('Redis connection closed')));
+    this.socket = socket;
+
+    // Writes are buffered until the socket connects, so setup commands go out first
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      const authArgs = username ? ['AUTH', username, password] : ['AUTH', password];
+      this.send(authArgs).catch(() => undefined);
+    }
+    const database = this.url.pathname.replace('/', '');
+    if (database) {
+      this.send(['SELECT', database]).catch(() => undefined);
+    }
+
+    return socket;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed = parseReply(this.buffer, 0);
+    while (parsed) {
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const command = this.pending.shift();
+      if (parsed.reply instanceof Error) {
+        command?.reject(parsed.reply);
+      } else {
+        command?.resolve(parsed.reply);
+      }
+      parsed = this.buffer.length > 0 ? parseReply(this.buffer, 0) : null;
+    }
+  }
+
+  private reset(error: Error): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    socket?.destroy();
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((command) => command.reject(error));
+  }
+}
+
+/**
+ * Shared store for Redis or any RESP-compatible server (Valkey, ElastiCache,
+ * Upstash). Each operation runs as a Lua script so it is atomic on the server.
+ */
+export function createRedisStore(redisUrl: string): RateLimitStore {
+  const connection = new RedisConnection(new URL(redisUrl));
+  const prefixed = (key: string) => `${KEY_PREFIX}${key}`;
+
+  return {
+    async incrementIfBelow(key, max, ttlMs) {
+      const reply = await connection.send(['EVAL', INCREMENT_IF_BELOW_SCRIPT, 1, prefixed(key), max, ttlMs]);
+      return typeof reply === 'number' && reply > 0 ? reply : null;
+    },
+
+    async getCount(key) {
+      const reply = await connection.send(['GET', prefixed(key)]);
+      return reply === null ? 0 : Number(reply);
+    },
+
+    async getState<T>(key: string): Promise<VersionedState<T> | null> {
+      const reply = await connection.send(['HMGET', prefixed(key), 'version', 'state']);
+      if (!Array.isArray(reply) || reply[0] === null || reply[1] === null) return null;
+      return { version: Number(reply[0]), value: JSON.parse(String(reply[1])) as T };
+    },
+
+    async compareAndSet(key, value, expectedVersion, ttlMs) {
+      const reply = await connection.send([
+        'EVAL',
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        prefixed(key),
+        expectedVersion === null ? '' : expectedVersion,
+        (expectedVersion ?? 0) + 1,
+        JSON.stringify(value),
+        ttlMs,
+      ]);
+      return reply === 1;
+    },
+  };
+}
@@ -0,0 +1,51 @@
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  /** Requests per window, or the bucket capacity for token buckets */
+  limit: number;
+  /** Window length; a token bucket refills `limit` tokens over this period */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the limit resets (sliding window) or a token is next available while blocked */
+  resetTime: number;
+  windowMs: number;
+}
+
+/** Token bucket state kept by the store between requests */
+export interface TokenBucketState {
+  tokens: number;
+  refilledAt: number;
+}
+
+export interface VersionedState<T> {
+  value: T;
+  version: number;
+}
+
+/**
+ * Counter and state primitives the algorithms are built on. Every method must be
+ * atomic across processes for the limits to hold on multi-instance deployments.
+ */
+export interface RateLimitStore {
+  /**
+   * Add 1 to the counter unless it has already reached `max`.
+   * Returns the new count, or null when the counter is at `max`.
+   * A new counter expires `ttlMs` after it is created.
+   */
+  incrementIfBelow(key: string, max: number, ttlMs: number): Promise<number | null>;
+  getCount(key: string): Promise<number>;
+  getState<T>(key: string): Promise<VersionedState<T> | null>;
+  /**
+   * Write `value` only if the stored version still equals `expectedVersion`
+   * (null: only if nothing is stored). Returns false when another request won.
+   */
+  compareAndSet<T>(key: string, value: T, expectedVersion: number | null, ttlMs: number): Promise<boolean>;
+}
+
+export type RateLimitStoreName = 'memory' | 'dynamodb' | 'redis';
@@ -0,0 +1,41 @@
+import { contactChannels } from '@/lib/contact-preference';
+import { emailService } from '@/lib/email';
+import { getStorage } from '@/lib/storage';
+import { HealthSubmission } from '@/types';
+
+/**
+ * Email a scored screening's results to a participant who asked for email,
+ * once per submission. Never throws; returns whether the email went out.
+ */
+export async function sendResultsEmail(submission: HealthSubmission): Promise<boolean> {
+  if (submission.resultsEmailSentAt || !submission.email || !contactChannels(submission).includes('email')) {
+    return false;
+  }
+
+  try {
+    if (!emailService.isEnabled()) {
+      return false;
+    }
+
+    const result = await emailService.sendTemplateEmail(submission.email, 'results', {
+      churchId: submission.churchId,
+      submissionId: submission.id,
+      locale: submission.locale,
+      firstName: submission.firstName,
+      riskLevel: submission.healthRiskLevel,
+      riskScore: submission.healthRiskScore,
+      bmiCategory: submission.bmiCategory,
+      recommendations: submission.recommendations,
+    });
+    if (!result.success) {
+      console.warn(`Failed to email results for submission ${submission.id}:`, result.error);
+      return false;
+    }
+
+    await getStorage().submissions.update(submission.id, { resultsEmailSentAt: new Date().toISOString() });
+    return true;
+  } catch (error) {
+    console.error(`Results email for submission ${submission.id} errored:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessRisk,
+  CURRENT_RISK_RULE_VERSION,
+  getMaxRiskScore,
+  getRiskRuleSet,
+  getSubmissionRuleSet,
+  RISK_RULE_SETS,
+  RiskInputs,
+  RiskInputSource,
+  RiskRuleSet,
+  toRiskInputs,
+} from '@/lib/risk-engine';
+
+const noAnswers: RiskInputs = {
+  familyHistoryDiabetes: false,
+  familyHistoryHighBP: false,
+  familyHistoryDementia: false,
+  nerveSymptoms: false,
+  eczemaHistory: false,
+  familyHistoryAsthma: false,
+  cardiovascularHistory: false,
+  chronicKidneyDisease: false,
+  diabetes: false,
+};
+
+const v1 = getRiskRuleSet('v1')!;
+
+describe('rule sets', () => {
+  it('scores new submissions with the latest rule set', () => {
+    expect(CURRENT_RISK_RULE_VERSION).toBe(RISK_RULE_SETS[RISK_RULE_SETS.length - 1].version);
+    expect(getRiskRuleSet()?.version).toBe(CURRENT_RISK_RULE_VERSION);
+    expect(getRiskRuleSet('v0')).toBeNull();
+  });
+
+  it('uses v1 for submissions scored before versions were recorded', () => {
+    expect(getSubmissionRuleSet({}).version).toBe('v1');
+    expect(getSubmissionRuleSet({ riskRuleVersion: 'v1' }).version).toBe('v1');
+  });
+
+  it('falls back to the current rule set for an unknown version', () => {
+    expect(getSubmissionRuleSet({ riskRuleVersion: 'retired' }).version).toBe(CURRENT_RISK_RULE_VERSION);
+  });
+
+  it('gives every published version a unique name', () => {
+    const versions = RISK_RULE_SETS.map((ruleSet) => ruleSet.version);
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+});
+
+describe('toRiskInputs', () => {
+  it('reads the BMI estimate and the screening answers', () => {
+    expect(toRiskInputs({ ...noAnswers, estimatedBMI: 27.4, familyHistoryDiabetes: true })).toEqual({
+      ...noAnswers,
+      bmi: 27.4,
+      familyHistoryDiabetes: true,
+    });
+  });
+
+  it('treats answers missing from older submissions as no', () => {
+    expect(toRiskInputs({ nerveSymptoms: true } as RiskInputSource)).toEqual({ ...noAnswers, nerveSymptoms: true });
+  });
+
+  it('leaves the BMI out when there is no usable estimate', () => {
+    expect(toRiskInputs(noAnswers).bmi).toBeUndefined();
+    expect(toRiskInputs({ ...noAnswers, estimatedBMI: Number.NaN }).bmi).toBeUndefined();
+  });
+});
+
+describe('assessRisk under v1', () => {
+  it('scores no risk factors as low', () => {
+    const assessment = assessRisk(noAnswers, v1);
+
+    expect(assessment).toMatchObject({ ruleVersion: 'v1', riskScore: 0, maxScore: 10, riskLevel: 'Low', factors: [] });
+    expect(assessment.recommendations).toEqual([
+      'Maintain regular physical activity',
+      'Follow a balanced, nutritious diet',
+      'Schedule regular healthcare checkups',
+    ]);
+    expect(assessment.referrals).toEqual([]);
+  });
+
+  it('counts only the highest BMI band', () => {
+    expect(assessRisk({ ...noAnswers, bmi: 24.9 }, v1).riskScore).toBe(0);
+    expect(assessRisk({ ...noAnswers, bmi: 25 }, v1).factors).toEqual(['bmi-overweight']);
+    expect(assessRisk({ ...noAnswers, bmi: 31 }, v1)).toMatchObject({ riskScore: 3, factors: ['bmi-obese'] });
+  });
+
+  it('moves through the levels as factors add up', () => {
+    expect(assessRisk({ ...noAnswers, familyHistoryDementia: true }, v1).riskLevel).toBe('Low');
+    expect(assessRisk({ ...noAnswers, bmi: 30 }, v1).riskLevel).toBe('Moderate');
+    expect(assessRisk({ ...noAnswers, bmi: 30, nerveSymptoms: true }, v1).riskLevel).toBe('High');
+    expect(assessRisk({ ...noAnswers, bmi: 30, nerveSymptoms: true, familyHistoryHighBP: true }, v1).riskLevel)
+      .toBe('Very High');
+  });
+
+  it('scores every factor up to the maximum', () => {
+    const assessment = assessRisk({
+      ...noAnswers,
+      bmi: 35,
+      familyHistoryDiabetes: true,
+      familyHistoryHighBP: true,
+      familyHistoryDementia: true,
+      nerveSymptoms: true,
+    }, v1);
+
+    expect(assessment.riskScore).toBe(assessment.maxScore);
+    expect(assessment.riskLevel).toBe('Very High');
+    expect(assessment.recommendations).toContain('Consider weight management programs');
+    expect(assessment.recommendations).not.toContain('Maintain healthy weight through diet and exercise');
+  });
+
+  it('ignores answers v1 does not score', () => {
+    const assessment = assessRisk({ ...noAnswers, eczemaHistory: true, chronicKidneyDisease: true, diabetes: true }, v1);
+
+    expect(assessment.riskScore).toBe(0);
+  });
+
+  it('refers on answers and escalates on the total score', () => {
+    const referrals = assessRisk({
+      ...noAnswers,
+      bmi: 32,
+      familyHistoryDiabetes: true,
+      familyHistoryHighBP: true,
+      nerveSymptoms: true,
+    }, v1).referrals;
+
+    expect(referrals).toEqual([
+      { category: 'diabetes', priority: 'High', escalated: true },
+      { category: 'cardiovascular', priority: 'High', escalated: true },
+      { category: 'neurological', priority: 'Medium', escalated: false },
+      { category: 'neurology', priority: 'High', escalated: false },
+      { category: 'vision', priority: 'Medium', escalated: false },
+    ]);
+  });
+
+  it('refers on the total score alone', () => {
+    const referrals = assessRisk({ ...noAnswers, bmi: 30, familyHistoryDementia: true, nerveSymptoms: true }, v1).referrals;
+
+    expect(referrals.map((referral) => referral.category)).toContain('cardiovascular');
+  });
+});
+
+describe('getMaxRiskScore', () => {
+  it('counts one factor per group', () => {
+    const ruleSet: RiskRuleSet = {
+      version: 'test',
+      description: 'Grouped factors',
+      factors: [
+        { id: 'a', label: 'A', points: 4, group: 'g', when: { input: 'bmi', gte: 40 } },
+        { id: 'b', label: 'B', points: 1, group: 'g', when: { input: 'bmi', gte: 30 } },
+        { id: 'c', label: 'C', points: 2, when: { input: 'diabetes' } },
+      ],
+      levels: [{ level: 'Low', minScore: 0 }],
+      recommendations: [],
+      referrals: [],
+    };
+
+    expect(getMaxRiskScore(ruleSet)).toBe(6);
+    expect(assessRisk({ ...noAnswers, bmi: 45, diabetes: true }, ruleSet)).toMatchObject({ riskScore: 6, factors: ['a', 'c'] });
+  });
+});
@@ -0,0 +1,139 @@
+import { HealthSubmission } from '@/types';
+import { riskRulesV1 } from './rules/v1';
+import {
+  RiskAssessment,
+  RiskCondition,
+  RiskInputs,
+  RiskLevel,
+  RiskRuleSet,
+} from './types';
+
+export * from './types';
+
+/**
+ * Every published rule set, oldest first. The last one scores new submissions;
+ * add a new version here instead of editing a published one.
+ */
+export const RISK_RULE_SETS: RiskRuleSet[] = [riskRulesV1];
+
+export const CURRENT_RISK_RULE_VERSION = RISK_RULE_SETS[RISK_RULE_SETS.length - 1].version;
+
+/** Version assumed for submissions scored before versions were recorded */
+export const LEGACY_RISK_RULE_VERSION = 'v1';
+
+export function getRiskRuleSet(version: string = CURRENT_RISK_RULE_VERSION): RiskRuleSet | null {
+  return RISK_RULE_SETS.find((ruleSet) => ruleSet.version === version) || null;
+}
+
+/** Rule set a submission was scored with */
+export function getSubmissionRuleSet(submission: Pick<HealthSubmission, 'riskRuleVersion'>): RiskRuleSet {
+  return getRiskRuleSet(submission.riskRuleVersion || LEGACY_RISK_RULE_VERSION) || getRiskRuleSet()!;
+}
+
+/** Submission fields the risk inputs are read from */
+export type RiskInputSource = Pick<HealthSubmission, 'estimatedBMI' | Exclude<keyof RiskInputs, 'bmi'>>;
+
+export function toRiskInputs(submission: RiskInputSource): RiskInputs {
+  const bmi = Number(submission.estimatedBMI);
+  return {
+    bmi: submission.estimatedBMI !== undefined && !isNaN(bmi) ? bmi : undefined,
+    familyHistoryDiabetes: !!submission.familyHistoryDiabetes,
+    familyHistoryHighBP: !!submission.familyHistoryHighBP,
+    familyHistoryDementia: !!submission.familyHistoryDementia,
+    nerveSymptoms: !!submission.nerveSymptoms,
+    eczemaHistory: !!submission.eczemaHistory,
+    familyHistoryAsthma: !!submission.familyHistoryAsthma,
+    cardiovascularHistory: !!submission.cardiovascularHistory,
+    chronicKidneyDisease: !!submission.chronicKidneyDisease,
+    diabetes: !!submission.diabetes,
+  };
+}
+
+function matches(condition: RiskCondition, inputs: RiskInputs, riskScore?: number): boolean {
+  const value = condition.input === 'riskScore' ? riskScore : inputs[condition.input];
+
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value !== 'number') {
+    return false;
+  }
+  return (condition.gte === undefined || value >= condition.gte)
+    && (condition.lt === undefined || value < condition.lt);
+}
+
+function matchesAny(conditions: RiskCondition[], inputs: RiskInputs, riskScore: number): boolean {
+  return conditions.some((condition) => matches(condition, inputs, riskScore));
+}
+
+/**
+ * Highest score the rule set can produce: every ungrouped factor plus the
+ * largest factor of each group
+ */
+export function getMaxRiskScore(ruleSet: RiskRuleSet): number {
+  const groupMax = new Map<string, number>();
+  let total = 0;
+
+  ruleSet.factors.forEach((factor) => {
+    if (factor.group) {
+      groupMax.set(factor.group, Math.max(groupMax.get(factor.group) || 0, factor.points));
+    } else {
+      total += factor.points;
+    }
+  });
+
+  return total + Array.from(groupMax.values()).reduce((sum, points) => sum + points, 0);
+}
+
+function getRiskLevel(ruleSet: RiskRuleSet, riskScore: number): RiskLevel {
+  const cutoffs = [...ruleSet.levels].sort((a, b) => b.minScore - a.minScore);
+  return (cutoffs.find((cutoff) => riskScore >= cutoff.minScore) || cutoffs[cutoffs.length - 1]).level;
+}
+
+/**
+ * Score screening answers under a rule set (the current one by default)
+ */
+export function assessRisk(inputs: RiskInputs, ruleSet: RiskRuleSet = getRiskRuleSet()!): RiskAssessment {
+  const countedGroups = new Set<string>();
+  const factors: string[] = [];
+  const recommendations: string[] = [];
+  let riskScore = 0;
+
+  ruleSet.factors.forEach((factor) => {
+    if ((factor.group && countedGroups.has(factor.group)) || !matches(factor.when, inputs)) {
+      return;
+    }
+    if (factor.group) {
+      countedGroups.add(factor.group);
+    }
+    riskScore += factor.points;
+    factors.push(factor.id);
+    if (factor.recommendation) {
+      recommendations.push(factor.recommendation);
+    }
+  });
+
+  ruleSet.recommendations.forEach((rule) => {
+    if (!rule.whenAny || matchesAny(rule.whenAny, inputs, riskScore)) {
+      recommendations.push(rule.text);
+    }
+  });
+
+  const referrals = ruleSet.referrals
+    .filter((rule) => matchesAny(rule.whenAny, inputs, riskScore))
+    .map((rule) => ({
+      category: rule.category,
+      priority: rule.priority,
+      escalated: !!rule.escalateWhenAny && matchesAny(rule.escalateWhenAny, inputs, riskScore),
+    }));
+
+  return {
+    ruleVersion: ruleSet.version,
+    riskScore,
+    maxScore: getMaxRiskScore(ruleSet),
+    riskLevel: getRiskLevel(ruleSet, riskScore),
+    factors,
+    recommendations,
+    referrals,
+  };
+}
@@ -0,0 +1,104 @@
+import { RiskRuleSet } from '../types';
+
+/**
+ * Original scoring rules: BMI and four screening answers, 0-10 points.
+ * Submissions saved before rule versions were recorded were scored with these.
+ */
+export const riskRulesV1: RiskRuleSet = {
+  version: 'v1',
+  description: 'BMI, family history of diabetes, high blood pressure and dementia, and nerve symptoms',
+  factors: [
+    {
+      id: 'bmi-obese',
+      label: 'BMI 30 or higher',
+      points: 3,
+      group: 'bmi',
+      when: { input: 'bmi', gte: 30 },
+      recommendation: 'Consider weight management programs',
+    },
+    {
+      id: 'bmi-overweight',
+      label: 'BMI 25 to 29.9',
+      points: 2,
+      group: 'bmi',
+      when: { input: 'bmi', gte: 25 },
+      recommendation: 'Maintain healthy weight through diet and exercise',
+    },
+    {
+      id: 'family-diabetes',
+      label: 'Family history of diabetes',
+      points: 2,
+      when: { input: 'familyHistoryDiabetes' },
+      recommendation: 'Regular blood glucose monitoring recommended',
+    },
+    {
+      id: 'family-high-bp',
+      label: 'Family history of high blood pressure',
+      points: 2,
+      when: { input: 'familyHistoryHighBP' },
+      recommendation: 'Regular blood pressure monitoring recommended',
+    },
+    {
+      id: 'family-dementia',
+      label: 'Family history of dementia',
+      points: 1,
+      when: { input: 'familyHistoryDementia' },
+      recommendation: 'Consider cognitive health maintenance activities',
+    },
+    {
+      id: 'nerve-symptoms',
+      label: 'Nerve symptoms',
+      points: 2,
+      when: { input: 'nerveSymptoms' },
+      recommendation: 'Consult healthcare provider about neuropathy symptoms',
+    },
+  ],
+  levels: [
+    { level: 'Low', minScore: 0 },
+    { level: 'Moderate', minScore: 3 },
+    { level: 'High', minScore: 5 },
+    { level: 'Very High', minScore: 7 },
+  ],
+  recommendations: [
+    { text: 'Maintain regular physical activity' },
+    { text: 'Follow a balanced, nutritious diet' },
+    { text: 'Schedule regular healthcare checkups' },
+  ],
+  referrals: [
+    {
+      category: 'diabetes',
+      priority: 'High',
+      whenAny: [
+        { input: 'familyHistoryDiabetes' },
+        { input: 'riskScore', gte: 6 },
+        { input: 'bmi', gte: 25 },
+      ],
+      escalateWhenAny: [{ input: 'riskScore', gte: 8 }],
+    },
+    {
+      category: 'cardiovascular',
+      priority: 'High',
+      whenAny: [
+        { input: 'cardiovascularHistory' },
+        { input: 'familyHistoryHighBP' },
+        { input: 'riskScore', gte: 5 },
+      ],
+      escalateWhenAny: [{ input: 'riskScore', gte: 7 }],
+    },
+    {
+      category: 'neurological',
+      priority: 'Medium',
+      whenAny: [{ input: 'familyHistoryDementia' }, { input: 'nerveSymptoms' }],
+    },
+    {
+      category: 'neurology',
+      priority: 'High',
+      whenAny: [{ input: 'nerveSymptoms' }],
+    },
+    {
+      category: 'vision',
+      priority: 'Medium',
+      whenAny: [{ input: 'familyHistoryDiabetes' }],
+    },
+  ],
+};
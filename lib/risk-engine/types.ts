@@ -0,0 +1,97 @@
+import { HealthSubmission } from '@/types';
+
+export type RiskLevel = NonNullable<HealthSubmission['healthRiskLevel']>;
+
+/** Screening answers and measurements a rule set can score */
+export interface RiskInputs {
+  /** Estimated BMI; factors on it never match when the estimate is missing */
+  bmi?: number;
+  familyHistoryDiabetes: boolean;
+  familyHistoryHighBP: boolean;
+  familyHistoryDementia: boolean;
+  nerveSymptoms: boolean;
+  eczemaHistory: boolean;
+  familyHistoryAsthma: boolean;
+  cardiovascularHistory: boolean;
+  chronicKidneyDisease: boolean;
+  diabetes: boolean;
+}
+
+/** An input, or the total score for rules evaluated after scoring */
+export type RiskInputName = keyof RiskInputs | 'riskScore';
+
+/**
+ * Matches when a yes/no input is true, or when a numeric input falls
+ * within `gte` (inclusive) and `lt` (exclusive). Either bound may be omitted.
+ */
+export interface RiskCondition {
+  input: RiskInputName;
+  gte?: number;
+  lt?: number;
+}
+
+export interface RiskFactor {
+  id: string;
+  label: string;
+  points: number;
+  when: RiskCondition;
+  /** Only the first matching factor of a group is counted */
+  group?: string;
+  /** Added to the participant's recommendations when the factor matches */
+  recommendation?: string;
+}
+
+export interface RiskLevelCutoff {
+  level: RiskLevel;
+  /** Lowest score at this level */
+  minScore: number;
+}
+
+/** Recommendation added when any condition matches, or always when there are none */
+export interface RecommendationRule {
+  text: string;
+  whenAny?: RiskCondition[];
+}
+
+export type ReferralPriority = 'High' | 'Medium' | 'Low';
+
+/** Specialist referral area shown to admins, keyed by category */
+export interface ReferralRule {
+  category: string;
+  whenAny: RiskCondition[];
+  priority: ReferralPriority;
+  /** Referral urgency is raised when any of these match */
+  escalateWhenAny?: RiskCondition[];
+}
+
+/**
+ * One version of the scoring rules. Published versions must never be edited:
+ * submissions record the version they were scored with, so changes go in a new version.
+ */
+export interface RiskRuleSet {
+  version: string;
+  description: string;
+  factors: RiskFactor[];
+  /** Any order; the highest cutoff at or below the score wins */
+  levels: RiskLevelCutoff[];
+  recommendations: RecommendationRule[];
+  referrals: ReferralRule[];
+}
+
+export interface RiskReferral {
+  category: string;
+  priority: ReferralPriority;
+  escalated: boolean;
+}
+
+export interface RiskAssessment {
+  ruleVersion: string;
+  riskScore: number;
+  /** Highest score the rule set can produce */
+  maxScore: number;
+  riskLevel: RiskLevel;
+  /** Ids of the factors that counted towards the score */
+  factors: string[];
+  recommendations: string[];
+  referrals: RiskReferral[];
+}
@@ -0,0 +1,104 @@
+import { getStorage } from '@/lib/storage';
+import {
+  assessRisk,
+  LEGACY_RISK_RULE_VERSION,
+  RiskAssessment,
+  RiskRuleSet,
+  toRiskInputs,
+} from '@/lib/risk-engine';
+import { updateRiskAssessment } from '@/lib/submissions-service';
+import { HealthSubmission, RiskRescoreChange, RiskRescoreReport } from '@/types';
+
+export interface RescoreOptions {
+  ruleSet: RiskRuleSet;
+  /** Save the new results; otherwise only report what would change */
+  apply: boolean;
+  churchId?: string;
+  startDate?: string;
+  endDate?: string;
+  pageSize: number;
+  exclusiveStartKey?: Record<string, unknown>;
+}
+
+function sameRecommendations(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((text, index) => text === b[index]);
+}
+
+/**
+ * Re-score one page of submissions under `ruleSet` and report the differences.
+ * Submissions without a BMI estimate were never scored and are skipped.
+ * Applying also stamps the new version on submissions whose result did not change.
+ */
+export async function rescoreSubmissionsPage(
+  options: RescoreOptions
+): Promise<{ report: Omit<RiskRescoreReport, 'nextToken'>; lastEvaluatedKey?: Record<string, unknown> }> {
+  const page = await getStorage().submissions.list({
+    churchId: options.churchId,
+    startDate: options.startDate,
+    endDate: options.endDate,
+    pageSize: options.pageSize,
+    exclusiveStartKey: options.exclusiveStartKey,
+  });
+
+  const report: Omit<RiskRescoreReport, 'nextToken'> = {
+    toVersion: options.ruleSet.version,
+    applied: options.apply,
+    scanned: page.items.length,
+    changed: 0,
+    unchanged: 0,
+    skipped: 0,
+    levelTransitions: {},
+    changes: [],
+  };
+
+  const writes: Array<{ submission: HealthSubmission; assessment: RiskAssessment }> = [];
+
+  page.items.forEach((submission) => {
+    const inputs = toRiskInputs(submission);
+    if (inputs.bmi === undefined) {
+      report.skipped++;
+      return;
+    }
+
+    const assessment = assessRisk(inputs, options.ruleSet);
+    const fromVersion = submission.riskRuleVersion || LEGACY_RISK_RULE_VERSION;
+    const isChanged = assessment.riskScore !== submission.healthRiskScore
+      || assessment.riskLevel !== submission.healthRiskLevel
+      || !sameRecommendations(assessment.recommendations, submission.recommendations);
+
+    if (isChanged) {
+      const previous = submission.recommendations || [];
+      const change: RiskRescoreChange = {
+        submissionId: submission.id,
+        churchId: submission.churchId,
+        fromVersion,
+        before: { healthRiskScore: submission.healthRiskScore, healthRiskLevel: submission.healthRiskLevel },
+        after: { healthRiskScore: assessment.riskScore, healthRiskLevel: assessment.riskLevel },
+        recommendationsAdded: assessment.recommendations.filter((text) => !previous.includes(text)),
+        recommendationsRemoved: previous.filter((text) => !assessment.recommendations.includes(text)),
+      };
+      report.changes.push(change);
+      report.changed++;
+
+      if (submission.healthRiskLevel !== assessment.riskLevel) {
+        const transition = `${submission.healthRiskLevel || 'Unscored'} -> ${assessment.riskLevel}`;
+        report.levelTransitions[transition] = (report.levelTransitions[transition] || 0) + 1;
+      }
+    } else {
+      report.unchanged++;
+    }
+
+    if (isChanged || submission.riskRuleVersion !== assessment.ruleVersion) {
+      writes.push({ submission, assessment });
+    }
+  });
+
+  if (options.apply) {
+    // Sequential so the rollup counters are not hammered by a burst of increments
+    for (const { submission, assessment } of writes) {
+      await updateRiskAssessment(submission, assessment);
+    }
+  }
+
+  return { report, lastEvaluatedKey: page.lastEvaluatedKey };
+}
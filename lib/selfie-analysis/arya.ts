@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { isMeasured, toMeasurements } from './measurements';
+import { SelfieAnalysisProvider } from './types';
+
+const DEFAULT_BASE_URL = 'https://ping.arya.ai/api/v1';
+
+type ExtractedData = Record<string, unknown>;
+
+/** First numeric value among the field names the API has used for a measurement */
+function pickNumber(data: ExtractedData, fields: string[]): number | undefined {
+  for (const field of fields) {
+    const value = Number(data[field]);
+    if (data[field] !== undefined && data[field] !== null && !isNaN(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function pickString(data: ExtractedData, fields: string[]): string | undefined {
+  for (const field of fields) {
+    if (typeof data[field] === 'string' && data[field]) {
+      return data[field] as string;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Arya.ai Face-to-BMI provider. HTTP and API errors are thrown; a response
+ * without a BMI estimate is reported as unknown.
+ */
+export function createAryaProvider(apiKey: string, baseUrl: string = DEFAULT_BASE_URL): SelfieAnalysisProvider {
+  return {
+    name: 'arya',
+
+    async analyze(image, _mimeType, signal) {
+      const response = await axios.post(
+        `${baseUrl}/face-to-bmi`,
+        {
+          req_id: `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+          doc_base64: image.toString('base64'),
+          doc_type: 'image',
+        },
+        {
+          headers: {
+            'token': apiKey,
+            'Content-Type': 'application/json',
+          },
+          signal,
+        }
+      );
+
+      const responseData = response.data;
+      if (!responseData?.success) {
+        throw new Error(responseData?.error_message || 'Arya.ai request failed');
+      }
+
+      // The first (and typically only) extracted item holds the analysis;
+      // field names have varied, so several spellings are accepted
+      const analysisData: ExtractedData = responseData.extracted_data?.[0] || {};
+      const bmi = pickNumber(analysisData, ['bmi', 'estimated_bmi', 'BMI', 'body_mass_index']);
+
+      if (!isMeasured(bmi)) {
+        return {
+          status: 'unknown',
+          provider: 'arya',
+          reason: 'No biometric data could be extracted from the image',
+          retryable: false,
+        };
+      }
+
+      const age = pickNumber(analysisData, ['age', 'estimated_age', 'Age', 'predicted_age']);
+      const gender = pickString(analysisData, ['gender', 'predicted_gender', 'Gender', 'sex']);
+      const confidence = pickNumber(analysisData, ['gender_confidence', 'confidence']);
+
+      return {
+        status: 'complete',
+        provider: 'arya',
+        ...toMeasurements(bmi, age, { predicted: gender, confidence }),
+      };
+    },
+  };
+}
@@ -0,0 +1,67 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single trial call is let through */
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreaker {
+  getState(): CircuitState;
+  /** Whether a call may proceed; while half-open only one trial call is allowed at a time */
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+}
+
+/**
+ * In-process circuit breaker. State is per server instance, which is enough
+ * to stop each instance from queueing requests behind a provider that is down.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const open = () => {
+    state = 'open';
+    openedAt = Date.now();
+    trialInFlight = false;
+  };
+
+  return {
+    getState() {
+      if (state === 'open' && Date.now() - openedAt >= options.resetTimeoutMs) {
+        state = 'half-open';
+      }
+      return state;
+    },
+
+    tryAcquire() {
+      const current = this.getState();
+      if (current === 'closed') {
+        return true;
+      }
+      if (current === 'half-open' && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    recordSuccess() {
+      state = 'closed';
+      failures = 0;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures++;
+      if (state === 'half-open' || failures >= options.failureThreshold) {
+        open();
+      }
+    },
+  };
+}
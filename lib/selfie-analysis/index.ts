@@ -0,0 +1,122 @@
+import { createAryaProvider } from './arya';
+import { createCircuitBreaker } from './circuit-breaker';
+import { createStubProvider } from './stub';
+import { SelfieAnalysisProvider, SelfieAnalysisProviderName, SelfieAnalysisResult } from './types';
+
+export * from './types';
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+// Stop calling a provider after 5 straight failures, and try again after a minute
+const breaker = createCircuitBreaker({
+  failureThreshold: 5,
+  resetTimeoutMs: 60 * 1000,
+});
+
+let provider: SelfieAnalysisProvider | null | undefined;
+
+/**
+ * Resolve the configured provider (APP_SELFIE_ANALYSIS_PROVIDER=arya|stub|none).
+ * Defaults to Arya.ai when ARYA_AI_API_KEY is set and to none otherwise;
+ * `null` means selfie analysis is switched off.
+ */
+function getProvider(): SelfieAnalysisProvider | null {
+  if (provider !== undefined) {
+    return provider;
+  }
+
+  const defaultProvider = process.env.ARYA_AI_API_KEY ? 'arya' : 'none';
+  const name = (process.env.APP_SELFIE_ANALYSIS_PROVIDER || defaultProvider) as SelfieAnalysisProviderName;
+
+  switch (name) {
+    case 'arya': {
+      const apiKey = process.env.ARYA_AI_API_KEY;
+      if (!apiKey) {
+        throw new Error('ARYA_AI_API_KEY is required when APP_SELFIE_ANALYSIS_PROVIDER=arya');
+      }
+      provider = createAryaProvider(apiKey, process.env.ARYA_AI_BASE_URL || undefined);
+      break;
+    }
+    case 'stub':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('APP_SELFIE_ANALYSIS_PROVIDER=stub is not allowed in production');
+      }
+      provider = createStubProvider();
+      break;
+    case 'none':
+      provider = null;
+      break;
+    default:
+      throw new Error(`Unknown selfie analysis provider: ${name}`);
+  }
+
+  return provider;
+}
+
+function getTimeoutMs(): number {
+  const timeoutMs = parseInt(process.env.APP_SELFIE_ANALYSIS_TIMEOUT_MS || '', 10);
+  return timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS;
+}
+
+async function analyzeWithTimeout(
+  target: SelfieAnalysisProvider,
+  image: Buffer,
+  mimeType: string
+): Promise<SelfieAnalysisResult> {
+  const timeoutMs = getTimeoutMs();
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  // Reject on time even if the provider ignores the abort signal
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Selfie analysis timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([target.analyze(image, mimeType, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Estimate BMI, age and gender from a selfie with the configured provider.
+ * Never throws: when no provider is configured, the circuit is open, or the
+ * provider fails or times out, the result is 'unknown' instead of made-up values.
+ */
+export async function analyzeSelfie(image: Buffer, mimeType: string): Promise<SelfieAnalysisResult> {
+  let target: SelfieAnalysisProvider | null;
+  try {
+    target = getProvider();
+  } catch (error) {
+    console.error('Selfie analysis is misconfigured:', error);
+    return { status: 'unknown', provider: 'none', reason: 'Selfie analysis is misconfigured', retryable: false };
+  }
+
+  if (!target) {
+    return { status: 'unknown', provider: 'none', reason: 'Selfie analysis is not configured', retryable: false };
+  }
+
+  if (!breaker.tryAcquire()) {
+    return {
+      status: 'unknown',
+      provider: target.name,
+      reason: 'Selfie analysis is temporarily unavailable',
+      retryable: true,
+    };
+  }
+
+  try {
+    const result = await analyzeWithTimeout(target, image, mimeType);
+    breaker.recordSuccess();
+    return result;
+  } catch (error) {
+    breaker.recordFailure();
+    const message = error instanceof Error ? error.message : 'Failed to analyze image';
+    console.error(`Selfie analysis (${target.name}) failed:`, message);
+    return { status: 'unknown', provider: target.name, reason: message, retryable: true };
+  }
+}
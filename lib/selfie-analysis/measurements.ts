@@ -0,0 +1,48 @@
+import { SelfieMeasurements } from './types';
+
+function getBMICategory(bmi: number): string {
+  if (bmi < 18.5) return 'Underweight';
+  if (bmi < 25) return 'Normal weight';
+  if (bmi < 30) return 'Overweight';
+  return 'Obese';
+}
+
+function getBMIRange(bmi: number): string {
+  if (bmi < 18.5) return '< 18.5';
+  if (bmi < 25) return '18.5-24.9';
+  if (bmi < 30) return '25-29.9';
+  return '≥ 30';
+}
+
+function getAgeRange(age: number): string {
+  const lowerBound = Math.floor(age / 10) * 10;
+  const upperBound = lowerBound + 9;
+  return `${lowerBound}-${upperBound}`;
+}
+
+/** A usable estimate is a finite, positive number */
+export function isMeasured(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Build measurements from provider estimates. Age and gender are left out
+ * rather than filled in when the provider did not return them.
+ */
+export function toMeasurements(
+  bmi: number,
+  age?: number,
+  gender?: { predicted?: string; confidence?: number }
+): SelfieMeasurements {
+  return {
+    bmi: {
+      value: bmi,
+      range: getBMIRange(bmi),
+      category: getBMICategory(bmi),
+    },
+    age: isMeasured(age) ? { estimated: age, range: getAgeRange(age) } : undefined,
+    gender: gender?.predicted
+      ? { predicted: gender.predicted, confidence: gender.confidence || 0 }
+      : undefined,
+  };
+}
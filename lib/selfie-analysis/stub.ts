@@ -0,0 +1,29 @@
+import { createHash } from 'crypto';
+import { toMeasurements } from './measurements';
+import { SelfieAnalysisProvider } from './types';
+
+/**
+ * Offline provider for development and demos. Estimates are derived from a
+ * hash of the image, so the same selfie always gets the same result and no
+ * network call is made. Never use it where real screenings are collected.
+ */
+export function createStubProvider(): SelfieAnalysisProvider {
+  return {
+    name: 'stub',
+
+    async analyze(image) {
+      const digest = createHash('sha256').update(image).digest();
+
+      // BMI 18.5-35.0, age 18-79
+      const bmi = Math.round((18.5 + (digest[0] / 255) * 16.5) * 10) / 10;
+      const age = 18 + (digest[1] % 62);
+      const gender = digest[2] % 2 === 0 ? 'Female' : 'Male';
+
+      return {
+        status: 'complete',
+        provider: 'stub',
+        ...toMeasurements(bmi, age, { predicted: gender, confidence: 0.5 }),
+      };
+    },
+  };
+}
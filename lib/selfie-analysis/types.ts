@@ -0,0 +1,39 @@
+import { SelfieAnalysisStatus } from '@/types';
+
+export type SelfieAnalysisProviderName = 'arya' | 'stub' | 'none';
+
+export interface SelfieMeasurements {
+  bmi: {
+    value: number;
+    range: string;
+    category: string;
+  };
+  age?: {
+    estimated: number;
+    range: string;
+  };
+  gender?: {
+    predicted: string;
+    confidence: number;
+  };
+}
+
+export type SelfieAnalysisResult =
+  | ({ status: Extract<SelfieAnalysisStatus, 'complete'>; provider: SelfieAnalysisProviderName } & SelfieMeasurements)
+  | {
+      status: Extract<SelfieAnalysisStatus, 'unknown'>;
+      provider: SelfieAnalysisProviderName;
+      reason: string;
+      /** The provider failed, timed out or was skipped by the circuit breaker; trying again later may succeed */
+      retryable: boolean;
+    };
+
+export interface SelfieAnalysisProvider {
+  name: SelfieAnalysisProviderName;
+  /**
+   * Estimate measurements from a selfie. Resolve with status 'unknown' when the
+   * provider answered but could not measure the image; throw when the provider
+   * itself failed, so the circuit breaker can count it.
+   */
+  analyze(image: Buffer, mimeType: string, signal: AbortSignal): Promise<SelfieAnalysisResult>;
+}
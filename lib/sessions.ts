@@ -0,0 +1,171 @@
+import { NextApiRequest } from 'next';
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from '@/lib/storage';
+import { extractIpAddress, parseUserAgent } from '@/lib/device-tracker';
+import { AdminSession, AdminSessionSummary, SessionRevocationReason } from '@/types';
+
+/**
+ * Server-side admin sessions.
+ *
+ * Each login creates a session whose id is embedded in both JWTs. Refresh
+ * tokens carry a `jti` and are single-use: every refresh rotates the session's
+ * `refreshTokenId`, and presenting an already-rotated token revokes the session
+ * because it means the token was copied.
+ */
+
+// Matches the refresh token lifetime
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Parallel requests that all carry the same expired access token each try to
+// refresh; the losers of that race present the just-rotated token
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+// Avoid a write on every request just to keep "last active" fresh
+const LAST_USED_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+export type RefreshRotationResult =
+  | { status: 'rotated'; session: AdminSession; refreshTokenId: string }
+  | { status: 'concurrent'; session: AdminSession }
+  | { status: 'reused' }
+  | { status: 'invalid' };
+
+function isActive(session: AdminSession | null, now = Date.now()): session is AdminSession {
+  return !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > now;
+}
+
+function describeDevice(userAgent: string): AdminSession['device'] {
+  const { browser, os, device } = parseUserAgent(userAgent);
+  return { browser, os, device };
+}
+
+export async function createSession(
+  req: NextApiRequest,
+  user: { userId: string; email: string }
+): Promise<AdminSession> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  const userAgent = req.headers['user-agent'] || '';
+
+  const session: AdminSession = {
+    id: uuidv4(),
+    userId: user.userId,
+    email: user.email,
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    ipAddress: extractIpAddress(req),
+    userAgent,
+    device: describeDevice(userAgent),
+    refreshTokenId: uuidv4(),
+    ttl: Math.floor(expiresAt.getTime() / 1000),
+  };
+
+  await getStorage().sessions.create(session);
+  return session;
+}
+
+/**
+ * The session if it is neither revoked nor expired. Occasionally records
+ * the request as the session's latest activity.
+ */
+export async function getActiveSession(
+  sessionId: string,
+  req?: NextApiRequest
+): Promise<AdminSession | null> {
+  const session = await getStorage().sessions.get(sessionId);
+  if (!isActive(session)) {
+    return null;
+  }
+
+  if (req && Date.now() - new Date(session.lastUsedAt).getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    getStorage().sessions
+      .update(session.id, { lastUsedAt: new Date().toISOString(), ipAddress: extractIpAddress(req) })
+      .catch((error) => console.error(`Failed to record activity for session ${session.id}:`, error));
+  }
+
+  return session;
+}
+
+/**
+ * Exchange the presented refresh token id for a new one
+ */
+export async function rotateRefreshToken(
+  sessionId: string,
+  presentedTokenId: string,
+  req: NextApiRequest
+): Promise<RefreshRotationResult> {
+  const { sessions } = getStorage();
+  const session = await sessions.get(sessionId);
+  if (!isActive(session)) {
+    return { status: 'invalid' };
+  }
+
+  if (presentedTokenId !== session.refreshTokenId) {
+    const rotatedAgo = session.rotatedAt ? Date.now() - new Date(session.rotatedAt).getTime() : Infinity;
+    if (presentedTokenId === session.previousRefreshTokenId && rotatedAgo < REFRESH_REUSE_GRACE_MS) {
+      return { status: 'concurrent', session };
+    }
+
+    await revokeSession(session.id, 'refresh_token_reuse');
+    console.warn(`Refresh token reuse detected for ${session.email}; session ${session.id} revoked`);
+    return { status: 'reused' };
+  }
+
+  const now = new Date().toISOString();
+  const refreshTokenId = uuidv4();
+  const rotated = await sessions.rotate(session.id, presentedTokenId, {
+    refreshTokenId,
+    previousRefreshTokenId: presentedTokenId,
+    rotatedAt: now,
+    lastUsedAt: now,
+    ipAddress: extractIpAddress(req),
+  });
+
+  if (!rotated) {
+    // Another request rotated the session between our read and write
+    const latest = await sessions.get(session.id);
+    return isActive(latest) ? { status: 'concurrent', session: latest } : { status: 'invalid' };
+  }
+
+  return { status: 'rotated', session: rotated, refreshTokenId };
+}
+
+export async function revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<boolean> {
+  const updated = await getStorage().sessions.update(sessionId, {
+    revokedAt: new Date().toISOString(),
+    revokedReason: reason,
+  });
+  return updated !== null;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one. Returns the number revoked.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevocationReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const active = (await getStorage().sessions.listByUser(userId))
+    .filter((session) => isActive(session) && session.id !== exceptSessionId);
+
+  await Promise.all(active.map((session) => revokeSession(session.id, reason)));
+  return active.length;
+}
+
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<AdminSessionSummary[]> {
+  return (await getStorage().sessions.listByUser(userId))
+    .filter((session) => isActive(session))
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+    .map((session) => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      ipAddress: session.ipAddress,
+      device: session.device,
+      isCurrent: session.id === currentSessionId,
+    }));
+}
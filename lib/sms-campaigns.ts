@@ -0,0 +1,370 @@
+import { v4 as uuidv4 } from 'uuid';
+import { contactChannels } from '@/lib/contact-preference';
+import { formatPhoneNumber, SMSResult, smsService } from '@/lib/sms-service';
+import { renderSmsTemplate } from '@/lib/sms-templates';
+import { getStorage } from '@/lib/storage';
+import { fetchAllSubmissions } from '@/lib/submissions-service';
+import {
+  HealthSubmission,
+  SmsCampaign,
+  SmsCampaignAudience,
+  SmsCampaignCounts,
+  SmsCampaignFilters,
+  SmsCampaignRecipient,
+  SmsCampaignSkipReason,
+} from '@/types';
+
+/** Largest audience a single campaign may send to */
+export const SMS_CAMPAIGN_MAX_RECIPIENTS = 2000;
+
+/** Send attempts per recipient before the recipient is marked failed */
+export const SMS_CAMPAIGN_MAX_ATTEMPTS = 3;
+
+// A run stops starting sends after this, so it finishes inside a 60s function timeout
+const RUN_TIME_BUDGET_MS = 45 * 1000;
+
+// Longer than a run, so a lease only expires if the runner died
+const LEASE_MS = 2 * 60 * 1000;
+
+// Sends between checks for a cancellation made while the campaign is sending
+const CANCEL_CHECK_INTERVAL = 20;
+
+const THROTTLING_ERROR = /throttl|rate exceeded/i;
+
+/** Whether a failed send was SNS throttling, which is worth retrying later */
+export function isThrottlingError(error?: string): boolean {
+  return THROTTLING_ERROR.test(error || '');
+}
+
+export type SmsCampaignSendOutcome = 'sent' | 'failed' | 'skipped' | 'retrying';
+
+export type SmsCampaignRunSummary = Record<SmsCampaignSendOutcome, number>;
+
+export interface SmsCampaignAudienceMember {
+  submission: HealthSubmission;
+  phone?: string;
+  skipReason?: SmsCampaignSkipReason;
+}
+
+export interface SmsCampaignDetails {
+  name: string;
+  filters: SmsCampaignFilters;
+  templateKey?: string;
+  message?: string;
+  locale?: string;
+  scheduledAt: string;
+}
+
+/**
+ * Pause between sends for `APP_SMS_CAMPAIGN_RATE_PER_SECOND`. SNS accepts more,
+ * but the origination number sets the real limit; the default of 3 is what a
+ * toll-free number allows.
+ */
+export function smsSendIntervalMs(): number {
+  const rate = Number(process.env.APP_SMS_CAMPAIGN_RATE_PER_SECOND);
+  return 1000 / (rate > 0 ? rate : 3);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
+
+function emptySummary(): SmsCampaignRunSummary {
+  return { sent: 0, failed: 0, skipped: 0, retrying: 0 };
+}
+
+/**
+ * Every submission matching the filters, newest first, with the reason it will
+ * not be texted: no usable number, no TCPA consent, a choice of email only, an
+ * opt-out, or a newer screening with the same number already in the audience.
+ */
+export async function buildSmsCampaignAudience(
+  filters: SmsCampaignFilters
+): Promise<SmsCampaignAudienceMember[]> {
+  const [submissions, suppressions] = await Promise.all([
+    fetchAllSubmissions(filters),
+    getStorage().smsSuppressions.list(),
+  ]);
+  const suppressed = new Set(suppressions.map((suppression) => suppression.id));
+  const seen = new Set<string>();
+
+  return submissions
+    .sort((a, b) => b.submissionDate.localeCompare(a.submissionDate))
+    .map((submission): SmsCampaignAudienceMember => {
+      const phone = formatPhoneNumber(submission.phone || '') || undefined;
+      if (!phone) {
+        return { submission, skipReason: 'no_phone' };
+      }
+      if (!submission.tcpaConsent) {
+        return { submission, phone, skipReason: 'no_consent' };
+      }
+      if (!contactChannels(submission).includes('sms')) {
+        // The newest screening's choice stands, so older ones with this number are not texted either
+        seen.add(phone);
+        return { submission, phone, skipReason: 'sms_not_preferred' };
+      }
+      if (suppressed.has(phone)) {
+        return { submission, phone, skipReason: 'opted_out' };
+      }
+      if (seen.has(phone)) {
+        return { submission, phone, skipReason: 'duplicate_phone' };
+      }
+      seen.add(phone);
+      return { submission, phone };
+    });
+}
+
+export function summarizeAudience(members: SmsCampaignAudienceMember[]): SmsCampaignAudience {
+  const audience: SmsCampaignAudience = {
+    matched: members.length,
+    eligible: 0,
+    skipped: { no_phone: 0, no_consent: 0, sms_not_preferred: 0, opted_out: 0, duplicate_phone: 0 },
+  };
+
+  members.forEach((member) => {
+    if (member.skipReason) {
+      audience.skipped[member.skipReason]++;
+    } else {
+      audience.eligible++;
+    }
+  });
+  return audience;
+}
+
+export function countRecipients(recipients: SmsCampaignRecipient[]): SmsCampaignCounts {
+  const counts: SmsCampaignCounts = { total: recipients.length, pending: 0, sent: 0, failed: 0, skipped: 0 };
+  recipients.forEach((recipient) => {
+    counts[recipient.status]++;
+  });
+  return counts;
+}
+
+/**
+ * Save a campaign with its recipients. Skipped submissions are kept as
+ * recipients too, so the results show why each matched screening was not texted.
+ */
+export async function createSmsCampaign(
+  details: SmsCampaignDetails,
+  members: SmsCampaignAudienceMember[],
+  createdBy: string
+): Promise<SmsCampaign> {
+  const now = new Date().toISOString();
+  const id = uuidv4();
+
+  const recipients = members.map((member): SmsCampaignRecipient => ({
+    campaignId: id,
+    submissionId: member.submission.id,
+    churchId: member.submission.churchId,
+    ...(member.phone && { phone: member.phone }),
+    status: member.skipReason ? 'skipped' : 'pending',
+    ...(member.skipReason && { skipReason: member.skipReason }),
+    attempts: 0,
+    updatedAt: now,
+  }));
+
+  // DynamoDB rejects undefined attributes, so only set the optional ones that have values
+  const filters = Object.fromEntries(
+    Object.entries(details.filters).filter(([, value]) => value !== undefined)
+  ) as SmsCampaignFilters;
+
+  const campaign: SmsCampaign = {
+    id,
+    name: details.name,
+    filters,
+    ...(details.templateKey && { templateKey: details.templateKey }),
+    ...(details.message && { message: details.message }),
+    ...(details.locale && { locale: details.locale }),
+    status: 'scheduled',
+    scheduledAt: details.scheduledAt,
+    counts: countRecipients(recipients),
+    createdAt: now,
+    createdBy,
+    updatedAt: now,
+  };
+
+  const { smsCampaigns, smsCampaignRecipients } = getStorage();
+  await smsCampaignRecipients.createMany(recipients);
+  await smsCampaigns.create(campaign);
+  return campaign;
+}
+
+async function sendCampaignMessage(
+  campaign: SmsCampaign,
+  recipient: SmsCampaignRecipient,
+  locationNames: Map<string, string>
+): Promise<SMSResult> {
+  const submission = await getStorage().submissions.get(recipient.submissionId);
+  const phone = recipient.phone || '';
+  const log = {
+    submissionId: recipient.submissionId,
+    churchId: recipient.churchId,
+    campaignId: campaign.id,
+  };
+
+  if (campaign.templateKey) {
+    return smsService.sendTemplateSMS(phone, campaign.templateKey, {
+      churchId: recipient.churchId,
+      // A campaign without a language writes to each participant in the one they used on the form
+      locale: campaign.locale || submission?.locale,
+      firstName: submission?.firstName,
+      riskLevel: submission?.healthRiskLevel,
+    }, { log });
+  }
+
+  return smsService.sendSMS({
+    phoneNumber: phone,
+    message: renderSmsTemplate(campaign.message || '', {
+      firstName: submission?.firstName,
+      locationName: locationNames.get(recipient.churchId),
+      riskLevel: submission?.healthRiskLevel,
+    }, campaign.locale),
+  }, { log });
+}
+
+/**
+ * Send to one pending recipient and record the result. Returns null when SNS
+ * throttled the send, leaving the recipient pending for the next run.
+ */
+async function sendToRecipient(
+  campaign: SmsCampaign,
+  recipient: SmsCampaignRecipient,
+  locationNames: Map<string, string>
+): Promise<SmsCampaignSendOutcome | null> {
+  const { smsCampaignRecipients } = getStorage();
+  const result = await sendCampaignMessage(campaign, recipient, locationNames);
+  const now = new Date().toISOString();
+  const attempts = recipient.attempts + 1;
+
+  if (result.success) {
+    await smsCampaignRecipients.update(campaign.id, recipient.submissionId, {
+      status: 'sent',
+      attempts,
+      messageId: result.messageId,
+      error: '',
+      sentAt: now,
+      updatedAt: now,
+    });
+    return 'sent';
+  }
+
+  // Opted out after the campaign was created
+  if (result.suppressed) {
+    await smsCampaignRecipients.update(campaign.id, recipient.submissionId, {
+      status: 'skipped',
+      skipReason: 'opted_out',
+      updatedAt: now,
+    });
+    return 'skipped';
+  }
+
+  if (isThrottlingError(result.error)) {
+    return null;
+  }
+
+  const failed = attempts >= SMS_CAMPAIGN_MAX_ATTEMPTS;
+  await smsCampaignRecipients.update(campaign.id, recipient.submissionId, {
+    status: failed ? 'failed' : 'pending',
+    attempts,
+    error: result.error || 'Unknown error',
+    updatedAt: now,
+  });
+  return failed ? 'failed' : 'retrying';
+}
+
+/**
+ * Send a due campaign's pending messages at the configured rate until the run's
+ * time budget is used up. Failed sends are retried on later runs up to
+ * SMS_CAMPAIGN_MAX_ATTEMPTS; the campaign completes once nothing is pending.
+ */
+export async function runSmsCampaign(
+  id: string,
+  deadline: number = Date.now() + RUN_TIME_BUDGET_MS
+): Promise<SmsCampaignRunSummary> {
+  const summary = emptySummary();
+  // Nothing is attempted while SMS is off, so no retries are used up
+  if (!smsService.isEnabled()) {
+    return summary;
+  }
+
+  const { smsCampaigns, smsCampaignRecipients, locations } = getStorage();
+  const now = new Date().toISOString();
+
+  const scheduled = await smsCampaigns.get(id);
+  if (!scheduled || scheduled.scheduledAt > now) {
+    return summary;
+  }
+  const campaign = await smsCampaigns.claim(id, now, new Date(Date.now() + LEASE_MS).toISOString());
+  if (!campaign) {
+    return summary;
+  }
+  if (!campaign.startedAt) {
+    await smsCampaigns.update(id, { startedAt: now });
+  }
+
+  const locationNames = new Map((await locations.list()).map((location) => [location.id, location.name]));
+  const pending = (await smsCampaignRecipients.listByCampaign(id))
+    .filter((recipient) => recipient.status === 'pending');
+
+  const interval = smsSendIntervalMs();
+  let nextSendAt = Date.now();
+  for (const [index, recipient] of Array.from(pending.entries())) {
+    if (Date.now() >= deadline) break;
+    if (index > 0 && index % CANCEL_CHECK_INTERVAL === 0 && (await smsCampaigns.get(id))?.status === 'cancelled') {
+      break;
+    }
+
+    await sleep(nextSendAt - Date.now());
+    nextSendAt = Date.now() + interval;
+
+    const outcome = await sendToRecipient(campaign, recipient, locationNames);
+    if (!outcome) {
+      console.warn(`SMS campaign ${id} was throttled; the rest is left for the next run`);
+      break;
+    }
+    summary[outcome]++;
+  }
+
+  const counts = countRecipients(await smsCampaignRecipients.listByCampaign(id));
+  const current = await smsCampaigns.get(id);
+  const isComplete = counts.pending === 0 && current?.status === 'sending';
+  const finishedAt = new Date().toISOString();
+
+  await smsCampaigns.update(id, {
+    counts,
+    lockedUntil: finishedAt,
+    updatedAt: finishedAt,
+    ...(isComplete && { status: 'completed' as const, completedAt: finishedAt }),
+  });
+  return summary;
+}
+
+/**
+ * Work every campaign that is due, earliest first, within one run's time budget.
+ */
+export async function runDueSmsCampaigns(): Promise<SmsCampaignRunSummary> {
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  const now = new Date().toISOString();
+  const summary = emptySummary();
+
+  const due = (await getStorage().smsCampaigns.list())
+    .filter((campaign) =>
+      (campaign.status === 'scheduled' || campaign.status === 'sending') &&
+      campaign.scheduledAt <= now &&
+      (!campaign.lockedUntil || campaign.lockedUntil < now)
+    )
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt));
+
+  for (const campaign of due) {
+    if (Date.now() >= deadline) break;
+    try {
+      const result = await runSmsCampaign(campaign.id, deadline);
+      (Object.keys(summary) as SmsCampaignSendOutcome[]).forEach((outcome) => {
+        summary[outcome] += result[outcome];
+      });
+    } catch (error) {
+      console.error(`SMS campaign ${campaign.id} errored:`, error);
+    }
+  }
+
+  return summary;
+}
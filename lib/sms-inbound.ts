@@ -0,0 +1,109 @@
+import { optIn, optOut } from '@/lib/consent/ledger';
+import { phoneMatchKey } from '@/lib/duplicates';
+import { logInboundSms } from '@/lib/sms-log';
+import { formatPhoneNumber, smsService } from '@/lib/sms-service';
+import { getStorage } from '@/lib/storage';
+
+/**
+ * Handling of SMS replies. Every reply is saved in the SMS log; STOP-type keywords add the number to the
+ * suppression list, START-type keywords lift it, and HELP gets the help text.
+ * Each is confirmed with the `opt-out`, `opt-in` or `help` template.
+ */
+
+export type InboundSmsAction = 'opt_out' | 'opt_in' | 'help' | 'none';
+
+/** Inbound message as AWS End User Messaging publishes it to the SNS topic */
+export interface InboundSms {
+  originationNumber: string;
+  messageBody: string;
+  destinationNumber?: string;
+  inboundMessageId?: string;
+}
+
+export interface InboundSmsResult {
+  action: InboundSmsAction;
+  replied: boolean;
+  /** The same inbound message was already handled */
+  duplicate?: boolean;
+}
+
+// Standard CTIA keywords, plus their Spanish equivalents for participants who use the form in Spanish
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE', 'ALTO', 'PARAR', 'CANCELAR'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE'];
+const HELP_KEYWORDS = ['HELP', 'INFO', 'AYUDA'];
+
+const REPLY_TEMPLATES: Record<Exclude<InboundSmsAction, 'none'>, string> = {
+  opt_out: 'opt-out',
+  opt_in: 'opt-in',
+  help: 'help',
+};
+
+/**
+ * Opt-outs match on the first word ("Stop texting me"), so a request to stop
+ * is never missed; opting back in and HELP need the keyword on its own.
+ */
+export function classifyInboundSms(body: string): InboundSmsAction {
+  const words = body.toUpperCase().replace(/[^A-Z\s]/g, '').trim().split(/\s+/);
+  if (OPT_OUT_KEYWORDS.includes(words[0])) {
+    return 'opt_out';
+  }
+  if (words.length === 1 && OPT_IN_KEYWORDS.includes(words[0])) {
+    return 'opt_in';
+  }
+  if (words.length === 1 && HELP_KEYWORDS.includes(words[0])) {
+    return 'help';
+  }
+  return 'none';
+}
+
+export async function handleInboundSms(message: InboundSms): Promise<InboundSmsResult> {
+  const phone = formatPhoneNumber(message.originationNumber);
+  const action = classifyInboundSms(message.messageBody);
+  if (!phone) {
+    return { action, replied: false };
+  }
+
+  const { consentLedger, submissions } = getStorage();
+
+  // The latest screening from this number is what the reply is about, and names the location in our replies
+  const phoneKey = phoneMatchKey(phone);
+  const [latest] = phoneKey ? await submissions.findMatches({ phoneKey }, 1) : [];
+  const log = { submissionId: latest?.id, churchId: latest?.churchId };
+
+  await logInboundSms(phone, message.messageBody, message.inboundMessageId, log);
+  if (action === 'none') {
+    return { action, replied: false };
+  }
+
+  // SNS delivers at least once, so a retried message must not be applied twice
+  if (message.inboundMessageId && action !== 'help') {
+    const records = await consentLedger.listByPhone(phone);
+    if (records.some((record) => record.inboundMessageId === message.inboundMessageId)) {
+      return { action, replied: false, duplicate: true };
+    }
+  }
+
+  const details = {
+    source: 'sms_keyword' as const,
+    keyword: message.messageBody.trim().slice(0, 40),
+    inboundMessageId: message.inboundMessageId,
+    churchId: latest?.churchId,
+  };
+  if (action === 'opt_out') {
+    await optOut(phone, details);
+  } else if (action === 'opt_in') {
+    await optIn(phone, details);
+  }
+
+  // Carriers require these replies even to numbers that just opted out
+  const reply = await smsService.sendTemplateSMS(phone, REPLY_TEMPLATES[action], {
+    churchId: latest?.churchId,
+    locale: latest?.locale,
+    firstName: latest?.firstName,
+  }, { ignoreSuppression: true, log });
+  if (!reply.success) {
+    console.warn(`Failed to reply to inbound ${action} message:`, reply.error);
+  }
+
+  return { action, replied: reply.success };
+}
@@ -0,0 +1,151 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from '@/lib/storage';
+import { SmsLogEntry } from '@/types';
+
+/**
+ * The SMS log: every text sent or received, tied to the screening it is about,
+ * with the delivery status SNS reports for outbound messages.
+ */
+
+/** What a message is about, saved with it in the log */
+export interface SmsLogContext {
+  submissionId?: string;
+  churchId?: string;
+  templateKey?: string;
+  campaignId?: string;
+  /** Email of the admin sending it by hand */
+  sentBy?: string;
+}
+
+export interface OutboundSmsAttempt {
+  phone: string;
+  body: string;
+  /** Set when SNS accepted the message */
+  messageId?: string;
+  /** Set when SNS rejected it */
+  error?: string;
+}
+
+/**
+ * SMS delivery status record as SNS writes it to its delivery status log;
+ * forward the records to the topic that `POST /api/sms/status` subscribes to.
+ */
+export interface SmsDeliveryStatusRecord {
+  notification: {
+    messageId: string;
+    timestamp?: string;
+  };
+  delivery?: {
+    destination?: string;
+    providerResponse?: string;
+  };
+  status: 'SUCCESS' | 'FAILURE';
+}
+
+// DynamoDB rejects undefined attributes, so only set the optional ones that have values
+function contextFields(context: SmsLogContext = {}): Partial<SmsLogEntry> {
+  return Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value)
+  ) as Partial<SmsLogEntry>;
+}
+
+/**
+ * Save a message SNS accepted (as `queued`) or rejected (as `failed`).
+ * A message that was sent must never look unsent, so failing to write the log
+ * entry is reported but not thrown: a campaign would otherwise text the person again.
+ */
+export async function logOutboundSms(attempt: OutboundSmsAttempt, context?: SmsLogContext): Promise<void> {
+  const now = new Date().toISOString();
+  const entry: SmsLogEntry = {
+    id: attempt.messageId || uuidv4(),
+    direction: 'outbound',
+    status: attempt.messageId ? 'queued' : 'failed',
+    phone: attempt.phone,
+    body: attempt.body,
+    ...contextFields(context),
+    ...(attempt.error && { error: attempt.error }),
+    sentAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await getStorage().smsLog.create(entry);
+  } catch (error) {
+    console.error(`Failed to log outbound SMS ${entry.id}:`, error);
+  }
+}
+
+/**
+ * Save a reply from a participant. SNS delivers at least once, so a message
+ * already logged under its inbound message id is not logged again.
+ */
+export async function logInboundSms(
+  phone: string,
+  body: string,
+  inboundMessageId: string | undefined,
+  context?: SmsLogContext
+): Promise<void> {
+  const { smsLog } = getStorage();
+  const now = new Date().toISOString();
+  const entry: SmsLogEntry = {
+    id: inboundMessageId || uuidv4(),
+    direction: 'inbound',
+    status: 'received',
+    phone,
+    body,
+    ...contextFields(context),
+    sentAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    if (inboundMessageId && await smsLog.get(inboundMessageId)) {
+      return;
+    }
+    await smsLog.create(entry);
+  } catch (error) {
+    console.error(`Failed to log inbound SMS ${entry.id}:`, error);
+  }
+}
+
+export function parseDeliveryStatus(message: string): SmsDeliveryStatusRecord | null {
+  try {
+    const record = JSON.parse(message);
+    if (
+      typeof record?.notification?.messageId === 'string' &&
+      (record.status === 'SUCCESS' || record.status === 'FAILURE')
+    ) {
+      return record as SmsDeliveryStatusRecord;
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+// SNS writes `2024-05-01 14:03:22.123` in UTC
+function toIsoTimestamp(timestamp: string | undefined): string {
+  const date = timestamp ? new Date(`${timestamp.replace(' ', 'T')}Z`) : new Date(NaN);
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+/**
+ * Mark the logged message as delivered or failed. Returns null when the
+ * message is not in the log, e.g. one sent before the log existed.
+ */
+export async function applyDeliveryStatus(record: SmsDeliveryStatusRecord): Promise<SmsLogEntry | null> {
+  const { smsLog } = getStorage();
+  const entry = await smsLog.get(record.notification.messageId);
+  if (!entry || entry.direction !== 'outbound') {
+    return null;
+  }
+
+  const reportedAt = toIsoTimestamp(record.notification.timestamp);
+  const providerResponse = record.delivery?.providerResponse;
+  return smsLog.update(entry.id, {
+    status: record.status === 'SUCCESS' ? 'delivered' : 'failed',
+    ...(record.status === 'SUCCESS' && { deliveredAt: reportedAt }),
+    ...(providerResponse && { providerResponse }),
+    updatedAt: new Date().toISOString(),
+  });
+}
@@ -1,5 +1,8 @@
 import { PublishCommand, SetSMSAttributesCommand } from '@aws-sdk/client-sns';
 import { snsClient } from './aws-config';
+import { isSuppressed } from './consent/ledger';
+import { logOutboundSms, SmsLogContext } from './sms-log';
+import { renderSmsMessage, SmsRenderContext } from './sms-templates/resolve';
 
 export interface SMSMessage {
   phoneNumber: string;
@@ -11,6 +14,40 @@ export interface SMSResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  /** Not sent because the number opted out */
+  suppressed?: boolean;
+}
+
+export interface SendOptions {
+  /** Only for the replies to STOP and HELP, which carriers require even after an opt-out */
+  ignoreSuppression?: boolean;
+  /** Saved with the message in the SMS log */
+  log?: SmsLogContext;
+}
+
+/**
+ * Format phone number to E.164 format, or null when it cannot be a valid number
+ */
+export function formatPhoneNumber(phoneNumber: string): string | null {
+  // Remove all non-digit characters
+  const digits = phoneNumber.replace(/\D/g, '');
+  
+  // Handle US phone numbers
+  if (digits.length === 10) {
+    return `+1${digits}`;
+  }
+  
+  // Handle international numbers with country code
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return `+${digits}`;
+  }
+  
+  // Handle other international numbers
+  if (digits.length > 11) {
+    return `+${digits}`;
+  }
+  
+  return null;
 }
 
 export class SMSService {
@@ -25,7 +62,7 @@ export class SMSService {
   /**
    * Send SMS message using AWS SNS
    */
-  async sendSMS(message: SMSMessage): Promise<SMSResult> {
+  async sendSMS(message: SMSMessage, options: SendOptions = {}): Promise<SMSResult> {
     if (!this.enabled) {
       console.log('SMS service is disabled');
       return { success: false, error: 'SMS service is disabled' };
@@ -33,11 +70,17 @@ export class SMSService {
 
     try {
       // Validate phone number format
-      const phoneNumber = this.formatPhoneNumber(message.phoneNumber);
+      const phoneNumber = formatPhoneNumber(message.phoneNumber);
       if (!phoneNumber) {
         return { success: false, error: 'Invalid phone number format' };
       }
 
+      // Numbers that replied STOP are never texted again until they reply START
+      if (!options.ignoreSuppression && await isSuppressed(phoneNumber)) {
+        console.log('SMS not sent: recipient has opted out');
+        return { success: false, suppressed: true, error: 'Recipient has opted out of SMS' };
+      }
+
       // Set SMS attributes for better delivery
       await this.setSMSAttributes();
 
@@ -57,9 +100,24 @@ export class SMSService {
         },
       });
 
-      const result = await snsClient.send(publishCommand);
+      let result;
+      try {
+        result = await snsClient.send(publishCommand);
+      } catch (error) {
+        await logOutboundSms({
+          phone: phoneNumber,
+          body: message.message,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, options.log);
+        throw error;
+      }
       
       console.log('SMS sent successfully:', result.MessageId);
+      await logOutboundSms({
+        phone: phoneNumber,
+        body: message.message,
+        messageId: result.MessageId,
+      }, options.log);
       
       return {
         success: true,
@@ -75,64 +133,23 @@ export class SMSService {
   }
 
   /**
-   * Send test SMS
-   */
-  async sendTestSMS(phoneNumber: string): Promise<SMSResult> {
-    const message = 'Test message from your health screening system. Reply STOP to opt out.';
-    
-    return this.sendSMS({
-      phoneNumber,
-      message,
-    });
-  }
-
-  /**
-   * Send welcome SMS after form submission
+   * Render a stored template (or its built-in default) for the recipient and send it
    */
-  async sendWelcomeSMS(phoneNumber: string, firstName: string): Promise<SMSResult> {
-    const message = `Hi ${firstName}! Thank you for completing your health screening. We'll be in touch with your results and next steps. Reply STOP to opt out.`;
-    
-    return this.sendSMS({
-      phoneNumber,
-      message,
-    });
-  }
+  async sendTemplateSMS(
+    phoneNumber: string,
+    templateKey: string,
+    context: SmsRenderContext = {},
+    options: SendOptions = {}
+  ): Promise<SMSResult> {
+    const message = await renderSmsMessage(templateKey, context);
+    if (!message) {
+      return { success: false, error: `No SMS template found for "${templateKey}"` };
+    }
 
-  /**
-   * Send follow-up reminder SMS
-   */
-  async sendFollowUpSMS(phoneNumber: string, firstName: string): Promise<SMSResult> {
-    const message = `Hi ${firstName}! This is a friendly reminder about your health screening follow-up. Please contact us to schedule your next appointment. Reply STOP to opt out.`;
-    
     return this.sendSMS({
       phoneNumber,
       message,
-    });
-  }
-
-  /**
-   * Format phone number to E.164 format
-   */
-  private formatPhoneNumber(phoneNumber: string): string | null {
-    // Remove all non-digit characters
-    const digits = phoneNumber.replace(/\D/g, '');
-    
-    // Handle US phone numbers
-    if (digits.length === 10) {
-      return `+1${digits}`;
-    }
-    
-    // Handle international numbers with country code
-    if (digits.length === 11 && digits.startsWith('1')) {
-      return `+${digits}`;
-    }
-    
-    // Handle other international numbers
-    if (digits.length > 11) {
-      return `+${digits}`;
-    }
-    
-    return null;
+    }, { ...options, log: { ...options.log, templateKey } });
   }
 
   /**
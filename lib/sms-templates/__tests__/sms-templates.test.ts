@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countSmsSegments,
+  DEFAULT_SMS_TEMPLATES,
+  findUnknownVariables,
+  renderSmsTemplate,
+  selectSmsTemplate,
+  withOptOutNotice,
+} from '@/lib/sms-templates';
+import { SmsTemplate } from '@/types';
+
+describe('countSmsSegments', () => {
+  it('fits 160 GSM-7 characters in one segment and splits longer text at 153', () => {
+    expect(countSmsSegments('')).toMatchObject({ encoding: 'GSM-7', segments: 0, remaining: 160 });
+    expect(countSmsSegments('a'.repeat(160))).toMatchObject({ encoding: 'GSM-7', length: 160, segments: 1, remaining: 0 });
+    expect(countSmsSegments('a'.repeat(161))).toMatchObject({ segments: 2, perSegment: 153, remaining: 145 });
+    expect(countSmsSegments('a'.repeat(307))).toMatchObject({ segments: 3 });
+  });
+
+  it('counts GSM-7 extension characters twice', () => {
+    expect(countSmsSegments('€{}')).toMatchObject({ encoding: 'GSM-7', length: 6 });
+    expect(countSmsSegments(`${'a'.repeat(159)}€`)).toMatchObject({ length: 161, segments: 2 });
+  });
+
+  it('keeps accented letters from the GSM alphabet in GSM-7', () => {
+    expect(countSmsSegments('¡Hola Niño! ¿Qué tal? àèéìòù').encoding).toBe('GSM-7');
+    // ó is not in the GSM alphabet, only ò
+    expect(countSmsSegments('Evaluación').encoding).toBe('UCS-2');
+  });
+
+  it('switches the whole message to UCS-2 at 70 (67) characters', () => {
+    expect(countSmsSegments(`${'a'.repeat(69)}’`)).toMatchObject({ encoding: 'UCS-2', length: 70, segments: 1, remaining: 0 });
+    expect(countSmsSegments(`${'a'.repeat(70)}’`)).toMatchObject({ segments: 2, perSegment: 67, remaining: 63 });
+  });
+
+  it('counts emoji as two UTF-16 code units', () => {
+    expect(countSmsSegments('Hi 👋')).toMatchObject({ encoding: 'UCS-2', length: 5 });
+  });
+});
+
+describe('renderSmsTemplate', () => {
+  it('fills in variables and falls back in the template language', () => {
+    expect(renderSmsTemplate('Hi {{ firstName }} from {{locationName}}', { firstName: 'Ana' }))
+      .toBe('Hi Ana from our outreach team');
+    expect(renderSmsTemplate('Hola {{firstName}}', { firstName: '  ' }, 'es-MX')).toBe('Hola participante');
+  });
+
+  it('leaves unknown variables in place and reports them', () => {
+    expect(renderSmsTemplate('Hi {{nickname}}', { firstName: 'Ana' })).toBe('Hi {{nickname}}');
+    expect(findUnknownVariables('{{firstName}} {{nickname}} {{nickname}} {{ zip }}')).toEqual(['nickname', 'zip']);
+  });
+});
+
+describe('selectSmsTemplate', () => {
+  const stored = (overrides: Partial<SmsTemplate>): SmsTemplate => ({
+    id: `${overrides.key}-${overrides.locale}-${overrides.churchId || 'all'}`,
+    key: 'welcome',
+    name: 'Welcome message',
+    locale: 'en',
+    body: 'stored',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  it('prefers the language, then the location override, then the shared template', () => {
+    const templates = [
+      stored({ body: 'shared en' }),
+      stored({ body: 'church-1 en', churchId: 'church-1' }),
+      stored({ body: 'shared es', locale: 'es' }),
+    ];
+
+    expect(selectSmsTemplate(templates, 'welcome', { churchId: 'church-1' })?.body).toBe('church-1 en');
+    expect(selectSmsTemplate(templates, 'welcome', { churchId: 'church-2' })?.body).toBe('shared en');
+    expect(selectSmsTemplate(templates, 'welcome', { churchId: 'church-1', locale: 'es-MX' })?.body).toBe('shared es');
+  });
+
+  it('falls back to the built-in template and then to the default language', () => {
+    const spanishDefault = DEFAULT_SMS_TEMPLATES.find((template) => template.key === 'followup' && template.locale === 'es');
+
+    expect(selectSmsTemplate([], 'followup', { locale: 'es' })).toBe(spanishDefault);
+    expect(selectSmsTemplate([], 'followup', { locale: 'fr' })?.locale).toBe('en');
+    expect(selectSmsTemplate([], 'missing')).toBeNull();
+  });
+});
+
+describe('withOptOutNotice', () => {
+  it('adds the notice only when the message does not mention STOP', () => {
+    expect(withOptOutNotice(' See you Sunday ')).toBe('See you Sunday Reply STOP to opt out.');
+    expect(withOptOutNotice('Text stop to unsubscribe')).toBe('Text stop to unsubscribe');
+  });
+});
@@ -0,0 +1,190 @@
+import { riskLevelLabel } from '@/lib/i18n';
+import { SmsTemplate } from '@/types';
+import { SmsTemplateDefault, SmsTemplateVariable, SmsTemplateVariables } from './types';
+
+export * from './types';
+export { countSmsSegments } from './segments';
+
+export const DEFAULT_SMS_LOCALE = 'en';
+
+/** Longest template body accepted, about four GSM-7 segments */
+export const SMS_TEMPLATE_MAX_LENGTH = 600;
+
+export const SMS_TEMPLATE_VARIABLES: SmsTemplateVariable[] = ['firstName', 'locationName', 'riskLevel'];
+
+// Used when the recipient's value is unknown, e.g. a custom phone number or an unscored screening
+const VARIABLE_FALLBACKS: Record<string, Record<SmsTemplateVariable, string>> = {
+  en: {
+    firstName: 'there',
+    locationName: 'our outreach team',
+    riskLevel: 'pending',
+  },
+  es: {
+    firstName: 'participante',
+    locationName: 'nuestro equipo de alcance',
+    riskLevel: 'pendiente',
+  },
+};
+
+/**
+ * Built-in templates. The `welcome` and `followup` keys match the SMS
+ * `messageType` values, so storing a template with one of these keys
+ * changes what that message type sends. `help`, `opt-out` and `opt-in`
+ * answer HELP, STOP and START replies.
+ */
+export const DEFAULT_SMS_TEMPLATES: SmsTemplateDefault[] = [
+  {
+    key: 'welcome',
+    name: 'Welcome message',
+    locale: DEFAULT_SMS_LOCALE,
+    body: "Hi {{firstName}}! Thank you for completing your health screening. We'll be in touch with your results and next steps. Reply STOP to opt out.",
+  },
+  {
+    key: 'followup',
+    name: 'Follow-up reminder',
+    locale: DEFAULT_SMS_LOCALE,
+    body: 'Hi {{firstName}}! This is a friendly reminder about your health screening follow-up. Please contact us to schedule your next appointment. Reply STOP to opt out.',
+  },
+  {
+    key: 'test',
+    name: 'Service test',
+    locale: DEFAULT_SMS_LOCALE,
+    body: 'Test message from your health screening system. Reply STOP to opt out.',
+  },
+  // Replies to inbound keywords
+  {
+    key: 'help',
+    name: 'HELP reply',
+    locale: DEFAULT_SMS_LOCALE,
+    body: 'Health screening messages from {{locationName}}. For help, contact the outreach team that screened you. Msg & data rates may apply. Reply STOP to opt out.',
+  },
+  {
+    key: 'opt-out',
+    name: 'STOP confirmation',
+    locale: DEFAULT_SMS_LOCALE,
+    body: 'You have been unsubscribed from health screening messages and will receive no more texts. Reply START to resubscribe.',
+  },
+  {
+    key: 'opt-in',
+    name: 'START confirmation',
+    locale: DEFAULT_SMS_LOCALE,
+    body: 'You are subscribed to health screening messages again. Msg & data rates may apply. Reply HELP for help, STOP to opt out.',
+  },
+  // Spanish, for participants who filled in the form in Spanish
+  {
+    key: 'welcome',
+    name: 'Welcome message',
+    locale: 'es',
+    body: '¡Hola {{firstName}}! Gracias por completar su evaluación de salud. Nos comunicaremos con usted con sus resultados y los próximos pasos. Responda STOP para cancelar.',
+  },
+  {
+    key: 'followup',
+    name: 'Follow-up reminder',
+    locale: 'es',
+    body: '¡Hola {{firstName}}! Le recordamos el seguimiento de su evaluación de salud. Comuníquese con nosotros para programar su próxima cita. Responda STOP para cancelar.',
+  },
+  {
+    key: 'test',
+    name: 'Service test',
+    locale: 'es',
+    body: 'Mensaje de prueba de su sistema de evaluaciones de salud. Responda STOP para cancelar.',
+  },
+  {
+    key: 'help',
+    name: 'HELP reply',
+    locale: 'es',
+    body: 'Mensajes de evaluación de salud de {{locationName}}. Para obtener ayuda, comuníquese con el equipo que le hizo la evaluación. Pueden aplicarse tarifas de mensajes y datos. Responda STOP para cancelar.',
+  },
+  {
+    key: 'opt-out',
+    name: 'STOP confirmation',
+    locale: 'es',
+    body: 'Se canceló su suscripción a los mensajes de evaluación de salud y no recibirá más textos. Responda START para volver a suscribirse.',
+  },
+  {
+    key: 'opt-in',
+    name: 'START confirmation',
+    locale: 'es',
+    body: 'Está suscrito de nuevo a los mensajes de evaluación de salud. Pueden aplicarse tarifas de mensajes y datos. Responda AYUDA para obtener ayuda o STOP para cancelar.',
+  },
+];
+
+/** Templates that answer inbound keywords; they are never sent on their own */
+export const SMS_REPLY_TEMPLATE_KEYS = ['help', 'opt-out', 'opt-in'];
+
+export const SMS_OPT_OUT_NOTICE = 'Reply STOP to opt out.';
+
+/** Add the opt-out notice to a hand-written message that does not mention STOP */
+export function withOptOutNotice(message: string): string {
+  const trimmed = message.trim();
+  return /\bSTOP\b/i.test(trimmed) ? trimmed : `${trimmed} ${SMS_OPT_OUT_NOTICE}`;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Variable names used in a template body that are not supported */
+export function findUnknownVariables(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of Array.from(body.matchAll(VARIABLE_PATTERN))) {
+    if (!SMS_TEMPLATE_VARIABLES.includes(match[1] as SmsTemplateVariable)) {
+      unknown.add(match[1]);
+    }
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Fill in a template's variables. `locale` is the template's language; it
+ * picks the fallback wording and how the risk level reads.
+ */
+export function renderSmsTemplate(body: string, variables: SmsTemplateVariables, locale: string = DEFAULT_SMS_LOCALE): string {
+  const fallbacks = VARIABLE_FALLBACKS[locale.split('-')[0]] || VARIABLE_FALLBACKS[DEFAULT_SMS_LOCALE];
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!SMS_TEMPLATE_VARIABLES.includes(name as SmsTemplateVariable)) {
+      return placeholder;
+    }
+    const variable = name as SmsTemplateVariable;
+    const value = variables[variable]?.trim();
+    if (!value) {
+      return fallbacks[variable];
+    }
+    return variable === 'riskLevel' ? riskLevelLabel(value, locale) : value;
+  });
+}
+
+// `es-MX` falls back to `es`, then to the default language
+function localeCandidates(locale?: string): string[] {
+  const candidates = [locale, locale?.split('-')[0], DEFAULT_SMS_LOCALE].filter(Boolean) as string[];
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Pick the template to send for `key`. Language comes first, so a participant
+ * who reads Spanish gets the shared Spanish template over a location's English
+ * one; within a language, the location's override wins over the template for
+ * every location, which wins over the built-in default.
+ */
+export function selectSmsTemplate(
+  templates: SmsTemplate[],
+  key: string,
+  options: { churchId?: string; locale?: string } = {}
+): SmsTemplate | SmsTemplateDefault | null {
+  const scopes = options.churchId ? [options.churchId, undefined] : [undefined];
+
+  for (const locale of localeCandidates(options.locale)) {
+    for (const churchId of scopes) {
+      const match = templates.find((template) =>
+        template.key === key && template.locale === locale && (template.churchId || undefined) === churchId
+      );
+      if (match) {
+        return match;
+      }
+    }
+
+    const fallback = DEFAULT_SMS_TEMPLATES.find((template) => template.key === key && template.locale === locale);
+    if (fallback) {
+      return fallback;
+    }
+  }
+  return null;
+}
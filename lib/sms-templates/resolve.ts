@@ -0,0 +1,29 @@
+import { getStorage } from '@/lib/storage';
+import { renderSmsTemplate, selectSmsTemplate } from './index';
+
+export interface SmsRenderContext {
+  churchId?: string;
+  locale?: string;
+  firstName?: string;
+  riskLevel?: string;
+}
+
+/**
+ * Render the template for `key` for one recipient, filling in the location
+ * name from the outreach location. Returns null when no template has that key.
+ */
+export async function renderSmsMessage(key: string, context: SmsRenderContext = {}): Promise<string | null> {
+  const { smsTemplates, locations } = getStorage();
+
+  const template = selectSmsTemplate(await smsTemplates.list(), key, context);
+  if (!template) {
+    return null;
+  }
+
+  const location = context.churchId ? await locations.get(context.churchId) : null;
+  return renderSmsTemplate(template.body, {
+    firstName: context.firstName,
+    locationName: location?.name,
+    riskLevel: context.riskLevel,
+  }, template.locale);
+}
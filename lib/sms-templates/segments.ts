@@ -0,0 +1,62 @@
+import { SmsSegmentInfo } from './types';
+
+// GSM 03.38 basic character set (the escape character is left out)
+const GSM_BASIC = new Set(
+  Array.from(
+    '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+  )
+);
+
+// Extension table characters, sent as an escape plus the character
+const GSM_EXTENSION = new Set(Array.from('^{}\\[~]|€\f'));
+
+const LIMITS = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+} as const;
+
+/**
+ * Count the segments a message is billed as. Text that fits the GSM-7 alphabet
+ * is sent 160 characters to a segment (153 when split); anything else,
+ * such as emoji or curly quotes, switches the whole message to UCS-2 at 70 (67).
+ */
+export function countSmsSegments(text: string): SmsSegmentInfo {
+  let gsmLength = 0;
+  let isGsm = true;
+
+  for (const char of Array.from(text)) {
+    if (GSM_BASIC.has(char)) {
+      gsmLength += 1;
+    } else if (GSM_EXTENSION.has(char)) {
+      gsmLength += 2;
+    } else {
+      isGsm = false;
+      break;
+    }
+  }
+
+  const encoding = isGsm ? 'GSM-7' : 'UCS-2';
+  // UCS-2 limits are in UTF-16 code units, so emoji take two
+  const length = isGsm ? gsmLength : text.length;
+  const limits = LIMITS[encoding];
+
+  if (length <= limits.single) {
+    return {
+      encoding,
+      length,
+      segments: length === 0 ? 0 : 1,
+      perSegment: limits.single,
+      remaining: limits.single - length,
+    };
+  }
+
+  const segments = Math.ceil(length / limits.multipart);
+  return {
+    encoding,
+    length,
+    segments,
+    perSegment: limits.multipart,
+    remaining: segments * limits.multipart - length,
+  };
+}
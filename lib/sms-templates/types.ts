@@ -0,0 +1,21 @@
+import { SmsTemplate } from '@/types';
+
+export type SmsTemplateVariable = 'firstName' | 'locationName' | 'riskLevel';
+
+export type SmsTemplateVariables = Partial<Record<SmsTemplateVariable, string>>;
+
+/** Built-in template used when nothing is stored for a key */
+export type SmsTemplateDefault = Pick<SmsTemplate, 'key' | 'name' | 'locale' | 'body'>;
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  /** Characters counted against the limit; GSM-7 extension characters count twice */
+  length: number;
+  segments: number;
+  /** Characters per segment at the current length */
+  perSegment: number;
+  /** Characters left before another segment is needed */
+  remaining: number;
+}
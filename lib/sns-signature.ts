@@ -0,0 +1,109 @@
+import { createVerify } from 'crypto';
+
+/**
+ * Verification of messages Amazon SNS posts to HTTPS subscriptions.
+ * See https://docs.aws.amazon.com/sns/latest/dg/sns-verify-signature-of-message.html
+ */
+
+export interface SnsMessage {
+  Type: 'Notification' | 'SubscriptionConfirmation' | 'UnsubscribeConfirmation';
+  MessageId: string;
+  TopicArn: string;
+  Message: string;
+  Timestamp: string;
+  SignatureVersion: string;
+  Signature: string;
+  SigningCertURL: string;
+  Subject?: string;
+  Token?: string;
+  SubscribeURL?: string;
+}
+
+// Signed fields in the order SNS builds the string to sign
+const NOTIFICATION_FIELDS: (keyof SnsMessage)[] = ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'];
+const SUBSCRIPTION_FIELDS: (keyof SnsMessage)[] = ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+
+const CERT_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+// Signing certificates rarely change, so each one is fetched once per instance
+const certificates = new Map<string, Promise<string>>();
+
+function isSigningCertUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && CERT_HOST_PATTERN.test(url.hostname) && url.pathname.endsWith('.pem');
+  } catch {
+    return false;
+  }
+}
+
+function fetchCertificate(url: string): Promise<string> {
+  let certificate = certificates.get(url);
+  if (!certificate) {
+    certificate = fetch(url).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to fetch SNS signing certificate: ${response.status}`);
+      }
+      return response.text();
+    });
+    // Forget failures so the next message can try again
+    certificate.catch(() => certificates.delete(url));
+    certificates.set(url, certificate);
+  }
+  return certificate;
+}
+
+function stringToSign(message: SnsMessage): string {
+  const fields = message.Type === 'Notification' ? NOTIFICATION_FIELDS : SUBSCRIPTION_FIELDS;
+  return fields
+    .filter((field) => message[field] !== undefined)
+    .map((field) => `${field}\n${message[field]}\n`)
+    .join('');
+}
+
+/** Parse a request body as an SNS message, or null when it is not one */
+export function parseSnsMessage(body: unknown): SnsMessage | null {
+  let value = body;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  const message = value as Partial<SnsMessage> | null;
+  if (
+    !message ||
+    typeof message.Type !== 'string' ||
+    typeof message.Message !== 'string' ||
+    typeof message.Signature !== 'string' ||
+    typeof message.SigningCertURL !== 'string' ||
+    typeof message.TopicArn !== 'string'
+  ) {
+    return null;
+  }
+  return message as SnsMessage;
+}
+
+/**
+ * Check the message was signed by SNS. The signing certificate must be
+ * served over HTTPS from an SNS endpoint, so a forged message cannot point
+ * at a certificate of its own.
+ */
+export async function verifySnsMessage(message: SnsMessage): Promise<boolean> {
+  const algorithm = message.SignatureVersion === '2' ? 'RSA-SHA256' : message.SignatureVersion === '1' ? 'RSA-SHA1' : null;
+  if (!algorithm || !isSigningCertUrl(message.SigningCertURL)) {
+    return false;
+  }
+
+  try {
+    const certificate = await fetchCertificate(message.SigningCertURL);
+    return createVerify(algorithm)
+      .update(stringToSign(message), 'utf8')
+      .verify(certificate, message.Signature, 'base64');
+  } catch (error) {
+    console.error('SNS signature verification failed:', error);
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { parseSnsMessage, SnsMessage, verifySnsMessage } from '@/lib/sns-signature';
+
+/**
+ * Accept a request to an HTTPS subscription for the SNS topic `topicArn`.
+ * Only signed messages from that topic are accepted, and the endpoint is
+ * reported as missing while the topic is unset. Subscription confirmations
+ * are answered here. Returns the notification to process, or null once a
+ * response is sent.
+ */
+export async function receiveSnsNotification(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  topicArn: string | undefined
+): Promise<SnsMessage | null> {
+  if (!topicArn) {
+    res.status(404).json({ success: false, error: 'Not found' });
+    return null;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return null;
+  }
+
+  // SNS posts JSON with a text/plain content type, so the body may arrive as a string
+  const message = parseSnsMessage(req.body);
+  if (!message) {
+    res.status(400).json({ success: false, error: 'Invalid SNS message' });
+    return null;
+  }
+  if (message.TopicArn !== topicArn || !(await verifySnsMessage(message))) {
+    res.status(403).json({ success: false, error: 'Forbidden' });
+    return null;
+  }
+
+  if (message.Type === 'Notification') {
+    return message;
+  }
+
+  if (message.Type === 'SubscriptionConfirmation') {
+    try {
+      const response = await fetch(message.SubscribeURL || '');
+      if (!response.ok) {
+        throw new Error(`Subscription confirmation failed: ${response.status}`);
+      }
+      console.log(`Confirmed SNS subscription to ${message.TopicArn}`);
+      res.status(200).json({ success: true, data: null, message: 'Subscription confirmed' });
+    } catch (error) {
+      // A 5xx makes SNS send the confirmation again later
+      console.error('SNS subscription confirmation error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+    return null;
+  }
+
+  res.status(200).json({ success: true, data: null });
+  return null;
+}
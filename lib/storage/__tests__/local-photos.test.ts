@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { verifyPhotoLink } from '@/lib/photo-links';
+import { getStorage } from '@/lib/storage';
+
+const key = 'submissions/submission-1/1700000000000-selfie.png';
+
+describe('local photo storage', () => {
+  const { photos } = getStorage();
+
+  it('stores photos without AWS and records the bare key', async () => {
+    const url = await photos.put(key, Buffer.from('png bytes'), 'image/png', { submissionId: 'submission-1' });
+
+    expect(url).toBe(key);
+    expect(photos.keyFromUrl(url)).toBe(key);
+    expect(await photos.get(key)).toEqual({ body: Buffer.from('png bytes'), contentType: 'image/png' });
+    expect(await photos.head(key)).toMatchObject({ contentType: 'image/png', size: 9 });
+  });
+
+  it('reports missing photos as null', async () => {
+    expect(await photos.get('submissions/missing/photo.jpg')).toBeNull();
+    expect(await photos.head('submissions/missing/photo.jpg')).toBeNull();
+  });
+
+  it('deletes photos', async () => {
+    const deletedKey = 'submissions/submission-2/photo.jpg';
+    await photos.put(deletedKey, Buffer.from('jpeg bytes'), 'image/jpeg');
+
+    await photos.delete(deletedKey);
+
+    expect(await photos.get(deletedKey)).toBeNull();
+  });
+
+  it('never reads outside the photo folder', async () => {
+    expect(photos.keyFromUrl('submissions/../../users.json')).toBeNull();
+    expect(photos.keyFromUrl('https://bucket.s3.amazonaws.com/submissions/a/b.jpg')).toBeNull();
+    await expect(photos.get('../users.json')).rejects.toThrow('Invalid photo key');
+  });
+
+  it('hands out signed, expiring view links', async () => {
+    const link = new URL(await photos.getViewUrl(key, 60), 'http://localhost');
+    const expires = link.searchParams.get('expires')!;
+    const signature = link.searchParams.get('signature')!;
+
+    expect(link.pathname).toBe('/api/photos/view');
+    expect(verifyPhotoLink(key, expires, signature)).toBe(true);
+    expect(verifyPhotoLink('submissions/other/photo.jpg', expires, signature)).toBe(false);
+    expect(verifyPhotoLink(key, String(Number(expires) + 60), signature)).toBe(false);
+    expect(verifyPhotoLink(key, String(Math.floor(Date.now() / 1000) - 1), signature)).toBe(false);
+  });
+});
@@ -0,0 +1,1193 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  QueryCommandInput,
+  ScanCommand,
+  ScanCommandInput,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { docClient, TABLES, INDEXES } from '@/lib/aws-config';
+import { s3Photos } from './s3-photos';
+import {
+  AdminSession,
+  AdminUser,
+  AnalysisJob,
+  AuditEvent,
+  ConsentRecord,
+  EmailSuppression,
+  HealthSubmission,
+  LocationFormVersion,
+  OutreachLocation,
+  Participant,
+  SmsCampaign,
+  SmsCampaignRecipient,
+  SmsLogEntry,
+  SmsSuppression,
+  SmsTemplate,
+  SubmissionIdempotencyKey,
+} from '@/types';
+import {
+  AnalysisJobsRepository,
+  AuditLogListOptions,
+  AuditLogRepository,
+  ConsentLedgerRepository,
+  EmailSuppressionsRepository,
+  FormVersionsRepository,
+  IdempotencyKeysRepository,
+  LocationsRepository,
+  ParticipantsRepository,
+  RollupCounters,
+  RollupsRepository,
+  SessionsRepository,
+  SmsCampaignRecipientsRepository,
+  SmsCampaignsRepository,
+  SmsLogListOptions,
+  SmsLogRepository,
+  SmsSuppressionsRepository,
+  SmsTemplatesRepository,
+  StorageBackend,
+  SubmissionListOptions,
+  SubmissionMatchKeys,
+  SubmissionsRepository,
+  UsersRepository,
+} from './types';
+
+export function isConditionalCheckFailure(error: unknown): boolean {
+  return (error as { name?: string })?.name === 'ConditionalCheckFailedException';
+}
+
+/**
+ * Scan every page of a table. Only used for small tables (locations, users).
+ */
+async function scanAll<T>(input: ScanCommandInput): Promise<T[]> {
+  const items: T[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      ...input,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+    items.push(...((result.Items || []) as T[]));
+    exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
+/**
+ * Build a SET update expression from the defined keys of a partial record,
+ * with a REMOVE clause for the `removeFields` that are not being set
+ */
+function buildUpdateInput(
+  tableName: string,
+  id: string,
+  updates: Record<string, unknown>,
+  extraCondition?: { expression: string; values: Record<string, unknown> },
+  removeFields: string[] = []
+) {
+  const setExpressions: string[] = [];
+  const removeExpressions: string[] = [];
+  const expressionAttributeNames: Record<string, string> = {};
+  const expressionAttributeValues: Record<string, unknown> = {};
+
+  Object.entries(updates).forEach(([field, value]) => {
+    if (field === 'id' || value === undefined) return;
+    expressionAttributeNames[`#${field}`] = field;
+    expressionAttributeValues[`:${field}`] = value;
+    setExpressions.push(`#${field} = :${field}`);
+  });
+
+  removeFields.forEach((field) => {
+    if (field === 'id' || updates[field] !== undefined) return;
+    expressionAttributeNames[`#${field}`] = field;
+    removeExpressions.push(`#${field}`);
+  });
+
+  if (setExpressions.length === 0 && removeExpressions.length === 0) {
+    return null;
+  }
+
+  const updateExpression = [
+    setExpressions.length > 0 ? `SET ${setExpressions.join(', ')}` : '',
+    removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+  ].filter(Boolean).join(' ');
+  const values = { ...expressionAttributeValues, ...(extraCondition?.values || {}) };
+
+  return {
+    TableName: tableName,
+    Key: { id },
+    UpdateExpression: updateExpression,
+    ExpressionAttributeNames: expressionAttributeNames,
+    // DynamoDB rejects an empty value map, which a REMOVE-only update would have
+    ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+    ConditionExpression: extraCondition
+      ? `attribute_exists(id) AND ${extraCondition.expression}`
+      : 'attribute_exists(id)',
+    ReturnValues: 'ALL_NEW' as const,
+  };
+}
+
+async function getItem<T>(tableName: string, id: string): Promise<T | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: tableName,
+    Key: { id },
+  }));
+  return (result.Item || null) as T | null;
+}
+
+async function updateItem<T>(
+  tableName: string,
+  id: string,
+  updates: Record<string, unknown>,
+  extraCondition?: { expression: string; values: Record<string, unknown> },
+  removeFields?: string[]
+): Promise<T | null> {
+  const input = buildUpdateInput(tableName, id, updates, extraCondition, removeFields);
+  if (!input) {
+    return getItem<T>(tableName, id);
+  }
+
+  try {
+    const result = await docClient.send(new UpdateCommand(input));
+    return (result.Attributes || null) as T | null;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function deleteItem(tableName: string, id: string): Promise<boolean> {
+  try {
+    await docClient.send(new DeleteCommand({
+      TableName: tableName,
+      Key: { id },
+      ConditionExpression: 'attribute_exists(id)',
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Sparse indexes keyed by each match key, sorted by submissionDate
+const MATCH_KEY_INDEXES: Record<keyof SubmissionMatchKeys, string> = {
+  submissionFingerprint: INDEXES.SUBMISSIONS_BY_FINGERPRINT,
+  phoneKey: INDEXES.SUBMISSIONS_BY_PHONE,
+  identityKey: INDEXES.SUBMISSIONS_BY_IDENTITY,
+};
+
+function hasChurchAndDateFilters(options: SubmissionListOptions): boolean {
+  return Boolean(options.churchId && (options.startDate || options.endDate) && INDEXES.SUBMISSIONS_BY_CHURCH_DATE);
+}
+
+function buildSubmissionsInput(
+  options: SubmissionListOptions
+) {
+  const {
+    churchId,
+    startDate,
+    endDate,
+    riskLevels,
+    followUpStatuses,
+    duplicateStatuses,
+    pageSize,
+    exclusiveStartKey,
+  } = options;
+
+  const filterExpressions: string[] = [];
+  const expressionAttributeValues: Record<string, unknown> = {};
+  const expressionAttributeNames: Record<string, string> = {};
+
+  if (churchId) {
+    expressionAttributeNames['#churchId'] = 'churchId';
+    expressionAttributeValues[':churchId'] = churchId;
+    filterExpressions.push('#churchId = :churchId');
+  }
+
+  if (startDate) {
+    expressionAttributeNames['#submissionDate'] = 'submissionDate';
+    expressionAttributeValues[':startDate'] = startDate;
+    filterExpressions.push('#submissionDate >= :startDate');
+  }
+
+  if (endDate) {
+    expressionAttributeNames['#submissionDate'] = 'submissionDate';
+    expressionAttributeValues[':endDate'] = endDate;
+    filterExpressions.push('#submissionDate <= :endDate');
+  }
+
+  if (riskLevels && riskLevels.length > 0) {
+    expressionAttributeNames['#riskLevel'] = 'healthRiskLevel';
+    const placeholders = riskLevels.map((level, idx) => {
+      const placeholder = `:riskLevel${idx}`;
+      expressionAttributeValues[placeholder] = level;
+      return placeholder;
+    });
+    filterExpressions.push(`#riskLevel IN (${placeholders.join(', ')})`);
+  }
+
+  if (followUpStatuses && followUpStatuses.length > 0) {
+    expressionAttributeNames['#followUpStatus'] = 'followUpStatus';
+    const placeholders = followUpStatuses.map((status, idx) => {
+      const placeholder = `:followUpStatus${idx}`;
+      expressionAttributeValues[placeholder] = status;
+      return placeholder;
+    });
+    filterExpressions.push(`#followUpStatus IN (${placeholders.join(', ')})`);
+  }
+
+  if (duplicateStatuses && duplicateStatuses.length > 0) {
+    expressionAttributeNames['#duplicateStatus'] = 'duplicateStatus';
+    const placeholders = duplicateStatuses.map((status, idx) => {
+      const placeholder = `:duplicateStatus${idx}`;
+      expressionAttributeValues[placeholder] = status;
+      return placeholder;
+    });
+    filterExpressions.push(`#duplicateStatus IN (${placeholders.join(', ')})`);
+  }
+
+  if (hasChurchAndDateFilters(options)) {
+    let keyConditionExpression = '#churchId = :churchId';
+    const keyNames: Record<string, string> = { '#churchId': 'churchId' };
+    const keyValues: Record<string, unknown> = { ':churchId': churchId };
+
+    if (startDate && endDate) {
+      keyConditionExpression += ' AND #submissionDate BETWEEN :startDate AND :endDate';
+      keyNames['#submissionDate'] = 'submissionDate';
+      keyValues[':startDate'] = startDate;
+      keyValues[':endDate'] = endDate;
+    } else if (startDate) {
+      keyConditionExpression += ' AND #submissionDate >= :startDate';
+      keyNames['#submissionDate'] = 'submissionDate';
+      keyValues[':startDate'] = startDate;
+    } else if (endDate) {
+      keyConditionExpression += ' AND #submissionDate <= :endDate';
+      keyNames['#submissionDate'] = 'submissionDate';
+      keyValues[':endDate'] = endDate;
+    }
+
+    const queryParams: QueryCommandInput = {
+      TableName: TABLES.SUBMISSIONS,
+      IndexName: INDEXES.SUBMISSIONS_BY_CHURCH_DATE,
+      KeyConditionExpression: keyConditionExpression,
+      ExpressionAttributeNames: keyNames,
+      ExpressionAttributeValues: keyValues,
+      Limit: pageSize,
+    };
+
+    if (filterExpressions.length > 0) {
+      queryParams.FilterExpression = filterExpressions.join(' AND ');
+      queryParams.ExpressionAttributeNames = { ...keyNames, ...expressionAttributeNames };
+      queryParams.ExpressionAttributeValues = { ...keyValues, ...expressionAttributeValues };
+    }
+
+    if (exclusiveStartKey) {
+      queryParams.ExclusiveStartKey = exclusiveStartKey;
+    }
+
+    return { type: 'Query' as const, params: queryParams };
+  }
+
+  const scanParams: ScanCommandInput = {
+    TableName: TABLES.SUBMISSIONS,
+    Limit: pageSize,
+  };
+
+  if (exclusiveStartKey) {
+    scanParams.ExclusiveStartKey = exclusiveStartKey;
+  }
+
+  if (filterExpressions.length > 0) {
+    scanParams.FilterExpression = filterExpressions.join(' AND ');
+    if (Object.keys(expressionAttributeNames).length > 0) {
+      scanParams.ExpressionAttributeNames = expressionAttributeNames;
+    }
+    if (Object.keys(expressionAttributeValues).length > 0) {
+      scanParams.ExpressionAttributeValues = expressionAttributeValues;
+    }
+  }
+
+  return { type: 'Scan' as const, params: scanParams };
+}
+
+const submissions: SubmissionsRepository = {
+  async create(submission) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.SUBMISSIONS,
+      Item: submission,
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+  },
+
+  get(id) {
+    return getItem<HealthSubmission>(TABLES.SUBMISSIONS, id);
+  },
+
+  async list(options) {
+    const input = buildSubmissionsInput(options);
+    const result = await docClient.send(
+      input.type === 'Query'
+        ? new QueryCommand(input.params)
+        : new ScanCommand(input.params)
+    );
+
+    return {
+      items: (result.Items || []) as HealthSubmission[],
+      lastEvaluatedKey: result.LastEvaluatedKey as Record<string, unknown> | undefined,
+    };
+  },
+
+  update(id, updates, remove) {
+    return updateItem<HealthSubmission>(TABLES.SUBMISSIONS, id, updates, undefined, remove);
+  },
+
+  async existsForChurch(churchId) {
+    // Limit applies before the filter, so keep paging until a match or the end of the table
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: TABLES.SUBMISSIONS,
+        FilterExpression: 'churchId = :cid',
+        ExpressionAttributeValues: { ':cid': churchId },
+        ProjectionExpression: 'id',
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      if (result.Items && result.Items.length > 0) {
+        return true;
+      }
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+    return false;
+  },
+
+  async findMatches(keys, limit) {
+    const lookups = (Object.keys(MATCH_KEY_INDEXES) as (keyof SubmissionMatchKeys)[])
+      .filter((key) => keys[key])
+      .map(async (key) => {
+        const result = await docClient.send(new QueryCommand({
+          TableName: TABLES.SUBMISSIONS,
+          IndexName: MATCH_KEY_INDEXES[key],
+          KeyConditionExpression: '#key = :value',
+          ExpressionAttributeNames: { '#key': key },
+          ExpressionAttributeValues: { ':value': keys[key] },
+          ScanIndexForward: false,
+          Limit: limit,
+        }));
+        return (result.Items || []) as HealthSubmission[];
+      });
+
+    const byId = new Map<string, HealthSubmission>();
+    (await Promise.all(lookups)).flat().forEach((submission) => byId.set(submission.id, submission));
+
+    return Array.from(byId.values())
+      .sort((a, b) => b.submissionDate.localeCompare(a.submissionDate))
+      .slice(0, limit);
+  },
+
+  async listByParticipant(participantId) {
+    const items: HealthSubmission[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.SUBMISSIONS,
+        IndexName: INDEXES.SUBMISSIONS_BY_PARTICIPANT,
+        KeyConditionExpression: 'participantId = :participantId',
+        ExpressionAttributeValues: { ':participantId': participantId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      items.push(...((result.Items || []) as HealthSubmission[]));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+
+    return items;
+  },
+};
+
+const participants: ParticipantsRepository = {
+  get(id) {
+    return getItem<Participant>(TABLES.PARTICIPANTS, id);
+  },
+
+  async create(participant) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.PARTICIPANTS,
+      Item: participant,
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+  },
+
+  update(id, updates) {
+    return updateItem<Participant>(TABLES.PARTICIPANTS, id, updates);
+  },
+};
+
+const analysisJobs: AnalysisJobsRepository = {
+  async put(job) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.ANALYSIS_JOBS,
+      Item: job,
+    }));
+  },
+
+  get(id) {
+    return getItem<AnalysisJob>(TABLES.ANALYSIS_JOBS, id);
+  },
+
+  list(status) {
+    // Finished jobs are deleted, so the table only ever holds the current backlog
+    return scanAll<AnalysisJob>({
+      TableName: TABLES.ANALYSIS_JOBS,
+      ...(status && {
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status },
+      }),
+    });
+  },
+
+  update(id, updates) {
+    return updateItem<AnalysisJob>(TABLES.ANALYSIS_JOBS, id, updates);
+  },
+
+  claim(id, now, lockedUntil) {
+    // `status` is re-set to itself so the condition can reference #status
+    return updateItem<AnalysisJob>(TABLES.ANALYSIS_JOBS, id, { status: 'pending', lockedUntil, updatedAt: now }, {
+      expression: '#status = :pendingStatus AND (attribute_not_exists(#lockedUntil) OR #lockedUntil < :now)',
+      values: { ':pendingStatus': 'pending', ':now': now },
+    });
+  },
+
+  delete(id) {
+    return deleteItem(TABLES.ANALYSIS_JOBS, id);
+  },
+};
+
+const locations: LocationsRepository = {
+  list() {
+    return scanAll<OutreachLocation>({ TableName: TABLES.CHURCHES });
+  },
+
+  get(id) {
+    return getItem<OutreachLocation>(TABLES.CHURCHES, id);
+  },
+
+  async create(location) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.CHURCHES,
+      Item: location,
+    }));
+  },
+
+  update(id, updates) {
+    return updateItem<OutreachLocation>(TABLES.CHURCHES, id, updates);
+  },
+
+  delete(id) {
+    return deleteItem(TABLES.CHURCHES, id);
+  },
+};
+
+// Versions are partitioned by location and sorted by version number
+const formVersions: FormVersionsRepository = {
+  async create(formVersion) {
+    try {
+      await docClient.send(new PutCommand({
+        TableName: TABLES.FORM_VERSIONS,
+        Item: formVersion,
+        ConditionExpression: 'attribute_not_exists(version)',
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  async get(churchId, version) {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLES.FORM_VERSIONS,
+      Key: { churchId, version },
+    }));
+    return (result.Item || null) as LocationFormVersion | null;
+  },
+
+  async listByLocation(churchId) {
+    const versions: LocationFormVersion[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.FORM_VERSIONS,
+        KeyConditionExpression: 'churchId = :churchId',
+        ExpressionAttributeValues: { ':churchId': churchId },
+        ScanIndexForward: false,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      versions.push(...((result.Items || []) as LocationFormVersion[]));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+
+    return versions;
+  },
+};
+
+const smsTemplates: SmsTemplatesRepository = {
+  list() {
+    return scanAll<SmsTemplate>({ TableName: TABLES.SMS_TEMPLATES });
+  },
+
+  get(id) {
+    return getItem<SmsTemplate>(TABLES.SMS_TEMPLATES, id);
+  },
+
+  async create(template) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.SMS_TEMPLATES,
+      Item: template,
+    }));
+  },
+
+  update(id, updates) {
+    return updateItem<SmsTemplate>(TABLES.SMS_TEMPLATES, id, updates);
+  },
+
+  delete(id) {
+    return deleteItem(TABLES.SMS_TEMPLATES, id);
+  },
+};
+
+const smsSuppressions: SmsSuppressionsRepository = {
+  get(phone) {
+    return getItem<SmsSuppression>(TABLES.SMS_SUPPRESSIONS, phone);
+  },
+
+  list() {
+    return scanAll<SmsSuppression>({ TableName: TABLES.SMS_SUPPRESSIONS });
+  },
+
+  async put(suppression) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.SMS_SUPPRESSIONS,
+      Item: suppression,
+    }));
+  },
+
+  delete(phone) {
+    return deleteItem(TABLES.SMS_SUPPRESSIONS, phone);
+  },
+};
+
+const emailSuppressions: EmailSuppressionsRepository = {
+  get(email) {
+    return getItem<EmailSuppression>(TABLES.EMAIL_SUPPRESSIONS, email);
+  },
+
+  async put(suppression) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.EMAIL_SUPPRESSIONS,
+      Item: suppression,
+    }));
+  },
+};
+
+// Ledger entries are partitioned by phone number and sorted by `recordedAt#id`
+interface ConsentItem extends ConsentRecord {
+  sortKey: string;
+}
+
+function toConsentRecord(item: ConsentItem): ConsentRecord {
+  const record: Partial<ConsentItem> = { ...item };
+  delete record.sortKey;
+  return record as ConsentRecord;
+}
+
+const consentLedger: ConsentLedgerRepository = {
+  async append(record) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.CONSENT_LEDGER,
+      Item: { ...record, sortKey: `${record.recordedAt}#${record.id}` },
+      ConditionExpression: 'attribute_not_exists(sortKey)',
+    }));
+  },
+
+  async listByPhone(phone) {
+    const records: ConsentRecord[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.CONSENT_LEDGER,
+        KeyConditionExpression: '#phone = :phone',
+        ExpressionAttributeNames: { '#phone': 'phone' },
+        ExpressionAttributeValues: { ':phone': phone },
+        ScanIndexForward: false,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      records.push(...((result.Items || []) as ConsentItem[]).map(toConsentRecord));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+
+    return records;
+  },
+};
+
+const smsCampaigns: SmsCampaignsRepository = {
+  list() {
+    return scanAll<SmsCampaign>({ TableName: TABLES.SMS_CAMPAIGNS });
+  },
+
+  get(id) {
+    return getItem<SmsCampaign>(TABLES.SMS_CAMPAIGNS, id);
+  },
+
+  async create(campaign) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.SMS_CAMPAIGNS,
+      Item: campaign,
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+  },
+
+  update(id, updates) {
+    return updateItem<SmsCampaign>(TABLES.SMS_CAMPAIGNS, id, updates);
+  },
+
+  claim(id, now, lockedUntil) {
+    return updateItem<SmsCampaign>(TABLES.SMS_CAMPAIGNS, id, { status: 'sending', lockedUntil, updatedAt: now }, {
+      expression: '#status IN (:scheduledStatus, :sendingStatus) AND (attribute_not_exists(#lockedUntil) OR #lockedUntil < :now)',
+      values: { ':scheduledStatus': 'scheduled', ':sendingStatus': 'sending', ':now': now },
+    });
+  },
+};
+
+// Recipients are partitioned by campaign and keyed by submission
+const smsCampaignRecipients: SmsCampaignRecipientsRepository = {
+  async createMany(recipients) {
+    // BatchWrite accepts at most 25 items per request
+    for (let i = 0; i < recipients.length; i += 25) {
+      let requests: Record<string, unknown>[] | undefined = recipients
+        .slice(i, i + 25)
+        .map((recipient) => ({ PutRequest: { Item: recipient } }));
+
+      while (requests && requests.length > 0) {
+        const result = await docClient.send(new BatchWriteCommand({
+          RequestItems: {
+            [TABLES.SMS_CAMPAIGN_RECIPIENTS]: requests,
+          },
+        }));
+        requests = result.UnprocessedItems?.[TABLES.SMS_CAMPAIGN_RECIPIENTS] as
+          | Record<string, unknown>[]
+          | undefined;
+      }
+    }
+  },
+
+  async listByCampaign(campaignId) {
+    const recipients: SmsCampaignRecipient[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.SMS_CAMPAIGN_RECIPIENTS,
+        KeyConditionExpression: '#campaignId = :campaignId',
+        ExpressionAttributeNames: { '#campaignId': 'campaignId' },
+        ExpressionAttributeValues: { ':campaignId': campaignId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      recipients.push(...((result.Items || []) as SmsCampaignRecipient[]));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+
+    return recipients;
+  },
+
+  async update(campaignId, submissionId, updates) {
+    const fields = Object.entries(updates).filter(([field, value]) =>
+      value !== undefined && field !== 'campaignId' && field !== 'submissionId'
+    );
+    if (fields.length === 0) return null;
+
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, unknown> = {};
+    const setExpressions = fields.map(([field, value]) => {
+      expressionAttributeNames[`#${field}`] = field;
+      expressionAttributeValues[`:${field}`] = value;
+      return `#${field} = :${field}`;
+    });
+
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: TABLES.SMS_CAMPAIGN_RECIPIENTS,
+        Key: { campaignId, submissionId },
+        UpdateExpression: `SET ${setExpressions.join(', ')}`,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ConditionExpression: 'attribute_exists(submissionId)',
+        ReturnValues: 'ALL_NEW',
+      }));
+      return (result.Attributes || null) as SmsCampaignRecipient | null;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+};
+
+const users: UsersRepository = {
+  list() {
+    return scanAll<AdminUser>({ TableName: TABLES.USERS });
+  },
+
+  get(id) {
+    return getItem<AdminUser>(TABLES.USERS, id);
+  },
+
+  async findByEmail(email) {
+    const matches = await scanAll<AdminUser>({
+      TableName: TABLES.USERS,
+      FilterExpression: 'email = :email',
+      ExpressionAttributeValues: {
+        ':email': email.toLowerCase(),
+      },
+    });
+    return matches[0] || null;
+  },
+
+  async create(user) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.USERS,
+      Item: user,
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+  },
+
+  update(id, updates) {
+    return updateItem<AdminUser>(TABLES.USERS, id, updates);
+  },
+
+  delete(id) {
+    return deleteItem(TABLES.USERS, id);
+  },
+};
+
+function toCounters(item: Record<string, unknown>): RollupCounters {
+  const counters: RollupCounters = {};
+  Object.entries(item).forEach(([field, value]) => {
+    if (typeof value === 'number') {
+      counters[field] = value;
+    }
+  });
+  return counters;
+}
+
+const rollups: RollupsRepository = {
+  async increment(key, deltas) {
+    const fields = Object.entries(deltas).filter(([, amount]) => amount !== 0);
+    if (fields.length === 0) return;
+
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, number> = {};
+    const addExpressions = fields.map(([field, amount], idx) => {
+      expressionAttributeNames[`#f${idx}`] = field;
+      expressionAttributeValues[`:v${idx}`] = amount;
+      return `#f${idx} :v${idx}`;
+    });
+
+    await docClient.send(new UpdateCommand({
+      TableName: TABLES.STATS,
+      Key: { id: key },
+      UpdateExpression: `ADD ${addExpressions.join(', ')}`,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: expressionAttributeValues,
+    }));
+  },
+
+  async getMany(keys) {
+    const records: Record<string, RollupCounters> = {};
+    const uniqueKeys = Array.from(new Set(keys));
+
+    // BatchGet accepts at most 100 keys per request
+    for (let i = 0; i < uniqueKeys.length; i += 100) {
+      let requestKeys: Record<string, unknown>[] | undefined = uniqueKeys
+        .slice(i, i + 100)
+        .map((id) => ({ id }));
+
+      while (requestKeys && requestKeys.length > 0) {
+        const result = await docClient.send(new BatchGetCommand({
+          RequestItems: {
+            [TABLES.STATS]: { Keys: requestKeys },
+          },
+        }));
+
+        (result.Responses?.[TABLES.STATS] || []).forEach((item) => {
+          records[item.id as string] = toCounters(item);
+        });
+        requestKeys = result.UnprocessedKeys?.[TABLES.STATS]?.Keys as
+          | Record<string, unknown>[]
+          | undefined;
+      }
+    }
+
+    return records;
+  },
+
+  async getRecent(listKey) {
+    const item = await getItem<{ ids?: string[] }>(TABLES.STATS, listKey);
+    return item?.ids || [];
+  },
+
+  async pushRecent(listKey, submissionId, limit) {
+    const current = await rollups.getRecent(listKey);
+    const ids = [submissionId, ...current.filter((id) => id !== submissionId)].slice(0, limit);
+    await docClient.send(new PutCommand({
+      TableName: TABLES.STATS,
+      Item: { id: listKey, ids },
+    }));
+  },
+
+  async replaceAll(records, recentLists) {
+    const existing = await scanAll<{ id: string }>({
+      TableName: TABLES.STATS,
+      ProjectionExpression: 'id',
+    });
+
+    for (const item of existing) {
+      if (!records[item.id] && !recentLists[item.id]) {
+        await deleteItem(TABLES.STATS, item.id);
+      }
+    }
+
+    for (const [key, counters] of Object.entries(records)) {
+      await docClient.send(new PutCommand({
+        TableName: TABLES.STATS,
+        Item: { ...counters, id: key },
+      }));
+    }
+
+    for (const [listKey, ids] of Object.entries(recentLists)) {
+      await docClient.send(new PutCommand({
+        TableName: TABLES.STATS,
+        Item: { id: listKey, ids },
+      }));
+    }
+  },
+};
+
+const sessions: SessionsRepository = {
+  async create(session) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.SESSIONS,
+      Item: session,
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+  },
+
+  get(id) {
+    return getItem<AdminSession>(TABLES.SESSIONS, id);
+  },
+
+  update(id, updates) {
+    return updateItem<AdminSession>(TABLES.SESSIONS, id, updates);
+  },
+
+  listByUser(userId) {
+    // A handful of sessions per user; expired ones are removed by the table's TTL
+    return scanAll<AdminSession>({
+      TableName: TABLES.SESSIONS,
+      FilterExpression: 'userId = :userId',
+      ExpressionAttributeValues: { ':userId': userId },
+    });
+  },
+
+  rotate(id, expectedRefreshTokenId, updates) {
+    return updateItem<AdminSession>(TABLES.SESSIONS, id, updates, {
+      expression: 'refreshTokenId = :expectedRefreshTokenId AND attribute_not_exists(revokedAt)',
+      values: { ':expectedRefreshTokenId': expectedRefreshTokenId },
+    });
+  },
+};
+
+const idempotencyKeys: IdempotencyKeysRepository = {
+  get(id) {
+    return getItem<SubmissionIdempotencyKey>(TABLES.IDEMPOTENCY_KEYS, id);
+  },
+
+  async claim(key, now) {
+    try {
+      await docClient.send(new PutCommand({
+        TableName: TABLES.IDEMPOTENCY_KEYS,
+        Item: key,
+        ConditionExpression: 'attribute_not_exists(id) OR (#status = :processing AND #lockedUntil < :now)',
+        ExpressionAttributeNames: { '#status': 'status', '#lockedUntil': 'lockedUntil' },
+        ExpressionAttributeValues: { ':processing': 'processing', ':now': now },
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  update(id, updates) {
+    return updateItem<SubmissionIdempotencyKey>(TABLES.IDEMPOTENCY_KEYS, id, updates);
+  },
+
+  delete(id) {
+    return deleteItem(TABLES.IDEMPOTENCY_KEYS, id);
+  },
+};
+
+// Audit entries are partitioned by UTC day and sorted by `timestamp#id` within a day
+const AUDIT_DEFAULT_LOOKBACK_DAYS = 90;
+
+interface AuditItem extends AuditEvent {
+  day: string;
+  sortKey: string;
+}
+
+function shiftDay(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function buildAuditFilter(options: AuditLogListOptions) {
+  const conditions: string[] = [];
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+
+  const add = (field: keyof AuditEvent, value: string | undefined) => {
+    if (!value) return;
+    names[`#${field}`] = field;
+    values[`:${field}`] = value;
+    conditions.push(`#${field} = :${field}`);
+  };
+
+  add('actorEmail', options.actorEmail?.toLowerCase());
+  add('action', options.action);
+  add('resourceType', options.resourceType);
+  add('resourceId', options.resourceId);
+  add('churchId', options.churchId);
+
+  return { conditions, names, values };
+}
+
+function toAuditEvent(item: AuditItem): AuditEvent {
+  const event: Partial<AuditItem> = { ...item };
+  delete event.day;
+  delete event.sortKey;
+  return event as AuditEvent;
+}
+
+const audit: AuditLogRepository = {
+  async append(event) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.AUDIT,
+      Item: {
+        ...event,
+        day: event.timestamp.slice(0, 10),
+        sortKey: `${event.timestamp}#${event.id}`,
+      },
+      ConditionExpression: 'attribute_not_exists(sortKey)',
+    }));
+  },
+
+  async list(options) {
+    const pageSize = options.pageSize || 50;
+    const endDate = options.endDate || new Date().toISOString().slice(0, 10);
+    const startDate = options.startDate || shiftDay(endDate, -AUDIT_DEFAULT_LOOKBACK_DAYS);
+    const filter = buildAuditFilter(options);
+    const items: AuditEvent[] = [];
+
+    // The cursor names the day partition to resume from and the key within it
+    let day = (options.exclusiveStartKey?.day as string | undefined) || endDate;
+    let exclusiveStartKey = options.exclusiveStartKey?.key as Record<string, unknown> | undefined;
+
+    while (day >= startDate) {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.AUDIT,
+        KeyConditionExpression: '#day = :day',
+        FilterExpression: filter.conditions.length > 0 ? filter.conditions.join(' AND ') : undefined,
+        ExpressionAttributeNames: { ...filter.names, '#day': 'day' },
+        ExpressionAttributeValues: { ...filter.values, ':day': day },
+        ScanIndexForward: false,
+        Limit: pageSize - items.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      items.push(...((result.Items || []) as AuditItem[]).map(toAuditEvent));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+      if (!exclusiveStartKey) {
+        day = shiftDay(day, -1);
+      }
+
+      if (items.length >= pageSize) {
+        break;
+      }
+    }
+
+    return {
+      items,
+      lastEvaluatedKey: day >= startDate ? { day, key: exclusiveStartKey } : undefined,
+    };
+  },
+};
+
+// SMS log entries carry their UTC `day` for the index that lists them newest first,
+// walking back one day at a time like the audit log
+const SMS_LOG_DEFAULT_LOOKBACK_DAYS = 90;
+
+interface SmsLogItem extends SmsLogEntry {
+  day: string;
+}
+
+function buildSmsLogFilter(options: SmsLogListOptions) {
+  const conditions: string[] = [];
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+
+  const add = (field: keyof SmsLogEntry, value: string | undefined) => {
+    if (!value) return;
+    names[`#${field}`] = field;
+    values[`:${field}`] = value;
+    conditions.push(`#${field} = :${field}`);
+  };
+
+  add('churchId', options.churchId);
+  add('direction', options.direction);
+  add('status', options.status);
+
+  return { conditions, names, values };
+}
+
+function toSmsLogEntry(item: SmsLogItem): SmsLogEntry {
+  const entry: Partial<SmsLogItem> = { ...item };
+  delete entry.day;
+  return entry as SmsLogEntry;
+}
+
+const smsLog: SmsLogRepository = {
+  async create(entry) {
+    await docClient.send(new PutCommand({
+      TableName: TABLES.SMS_LOG,
+      Item: { ...entry, day: entry.sentAt.slice(0, 10) },
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+  },
+
+  async get(id) {
+    const item = await getItem<SmsLogItem>(TABLES.SMS_LOG, id);
+    return item ? toSmsLogEntry(item) : null;
+  },
+
+  async update(id, updates) {
+    const item = await updateItem<SmsLogItem>(TABLES.SMS_LOG, id, updates);
+    return item ? toSmsLogEntry(item) : null;
+  },
+
+  async listBySubmission(submissionId) {
+    const entries: SmsLogEntry[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.SMS_LOG,
+        IndexName: INDEXES.SMS_LOG_BY_SUBMISSION,
+        KeyConditionExpression: 'submissionId = :submissionId',
+        ExpressionAttributeValues: { ':submissionId': submissionId },
+        ScanIndexForward: false,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      entries.push(...((result.Items || []) as SmsLogItem[]).map(toSmsLogEntry));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+
+    return entries;
+  },
+
+  async list(options) {
+    const pageSize = options.pageSize || 50;
+    const endDate = options.endDate || new Date().toISOString().slice(0, 10);
+    const startDate = options.startDate || shiftDay(endDate, -SMS_LOG_DEFAULT_LOOKBACK_DAYS);
+    const filter = buildSmsLogFilter(options);
+    const items: SmsLogEntry[] = [];
+
+    // The cursor names the day partition to resume from and the key within it
+    let day = (options.exclusiveStartKey?.day as string | undefined) || endDate;
+    let exclusiveStartKey = options.exclusiveStartKey?.key as Record<string, unknown> | undefined;
+
+    while (day >= startDate) {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLES.SMS_LOG,
+        IndexName: INDEXES.SMS_LOG_BY_DAY,
+        KeyConditionExpression: '#day = :day',
+        FilterExpression: filter.conditions.length > 0 ? filter.conditions.join(' AND ') : undefined,
+        ExpressionAttributeNames: { ...filter.names, '#day': 'day' },
+        ExpressionAttributeValues: { ...filter.values, ':day': day },
+        ScanIndexForward: false,
+        Limit: pageSize - items.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      items.push(...((result.Items || []) as SmsLogItem[]).map(toSmsLogEntry));
+      exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+      if (!exclusiveStartKey) {
+        day = shiftDay(day, -1);
+      }
+
+      if (items.length >= pageSize) {
+        break;
+      }
+    }
+
+    return {
+      items,
+      lastEvaluatedKey: day >= startDate ? { day, key: exclusiveStartKey } : undefined,
+    };
+  },
+};
+
+export const dynamoStorage: StorageBackend = {
+  name: 'dynamodb',
+  submissions,
+  participants,
+  analysisJobs,
+  locations,
+  formVersions,
+  smsTemplates,
+  smsSuppressions,
+  consentLedger,
+  smsCampaigns,
+  smsCampaignRecipients,
+  smsLog,
+  emailSuppressions,
+  users,
+  rollups,
+  sessions,
+  idempotencyKeys,
+  audit,
+  photos: s3Photos,
+  async ping() {
+    await docClient.send(new DescribeTableCommand({
+      TableName: TABLES.SUBMISSIONS,
+    }));
+  },
+};
@@ -0,0 +1,33 @@
+import { dynamoStorage } from './dynamodb';
+import { fileStorage } from './local';
+import { StorageBackend, StorageBackendName } from './types';
+
+export * from './types';
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Resolve the configured storage backend (APP_STORAGE_BACKEND=dynamodb|local).
+ * AWS clients are created without contacting AWS, so the local backend still
+ * runs without credentials.
+ */
+export function getStorage(): StorageBackend {
+  if (storage) {
+    return storage;
+  }
+
+  const backend = (process.env.APP_STORAGE_BACKEND || 'dynamodb') as StorageBackendName;
+
+  switch (backend) {
+    case 'local':
+      storage = fileStorage;
+      break;
+    case 'dynamodb':
+      storage = dynamoStorage;
+      break;
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+
+  return storage;
+}
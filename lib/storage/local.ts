@@ -0,0 +1,728 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AdminSession,
+  AdminUser,
+  AnalysisJob,
+  AuditEvent,
+  ConsentRecord,
+  EmailSuppression,
+  HealthSubmission,
+  LocationFormVersion,
+  OutreachLocation,
+  Participant,
+  SmsCampaign,
+  SmsCampaignRecipient,
+  SmsLogEntry,
+  SmsSuppression,
+  SmsTemplate,
+  SubmissionIdempotencyKey,
+} from '@/types';
+import { createPhotoLink } from '@/lib/photo-links';
+import {
+  AnalysisJobsRepository,
+  AuditLogListOptions,
+  AuditLogRepository,
+  ConsentLedgerRepository,
+  EmailSuppressionsRepository,
+  FormVersionsRepository,
+  IdempotencyKeysRepository,
+  LocationsRepository,
+  ParticipantsRepository,
+  PhotosRepository,
+  RollupCounters,
+  RollupsRepository,
+  SessionsRepository,
+  SmsCampaignRecipientsRepository,
+  SmsCampaignsRepository,
+  SmsLogListOptions,
+  SmsLogRepository,
+  SmsSuppressionsRepository,
+  SmsTemplatesRepository,
+  StorageBackend,
+  SubmissionListOptions,
+  SubmissionMatchKeys,
+  SubmissionsRepository,
+  UsersRepository,
+} from './types';
+
+/**
+ * File-backed storage for local development and single-machine deployments.
+ * Each table is a JSON array stored in APP_LOCAL_DATA_DIR (defaults to ./data);
+ * photos are files under its photos/ folder.
+ */
+const DATA_DIR = process.env.APP_LOCAL_DATA_DIR || path.join(process.cwd(), 'data');
+const PHOTOS_DIR = path.join(DATA_DIR, 'photos');
+
+const FILES = {
+  SUBMISSIONS: 'submissions.json',
+  PARTICIPANTS: 'participants.json',
+  ANALYSIS_JOBS: 'analysis-jobs.json',
+  LOCATIONS: 'locations.json',
+  FORM_VERSIONS: 'form-versions.json',
+  SMS_TEMPLATES: 'sms-templates.json',
+  SMS_SUPPRESSIONS: 'sms-suppressions.json',
+  CONSENT_LEDGER: 'consent-ledger.json',
+  SMS_CAMPAIGNS: 'sms-campaigns.json',
+  SMS_CAMPAIGN_RECIPIENTS: 'sms-campaign-recipients.json',
+  SMS_LOG: 'sms-log.json',
+  EMAIL_SUPPRESSIONS: 'email-suppressions.json',
+  USERS: 'users.json',
+  ROLLUPS: 'rollups.json',
+  SESSIONS: 'sessions.json',
+  IDEMPOTENCY_KEYS: 'idempotency-keys.json',
+  AUDIT: 'audit-log.json',
+};
+
+// Serialize writes per file so concurrent requests do not clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+async function readTable<T>(file: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(path.join(DATA_DIR, file), 'utf8');
+    return JSON.parse(raw) as T[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeTable<T>(file: string, items: T[]): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const target = path.join(DATA_DIR, file);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(items, null, 2), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+function mutateTable<T, R>(file: string, mutate: (items: T[]) => R): Promise<R> {
+  const previous = writeQueues.get(file) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const items = await readTable<T>(file);
+    const result = mutate(items);
+    await writeTable(file, items);
+    return result;
+  });
+  writeQueues.set(file, next);
+  return next;
+}
+
+function withoutUndefined<T extends object>(updates: Partial<T>): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([key, value]) => key !== 'id' && value !== undefined)
+  ) as Partial<T>;
+}
+
+function createTableRepository<T extends { id: string }>(file: string) {
+  return {
+    list(): Promise<T[]> {
+      return readTable<T>(file);
+    },
+
+    async get(id: string): Promise<T | null> {
+      const items = await readTable<T>(file);
+      return items.find((item) => item.id === id) || null;
+    },
+
+    create(item: T): Promise<void> {
+      return mutateTable<T, void>(file, (items) => {
+        if (items.some((existing) => existing.id === item.id)) {
+          throw new Error(`Record ${item.id} already exists`);
+        }
+        items.push(item);
+      });
+    },
+
+    update(id: string, updates: Partial<T>, remove: (keyof T)[] = []): Promise<T | null> {
+      return mutateTable<T, T | null>(file, (items) => {
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) return null;
+        const next = { ...items[index], ...withoutUndefined(updates) };
+        remove
+          .filter((field) => field !== 'id' && updates[field] === undefined)
+          .forEach((field) => delete next[field]);
+        items[index] = next;
+        return items[index];
+      });
+    },
+
+    delete(id: string): Promise<boolean> {
+      return mutateTable<T, boolean>(file, (items) => {
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) return false;
+        items.splice(index, 1);
+        return true;
+      });
+    },
+  };
+}
+
+function matchesFilters(submission: HealthSubmission, options: SubmissionListOptions): boolean {
+  const { churchId, startDate, endDate, riskLevels, followUpStatuses, duplicateStatuses } = options;
+
+  if (churchId && submission.churchId !== churchId) return false;
+  if (startDate && submission.submissionDate < startDate) return false;
+  if (endDate && submission.submissionDate > endDate) return false;
+  if (riskLevels && riskLevels.length > 0 && !riskLevels.includes(submission.healthRiskLevel || '')) {
+    return false;
+  }
+  if (
+    followUpStatuses &&
+    followUpStatuses.length > 0 &&
+    !followUpStatuses.includes(submission.followUpStatus || 'Pending')
+  ) {
+    return false;
+  }
+  if (
+    duplicateStatuses &&
+    duplicateStatuses.length > 0 &&
+    (!submission.duplicateStatus || !duplicateStatuses.includes(submission.duplicateStatus))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+const submissionsTable = createTableRepository<HealthSubmission>(FILES.SUBMISSIONS);
+
+const submissions: SubmissionsRepository = {
+  create: submissionsTable.create,
+  get: submissionsTable.get,
+  update: submissionsTable.update,
+
+  async list(options) {
+    const all = (await readTable<HealthSubmission>(FILES.SUBMISSIONS))
+      .filter((submission) => matchesFilters(submission, options))
+      .sort((a, b) => b.submissionDate.localeCompare(a.submissionDate));
+
+    const offset = Number(options.exclusiveStartKey?.offset) || 0;
+    const pageSize = options.pageSize || all.length;
+    const items = all.slice(offset, offset + pageSize);
+    const nextOffset = offset + items.length;
+
+    return {
+      items,
+      lastEvaluatedKey: nextOffset < all.length ? { offset: nextOffset } : undefined,
+    };
+  },
+
+  async existsForChurch(churchId) {
+    const all = await readTable<HealthSubmission>(FILES.SUBMISSIONS);
+    return all.some((submission) => submission.churchId === churchId);
+  },
+
+  async findMatches(keys, limit) {
+    const matchKeys = (Object.keys(keys) as (keyof SubmissionMatchKeys)[]).filter((key) => keys[key]);
+    if (matchKeys.length === 0) return [];
+
+    const all = await readTable<HealthSubmission>(FILES.SUBMISSIONS);
+    return all
+      .filter((submission) => matchKeys.some((key) => submission[key] === keys[key]))
+      .sort((a, b) => b.submissionDate.localeCompare(a.submissionDate))
+      .slice(0, limit);
+  },
+
+  async listByParticipant(participantId) {
+    const all = await readTable<HealthSubmission>(FILES.SUBMISSIONS);
+    return all
+      .filter((submission) => submission.participantId === participantId)
+      .sort((a, b) => a.submissionDate.localeCompare(b.submissionDate));
+  },
+};
+
+const participantsTable = createTableRepository<Participant>(FILES.PARTICIPANTS);
+
+const participants: ParticipantsRepository = {
+  get: participantsTable.get,
+  create: participantsTable.create,
+  update: participantsTable.update,
+};
+
+const analysisJobsTable = createTableRepository<AnalysisJob>(FILES.ANALYSIS_JOBS);
+
+const analysisJobs: AnalysisJobsRepository = {
+  get: analysisJobsTable.get,
+  update: analysisJobsTable.update,
+  delete: analysisJobsTable.delete,
+
+  put(job) {
+    return mutateTable<AnalysisJob, void>(FILES.ANALYSIS_JOBS, (items) => {
+      const index = items.findIndex((item) => item.id === job.id);
+      if (index === -1) {
+        items.push(job);
+      } else {
+        items[index] = job;
+      }
+    });
+  },
+
+  async list(status) {
+    const all = await readTable<AnalysisJob>(FILES.ANALYSIS_JOBS);
+    return status ? all.filter((job) => job.status === status) : all;
+  },
+
+  claim(id, now, lockedUntil) {
+    return mutateTable<AnalysisJob, AnalysisJob | null>(FILES.ANALYSIS_JOBS, (items) => {
+      const index = items.findIndex((item) => item.id === id);
+      const current = items[index];
+      if (!current || current.status !== 'pending' || (current.lockedUntil && current.lockedUntil >= now)) {
+        return null;
+      }
+      items[index] = { ...current, lockedUntil, updatedAt: now };
+      return items[index];
+    });
+  },
+};
+
+const locations: LocationsRepository = createTableRepository<OutreachLocation>(FILES.LOCATIONS);
+
+const formVersions: FormVersionsRepository = {
+  create(formVersion) {
+    return mutateTable<LocationFormVersion, boolean>(FILES.FORM_VERSIONS, (items) => {
+      if (items.some((item) => item.churchId === formVersion.churchId && item.version === formVersion.version)) {
+        return false;
+      }
+      items.push(formVersion);
+      return true;
+    });
+  },
+
+  async get(churchId, version) {
+    const all = await readTable<LocationFormVersion>(FILES.FORM_VERSIONS);
+    return all.find((item) => item.churchId === churchId && item.version === version) || null;
+  },
+
+  async listByLocation(churchId) {
+    const all = await readTable<LocationFormVersion>(FILES.FORM_VERSIONS);
+    return all
+      .filter((item) => item.churchId === churchId)
+      .sort((a, b) => b.version - a.version);
+  },
+};
+
+const smsTemplates: SmsTemplatesRepository = createTableRepository<SmsTemplate>(FILES.SMS_TEMPLATES);
+
+const smsSuppressionsTable = createTableRepository<SmsSuppression>(FILES.SMS_SUPPRESSIONS);
+
+const smsSuppressions: SmsSuppressionsRepository = {
+  get: smsSuppressionsTable.get,
+  list: smsSuppressionsTable.list,
+  delete: smsSuppressionsTable.delete,
+
+  put(suppression) {
+    return mutateTable<SmsSuppression, void>(FILES.SMS_SUPPRESSIONS, (items) => {
+      const index = items.findIndex((existing) => existing.id === suppression.id);
+      if (index === -1) {
+        items.push(suppression);
+      } else {
+        items[index] = suppression;
+      }
+    });
+  },
+};
+
+const emailSuppressions: EmailSuppressionsRepository = {
+  get: createTableRepository<EmailSuppression>(FILES.EMAIL_SUPPRESSIONS).get,
+
+  put(suppression) {
+    return mutateTable<EmailSuppression, void>(FILES.EMAIL_SUPPRESSIONS, (items) => {
+      const index = items.findIndex((existing) => existing.id === suppression.id);
+      if (index === -1) {
+        items.push(suppression);
+      } else {
+        items[index] = suppression;
+      }
+    });
+  },
+};
+
+const consentLedger: ConsentLedgerRepository = {
+  append(record) {
+    return mutateTable<ConsentRecord, void>(FILES.CONSENT_LEDGER, (items) => {
+      if (items.some((existing) => existing.id === record.id)) {
+        throw new Error(`Consent record ${record.id} already exists`);
+      }
+      items.push(record);
+    });
+  },
+
+  async listByPhone(phone) {
+    const all = await readTable<ConsentRecord>(FILES.CONSENT_LEDGER);
+    return all
+      .filter((record) => record.phone === phone)
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  },
+};
+
+const smsCampaignsTable = createTableRepository<SmsCampaign>(FILES.SMS_CAMPAIGNS);
+
+const smsCampaigns: SmsCampaignsRepository = {
+  ...smsCampaignsTable,
+
+  claim(id, now, lockedUntil) {
+    return mutateTable<SmsCampaign, SmsCampaign | null>(FILES.SMS_CAMPAIGNS, (items) => {
+      const index = items.findIndex((item) => item.id === id);
+      const current = items[index];
+      if (
+        !current ||
+        (current.status !== 'scheduled' && current.status !== 'sending') ||
+        (current.lockedUntil && current.lockedUntil >= now)
+      ) {
+        return null;
+      }
+      items[index] = { ...current, status: 'sending', lockedUntil, updatedAt: now };
+      return items[index];
+    });
+  },
+};
+
+const smsCampaignRecipients: SmsCampaignRecipientsRepository = {
+  createMany(recipients) {
+    return mutateTable<SmsCampaignRecipient, void>(FILES.SMS_CAMPAIGN_RECIPIENTS, (items) => {
+      items.push(...recipients);
+    });
+  },
+
+  async listByCampaign(campaignId) {
+    const all = await readTable<SmsCampaignRecipient>(FILES.SMS_CAMPAIGN_RECIPIENTS);
+    return all.filter((recipient) => recipient.campaignId === campaignId);
+  },
+
+  update(campaignId, submissionId, updates) {
+    return mutateTable<SmsCampaignRecipient, SmsCampaignRecipient | null>(FILES.SMS_CAMPAIGN_RECIPIENTS, (items) => {
+      const index = items.findIndex((item) =>
+        item.campaignId === campaignId && item.submissionId === submissionId
+      );
+      if (index === -1) return null;
+      const changes = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      ) as Partial<SmsCampaignRecipient>;
+      items[index] = { ...items[index], ...changes, campaignId, submissionId };
+      return items[index];
+    });
+  },
+};
+
+function matchesSmsLogFilters(entry: SmsLogEntry, options: SmsLogListOptions): boolean {
+  const day = entry.sentAt.slice(0, 10);
+
+  if (options.startDate && day < options.startDate) return false;
+  if (options.endDate && day > options.endDate) return false;
+  if (options.churchId && entry.churchId !== options.churchId) return false;
+  if (options.direction && entry.direction !== options.direction) return false;
+  if (options.status && entry.status !== options.status) return false;
+  return true;
+}
+
+const smsLogTable = createTableRepository<SmsLogEntry>(FILES.SMS_LOG);
+
+const smsLog: SmsLogRepository = {
+  create: smsLogTable.create,
+  get: smsLogTable.get,
+  update: smsLogTable.update,
+
+  async listBySubmission(submissionId) {
+    const all = await readTable<SmsLogEntry>(FILES.SMS_LOG);
+    return all
+      .filter((entry) => entry.submissionId === submissionId)
+      .sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+  },
+
+  async list(options) {
+    const all = (await readTable<SmsLogEntry>(FILES.SMS_LOG))
+      .filter((entry) => matchesSmsLogFilters(entry, options))
+      .sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+
+    const offset = Number(options.exclusiveStartKey?.offset) || 0;
+    const pageSize = options.pageSize || all.length;
+    const items = all.slice(offset, offset + pageSize);
+    const nextOffset = offset + items.length;
+
+    return {
+      items,
+      lastEvaluatedKey: nextOffset < all.length ? { offset: nextOffset } : undefined,
+    };
+  },
+};
+
+const usersTable = createTableRepository<AdminUser>(FILES.USERS);
+
+const users: UsersRepository = {
+  ...usersTable,
+
+  async findByEmail(email) {
+    const normalized = email.toLowerCase();
+    const all = await readTable<AdminUser>(FILES.USERS);
+    return all.find((user) => user.email.toLowerCase() === normalized) || null;
+  },
+};
+
+interface RollupRecord {
+  id: string;
+  counters?: RollupCounters;
+  ids?: string[];
+}
+
+const rollups: RollupsRepository = {
+  increment(key, deltas) {
+    return mutateTable<RollupRecord, void>(FILES.ROLLUPS, (records) => {
+      let record = records.find((item) => item.id === key);
+      if (!record) {
+        record = { id: key, counters: {} };
+        records.push(record);
+      }
+      const counters = record.counters || (record.counters = {});
+      Object.entries(deltas).forEach(([field, amount]) => {
+        counters[field] = (counters[field] || 0) + amount;
+      });
+    });
+  },
+
+  async getMany(keys) {
+    const wanted = new Set(keys);
+    const records = await readTable<RollupRecord>(FILES.ROLLUPS);
+    return Object.fromEntries(
+      records
+        .filter((record) => wanted.has(record.id) && record.counters)
+        .map((record) => [record.id, record.counters as RollupCounters])
+    );
+  },
+
+  async getRecent(listKey) {
+    const records = await readTable<RollupRecord>(FILES.ROLLUPS);
+    return records.find((record) => record.id === listKey)?.ids || [];
+  },
+
+  pushRecent(listKey, submissionId, limit) {
+    return mutateTable<RollupRecord, void>(FILES.ROLLUPS, (records) => {
+      let record = records.find((item) => item.id === listKey);
+      if (!record) {
+        record = { id: listKey, ids: [] };
+        records.push(record);
+      }
+      record.ids = [submissionId, ...(record.ids || []).filter((id) => id !== submissionId)]
+        .slice(0, limit);
+    });
+  },
+
+  replaceAll(records, recentLists) {
+    return mutateTable<RollupRecord, void>(FILES.ROLLUPS, (items) => {
+      items.splice(
+        0,
+        items.length,
+        ...Object.entries(records).map(([id, counters]) => ({ id, counters })),
+        ...Object.entries(recentLists).map(([id, ids]) => ({ id, ids }))
+      );
+    });
+  },
+};
+
+const sessionsTable = createTableRepository<AdminSession>(FILES.SESSIONS);
+
+const sessions: SessionsRepository = {
+  create: sessionsTable.create,
+  get: sessionsTable.get,
+  update: sessionsTable.update,
+
+  async listByUser(userId) {
+    const all = await readTable<AdminSession>(FILES.SESSIONS);
+    return all.filter((session) => session.userId === userId);
+  },
+
+  rotate(id, expectedRefreshTokenId, updates) {
+    return mutateTable<AdminSession, AdminSession | null>(FILES.SESSIONS, (items) => {
+      const index = items.findIndex((item) => item.id === id);
+      const current = items[index];
+      if (!current || current.revokedAt || current.refreshTokenId !== expectedRefreshTokenId) {
+        return null;
+      }
+      items[index] = { ...current, ...withoutUndefined(updates) };
+      return items[index];
+    });
+  },
+};
+
+const idempotencyKeysTable = createTableRepository<SubmissionIdempotencyKey>(FILES.IDEMPOTENCY_KEYS);
+
+const idempotencyKeys: IdempotencyKeysRepository = {
+  get: idempotencyKeysTable.get,
+  update: idempotencyKeysTable.update,
+  delete: idempotencyKeysTable.delete,
+
+  claim(key, now) {
+    return mutateTable<SubmissionIdempotencyKey, boolean>(FILES.IDEMPOTENCY_KEYS, (items) => {
+      // No TTL here, so expired keys are dropped whenever a new one is claimed
+      const nowSeconds = Math.floor(new Date(now).getTime() / 1000);
+      for (let index = items.length - 1; index >= 0; index--) {
+        if (items[index].ttl <= nowSeconds) {
+          items.splice(index, 1);
+        }
+      }
+
+      const index = items.findIndex((item) => item.id === key.id);
+      const current = items[index];
+      if (current && (current.status !== 'processing' || (current.lockedUntil && current.lockedUntil >= now))) {
+        return false;
+      }
+      if (current) {
+        items[index] = key;
+      } else {
+        items.push(key);
+      }
+      return true;
+    });
+  },
+};
+
+function matchesAuditFilters(event: AuditEvent, options: AuditLogListOptions): boolean {
+  const day = event.timestamp.slice(0, 10);
+
+  if (options.startDate && day < options.startDate) return false;
+  if (options.endDate && day > options.endDate) return false;
+  if (options.actorEmail && event.actorEmail !== options.actorEmail.toLowerCase()) return false;
+  if (options.action && event.action !== options.action) return false;
+  if (options.resourceType && event.resourceType !== options.resourceType) return false;
+  if (options.resourceId && event.resourceId !== options.resourceId) return false;
+  if (options.churchId && event.churchId !== options.churchId) return false;
+  return true;
+}
+
+const audit: AuditLogRepository = {
+  append(event) {
+    return mutateTable<AuditEvent, void>(FILES.AUDIT, (items) => {
+      if (items.some((existing) => existing.id === event.id)) {
+        throw new Error(`Audit entry ${event.id} already exists`);
+      }
+      items.push(event);
+    });
+  },
+
+  async list(options) {
+    const all = (await readTable<AuditEvent>(FILES.AUDIT))
+      .filter((event) => matchesAuditFilters(event, options))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    const offset = Number(options.exclusiveStartKey?.offset) || 0;
+    const pageSize = options.pageSize || all.length;
+    const items = all.slice(offset, offset + pageSize);
+    const nextOffset = offset + items.length;
+
+    return {
+      items,
+      lastEvaluatedKey: nextOffset < all.length ? { offset: nextOffset } : undefined,
+    };
+  },
+};
+
+// Content type and upload details, kept next to each photo file
+interface PhotoSidecar {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+function photoPath(key: string): string {
+  const target = path.resolve(PHOTOS_DIR, key);
+  if (!target.startsWith(`${path.resolve(PHOTOS_DIR)}${path.sep}`)) {
+    throw new Error(`Invalid photo key: ${key}`);
+  }
+  return target;
+}
+
+async function readPhotoSidecar(target: string): Promise<PhotoSidecar | null> {
+  try {
+    return JSON.parse(await fs.readFile(`${target}.json`, 'utf8')) as PhotoSidecar;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+const photos: PhotosRepository = {
+  async put(key, body, contentType, metadata) {
+    const target = photoPath(key);
+    const sidecar: PhotoSidecar = { contentType, metadata };
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, body);
+    await fs.writeFile(`${target}.json`, JSON.stringify(sidecar, null, 2), 'utf8');
+    return key;
+  },
+
+  async get(key) {
+    const target = photoPath(key);
+    try {
+      const body = await fs.readFile(target);
+      return { body, contentType: (await readPhotoSidecar(target))?.contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async head(key) {
+    const target = photoPath(key);
+    try {
+      const stats = await fs.stat(target);
+      return {
+        contentType: (await readPhotoSidecar(target))?.contentType,
+        size: stats.size,
+        lastModified: stats.mtime.toISOString(),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    const target = photoPath(key);
+    await fs.rm(target, { force: true });
+    await fs.rm(`${target}.json`, { force: true });
+  },
+
+  async getViewUrl(key, expiresInSeconds) {
+    return createPhotoLink(key, expiresInSeconds);
+  },
+
+  // Submissions record the bare key
+  urlFor(key) {
+    return key;
+  },
+
+  keyFromUrl(url) {
+    return url.startsWith('submissions/') && !url.split('/').includes('..') ? url : null;
+  },
+};
+
+export const fileStorage: StorageBackend = {
+  name: 'local',
+  submissions,
+  participants,
+  analysisJobs,
+  locations,
+  formVersions,
+  smsTemplates,
+  smsSuppressions,
+  consentLedger,
+  smsCampaigns,
+  smsCampaignRecipients,
+  smsLog,
+  emailSuppressions,
+  users,
+  rollups,
+  sessions,
+  idempotencyKeys,
+  audit,
+  photos,
+  async ping() {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.access(DATA_DIR);
+  },
+};
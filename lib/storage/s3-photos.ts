@@ -0,0 +1,105 @@
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { s3Client, S3_BUCKET } from '@/lib/aws-config';
+import { PhotosRepository } from './types';
+
+/**
+ * Photos in the S3 bucket, recorded on submissions as
+ * https://{bucket}.s3.amazonaws.com/{key}
+ */
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey');
+}
+
+function urlFor(key: string): string {
+  return `https://${S3_BUCKET}.s3.amazonaws.com/${key}`;
+}
+
+export const s3Photos: PhotosRepository = {
+  async put(key, body, contentType, metadata) {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentDisposition: 'inline',
+      Metadata: metadata,
+      ServerSideEncryption: 'AES256',
+      StorageClass: 'STANDARD_IA',
+    }));
+    return urlFor(key);
+  },
+
+  async get(key) {
+    try {
+      const object = await s3Client.send(new GetObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: key,
+      }));
+      if (!object.Body) {
+        throw new Error('Photo is empty');
+      }
+      return {
+        body: Buffer.from(await object.Body.transformToByteArray()),
+        contentType: object.ContentType,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async head(key) {
+    try {
+      const head = await s3Client.send(new HeadObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: key,
+      }));
+      return {
+        contentType: head.ContentType,
+        size: head.ContentLength || 0,
+        lastModified: head.LastModified?.toISOString(),
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await s3Client.send(new DeleteObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+    }));
+  },
+
+  getViewUrl(key, expiresInSeconds) {
+    return getSignedUrl(s3Client, new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+    }), { expiresIn: expiresInSeconds });
+  },
+
+  urlFor,
+
+  keyFromUrl(url) {
+    // Some early submissions recorded the bare key
+    if (url.startsWith('submissions/')) {
+      return url;
+    }
+    try {
+      const parsed = new URL(url);
+      if (!parsed.hostname.includes('s3.amazonaws.com') && !parsed.hostname.includes('s3-')) {
+        return null;
+      }
+      return decodeURIComponent(parsed.pathname.substring(1)) || null;
+    } catch {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,331 @@
+import {
+  AdminSession,
+  AdminUser,
+  AnalysisJob,
+  AnalysisJobStatus,
+  AuditEvent,
+  AuditLogQueryParams,
+  ConsentRecord,
+  DuplicateStatus,
+  EmailSuppression,
+  HealthSubmission,
+  LocationFormVersion,
+  OutreachLocation,
+  PaginatedResult,
+  Participant,
+  SmsCampaign,
+  SmsCampaignRecipient,
+  SmsLogEntry,
+  SmsLogQueryParams,
+  SmsSuppression,
+  SmsTemplate,
+  SubmissionIdempotencyKey,
+  SubmissionsQueryParams,
+} from '@/types';
+
+export interface SubmissionListOptions extends SubmissionsQueryParams {
+  pageSize?: number;
+  exclusiveStartKey?: Record<string, unknown> | undefined;
+  duplicateStatuses?: DuplicateStatus[];
+}
+
+/** Identity keys a new submission is matched on; unset keys are skipped */
+export type SubmissionMatchKeys = Pick<HealthSubmission, 'submissionFingerprint' | 'phoneKey' | 'identityKey'>;
+
+/**
+ * Persistence for health screening submissions.
+ * Update methods return null when the record does not exist.
+ */
+export interface SubmissionsRepository {
+  create(submission: HealthSubmission): Promise<void>;
+  get(id: string): Promise<HealthSubmission | null>;
+  list(options: SubmissionListOptions): Promise<PaginatedResult<HealthSubmission>>;
+  /**
+   * Undefined values in `updates` are skipped; list attributes to delete in `remove`
+   */
+  update(
+    id: string,
+    updates: Partial<HealthSubmission>,
+    remove?: (keyof HealthSubmission)[]
+  ): Promise<HealthSubmission | null>;
+  existsForChurch(churchId: string): Promise<boolean>;
+  /** Most recent submissions sharing any of the keys, newest first */
+  findMatches(keys: SubmissionMatchKeys, limit: number): Promise<HealthSubmission[]>;
+  /** Every screening linked to the participant, oldest first */
+  listByParticipant(participantId: string): Promise<HealthSubmission[]>;
+}
+
+/**
+ * Persistence for participants. Screenings reference a participant by id,
+ * so the participant record itself only holds identity details.
+ */
+export interface ParticipantsRepository {
+  get(id: string): Promise<Participant | null>;
+  create(participant: Participant): Promise<void>;
+  update(id: string, updates: Partial<Participant>): Promise<Participant | null>;
+}
+
+/**
+ * Queue of selfie analysis jobs. Finished jobs are deleted, so the queue
+ * only holds pending and failed work and can be listed in full.
+ */
+export interface AnalysisJobsRepository {
+  /** Create the job, replacing any existing job for the same submission */
+  put(job: AnalysisJob): Promise<void>;
+  get(id: string): Promise<AnalysisJob | null>;
+  list(status?: AnalysisJobStatus): Promise<AnalysisJob[]>;
+  update(id: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob | null>;
+  /**
+   * Take the lease on a pending job until `lockedUntil`. Returns null when the
+   * job is missing, failed, or leased by another runner whose lease has not expired.
+   */
+  claim(id: string, now: string, lockedUntil: string): Promise<AnalysisJob | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Persistence for outreach locations (churches).
+ */
+export interface LocationsRepository {
+  list(): Promise<OutreachLocation[]>;
+  get(id: string): Promise<OutreachLocation | null>;
+  create(location: OutreachLocation): Promise<void>;
+  update(id: string, updates: Partial<OutreachLocation>): Promise<OutreachLocation | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Published versions of each location's custom fields. Like the consent
+ * ledger, versions are only ever added.
+ */
+export interface FormVersionsRepository {
+  /** Save a new version; returns false when the location already has that version number */
+  create(formVersion: LocationFormVersion): Promise<boolean>;
+  get(churchId: string, version: number): Promise<LocationFormVersion | null>;
+  /** Every version of a location's form, newest first */
+  listByLocation(churchId: string): Promise<LocationFormVersion[]>;
+}
+
+/**
+ * Stored SMS templates. The table is small (a few templates per location),
+ * so it is listed in full and filtered by the caller.
+ */
+export interface SmsTemplatesRepository {
+  list(): Promise<SmsTemplate[]>;
+  get(id: string): Promise<SmsTemplate | null>;
+  create(template: SmsTemplate): Promise<void>;
+  update(id: string, updates: Partial<SmsTemplate>): Promise<SmsTemplate | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Phone numbers that must not be sent SMS, keyed by E.164 number.
+ * Small enough to list in full.
+ */
+export interface SmsSuppressionsRepository {
+  get(phone: string): Promise<SmsSuppression | null>;
+  list(): Promise<SmsSuppression[]>;
+  /** Create the entry, replacing any existing one for the number */
+  put(suppression: SmsSuppression): Promise<void>;
+  delete(phone: string): Promise<boolean>;
+}
+
+/**
+ * Email addresses that unsubscribed, keyed by the lowercased address
+ */
+export interface EmailSuppressionsRepository {
+  get(email: string): Promise<EmailSuppression | null>;
+  /** Create the entry, replacing any existing one for the address */
+  put(suppression: EmailSuppression): Promise<void>;
+}
+
+/**
+ * Append-only TCPA consent ledger. Like the audit log, there are no update
+ * or delete methods.
+ */
+export interface ConsentLedgerRepository {
+  /** Throws if an entry with the same id already exists */
+  append(record: ConsentRecord): Promise<void>;
+  /** Every entry for an E.164 number, newest first */
+  listByPhone(phone: string): Promise<ConsentRecord[]>;
+}
+
+/**
+ * SMS campaigns. There are few enough to list in full.
+ */
+export interface SmsCampaignsRepository {
+  list(): Promise<SmsCampaign[]>;
+  get(id: string): Promise<SmsCampaign | null>;
+  create(campaign: SmsCampaign): Promise<void>;
+  update(id: string, updates: Partial<SmsCampaign>): Promise<SmsCampaign | null>;
+  /**
+   * Mark a scheduled or sending campaign as sending and take the lease on it
+   * until `lockedUntil`. Returns null when the campaign is missing, finished,
+   * cancelled, or leased by another runner whose lease has not expired.
+   */
+  claim(id: string, now: string, lockedUntil: string): Promise<SmsCampaign | null>;
+}
+
+/**
+ * Per-recipient results of SMS campaigns, keyed by campaign and submission.
+ */
+export interface SmsCampaignRecipientsRepository {
+  /** Save a new campaign's recipients */
+  createMany(recipients: SmsCampaignRecipient[]): Promise<void>;
+  listByCampaign(campaignId: string): Promise<SmsCampaignRecipient[]>;
+  update(
+    campaignId: string,
+    submissionId: string,
+    updates: Partial<SmsCampaignRecipient>
+  ): Promise<SmsCampaignRecipient | null>;
+}
+
+export interface SmsLogListOptions extends SmsLogQueryParams {
+  pageSize?: number;
+  exclusiveStartKey?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Every text sent or received. Entries only change when a delivery
+ * status arrives, and are never deleted.
+ */
+export interface SmsLogRepository {
+  /** Throws if an entry with the same id already exists */
+  create(entry: SmsLogEntry): Promise<void>;
+  get(id: string): Promise<SmsLogEntry | null>;
+  update(id: string, updates: Partial<SmsLogEntry>): Promise<SmsLogEntry | null>;
+  /** Every message about a submission, newest first */
+  listBySubmission(submissionId: string): Promise<SmsLogEntry[]>;
+  /** Newest first */
+  list(options: SmsLogListOptions): Promise<PaginatedResult<SmsLogEntry>>;
+}
+
+/**
+ * Persistence for admin portal users.
+ */
+export interface UsersRepository {
+  list(): Promise<AdminUser[]>;
+  get(id: string): Promise<AdminUser | null>;
+  findByEmail(email: string): Promise<AdminUser | null>;
+  create(user: AdminUser): Promise<void>;
+  update(id: string, updates: Partial<AdminUser>): Promise<AdminUser | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SessionsRepository {
+  create(session: AdminSession): Promise<void>;
+  get(id: string): Promise<AdminSession | null>;
+  update(id: string, updates: Partial<AdminSession>): Promise<AdminSession | null>;
+  /** Every session of a user, including revoked and expired ones */
+  listByUser(userId: string): Promise<AdminSession[]>;
+  /**
+   * Apply `updates` only if the session is not revoked and still expects
+   * `expectedRefreshTokenId`. Returns null when another request rotated it first.
+   */
+  rotate(
+    id: string,
+    expectedRefreshTokenId: string,
+    updates: Partial<AdminSession>
+  ): Promise<AdminSession | null>;
+}
+
+export interface AuditLogListOptions extends AuditLogQueryParams {
+  pageSize?: number;
+  exclusiveStartKey?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Append-only persistence for the audit log. There are deliberately no
+ * update or delete methods; `list` returns the newest entries first.
+ */
+export interface AuditLogRepository {
+  /** Throws if an entry with the same id already exists */
+  append(event: AuditEvent): Promise<void>;
+  list(options: AuditLogListOptions): Promise<PaginatedResult<AuditEvent>>;
+}
+
+/** Numeric counters stored on a single rollup record, keyed by field name */
+export type RollupCounters = Record<string, number>;
+
+/**
+ * Persistence for pre-aggregated dashboard counters.
+ * Records are addressed by string keys such as `totals` or `day#2024-05-01`;
+ * recent-submission lists share the same key space but hold ids instead of counters.
+ */
+export interface RollupsRepository {
+  /** Add the given amounts to a record's counters, creating the record when missing */
+  increment(key: string, deltas: RollupCounters): Promise<void>;
+  getMany(keys: string[]): Promise<Record<string, RollupCounters>>;
+  /** Most recent submission ids in the given list, newest first */
+  getRecent(listKey: string): Promise<string[]>;
+  pushRecent(listKey: string, submissionId: string, limit: number): Promise<void>;
+  /** Replace every rollup record and recent list, used when rebuilding from the submissions table */
+  replaceAll(
+    records: Record<string, RollupCounters>,
+    recentLists: Record<string, string[]>
+  ): Promise<void>;
+}
+
+export type StorageBackendName = 'dynamodb' | 'local';
+
+export interface IdempotencyKeysRepository {
+  get(id: string): Promise<SubmissionIdempotencyKey | null>;
+  /**
+   * Save a processing key. Returns false when the key already exists, unless it
+   * is still processing and its lease expired before `now` (the request died).
+   */
+  claim(key: SubmissionIdempotencyKey, now: string): Promise<boolean>;
+  update(id: string, updates: Partial<SubmissionIdempotencyKey>): Promise<SubmissionIdempotencyKey | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/** Stored photo details, without the bytes */
+export interface StoredPhotoInfo {
+  contentType?: string;
+  size: number;
+  lastModified?: string;
+}
+
+/**
+ * Selfie photos, stored under keys of the form submissions/{submissionId}/{filename}.
+ * Submissions record the URL `put` returns as `selfieUrl`; `keyFromUrl` maps it back.
+ */
+export interface PhotosRepository {
+  /** Save a photo and return the URL to record on the submission */
+  put(key: string, body: Buffer, contentType: string, metadata?: Record<string, string>): Promise<string>;
+  /** Null when nothing is stored under the key */
+  get(key: string): Promise<{ body: Buffer; contentType?: string } | null>;
+  /** Null when nothing is stored under the key */
+  head(key: string): Promise<StoredPhotoInfo | null>;
+  delete(key: string): Promise<void>;
+  /** Short-lived URL a browser can load the photo from */
+  getViewUrl(key: string, expiresInSeconds: number): Promise<string>;
+  /** URL recorded on submissions for a stored key */
+  urlFor(key: string): string;
+  /** Key of a recorded photo URL or a bare key, or null when it does not point at this store */
+  keyFromUrl(url: string): string | null;
+}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  submissions: SubmissionsRepository;
+  participants: ParticipantsRepository;
+  analysisJobs: AnalysisJobsRepository;
+  locations: LocationsRepository;
+  formVersions: FormVersionsRepository;
+  smsTemplates: SmsTemplatesRepository;
+  smsSuppressions: SmsSuppressionsRepository;
+  consentLedger: ConsentLedgerRepository;
+  smsCampaigns: SmsCampaignsRepository;
+  smsCampaignRecipients: SmsCampaignRecipientsRepository;
+  smsLog: SmsLogRepository;
+  emailSuppressions: EmailSuppressionsRepository;
+  users: UsersRepository;
+  rollups: RollupsRepository;
+  sessions: SessionsRepository;
+  idempotencyKeys: IdempotencyKeysRepository;
+  audit: AuditLogRepository;
+  photos: PhotosRepository;
+  /** Throws when the backing store is unreachable */
+  ping(): Promise<void>;
+}
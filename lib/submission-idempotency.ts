@@ -0,0 +1,96 @@
+import { NextApiRequest } from 'next';
+import { getStorage } from '@/lib/storage';
+import { SubmissionIdempotencyKey } from '@/types';
+
+/**
+ * Idempotency keys for form submissions.
+ *
+ * The form sends an `Idempotency-Key` header with a key it generated when the
+ * participant pressed submit, and reuses it for every retry, including syncs
+ * of submissions queued while offline. The first request to claim a key
+ * creates the submission; later requests with a completed key get the same
+ * submission id back instead of creating a duplicate. The key names its
+ * submission from the claim on, so a request that saved the submission but
+ * failed to complete the key still replays.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// Long enough for the photo upload and save; a request that dies mid-way frees the key after this
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+
+// Offline devices may sync days after the event
+const KEY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+export type IdempotencyClaimResult =
+  | { status: 'claimed' }
+  | { status: 'completed'; submissionId: string }
+  | { status: 'in_progress' };
+
+/** The request's idempotency key, or undefined when it did not send one */
+export function readIdempotencyKey(req: NextApiRequest): string | undefined {
+  const value = req.headers[IDEMPOTENCY_KEY_HEADER];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+async function savedSubmissionId(record: SubmissionIdempotencyKey | null): Promise<string | undefined> {
+  if (!record?.submissionId) {
+    return undefined;
+  }
+  if (record.status === 'completed') {
+    return record.submissionId;
+  }
+  // Still processing: either the save is under way or the request died after it
+  return (await getStorage().submissions.get(record.submissionId)) ? record.submissionId : undefined;
+}
+
+/**
+ * Take the key for the submission this request will save as `submissionId`.
+ * Returns the earlier submission id when a previous request with the key
+ * already saved one, and `in_progress` while another request holds it.
+ */
+export async function claimIdempotencyKey(key: string, submissionId: string): Promise<IdempotencyClaimResult> {
+  const repository = getStorage().idempotencyKeys;
+
+  const existingSubmissionId = await savedSubmissionId(await repository.get(key));
+  if (existingSubmissionId) {
+    return { status: 'completed', submissionId: existingSubmissionId };
+  }
+
+  const now = new Date();
+  const isClaimed = await repository.claim({
+    id: key,
+    status: 'processing',
+    submissionId,
+    createdAt: now.toISOString(),
+    lockedUntil: new Date(now.getTime() + PROCESSING_LEASE_MS).toISOString(),
+    ttl: Math.floor((now.getTime() + KEY_RETENTION_MS) / 1000),
+  }, now.toISOString());
+  if (isClaimed) {
+    return { status: 'claimed' };
+  }
+
+  // Another request claimed it between the read and the claim
+  const claimedSubmissionId = await savedSubmissionId(await repository.get(key));
+  return claimedSubmissionId ? { status: 'completed', submissionId: claimedSubmissionId } : { status: 'in_progress' };
+}
+
+/** Mark the key's submission saved, so retries replay it without looking it up */
+export async function completeIdempotencyKey(key: string, submissionId: string): Promise<void> {
+  await getStorage().idempotencyKeys.update(key, {
+    status: 'completed',
+    submissionId,
+    completedAt: new Date().toISOString(),
+  });
+}
+
+/** Free a key whose request saved nothing, so a corrected retry can use it */
+export async function releaseIdempotencyKey(key: string): Promise<void> {
+  await getStorage().idempotencyKeys.delete(key);
+}
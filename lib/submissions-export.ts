@@ -0,0 +1,130 @@
+import { Writable } from 'stream';
+import { submissionsService } from '@/lib/submissions-service';
+import { XlsxStreamWriter, XlsxCellValue } from '@/lib/xlsx-stream';
+import { CellValue, ExportColumn, ExportContext, ExportFormat } from '@/lib/export-columns';
+import { ExportFilterOptions } from '@/types';
+
+const EXPORT_PAGE_SIZE = 500;
+
+/** Only the header fields of a column are needed to write rows */
+type ColumnHeader = Pick<ExportColumn, 'id' | 'title'>;
+
+export interface RowWriter {
+  start(columns: ColumnHeader[]): Promise<void>;
+  writeRow(values: CellValue[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export function writeText(out: Writable, text: string): Promise<void> {
+  if (out.write(text)) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => out.once('drain', resolve));
+}
+
+function formatBoolean(value: CellValue): XlsxCellValue {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value;
+}
+
+function escapeCsv(value: CellValue): string {
+  const formatted = formatBoolean(value);
+  if (formatted === null || formatted === undefined) return '';
+  let text = String(formatted);
+
+  // Neutralize spreadsheet formulas (CSV injection), but leave phone-like values alone
+  if (/^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Row writer for a download format. `sheetName` names the XLSX worksheet.
+ */
+export function createRowWriter(format: ExportFormat, out: Writable, sheetName = 'Submissions'): RowWriter {
+  switch (format) {
+    case 'xlsx': {
+      const xlsx = new XlsxStreamWriter(out);
+      return {
+        start: (columns) => xlsx.start(columns.map((column) => column.title), sheetName),
+        writeRow: (values) => xlsx.writeRow(values.map(formatBoolean)),
+        end: () => xlsx.end(),
+      };
+    }
+    case 'ndjson': {
+      let columnIds: string[] = [];
+      return {
+        start: async (columns) => {
+          columnIds = columns.map((column) => column.id);
+        },
+        writeRow: (values) => {
+          const record = Object.fromEntries(columnIds.map((id, idx) => [id, values[idx] ?? null]));
+          return writeText(out, `${JSON.stringify(record)}\n`);
+        },
+        end: async () => undefined,
+      };
+    }
+    case 'csv':
+    default:
+      return {
+        // Byte order mark so Excel opens UTF-8 names correctly
+        start: (columns) =>
+          writeText(out, `\uFEFF${columns.map((column) => escapeCsv(column.title)).join(',')}\r\n`),
+        writeRow: (values) => writeText(out, `${values.map(escapeCsv).join(',')}\r\n`),
+        end: async () => undefined,
+      };
+  }
+}
+
+/**
+ * Page through submissions matching the filters and stream them to `out`
+ * in the requested format. Returns the number of rows written.
+ */
+export async function streamSubmissionsExport(
+  out: Writable,
+  options: {
+    format: ExportFormat;
+    filters: ExportFilterOptions;
+    columns: ExportColumn[];
+    context: ExportContext;
+  }
+): Promise<number> {
+  const { format, filters, columns, context } = options;
+  const writer = createRowWriter(format, out);
+  let rowCount = 0;
+
+  await writer.start(columns);
+
+  // Church filters map onto the per-church query; no church filter means one unscoped pass.
+  // Repeated ids would otherwise export the same rows twice.
+  const churchIds: (string | undefined)[] =
+    filters.churchIds && filters.churchIds.length > 0 ? [...new Set(filters.churchIds)] : [undefined];
+
+  for (const churchId of churchIds) {
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const page = await submissionsService.fetchSubmissionsPage({
+        churchId,
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+        riskLevels: filters.riskLevels,
+        followUpStatuses: filters.followUpStatuses,
+        pageSize: EXPORT_PAGE_SIZE,
+        exclusiveStartKey,
+      });
+
+      for (const submission of page.items) {
+        await writer.writeRow(columns.map((column) => column.value(submission, context)));
+        rowCount++;
+      }
+
+      exclusiveStartKey = page.lastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey);
+  }
+
+  await writer.end();
+  return rowCount;
+}
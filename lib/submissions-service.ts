@@ -1,17 +1,16 @@
-import { QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, TABLES, INDEXES } from '@/lib/aws-config';
+import { getStorage, SubmissionListOptions } from '@/lib/storage';
+import { applySubmissionToRollups } from '@/lib/dashboard-rollups';
+import { assessRisk, RiskAssessment, toRiskInputs } from '@/lib/risk-engine';
+import { SelfieAnalysisResult } from '@/lib/selfie-analysis';
 import {
   HealthSubmission,
   PaginatedResult,
   SubmissionsQueryParams,
 } from '@/types';
 
-export interface SubmissionQueryOptions extends SubmissionsQueryParams {
-  pageSize?: number;
-  exclusiveStartKey?: Record<string, unknown> | undefined;
-}
+export type SubmissionQueryOptions = SubmissionListOptions;
 
-function encodeCursor(key?: Record<string, unknown>): string | undefined {
+export function encodeCursor(key?: Record<string, unknown>): string | undefined {
   if (!key) return undefined;
   return Buffer.from(JSON.stringify(key), 'utf8').toString('base64');
 }
@@ -22,144 +21,11 @@ export function decodeCursor(cursor?: string): Record<string, unknown> | undefin
     const json = Buffer.from(cursor, 'base64').toString('utf8');
     return JSON.parse(json);
   } catch (error) {
-    console.warn('Failed to decode submissions cursor', error);
+    console.warn('Failed to decode pagination cursor', error);
     return undefined;
   }
 }
 
-function hasChurchAndDateFilters(options: SubmissionQueryOptions): boolean {
-  return Boolean(options.churchId && (options.startDate || options.endDate) && INDEXES.SUBMISSIONS_BY_CHURCH_DATE);
-}
-
-function buildDynamoInput(
-  options: SubmissionQueryOptions
-) {
-  const {
-    churchId,
-    startDate,
-    endDate,
-    riskLevels,
-    followUpStatuses,
-    pageSize,
-    exclusiveStartKey,
-  } = options;
-
-  const filterExpressions: string[] = [];
-  const expressionAttributeValues: Record<string, unknown> = {};
-  const expressionAttributeNames: Record<string, string> = {};
-
-  if (churchId) {
-    expressionAttributeNames['#churchId'] = 'churchId';
-    expressionAttributeValues[':churchId'] = churchId;
-    filterExpressions.push('#churchId = :churchId');
-  }
-
-  if (startDate) {
-    expressionAttributeNames['#submissionDate'] = 'submissionDate';
-    expressionAttributeValues[':startDate'] = startDate;
-    filterExpressions.push('#submissionDate >= :startDate');
-  }
-
-  if (endDate) {
-    expressionAttributeNames['#submissionDate'] = 'submissionDate';
-    expressionAttributeValues[':endDate'] = endDate;
-    filterExpressions.push('#submissionDate <= :endDate');
-  }
-
-  if (riskLevels && riskLevels.length > 0) {
-    expressionAttributeNames['#riskLevel'] = 'healthRiskLevel';
-    const placeholders = riskLevels.map((level, idx) => {
-      const placeholder = `:riskLevel${idx}`;
-      expressionAttributeValues[placeholder] = level;
-      return placeholder;
-    });
-    filterExpressions.push(`#riskLevel IN (${placeholders.join(', ')})`);
-  }
-
-  if (followUpStatuses && followUpStatuses.length > 0) {
-    expressionAttributeNames['#followUpStatus'] = 'followUpStatus';
-    const placeholders = followUpStatuses.map((status, idx) => {
-      const placeholder = `:followUpStatus${idx}`;
-      expressionAttributeValues[placeholder] = status;
-      return placeholder;
-    });
-    filterExpressions.push(`#followUpStatus IN (${placeholders.join(', ')})`);
-  }
-
-  if (hasChurchAndDateFilters(options)) {
-    const queryParams: any = {
-      TableName: TABLES.SUBMISSIONS,
-      IndexName: INDEXES.SUBMISSIONS_BY_CHURCH_DATE,
-      KeyConditionExpression: '#churchId = :churchId',
-      ExpressionAttributeNames: {
-        '#churchId': 'churchId',
-      },
-      ExpressionAttributeValues: {
-        ':churchId': churchId,
-      },
-      Limit: pageSize,
-    };
-
-    if (startDate && endDate) {
-      queryParams.KeyConditionExpression += ' AND #submissionDate BETWEEN :startDate AND :endDate';
-      queryParams.ExpressionAttributeNames['#submissionDate'] = 'submissionDate';
-      queryParams.ExpressionAttributeValues[':startDate'] = startDate;
-      queryParams.ExpressionAttributeValues[':endDate'] = endDate;
-    } else if (startDate) {
-      queryParams.KeyConditionExpression += ' AND #submissionDate >= :startDate';
-      queryParams.ExpressionAttributeNames['#submissionDate'] = 'submissionDate';
-      queryParams.ExpressionAttributeValues[':startDate'] = startDate;
-    } else if (endDate) {
-      queryParams.KeyConditionExpression += ' AND #submissionDate <= :endDate';
-      queryParams.ExpressionAttributeNames['#submissionDate'] = 'submissionDate';
-      queryParams.ExpressionAttributeValues[':endDate'] = endDate;
-    }
-
-    if (filterExpressions.length > 0) {
-      queryParams.FilterExpression = filterExpressions.join(' AND ');
-      if (Object.keys(expressionAttributeNames).length > 0) {
-        queryParams.ExpressionAttributeNames = {
-          ...queryParams.ExpressionAttributeNames,
-          ...expressionAttributeNames,
-        };
-      }
-      if (Object.keys(expressionAttributeValues).length > 0) {
-        queryParams.ExpressionAttributeValues = {
-          ...queryParams.ExpressionAttributeValues,
-          ...expressionAttributeValues,
-        };
-      }
-    }
-
-    if (exclusiveStartKey) {
-      queryParams.ExclusiveStartKey = exclusiveStartKey;
-    }
-
-    return { type: 'Query' as const, params: queryParams };
-  }
-
-  const scanParams: any = {
-    TableName: TABLES.SUBMISSIONS,
-    Limit: pageSize,
-  };
-
-  if (exclusiveStartKey) {
-    scanParams.ExclusiveStartKey = exclusiveStartKey;
-  }
-
-  if (filterExpressions.length > 0) {
-    scanParams.FilterExpression = filterExpressions.join(' AND ');
-    if (Object.keys(expressionAttributeNames).length > 0) {
-      scanParams.ExpressionAttributeNames = expressionAttributeNames;
-    }
-    if (Object.keys(expressionAttributeValues).length > 0) {
-      scanParams.ExpressionAttributeValues = expressionAttributeValues;
-    }
-  }
-
-  return { type: 'Scan' as const, params: scanParams };
-}
-
 function applySearchFilter(
   submissions: HealthSubmission[],
   searchTerm?: string
@@ -193,15 +59,9 @@ export async function fetchSubmissionsPage(
 ): Promise<PaginatedResult<HealthSubmission>> {
   const { searchTerm } = options;
 
-  const input = buildDynamoInput(options);
-  const result = await docClient.send(
-    input.type === 'Query'
-      ? new QueryCommand(input.params)
-      : new ScanCommand(input.params)
-  );
+  const result = await getStorage().submissions.list(options);
 
-  const items = (result.Items || []) as HealthSubmission[];
-  const filteredItems = applySearchFilter(items, searchTerm).sort(
+  const filteredItems = applySearchFilter(result.items, searchTerm).sort(
     (a, b) =>
       new Date(b.submissionDate).getTime() -
       new Date(a.submissionDate).getTime()
@@ -209,8 +69,8 @@ export async function fetchSubmissionsPage(
 
   return {
     items: filteredItems,
-    lastEvaluatedKey: result.LastEvaluatedKey,
-    nextToken: encodeCursor(result.LastEvaluatedKey as Record<string, unknown> | undefined),
+    lastEvaluatedKey: result.lastEvaluatedKey,
+    nextToken: encodeCursor(result.lastEvaluatedKey as Record<string, unknown> | undefined),
   };
 }
 
@@ -234,61 +94,160 @@ export async function fetchAllSubmissions(
   return submissions;
 }
 
+async function updateRollups(after: HealthSubmission, before?: HealthSubmission | null) {
+  try {
+    await applySubmissionToRollups(after, before);
+  } catch (error) {
+    // Rollups can be rebuilt from the submissions table, so never fail the write over them
+    console.error(`Failed to update dashboard rollups for submission ${after.id}:`, error);
+  }
+}
+
+export async function createSubmission(submission: HealthSubmission): Promise<void> {
+  await getStorage().submissions.create(submission);
+  await updateRollups(submission);
+}
+
+export async function getSubmission(id: string): Promise<HealthSubmission | null> {
+  return getStorage().submissions.get(id);
+}
+
+export interface FollowUpUpdateResult {
+  /** Record as it was before the update, for the audit trail */
+  before: HealthSubmission;
+  updated: HealthSubmission;
+}
+
 export async function updateFollowUp(
   submissionId: string,
   updates: {
     followUpStatus?: string;
     followUpNotes?: string;
     followUpDate?: string;
-  }
-): Promise<HealthSubmission> {
-  const { UpdateCommand } = await import('@aws-sdk/lib-dynamodb');
-  const { docClient, TABLES } = await import('@/lib/aws-config');
-
-  const updateExpression: string[] = [];
-  const expressionAttributeValues: Record<string, any> = {};
-  const expressionAttributeNames: Record<string, string> = {};
-
-  if (updates.followUpStatus !== undefined) {
-    updateExpression.push('#followUpStatus = :followUpStatus');
-    expressionAttributeNames['#followUpStatus'] = 'followUpStatus';
-    expressionAttributeValues[':followUpStatus'] = updates.followUpStatus;
-  }
-
-  if (updates.followUpNotes !== undefined) {
-    updateExpression.push('#followUpNotes = :followUpNotes');
-    expressionAttributeNames['#followUpNotes'] = 'followUpNotes';
-    expressionAttributeValues[':followUpNotes'] = updates.followUpNotes;
-  }
+  },
+  churchScope?: string
+): Promise<FollowUpUpdateResult | null> {
+  try {
+    const { submissions } = getStorage();
+    const before = await submissions.get(submissionId);
+    // Submissions outside the caller's location are reported as missing
+    if (!before || (churchScope && before.churchId !== churchScope)) {
+      return null;
+    }
 
-  if (updates.followUpDate !== undefined) {
-    updateExpression.push('#followUpDate = :followUpDate');
-    expressionAttributeNames['#followUpDate'] = 'followUpDate';
-    expressionAttributeValues[':followUpDate'] = updates.followUpDate;
-  }
+    const updated = await submissions.update(submissionId, {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    } as Partial<HealthSubmission>);
 
-  const updateParams = {
-    TableName: TABLES.SUBMISSIONS,
-    Key: { id: submissionId },
-    UpdateExpression: `SET ${updateExpression.join(', ')}`,
-    ExpressionAttributeNames: expressionAttributeNames,
-    ExpressionAttributeValues: expressionAttributeValues,
-    ReturnValues: 'ALL_NEW' as const,
-  };
+    if (!updated) {
+      return null;
+    }
 
-  try {
-    const result = await docClient.send(new UpdateCommand(updateParams));
-    return result.Attributes as HealthSubmission;
+    await updateRollups(updated, before);
+    return { before, updated };
   } catch (error) {
     console.error('Error updating follow-up:', error);
     throw new Error('Failed to update follow-up information');
   }
 }
 
+/**
+ * Store a risk result computed under another rule version and keep the dashboard rollups in step
+ */
+export async function updateRiskAssessment(
+  before: HealthSubmission,
+  assessment: RiskAssessment
+): Promise<HealthSubmission | null> {
+  const now = new Date().toISOString();
+  const updated = await getStorage().submissions.update(before.id, {
+    healthRiskScore: assessment.riskScore,
+    healthRiskLevel: assessment.riskLevel,
+    recommendations: assessment.recommendations,
+    riskRuleVersion: assessment.ruleVersion,
+    riskScoredAt: now,
+    updatedAt: now,
+  });
+
+  if (updated) {
+    await updateRollups(updated, before);
+  }
+  return updated;
+}
+
+/**
+ * Store a selfie analysis result and score the submission under the current
+ * risk rules, then update the dashboard rollups. Without a usable selfie the
+ * questionnaire answers are scored on their own.
+ */
+/** Fields filled in from a selfie; a new result replaces all of them */
+const SELFIE_ESTIMATE_FIELDS: (keyof HealthSubmission)[] = [
+  'estimatedBMI',
+  'bmiCategory',
+  'estimatedAge',
+  'estimatedGender',
+];
+
+export async function updateSelfieAnalysis(
+  before: HealthSubmission,
+  analysis: SelfieAnalysisResult
+): Promise<HealthSubmission | null> {
+  const now = new Date().toISOString();
+  const { submissions } = getStorage();
+
+  if (analysis.status === 'unknown') {
+    const assessment = assessRisk(toRiskInputs({ ...before, estimatedBMI: undefined }));
+    const updated = await submissions.update(before.id, {
+      analysisStatus: 'unknown',
+      analysisProvider: analysis.provider,
+      analysisError: analysis.reason,
+      analyzedAt: now,
+      healthRiskScore: assessment.riskScore,
+      healthRiskLevel: assessment.riskLevel,
+      recommendations: assessment.recommendations,
+      riskRuleVersion: assessment.ruleVersion,
+      riskScoredAt: now,
+      updatedAt: now,
+    }, SELFIE_ESTIMATE_FIELDS);
+
+    if (updated) {
+      await updateRollups(updated, before);
+    }
+    return updated;
+  }
+
+  const assessment = assessRisk(toRiskInputs({ ...before, estimatedBMI: analysis.bmi.value }));
+  const updated = await submissions.update(before.id, {
+    analysisStatus: 'complete',
+    analysisProvider: analysis.provider,
+    analysisError: '',
+    analyzedAt: now,
+    estimatedBMI: analysis.bmi.value,
+    bmiCategory: analysis.bmi.category,
+    estimatedAge: analysis.age?.estimated,
+    estimatedGender: analysis.gender?.predicted,
+    healthRiskScore: assessment.riskScore,
+    healthRiskLevel: assessment.riskLevel,
+    recommendations: assessment.recommendations,
+    riskRuleVersion: assessment.ruleVersion,
+    riskScoredAt: now,
+    updatedAt: now,
+  }, SELFIE_ESTIMATE_FIELDS);
+
+  if (updated) {
+    await updateRollups(updated, before);
+  }
+  return updated;
+}
+
 // Export singleton instance for backward compatibility
 export const submissionsService = {
   fetchSubmissionsPage,
   fetchAllSubmissions,
   decodeCursor,
+  createSubmission,
+  getSubmission,
   updateFollowUp,
+  updateRiskAssessment,
+  updateSelfieAnalysis,
 };
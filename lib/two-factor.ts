@@ -0,0 +1,250 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { getJwtSecret, requireAuth } from '@/lib/auth';
+import { checkRateLimit, createRateLimitHeaders, getClientIP } from '@/lib/rate-limiter';
+import { getStorage } from '@/lib/storage';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isTotpCode,
+  verifyTotpCode,
+} from '@/lib/totp';
+import { AdminTwoFactor, AdminUser, TwoFactorEnrollment, TwoFactorStatus } from '@/types';
+
+/**
+ * TOTP two-factor authentication for portal accounts.
+ *
+ * After the password check, accounts with two-factor enabled receive a
+ * short-lived challenge token instead of a session; the session only starts
+ * once `/api/admin/two-factor/verify` accepts a code. When
+ * `APP_REQUIRE_TWO_FACTOR=true`, accounts without it get an `enroll`
+ * challenge and must finish enrollment before signing in.
+ */
+
+const TWO_FACTOR_ISSUER = process.env.APP_TWO_FACTOR_ISSUER || 'Health Screening Admin';
+
+// Time allowed between the password step and the code step
+const CHALLENGE_TOKEN_TTL = '10m';
+
+export type TwoFactorChallengePurpose = 'verify' | 'enroll';
+
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: TwoFactorChallengePurpose;
+  type: 'two_factor';
+}
+
+export function isTwoFactorRequired(): boolean {
+  return process.env.APP_REQUIRE_TWO_FACTOR === 'true';
+}
+
+export function isTwoFactorEnabled(user: Pick<AdminUser, 'twoFactor'>): boolean {
+  return !!user.twoFactor?.enabledAt;
+}
+
+export function getTwoFactorStatus(user: Pick<AdminUser, 'twoFactor'> | null): TwoFactorStatus {
+  const enabled = !!user && isTwoFactorEnabled(user);
+  return {
+    enabled,
+    required: isTwoFactorRequired(),
+    recoveryCodesRemaining: enabled ? user?.twoFactor?.recoveryCodeHashes.length || 0 : 0,
+  };
+}
+
+export function createTwoFactorChallenge(userId: string, purpose: TwoFactorChallengePurpose): string {
+  const payload: TwoFactorChallengePayload = { userId, purpose, type: 'two_factor' };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: CHALLENGE_TOKEN_TTL });
+}
+
+export function verifyTwoFactorChallenge(
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): TwoFactorChallengePayload | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as TwoFactorChallengePayload;
+    return decoded.type === 'two_factor' && decoded.purpose === purpose ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply the TWO_FACTOR rate limit to both the client IP and the account,
+ * so codes cannot be guessed by spreading attempts across addresses.
+ * Sends a 429 and returns false when either limit is exceeded.
+ */
+export async function enforceTwoFactorRateLimit(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  userId: string
+): Promise<boolean> {
+  const clientIP = getClientIP(req);
+  const [byIp, byUser] = await Promise.all([
+    checkRateLimit(clientIP, 'TWO_FACTOR'),
+    checkRateLimit(`user:${userId}`, 'TWO_FACTOR'),
+  ]);
+  const limiting = !byIp.allowed || (byUser.allowed && byIp.remaining <= byUser.remaining) ? byIp : byUser;
+
+  const rateLimitHeaders = createRateLimitHeaders(limiting);
+  Object.entries(rateLimitHeaders).forEach(([key, value]) => {
+    res.setHeader(key, value);
+  });
+
+  if (byIp.allowed && byUser.allowed) {
+    return true;
+  }
+
+  console.warn(`Two-factor rate limit exceeded for user ${userId} from IP: ${clientIP} at ${new Date().toISOString()}`);
+
+  res.status(429).json({
+    success: false,
+    error: 'Too many verification attempts',
+    message: 'Please try again later',
+  });
+  return false;
+}
+
+/**
+ * Resolve the account enrolling in two-factor: either the signed-in user, or,
+ * during a sign-in that requires enrollment, the holder of an `enroll` challenge.
+ * Sends the error response and returns null when neither is valid.
+ */
+export async function resolveEnrollingUser(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  challengeToken?: string
+): Promise<{ user: AdminUser; viaChallenge: boolean } | null> {
+  if (challengeToken) {
+    const challenge = verifyTwoFactorChallenge(challengeToken, 'enroll');
+    const user = challenge ? await getStorage().users.get(challenge.userId) : null;
+    if (!user || !user.isActive) {
+      res.status(401).json({
+        success: false,
+        error: 'Sign-in expired',
+        message: 'Please log in again',
+      });
+      return null;
+    }
+    return { user, viaChallenge: true };
+  }
+
+  const sessionUser = await requireAuth(req, res);
+  if (!sessionUser) return null; // Response already sent by requireAuth
+
+  const user = await getStorage().users.get(sessionUser.userId);
+  if (!user) {
+    res.status(400).json({
+      success: false,
+      error: 'Two-factor authentication is not available for this account',
+    });
+    return null;
+  }
+  return { user, viaChallenge: false };
+}
+
+/**
+ * Generate a new pending secret for the user. It only takes effect once
+ * `completeEnrollment` accepts a code from the authenticator app.
+ */
+export async function beginEnrollment(user: AdminUser): Promise<TwoFactorEnrollment> {
+  const secret = generateTotpSecret();
+  const otpauthUrl = buildOtpauthUrl(secret, user.email, TWO_FACTOR_ISSUER);
+
+  await getStorage().users.update(user.id, {
+    twoFactor: { secret, recoveryCodeHashes: [] },
+  });
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 2, width: 240 }),
+  };
+}
+
+/**
+ * Confirm enrollment with a code from the app. Returns the new recovery codes,
+ * or null when there is no pending enrollment or the code is wrong.
+ */
+export async function completeEnrollment(user: AdminUser, code: string): Promise<string[] | null> {
+  const pending = user.twoFactor;
+  if (!pending || pending.enabledAt) {
+    return null;
+  }
+
+  const step = verifyTotpCode(pending.secret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await getStorage().users.update(user.id, {
+    twoFactor: {
+      secret: pending.secret,
+      enabledAt: new Date().toISOString(),
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+    },
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP code or a recovery code for an enrolled user.
+ * Accepted TOTP codes cannot be replayed and recovery codes are consumed.
+ */
+export async function verifySecondFactor(
+  user: AdminUser,
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabledAt) {
+    return null;
+  }
+
+  if (isTotpCode(code)) {
+    const step = verifyTotpCode(twoFactor.secret, code, twoFactor.lastUsedStep);
+    if (step === null) {
+      return null;
+    }
+    await getStorage().users.update(user.id, { twoFactor: { ...twoFactor, lastUsedStep: step } });
+    return 'totp';
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  if (!twoFactor.recoveryCodeHashes.includes(codeHash)) {
+    return null;
+  }
+
+  await getStorage().users.update(user.id, {
+    twoFactor: {
+      ...twoFactor,
+      recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter((hash) => hash !== codeHash),
+    },
+  });
+
+  console.warn(`Recovery code used by ${user.email}; ${twoFactor.recoveryCodeHashes.length - 1} remaining`);
+  return 'recovery';
+}
+
+/**
+ * Replace all recovery codes, invalidating the old ones
+ */
+export async function regenerateRecoveryCodes(user: AdminUser): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await getStorage().users.update(user.id, {
+    twoFactor: {
+      ...(user.twoFactor as AdminTwoFactor),
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    },
+  });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  // Stored as null because repository updates skip undefined fields
+  await getStorage().users.update(userId, { twoFactor: null });
+}
@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import { AUDIT_ACTIONS, AUDIT_RESOURCE_TYPES } from '@/types';
+import {
+  DEFAULT_SMS_LOCALE,
+  SMS_REPLY_TEMPLATE_KEYS,
+  SMS_TEMPLATE_MAX_LENGTH,
+  findUnknownVariables,
+} from '@/lib/sms-templates';
+import { CUSTOM_FIELD_LIMIT, CUSTOM_FIELD_TYPES, checkCustomFieldDefinitions } from '@/lib/custom-fields';
 
 // Phone number validation (US format)
 const phoneRegex = /^\(?([0-9]{3})\)?[-. ]?([0-9]{3})[-. ]?([0-9]{4})$/;
@@ -39,9 +47,9 @@ const insuranceTypeSchema = z.enum([
 
 const healthRiskLevelSchema = z.enum([
   'Low',
-  'Medium',
+  'Moderate',
   'High',
-  'Critical'
+  'Very High'
 ]);
 
 const followUpStatusSchema = z.enum([
@@ -108,6 +116,7 @@ export const healthSubmissionSchema = z.object({
   tcpaConsent: z.boolean(),
   phone: phoneSchema,
   email: emailSchema.optional().or(z.string().length(0)),
+  contactPreference: z.enum(['sms', 'email', 'both']).optional(),
   estimatedBMI: z.number().min(10).max(60).optional(),
   bmiCategory: z.string().optional(),
   estimatedAge: z.number().min(18).max(120).optional(),
@@ -140,6 +149,46 @@ export const outreachLocationSchema = z.object({
   conversionRate: z.number().min(0).max(1).default(0)
 });
 
+// A location's custom questions as published from the form builder
+const customFieldSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,40}$/, 'Question ids must be lowercase letters, numbers, dashes or underscores'),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  label: z.string().trim().min(1, 'Every question needs a label').max(200, 'Labels must be 200 characters or less'),
+  required: z.boolean(),
+  options: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  placeholder: z.string().trim().max(100).optional(),
+  validation: z.object({
+    min: z.number().finite().optional(),
+    max: z.number().finite().optional(),
+    pattern: z.string().max(200).optional()
+  }).optional()
+});
+
+export const locationFormPublishSchema = z.object({
+  fields: z.array(customFieldSchema)
+    .max(CUSTOM_FIELD_LIMIT, `A form can have at most ${CUSTOM_FIELD_LIMIT} questions`)
+    .superRefine((fields, ctx) => {
+      checkCustomFieldDefinitions(fields).forEach((message) => ctx.addIssue({ code: 'custom', message }));
+    }),
+  // Version the editor started from, so concurrent edits are not overwritten
+  baseVersion: z.number().int().min(0)
+});
+
+// Volunteer PIN that unlocks kiosk mode on a location's form
+const kioskPinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits');
+
+export const locationKioskSchema = z.object({
+  pin: kioskPinSchema
+});
+
+export const kioskSessionSchema = z.object({
+  churchId: requiredString,
+  pin: z.string().min(1, 'PIN is required').max(8, 'PIN is too long'),
+  volunteerName: z.string().trim().min(1, 'Volunteer name is required').max(60, 'Volunteer name must be 60 characters or less'),
+  deviceLabel: z.string().trim().min(1, 'Device name is required').max(40, 'Device name must be 40 characters or less'),
+  deviceId: z.string().uuid('Invalid device id')
+});
+
 // Login validation schema
 export const loginSchema = z.object({
   email: emailSchema,
@@ -153,23 +202,240 @@ export const followUpUpdateSchema = z.object({
   followUpDate: z.string().datetime().optional()
 });
 
-// Export options validation schema
-export const exportOptionsSchema = z.object({
+// Duplicate review: merge screenings into one participant, or dismiss a flag
+export const duplicateResolutionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('merge'),
+    primaryId: requiredString,
+    submissionIds: z.array(requiredString).min(2, 'Select at least two submissions to merge').max(20)
+  }).refine((data) => data.submissionIds.includes(data.primaryId), {
+    message: 'The primary submission must be one of the merged submissions',
+    path: ['primaryId']
+  }),
+  z.object({
+    action: z.literal('dismiss'),
+    submissionId: requiredString
+  })
+]);
+
+// Re-score submissions under a risk rule version; a dry run unless `apply` is set
+export const riskRescoreSchema = z.object({
+  version: requiredString,
+  apply: z.boolean().default(false),
+  churchId: z.string().min(1).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
-  churchId: z.string().optional(),
-  riskLevel: healthRiskLevelSchema.optional(),
-  followUpStatus: followUpStatusSchema.optional(),
-  includePhotos: z.boolean().default(false),
-  format: z.enum(['csv', 'json']).default('csv')
+  pageSize: z.number().int().min(1).max(500).default(200),
+  nextToken: z.string().optional()
 });
 
-// SMS request validation schema
+// Export options validation schema
+export const exportOptionsSchema = z.object({
+  format: z.enum(['csv', 'xlsx', 'ndjson']).default('csv'),
+  filters: z.object({
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+    churchIds: z.array(z.string().min(1)).max(50).optional(),
+    riskLevels: z.array(healthRiskLevelSchema).optional(),
+    followUpStatuses: z.array(followUpStatusSchema).optional()
+  }).default({}),
+  columns: z.array(z.string().min(1)).max(100).optional()
+});
+
+// Admin user management schemas
+const adminRoleSchema = z.enum(['admin', 'coordinator', 'viewer']);
+
+const adminPermissionsSchema = z.object({
+  canViewSubmissions: z.boolean(),
+  canExportData: z.boolean(),
+  canManageChurches: z.boolean(),
+  canManageUsers: z.boolean(),
+  canViewAnalytics: z.boolean()
+}).partial();
+
+const passwordSchema = requiredString
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must be 128 characters or less');
+
+export const adminUserCreateSchema = z.object({
+  email: emailSchema,
+  firstName: requiredString.max(50, 'First name must be 50 characters or less'),
+  lastName: requiredString.max(50, 'Last name must be 50 characters or less'),
+  role: adminRoleSchema.default('coordinator'),
+  churchId: z.string().min(1).optional(),
+  permissions: adminPermissionsSchema.optional(),
+  // Omit to generate a temporary password that is returned once
+  password: passwordSchema.optional()
+});
+
+export const adminUserUpdateSchema = z.object({
+  firstName: requiredString.max(50, 'First name must be 50 characters or less').optional(),
+  lastName: requiredString.max(50, 'Last name must be 50 characters or less').optional(),
+  role: adminRoleSchema.optional(),
+  // null clears the location assignment
+  churchId: z.string().min(1).nullable().optional(),
+  permissions: adminPermissionsSchema.optional(),
+  isActive: z.boolean().optional()
+});
+
+export const passwordResetSchema = z.object({
+  password: passwordSchema.optional()
+});
+
+// Two-factor codes are 6-digit authenticator codes or xxxxx-xxxxx recovery codes
+const twoFactorCodeSchema = z.string()
+  .trim()
+  .min(6, 'Enter the code from your authenticator app')
+  .max(20, 'Code is too long');
+
+export const twoFactorSetupSchema = z.object({
+  // Present when enrolling during a sign-in that requires two-factor
+  challengeToken: z.string().min(1).optional()
+});
+
+export const twoFactorEnableSchema = twoFactorSetupSchema.extend({
+  code: twoFactorCodeSchema
+});
+
+export const twoFactorVerifySchema = z.object({
+  challengeToken: requiredString,
+  code: twoFactorCodeSchema
+});
+
+// Disabling two-factor or replacing recovery codes needs a current code
+export const twoFactorConfirmSchema = z.object({
+  code: twoFactorCodeSchema
+});
+
+// Audit log filters; dates are whole UTC days
+const auditDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const auditLogFiltersSchema = z.object({
+  startDate: auditDaySchema.optional(),
+  endDate: auditDaySchema.optional(),
+  actorEmail: z.string().trim().toLowerCase().max(254).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  resourceType: z.enum(AUDIT_RESOURCE_TYPES).optional(),
+  resourceId: z.string().trim().max(200).optional(),
+  churchId: z.string().trim().max(200).optional()
+}).refine(
+  (filters) => !filters.startDate || !filters.endDate || filters.startDate <= filters.endDate,
+  { message: 'Start date must be on or before end date', path: ['startDate'] }
+);
+
+export const auditLogListSchema = z.object({
+  filters: auditLogFiltersSchema,
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  nextToken: z.string().optional()
+});
+
+export const auditLogExportSchema = z.object({
+  format: z.enum(['csv', 'xlsx', 'ndjson']).default('csv'),
+  filters: auditLogFiltersSchema.default({})
+});
+
+// Template keys are slugs like `welcome` or `flu-clinic-reminder`
+const smsTemplateKeySchema = z.string()
+  .trim()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Key must be lowercase letters, numbers and dashes')
+  .max(50, 'Key must be 50 characters or less');
+
+// Language tags such as `en`, `es` or `es-MX`
+const smsLocaleSchema = z.string()
+  .trim()
+  .regex(/^[a-z]{2}(?:-[A-Z]{2})?$/, 'Language must look like en, es or es-MX');
+
+const smsTemplateBodySchema = requiredString
+  .max(SMS_TEMPLATE_MAX_LENGTH, `Template cannot exceed ${SMS_TEMPLATE_MAX_LENGTH} characters`)
+  .superRefine((body, ctx) => {
+    const unknown = findUnknownVariables(body);
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: 'custom', message: `Unknown template variables: ${unknown.join(', ')}` });
+    }
+  });
+
+export const smsTemplateSchema = z.object({
+  key: smsTemplateKeySchema,
+  name: requiredString.max(100, 'Name must be 100 characters or less'),
+  locale: smsLocaleSchema.default(DEFAULT_SMS_LOCALE),
+  // Omit for the template every location uses
+  churchId: z.string().min(1).optional(),
+  body: smsTemplateBodySchema
+});
+
+export const smsTemplateUpdateSchema = z.object({
+  name: requiredString.max(100, 'Name must be 100 characters or less'),
+  body: smsTemplateBodySchema
+}).partial();
+
+// SMS request validation schema. `welcome` and `followup` send the template with that key;
+// `custom` sends `templateKey` when given, otherwise `message` as written.
 export const smsRequestSchema = z.object({
   phoneNumber: phoneSchema,
-  message: requiredString.min(1).max(160, 'SMS message cannot exceed 160 characters'),
+  message: z.string().max(SMS_TEMPLATE_MAX_LENGTH, `SMS message cannot exceed ${SMS_TEMPLATE_MAX_LENGTH} characters`).optional(),
   firstName: z.string().optional(),
-  messageType: z.enum(['welcome', 'followup', 'custom']).default('custom')
+  messageType: z.enum(['welcome', 'followup', 'custom']).default('custom'),
+  templateKey: smsTemplateKeySchema.optional(),
+  // Fills the template variables (and the phone number when omitted) from the screening
+  submissionId: z.string().min(1).optional(),
+  locale: smsLocaleSchema.optional()
+});
+
+// Manual opt-outs; lifting one needs a note saying how the participant consented again
+export const smsSuppressionCreateSchema = z.object({
+  phoneNumber: requiredString.regex(phoneRegex, 'Invalid phone number format'),
+  submissionId: z.string().min(1).optional(),
+  note: z.string().trim().max(500, 'Note must be 500 characters or less').optional()
+});
+
+export const smsSuppressionDeleteSchema = z.object({
+  phoneNumber: requiredString.regex(phoneRegex, 'Invalid phone number format'),
+  note: requiredString.max(500, 'Note must be 500 characters or less')
+});
+
+// Bulk SMS to the submissions matching `filters`; `dryRun` only counts the audience
+export const smsCampaignSchema = z.object({
+  name: z.string().trim().max(100, 'Name must be 100 characters or less').optional(),
+  filters: z.object({
+    churchId: z.string().min(1).optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+    riskLevels: z.array(healthRiskLevelSchema).optional(),
+    followUpStatuses: z.array(z.enum(['Pending', 'Contacted', 'Scheduled', 'Completed'])).optional(),
+    searchTerm: z.string().trim().max(100).optional()
+  }).default({}),
+  templateKey: smsTemplateKeySchema.optional(),
+  message: smsTemplateBodySchema.optional(),
+  locale: smsLocaleSchema.optional(),
+  // Omit to send now
+  scheduledAt: z.string().datetime().optional(),
+  dryRun: z.boolean().default(false)
+}).superRefine((data, ctx) => {
+  if (!data.dryRun && !data.name) {
+    ctx.addIssue({ code: 'custom', path: ['name'], message: 'Name is required' });
+  }
+  if (!data.dryRun && !data.templateKey && !data.message) {
+    ctx.addIssue({ code: 'custom', path: ['message'], message: 'Choose a template or write a message' });
+  }
+  if (data.templateKey && SMS_REPLY_TEMPLATE_KEYS.includes(data.templateKey)) {
+    ctx.addIssue({ code: 'custom', path: ['templateKey'], message: 'Keyword replies cannot be sent as a campaign' });
+  }
+});
+
+// SMS log filters; dates are whole UTC days like the audit log's
+export const smsLogListSchema = z.object({
+  filters: z.object({
+    startDate: auditDaySchema.optional(),
+    endDate: auditDaySchema.optional(),
+    churchId: z.string().trim().max(200).optional(),
+    direction: z.enum(['outbound', 'inbound']).optional(),
+    status: z.enum(['queued', 'delivered', 'failed', 'received']).optional()
+  }).refine(
+    (filters) => !filters.startDate || !filters.endDate || filters.startDate <= filters.endDate,
+    { message: 'Start date must be on or before end date', path: ['startDate'] }
+  ),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  nextToken: z.string().optional()
 });
 
 // Test SMS validation schema
@@ -181,9 +447,25 @@ export const testSmsSchema = z.object({
 export type HealthSubmissionInput = z.infer<typeof healthSubmissionSchema>;
 export type OutreachLocationInput = z.infer<typeof outreachLocationSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type KioskSessionInput = z.infer<typeof kioskSessionSchema>;
 export type FollowUpUpdateInput = z.infer<typeof followUpUpdateSchema>;
 export type ExportOptionsInput = z.infer<typeof exportOptionsSchema>;
+export type DuplicateResolutionInput = z.infer<typeof duplicateResolutionSchema>;
+export type RiskRescoreInput = z.infer<typeof riskRescoreSchema>;
+export type AdminUserCreateInput = z.infer<typeof adminUserCreateSchema>;
+export type AdminUserUpdateInput = z.infer<typeof adminUserUpdateSchema>;
+export type PasswordResetInput = z.infer<typeof passwordResetSchema>;
+export type TwoFactorEnableInput = z.infer<typeof twoFactorEnableSchema>;
+export type TwoFactorVerifyInput = z.infer<typeof twoFactorVerifySchema>;
+export type AuditLogFiltersInput = z.infer<typeof auditLogFiltersSchema>;
+export type AuditLogExportInput = z.infer<typeof auditLogExportSchema>;
+export type SmsTemplateInput = z.infer<typeof smsTemplateSchema>;
+export type SmsTemplateUpdateInput = z.infer<typeof smsTemplateUpdateSchema>;
 export type SmsRequestInput = z.infer<typeof smsRequestSchema>;
+export type SmsSuppressionCreateInput = z.infer<typeof smsSuppressionCreateSchema>;
+export type SmsSuppressionDeleteInput = z.infer<typeof smsSuppressionDeleteSchema>;
+export type SmsCampaignInput = z.infer<typeof smsCampaignSchema>;
+export type SmsLogListInput = z.infer<typeof smsLogListSchema>;
 export type TestSmsInput = z.infer<typeof testSmsSchema>;
 
 /**
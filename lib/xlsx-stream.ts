@@ -0,0 +1,264 @@
+import { Writable } from 'stream';
+import { createDeflateRaw, crc32, DeflateRaw } from 'zlib';
+
+/**
+ * Minimal streaming XLSX writer.
+ *
+ * Produces a single-sheet workbook as a ZIP archive written straight to the
+ * output stream. Entries use data descriptors so nothing has to be buffered,
+ * which keeps memory flat no matter how many rows are exported.
+ */
+
+export type XlsxCellValue = string | number | null | undefined;
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+const ZIP_FLAGS = 0x0008 | 0x0800; // data descriptor + UTF-8 names
+const DEFLATE = 8;
+
+const STATIC_PARTS: Record<string, string> = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  'xl/styles.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="1"><fill><patternFill patternType="none"/></fill></fills>' +
+    '<borders count="1"><border/></borders>' +
+    '<cellStyleXfs count="1"><xf/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf/><xf fontId="1" applyFont="1"/></cellXfs>' +
+    '</styleSheet>',
+};
+
+function workbookXml(sheetName: string): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'
+  );
+}
+
+/** Control characters other than tab, newline and carriage return are not allowed in XML 1.0 */
+function isAllowedXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isAllowedXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class XlsxStreamWriter {
+  private readonly out: Writable;
+  private readonly entries: ZipEntry[] = [];
+  private readonly timestamp = dosDateTime(new Date());
+  private offset = 0;
+  private rowNumber = 0;
+  private current: { entry: ZipEntry; deflate: DeflateRaw; done: Promise<void> } | null = null;
+
+  constructor(out: Writable) {
+    this.out = out;
+  }
+
+  /**
+   * Write the workbook scaffolding and the bold header row
+   */
+  async start(headers: string[], sheetName = 'Export'): Promise<void> {
+    for (const [name, content] of Object.entries(STATIC_PARTS)) {
+      await this.writeEntry(name, content);
+    }
+    await this.writeEntry('xl/workbook.xml', workbookXml(sheetName));
+
+    this.openEntry('xl/worksheets/sheet1.xml');
+    await this.writeToEntry(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+      '<sheetData>'
+    );
+    await this.writeRow(headers, true);
+  }
+
+  async writeRow(values: XlsxCellValue[], bold = false): Promise<void> {
+    this.rowNumber++;
+    const style = bold ? ' s="1"' : '';
+    const cells = values
+      .map((value, idx) => {
+        const ref = `${columnLetter(idx)}${this.rowNumber}`;
+        if (value === null || value === undefined || value === '') {
+          return '';
+        }
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          return `<c r="${ref}"${style}><v>${value}</v></c>`;
+        }
+        return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+      })
+      .join('');
+    await this.writeToEntry(`<row r="${this.rowNumber}">${cells}</row>`);
+  }
+
+  /**
+   * Close the sheet and write the ZIP central directory
+   */
+  async end(): Promise<void> {
+    await this.writeToEntry('</sheetData></worksheet>');
+    await this.closeEntry();
+
+    const centralDirectoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.timestamp.time, 12);
+      header.writeUInt16LE(this.timestamp.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.uncompressedSize, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.writeRaw(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralDirectoryOffset, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    await this.writeRaw(end);
+  }
+
+  private async writeEntry(name: string, content: string): Promise<void> {
+    this.openEntry(name);
+    await this.writeToEntry(content);
+    await this.closeEntry();
+  }
+
+  private openEntry(name: string): void {
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      offset: this.offset,
+      crc: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.timestamp.time, 10);
+    header.writeUInt16LE(this.timestamp.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    this.writeRawSync(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    const done = new Promise<void>((resolve, reject) => {
+      deflate.on('data', (chunk: Buffer) => {
+        entry.compressedSize += chunk.length;
+        if (!this.writeRawSync(chunk)) {
+          deflate.pause();
+          this.out.once('drain', () => deflate.resume());
+        }
+      });
+      deflate.on('end', resolve);
+      deflate.on('error', reject);
+    });
+
+    this.entries.push(entry);
+    this.current = { entry, deflate, done };
+  }
+
+  private async writeToEntry(text: string): Promise<void> {
+    if (!this.current) {
+      throw new Error('No open XLSX entry');
+    }
+    const { entry, deflate } = this.current;
+    const chunk = Buffer.from(text, 'utf8');
+    entry.crc = crc32(chunk, entry.crc);
+    entry.uncompressedSize += chunk.length;
+    if (!deflate.write(chunk)) {
+      await new Promise<void>((resolve) => deflate.once('drain', resolve));
+    }
+  }
+
+  private async closeEntry(): Promise<void> {
+    if (!this.current) return;
+    const { entry, deflate, done } = this.current;
+    deflate.end();
+    await done;
+    this.current = null;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.uncompressedSize, 12);
+    await this.writeRaw(descriptor);
+  }
+
+  private writeRawSync(chunk: Buffer): boolean {
+    this.offset += chunk.length;
+    return this.out.write(chunk);
+  }
+
+  private async writeRaw(chunk: Buffer): Promise<void> {
+    if (!this.writeRawSync(chunk)) {
+      await new Promise<void>((resolve) => this.out.once('drain', resolve));
+    }
+  }
+}
@@ -0,0 +1,566 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { format, subDays } from 'date-fns';
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ClipboardDocumentListIcon,
+  DocumentArrowDownIcon,
+  FunnelIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export-columns';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_RESOURCE_TYPES,
+  AuditAction,
+  AuditEvent,
+  AuditLogQueryParams,
+  AuditResourceType,
+  OutreachLocation,
+} from '@/types';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'submission.view': 'Viewed submission',
+  'submission.list': 'Listed submissions',
+  'submission.update': 'Updated follow-up',
+  'submission.merge': 'Merged duplicates',
+  'submission.dismiss_duplicate': 'Dismissed duplicate',
+  'submission.rescore': 'Re-scored risk',
+  'submission.reanalyze': 'Re-ran selfie analysis',
+  'participant.view': 'Viewed participant history',
+  'photo.view': 'Viewed photo',
+  'data.export': 'Exported data',
+  'location.create': 'Created location',
+  'location.update': 'Updated location',
+  'location.delete': 'Deleted location',
+  'location.form_publish': 'Published location form',
+  'location.kiosk_update': 'Changed kiosk settings',
+  'kiosk.session_start': 'Started kiosk session',
+  'kiosk.session_start_failed': 'Failed kiosk PIN',
+  'user.create': 'Invited user',
+  'user.update': 'Updated user',
+  'user.delete': 'Deleted user',
+  'user.password_reset': 'Reset password',
+  'user.two_factor_reset': 'Reset two-factor',
+  'auth.login': 'Signed in',
+  'auth.login_failed': 'Failed sign-in',
+  'auth.logout': 'Signed out',
+  'session.revoke': 'Revoked session',
+  'two_factor.enable': 'Enabled two-factor',
+  'two_factor.disable': 'Disabled two-factor',
+  'two_factor.recovery_codes': 'New recovery codes',
+  'sms.send': 'Sent SMS',
+  'sms.view': 'Viewed SMS history',
+  'sms_template.create': 'Created SMS template',
+  'sms_template.update': 'Updated SMS template',
+  'sms_template.delete': 'Deleted SMS template',
+  'sms_suppression.create': 'Stopped SMS to number',
+  'sms_suppression.delete': 'Resumed SMS to number',
+  'sms_campaign.create': 'Created SMS campaign',
+  'sms_campaign.view': 'Viewed SMS campaign recipients',
+  'sms_campaign.cancel': 'Cancelled SMS campaign',
+  'consent.view': 'Viewed SMS consent',
+  'audit.export': 'Exported audit log',
+};
+
+const RESOURCE_LABELS: Record<AuditResourceType, string> = {
+  submission: 'Submission',
+  participant: 'Participant',
+  photo: 'Photo',
+  location: 'Location',
+  user: 'User',
+  session: 'Session',
+  export: 'Export',
+  sms: 'SMS',
+  sms_template: 'SMS template',
+  sms_suppression: 'SMS opt-out',
+  sms_campaign: 'SMS campaign',
+  consent: 'Consent',
+  audit: 'Audit Log',
+};
+
+// Actions that touch participant health information
+const PHI_ACTIONS = new Set<AuditAction>([
+  'submission.view',
+  'submission.list',
+  'submission.update',
+  'submission.merge',
+  'submission.dismiss_duplicate',
+  'submission.rescore',
+  'submission.reanalyze',
+  'participant.view',
+  'photo.view',
+  'data.export',
+  'sms.send',
+  'sms.view',
+  'sms_campaign.create',
+  'sms_campaign.view',
+  'consent.view',
+]);
+
+const PAGE_SIZE = 50;
+
+function defaultFilters(): AuditLogQueryParams {
+  const today = new Date();
+  return {
+    startDate: format(subDays(today, 29), 'yyyy-MM-dd'),
+    endDate: format(today, 'yyyy-MM-dd'),
+  };
+}
+
+function toQueryString(filters: AuditLogQueryParams, nextToken?: string): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.append(key, String(value));
+  });
+  params.append('pageSize', String(PAGE_SIZE));
+  if (nextToken) params.append('nextToken', nextToken);
+  return params.toString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditEvent[]>([]);
+  const [locations, setLocations] = useState<OutreachLocation[]>([]);
+  const [filters, setFilters] = useState<AuditLogQueryParams>(defaultFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogQueryParams>(filters);
+  const [nextToken, setNextToken] = useState<string | undefined>(undefined);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fetchEntries = useCallback(async (query: AuditLogQueryParams, loadMoreToken?: string) => {
+    try {
+      if (loadMoreToken) {
+        setIsLoadingMore(true);
+      }
+
+      const response = await fetchWithAuth(`/api/admin/audit?${toQueryString(query, loadMoreToken)}`);
+      const result = await response.json();
+
+      if (response.status === 403) {
+        toast.error('Only administrators can view the audit log');
+        router.push('/admin/dashboard');
+        return;
+      }
+
+      if (result.success) {
+        setEntries((prev) => (loadMoreToken ? [...prev, ...result.data.items] : result.data.items));
+        setNextToken(result.data.nextToken);
+      } else {
+        toast.error(result.message || 'Failed to load the audit log');
+      }
+    } catch (error) {
+      console.error('Fetch audit log error:', error);
+      toast.error('Failed to load the audit log');
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, [router]);
+
+  const fetchLocations = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/locations');
+      const result = await response.json();
+      if (result.success) {
+        setLocations(result.data);
+      }
+    } catch (error) {
+      console.error('Fetch locations error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(appliedFilters);
+  }, [fetchEntries, appliedFilters]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const locationNameMap = new Map(locations.map((location) => [location.id, location.name]));
+
+  const updateFilter = (key: keyof AuditLogQueryParams, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+      toast.error('Start date must be on or before end date');
+      return;
+    }
+    setExpandedId(null);
+    setAppliedFilters({ ...filters });
+  };
+
+  const handleResetFilters = () => {
+    const reset = defaultFilters();
+    setFilters(reset);
+    setAppliedFilters(reset);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/audit/export', {
+        method: 'POST',
+        body: JSON.stringify({ format: exportFormat, filters: appliedFilters }),
+      });
+
+      if (!response.ok) {
+        toast.error('Export failed');
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.${EXPORT_FORMATS[exportFormat].extension}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast.success('Audit log exported');
+    } catch (error) {
+      console.error('Audit export error:', error);
+      toast.error('Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderChanges = (entry: AuditEvent) => {
+    const fields = Array.from(new Set([
+      ...Object.keys(entry.before || {}),
+      ...Object.keys(entry.after || {}),
+    ]));
+
+    return (
+      <div className="space-y-4">
+        {fields.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-trust-200">
+                <th className="text-left py-2 px-3 font-medium text-trust-900">Field</th>
+                <th className="text-left py-2 px-3 font-medium text-trust-900">Before</th>
+                <th className="text-left py-2 px-3 font-medium text-trust-900">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field} className="border-b border-trust-100 align-top">
+                  <td className="py-2 px-3 font-mono text-trust-700">{field}</td>
+                  <td className="py-2 px-3 text-red-700 break-all">{formatValue(entry.before?.[field])}</td>
+                  <td className="py-2 px-3 text-green-700 break-all">{formatValue(entry.after?.[field])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {entry.details && (
+          <div>
+            <p className="text-xs font-medium text-trust-600 mb-1">Details</p>
+            <pre className="bg-white border border-trust-200 rounded p-3 text-xs text-trust-800 whitespace-pre-wrap break-all">
+              {JSON.stringify(entry.details, null, 2)}
+            </pre>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-trust-600">
+          <p>Entry ID: <span className="font-mono">{entry.id}</span></p>
+          <p>Actor ID: <span className="font-mono">{entry.actorId}</span></p>
+          {entry.userAgent && <p className="md:col-span-2 break-all">User agent: {entry.userAgent}</p>}
+        </div>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading audit log...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Audit Log - Health Screening System</title>
+        <meta name="description" content="Record of health information access and admin actions" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/dashboard')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Dashboard
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  Audit Log
+                </h1>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="form-input w-auto"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="xlsx">Excel (.xlsx)</option>
+                  <option value="ndjson">NDJSON</option>
+                </select>
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting}
+                  className="btn-secondary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <DocumentArrowDownIcon className="w-4 h-4 mr-2" />
+                  {isExporting ? 'Exporting...' : 'Export'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8">
+          {/* Filters */}
+          <form onSubmit={handleApplyFilters} className="card mb-6">
+            <div className="card-body space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <label className="form-label">From</label>
+                  <input
+                    type="date"
+                    value={filters.startDate || ''}
+                    onChange={(e) => updateFilter('startDate', e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">To</label>
+                  <input
+                    type="date"
+                    value={filters.endDate || ''}
+                    onChange={(e) => updateFilter('endDate', e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Action</label>
+                  <select
+                    value={filters.action || ''}
+                    onChange={(e) => updateFilter('action', e.target.value)}
+                    className="form-input"
+                  >
+                    <option value="">All Actions</option>
+                    {AUDIT_ACTIONS.map((action) => (
+                      <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="form-label">Resource Type</label>
+                  <select
+                    value={filters.resourceType || ''}
+                    onChange={(e) => updateFilter('resourceType', e.target.value)}
+                    className="form-input"
+                  >
+                    <option value="">All Resources</option>
+                    {AUDIT_RESOURCE_TYPES.map((type) => (
+                      <option key={type} value={type}>{RESOURCE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="form-label">User Email</label>
+                  <input
+                    type="email"
+                    value={filters.actorEmail || ''}
+                    onChange={(e) => updateFilter('actorEmail', e.target.value)}
+                    className="form-input"
+                    placeholder="coordinator@church.org"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Resource ID</label>
+                  <input
+                    type="text"
+                    value={filters.resourceId || ''}
+                    onChange={(e) => updateFilter('resourceId', e.target.value)}
+                    className="form-input"
+                    placeholder="Submission, location or user ID"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Location</label>
+                  <select
+                    value={filters.churchId || ''}
+                    onChange={(e) => updateFilter('churchId', e.target.value)}
+                    className="form-input"
+                  >
+                    <option value="">All Locations</option>
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-end space-x-3">
+                  <button type="submit" className="btn-primary flex items-center">
+                    <FunnelIcon className="w-4 h-4 mr-2" />
+                    Apply
+                  </button>
+                  <button type="button" onClick={handleResetFilters} className="btn-secondary">
+                    Reset
+                  </button>
+                </div>
+              </div>
+            </div>
+          </form>
+
+          {/* Entries */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-trust-900 flex items-center">
+                <ClipboardDocumentListIcon className="w-5 h-5 mr-2 text-trust-600" />
+                Entries
+                <span className="ml-2 text-sm font-normal text-trust-500">
+                  {entries.length}{nextToken ? '+' : ''} shown, newest first
+                </span>
+              </h2>
+            </div>
+            <div className="card-body">
+              {entries.length === 0 ? (
+                <p className="text-center text-trust-500 py-8">No audit entries match these filters.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-trust-200">
+                        <th className="py-3 px-2 w-8"></th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Time</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">User</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Action</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Resource</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">IP Address</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entries.map((entry) => {
+                        const isExpanded = expandedId === entry.id;
+                        return (
+                          <Fragment key={entry.id}>
+                            <tr
+                              className="border-b border-trust-100 hover:bg-trust-50 cursor-pointer"
+                              onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                            >
+                              <td className="py-3 px-2 text-trust-400">
+                                {isExpanded
+                                  ? <ChevronDownIcon className="w-4 h-4" />
+                                  : <ChevronRightIcon className="w-4 h-4" />}
+                              </td>
+                              <td className="py-3 px-4">
+                                <div className="text-trust-900">
+                                  {format(new Date(entry.timestamp), 'MMM dd, yyyy')}
+                                </div>
+                                <div className="text-xs text-trust-500">
+                                  {format(new Date(entry.timestamp), 'h:mm:ss a')}
+                                </div>
+                              </td>
+                              <td className="py-3 px-4">
+                                <div className="text-trust-900">{entry.actorEmail}</div>
+                                {entry.actorRole && (
+                                  <div className="text-xs text-trust-500 capitalize">{entry.actorRole}</div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4">
+                                <span
+                                  className={`px-2 py-1 text-xs rounded-full ${
+                                    entry.action === 'auth.login_failed'
+                                      ? 'bg-red-100 text-red-800'
+                                      : PHI_ACTIONS.has(entry.action)
+                                        ? 'bg-orange-100 text-orange-800'
+                                        : 'bg-trust-100 text-trust-800'
+                                  }`}
+                                >
+                                  {ACTION_LABELS[entry.action] || entry.action}
+                                </span>
+                              </td>
+                              <td className="py-3 px-4">
+                                <div className="text-trust-900">
+                                  {RESOURCE_LABELS[entry.resourceType] || entry.resourceType}
+                                  {entry.resourceId && (
+                                    <span className="ml-1 font-mono text-xs text-trust-500">
+                                      {entry.resourceId.slice(0, 8)}
+                                    </span>
+                                  )}
+                                </div>
+                                {entry.churchId && (
+                                  <div className="text-xs text-trust-500">
+                                    {locationNameMap.get(entry.churchId) || entry.churchId}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4 font-mono text-sm text-trust-700">{entry.ipAddress}</td>
+                            </tr>
+                            {isExpanded && (
+                              <tr className="bg-trust-50 border-b border-trust-200">
+                                <td></td>
+                                <td colSpan={5} className="py-4 px-4">
+                                  {renderChanges(entry)}
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {nextToken && (
+                <div className="text-center mt-6">
+                  <button
+                    onClick={() => fetchEntries(appliedFilters, nextToken)}
+                    disabled={isLoadingMore}
+                    className="btn-secondary"
+                  >
+                    {isLoadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
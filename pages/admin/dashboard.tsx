@@ -141,6 +141,12 @@ export default function DashboardPage() {
                 <span className="text-sm text-trust-600">
                   Welcome, Administrator
                 </span>
+                <button
+                  onClick={() => router.push('/admin/security')}
+                  className="text-sm text-trust-600 hover:text-trust-900"
+                >
+                  Account Security
+                </button>
                 <button
                   onClick={handleLogout}
                   className="btn-secondary text-sm"
@@ -12,10 +12,14 @@ import {
   LinkIcon,
   ClipboardDocumentIcon,
   ChevronDownIcon,
+  ClipboardDocumentListIcon,
+  DeviceTabletIcon,
 } from '@heroicons/react/24/outline';
 import { OutreachLocation } from '@/types';
 import toast from 'react-hot-toast';
 import { fetchWithAuth } from '@/lib/api-client';
+import FormBuilder from '@/components/FormBuilder';
+import KioskSettings from '@/components/KioskSettings';
 
 interface LocationForm {
   name: string;
@@ -32,6 +36,10 @@ export default function LocationsPage() {
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingLocation, setEditingLocation] = useState<OutreachLocation | null>(null);
   const [openQRDropdown, setOpenQRDropdown] = useState<string | null>(null);
+  const [formBuilderLocation, setFormBuilderLocation] = useState<OutreachLocation | null>(null);
+  // Looked up in the list, so the panel shows the saved settings after each change
+  const [kioskLocationId, setKioskLocationId] = useState<string | null>(null);
+  const kioskLocation = locations.find((location) => location.id === kioskLocationId);
 
   const {
     register,
@@ -351,6 +359,26 @@ export default function LocationsPage() {
             </div>
           )}
 
+          {/* Custom Questions */}
+          {formBuilderLocation && (
+            <FormBuilder
+              key={formBuilderLocation.id}
+              location={formBuilderLocation}
+              onClose={() => setFormBuilderLocation(null)}
+              onPublished={fetchLocations}
+            />
+          )}
+
+          {/* Kiosk Mode */}
+          {kioskLocation && (
+            <KioskSettings
+              key={kioskLocation.id}
+              location={kioskLocation}
+              onClose={() => setKioskLocationId(null)}
+              onChanged={fetchLocations}
+            />
+          )}
+
           {/* Locations List */}
           <div className="card">
             <div className="card-header">
@@ -396,6 +424,15 @@ export default function LocationsPage() {
                               <div>
                                 <div className="font-medium text-trust-900">{location.name}</div>
                                 <div className="text-sm text-trust-600">{location.address}</div>
+                                {location.customFields && location.customFields.length > 0 && (
+                                  <div className="text-xs text-trust-500 mt-1">
+                                    {location.customFields.length} custom {location.customFields.length === 1 ? 'question' : 'questions'}
+                                    {location.formVersion ? ` · v${location.formVersion}` : ''}
+                                  </div>
+                                )}
+                                {location.kioskEnabled && (
+                                  <div className="text-xs text-trust-500 mt-1">Kiosk mode on</div>
+                                )}
                               </div>
                             </td>
                             <td className="py-3 px-4">
@@ -476,6 +513,26 @@ export default function LocationsPage() {
                                 >
                                   <PencilIcon className="w-4 h-4" />
                                 </button>
+                                <button
+                                  onClick={() => {
+                                    setShowAddForm(false);
+                                    setFormBuilderLocation(location);
+                                  }}
+                                  className="text-primary-600 hover:text-primary-900"
+                                  title="Edit questions"
+                                >
+                                  <ClipboardDocumentListIcon className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setShowAddForm(false);
+                                    setKioskLocationId(location.id);
+                                  }}
+                                  className="text-primary-600 hover:text-primary-900"
+                                  title="Kiosk mode"
+                                >
+                                  <DeviceTabletIcon className="w-4 h-4" />
+                                </button>
                                 <button
                                   onClick={() => router.push(`/admin/submissions?location=${location.id}`)}
                                   className="text-health-600 hover:text-health-900"
@@ -9,19 +9,30 @@ import {
   EyeSlashIcon,
   HeartIcon,
   ShieldCheckIcon,
+  DevicePhoneMobileIcon,
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import { fetchWithAuth } from '@/lib/api-client';
+import TwoFactorSetup from '@/components/TwoFactorSetup';
 
 interface LoginForm {
   email: string;
   password: string;
 }
 
+/** Second login step requested by `/api/admin/auth` after a correct password */
+interface TwoFactorChallenge {
+  purpose: 'verify' | 'enroll';
+  token: string;
+}
+
 export default function AdminLogin() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const {
     register,
@@ -40,7 +51,9 @@ export default function AdminLogin() {
 
       const result = await response.json();
 
-      if (result.success) {
+      if (result.success && result.data?.twoFactor) {
+        setChallenge({ purpose: result.data.twoFactor, token: result.data.challengeToken });
+      } else if (result.success) {
         toast.success('Login successful!');
 
         // Redirect to dashboard
@@ -55,6 +68,39 @@ export default function AdminLogin() {
     }
   };
 
+  const onVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+
+    try {
+      const response = await fetchWithAuth('/api/admin/two-factor/verify', {
+        method: 'POST',
+        body: JSON.stringify({ challengeToken: challenge.token, code }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Login successful!');
+        router.push('/admin/dashboard');
+      } else {
+        toast.error(result.message || result.error || 'Verification failed');
+        setCode('');
+      }
+    } catch {
+      toast.error('An error occurred during verification');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetLogin = () => {
+    setChallenge(null);
+    setCode('');
+    setUseRecoveryCode(false);
+  };
+
   return (
     <>
       <Head>
@@ -86,88 +132,166 @@ export default function AdminLogin() {
                 <span className="text-lg font-medium text-trust-900">Secure Login</span>
               </div>
 
-              <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                <div>
-                  <label className="form-label">Email Address</label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <UserIcon className="h-5 w-5 text-trust-400" />
-                    </div>
-                    <input
-                      type="email"
-                      {...register('email', {
-                        required: 'Email is required',
-                        pattern: {
-                          value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                          message: 'Please enter a valid email address',
-                        },
-                      })}
-                      className={`form-input pl-10 ${errors.email ? 'form-input-error' : ''}`}
-                      placeholder="admin@yourorganization.org"
-                      autoComplete="email"
-                    />
-                  </div>
-                  {errors.email && (
-                    <p className="form-error">{errors.email.message}</p>
-                  )}
+              {challenge?.purpose === 'enroll' && (
+                <div className="space-y-4">
+                  <p className="text-sm text-trust-600">
+                    Two-factor authentication is required for this portal. Set it up to finish signing in.
+                  </p>
+                  <TwoFactorSetup
+                    challengeToken={challenge.token}
+                    onComplete={() => router.push('/admin/dashboard')}
+                    onCancel={resetLogin}
+                  />
                 </div>
+              )}
 
-                <div>
-                  <label className="form-label">Password</label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <LockClosedIcon className="h-5 w-5 text-trust-400" />
-                    </div>
+              {challenge?.purpose === 'verify' && (
+                <form onSubmit={onVerifyCode} className="space-y-6">
+                  <div className="flex items-start text-sm text-trust-600">
+                    <DevicePhoneMobileIcon className="h-5 w-5 text-primary-600 mr-2 flex-shrink-0" />
+                    {useRecoveryCode
+                      ? 'Enter one of your recovery codes. Each code works only once.'
+                      : 'Enter the 6-digit code from your authenticator app.'}
+                  </div>
+
+                  <div>
+                    <label className="form-label">{useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}</label>
                     <input
-                      type={showPassword ? 'text' : 'password'}
-                      {...register('password', {
-                        required: 'Password is required',
-                        minLength: {
-                          value: 6,
-                          message: 'Password must be at least 6 characters',
-                        },
-                      })}
-                      className={`form-input pl-10 pr-10 ${errors.password ? 'form-input-error' : ''}`}
-                      placeholder="Enter your password"
-                      autoComplete="current-password"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      className="form-input text-center tracking-widest"
+                      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                      autoComplete="one-time-code"
+                      maxLength={useRecoveryCode ? 20 : 6}
+                      placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                      autoFocus
                     />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                    >
-                      {showPassword ? (
-                        <EyeSlashIcon className="h-5 w-5 text-trust-400 hover:text-trust-600" />
-                      ) : (
-                        <EyeIcon className="h-5 w-5 text-trust-400 hover:text-trust-600" />
-                      )}
-                    </button>
                   </div>
-                  {errors.password && (
-                    <p className="form-error">{errors.password.message}</p>
-                  )}
-                </div>
 
-                <div>
                   <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || code.trim().length < 6}
                     className="w-full btn-primary justify-center"
                   >
                     {isLoading ? (
                       <>
                         <div className="loading-spinner mr-2" />
-                        Signing in...
+                        Verifying...
                       </>
                     ) : (
                       <>
                         <ShieldCheckIcon className="w-5 h-5 mr-2" />
-                        Sign in to Dashboard
+                        Verify
                       </>
                     )}
                   </button>
-                </div>
-              </form>
+
+                  <div className="flex justify-between text-sm">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setCode('');
+                      }}
+                      className="text-primary-600 hover:text-primary-800"
+                    >
+                      {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={resetLogin}
+                      className="text-trust-500 hover:text-trust-700"
+                    >
+                      Back to sign in
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {!challenge && (
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                  <div>
+                    <label className="form-label">Email Address</label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <UserIcon className="h-5 w-5 text-trust-400" />
+                      </div>
+                      <input
+                        type="email"
+                        {...register('email', {
+                          required: 'Email is required',
+                          pattern: {
+                            value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                            message: 'Please enter a valid email address',
+                          },
+                        })}
+                        className={`form-input pl-10 ${errors.email ? 'form-input-error' : ''}`}
+                        placeholder="admin@yourorganization.org"
+                        autoComplete="email"
+                      />
+                    </div>
+                    {errors.email && (
+                      <p className="form-error">{errors.email.message}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="form-label">Password</label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <LockClosedIcon className="h-5 w-5 text-trust-400" />
+                      </div>
+                      <input
+                        type={showPassword ? 'text' : 'password'}
+                        {...register('password', {
+                          required: 'Password is required',
+                          minLength: {
+                            value: 6,
+                            message: 'Password must be at least 6 characters',
+                          },
+                        })}
+                        className={`form-input pl-10 pr-10 ${errors.password ? 'form-input-error' : ''}`}
+                        placeholder="Enter your password"
+                        autoComplete="current-password"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                      >
+                        {showPassword ? (
+                          <EyeSlashIcon className="h-5 w-5 text-trust-400 hover:text-trust-600" />
+                        ) : (
+                          <EyeIcon className="h-5 w-5 text-trust-400 hover:text-trust-600" />
+                        )}
+                      </button>
+                    </div>
+                    {errors.password && (
+                      <p className="form-error">{errors.password.message}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <button
+                      type="submit"
+                      disabled={isLoading}
+                      className="w-full btn-primary justify-center"
+                    >
+                      {isLoading ? (
+                        <>
+                          <div className="loading-spinner mr-2" />
+                          Signing in...
+                        </>
+                      ) : (
+                        <>
+                          <ShieldCheckIcon className="w-5 h-5 mr-2" />
+                          Sign in to Dashboard
+                        </>
+                      )}
+                    </button>
+                  </div>
+                </form>
+              )}
 
               <div className="mt-6">
                 <div className="relative">
@@ -0,0 +1,337 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { UserIcon } from '@heroicons/react/24/outline';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { OutreachLocation, ParticipantTimeline, SubmissionFollowUpStatus } from '@/types';
+
+// Follow-up outcomes in the order a case progresses, plotted as steps
+const FOLLOW_UP_STEPS: SubmissionFollowUpStatus[] = ['Pending', 'Contacted', 'Scheduled', 'Completed'];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'white',
+  border: '1px solid #e2e8f0',
+  borderRadius: '8px',
+};
+
+const getRiskColorClass = (riskLevel?: string) => {
+  switch (riskLevel) {
+    case 'Low': return 'risk-low';
+    case 'Moderate': return 'risk-moderate';
+    case 'High': return 'risk-high';
+    case 'Very High': return 'risk-very-high';
+    default: return 'bg-trust-100 text-trust-800';
+  }
+};
+
+const getStatusColorClass = (status?: string) => {
+  switch (status) {
+    case 'Completed': return 'bg-health-100 text-health-800';
+    case 'Contacted': return 'bg-primary-100 text-primary-800';
+    case 'Scheduled': return 'bg-medical-100 text-medical-800';
+    default: return 'bg-trust-100 text-trust-800';
+  }
+};
+
+const toNumber = (value?: number) =>
+  value !== undefined && !isNaN(Number(value)) ? Number(value) : null;
+
+export default function ParticipantDetailPage() {
+  const router = useRouter();
+  const participantId = Array.isArray(router.query.id) ? router.query.id[0] : router.query.id;
+  const [timeline, setTimeline] = useState<ParticipantTimeline | null>(null);
+  const [locations, setLocations] = useState<OutreachLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const locationNameMap = new Map<string, string>();
+  locations.forEach(location => {
+    locationNameMap.set(location.id, location.name);
+  });
+
+  const fetchTimeline = useCallback(async (id: string) => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/participants/${encodeURIComponent(id)}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setTimeline(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load participant history');
+      }
+    } catch (error) {
+      console.error('Fetch participant timeline error:', error);
+      toast.error('Failed to load participant history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchLocations = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/locations');
+
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setLocations(result.data);
+        }
+      }
+    } catch {
+      // Location names fall back to ids
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!participantId) return;
+    fetchTimeline(participantId);
+    fetchLocations();
+  }, [participantId, fetchTimeline, fetchLocations]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading participant history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const entries = timeline?.entries || [];
+  const chartData = entries.map((entry) => ({
+    date: format(new Date(entry.submissionDate), 'MMM d, yyyy'),
+    bmi: toNumber(entry.estimatedBMI),
+    riskScore: toNumber(entry.healthRiskScore),
+    followUp: FOLLOW_UP_STEPS.indexOf(entry.followUpStatus || 'Pending'),
+  }));
+  const first = entries[0];
+  const latest = entries[entries.length - 1];
+  const riskChange = first && latest && entries.length > 1
+    ? (toNumber(latest.healthRiskScore) ?? NaN) - (toNumber(first.healthRiskScore) ?? NaN)
+    : NaN;
+
+  return (
+    <>
+      <Head>
+        <title>Participant History - Health Screening System</title>
+        <meta name="description" content="Screening history for one participant" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/submissions')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Submissions
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  Participant History
+                </h1>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8 space-y-6">
+          {!timeline ? (
+            <div className="card">
+              <div className="card-body text-center py-12">
+                <UserIcon className="w-16 h-16 text-trust-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-trust-900 mb-2">Participant not found</h3>
+                <p className="text-trust-600">
+                  This participant has no screenings you have access to.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="card">
+                <div className="card-body">
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-6">
+                    <div>
+                      <p className="text-sm font-medium text-trust-700">Participant</p>
+                      <p className="text-lg font-semibold text-trust-900">
+                        {timeline.participant.firstName} {timeline.participant.lastName}
+                      </p>
+                      <p className="text-sm text-trust-600">Born {timeline.participant.dateOfBirth}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-trust-700">Screenings</p>
+                      <p className="text-2xl font-bold text-trust-900">{entries.length}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-trust-700">First / Latest</p>
+                      <p className="text-trust-900">
+                        {format(new Date(first.submissionDate), 'MMM dd, yyyy')} &ndash;{' '}
+                        {format(new Date(latest.submissionDate), 'MMM dd, yyyy')}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-trust-700">Risk Score Change</p>
+                      <p className={`text-2xl font-bold ${
+                        riskChange < 0 ? 'text-health-600' : riskChange > 0 ? 'text-red-600' : 'text-trust-900'
+                      }`}>
+                        {isNaN(riskChange) ? 'N/A' : `${riskChange > 0 ? '+' : ''}${riskChange}`}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Charts */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="card">
+                  <div className="card-header">
+                    <h3 className="text-lg font-semibold text-trust-900">Estimated BMI</h3>
+                  </div>
+                  <div className="card-body">
+                    <ResponsiveContainer width="100%" height={250}>
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                        <YAxis stroke="#64748b" fontSize={12} domain={['auto', 'auto']} />
+                        <Tooltip
+                          formatter={(value: number) => [value.toFixed(1), 'BMI']}
+                          contentStyle={TOOLTIP_STYLE}
+                        />
+                        <Line type="monotone" dataKey="bmi" stroke="#3b82f6" strokeWidth={2} connectNulls />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div className="card">
+                  <div className="card-header">
+                    <h3 className="text-lg font-semibold text-trust-900">Health Risk Score</h3>
+                  </div>
+                  <div className="card-body">
+                    <ResponsiveContainer width="100%" height={250}>
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                        <YAxis stroke="#64748b" fontSize={12} allowDecimals={false} />
+                        <Tooltip
+                          formatter={(value: number) => [value, 'Risk score']}
+                          contentStyle={TOOLTIP_STYLE}
+                        />
+                        <Line type="monotone" dataKey="riskScore" stroke="#f97316" strokeWidth={2} connectNulls />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div className="card lg:col-span-2">
+                  <div className="card-header">
+                    <h3 className="text-lg font-semibold text-trust-900">Follow-up Outcomes</h3>
+                  </div>
+                  <div className="card-body">
+                    <ResponsiveContainer width="100%" height={200}>
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                        <YAxis
+                          stroke="#64748b"
+                          fontSize={12}
+                          width={90}
+                          domain={[0, FOLLOW_UP_STEPS.length - 1]}
+                          ticks={FOLLOW_UP_STEPS.map((_, index) => index)}
+                          tickFormatter={(value: number) => FOLLOW_UP_STEPS[value]}
+                        />
+                        <Tooltip
+                          formatter={(value: number) => [FOLLOW_UP_STEPS[value], 'Follow-up']}
+                          contentStyle={TOOLTIP_STYLE}
+                        />
+                        <Line type="stepAfter" dataKey="followUp" stroke="#22c55e" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </div>
+
+              {/* Screenings */}
+              <div className="card">
+                <div className="card-header">
+                  <h3 className="text-lg font-semibold text-trust-900">Screenings ({entries.length})</h3>
+                </div>
+                <div className="card-body overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-trust-200">
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Date</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Location</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">BMI</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Risk Level</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Follow-up</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...entries].reverse().map((entry) => (
+                        <tr key={entry.id} className="border-b border-trust-100 hover:bg-trust-50">
+                          <td className="py-3 px-4 text-trust-700">
+                            {format(new Date(entry.submissionDate), 'MMM dd, yyyy')}
+                          </td>
+                          <td className="py-3 px-4 text-trust-700">
+                            {locationNameMap.get(entry.churchId) || entry.churchId}
+                          </td>
+                          <td className="py-3 px-4 text-trust-900">
+                            {toNumber(entry.estimatedBMI)?.toFixed(1) ?? 'N/A'}
+                            {entry.bmiCategory && (
+                              <div className="text-xs text-trust-500">{entry.bmiCategory}</div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <span className={`px-2 py-1 text-xs rounded-full border ${getRiskColorClass(entry.healthRiskLevel)}`}>
+                              {entry.healthRiskLevel || 'Unknown'}
+                            </span>
+                            {entry.healthRiskScore !== undefined && (
+                              <div className="text-xs text-trust-500 mt-1">
+                                Score: {entry.healthRiskScore}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <span className={`px-2 py-1 text-xs rounded-full ${getStatusColorClass(entry.followUpStatus)}`}>
+                              {entry.followUpStatus || 'Pending'}
+                            </span>
+                            {entry.followUpDate && (
+                              <div className="text-xs text-trust-500 mt-1">
+                                {format(new Date(entry.followUpDate), 'MMM dd, yyyy')}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-600 max-w-xs truncate">
+                            {entry.followUpNotes || ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  ComputerDesktopIcon,
+  KeyIcon,
+  ShieldCheckIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import TwoFactorSetup, { RecoveryCodeList } from '@/components/TwoFactorSetup';
+import { TwoFactorStatus } from '@/types';
+
+// Actions on an enabled enrollment that must be confirmed with a current code
+type ConfirmAction = 'regenerate' | 'disable';
+
+export default function SecurityPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/two-factor');
+      const result = await response.json();
+
+      if (result.success) {
+        setStatus(result.data);
+      } else {
+        toast.error(result.message || 'Failed to load security settings');
+      }
+    } catch (error) {
+      console.error('Fetch two-factor status error:', error);
+      toast.error('Failed to load security settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const closeConfirm = () => {
+    setConfirmAction(null);
+    setCode('');
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirmAction) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetchWithAuth(
+        confirmAction === 'regenerate' ? '/api/admin/two-factor/recovery-codes' : '/api/admin/two-factor',
+        {
+          method: confirmAction === 'regenerate' ? 'POST' : 'DELETE',
+          body: JSON.stringify({ code }),
+        }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        toast.error(result.message || result.error || 'Invalid code');
+        return;
+      }
+
+      if (confirmAction === 'regenerate') {
+        setNewRecoveryCodes(result.data.recoveryCodes);
+      } else {
+        toast.success('Two-factor authentication turned off');
+      }
+      closeConfirm();
+      fetchStatus();
+    } catch (error) {
+      console.error('Two-factor update error:', error);
+      toast.error('Update failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading security settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Account Security - Health Screening System</title>
+        <meta name="description" content="Two-factor authentication and signed-in devices" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/dashboard')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Dashboard
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  Account Security
+                </h1>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8 space-y-8 max-w-3xl">
+          {/* Two-Factor Authentication */}
+          <div className="card">
+            <div className="card-header flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-trust-900 flex items-center">
+                {status?.enabled ? (
+                  <ShieldCheckIcon className="w-5 h-5 mr-2 text-green-600" />
+                ) : (
+                  <ShieldExclamationIcon className="w-5 h-5 mr-2 text-yellow-600" />
+                )}
+                Two-Factor Authentication
+              </h2>
+              <span
+                className={`px-2 py-1 text-xs rounded-full ${
+                  status?.enabled ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                }`}
+              >
+                {status?.enabled ? 'On' : 'Off'}
+              </span>
+            </div>
+            <div className="card-body space-y-4">
+              {newRecoveryCodes ? (
+                <RecoveryCodeList codes={newRecoveryCodes} onDone={() => setNewRecoveryCodes(null)} />
+              ) : isEnrolling ? (
+                <TwoFactorSetup
+                  onComplete={() => {
+                    setIsEnrolling(false);
+                    fetchStatus();
+                  }}
+                  onCancel={() => setIsEnrolling(false)}
+                />
+              ) : status?.enabled ? (
+                <>
+                  <p className="text-sm text-trust-600">
+                    Signing in asks for a code from your authenticator app.
+                    You have {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'}.
+                  </p>
+
+                  {confirmAction ? (
+                    <form onSubmit={handleConfirm} className="space-y-3">
+                      <label className="form-label">
+                        Enter a code from your authenticator app (or a recovery code) to{' '}
+                        {confirmAction === 'regenerate' ? 'replace your recovery codes' : 'turn off two-factor authentication'}
+                      </label>
+                      <input
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        className="form-input"
+                        autoComplete="one-time-code"
+                        maxLength={20}
+                        autoFocus
+                      />
+                      <div className="flex justify-end space-x-3">
+                        <button type="button" onClick={closeConfirm} className="btn-secondary">
+                          Cancel
+                        </button>
+                        <button type="submit" disabled={isSubmitting || code.trim().length < 6} className="btn-primary">
+                          {isSubmitting ? 'Verifying...' : 'Confirm'}
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <div className="flex space-x-3">
+                      <button onClick={() => setConfirmAction('regenerate')} className="btn-secondary flex items-center">
+                        <KeyIcon className="w-4 h-4 mr-2" />
+                        New Recovery Codes
+                      </button>
+                      {!status.required && (
+                        <button
+                          onClick={() => setConfirmAction('disable')}
+                          className="text-red-600 hover:text-red-900 text-sm"
+                        >
+                          Turn off
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-trust-600">
+                    Protect participant health information with a second step at sign-in:
+                    a 6-digit code from an authenticator app on your phone.
+                  </p>
+                  <button onClick={() => setIsEnrolling(true)} className="btn-primary flex items-center">
+                    <ShieldCheckIcon className="w-4 h-4 mr-2" />
+                    Set Up Two-Factor Authentication
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Active Sessions */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-trust-900 flex items-center">
+                <ComputerDesktopIcon className="w-5 h-5 mr-2 text-trust-600" />
+                Signed-in Devices
+              </h2>
+            </div>
+            <div className="card-body flex items-center justify-between">
+              <p className="text-sm text-trust-600">
+                Review where your account is signed in and sign out devices you don&apos;t recognize.
+              </p>
+              <button onClick={() => router.push('/admin/sessions')} className="btn-secondary">
+                Active Sessions
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  ArrowRightOnRectangleIcon,
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+} from '@heroicons/react/24/outline';
+import { format, formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { AdminSessionSummary } from '@/types';
+
+const describeSession = (session: AdminSessionSummary) => {
+  const browser = session.device?.browser?.name || 'Unknown browser';
+  const os = session.device?.os?.name || 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
+const describeHardware = (session: AdminSessionSummary) => {
+  const device = session.device?.device;
+  if (!device) return 'Unknown device';
+  const model = [device.brand, device.model].filter(Boolean).join(' ');
+  return model || `${device.type.charAt(0).toUpperCase()}${device.type.slice(1)}`;
+};
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<AdminSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/sessions');
+      const result = await response.json();
+
+      if (result.success) {
+        setSessions(result.data);
+      } else {
+        toast.error(result.message || 'Failed to load sessions');
+      }
+    } catch (error) {
+      console.error('Fetch sessions error:', error);
+      toast.error('Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: AdminSessionSummary) => {
+    const message = session.isCurrent
+      ? 'Sign out of this device?'
+      : `Sign out ${describeSession(session)}?`;
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/sessions?id=${encodeURIComponent(session.id)}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        toast.error(result.error || 'Failed to revoke session');
+        return;
+      }
+
+      if (session.isCurrent) {
+        router.push('/admin/login');
+        return;
+      }
+
+      toast.success('Session revoked');
+      fetchSessions();
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      toast.error('Failed to revoke session');
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+
+    try {
+      const response = await fetchWithAuth('/api/admin/sessions', { method: 'POST' });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Signed out everywhere');
+        router.push('/admin/login');
+      } else {
+        toast.error(result.error || 'Failed to sign out everywhere');
+      }
+    } catch (error) {
+      console.error('Sign out everywhere error:', error);
+      toast.error('Failed to sign out everywhere');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading sessions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Active Sessions - Health Screening System</title>
+        <meta name="description" content="Devices signed in to your admin account" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/dashboard')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Dashboard
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  Active Sessions
+                </h1>
+              </div>
+
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={handleSignOutEverywhere}
+                  className="btn-secondary flex items-center"
+                >
+                  <ArrowRightOnRectangleIcon className="w-4 h-4 mr-2" />
+                  Sign Out Everywhere
+                </button>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8">
+          <div className="card">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-trust-900">
+                Signed-in Devices ({sessions.length})
+              </h2>
+              <p className="text-sm text-trust-600 mt-1">
+                If you don&apos;t recognize a device, sign it out and change your password.
+              </p>
+            </div>
+            <div className="card-body">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-trust-200">
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Device</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">IP Address</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Signed In</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Last Active</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sessions.map((session) => {
+                      const DeviceIcon = session.device?.device?.type === 'mobile' || session.device?.device?.type === 'tablet'
+                        ? DevicePhoneMobileIcon
+                        : ComputerDesktopIcon;
+
+                      return (
+                        <tr key={session.id} className="border-b border-trust-100 hover:bg-trust-50">
+                          <td className="py-3 px-4">
+                            <div className="flex items-center">
+                              <DeviceIcon className="w-5 h-5 text-trust-500 mr-3" />
+                              <div>
+                                <div className="font-medium text-trust-900">
+                                  {describeSession(session)}
+                                  {session.isCurrent && (
+                                    <span className="ml-2 px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
+                                      This device
+                                    </span>
+                                  )}
+                                </div>
+                                <div className="text-sm text-trust-600">{describeHardware(session)}</div>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-700 font-mono">{session.ipAddress}</td>
+                          <td className="py-3 px-4 text-sm text-trust-600">
+                            {format(new Date(session.createdAt), 'MMM d, yyyy h:mm a')}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-600">
+                            {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                          </td>
+                          <td className="py-3 px-4">
+                            <button
+                              onClick={() => handleRevoke(session)}
+                              className="text-red-600 hover:text-red-900 text-sm"
+                            >
+                              {session.isCurrent ? 'Sign out' : 'Revoke'}
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
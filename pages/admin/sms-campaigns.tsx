@@ -0,0 +1,660 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  PlusIcon,
+  MegaphoneIcon,
+  UsersIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  OutreachLocation,
+  SmsCampaign,
+  SmsCampaignAudience,
+  SmsCampaignDetail,
+  SmsCampaignRecipientStatus,
+  SmsCampaignSkipReason,
+  SmsCampaignStatus,
+  SmsTemplate,
+  SubmissionFollowUpStatus,
+} from '@/types';
+import { fetchWithAuth } from '@/lib/api-client';
+import {
+  SMS_REPLY_TEMPLATE_KEYS,
+  SMS_TEMPLATE_MAX_LENGTH,
+  SmsTemplateDefault,
+  renderSmsTemplate,
+  selectSmsTemplate,
+  withOptOutNotice,
+} from '@/lib/sms-templates';
+import SmsSegmentCounter from '@/components/SmsSegmentCounter';
+
+interface CampaignForm {
+  name: string;
+  churchId: string;
+  riskLevels: string[];
+  followUpStatuses: SubmissionFollowUpStatus[];
+  startDate: string;
+  endDate: string;
+  // `custom` or the key of the template to send
+  templateKey: string;
+  message: string;
+  scheduledAt: string;
+}
+
+const EMPTY_FORM: CampaignForm = {
+  name: '',
+  churchId: '',
+  riskLevels: [],
+  followUpStatuses: [],
+  startDate: '',
+  endDate: '',
+  templateKey: 'followup',
+  message: '',
+  scheduledAt: '',
+};
+
+const RISK_LEVELS = ['Low', 'Moderate', 'High', 'Very High'];
+
+const FOLLOW_UP_STATUSES: SubmissionFollowUpStatus[] = ['Pending', 'Contacted', 'Scheduled', 'Completed'];
+
+const STATUS_STYLES: Record<SmsCampaignStatus, string> = {
+  scheduled: 'bg-primary-100 text-primary-800',
+  sending: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-health-100 text-health-800',
+  cancelled: 'bg-trust-100 text-trust-700',
+};
+
+const RECIPIENT_STATUS_LABELS: Record<SmsCampaignRecipientStatus, string> = {
+  pending: 'Waiting',
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+const SKIP_REASON_LABELS: Record<SmsCampaignSkipReason, string> = {
+  no_phone: 'No valid phone number',
+  no_consent: 'No SMS consent',
+  sms_not_preferred: 'Asked for email only',
+  opted_out: 'Opted out',
+  duplicate_phone: 'Same number as a newer screening',
+};
+
+// Sample values for the preview; real sends use each participant's screening
+const SAMPLE_VARIABLES = {
+  firstName: 'Maria',
+  riskLevel: 'High',
+};
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value];
+}
+
+export default function SmsCampaignsPage() {
+  const router = useRouter();
+  const [campaigns, setCampaigns] = useState<SmsCampaign[]>([]);
+  const [locations, setLocations] = useState<OutreachLocation[]>([]);
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [defaults, setDefaults] = useState<SmsTemplateDefault[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM);
+  const [audience, setAudience] = useState<SmsCampaignAudience | null>(null);
+  const [isCheckingAudience, setIsCheckingAudience] = useState(false);
+  const [detail, setDetail] = useState<SmsCampaignDetail | null>(null);
+
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const [campaignsResponse, locationsResponse, templatesResponse] = await Promise.all([
+        fetchWithAuth('/api/admin/sms-campaigns'),
+        fetchWithAuth('/api/admin/locations'),
+        fetchWithAuth('/api/admin/sms-templates'),
+      ]);
+
+      const campaignsResult = await campaignsResponse.json();
+      const locationsResult = await locationsResponse.json();
+      const templatesResult = await templatesResponse.json();
+
+      if (campaignsResult.success) {
+        setCampaigns(campaignsResult.data);
+      } else {
+        toast.error(campaignsResult.error || 'Failed to load SMS campaigns');
+      }
+      if (locationsResult.success) {
+        setLocations(locationsResult.data);
+      }
+      if (templatesResult.success) {
+        setTemplates(templatesResult.data.templates);
+        setDefaults(templatesResult.data.defaults);
+      }
+    } catch (error) {
+      console.error('Fetch SMS campaigns error:', error);
+      toast.error('Failed to load SMS campaigns');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  // The audience count is stale as soon as the filters change
+  const updateForm = (changes: Partial<CampaignForm>) => {
+    setForm((current) => ({ ...current, ...changes }));
+    if (
+      'churchId' in changes || 'riskLevels' in changes || 'followUpStatuses' in changes ||
+      'startDate' in changes || 'endDate' in changes
+    ) {
+      setAudience(null);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setForm(EMPTY_FORM);
+    setAudience(null);
+  };
+
+  const buildRequest = (dryRun: boolean) => ({
+    name: form.name || undefined,
+    filters: {
+      churchId: form.churchId || undefined,
+      riskLevels: form.riskLevels.length > 0 ? form.riskLevels : undefined,
+      followUpStatuses: form.followUpStatuses.length > 0 ? form.followUpStatuses : undefined,
+      startDate: form.startDate ? new Date(`${form.startDate}T00:00:00`).toISOString() : undefined,
+      endDate: form.endDate ? new Date(`${form.endDate}T23:59:59.999`).toISOString() : undefined,
+    },
+    templateKey: form.templateKey !== 'custom' ? form.templateKey : undefined,
+    message: form.templateKey === 'custom' ? form.message : undefined,
+    scheduledAt: form.scheduledAt ? new Date(form.scheduledAt).toISOString() : undefined,
+    dryRun,
+  });
+
+  const checkAudience = async () => {
+    setIsCheckingAudience(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/sms-campaigns', {
+        method: 'POST',
+        body: JSON.stringify(buildRequest(true)),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setAudience(result.data);
+      } else {
+        toast.error(result.message || result.error || 'Failed to count recipients');
+      }
+    } catch (error) {
+      console.error('SMS campaign dry run error:', error);
+      toast.error('Failed to count recipients');
+    } finally {
+      setIsCheckingAudience(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!audience) return;
+
+    const when = form.scheduledAt ? `on ${format(new Date(form.scheduledAt), 'MMM d, yyyy h:mm a')}` : 'now';
+    if (!confirm(`Text ${audience.eligible} participants ${when}?`)) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/sms-campaigns', {
+        method: 'POST',
+        body: JSON.stringify(buildRequest(false)),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(result.message || 'Campaign created!');
+        closeForm();
+        fetchCampaigns();
+      } else {
+        toast.error(result.message || result.error || 'Failed to create campaign');
+      }
+    } catch (error) {
+      console.error('Create SMS campaign error:', error);
+      toast.error('Failed to create campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const viewResults = async (campaign: SmsCampaign) => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/sms-campaigns/${campaign.id}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setDetail(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load campaign results');
+      }
+    } catch (error) {
+      console.error('Fetch SMS campaign error:', error);
+      toast.error('Failed to load campaign results');
+    }
+  };
+
+  const handleCancel = async (campaign: SmsCampaign) => {
+    if (!confirm(`Cancel "${campaign.name}"? Messages already sent cannot be recalled.`)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/sms-campaigns/${campaign.id}/cancel`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Campaign cancelled');
+        fetchCampaigns();
+        if (detail?.campaign.id === campaign.id) {
+          viewResults(campaign);
+        }
+      } else {
+        toast.error(result.message || result.error || 'Failed to cancel campaign');
+      }
+    } catch (error) {
+      console.error('Cancel SMS campaign error:', error);
+      toast.error('Failed to cancel campaign');
+    }
+  };
+
+  // One option per template key, leaving out the keyword replies
+  const templateOptions = Array.from(
+    new Map(
+      [...defaults, ...templates]
+        .filter((template) => !SMS_REPLY_TEMPLATE_KEYS.includes(template.key))
+        .map((template) => [template.key, template.name])
+    )
+  );
+
+  const previewTemplate = form.templateKey === 'custom'
+    ? (form.message.trim() ? withOptOutNotice(form.message) : '')
+    : selectSmsTemplate(templates, form.templateKey, { churchId: form.churchId || undefined })?.body || '';
+
+  const previewText = renderSmsTemplate(previewTemplate, {
+    ...SAMPLE_VARIABLES,
+    locationName: form.churchId ? locationNames.get(form.churchId) : locations[0]?.name,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading SMS campaigns...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>SMS Campaigns - Health Screening System</title>
+        <meta name="description" content="Send SMS campaigns to screening participants" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/dashboard')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Dashboard
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  SMS Campaigns
+                </h1>
+              </div>
+
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setShowForm(true)}
+                  className="btn-primary flex items-center"
+                >
+                  <PlusIcon className="w-4 h-4 mr-2" />
+                  New Campaign
+                </button>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8">
+          {/* New Campaign Form */}
+          {showForm && (
+            <div className="card mb-8">
+              <div className="card-header">
+                <h2 className="text-lg font-semibold text-trust-900">New Campaign</h2>
+                <p className="text-sm text-trust-600 mt-1">
+                  Participants without SMS consent, who opted out, or who share a number with a newer screening are left out.
+                </p>
+              </div>
+              <div className="card-body">
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="form-label">Name *</label>
+                      <input
+                        value={form.name}
+                        onChange={(e) => updateForm({ name: e.target.value })}
+                        className="form-input"
+                        placeholder="e.g., High risk follow-up, March"
+                        maxLength={100}
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="form-label">Location</label>
+                      <select
+                        value={form.churchId}
+                        onChange={(e) => updateForm({ churchId: e.target.value })}
+                        className="form-input"
+                      >
+                        <option value="">All locations</option>
+                        {locations.map((location) => (
+                          <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="form-label">Risk Level</label>
+                      <div className="flex flex-wrap gap-4 mt-1">
+                        {RISK_LEVELS.map((level) => (
+                          <label key={level} className="flex items-center text-sm text-trust-700">
+                            <input
+                              type="checkbox"
+                              checked={form.riskLevels.includes(level)}
+                              onChange={() => updateForm({ riskLevels: toggle(form.riskLevels, level) })}
+                              className="mr-2"
+                            />
+                            {level}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="form-label">Follow-up Status</label>
+                      <div className="flex flex-wrap gap-4 mt-1">
+                        {FOLLOW_UP_STATUSES.map((status) => (
+                          <label key={status} className="flex items-center text-sm text-trust-700">
+                            <input
+                              type="checkbox"
+                              checked={form.followUpStatuses.includes(status)}
+                              onChange={() => updateForm({ followUpStatuses: toggle(form.followUpStatuses, status) })}
+                              className="mr-2"
+                            />
+                            {status}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="form-label">Screened From</label>
+                      <input
+                        type="date"
+                        value={form.startDate}
+                        onChange={(e) => updateForm({ startDate: e.target.value })}
+                        className="form-input"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="form-label">Screened Until</label>
+                      <input
+                        type="date"
+                        value={form.endDate}
+                        onChange={(e) => updateForm({ endDate: e.target.value })}
+                        className="form-input"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="form-label">Message *</label>
+                      <select
+                        value={form.templateKey}
+                        onChange={(e) => updateForm({ templateKey: e.target.value })}
+                        className="form-input"
+                      >
+                        {templateOptions.map(([key, name]) => (
+                          <option key={key} value={key}>{name}</option>
+                        ))}
+                        <option value="custom">Custom message</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="form-label">Send At</label>
+                      <input
+                        type="datetime-local"
+                        value={form.scheduledAt}
+                        onChange={(e) => updateForm({ scheduledAt: e.target.value })}
+                        className="form-input"
+                      />
+                      <p className="text-xs text-trust-500 mt-1">Leave empty to send now</p>
+                    </div>
+                  </div>
+
+                  {form.templateKey === 'custom' && (
+                    <div>
+                      <label className="form-label">Custom Message *</label>
+                      <textarea
+                        value={form.message}
+                        onChange={(e) => updateForm({ message: e.target.value })}
+                        rows={4}
+                        maxLength={SMS_TEMPLATE_MAX_LENGTH}
+                        className="form-input"
+                        placeholder="Hi {{firstName}}! ..."
+                        required
+                      />
+                      <p className="text-xs text-trust-500 mt-1">
+                        Use {'{{firstName}}'}, {'{{locationName}}'} and {'{{riskLevel}}'}. &quot;Reply STOP to opt out.&quot; is added when the message does not mention STOP.
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="bg-trust-50 p-4 rounded-md">
+                    <h4 className="text-sm font-medium text-trust-700 mb-2">Preview</h4>
+                    <p className="text-sm text-trust-800 whitespace-pre-wrap">{previewText || '—'}</p>
+                    <SmsSegmentCounter text={previewText} className="mt-2" />
+                  </div>
+
+                  {audience && (
+                    <div className="bg-primary-50 p-4 rounded-md text-sm text-primary-900">
+                      <p className="font-medium">
+                        {audience.eligible} of {audience.matched} matching submissions will be texted
+                      </p>
+                      {audience.matched > audience.eligible && (
+                        <ul className="mt-1 text-primary-800">
+                          {(Object.keys(audience.skipped) as SmsCampaignSkipReason[])
+                            .filter((reason) => audience.skipped[reason] > 0)
+                            .map((reason) => (
+                              <li key={reason}>{SKIP_REASON_LABELS[reason]}: {audience.skipped[reason]}</li>
+                            ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end space-x-3">
+                    <button type="button" onClick={closeForm} className="btn-secondary">
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={checkAudience}
+                      className="btn-secondary flex items-center"
+                      disabled={isCheckingAudience}
+                    >
+                      <UsersIcon className="w-4 h-4 mr-2" />
+                      {isCheckingAudience ? 'Counting...' : 'Count Recipients'}
+                    </button>
+                    <button
+                      type="submit"
+                      className="btn-primary"
+                      disabled={isSaving || !audience || audience.eligible === 0}
+                      title={!audience ? 'Count the recipients first' : undefined}
+                    >
+                      {isSaving ? 'Saving...' : form.scheduledAt ? 'Schedule Campaign' : 'Send Campaign'}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          )}
+
+          {/* Campaigns */}
+          <div className="card mb-8">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-trust-900">
+                Campaigns ({campaigns.length})
+              </h2>
+            </div>
+            <div className="card-body">
+              {campaigns.length === 0 ? (
+                <div className="text-center py-12">
+                  <MegaphoneIcon className="w-16 h-16 text-trust-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-trust-900 mb-2">No campaigns yet</h3>
+                  <p className="text-trust-600">
+                    Text everyone matching a set of filters, now or at a scheduled time.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-trust-200">
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Campaign</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Status</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Send At</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Progress</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {campaigns.map((campaign) => (
+                        <tr key={campaign.id} className="border-b border-trust-100 hover:bg-trust-50">
+                          <td className="py-3 px-4">
+                            <div className="font-medium text-trust-900">{campaign.name}</div>
+                            <div className="text-xs text-trust-600">
+                              {campaign.filters.churchId
+                                ? locationNames.get(campaign.filters.churchId) || 'Unknown location'
+                                : 'All locations'}
+                              {' · '}{campaign.templateKey || 'custom message'}
+                              {' · '}{campaign.createdBy}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[campaign.status]}`}>
+                              {campaign.status}
+                            </span>
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-700">
+                            {format(new Date(campaign.scheduledAt), 'MMM d, yyyy h:mm a')}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-700">
+                            {campaign.counts.sent} of {campaign.counts.total - campaign.counts.skipped} sent
+                            <div className="text-xs text-trust-500">
+                              {campaign.counts.failed} failed · {campaign.counts.skipped} skipped
+                              {campaign.counts.pending > 0 && ` · ${campaign.counts.pending} waiting`}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-3">
+                              <button
+                                onClick={() => viewResults(campaign)}
+                                className="text-sm text-primary-600 hover:text-primary-900"
+                              >
+                                Results
+                              </button>
+                              {(campaign.status === 'scheduled' || campaign.status === 'sending') && (
+                                <button
+                                  onClick={() => handleCancel(campaign)}
+                                  className="text-red-600 hover:text-red-900"
+                                  title="Cancel campaign"
+                                >
+                                  <XCircleIcon className="w-4 h-4" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Per-recipient Results */}
+          {detail && (
+            <div className="card">
+              <div className="card-header flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-trust-900">
+                  Results: {detail.campaign.name}
+                </h2>
+                <button onClick={() => setDetail(null)} className="text-sm text-trust-600 hover:text-trust-900">
+                  Close
+                </button>
+              </div>
+              <div className="card-body overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-trust-200">
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Submission</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Phone</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Result</th>
+                      <th className="text-left py-3 px-4 font-medium text-trust-900">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail.recipients.map((recipient) => (
+                      <tr key={recipient.submissionId} className="border-b border-trust-100">
+                        <td className="py-2 px-4 text-sm font-mono text-trust-700">{recipient.submissionId.slice(0, 8)}</td>
+                        <td className="py-2 px-4 text-sm text-trust-700">{recipient.phone || '—'}</td>
+                        <td className="py-2 px-4 text-sm text-trust-900">
+                          {recipient.status === 'pending' && detail.campaign.status === 'cancelled'
+                            ? 'Not sent'
+                            : RECIPIENT_STATUS_LABELS[recipient.status]}
+                        </td>
+                        <td className="py-2 px-4 text-sm text-trust-600">
+                          {recipient.skipReason && SKIP_REASON_LABELS[recipient.skipReason]}
+                          {recipient.sentAt && format(new Date(recipient.sentAt), 'MMM d, h:mm a')}
+                          {recipient.status !== 'sent' && recipient.error && (
+                            <span className="text-red-700">
+                              {recipient.error} ({recipient.attempts} attempt{recipient.attempts === 1 ? '' : 's'})
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,511 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ChatBubbleLeftRightIcon,
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { OutreachLocation, SmsTemplate } from '@/types';
+import { fetchWithAuth } from '@/lib/api-client';
+import {
+  DEFAULT_SMS_LOCALE,
+  SMS_TEMPLATE_MAX_LENGTH,
+  SMS_TEMPLATE_VARIABLES,
+  SmsTemplateDefault,
+  SmsTemplateVariable,
+  renderSmsTemplate,
+} from '@/lib/sms-templates';
+import SmsSegmentCounter from '@/components/SmsSegmentCounter';
+
+interface TemplateForm {
+  key: string;
+  name: string;
+  locale: string;
+  churchId: string;
+  body: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  key: '',
+  name: '',
+  locale: DEFAULT_SMS_LOCALE,
+  churchId: '',
+  body: '',
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
+
+const VARIABLE_LABELS: Record<SmsTemplateVariable, string> = {
+  firstName: 'First name',
+  locationName: 'Location name',
+  riskLevel: 'Risk level',
+};
+
+// Sample values for the preview; real sends use the participant's screening
+const SAMPLE_VARIABLES = {
+  firstName: 'Maria',
+  riskLevel: 'Moderate',
+};
+
+function languageName(locale: string): string {
+  return LANGUAGE_NAMES[locale] || LANGUAGE_NAMES[locale.split('-')[0]] || locale;
+}
+
+export default function SmsTemplatesPage() {
+  const router = useRouter();
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [defaults, setDefaults] = useState<SmsTemplateDefault[]>([]);
+  const [locations, setLocations] = useState<OutreachLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<SmsTemplate | null>(null);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const [templatesResponse, locationsResponse] = await Promise.all([
+        fetchWithAuth('/api/admin/sms-templates'),
+        fetchWithAuth('/api/admin/locations'),
+      ]);
+
+      const templatesResult = await templatesResponse.json();
+      const locationsResult = await locationsResponse.json();
+
+      if (templatesResult.success) {
+        setTemplates(templatesResult.data.templates);
+        setDefaults(templatesResult.data.defaults);
+      } else {
+        toast.error(templatesResult.error || 'Failed to load SMS templates');
+      }
+      if (locationsResult.success) {
+        setLocations(locationsResult.data);
+      }
+    } catch (error) {
+      console.error('Fetch SMS templates error:', error);
+      toast.error('Failed to load SMS templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const openForm = (values: TemplateForm, template: SmsTemplate | null = null) => {
+    setEditingTemplate(template);
+    setForm(values);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingTemplate(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEdit = (template: SmsTemplate) => {
+    openForm({
+      key: template.key,
+      name: template.name,
+      locale: template.locale,
+      churchId: template.churchId || '',
+      body: template.body,
+    }, template);
+  };
+
+  // Start a stored template from a built-in default or another template, e.g. a location override
+  const handleCustomize = (source: SmsTemplateDefault | SmsTemplate) => {
+    openForm({
+      key: source.key,
+      name: source.name,
+      locale: source.locale,
+      churchId: '',
+      body: source.body,
+    });
+  };
+
+  const insertVariable = (variable: SmsTemplateVariable) => {
+    const placeholder = `{{${variable}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? form.body.length;
+    const end = textarea?.selectionEnd ?? form.body.length;
+
+    setForm((current) => ({
+      ...current,
+      body: current.body.slice(0, start) + placeholder + current.body.slice(end),
+    }));
+
+    // Put the cursor after the inserted variable once the textarea re-renders
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = editingTemplate
+        ? await fetchWithAuth(`/api/admin/sms-templates/${editingTemplate.id}`, {
+          method: 'PUT',
+          body: JSON.stringify({ name: form.name, body: form.body }),
+        })
+        : await fetchWithAuth('/api/admin/sms-templates', {
+          method: 'POST',
+          body: JSON.stringify({
+            key: form.key,
+            name: form.name,
+            locale: form.locale,
+            churchId: form.churchId || undefined,
+            body: form.body,
+          }),
+        });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(editingTemplate ? 'Template updated!' : 'Template created!');
+        closeForm();
+        fetchTemplates();
+      } else {
+        toast.error(result.message || result.error || 'Failed to save template');
+      }
+    } catch (error) {
+      console.error('Save SMS template error:', error);
+      toast.error('Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: SmsTemplate) => {
+    const fallback = template.churchId ? 'the shared template' : 'the built-in default, if there is one';
+    if (!confirm(`Delete "${template.name}"? Messages will use ${fallback} instead.`)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/sms-templates/${template.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Template deleted!');
+        fetchTemplates();
+      } else {
+        toast.error(result.message || result.error || 'Failed to delete template');
+      }
+    } catch (error) {
+      console.error('Delete SMS template error:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  // Built-in defaults that no stored shared template replaces yet
+  const uncustomizedDefaults = defaults.filter((template) =>
+    !templates.some((stored) => !stored.churchId && stored.key === template.key && stored.locale === template.locale)
+  );
+
+  const previewText = renderSmsTemplate(form.body, {
+    ...SAMPLE_VARIABLES,
+    locationName: form.churchId ? locationNames.get(form.churchId) : locations[0]?.name,
+  }, form.locale);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading SMS templates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>SMS Templates - Health Screening System</title>
+        <meta name="description" content="Manage SMS message templates" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/dashboard')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Dashboard
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  SMS Templates
+                </h1>
+              </div>
+
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => openForm(EMPTY_FORM)}
+                  className="btn-primary flex items-center"
+                >
+                  <PlusIcon className="w-4 h-4 mr-2" />
+                  Add Template
+                </button>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8">
+          {/* Add/Edit Form */}
+          {showForm && (
+            <div className="card mb-8">
+              <div className="card-header">
+                <h2 className="text-lg font-semibold text-trust-900">
+                  {editingTemplate ? 'Edit Template' : 'Add Template'}
+                </h2>
+              </div>
+              <div className="card-body">
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="form-label">Key *</label>
+                      <input
+                        value={form.key}
+                        onChange={(e) => setForm({ ...form, key: e.target.value })}
+                        className="form-input"
+                        placeholder="e.g., welcome"
+                        disabled={Boolean(editingTemplate)}
+                        required
+                      />
+                      <p className="text-xs text-trust-500 mt-1">
+                        <code>welcome</code> and <code>followup</code> replace those message types
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="form-label">Name *</label>
+                      <input
+                        value={form.name}
+                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                        className="form-input"
+                        placeholder="e.g., Welcome message"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="form-label">Language *</label>
+                      <input
+                        value={form.locale}
+                        onChange={(e) => setForm({ ...form, locale: e.target.value })}
+                        className="form-input"
+                        placeholder="en, es or es-MX"
+                        list="sms-template-locales"
+                        disabled={Boolean(editingTemplate)}
+                        required
+                      />
+                      <datalist id="sms-template-locales">
+                        {Object.entries(LANGUAGE_NAMES).map(([locale, name]) => (
+                          <option key={locale} value={locale}>{name}</option>
+                        ))}
+                      </datalist>
+                    </div>
+
+                    <div>
+                      <label className="form-label">Applies To</label>
+                      <select
+                        value={form.churchId}
+                        onChange={(e) => setForm({ ...form, churchId: e.target.value })}
+                        className="form-input"
+                        disabled={Boolean(editingTemplate)}
+                      >
+                        <option value="">All locations</option>
+                        {locations.map((location) => (
+                          <option key={location.id} value={location.id}>{location.name} only</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="form-label">Message *</label>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {SMS_TEMPLATE_VARIABLES.map((variable) => (
+                        <button
+                          key={variable}
+                          type="button"
+                          onClick={() => insertVariable(variable)}
+                          className="px-2 py-1 text-xs bg-primary-50 text-primary-700 rounded-md hover:bg-primary-100"
+                        >
+                          + {VARIABLE_LABELS[variable]}
+                        </button>
+                      ))}
+                    </div>
+                    <textarea
+                      ref={bodyRef}
+                      value={form.body}
+                      onChange={(e) => setForm({ ...form, body: e.target.value })}
+                      rows={4}
+                      maxLength={SMS_TEMPLATE_MAX_LENGTH}
+                      className="form-input"
+                      placeholder="Hi {{firstName}}! ..."
+                      required
+                    />
+                  </div>
+
+                  <div className="bg-trust-50 p-4 rounded-md">
+                    <h4 className="text-sm font-medium text-trust-700 mb-2">Preview</h4>
+                    <p className="text-sm text-trust-800 whitespace-pre-wrap">{previewText || '—'}</p>
+                    <SmsSegmentCounter text={previewText} className="mt-2" />
+                  </div>
+
+                  <div className="flex justify-end space-x-3">
+                    <button type="button" onClick={closeForm} className="btn-secondary">
+                      Cancel
+                    </button>
+                    <button type="submit" className="btn-primary" disabled={isSaving}>
+                      {isSaving ? 'Saving...' : editingTemplate ? 'Update Template' : 'Create Template'}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          )}
+
+          {/* Stored Templates */}
+          <div className="card mb-8">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-trust-900">
+                Templates ({templates.length})
+              </h2>
+              <p className="text-sm text-trust-600 mt-1">
+                A location&apos;s template is used for its participants before the one for all locations.
+              </p>
+            </div>
+            <div className="card-body">
+              {templates.length === 0 ? (
+                <div className="text-center py-12">
+                  <ChatBubbleLeftRightIcon className="w-16 h-16 text-trust-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-trust-900 mb-2">No custom templates yet</h3>
+                  <p className="text-trust-600">
+                    Messages use the built-in defaults below until you customize them.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-trust-200">
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Template</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Language</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Applies To</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Message</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Updated</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {templates.map((template) => (
+                        <tr key={template.id} className="border-b border-trust-100 hover:bg-trust-50">
+                          <td className="py-3 px-4">
+                            <div className="font-medium text-trust-900">{template.name}</div>
+                            <code className="text-xs text-trust-600">{template.key}</code>
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-700">{languageName(template.locale)}</td>
+                          <td className="py-3 px-4 text-sm text-trust-700">
+                            {template.churchId
+                              ? locationNames.get(template.churchId) || 'Unknown location'
+                              : 'All locations'}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-700 max-w-md">
+                            <p className="line-clamp-2">{template.body}</p>
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-600">
+                            {format(new Date(template.updatedAt), 'MMM d, yyyy')}
+                            {template.updatedBy && <div className="text-xs">{template.updatedBy}</div>}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleEdit(template)}
+                                className="text-trust-600 hover:text-trust-900"
+                                title="Edit template"
+                              >
+                                <PencilIcon className="w-4 h-4" />
+                              </button>
+                              {!template.churchId && (
+                                <button
+                                  onClick={() => handleCustomize(template)}
+                                  className="text-primary-600 hover:text-primary-900"
+                                  title="Add a location or language variant"
+                                >
+                                  <PlusIcon className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleDelete(template)}
+                                className="text-red-600 hover:text-red-900"
+                                title="Delete template"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Built-in Defaults */}
+          {uncustomizedDefaults.length > 0 && (
+            <div className="card">
+              <div className="card-header">
+                <h2 className="text-lg font-semibold text-trust-900">Built-in Defaults</h2>
+              </div>
+              <div className="card-body space-y-4">
+                {uncustomizedDefaults.map((template) => (
+                  <div
+                    key={`${template.key}-${template.locale}`}
+                    className="flex items-start justify-between border border-trust-200 rounded-lg p-4"
+                  >
+                    <div className="flex-1 mr-4">
+                      <div className="font-medium text-trust-900">
+                        {template.name} <code className="text-xs text-trust-600">{template.key}</code>
+                      </div>
+                      <p className="text-sm text-trust-700 mt-1">{template.body}</p>
+                    </div>
+                    <button onClick={() => handleCustomize(template)} className="btn-secondary text-sm">
+                      Customize
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -7,12 +7,41 @@ import {
   EyeIcon,
   UserIcon,
   ArrowPathIcon,
+  DocumentDuplicateIcon,
+  ChartBarIcon,
+  CpuChipIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
-import { HealthSubmission, OutreachLocation } from '@/types';
+import {
+  ContactPreference,
+  ExportFilterOptions,
+  HealthSubmission,
+  OutreachLocation,
+  SubmissionFollowUpStatus,
+} from '@/types';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import HealthAnalysisPortfolio from '../../components/GeneticTestingPortfolio';
+import ExportDialog from '../../components/ExportDialog';
+import DuplicateReviewQueue from '../../components/DuplicateReviewQueue';
+import AnalysisQueue from '../../components/AnalysisQueue';
+import FollowUpPanel from '../../components/FollowUpPanel';
+import SmsConsentPanel from '../../components/SmsConsentPanel';
+import SmsHistoryPanel from '../../components/SmsHistoryPanel';
 import { fetchWithAuth } from '@/lib/api-client';
+import { formatCustomFieldValue } from '@/lib/custom-fields';
+import { resolveLocale, type Locale } from '@/lib/i18n';
+
+const CONTACT_PREFERENCE_LABELS: Record<ContactPreference, string> = {
+  sms: 'Text message',
+  email: 'Email',
+  both: 'Text and email',
+};
+
+const LANGUAGE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
 
 export default function SubmissionsPage() {
   const router = useRouter();
@@ -31,9 +60,12 @@ export default function SubmissionsPage() {
   const [isRefreshingPhotos, setIsRefreshingPhotos] = useState(false);
   const [nextToken, setNextToken] = useState<string | undefined>();
   const [hasMore, setHasMore] = useState(true);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [view, setView] = useState<'submissions' | 'duplicates' | 'analysis'>('submissions');
+  const [isRerunningAnalysis, setIsRerunningAnalysis] = useState(false);
 
   // Create location name mapping
-  const locationNameMap = new Map();
+  const locationNameMap = new Map<string, string>();
   locations.forEach(location => {
     locationNameMap.set(location.id, location.name);
   });
@@ -249,6 +281,22 @@ export default function SubmissionsPage() {
     };
   }, [selectedSubmission]);
 
+  // Show the row right away, then load the record from the server, which records the view in the audit log
+  const openSubmission = async (submission: HealthSubmission) => {
+    setSelectedSubmission(submission);
+    setShowGeneticPortfolio(false);
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/submissions/${submission.id}`);
+      const result = await response.json();
+      if (result.success) {
+        setSelectedSubmission((prev) => (prev?.id === submission.id ? result.data : prev));
+      }
+    } catch (error) {
+      console.error('Failed to load submission details:', error);
+    }
+  };
+
   const updateFollowUpStatus = async (submissionId: string, status: string, notes?: string) => {
     try {
       const response = await fetchWithAuth(`/api/admin/submissions/${submissionId}`, {
@@ -256,7 +304,6 @@ export default function SubmissionsPage() {
         body: JSON.stringify({
           followUpStatus: status,
           followUpNotes: notes,
-          followUpDate: new Date().toISOString(),
         }),
       });
 
@@ -273,44 +320,34 @@ export default function SubmissionsPage() {
     }
   };
 
-  const exportSubmissions = async () => {
+  const rerunAnalysis = async (submissionId: string) => {
+    setIsRerunningAnalysis(true);
     try {
-      toast.success('Export started! This may take a moment...');
-      
-      const response = await fetchWithAuth('/api/admin/export', {
+      const response = await fetchWithAuth(`/api/admin/submissions/${submissionId}/reanalyze`, {
         method: 'POST',
-        body: JSON.stringify({
-          format: 'csv',
-          filters: {
-            startDate: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString(),
-            endDate: new Date().toISOString(),
-            churchIds: filterLocation ? [filterLocation] : undefined,
-            riskLevels: filterRisk ? [filterRisk] : undefined,
-            followUpStatuses: filterStatus ? [filterStatus] : undefined,
-          },
-        }),
       });
+      const result = await response.json();
 
-      if (response.ok) {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `health-screening-submissions-${new Date().toISOString().split('T')[0]}.csv`;
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
-        document.body.removeChild(a);
-        
-        toast.success('Data exported successfully!');
+      if (result.success) {
+        toast.success(result.message);
+        setSelectedSubmission((prev) => (prev?.id === submissionId ? result.data : prev));
+        fetchSubmissions();
       } else {
-        toast.error('Export failed');
+        toast.error(result.message || result.error || 'Failed to re-run analysis');
       }
     } catch {
-      toast.error('Export failed');
+      toast.error('Failed to re-run analysis');
+    } finally {
+      setIsRerunningAnalysis(false);
     }
   };
 
+  const exportFilters: ExportFilterOptions = {
+    churchIds: filterLocation ? [filterLocation] : undefined,
+    riskLevels: filterRisk ? [filterRisk] : undefined,
+    followUpStatuses: filterStatus ? [filterStatus as SubmissionFollowUpStatus] : undefined,
+  };
+
   const refreshPhotos = async () => {
     setIsRefreshingPhotos(true);
     try {
@@ -431,6 +468,20 @@ export default function SubmissionsPage() {
               </div>
               
               <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setView((prev) => (prev === 'duplicates' ? 'submissions' : 'duplicates'))}
+                  className="btn-secondary flex items-center"
+                >
+                  <DocumentDuplicateIcon className="w-4 h-4 mr-2" />
+                  {view === 'duplicates' ? 'All Submissions' : 'Review Duplicates'}
+                </button>
+                <button
+                  onClick={() => setView((prev) => (prev === 'analysis' ? 'submissions' : 'analysis'))}
+                  className="btn-secondary flex items-center"
+                >
+                  <CpuChipIcon className="w-4 h-4 mr-2" />
+                  {view === 'analysis' ? 'All Submissions' : 'Analysis Queue'}
+                </button>
                 <button
                   onClick={refreshPhotos}
                   disabled={isRefreshingPhotos}
@@ -441,11 +492,11 @@ export default function SubmissionsPage() {
                   {isRefreshingPhotos ? 'Refreshing...' : 'Refresh Photos'}
                 </button>
                 <button
-                  onClick={exportSubmissions}
+                  onClick={() => setShowExportDialog(true)}
                   className="btn-secondary flex items-center"
                 >
                   <DocumentArrowDownIcon className="w-4 h-4 mr-2" />
-                  Export CSV
+                  Export
                 </button>
               </div>
             </div>
@@ -453,6 +504,20 @@ export default function SubmissionsPage() {
         </nav>
 
         <div className="desktop-container py-8">
+          {view === 'duplicates' ? (
+            <DuplicateReviewQueue
+              locationNames={locationNameMap}
+              onOpenSubmission={openSubmission}
+              onResolved={() => fetchSubmissions()}
+            />
+          ) : view === 'analysis' ? (
+            <AnalysisQueue
+              locationNames={locationNameMap}
+              onOpenSubmission={openSubmission}
+              onAnalyzed={() => fetchSubmissions()}
+            />
+          ) : (
+          <>
           {/* Filters */}
           <div className="card mb-6">
             <div className="card-body">
@@ -572,6 +637,16 @@ export default function SubmissionsPage() {
                             <div>
                               <div className="font-medium text-trust-900">
                                 {submission.firstName} {submission.lastName}
+                                {submission.duplicateStatus === 'pending' && (
+                                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">
+                                    Possible duplicate
+                                  </span>
+                                )}
+                                {submission.participantId && (
+                                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-primary-100 text-primary-800">
+                                    Merged
+                                  </span>
+                                )}
                               </div>
                               <div className="text-sm text-trust-600">
                                 Age: {submission.estimatedAge || 'N/A'}, Gender: {submission.estimatedGender || 'N/A'}
@@ -591,11 +666,11 @@ export default function SubmissionsPage() {
                                   photoPath={submission.selfieUrl}
                                   alt={`${submission.firstName} ${submission.lastName}`}
                                   className="w-12 h-12 rounded-full object-cover border-2 border-trust-200 cursor-pointer hover:border-primary-400 transition-colors"
-                                  onClick={() => setSelectedSubmission(submission)}
+                                  onClick={() => openSubmission(submission)}
                                 />
                               ) : (
                                 <div className="w-12 h-12 rounded-full bg-trust-100 border-2 border-trust-200 flex items-center justify-center cursor-pointer hover:border-primary-400 transition-colors"
-                                     onClick={() => setSelectedSubmission(submission)}>
+                                     onClick={() => openSubmission(submission)}>
                                   <svg className="w-6 h-6 text-trust-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                                   </svg>
@@ -629,6 +704,16 @@ export default function SubmissionsPage() {
                                 {submission.bmiCategory}
                               </div>
                             )}
+                            {submission.analysisStatus === 'pending' && (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-primary-100 text-primary-800">
+                                Analyzing
+                              </span>
+                            )}
+                            {submission.analysisStatus === 'failed' && (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">
+                                Analysis failed
+                              </span>
+                            )}
                           </td>
                           <td className="py-3 px-4">
                             <div className="text-trust-900">
@@ -649,13 +734,18 @@ export default function SubmissionsPage() {
                               <option value="Scheduled">Scheduled</option>
                               <option value="Completed">Completed</option>
                             </select>
+                            {submission.followUpEscalatedAt && (submission.followUpStatus || 'Pending') === 'Pending' && (
+                              <span
+                                className="ml-2 inline-flex items-center text-xs text-red-700"
+                                title={`Escalated ${format(new Date(submission.followUpEscalatedAt), 'MMM dd, yyyy')}`}
+                              >
+                                <ExclamationTriangleIcon className="w-4 h-4" />
+                              </span>
+                            )}
                           </td>
                           <td className="py-3 px-4">
                             <button
-                              onClick={() => {
-                                setSelectedSubmission(submission);
-                                setShowGeneticPortfolio(false);
-                              }}
+                              onClick={() => openSubmission(submission)}
                               className="text-primary-600 hover:text-primary-900"
                               title="View details"
                             >
@@ -690,8 +780,21 @@ export default function SubmissionsPage() {
               </button>
             </div>
           )}
+          </>
+          )}
         </div>
 
+        <ExportDialog
+          isOpen={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          filters={exportFilters}
+          filterSummary={
+            filterLocation || filterRisk || filterStatus
+              ? 'Only submissions matching the current location, risk and status filters are exported.'
+              : 'All submissions are exported. Use the filters on this page to narrow the export.'
+          }
+        />
+
         {/* Submission Details Modal */}
         {selectedSubmission && !showGeneticPortfolio && (
           <div 
@@ -786,6 +889,21 @@ export default function SubmissionsPage() {
                         <label className="text-sm font-medium text-trust-700 block mb-1">Email</label>
                         <p className="text-trust-900">{selectedSubmission.email || 'Not provided'}</p>
                       </div>
+                      <div>
+                        <label className="text-sm font-medium text-trust-700 block mb-1">Contact By</label>
+                        <p className="text-trust-900">
+                          {CONTACT_PREFERENCE_LABELS[selectedSubmission.contactPreference || 'sms']}
+                          {selectedSubmission.resultsEmailSentAt && (
+                            <span className="block text-sm text-trust-500">
+                              Results emailed {format(new Date(selectedSubmission.resultsEmailSentAt), 'MMM dd, yyyy h:mm a')}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-trust-700 block mb-1">Language</label>
+                        <p className="text-trust-900">{LANGUAGE_LABELS[resolveLocale(selectedSubmission.locale)]}</p>
+                      </div>
                     </div>
                     <div className="space-y-4">
                       <div>
@@ -803,9 +921,82 @@ export default function SubmissionsPage() {
                     </div>
                   </div>
 
+                  {/* Participant & Duplicate Review */}
+                  {(selectedSubmission.duplicateStatus || selectedSubmission.participantId) && (
+                    <div className="bg-trust-50 rounded-lg p-4">
+                      <h4 className="text-lg font-medium text-trust-900 mb-3">Participant</h4>
+                      <div className="space-y-2 text-sm">
+                        {selectedSubmission.duplicateStatus === 'pending' && (
+                          <p className="text-orange-800">
+                            Possible duplicate of {selectedSubmission.duplicateCandidates?.length || 0} earlier submission(s).
+                            Resolve it from the duplicate review queue.
+                          </p>
+                        )}
+                        {selectedSubmission.participantId && (
+                          <button
+                            onClick={() => router.push(`/admin/participants/${selectedSubmission.participantId}`)}
+                            className="flex items-center text-primary-600 hover:text-primary-900"
+                          >
+                            <ChartBarIcon className="w-4 h-4 mr-2" />
+                            View screening history
+                          </button>
+                        )}
+                        {selectedSubmission.mergeHistory && selectedSubmission.mergeHistory.length > 0 && (
+                          <ul className="space-y-1 text-trust-600">
+                            {selectedSubmission.mergeHistory.map((event, index) => (
+                              <li key={`${event.at}-${index}`}>
+                                {format(new Date(event.at), 'MMM dd, yyyy h:mm a')}:{' '}
+                                {event.action === 'merged'
+                                  ? `merged ${event.submissionIds.length} screenings`
+                                  : 'marked as not a duplicate'}{' '}
+                                by {event.by}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  <FollowUpPanel
+                    submission={selectedSubmission}
+                    onUpdated={(updated) => {
+                      setSelectedSubmission((prev) => (prev?.id === updated.id ? updated : prev));
+                      fetchSubmissions();
+                    }}
+                  />
+
+                  {selectedSubmission.phone && (
+                    <SmsConsentPanel submission={selectedSubmission} />
+                  )}
+
+                  {selectedSubmission.phone && (
+                    <SmsHistoryPanel submission={selectedSubmission} />
+                  )}
+
                   {/* Health Metrics */}
                   <div className="bg-health-50 rounded-lg p-4">
                     <h4 className="text-lg font-medium text-trust-900 mb-3">Health Metrics</h4>
+                    {selectedSubmission.analysisStatus && selectedSubmission.analysisStatus !== 'complete' && (
+                      <div className="flex justify-between items-center mb-3">
+                        <p className="text-sm text-trust-600">
+                          {selectedSubmission.analysisStatus === 'pending'
+                            ? 'Selfie analysis in progress'
+                            : selectedSubmission.analysisStatus === 'failed'
+                              ? 'Selfie analysis failed'
+                              : 'Selfie analysis unavailable'}
+                          {selectedSubmission.analysisError ? `: ${selectedSubmission.analysisError}` : ''}
+                        </p>
+                        <button
+                          onClick={() => rerunAnalysis(selectedSubmission.id)}
+                          disabled={isRerunningAnalysis}
+                          className="btn-secondary text-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <ArrowPathIcon className={`w-4 h-4 mr-2 ${isRerunningAnalysis ? 'animate-spin' : ''}`} />
+                          {isRerunningAnalysis ? 'Analyzing...' : 'Re-run Analysis'}
+                        </button>
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                       <div className="text-center">
                         <label className="text-sm font-medium text-trust-700 block mb-1">Estimated BMI</label>
@@ -916,6 +1107,30 @@ export default function SubmissionsPage() {
                     </div>
                   </div>
 
+                  {/* Location Questions */}
+                  {selectedSubmission.customFieldAnswers && selectedSubmission.customFieldAnswers.length > 0 && (
+                    <div>
+                      <h4 className="text-lg font-medium text-trust-900 mb-3">
+                        Location Questions
+                        {selectedSubmission.formVersion && (
+                          <span className="ml-2 text-sm font-normal text-trust-500">
+                            form version {selectedSubmission.formVersion}
+                          </span>
+                        )}
+                      </h4>
+                      <div className="bg-trust-50 rounded-lg p-4 space-y-3">
+                        {selectedSubmission.customFieldAnswers.map((answer) => (
+                          <div key={answer.fieldId} className="flex justify-between items-start gap-4">
+                            <span className="text-trust-700">{answer.label}:</span>
+                            <span className="text-trust-900 font-medium text-right">
+                              {formatCustomFieldValue(answer.value)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* AI Recommendations */}
                   {selectedSubmission.recommendations && selectedSubmission.recommendations.length > 0 && (
                     <div>
@@ -966,6 +1181,18 @@ export default function SubmissionsPage() {
                               'Unknown'}
                           </span>
                         </div>
+                        {selectedSubmission.kiosk && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-trust-600 font-medium">Kiosk Volunteer:</span>
+                              <span className="text-trust-900">{selectedSubmission.kiosk.volunteerName}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-trust-600 font-medium">Kiosk Tablet:</span>
+                              <span className="text-trust-900">{selectedSubmission.kiosk.deviceLabel}</span>
+                            </div>
+                          </>
+                        )}
                       </div>
                       <div className="space-y-3">
                         <div className="flex justify-between">
@@ -1065,27 +1292,7 @@ export default function SubmissionsPage() {
               </div>
 
               <HealthAnalysisPortfolio 
-                submission={{
-                  id: selectedSubmission.id,
-                  name: `${selectedSubmission.firstName} ${selectedSubmission.lastName}`,
-                  age: selectedSubmission.estimatedAge || 0,
-                  gender: selectedSubmission.estimatedGender || 'Unknown',
-                  healthRiskScore: selectedSubmission.healthRiskScore || 0,
-                  estimatedBMI: selectedSubmission.estimatedBMI || 0,
-                  bmiCategory: selectedSubmission.bmiCategory || 'Unknown',
-                  familyHistory: {
-                    diabetes: selectedSubmission.familyHistoryDiabetes || false,
-                    hypertension: selectedSubmission.familyHistoryHighBP || false,
-                    dementia: selectedSubmission.familyHistoryDementia || false,
-                    heartDisease: selectedSubmission.cardiovascularHistory || false
-                  },
-                  symptoms: {
-                    nervePain: selectedSubmission.nerveSymptoms || false,
-                    memoryIssues: false, // Not currently captured in form
-                    balanceProblems: false, // Not currently captured in form
-                    visionChanges: false // Not currently captured in form
-                  }
-                }}
+                submission={selectedSubmission}
                 onRecommendationUpdate={handleRecommendationUpdate}
               />
 
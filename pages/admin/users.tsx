@@ -0,0 +1,623 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { useForm } from 'react-hook-form';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  KeyIcon,
+  UserGroupIcon,
+  NoSymbolIcon,
+  CheckCircleIcon,
+  ClipboardDocumentIcon,
+  XMarkIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchWithAuth } from '@/lib/api-client';
+import { ADMIN_ROLES, ROLE_DEFAULT_PERMISSIONS } from '@/lib/permissions';
+import { AdminPermission, AdminPermissions, AdminRole, OutreachLocation, PublicAdminUser } from '@/types';
+
+interface UserForm {
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: AdminRole;
+  churchId: string;
+  password: string;
+  permissions: AdminPermissions;
+}
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  admin: 'Administrator',
+  coordinator: 'Church Coordinator',
+  viewer: 'Viewer (read-only)',
+};
+
+const PERMISSION_LABELS: Record<AdminPermission, string> = {
+  canViewSubmissions: 'View submissions',
+  canExportData: 'Export data',
+  canManageChurches: 'Manage locations',
+  canManageUsers: 'Manage users',
+  canViewAnalytics: 'View dashboard analytics',
+};
+
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as AdminPermission[];
+
+export default function UsersPage() {
+  const router = useRouter();
+  const [users, setUsers] = useState<PublicAdminUser[]>([]);
+  const [locations, setLocations] = useState<OutreachLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingUser, setEditingUser] = useState<PublicAdminUser | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<{ email: string; password: string } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<UserForm>({
+    defaultValues: {
+      role: 'coordinator',
+      permissions: ROLE_DEFAULT_PERMISSIONS.coordinator,
+    },
+  });
+
+  const selectedRole = watch('role');
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const [usersResponse, locationsResponse] = await Promise.all([
+        fetchWithAuth('/api/admin/users'),
+        fetchWithAuth('/api/admin/locations'),
+      ]);
+
+      const usersResult = await usersResponse.json();
+      const locationsResult = await locationsResponse.json();
+
+      if (usersResult.success) {
+        setUsers(usersResult.data);
+      } else {
+        toast.error(usersResult.message || 'Failed to load users');
+      }
+      if (locationsResult.success) {
+        setLocations(locationsResult.data);
+      }
+    } catch (error) {
+      console.error('Fetch users error:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [router, fetchUsers]);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingUser(null);
+    reset({ role: 'coordinator', permissions: ROLE_DEFAULT_PERMISSIONS.coordinator });
+  };
+
+  const onSubmit = async (data: UserForm) => {
+    try {
+      const body = editingUser
+        ? {
+          firstName: data.firstName,
+          lastName: data.lastName,
+          role: data.role,
+          churchId: data.role === 'admin' ? null : data.churchId || null,
+          permissions: data.permissions,
+        }
+        : {
+          email: data.email,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          role: data.role,
+          churchId: data.role === 'admin' ? undefined : data.churchId || undefined,
+          permissions: data.permissions,
+          password: data.password || undefined,
+        };
+
+      const response = await fetchWithAuth(
+        editingUser ? `/api/admin/users/${editingUser.id}` : '/api/admin/users',
+        {
+          method: editingUser ? 'PUT' : 'POST',
+          body: JSON.stringify(body),
+        }
+      );
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(editingUser ? 'User updated!' : 'User invited!');
+        if (!editingUser && result.data.temporaryPassword) {
+          setTemporaryPassword({ email: result.data.user.email, password: result.data.temporaryPassword });
+        }
+        closeForm();
+        fetchUsers();
+      } else {
+        toast.error(result.message || result.error || 'Operation failed');
+      }
+    } catch (error) {
+      console.error('Submit error:', error);
+      toast.error('Operation failed');
+    }
+  };
+
+  const handleEdit = (user: PublicAdminUser) => {
+    setEditingUser(user);
+    reset({
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      churchId: user.churchId || '',
+      password: '',
+      permissions: { ...ROLE_DEFAULT_PERMISSIONS[user.role], ...user.permissions },
+    });
+    setShowForm(true);
+  };
+
+  const handleToggleActive = async (user: PublicAdminUser) => {
+    const action = user.isActive ? 'deactivate' : 'reactivate';
+    if (!confirm(`Are you sure you want to ${action} ${user.email}?`)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${user.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ isActive: !user.isActive }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(user.isActive ? 'User deactivated' : 'User reactivated');
+        fetchUsers();
+      } else {
+        toast.error(result.error || 'Update failed');
+      }
+    } catch (error) {
+      console.error('Toggle active error:', error);
+      toast.error('Update failed');
+    }
+  };
+
+  const handleResetPassword = async (user: PublicAdminUser) => {
+    if (!confirm(`Reset the password for ${user.email}? Their current password will stop working.`)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${user.id}/reset-password`, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setTemporaryPassword({ email: user.email, password: result.data.temporaryPassword });
+      } else {
+        toast.error(result.error || 'Password reset failed');
+      }
+    } catch (error) {
+      console.error('Reset password error:', error);
+      toast.error('Password reset failed');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: PublicAdminUser) => {
+    if (!confirm(`Reset two-factor authentication for ${user.email}? They will be signed out and must set it up again.`)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${user.id}/two-factor`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Two-factor authentication reset');
+        fetchUsers();
+      } else {
+        toast.error(result.error || 'Reset failed');
+      }
+    } catch (error) {
+      console.error('Reset two-factor error:', error);
+      toast.error('Reset failed');
+    }
+  };
+
+  const handleDelete = async (user: PublicAdminUser) => {
+    if (!confirm(`Are you sure you want to permanently delete ${user.email}?`)) return;
+
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${user.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('User deleted!');
+        fetchUsers();
+      } else {
+        toast.error(result.error || 'Delete failed');
+      }
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast.error('Delete failed');
+    }
+  };
+
+  const getLocationName = (churchId?: string) =>
+    locations.find((location) => location.id === churchId)?.name || churchId || 'Not assigned';
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-trust-600">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Users - Health Screening System</title>
+        <meta name="description" content="Manage admin portal users" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient">
+        {/* Navigation Header */}
+        <nav className="bg-white shadow-sm border-b border-trust-200">
+          <div className="desktop-container">
+            <div className="flex justify-between items-center py-4">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push('/admin/dashboard')}
+                  className="text-trust-600 hover:text-trust-900"
+                >
+                  ← Dashboard
+                </button>
+                <h1 className="text-xl font-semibold text-trust-900">
+                  Users
+                </h1>
+              </div>
+
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => {
+                    closeForm();
+                    setShowForm(true);
+                  }}
+                  className="btn-primary flex items-center"
+                >
+                  <PlusIcon className="w-4 h-4 mr-2" />
+                  Invite User
+                </button>
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div className="desktop-container py-8">
+          {/* Invite/Edit Form */}
+          {showForm && (
+            <div className="card mb-8">
+              <div className="card-header">
+                <h2 className="text-lg font-semibold text-trust-900">
+                  {editingUser ? `Edit ${editingUser.email}` : 'Invite New User'}
+                </h2>
+              </div>
+              <div className="card-body">
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="form-label">First Name *</label>
+                      <input
+                        {...register('firstName', { required: 'First name is required' })}
+                        className={`form-input ${errors.firstName ? 'form-input-error' : ''}`}
+                      />
+                      {errors.firstName && (
+                        <p className="form-error">{errors.firstName.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="form-label">Last Name *</label>
+                      <input
+                        {...register('lastName', { required: 'Last name is required' })}
+                        className={`form-input ${errors.lastName ? 'form-input-error' : ''}`}
+                      />
+                      {errors.lastName && (
+                        <p className="form-error">{errors.lastName.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="form-label">Email *</label>
+                      <input
+                        type="email"
+                        disabled={!!editingUser}
+                        {...register('email', {
+                          required: 'Email is required',
+                          pattern: {
+                            value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                            message: 'Please enter a valid email address'
+                          }
+                        })}
+                        className={`form-input ${errors.email ? 'form-input-error' : ''}`}
+                        placeholder="coordinator@church.org"
+                      />
+                      {errors.email && (
+                        <p className="form-error">{errors.email.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="form-label">Role *</label>
+                      <select
+                        {...register('role', {
+                          // Switching roles starts from that role's default permissions
+                          onChange: (e) => setValue('permissions', ROLE_DEFAULT_PERMISSIONS[e.target.value as AdminRole]),
+                        })}
+                        className="form-input"
+                      >
+                        {ADMIN_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {selectedRole !== 'admin' && (
+                      <div>
+                        <label className="form-label">
+                          Outreach Location *
+                        </label>
+                        <select
+                          {...register('churchId', {
+                            validate: (value) =>
+                              watch('role') === 'admin' || !!value || 'Coordinators and viewers need a location',
+                          })}
+                          className={`form-input ${errors.churchId ? 'form-input-error' : ''}`}
+                        >
+                          <option value="">Select a location</option>
+                          {locations.map((location) => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
+                        </select>
+                        {errors.churchId && (
+                          <p className="form-error">{errors.churchId.message}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {!editingUser && (
+                      <div>
+                        <label className="form-label">Initial Password</label>
+                        <input
+                          type="password"
+                          autoComplete="new-password"
+                          {...register('password', {
+                            minLength: { value: 8, message: 'Password must be at least 8 characters' }
+                          })}
+                          className={`form-input ${errors.password ? 'form-input-error' : ''}`}
+                          placeholder="Leave blank to generate one"
+                        />
+                        {errors.password && (
+                          <p className="form-error">{errors.password.message}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {selectedRole !== 'admin' && (
+                    <fieldset className="border border-trust-200 rounded-lg p-4">
+                      <legend className="px-1 text-sm font-medium text-trust-900">Permissions</legend>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {PERMISSIONS.map((permission) => (
+                          <label key={permission} className="flex items-center text-sm text-trust-700">
+                            <input
+                              type="checkbox"
+                              {...register(`permissions.${permission}` as const)}
+                              className="mr-2"
+                            />
+                            {PERMISSION_LABELS[permission]}
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                  )}
+
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      type="button"
+                      onClick={closeForm}
+                      className="btn-secondary"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      className="btn-primary"
+                    >
+                      {editingUser ? 'Update User' : 'Invite User'}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          )}
+
+          {/* Users List */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-trust-900">
+                All Users ({users.length})
+              </h2>
+            </div>
+            <div className="card-body">
+              {users.length === 0 ? (
+                <div className="text-center py-12">
+                  <UserGroupIcon className="w-16 h-16 text-trust-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-trust-900 mb-2">No users yet</h3>
+                  <p className="text-trust-600 mb-4">
+                    Invite church coordinators so they can follow up with their own participants.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-trust-200">
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">User</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Role</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Location</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Status</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Last Login</th>
+                        <th className="text-left py-3 px-4 font-medium text-trust-900">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {users.map((user) => (
+                        <tr key={user.id} className="border-b border-trust-100 hover:bg-trust-50">
+                          <td className="py-3 px-4">
+                            <div className="font-medium text-trust-900">{user.firstName} {user.lastName}</div>
+                            <div className="text-sm text-trust-600">{user.email}</div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <span className="px-2 py-1 bg-primary-100 text-primary-800 text-xs rounded-full">
+                              {ROLE_LABELS[user.role] || user.role}
+                            </span>
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-700">
+                            {user.role === 'admin' ? 'All locations' : getLocationName(user.churchId)}
+                          </td>
+                          <td className="py-3 px-4">
+                            <span
+                              className={`px-2 py-1 text-xs rounded-full ${
+                                user.isActive ? 'bg-green-100 text-green-800' : 'bg-trust-100 text-trust-600'
+                              }`}
+                            >
+                              {user.isActive ? 'Active' : 'Inactive'}
+                            </span>
+                            {user.twoFactorEnabled && (
+                              <span className="ml-1 px-2 py-1 text-xs rounded-full bg-primary-100 text-primary-800">
+                                2FA
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-trust-600">
+                            {user.lastLogin ? format(new Date(user.lastLogin), 'MMM d, yyyy h:mm a') : 'Never'}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleEdit(user)}
+                                className="text-trust-600 hover:text-trust-900"
+                                title="Edit user"
+                              >
+                                <PencilIcon className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleResetPassword(user)}
+                                className="text-primary-600 hover:text-primary-900"
+                                title="Reset password"
+                              >
+                                <KeyIcon className="w-4 h-4" />
+                              </button>
+                              {user.twoFactorEnabled && (
+                                <button
+                                  onClick={() => handleResetTwoFactor(user)}
+                                  className="text-yellow-600 hover:text-yellow-900"
+                                  title="Reset two-factor authentication"
+                                >
+                                  <ShieldExclamationIcon className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleToggleActive(user)}
+                                className={user.isActive ? 'text-yellow-600 hover:text-yellow-900' : 'text-green-600 hover:text-green-900'}
+                                title={user.isActive ? 'Deactivate user' : 'Reactivate user'}
+                              >
+                                {user.isActive ? <NoSymbolIcon className="w-4 h-4" /> : <CheckCircleIcon className="w-4 h-4" />}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(user)}
+                                className="text-red-600 hover:text-red-900"
+                                title="Delete user"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Temporary Password Modal */}
+        {temporaryPassword && (
+          <div
+            className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50"
+            onClick={() => setTemporaryPassword(null)}
+          >
+            <div
+              className="bg-white rounded-lg max-w-md w-full"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="border-b border-trust-200 p-6 flex justify-between items-center">
+                <h3 className="text-xl font-semibold text-trust-900">Temporary Password</h3>
+                <button
+                  onClick={() => setTemporaryPassword(null)}
+                  className="p-2 text-trust-400 hover:text-trust-900 hover:bg-trust-100 rounded-lg transition-colors"
+                  title="Close"
+                >
+                  <XMarkIcon className="w-6 h-6" />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-trust-600">
+                  Share this password with {temporaryPassword.email} through a secure channel.
+                  It will not be shown again.
+                </p>
+                <div className="flex items-center space-x-2">
+                  <code className="flex-1 bg-trust-100 px-3 py-2 rounded text-trust-900 font-mono">
+                    {temporaryPassword.password}
+                  </code>
+                  <button
+                    onClick={() => {
+                      navigator.clipboard.writeText(temporaryPassword.password);
+                      toast.success('Password copied to clipboard!');
+                    }}
+                    className="text-trust-400 hover:text-trust-600"
+                    title="Copy password"
+                  >
+                    <ClipboardDocumentIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin, requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AnalysisRunSummary, runDueAnalysisJobs } from '@/lib/analysis-queue';
+import { getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { AnalysisQueueItem, ApiResponse } from '@/types';
+
+// Jobs processed per "run now" request, one provider call at a time
+const RUN_BATCH_SIZE = 25;
+
+/**
+ * Selfie analysis queue:
+ * GET lists submissions whose analysis is pending or failed, failed first,
+ * POST (admins only) runs the jobs that are due now.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<AnalysisQueueItem[] | AnalysisRunSummary>>
+) {
+  if (req.method === 'GET') {
+    return handleList(req, res);
+  }
+  if (req.method === 'POST') {
+    return handleRun(req, res);
+  }
+  return res.status(405).json({ success: false, error: 'Method not allowed' });
+}
+
+async function handleList(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<AnalysisQueueItem[]>>
+) {
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  try {
+    const churchId = getChurchScope(user);
+    const { analysisJobs, submissions } = getStorage();
+
+    const jobs = (await analysisJobs.list())
+      .filter((job) => !churchId || job.churchId === churchId)
+      .sort((a, b) => (a.status === b.status ? b.createdAt.localeCompare(a.createdAt) : a.status === 'failed' ? -1 : 1));
+
+    const items: AnalysisQueueItem[] = [];
+    for (const job of jobs) {
+      const submission = await submissions.get(job.id);
+      if (submission) {
+        items.push({ job, submission });
+      }
+    }
+
+    await recordAudit(req, user, {
+      action: 'submission.list',
+      resourceType: 'submission',
+      churchId,
+      details: {
+        analysisQueue: true,
+        resultCount: items.length,
+        submissionIds: items.map((item) => item.submission.id),
+      },
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      message: `Retrieved ${items.length} queued analyses`,
+    });
+  } catch (error) {
+    console.error('Analysis queue list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to load the analysis queue',
+    });
+  }
+}
+
+async function handleRun(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<AnalysisRunSummary>>
+) {
+  const user = await requireAdmin(req, res);
+  if (!user) return; // Response already sent by requireAdmin
+
+  try {
+    const summary = await runDueAnalysisJobs(RUN_BATCH_SIZE);
+    console.log(`Analysis queue run by ${user.email}:`, summary);
+
+    return res.status(200).json({
+      success: true,
+      data: summary,
+      message: `Analyzed ${summary.complete + summary.unknown} submissions; ${summary.retrying} will be retried and ${summary.failed} failed`,
+    });
+  } catch (error) {
+    console.error('Analysis queue run error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to run the analysis queue',
+    });
+  }
+}
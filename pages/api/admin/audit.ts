@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { decodeCursor, encodeCursor } from '@/lib/submissions-service';
+import { validateData, auditLogListSchema } from '@/lib/validation';
+import { ApiResponse, AuditEvent, PaginatedResult } from '@/types';
+
+function getQueryString(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ? raw.trim() || undefined : undefined;
+}
+
+/**
+ * Browse the audit log, newest first. Administrators only.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PaginatedResult<AuditEvent>>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const user = await requireAdmin(req, res);
+  if (!user) return; // Response already sent by requireAdmin
+
+  const validation = validateData(auditLogListSchema, {
+    filters: {
+      startDate: getQueryString(req.query.startDate),
+      endDate: getQueryString(req.query.endDate),
+      actorEmail: getQueryString(req.query.actorEmail),
+      action: getQueryString(req.query.action),
+      resourceType: getQueryString(req.query.resourceType),
+      resourceId: getQueryString(req.query.resourceId),
+      churchId: getQueryString(req.query.churchId),
+    },
+    pageSize: getQueryString(req.query.pageSize),
+    nextToken: getQueryString(req.query.nextToken),
+  });
+
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid audit log filters: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { filters, pageSize, nextToken } = validation.data;
+
+  try {
+    const page = await getStorage().audit.list({
+      ...filters,
+      pageSize,
+      exclusiveStartKey: decodeCursor(nextToken),
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        items: page.items,
+        nextToken: encodeCursor(page.lastEvaluatedKey),
+      },
+      message: `Retrieved ${page.items.length} audit entries`,
+    });
+  } catch (error) {
+    console.error('Audit log API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to load the audit log',
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { streamAuditExport } from '@/lib/audit-export';
+import { EXPORT_FORMATS } from '@/lib/export-columns';
+import { validateData, auditLogExportSchema } from '@/lib/validation';
+
+export const config = {
+  api: {
+    // Exports are streamed and can legitimately exceed the default 4MB warning threshold
+    responseLimit: false,
+  },
+};
+
+/**
+ * Download the audit log entries matching the filters. Administrators only.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const user = await requireAdmin(req, res);
+  if (!user) return; // Response already sent by requireAdmin
+
+  const validation = validateData(auditLogExportSchema, req.body || {});
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid export options: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { format, filters } = validation.data;
+
+  try {
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const fileName = `audit-log-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200);
+
+    const rowCount = await streamAuditExport(res, { format, filters });
+
+    res.end();
+
+    // Recorded after the export so the download does not include its own entry
+    await recordAudit(req, user, {
+      action: 'audit.export',
+      resourceType: 'audit',
+      details: { format, filters, rowCount },
+    });
+
+    console.log(`Exported ${rowCount} audit entries as ${format} for ${user.email}`);
+  } catch (error) {
+    console.error('Audit export API error:', error);
+
+    if (res.headersSent) {
+      // The download has already started; abort it so the client sees a failed transfer
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to export the audit log',
+    });
+  }
+}
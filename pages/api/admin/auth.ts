@@ -1,32 +1,29 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import bcrypt from 'bcryptjs';
-import { docClient, TABLES } from '@/lib/aws-config';
-import { ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { setAuthTokens, clearAuthCookies, generateTokenPair } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { clearAuthCookies, completeSignIn, SignInResult, verifyPassword } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { hasValidScope, isAdminRole } from '@/lib/permissions';
 import { checkRateLimit, createRateLimitHeaders } from '@/lib/rate-limiter';
+import {
+  createTwoFactorChallenge,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  TwoFactorChallengePurpose,
+} from '@/lib/two-factor';
 import { validateData, loginSchema, LoginInput } from '@/lib/validation';
-
-interface AdminUser {
-  id: string;
-  email: string;
-  passwordHash: string;
-  role: string;
-  name: string;
-  lastLogin?: string;
+import { AdminUser } from '@/types';
+
+/**
+ * Returned instead of tokens when the password was correct but a second step is needed
+ */
+interface TwoFactorChallengeResponse {
+  twoFactor: TwoFactorChallengePurpose;
+  challengeToken: string;
 }
 
-
 interface AuthResponse {
   success: boolean;
-  data?: {
-    accessToken: string;
-    refreshToken: string;
-    user: {
-      id: string;
-      email: string;
-      role: string;
-    };
-  };
+  data?: SignInResult | TwoFactorChallengeResponse;
   error?: string;
   message?: string;
   validationErrors?: string[];
@@ -46,10 +43,10 @@ export default async function handler(
 
   // Rate limiting
   const clientIP = req.headers['x-forwarded-for'] as string || req.socket?.remoteAddress || 'unknown';
-  const rateLimitResult = checkRateLimit(clientIP, 'LOGIN');
+  const rateLimitResult = await checkRateLimit(clientIP, 'LOGIN');
 
   // Add rate limit headers
-  const rateLimitHeaders = createRateLimitHeaders(rateLimitResult.remainingAttempts, rateLimitResult.resetTime, 'LOGIN');
+  const rateLimitHeaders = createRateLimitHeaders(rateLimitResult);
   Object.entries(rateLimitHeaders).forEach(([key, value]) => {
     res.setHeader(key, value);
   });
@@ -84,19 +81,29 @@ export default async function handler(
 
     // Demo admin credentials (original demo credentials for production)
     // Pre-computed hash for 'demo123' to avoid hashing on every request
-    const demoAdmin = {
+    const demoAdmin: AdminUser = {
       id: 'demo-admin-001',
       email: 'admin@demo.org',
       passwordHash: '$2a$12$VRpRUR4Fxj3B.ZKaeiMu8u8esw63i41xG1oqvViztI9Rg44Y8zDt6', // demo123
       role: 'admin',
-      name: 'Demo Administrator',
+      firstName: 'Demo',
+      lastName: 'Administrator',
+      createdDate: '2024-01-01T00:00:00.000Z',
+      isActive: true,
+      permissions: {
+        canViewSubmissions: true,
+        canExportData: true,
+        canManageChurches: true,
+        canManageUsers: true,
+        canViewAnalytics: true,
+      },
     };
 
     let adminUser: AdminUser | null = null;
 
     // Check demo credentials first
     if (email === demoAdmin.email) {
-      const isValidPassword = await bcrypt.compare(password, demoAdmin.passwordHash);
+      const isValidPassword = await verifyPassword(password, demoAdmin.passwordHash);
       if (isValidPassword) {
         adminUser = demoAdmin;
       }
@@ -105,21 +112,11 @@ export default async function handler(
     // If demo login fails, try database lookup
     if (!adminUser) {
       try {
-        const scanResult = await docClient.send(new ScanCommand({
-          TableName: TABLES.USERS,
-          FilterExpression: 'email = :email AND #role = :role',
-          ExpressionAttributeNames: {
-            '#role': 'role',
-          },
-          ExpressionAttributeValues: {
-            ':email': email.toLowerCase(),
-            ':role': 'admin',
-          },
-        }));
-
-        if (scanResult.Items && scanResult.Items.length > 0) {
-          const user = scanResult.Items[0] as AdminUser;
-          const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+        const user = await getStorage().users.findByEmail(email);
+
+        // Admins, coordinators and viewers can all sign in; routes check permissions
+        if (user && isAdminRole(user.role) && user.isActive !== false) {
+          const isValidPassword = await verifyPassword(password, user.passwordHash);
           if (isValidPassword) {
             adminUser = user;
           }
@@ -131,6 +128,12 @@ export default async function handler(
     }
 
     if (!adminUser) {
+      await recordAudit(req, { userId: 'anonymous', email }, {
+        action: 'auth.login_failed',
+        resourceType: 'session',
+        details: { reason: 'invalid_credentials' },
+      });
+
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials',
@@ -138,30 +141,51 @@ export default async function handler(
       });
     }
 
-    // Generate access and refresh tokens
-    const tokens = generateTokenPair({
-      userId: adminUser.id,
-      email: adminUser.email,
-      role: adminUser.role,
-    });
+    if (!hasValidScope(adminUser)) {
+      console.warn(`Login rejected for ${email}: ${adminUser.role} account has no outreach location`);
+
+      return res.status(403).json({
+        success: false,
+        error: 'Account not assigned',
+        message: 'Your account is not assigned to an outreach location yet.',
+      });
+    }
+
+    // Accounts with two-factor enabled, or every account when it is required,
+    // continue with a code step instead of getting a session now
+    if (isTwoFactorEnabled(adminUser) || isTwoFactorRequired()) {
+      if (adminUser.id === demoAdmin.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'Two-factor authentication required',
+          message: 'The demo account cannot sign in while two-factor authentication is required.',
+        });
+      }
 
-    // Set HttpOnly cookies
-    setAuthTokens(res, tokens.accessToken, tokens.refreshToken);
+      const purpose: TwoFactorChallengePurpose = isTwoFactorEnabled(adminUser) ? 'verify' : 'enroll';
+
+      console.log(`Password accepted for ${email}; two-factor ${purpose} step pending - IP: ${clientIP}`);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          twoFactor: purpose,
+          challengeToken: createTwoFactorChallenge(adminUser.id, purpose),
+        },
+        message: purpose === 'verify'
+          ? 'Enter the code from your authenticator app'
+          : 'Set up two-factor authentication to continue',
+      });
+    }
+
+    const signIn = await completeSignIn(req, res, adminUser);
 
     // Log successful login (in production, save to database)
-    console.log(`✅ Admin login successful - User: ${email}, IP: ${clientIP}, UserAgent: ${req.headers['user-agent']}, Timestamp: ${new Date().toISOString()}`);
+    console.log(`✅ Admin login successful - User: ${email}, Role: ${adminUser.role}, IP: ${clientIP}, UserAgent: ${req.headers['user-agent']}, Timestamp: ${new Date().toISOString()}`);
 
     res.status(200).json({
       success: true,
-      data: {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        user: {
-          id: adminUser.id,
-          email: adminUser.email,
-          role: adminUser.role,
-        },
-      },
+      data: signIn,
       message: 'Login successful',
     });
 
@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth';
+import { ApiResponse } from '@/types';
+import { submissionsService } from '@/lib/submissions-service';
+import { rebuildRollups } from '@/lib/dashboard-rollups';
+
+/**
+ * Recompute dashboard rollups from every stored submission.
+ * Run once after enabling rollups on an existing table, or to repair drift.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<{ submissionsProcessed: number }>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const user = await requireAdmin(req, res);
+  if (!user) return; // Response already sent by requireAdmin
+
+  try {
+    const submissions = await submissionsService.fetchAllSubmissions({});
+    const submissionsProcessed = await rebuildRollups(submissions);
+
+    console.log(`Dashboard rollups rebuilt by ${user.email} from ${submissionsProcessed} submissions`);
+
+    return res.status(200).json({
+      success: true,
+      data: { submissionsProcessed },
+      message: `Rebuilt dashboard rollups from ${submissionsProcessed} submissions`,
+    });
+  } catch (error) {
+    console.error('Rebuild rollups error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to rebuild dashboard rollups',
+    });
+  }
+}
@@ -0,0 +1,175 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission, JwtPayload } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  dismissDuplicate,
+  fetchDuplicateReviewPage,
+  mergeSubmissions,
+} from '@/lib/duplicates';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { decodeCursor, encodeCursor } from '@/lib/submissions-service';
+import { validateData, duplicateResolutionSchema } from '@/lib/validation';
+import { ApiResponse, DuplicateReviewItem, HealthSubmission, PaginatedResult } from '@/types';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+function getQueryString(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ? raw.trim() || undefined : undefined;
+}
+
+/**
+ * Duplicate review queue:
+ * GET lists submissions flagged as possible duplicates with their candidates,
+ * POST merges screenings into one participant or dismisses a flag.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PaginatedResult<DuplicateReviewItem> | HealthSubmission[]>>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: req.method === 'POST' });
+  if (!user) return; // Response already sent by requirePermission
+
+  try {
+    if (req.method === 'GET') {
+      return await handleGet(user, req, res);
+    }
+    return await handleResolve(user, req, res);
+  } catch (error) {
+    console.error('Duplicate review API error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to process the duplicate review',
+    });
+  }
+}
+
+async function handleGet(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PaginatedResult<DuplicateReviewItem>>>
+) {
+  const churchId = getChurchScope(user);
+  const pageSize = Number(getQueryString(req.query.pageSize)) || DEFAULT_PAGE_SIZE;
+
+  const page = await fetchDuplicateReviewPage({
+    churchId,
+    pageSize: Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE),
+    exclusiveStartKey: decodeCursor(getQueryString(req.query.nextToken)),
+  });
+
+  await recordAudit(req, user, {
+    action: 'submission.list',
+    resourceType: 'submission',
+    churchId,
+    details: {
+      duplicateReview: true,
+      resultCount: page.items.length,
+      submissionIds: page.items.flatMap((item) => [
+        item.submission.id,
+        ...item.candidates.map((candidate) => candidate.submission.id),
+      ]),
+    },
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      items: page.items,
+      nextToken: encodeCursor(page.lastEvaluatedKey),
+    },
+    message: `Retrieved ${page.items.length} possible duplicates`,
+  });
+}
+
+async function handleResolve(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<HealthSubmission[]>>
+) {
+  const validation = validateData(duplicateResolutionSchema, req.body);
+
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const input = validation.data;
+  const { submissions } = getStorage();
+
+  if (input.action === 'dismiss') {
+    const submission = await submissions.get(input.submissionId);
+    // Submissions outside the caller's location are reported as missing
+    if (!submission || !canAccessChurch(user, submission.churchId)) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+    if (submission.duplicateStatus !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        error: 'Not awaiting review',
+        message: 'This submission is not flagged as a possible duplicate',
+      });
+    }
+
+    const updated = await dismissDuplicate(submission, user);
+    if (!updated) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+
+    await recordAudit(req, user, {
+      action: 'submission.dismiss_duplicate',
+      resourceType: 'submission',
+      resourceId: submission.id,
+      churchId: submission.churchId,
+      details: {
+        candidateIds: (submission.duplicateCandidates || []).map((candidate) => candidate.submissionId),
+      },
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: [updated],
+      message: 'Duplicate flag dismissed',
+    });
+  }
+
+  const submissionIds = Array.from(new Set(input.submissionIds));
+  const records = await Promise.all(submissionIds.map((id) => submissions.get(id)));
+  if (records.some((record) => !record || !canAccessChurch(user, record.churchId))) {
+    return res.status(404).json({ success: false, error: 'Submission not found' });
+  }
+
+  const found = records as HealthSubmission[];
+  const primary = found.find((record) => record.id === input.primaryId)!;
+  const { participantId, merged } = await mergeSubmissions(primary, found, user);
+
+  await recordAudit(req, user, {
+    action: 'submission.merge',
+    resourceType: 'submission',
+    resourceId: primary.id,
+    churchId: primary.churchId,
+    details: { participantId, submissionIds },
+  });
+
+  console.log(`Admin ${user.email} merged ${merged.length} submissions into participant ${participantId}`);
+
+  return res.status(200).json({
+    success: true,
+    data: merged,
+    message: `Merged ${merged.length} screenings`,
+  });
+}
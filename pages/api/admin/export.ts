@@ -1,28 +1,19 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { requireAdmin } from '@/lib/auth';
-import { createObjectCsvWriter } from 'csv-writer';
-import { tmpdir } from 'os';
-import { join } from 'path';
-import { readFileSync, unlinkSync } from 'fs';
-import { ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, TABLES } from '@/lib/aws-config';
-import { HealthSubmission } from '@/types';
-
-// Helper function to format boolean values for CSV
-function formatBoolean(value: boolean | undefined): string {
-  if (value === undefined || value === null) return '';
-  return value ? 'Yes' : 'No';
-}
-
-// Helper function to safely get nested object values
-function getNestedValue(obj: any, path: string): string {
-  const keys = path.split('.');
-  let value = obj;
-  for (const key of keys) {
-    value = value?.[key];
-  }
-  return value?.toString() || '';
-}
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { validateData, exportOptionsSchema } from '@/lib/validation';
+import { EXPORT_FORMATS, expandCustomFieldColumns, resolveExportColumns } from '@/lib/export-columns';
+import { streamSubmissionsExport } from '@/lib/submissions-export';
+import { ExportFilterOptions } from '@/types';
+
+export const config = {
+  api: {
+    // Exports are streamed and can legitimately exceed the default 4MB warning threshold
+    responseLimit: false,
+  },
+};
 
 export default async function handler(
   req: NextApiRequest,
@@ -36,161 +27,106 @@ export default async function handler(
   }
 
   // Verify admin authentication
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+  const user = await requirePermission(req, res, 'canExportData');
+  if (!user) return; // Response already sent by requirePermission
 
-  try {
-    // Query all submissions from DynamoDB
-    console.log('Exporting submissions from DynamoDB...');
-    
-    const submissionsResult = await docClient.send(new ScanCommand({
-      TableName: TABLES.SUBMISSIONS,
-    }));
-
-    const submissions = (submissionsResult.Items || []) as HealthSubmission[];
-
-    // Query locations to get names for churchId mapping
-    const locationsResult = await docClient.send(new ScanCommand({
-      TableName: TABLES.CHURCHES,
-    }));
-
-    const locationMap = new Map();
-    if (locationsResult.Items) {
-      locationsResult.Items.forEach((location: any) => {
-        locationMap.set(location.id, location.name);
+  const validation = validateData(exportOptionsSchema, req.body || {});
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid export options: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { format, filters, columns: columnIds } = validation.data;
+
+  // Coordinators can only export their own location
+  const churchScope = getChurchScope(user);
+  if (churchScope) {
+    if ((filters.churchIds || []).some((churchId) => !canAccessChurch(user, churchId))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        message: 'You do not have access to this outreach location',
       });
     }
+    filters.churchIds = [churchScope];
+  }
+
+  const columns = resolveExportColumns(columnIds, user.role);
+  const auditDetails = {
+    format,
+    filters,
+    columns: columns.map((column) => column.id),
+  };
 
-    // Transform submissions data for CSV export
-    const exportData = submissions.map(submission => ({
-      id: submission.id,
-      firstName: submission.firstName,
-      lastName: submission.lastName,
-      dateOfBirth: submission.dateOfBirth,
-      phone: submission.phone || '',
-      email: submission.email || '',
-      churchId: submission.churchId,
-      churchName: locationMap.get(submission.churchId) || submission.churchId,
-      submissionDate: submission.submissionDate,
-      
-      // Health screening responses
-      familyHistoryDiabetes: formatBoolean(submission.familyHistoryDiabetes),
-      familyHistoryHighBP: formatBoolean(submission.familyHistoryHighBP),
-      familyHistoryDementia: formatBoolean(submission.familyHistoryDementia),
-      nerveSymptoms: formatBoolean(submission.nerveSymptoms),
-      sex: submission.sex || '',
-      cardiovascularHistory: formatBoolean(submission.cardiovascularHistory),
-      chronicKidneyDisease: formatBoolean(submission.chronicKidneyDisease),
-      diabetes: formatBoolean(submission.diabetes),
-      insuranceType: submission.insuranceType || '',
-      
-      // Calculated fields
-      estimatedBMI: submission.estimatedBMI?.toString() || '',
-      bmiCategory: submission.bmiCategory || '',
-      estimatedAge: submission.estimatedAge?.toString() || '',
-      estimatedGender: submission.estimatedGender || '',
-      healthRiskLevel: submission.healthRiskLevel || '',
-      healthRiskScore: submission.healthRiskScore?.toString() || '',
-      
-      // Follow-up
-      followUpStatus: submission.followUpStatus || '',
-      tcpaConsent: formatBoolean(submission.tcpaConsent),
-      
-      // Device Information
-      ipAddress: getNestedValue(submission, 'networkInfo.ipAddress'),
-      deviceType: getNestedValue(submission, 'deviceInfo.device.type'),
-      browser: getNestedValue(submission, 'deviceInfo.browser.name') + ' ' + getNestedValue(submission, 'deviceInfo.browser.version'),
-      operatingSystem: getNestedValue(submission, 'deviceInfo.os.name') + ' ' + getNestedValue(submission, 'deviceInfo.os.version'),
-      submissionFingerprint: submission.submissionFingerprint || '',
-      timezone: getNestedValue(submission, 'deviceInfo.timezone'),
-      screenResolution: getNestedValue(submission, 'deviceInfo.screen.width') + 'x' + getNestedValue(submission, 'deviceInfo.screen.height'),
-      userAgent: getNestedValue(submission, 'deviceInfo.userAgent'),
-      sessionId: submission.sessionId || '',
-    }));
-
-    // Define CSV headers
-    const csvHeaders = [
-      { id: 'id', title: 'Submission ID' },
-      { id: 'firstName', title: 'First Name' },
-      { id: 'lastName', title: 'Last Name' },
-      { id: 'dateOfBirth', title: 'Date of Birth' },
-      { id: 'phone', title: 'Phone Number' },
-      { id: 'email', title: 'Email Address' },
-      { id: 'churchId', title: 'Church ID' },
-      { id: 'churchName', title: 'Church Name' },
-      { id: 'submissionDate', title: 'Submission Date' },
-      
-      // Health screening
-      { id: 'familyHistoryDiabetes', title: 'Family History - Diabetes' },
-      { id: 'familyHistoryHighBP', title: 'Family History - High BP' },
-      { id: 'familyHistoryDementia', title: 'Family History - Dementia' },
-      { id: 'nerveSymptoms', title: 'Nerve Symptoms' },
-      { id: 'sex', title: 'Sex' },
-      { id: 'cardiovascularHistory', title: 'Cardiovascular History' },
-      { id: 'chronicKidneyDisease', title: 'Chronic Kidney Disease' },
-      { id: 'diabetes', title: 'Diabetes' },
-      { id: 'insuranceType', title: 'Insurance Type' },
-      
-      // Calculated
-      { id: 'estimatedBMI', title: 'Estimated BMI' },
-      { id: 'bmiCategory', title: 'BMI Category' },
-      { id: 'estimatedAge', title: 'Estimated Age' },
-      { id: 'estimatedGender', title: 'Estimated Gender' },
-      { id: 'healthRiskLevel', title: 'Health Risk Level' },
-      { id: 'healthRiskScore', title: 'Health Risk Score' },
-      
-      // Follow-up
-      { id: 'followUpStatus', title: 'Follow-up Status' },
-      { id: 'tcpaConsent', title: 'TCPA Consent' },
-      
-      // Device and Network Information
-      { id: 'ipAddress', title: 'IP Address' },
-      { id: 'deviceType', title: 'Device Type' },
-      { id: 'browser', title: 'Browser' },
-      { id: 'operatingSystem', title: 'Operating System' },
-      { id: 'submissionFingerprint', title: 'Submission Fingerprint' },
-      { id: 'timezone', title: 'Timezone' },
-      { id: 'screenResolution', title: 'Screen Resolution' },
-      { id: 'userAgent', title: 'User Agent' },
-      { id: 'sessionId', title: 'Session ID' },
-    ];
-
-    // Create temporary file
-    const fileName = `health-screening-export-${Date.now()}.csv`;
-    const filePath = join(tmpdir(), fileName);
-
-    // Create CSV writer
-    const csvWriter = createObjectCsvWriter({
-      path: filePath,
-      header: csvHeaders,
+  if (columns.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'No valid columns selected',
     });
+  }
+
+  try {
+    const locations = (await getStorage().locations.list())
+      .filter((location) => canAccessChurch(user, location.id));
+    const locationNames = new Map<string, string>();
+    locations.forEach((location) => {
+      locationNames.set(location.id, location.name);
+    });
+    const exportedLocations = filters.churchIds?.length
+      ? locations.filter((location) => filters.churchIds?.includes(location.id))
+      : locations;
+    const exportColumns = expandCustomFieldColumns(columns, exportedLocations);
 
-    // Write data to CSV
-    await csvWriter.writeRecords(exportData);
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const fileName = `health-screening-export-${new Date().toISOString().split('T')[0]}.${extension}`;
 
-    // Read the file and send as response
-    const fileBuffer = readFileSync(filePath);
-    
-    // Set headers for download
-    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Length', fileBuffer.length);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200);
+
+    const rowCount = await streamSubmissionsExport(res, {
+      format,
+      filters: filters as ExportFilterOptions,
+      columns: exportColumns,
+      context: { locationNames },
+    });
 
-    // Clean up temporary file
-    unlinkSync(filePath);
+    res.end();
 
-    console.log(`Exported ${exportData.length} submissions to CSV`);
+    await recordAudit(req, user, {
+      action: 'data.export',
+      resourceType: 'export',
+      churchId: churchScope || undefined,
+      details: { ...auditDetails, rowCount },
+    });
 
-    // Send file
-    res.status(200).send(fileBuffer);
+    console.log(`Exported ${rowCount} submissions as ${format} (${columns.length} columns) for ${user.email}`);
 
   } catch (error) {
     console.error('Export API error:', error);
-    
+
+    if (res.headersSent) {
+      // Part of the data may already have been downloaded
+      await recordAudit(req, user, {
+        action: 'data.export',
+        resourceType: 'export',
+        churchId: churchScope || undefined,
+        details: { ...auditDetails, completed: false },
+      });
+
+      // The download has already started; abort it so the client sees a failed transfer
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+
     res.status(500).json({
       success: false,
       error: 'Internal server error',
       message: 'Failed to export data',
     });
   }
-} 
\ No newline at end of file
+}
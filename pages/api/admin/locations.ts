@@ -1,24 +1,28 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { v4 as uuidv4 } from 'uuid';
-import { requireAdmin } from '@/lib/auth';
+import { JwtPayload, requireAuth, requirePermission } from '@/lib/auth';
+import { LOCATION_AUDIT_FIELDS, pickFields, recordAudit } from '@/lib/audit';
+import { withoutKioskPin } from '@/lib/kiosk/tokens';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
 import { OutreachLocation, ApiResponse } from '@/types';
-import { docClient, TABLES } from '@/lib/aws-config';
-import { ScanCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { getStorage } from '@/lib/storage';
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<OutreachLocation | OutreachLocation[]>>
 ) {
-  // Verify admin authentication
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+  // Listing locations only needs a signed-in account; creating one needs canManageChurches
+  const user = await (req.method === 'GET'
+    ? requireAuth(req, res)
+    : requirePermission(req, res, 'canManageChurches', { write: true }));
+  if (!user) return; // Response already sent by requireAuth / requirePermission
 
   try {
     switch (req.method) {
       case 'GET':
-        return await handleGet(req, res);
+        return await handleGet(user, res);
       case 'POST':
-        return await handlePost(req, res);
+        return await handlePost(user, req, res);
       default:
         return res.status(405).json({
           success: false,
@@ -35,16 +39,14 @@ export default async function handler(
 }
 
 async function handleGet(
-  req: NextApiRequest,
+  user: JwtPayload,
   res: NextApiResponse<ApiResponse<OutreachLocation[]>>
 ) {
   try {
-    // Get all locations from DynamoDB
-    const result = await docClient.send(new ScanCommand({
-      TableName: TABLES.CHURCHES,
-    }));
-
-    const locations = (result.Items || []) as OutreachLocation[];
+    // Coordinators only see their own location
+    const locations = (await getStorage().locations.list())
+      .filter((location) => canAccessChurch(user, location.id))
+      .map(withoutKioskPin);
 
     return res.status(200).json({
       success: true,
@@ -58,9 +60,18 @@ async function handleGet(
 }
 
 async function handlePost(
+  user: JwtPayload,
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<OutreachLocation>>
 ) {
+  if (getChurchScope(user)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'Location-scoped accounts cannot create locations',
+    });
+  }
+
   try {
     const { name, address, contactPerson, contactEmail, contactPhone } = req.body;
 
@@ -89,12 +100,15 @@ async function handlePost(
       conversionRate: 0,
     };
 
-    // TODO: Save to DynamoDB when database is configured
-    // Save to DynamoDB
-    await docClient.send(new PutCommand({
-      TableName: TABLES.CHURCHES,
-      Item: newLocation,
-    }));
+    await getStorage().locations.create(newLocation);
+
+    await recordAudit(req, user, {
+      action: 'location.create',
+      resourceType: 'location',
+      resourceId: locationId,
+      churchId: locationId,
+      after: pickFields(newLocation, LOCATION_AUDIT_FIELDS),
+    });
 
     console.log('Location saved successfully:', newLocation);
 
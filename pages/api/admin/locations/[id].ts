@@ -1,19 +1,20 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { GetCommand, UpdateCommand, DeleteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, TABLES } from '@/lib/aws-config';
 import { ApiResponse, OutreachLocation } from '@/types';
-import { requireAdmin } from '@/lib/auth';
+import { JwtPayload, requireAuth, requirePermission } from '@/lib/auth';
+import { diffFields, LOCATION_AUDIT_FIELDS, pickFields, recordAudit } from '@/lib/audit';
+import { withoutKioskPin } from '@/lib/kiosk/tokens';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<OutreachLocation | null>>
 ) {
-  // Verify authentication
-  try {
-    requireAdmin(req, res);
-  } catch {
-    return res.status(401).json({ success: false, error: 'Unauthorized' });
-  }
+  // Reading a location only needs a signed-in account; changes need canManageChurches
+  const user = await (req.method === 'GET'
+    ? requireAuth(req, res)
+    : requirePermission(req, res, 'canManageChurches', { write: true }));
+  if (!user) return; // Response already sent by requireAuth / requirePermission
 
   const { id } = req.query;
   const locationId = Array.isArray(id) ? id[0] : id;
@@ -22,14 +23,28 @@ export default async function handler(
     return res.status(400).json({ success: false, error: 'Location id is required' });
   }
 
+  // Locations outside a coordinator's scope are reported as missing
+  if (!canAccessChurch(user, locationId)) {
+    return res.status(404).json({ success: false, error: 'Location not found' });
+  }
+
+  // Deleting or archiving affects every account, so it stays with unscoped managers
+  if (req.method === 'DELETE' && getChurchScope(user)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'Location-scoped accounts cannot delete locations',
+    });
+  }
+
   try {
     switch (req.method) {
       case 'GET':
         return await handleGet(locationId, res);
       case 'PUT':
-        return await handlePut(locationId, req, res);
+        return await handlePut(user, locationId, req, res);
       case 'DELETE':
-        return await handleDelete(locationId, req, res);
+        return await handleDelete(user, locationId, req, res);
       default:
         return res.status(405).json({ success: false, error: 'Method not allowed' });
     }
@@ -44,17 +59,12 @@ async function handleGet(
   res: NextApiResponse<ApiResponse<OutreachLocation | null>>
 ) {
   try {
-    const result = await docClient.send(new GetCommand({
-      TableName: TABLES.CHURCHES,
-      Key: { id: locationId },
-    }));
-
-    const item = (result.Item || null) as OutreachLocation | null;
+    const item = await getStorage().locations.get(locationId);
     if (!item) {
       return res.status(404).json({ success: false, error: 'Location not found' });
     }
 
-    return res.status(200).json({ success: true, data: item, message: 'Location retrieved' });
+    return res.status(200).json({ success: true, data: withoutKioskPin(item), message: 'Location retrieved' });
   } catch (error) {
     console.error('Get location error:', error);
     throw error;
@@ -62,6 +72,7 @@ async function handleGet(
 }
 
 async function handlePut(
+  user: JwtPayload,
   locationId: string,
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<OutreachLocation | null>>
@@ -74,47 +85,46 @@ async function handlePut(
   }
 
   try {
-    const updateResult = await docClient.send(new UpdateCommand({
-      TableName: TABLES.CHURCHES,
-      Key: { id: locationId },
-      UpdateExpression: 'SET #name = :name, #address = :address, contactPerson = :contactPerson, contactEmail = :contactEmail, contactPhone = :contactPhone',
-      ExpressionAttributeNames: {
-        '#name': 'name',
-        '#address': 'address',
-      },
-      ExpressionAttributeValues: {
-        ':name': name,
-        ':address': address,
-        ':contactPerson': contactPerson,
-        ':contactEmail': contactEmail,
-        ':contactPhone': contactPhone,
-      },
-      ConditionExpression: 'attribute_exists(id)',
-      ReturnValues: 'ALL_NEW',
-    }));
-
-    const updated = (updateResult.Attributes || null) as OutreachLocation | null;
+    const before = await getStorage().locations.get(locationId);
+    const updated = await getStorage().locations.update(locationId, {
+      name,
+      address,
+      contactPerson,
+      contactEmail,
+      contactPhone,
+    });
     if (!updated) {
       return res.status(404).json({ success: false, error: 'Location not found' });
     }
 
-    return res.status(200).json({ success: true, data: updated, message: 'Location updated successfully' });
-  } catch (error: any) {
-    if (error?.name === 'ConditionalCheckFailedException') {
-      return res.status(404).json({ success: false, error: 'Location not found' });
+    const changes = diffFields(before, updated, LOCATION_AUDIT_FIELDS);
+    if (changes) {
+      await recordAudit(req, user, {
+        action: 'location.update',
+        resourceType: 'location',
+        resourceId: locationId,
+        churchId: locationId,
+        ...changes,
+      });
     }
+
+    return res.status(200).json({ success: true, data: withoutKioskPin(updated), message: 'Location updated successfully' });
+  } catch (error) {
     console.error('Update location error:', error);
     return res.status(500).json({ success: false, error: 'Failed to update location' });
   }
 }
 
 async function handleDelete(
+  user: JwtPayload,
   locationId: string,
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<null>>
 ) {
   try {
-    // Check if submissions exist for this location (limit 1 for quick existence test)
+    const before = await getStorage().locations.get(locationId);
+
+    // Check if submissions exist for this location
     const submissionsExist = await hasSubmissions(locationId);
 
     // Determine requested action: default is hard delete when no submissions; require explicit archive when submissions exist
@@ -132,33 +142,42 @@ async function handleDelete(
       }
 
       // Archive (soft delete) the location: set isActive=false and archivedAt timestamp
-      await docClient.send(new UpdateCommand({
-        TableName: TABLES.CHURCHES,
-        Key: { id: locationId },
-        UpdateExpression: 'SET isActive = :inactive, archivedAt = :ts',
-        ExpressionAttributeValues: {
-          ':inactive': false,
-          ':ts': new Date().toISOString(),
-        },
-        ConditionExpression: 'attribute_exists(id)',
-        ReturnValues: 'NONE',
-      }));
+      const archived = await getStorage().locations.update(locationId, {
+        isActive: false,
+        archivedAt: new Date().toISOString(),
+      });
+      if (!archived) {
+        return res.status(404).json({ success: false, error: 'Location not found' });
+      }
+
+      await recordAudit(req, user, {
+        action: 'location.delete',
+        resourceType: 'location',
+        resourceId: locationId,
+        churchId: locationId,
+        ...diffFields(before, archived, LOCATION_AUDIT_FIELDS),
+        details: { archived: true },
+      });
 
       return res.status(200).json({ success: true, data: null, message: 'Location archived successfully' });
     }
 
     // No submissions, allow hard delete
-    await docClient.send(new DeleteCommand({
-      TableName: TABLES.CHURCHES,
-      Key: { id: locationId },
-      ConditionExpression: 'attribute_exists(id)',
-    }));
-
-    return res.status(200).json({ success: true, data: null, message: 'Location deleted successfully' });
-  } catch (error: any) {
-    if (error?.name === 'ConditionalCheckFailedException') {
+    const deleted = await getStorage().locations.delete(locationId);
+    if (!deleted) {
       return res.status(404).json({ success: false, error: 'Location not found' });
     }
+
+    await recordAudit(req, user, {
+      action: 'location.delete',
+      resourceType: 'location',
+      resourceId: locationId,
+      churchId: locationId,
+      before: before ? pickFields(before, LOCATION_AUDIT_FIELDS) : undefined,
+    });
+
+    return res.status(200).json({ success: true, data: null, message: 'Location deleted successfully' });
+  } catch (error) {
     console.error('Delete location error:', error);
     return res.status(500).json({ success: false, error: 'Failed to delete location' });
   }
@@ -166,14 +185,7 @@ async function handleDelete(
 
 async function hasSubmissions(locationId: string): Promise<boolean> {
   try {
-    const result = await docClient.send(new ScanCommand({
-      TableName: TABLES.SUBMISSIONS,
-      FilterExpression: 'churchId = :cid',
-      ExpressionAttributeValues: { ':cid': locationId },
-      ProjectionExpression: 'id',
-      Limit: 1,
-    }));
-    return !!(result.Items && result.Items.length > 0);
+    return await getStorage().submissions.existsForChurch(locationId);
   } catch (error) {
     console.error('Error checking submissions existence:', error);
     // Fail-safe: if check fails, assume submissions might exist to avoid accidental deletion
@@ -0,0 +1,135 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JwtPayload, requireAuth, requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { normalizeCustomField } from '@/lib/custom-fields';
+import { canAccessChurch } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { locationFormPublishSchema, validateData } from '@/lib/validation';
+import { ApiResponse, LocationFormHistory, OutreachLocation } from '@/types';
+
+/**
+ * A location's custom questions. GET returns the current questions and every
+ * published version; PUT publishes a new version. Published versions are
+ * never changed, so submissions can always be read against the questions
+ * they answered.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<LocationFormHistory>>
+) {
+  // Reading the form only needs a signed-in account; publishing needs canManageChurches
+  const user = await (req.method === 'GET'
+    ? requireAuth(req, res)
+    : requirePermission(req, res, 'canManageChurches', { write: true }));
+  if (!user) return; // Response already sent by requireAuth / requirePermission
+
+  const { id } = req.query;
+  const locationId = Array.isArray(id) ? id[0] : id;
+
+  if (!locationId) {
+    return res.status(400).json({ success: false, error: 'Location id is required' });
+  }
+
+  // Locations outside a coordinator's scope are reported as missing
+  if (!canAccessChurch(user, locationId)) {
+    return res.status(404).json({ success: false, error: 'Location not found' });
+  }
+
+  try {
+    const location = await getStorage().locations.get(locationId);
+    if (!location) {
+      return res.status(404).json({ success: false, error: 'Location not found' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ success: true, data: await loadHistory(location) });
+      case 'PUT':
+        return await handlePut(user, location, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Location form API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function loadHistory(location: OutreachLocation): Promise<LocationFormHistory> {
+  return {
+    formVersion: location.formVersion || 0,
+    fields: location.customFields || [],
+    versions: await getStorage().formVersions.listByLocation(location.id),
+  };
+}
+
+async function handlePut(
+  user: JwtPayload,
+  location: OutreachLocation,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<LocationFormHistory>>
+) {
+  const validation = validateData(locationFormPublishSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const conflict = () => res.status(409).json({
+    success: false,
+    error: 'Form has changed',
+    message: 'Someone else published this form while you were editing. Reload to see their changes.',
+  });
+
+  const currentVersion = location.formVersion || 0;
+  if (validation.data.baseVersion !== currentVersion) {
+    return conflict();
+  }
+
+  const fields = validation.data.fields.map(normalizeCustomField);
+  if (JSON.stringify(fields) === JSON.stringify(location.customFields || [])) {
+    return res.status(200).json({
+      success: true,
+      data: await loadHistory(location),
+      message: 'No changes to publish',
+    });
+  }
+
+  // Taking the next version number is what guards against two publishes at once
+  const version = currentVersion + 1;
+  const created = await getStorage().formVersions.create({
+    churchId: location.id,
+    version,
+    fields,
+    publishedAt: new Date().toISOString(),
+    publishedBy: user.email,
+  });
+  if (!created) {
+    return conflict();
+  }
+
+  const updated = await getStorage().locations.update(location.id, {
+    customFields: fields,
+    formVersion: version,
+  });
+  if (!updated) {
+    return res.status(404).json({ success: false, error: 'Location not found' });
+  }
+
+  await recordAudit(req, user, {
+    action: 'location.form_publish',
+    resourceType: 'location',
+    resourceId: location.id,
+    churchId: location.id,
+    before: { formVersion: currentVersion, questions: (location.customFields || []).map((field) => field.label) },
+    after: { formVersion: version, questions: fields.map((field) => field.label) },
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: await loadHistory(updated),
+    message: `Form version ${version} published`,
+  });
+}
@@ -0,0 +1,122 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hashPassword, JwtPayload, requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { withoutKioskPin } from '@/lib/kiosk/tokens';
+import { canAccessChurch } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { locationKioskSchema, validateData } from '@/lib/validation';
+import { ApiResponse, OutreachLocation } from '@/types';
+
+/**
+ * Kiosk mode for a location. PUT sets the volunteer PIN and turns kiosk mode
+ * on; DELETE turns it off. Tablets already in a kiosk session keep their
+ * attribution, but no new sessions can be started while it is off.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<OutreachLocation>>
+) {
+  const user = await requirePermission(req, res, 'canManageChurches', { write: true });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const locationId = Array.isArray(id) ? id[0] : id;
+
+  if (!locationId) {
+    return res.status(400).json({ success: false, error: 'Location id is required' });
+  }
+
+  // Locations outside a coordinator's scope are reported as missing
+  if (!canAccessChurch(user, locationId)) {
+    return res.status(404).json({ success: false, error: 'Location not found' });
+  }
+
+  try {
+    const location = await getStorage().locations.get(locationId);
+    if (!location) {
+      return res.status(404).json({ success: false, error: 'Location not found' });
+    }
+
+    switch (req.method) {
+      case 'PUT':
+        return await handlePut(user, location, req, res);
+      case 'DELETE':
+        return await handleDelete(user, location, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Location kiosk API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function handlePut(
+  user: JwtPayload,
+  location: OutreachLocation,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<OutreachLocation>>
+) {
+  const validation = validateData(locationKioskSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const updated = await getStorage().locations.update(location.id, {
+    kioskEnabled: true,
+    kioskPinHash: await hashPassword(validation.data.pin),
+    kioskPinUpdatedAt: new Date().toISOString(),
+  });
+  if (!updated) {
+    return res.status(404).json({ success: false, error: 'Location not found' });
+  }
+
+  // The PIN itself is never recorded
+  await recordAudit(req, user, {
+    action: 'location.kiosk_update',
+    resourceType: 'location',
+    resourceId: location.id,
+    churchId: location.id,
+    before: { kioskEnabled: Boolean(location.kioskEnabled) },
+    after: { kioskEnabled: true },
+    details: { pinChanged: true },
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: withoutKioskPin(updated),
+    message: location.kioskEnabled ? 'Kiosk PIN changed' : 'Kiosk mode turned on',
+  });
+}
+
+async function handleDelete(
+  user: JwtPayload,
+  location: OutreachLocation,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<OutreachLocation>>
+) {
+  const updated = await getStorage().locations.update(location.id, { kioskEnabled: false });
+  if (!updated) {
+    return res.status(404).json({ success: false, error: 'Location not found' });
+  }
+
+  if (location.kioskEnabled) {
+    await recordAudit(req, user, {
+      action: 'location.kiosk_update',
+      resourceType: 'location',
+      resourceId: location.id,
+      churchId: location.id,
+      before: { kioskEnabled: true },
+      after: { kioskEnabled: false },
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: withoutKioskPin(updated),
+    message: 'Kiosk mode turned off',
+  });
+}
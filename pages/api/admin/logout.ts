@@ -1,5 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { clearAuthCookies } from '@/lib/auth';
+import { clearAuthCookies, getUserFromRefreshToken, getUserFromToken } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { revokeSession } from '@/lib/sessions';
 import { ApiResponse } from '@/types';
 
 export default async function handler(
@@ -14,6 +16,17 @@ export default async function handler(
   }
 
   try {
+    // End the server-side session so copies of its tokens stop working
+    const user = getUserFromToken(req) || getUserFromRefreshToken(req);
+    if (user?.sessionId) {
+      await revokeSession(user.sessionId, 'logout');
+      await recordAudit(req, user, {
+        action: 'auth.logout',
+        resourceType: 'session',
+        resourceId: user.sessionId,
+      });
+    }
+
     // Clear the auth cookies
     clearAuthCookies(res);
 
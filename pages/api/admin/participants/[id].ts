@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getParticipantTimeline } from '@/lib/participants';
+import { getChurchScope } from '@/lib/permissions';
+import { ApiResponse, ParticipantTimeline } from '@/types';
+
+/**
+ * A participant's screenings over time, oldest first.
+ * Ids of participants that were merged away resolve to the surviving participant.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<ParticipantTimeline>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  const participantId = Array.isArray(id) ? id[0] : id;
+
+  if (!participantId) {
+    return res.status(400).json({ success: false, error: 'Participant id is required' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  try {
+    const churchId = getChurchScope(user);
+    const timeline = await getParticipantTimeline(participantId, churchId);
+
+    // Participants with no screenings at the caller's location are reported as missing
+    if (!timeline) {
+      return res.status(404).json({ success: false, error: 'Participant not found' });
+    }
+
+    await recordAudit(req, user, {
+      action: 'participant.view',
+      resourceType: 'participant',
+      resourceId: timeline.participant.id,
+      churchId,
+      details: {
+        submissionIds: timeline.entries.map((entry) => entry.id),
+      },
+    });
+
+    return res.status(200).json({ success: true, data: timeline });
+  } catch (error) {
+    console.error('Get participant timeline error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load participant history' });
+  }
+}
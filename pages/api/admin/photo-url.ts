@@ -1,8 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { GetObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { s3Client, S3_BUCKET } from '@/lib/aws-config';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
 import { z } from 'zod';
 
 interface ApiResponse<T = any> {
@@ -27,14 +27,8 @@ export default async function handler(
     });
   }
 
-  try {
-    requireAdmin(req, res);
-  } catch {
-    return res.status(401).json({
-      success: false,
-      error: 'Unauthorized',
-    });
-  }
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
 
   try {
     const parseResult = requestSchema.safeParse(req.body);
@@ -44,26 +38,37 @@ export default async function handler(
 
     const { photoPath } = parseResult.data;
 
-    // Extract S3 key from the existing selfieUrl
-    // selfieUrl format: https://bucket-name.s3.amazonaws.com/submissions/id/filename
-    let s3Key = photoPath;
-    
-    // If it's a full URL, extract just the key part
-    if (photoPath.includes('s3.amazonaws.com/')) {
-      const urlParts = photoPath.split('s3.amazonaws.com/');
-      if (urlParts.length > 1) {
-        s3Key = urlParts[1];
-      }
+    // Accepts a submission's selfieUrl or the bare photo key
+    const { photos } = getStorage();
+    const photoKey = photos.keyFromUrl(photoPath);
+    if (!photoKey) {
+      return res.status(400).json({ success: false, error: 'Invalid photo path' });
     }
 
-    // Generate signed URL valid for 1 hour
-    const command = new GetObjectCommand({
-      Bucket: S3_BUCKET,
-      Key: s3Key,
-    });
+    // Keys follow submissions/{submissionId}/{filename}
+    const [prefix, submissionId] = photoKey.split('/');
+    const submission = prefix === 'submissions' && submissionId
+      ? await getStorage().submissions.get(submissionId)
+      : null;
+
+    // Coordinators may only view photos of their location's submissions
+    if (getChurchScope(user) && (!submission || !canAccessChurch(user, submission.churchId))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        message: 'You do not have access to this photo',
+      });
+    }
+
+    // Valid for 1 hour
+    const signedUrl = await photos.getViewUrl(photoKey, 3600);
 
-    const signedUrl = await getSignedUrl(s3Client, command, { 
-      expiresIn: 3600 // 1 hour
+    await recordAudit(req, user, {
+      action: 'photo.view',
+      resourceType: 'photo',
+      resourceId: submission?.id,
+      churchId: submission?.churchId,
+      details: { key: photoKey },
     });
 
     res.status(200).json({
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import QRCode from 'qrcode-svg';
+import { requireAuth } from '@/lib/auth';
 
 export default async function handler(
   req: NextApiRequest,
@@ -12,6 +13,10 @@ export default async function handler(
     });
   }
 
+  // Any signed-in account can print QR codes; they only encode the public form URL
+  const user = await requireAuth(req, res);
+  if (!user) return; // Response already sent by requireAuth
+
   const { url, name } = req.query;
 
   if (!url) {
@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import QRCode from 'qrcode';
-import { requireAdmin } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth';
 
 export default async function handler(
   req: NextApiRequest,
@@ -13,9 +13,9 @@ export default async function handler(
     });
   }
 
-  // Verify admin authentication for QR code generation
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+  // Any signed-in account can print QR codes; they only encode the public form URL
+  const user = await requireAuth(req, res);
+  if (!user) return; // Response already sent by requireAuth
 
   const { url, name } = req.query;
 
@@ -1,8 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
-import { HeadObjectCommand } from '@aws-sdk/client-s3';
-import { docClient, s3Client, TABLES, S3_BUCKET } from '@/lib/aws-config';
-import { requireAdmin } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { submissionsService } from '@/lib/submissions-service';
+import { requirePermission } from '@/lib/auth';
+import { getChurchScope } from '@/lib/permissions';
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -31,14 +31,8 @@ export default async function handler(
     });
   }
 
-  try {
-    requireAdmin(req, res);
-  } catch {
-    return res.status(401).json({
-      success: false,
-      error: 'Unauthorized',
-    });
-  }
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: true });
+  if (!user) return; // Response already sent by requirePermission
 
   try {
     console.log('Starting photo refresh process...');
@@ -52,16 +46,13 @@ export default async function handler(
       errors: []
     };
 
-    // Get all submissions from DynamoDB
-    const scanResult = await docClient.send(new ScanCommand({
-      TableName: TABLES.SUBMISSIONS,
-    }));
-
-    const submissions = scanResult.Items || [];
+    // Get all submissions from storage, limited to the caller's location when scoped
+    const submissions = await submissionsService.fetchAllSubmissions({ churchId: getChurchScope(user) });
     result.totalSubmissions = submissions.length;
 
     console.log(`Found ${submissions.length} submissions to check`);
 
+    const { photos } = getStorage();
     for (const submission of submissions) {
       if (!submission.selfieUrl) {
         continue;
@@ -70,62 +61,37 @@ export default async function handler(
       result.submissionsWithPhotos++;
 
       try {
-        // Extract S3 key from existing URL
-        let s3Key = submission.selfieUrl;
-        let needsUpdate = false;
-        
-        // Handle different URL formats that might exist
-        if (submission.selfieUrl.includes('s3.amazonaws.com/')) {
-          const urlParts = submission.selfieUrl.split('s3.amazonaws.com/');
-          if (urlParts.length > 1) {
-            s3Key = urlParts[1];
-          }
-        } else if (submission.selfieUrl.startsWith('submissions/')) {
-          // Already just the key
-          s3Key = submission.selfieUrl;
-          needsUpdate = true; // Need to add full URL
+        const photoKey = photos.keyFromUrl(submission.selfieUrl);
+        if (!photoKey) {
+          result.photosMissing++;
+          result.errors.push(`Unrecognized photo URL for ${submission.firstName} ${submission.lastName} (${submission.id})`);
+          continue;
         }
 
-        // Check if photo exists in S3
-        try {
-          await s3Client.send(new HeadObjectCommand({
-            Bucket: S3_BUCKET,
-            Key: s3Key,
-          }));
-          
-          result.photosFound++;
-          
-          // Generate correct URL format
-          const correctUrl = `https://${S3_BUCKET}.s3.amazonaws.com/${s3Key}`;
-          
-          // Update if URL format is wrong
-          if (submission.selfieUrl !== correctUrl) {
-            needsUpdate = true;
-          }
-          
-          if (needsUpdate) {
-            console.log(`Updating URL for submission ${submission.id}`);
-            console.log(`Old URL: ${submission.selfieUrl}`);
-            console.log(`New URL: ${correctUrl}`);
-            
-            await docClient.send(new UpdateCommand({
-              TableName: TABLES.SUBMISSIONS,
-              Key: { id: submission.id },
-              UpdateExpression: 'SET selfieUrl = :url',
-              ExpressionAttributeValues: {
-                ':url': correctUrl
-              }
-            }));
-            
-            result.photosFixed++;
-          }
-          
-        } catch (s3Error) {
-          console.error(`Photo not found in S3 for submission ${submission.id}:`, s3Error);
+        // Check if the photo is still stored
+        const photo = await photos.head(photoKey);
+        if (!photo) {
+          console.error(`Photo not found for submission ${submission.id}`);
           result.photosMissing++;
           result.errors.push(`Photo missing for ${submission.firstName} ${submission.lastName} (${submission.id})`);
+          continue;
+        }
+
+        result.photosFound++;
+
+        // Update if URL format is wrong
+        const correctUrl = photos.urlFor(photoKey);
+        if (submission.selfieUrl !== correctUrl) {
+          console.log(`Updating URL for submission ${submission.id}`);
+          console.log(`Old URL: ${submission.selfieUrl}`);
+          console.log(`New URL: ${correctUrl}`);
+
+          await getStorage().submissions.update(submission.id, {
+            selfieUrl: correctUrl,
+          });
+
+          result.photosFixed++;
         }
-        
       } catch (error) {
         console.error(`Error processing submission ${submission.id}:`, error);
         result.errors.push(`Error processing submission ${submission.id}: ${error}`);
@@ -1,15 +1,22 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getUserFromRefreshToken, generateTokenPair, setAuthTokens, clearAuthCookies } from '@/lib/auth';
+import {
+  getUserFromRefreshToken,
+  refreshUserTokens,
+  clearAuthCookies,
+} from '@/lib/auth';
 import { checkRateLimit, createRateLimitHeaders } from '@/lib/rate-limiter';
-import { ApiResponse } from '@/types';
+import { AdminPermissions, ApiResponse } from '@/types';
 
 interface RefreshResponse {
   accessToken: string;
-  refreshToken: string;
+  /** Omitted when a parallel refresh already rotated the refresh token */
+  refreshToken?: string;
   user: {
     id: string;
     email: string;
     role: string;
+    churchId?: string;
+    permissions?: AdminPermissions;
   };
   retryAfter?: number;
 }
@@ -27,10 +34,10 @@ export default async function handler(
 
   // Rate limiting for refresh attempts
   const clientIP = req.headers['x-forwarded-for'] as string || req.socket?.remoteAddress || 'unknown';
-  const rateLimitResult = checkRateLimit(clientIP, 'REFRESH');
+  const rateLimitResult = await checkRateLimit(clientIP, 'REFRESH');
 
   // Add rate limit headers
-  const rateLimitHeaders = createRateLimitHeaders(rateLimitResult.remainingAttempts, rateLimitResult.resetTime, 'REFRESH');
+  const rateLimitHeaders = createRateLimitHeaders(rateLimitResult);
   Object.entries(rateLimitHeaders).forEach(([key, value]) => {
     res.setHeader(key, value);
   });
@@ -62,15 +69,43 @@ export default async function handler(
       });
     }
 
-    // Generate new token pair
-    const tokens = generateTokenPair({
-      userId: refreshTokenUser.userId,
-      email: refreshTokenUser.email,
-      role: refreshTokenUser.role,
-    });
+    const result = await refreshUserTokens(req, res, refreshTokenUser);
+
+    if (result.status === 'account_disabled') {
+      clearAuthCookies(res);
+
+      console.warn(`Refresh rejected for disabled account ${refreshTokenUser.email} from IP: ${clientIP}`);
+
+      return res.status(401).json({
+        success: false,
+        error: 'Account disabled',
+        message: 'Please contact an administrator',
+      });
+    }
+
+    if (result.status === 'two_factor_required') {
+      clearAuthCookies(res);
+
+      return res.status(401).json({
+        success: false,
+        error: 'Two-factor setup required',
+        message: 'Please log in again to set up two-factor authentication',
+      });
+    }
+
+    if (result.status === 'session_expired') {
+      clearAuthCookies(res);
+
+      console.warn(`Refresh rejected for revoked or reused session - User: ${refreshTokenUser.email}, IP: ${clientIP}`);
+
+      return res.status(401).json({
+        success: false,
+        error: 'Session expired',
+        message: 'Please log in again',
+      });
+    }
 
-    // Set new cookies
-    setAuthTokens(res, tokens.accessToken, tokens.refreshToken);
+    const { claims, tokens } = result;
 
     // Log token refresh (in production, save to database)
     console.log(`✅ Token refreshed - User: ${refreshTokenUser.email}, IP: ${clientIP}, UserAgent: ${req.headers['user-agent']}, Timestamp: ${new Date().toISOString()}`);
@@ -81,9 +116,11 @@ export default async function handler(
         accessToken: tokens.accessToken,
         refreshToken: tokens.refreshToken,
         user: {
-          id: refreshTokenUser.userId,
-          email: refreshTokenUser.email,
-          role: refreshTokenUser.role,
+          id: claims.userId,
+          email: claims.email,
+          role: claims.role,
+          churchId: claims.churchId,
+          permissions: claims.permissions,
         },
       },
       message: 'Tokens refreshed successfully',
@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import {
+  CURRENT_RISK_RULE_VERSION,
+  getMaxRiskScore,
+  RISK_RULE_SETS,
+  RiskRuleSet,
+} from '@/lib/risk-engine';
+import { ApiResponse } from '@/types';
+
+interface RiskRuleSetSummary extends RiskRuleSet {
+  maxScore: number;
+  isCurrent: boolean;
+}
+
+/**
+ * Published risk scoring rule sets, oldest first
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RiskRuleSetSummary[]>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewAnalytics');
+  if (!user) return; // Response already sent by requirePermission
+
+  return res.status(200).json({
+    success: true,
+    data: RISK_RULE_SETS.map((ruleSet) => ({
+      ...ruleSet,
+      maxScore: getMaxRiskScore(ruleSet),
+      isCurrent: ruleSet.version === CURRENT_RISK_RULE_VERSION,
+    })),
+  });
+}
@@ -0,0 +1,84 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getRiskRuleSet } from '@/lib/risk-engine';
+import { rescoreSubmissionsPage } from '@/lib/risk-rescore';
+import { decodeCursor, encodeCursor } from '@/lib/submissions-service';
+import { validateData, riskRescoreSchema } from '@/lib/validation';
+import { ApiResponse, RiskRescoreReport } from '@/types';
+
+/**
+ * Re-score historical submissions under a risk rule version, one page per call.
+ * Returns a diff report; results are only saved when `apply` is true.
+ * Repeat with the returned nextToken until it is absent to cover every submission.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RiskRescoreReport>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requireAdmin(req, res);
+  if (!user) return; // Response already sent by requireAdmin
+
+  const validation = validateData(riskRescoreSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const input = validation.data;
+  const ruleSet = getRiskRuleSet(input.version);
+  if (!ruleSet) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown rule version',
+      message: `No risk rule set with version "${input.version}"`,
+    });
+  }
+
+  try {
+    const { report, lastEvaluatedKey } = await rescoreSubmissionsPage({
+      ruleSet,
+      apply: input.apply,
+      churchId: input.churchId,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      pageSize: input.pageSize,
+      exclusiveStartKey: decodeCursor(input.nextToken),
+    });
+
+    if (input.apply && report.changes.length > 0) {
+      await recordAudit(req, user, {
+        action: 'submission.rescore',
+        resourceType: 'submission',
+        churchId: input.churchId,
+        details: {
+          toVersion: ruleSet.version,
+          changed: report.changed,
+          submissionIds: report.changes.map((change) => change.submissionId),
+        },
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { ...report, nextToken: encodeCursor(lastEvaluatedKey) },
+      message: input.apply
+        ? `Re-scored ${report.changed} of ${report.scanned} submissions under ${ruleSet.version}`
+        : `${report.changed} of ${report.scanned} submissions would change under ${ruleSet.version}`,
+    });
+  } catch (error) {
+    console.error('Risk re-score error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to re-score submissions',
+    });
+  }
+}
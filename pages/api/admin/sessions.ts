@@ -1,52 +1,138 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { requireAdmin, clearAuthCookies } from '@/lib/auth';
-import { ApiResponse } from '@/types';
+import { requireAuth, clearAuthCookies, JwtPayload } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getStorage } from '@/lib/storage';
+import { listActiveSessions, revokeSession, revokeUserSessions } from '@/lib/sessions';
+import { AdminSessionSummary, ApiResponse } from '@/types';
 
 interface InvalidateSessionResponse {
   invalidated: boolean;
+  /** Number of sessions that were signed out */
+  revokedCount: number;
   message: string;
 }
 
+/**
+ * The signed-in user's own sessions:
+ * GET lists active sessions, POST signs out everywhere, DELETE ?id= signs out one device.
+ */
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<InvalidateSessionResponse>>
+  res: NextApiResponse<ApiResponse<AdminSessionSummary[] | InvalidateSessionResponse>>
 ) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({
+  // Verify authentication
+  const user = await requireAuth(req, res);
+  if (!user) return; // Response already sent by requireAuth
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(user, res);
+      case 'POST':
+        return await handleSignOutEverywhere(user, req, res);
+      case 'DELETE':
+        return await handleRevoke(user, req, res);
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Session API error:', error);
+
+    res.status(500).json({
       success: false,
-      error: 'Method not allowed',
+      error: 'Session invalidation failed',
+      message: 'Failed to update sessions',
     });
   }
+}
 
-  // Verify admin authentication
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+async function handleGet(
+  user: JwtPayload,
+  res: NextApiResponse<ApiResponse<AdminSessionSummary[]>>
+) {
+  const sessions = await listActiveSessions(user.userId, user.sessionId);
 
+  return res.status(200).json({
+    success: true,
+    data: sessions,
+    message: 'Sessions retrieved successfully',
+  });
+}
+
+async function handleSignOutEverywhere(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<InvalidateSessionResponse>>
+) {
   const clientIP = req.headers['x-forwarded-for'] as string || req.socket?.remoteAddress || 'unknown';
 
-  try {
-    // Clear all auth cookies
-    clearAuthCookies(res);
+  const revokedCount = await revokeUserSessions(user.userId, 'signed_out_everywhere');
 
-    // Log session invalidation (in production, save to database)
-    console.log(`🔒 Session invalidated - User: ${user.email}, IP: ${clientIP}, UserAgent: ${req.headers['user-agent']}, Timestamp: ${new Date().toISOString()}`);
+  await recordAudit(req, user, {
+    action: 'session.revoke',
+    resourceType: 'session',
+    details: { everywhere: true, revokedCount },
+  });
 
-    res.status(200).json({
-      success: true,
-      data: {
-        invalidated: true,
-        message: 'All sessions have been invalidated',
-      },
-      message: 'Session invalidated successfully',
-    });
+  // Clear all auth cookies
+  clearAuthCookies(res);
 
-  } catch (error) {
-    console.error('Session invalidation error:', error);
+  console.log(`🔒 Signed out everywhere - User: ${user.email}, Sessions: ${revokedCount}, IP: ${clientIP}, UserAgent: ${req.headers['user-agent']}, Timestamp: ${new Date().toISOString()}`);
 
-    res.status(500).json({
-      success: false,
-      error: 'Session invalidation failed',
-      message: 'Failed to invalidate session',
-    });
+  return res.status(200).json({
+    success: true,
+    data: {
+      invalidated: true,
+      revokedCount,
+      message: 'All sessions have been invalidated',
+    },
+    message: 'Session invalidated successfully',
+  });
+}
+
+async function handleRevoke(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<InvalidateSessionResponse>>
+) {
+  const { id } = req.query;
+  const sessionId = Array.isArray(id) ? id[0] : id;
+
+  if (!sessionId) {
+    return res.status(400).json({ success: false, error: 'Session id is required' });
   }
+
+  // Other users' sessions are reported as missing
+  const session = await getStorage().sessions.get(sessionId);
+  if (!session || session.userId !== user.userId || session.revokedAt) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  await revokeSession(session.id, 'revoked_by_user');
+
+  await recordAudit(req, user, {
+    action: 'session.revoke',
+    resourceType: 'session',
+    resourceId: session.id,
+  });
+
+  const isCurrent = session.id === user.sessionId;
+  if (isCurrent) {
+    clearAuthCookies(res);
+  }
+
+  console.log(`🔒 Session ${session.id} revoked by ${user.email}`);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      invalidated: true,
+      revokedCount: 1,
+      message: isCurrent ? 'This device has been signed out' : 'Session revoked',
+    },
+    message: 'Session invalidated successfully',
+  });
 }
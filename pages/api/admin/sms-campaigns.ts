@@ -0,0 +1,176 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JwtPayload, requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import {
+  buildSmsCampaignAudience,
+  createSmsCampaign,
+  runSmsCampaign,
+  SMS_CAMPAIGN_MAX_RECIPIENTS,
+  summarizeAudience,
+} from '@/lib/sms-campaigns';
+import { smsService } from '@/lib/sms-service';
+import { selectSmsTemplate, withOptOutNotice } from '@/lib/sms-templates';
+import { getStorage } from '@/lib/storage';
+import { validateData, smsCampaignSchema } from '@/lib/validation';
+import { ApiResponse, SmsCampaign, SmsCampaignAudience } from '@/types';
+
+// Campaigns can be scheduled up to this far ahead
+const MAX_SCHEDULE_DAYS = 30;
+
+/**
+ * Bulk SMS campaigns. GET lists campaigns for the caller's locations; POST
+ * builds the audience from submission filters and either reports its size
+ * (`dryRun`) or saves the campaign and, when it is due now, starts sending.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsCampaign[] | SmsCampaign | SmsCampaignAudience>>
+) {
+  // Messaging participants is part of follow-up work on submissions
+  const user = await (req.method === 'POST'
+    ? requirePermission(req, res, 'canViewSubmissions', { write: true })
+    : requirePermission(req, res, 'canViewSubmissions'));
+  if (!user) return; // Response already sent by requirePermission
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(user, res);
+      case 'POST':
+        return await handlePost(user, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('SMS campaigns API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function handleGet(
+  user: JwtPayload,
+  res: NextApiResponse<ApiResponse<SmsCampaign[]>>
+) {
+  const churchId = getChurchScope(user);
+  const campaigns = (await getStorage().smsCampaigns.list())
+    .filter((campaign) => !churchId || campaign.filters.churchId === churchId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return res.status(200).json({ success: true, data: campaigns });
+}
+
+async function handlePost(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsCampaign | SmsCampaignAudience>>
+) {
+  const validation = validateData(smsCampaignSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { name, templateKey, message, locale, dryRun } = validation.data;
+
+  // Coordinators only ever reach their own location
+  const filters = {
+    ...validation.data.filters,
+    churchId: validation.data.filters.churchId || getChurchScope(user),
+  };
+  if (!canAccessChurch(user, filters.churchId)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'You do not have access to this outreach location',
+    });
+  }
+
+  const members = await buildSmsCampaignAudience(filters);
+  const audience = summarizeAudience(members);
+  if (dryRun) {
+    return res.status(200).json({
+      success: true,
+      data: audience,
+      message: `${audience.eligible} of ${audience.matched} matching submissions would be texted`,
+    });
+  }
+
+  if (!smsService.isEnabled()) {
+    return res.status(400).json({
+      success: false,
+      error: 'SMS service is not enabled. Please configure APP_SNS_ENABLED=true in environment variables.',
+    });
+  }
+  if (templateKey && !selectSmsTemplate(await getStorage().smsTemplates.list(), templateKey, {
+    churchId: filters.churchId,
+    locale,
+  })) {
+    return res.status(400).json({ success: false, error: `No SMS template found for "${templateKey}"` });
+  }
+  if (audience.eligible === 0) {
+    return res.status(400).json({ success: false, error: 'No matching submissions can be texted' });
+  }
+  if (audience.eligible > SMS_CAMPAIGN_MAX_RECIPIENTS) {
+    return res.status(400).json({
+      success: false,
+      error: `Campaigns are limited to ${SMS_CAMPAIGN_MAX_RECIPIENTS} recipients; narrow the filters`,
+    });
+  }
+
+  const now = new Date();
+  const scheduledAt = validation.data.scheduledAt && new Date(validation.data.scheduledAt) > now
+    ? new Date(validation.data.scheduledAt)
+    : now;
+  if (scheduledAt.getTime() - now.getTime() > MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({
+      success: false,
+      error: `Campaigns can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`,
+    });
+  }
+
+  const campaign = await createSmsCampaign({
+    name: name || '',
+    filters,
+    templateKey,
+    // Hand-written messages get the opt-out notice carriers expect
+    message: templateKey ? undefined : withOptOutNotice(message || ''),
+    locale,
+    scheduledAt: scheduledAt.toISOString(),
+  }, members, user.email);
+
+  await recordAudit(req, user, {
+    action: 'sms_campaign.create',
+    resourceType: 'sms_campaign',
+    resourceId: campaign.id,
+    churchId: filters.churchId,
+    details: {
+      name: campaign.name,
+      templateKey: templateKey || null,
+      filters: campaign.filters,
+      scheduledAt: campaign.scheduledAt,
+      recipients: audience.eligible,
+      submissionIds: members.filter((member) => !member.skipReason).map((member) => member.submission.id),
+    },
+  });
+
+  res.status(201).json({
+    success: true,
+    data: campaign,
+    message: scheduledAt > now
+      ? `Campaign scheduled for ${audience.eligible} recipients`
+      : `Sending to ${audience.eligible} recipients`,
+  });
+
+  // Start sending while this instance is still running; scheduled runs of
+  // /api/jobs/sms-campaigns send the rest and anything scheduled for later
+  if (scheduledAt <= now) {
+    try {
+      await runSmsCampaign(campaign.id);
+    } catch (error) {
+      console.error(`SMS campaign ${campaign.id} errored:`, error);
+    }
+  }
+}
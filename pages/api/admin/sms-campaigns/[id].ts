@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { ApiResponse, SmsCampaignDetail } from '@/types';
+
+/**
+ * A campaign with the delivery result for each matched submission.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsCampaignDetail>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const campaignId = Array.isArray(id) ? id[0] : id;
+  if (!campaignId) {
+    return res.status(400).json({ success: false, error: 'Campaign id is required' });
+  }
+
+  try {
+    const { smsCampaigns, smsCampaignRecipients } = getStorage();
+    const campaign = await smsCampaigns.get(campaignId);
+
+    // Campaigns outside the caller's location are reported as missing
+    if (!campaign || !canAccessChurch(user, campaign.filters.churchId)) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    const recipients = (await smsCampaignRecipients.listByCampaign(campaign.id))
+      .sort((a, b) => a.status.localeCompare(b.status) || a.submissionId.localeCompare(b.submissionId));
+
+    await recordAudit(req, user, {
+      action: 'sms_campaign.view',
+      resourceType: 'sms_campaign',
+      resourceId: campaign.id,
+      churchId: campaign.filters.churchId,
+      details: { resultCount: recipients.length },
+    });
+
+    return res.status(200).json({ success: true, data: { campaign, recipients } });
+  } catch (error) {
+    console.error('SMS campaign API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { ApiResponse, SmsCampaign } from '@/types';
+
+/**
+ * Stop a scheduled or sending campaign. Messages already sent stay sent; a run
+ * in progress stops within a few sends.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsCampaign>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: true });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const campaignId = Array.isArray(id) ? id[0] : id;
+  if (!campaignId) {
+    return res.status(400).json({ success: false, error: 'Campaign id is required' });
+  }
+
+  try {
+    const { smsCampaigns } = getStorage();
+    const campaign = await smsCampaigns.get(campaignId);
+
+    // Campaigns outside the caller's location are reported as missing
+    if (!campaign || !canAccessChurch(user, campaign.filters.churchId)) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+    if (campaign.status !== 'scheduled' && campaign.status !== 'sending') {
+      return res.status(409).json({
+        success: false,
+        error: `Campaign is already ${campaign.status}`,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const updated = await smsCampaigns.update(campaign.id, {
+      status: 'cancelled',
+      cancelledAt: now,
+      cancelledBy: user.email,
+      updatedAt: now,
+    });
+    if (!updated) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    await recordAudit(req, user, {
+      action: 'sms_campaign.cancel',
+      resourceType: 'sms_campaign',
+      resourceId: campaign.id,
+      churchId: campaign.filters.churchId,
+      before: { status: campaign.status },
+      after: { status: updated.status },
+    });
+
+    return res.status(200).json({ success: true, data: updated, message: 'Campaign cancelled' });
+  } catch (error) {
+    console.error('Cancel SMS campaign API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { decodeCursor, encodeCursor } from '@/lib/submissions-service';
+import { validateData, smsLogListSchema } from '@/lib/validation';
+import { ApiResponse, PaginatedResult, SmsLogEntry } from '@/types';
+
+function getQueryString(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ? raw.trim() || undefined : undefined;
+}
+
+/**
+ * Browse every SMS sent or received, newest first. Coordinators only see
+ * their own location's messages.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PaginatedResult<SmsLogEntry>>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  const validation = validateData(smsLogListSchema, {
+    filters: {
+      startDate: getQueryString(req.query.startDate),
+      endDate: getQueryString(req.query.endDate),
+      churchId: getQueryString(req.query.churchId),
+      direction: getQueryString(req.query.direction),
+      status: getQueryString(req.query.status),
+    },
+    pageSize: getQueryString(req.query.pageSize),
+    nextToken: getQueryString(req.query.nextToken),
+  });
+
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid SMS log filters: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { pageSize, nextToken } = validation.data;
+  const filters = {
+    ...validation.data.filters,
+    churchId: validation.data.filters.churchId || getChurchScope(user),
+  };
+  if (!canAccessChurch(user, filters.churchId)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'You do not have access to this outreach location',
+    });
+  }
+
+  try {
+    const page = await getStorage().smsLog.list({
+      ...filters,
+      pageSize,
+      exclusiveStartKey: decodeCursor(nextToken),
+    });
+
+    await recordAudit(req, user, {
+      action: 'sms.view',
+      resourceType: 'sms',
+      churchId: filters.churchId,
+      details: { filters, count: page.items.length },
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        items: page.items,
+        nextToken: encodeCursor(page.lastEvaluatedKey),
+      },
+      message: `Retrieved ${page.items.length} messages`,
+    });
+  } catch (error) {
+    console.error('SMS log API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to load the SMS log',
+    });
+  }
+}
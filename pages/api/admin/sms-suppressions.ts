@@ -0,0 +1,129 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JwtPayload, requireAdmin, requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { optIn, optOut } from '@/lib/consent/ledger';
+import { canAccessChurch } from '@/lib/permissions';
+import { formatPhoneNumber } from '@/lib/sms-service';
+import { getStorage } from '@/lib/storage';
+import {
+  validateData,
+  smsSuppressionCreateSchema,
+  smsSuppressionDeleteSchema,
+} from '@/lib/validation';
+import { ApiResponse, SmsSuppression } from '@/types';
+
+/**
+ * The SMS opt-out list. Anyone who can message participants can stop texts to
+ * a number, e.g. when someone asks in person; listing the numbers and lifting
+ * an opt-out is for admins.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsSuppression[] | SmsSuppression | null>>
+) {
+  const user = await (req.method === 'POST'
+    ? requirePermission(req, res, 'canViewSubmissions', { write: true })
+    : requireAdmin(req, res));
+  if (!user) return; // Response already sent by requirePermission / requireAdmin
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(res);
+      case 'POST':
+        return await handlePost(user, req, res);
+      case 'DELETE':
+        return await handleDelete(user, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('SMS suppressions API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function handleGet(res: NextApiResponse<ApiResponse<SmsSuppression[]>>) {
+  const suppressions = (await getStorage().smsSuppressions.list())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return res.status(200).json({ success: true, data: suppressions });
+}
+
+async function handlePost(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsSuppression>>
+) {
+  const validation = validateData(smsSuppressionCreateSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { submissionId, note } = validation.data;
+  const phone = formatPhoneNumber(validation.data.phoneNumber);
+  if (!phone) {
+    return res.status(400).json({ success: false, error: 'Invalid phone number format' });
+  }
+
+  let churchId: string | undefined;
+  if (submissionId) {
+    const submission = await getStorage().submissions.get(submissionId);
+    // Submissions outside the caller's location are reported as missing
+    if (!submission || !canAccessChurch(user, submission.churchId)) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+    churchId = submission.churchId;
+  }
+
+  const suppression = await optOut(phone, { source: 'admin', actorEmail: user.email, note, submissionId, churchId });
+
+  await recordAudit(req, user, {
+    action: 'sms_suppression.create',
+    resourceType: 'sms_suppression',
+    resourceId: submissionId,
+    churchId,
+    details: { phoneLast4: phone.slice(-4) },
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: suppression,
+    message: 'Texts to this number are stopped',
+  });
+}
+
+async function handleDelete(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<null>>
+) {
+  const validation = validateData(smsSuppressionDeleteSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const phone = formatPhoneNumber(validation.data.phoneNumber);
+  if (!phone) {
+    return res.status(400).json({ success: false, error: 'Invalid phone number format' });
+  }
+  if (!(await getStorage().smsSuppressions.get(phone))) {
+    return res.status(404).json({ success: false, error: 'Number is not opted out' });
+  }
+
+  await optIn(phone, { source: 'admin', actorEmail: user.email, note: validation.data.note });
+
+  await recordAudit(req, user, {
+    action: 'sms_suppression.delete',
+    resourceType: 'sms_suppression',
+    details: { phoneLast4: phone.slice(-4), note: validation.data.note },
+  });
+
+  return res.status(200).json({ success: true, data: null, message: 'Texts to this number are resumed' });
+}
@@ -0,0 +1,132 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { v4 as uuidv4 } from 'uuid';
+import { JwtPayload, requirePermission } from '@/lib/auth';
+import { pickFields, recordAudit, SMS_TEMPLATE_AUDIT_FIELDS } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { DEFAULT_SMS_TEMPLATES, SmsTemplateDefault } from '@/lib/sms-templates';
+import { getStorage } from '@/lib/storage';
+import { validateData, smsTemplateSchema } from '@/lib/validation';
+import { ApiResponse, SmsTemplate } from '@/types';
+
+interface SmsTemplateLibrary {
+  templates: SmsTemplate[];
+  defaults: SmsTemplateDefault[];
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsTemplateLibrary | SmsTemplate>>
+) {
+  // Anyone who can message participants can read the templates; editing them is location management
+  const user = await (req.method === 'GET'
+    ? requirePermission(req, res, 'canViewSubmissions')
+    : requirePermission(req, res, 'canManageChurches', { write: true }));
+  if (!user) return; // Response already sent by requirePermission
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(user, res);
+      case 'POST':
+        return await handlePost(user, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('SMS templates API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function handleGet(
+  user: JwtPayload,
+  res: NextApiResponse<ApiResponse<SmsTemplateLibrary>>
+) {
+  // Coordinators see the shared templates and their own location's overrides
+  const templates = (await getStorage().smsTemplates.list())
+    .filter((template) => !template.churchId || canAccessChurch(user, template.churchId))
+    .sort((a, b) =>
+      a.key.localeCompare(b.key) ||
+      (a.churchId || '').localeCompare(b.churchId || '') ||
+      a.locale.localeCompare(b.locale)
+    );
+
+  return res.status(200).json({
+    success: true,
+    data: { templates, defaults: DEFAULT_SMS_TEMPLATES },
+    message: 'SMS templates retrieved successfully',
+  });
+}
+
+async function handlePost(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsTemplate>>
+) {
+  const validation = validateData(smsTemplateSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { key, name, locale, churchId, body } = validation.data;
+
+  // Shared templates affect every location, so location-scoped accounts can only add overrides
+  if (getChurchScope(user) && !churchId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'Location-scoped accounts can only create templates for their own location',
+    });
+  }
+
+  if (churchId) {
+    const location = canAccessChurch(user, churchId) ? await getStorage().locations.get(churchId) : null;
+    if (!location) {
+      return res.status(404).json({ success: false, error: 'Location not found' });
+    }
+  }
+
+  const existing = await getStorage().smsTemplates.list();
+  const conflict = existing.find((template) =>
+    template.key === key && template.locale === locale && (template.churchId || undefined) === churchId
+  );
+  if (conflict) {
+    return res.status(409).json({
+      success: false,
+      error: 'Template already exists',
+      message: `A "${key}" template in ${locale} already exists for ${churchId ? 'this location' : 'all locations'}`,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const template: SmsTemplate = {
+    id: uuidv4(),
+    key,
+    name,
+    locale,
+    ...(churchId ? { churchId } : {}),
+    body,
+    createdAt: now,
+    updatedAt: now,
+    updatedBy: user.email,
+  };
+
+  await getStorage().smsTemplates.create(template);
+
+  await recordAudit(req, user, {
+    action: 'sms_template.create',
+    resourceType: 'sms_template',
+    resourceId: template.id,
+    churchId,
+    after: pickFields(template, SMS_TEMPLATE_AUDIT_FIELDS),
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: template,
+    message: 'SMS template created successfully',
+  });
+}
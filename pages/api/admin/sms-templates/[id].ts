@@ -0,0 +1,113 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JwtPayload, requirePermission } from '@/lib/auth';
+import { diffFields, pickFields, recordAudit, SMS_TEMPLATE_AUDIT_FIELDS } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { validateData, smsTemplateUpdateSchema } from '@/lib/validation';
+import { ApiResponse, SmsTemplate } from '@/types';
+
+/**
+ * Edit or delete a stored SMS template. The key, language and location are
+ * fixed once created; deleting a template falls back to the next match
+ * (the shared template, then the built-in default).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsTemplate | null>>
+) {
+  const user = await requirePermission(req, res, 'canManageChurches', { write: true });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const templateId = Array.isArray(id) ? id[0] : id;
+  if (!templateId) {
+    return res.status(400).json({ success: false, error: 'Template id is required' });
+  }
+
+  try {
+    const template = await getStorage().smsTemplates.get(templateId);
+
+    // Other locations' overrides are reported as missing
+    if (!template || (template.churchId && !canAccessChurch(user, template.churchId))) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+    if (!template.churchId && getChurchScope(user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        message: 'Location-scoped accounts cannot change templates shared by every location',
+      });
+    }
+
+    switch (req.method) {
+      case 'PUT':
+        return await handlePut(user, template, req, res);
+      case 'DELETE':
+        return await handleDelete(user, template, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('SMS templates [id] API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function handlePut(
+  user: JwtPayload,
+  before: SmsTemplate,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsTemplate | null>>
+) {
+  const validation = validateData(smsTemplateUpdateSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const updated = await getStorage().smsTemplates.update(before.id, {
+    ...validation.data,
+    updatedAt: new Date().toISOString(),
+    updatedBy: user.email,
+  });
+  if (!updated) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+
+  const changes = diffFields(before, updated, SMS_TEMPLATE_AUDIT_FIELDS);
+  if (changes) {
+    await recordAudit(req, user, {
+      action: 'sms_template.update',
+      resourceType: 'sms_template',
+      resourceId: updated.id,
+      churchId: updated.churchId,
+      ...changes,
+    });
+  }
+
+  return res.status(200).json({ success: true, data: updated, message: 'SMS template updated successfully' });
+}
+
+async function handleDelete(
+  user: JwtPayload,
+  template: SmsTemplate,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsTemplate | null>>
+) {
+  const deleted = await getStorage().smsTemplates.delete(template.id);
+  if (!deleted) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+
+  await recordAudit(req, user, {
+    action: 'sms_template.delete',
+    resourceType: 'sms_template',
+    resourceId: template.id,
+    churchId: template.churchId,
+    before: pickFields(template, SMS_TEMPLATE_AUDIT_FIELDS),
+  });
+
+  return res.status(200).json({ success: true, data: null, message: 'SMS template deleted successfully' });
+}
@@ -1,16 +1,52 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit, recordFollowUpUpdate } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
 import { submissionsService } from '@/lib/submissions-service';
 import { validateData, followUpUpdateSchema } from '@/lib/validation';
-import { HealthSubmission, ApiResponse } from '@/types';
-import { docClient, TABLES } from '@/lib/aws-config';
-import { ScanCommand, ScanCommandInput } from '@aws-sdk/lib-dynamodb';
+import {
+  HealthSubmission,
+  ApiResponse,
+  PaginatedResult,
+  SubmissionFollowUpStatus,
+  SubmissionsQueryParams,
+} from '@/types';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+function getQueryString(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ? raw.trim() || undefined : undefined;
+}
+
+function getQueryList(value: string | string[] | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const list = (Array.isArray(value) ? value : [value])
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
 
-// Production mode - always use DynamoDB
+function parseQueryParams(query: NextApiRequest['query']): SubmissionsQueryParams {
+  const pageSize = Number(getQueryString(query.pageSize)) || DEFAULT_PAGE_SIZE;
+
+  return {
+    churchId: getQueryString(query.churchId),
+    startDate: getQueryString(query.startDate),
+    endDate: getQueryString(query.endDate),
+    riskLevels: getQueryList(query.riskLevels),
+    followUpStatuses: getQueryList(query.followUpStatuses) as SubmissionFollowUpStatus[] | undefined,
+    searchTerm: getQueryString(query.searchTerm),
+    pageSize: Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE),
+    exclusiveStartKey: submissionsService.decodeCursor(getQueryString(query.nextToken)),
+  };
+}
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<HealthSubmission[] | HealthSubmission>>
+  res: NextApiResponse<ApiResponse<PaginatedResult<HealthSubmission> | HealthSubmission>>
 ) {
   if (req.method === 'GET') {
     return handleGetSubmissions(req, res);
@@ -26,45 +62,55 @@ export default async function handler(
 
 async function handleGetSubmissions(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<HealthSubmission[]>>
+  res: NextApiResponse<ApiResponse<PaginatedResult<HealthSubmission>>>
 ) {
   // Verify admin authentication
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  const params = parseQueryParams(req.query);
+
+  // Coordinators only ever see their own location
+  if (!canAccessChurch(user, params.churchId || getChurchScope(user))) {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'You do not have access to this outreach location',
+    });
+  }
 
   try {
-    console.log('Fetching submissions from DynamoDB...');
-    console.log('Table name:', TABLES.SUBMISSIONS);
-
-    // Query all submissions from DynamoDB
-    console.log('Querying DynamoDB for submissions...');
-    
-    const scanParams: ScanCommandInput = {
-      TableName: TABLES.SUBMISSIONS,
-      // We'll scan the entire table for now
-      // In production with large datasets, consider using Query with GSI
-    };
-
-    let submissions: HealthSubmission[] = [];
-    try {
-      const result = await docClient.send(new ScanCommand(scanParams));
-      submissions = (result.Items || []) as HealthSubmission[];
-      console.log(`Retrieved ${submissions.length} submissions from DynamoDB`);
-    } catch (error) {
-      console.error('DynamoDB scan error:', error);
-      return res.status(500).json({
-        success: false,
-        error: 'Database query failed',
-        message: 'Failed to retrieve submissions from database',
-      });
-    }
+    const page = await submissionsService.fetchSubmissionsPage({
+      ...params,
+      churchId: params.churchId || getChurchScope(user),
+    });
 
-    console.log(`Returning ${submissions.length} submissions to admin ${user.email}`);
+    await recordAudit(req, user, {
+      action: 'submission.list',
+      resourceType: 'submission',
+      churchId: params.churchId || getChurchScope(user),
+      details: {
+        filters: {
+          startDate: params.startDate,
+          endDate: params.endDate,
+          riskLevels: params.riskLevels,
+          followUpStatuses: params.followUpStatuses,
+          searchTerm: params.searchTerm,
+        },
+        resultCount: page.items.length,
+        submissionIds: page.items.map((submission) => submission.id),
+      },
+    });
+
+    console.log(`Returning ${page.items.length} submissions to admin ${user.email}`);
 
     res.status(200).json({
       success: true,
-      data: submissions,
-      message: `Retrieved ${submissions.length} submissions`,
+      data: {
+        items: page.items,
+        nextToken: page.nextToken,
+      },
+      message: `Retrieved ${page.items.length} submissions`,
     });
 
   } catch (error) {
@@ -83,8 +129,8 @@ async function handleUpdateSubmission(
   res: NextApiResponse<ApiResponse<HealthSubmission>>
 ) {
   // Verify admin authentication
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: true });
+  if (!user) return; // Response already sent by requirePermission
 
   try {
     const { id } = req.query;
@@ -113,17 +159,26 @@ async function handleUpdateSubmission(
     console.log(`Admin ${user.email} updating submission ${id}...`);
 
     // Update the submission using the service
-    const updatedSubmission = await submissionsService.updateFollowUp(id, {
+    const result = await submissionsService.updateFollowUp(id, {
       followUpStatus,
       followUpNotes,
       followUpDate,
-    });
+    }, getChurchScope(user));
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submission not found',
+      });
+    }
+
+    await recordFollowUpUpdate(req, user, result.before, result.updated);
 
     console.log(`Submission ${id} updated successfully by admin ${user.email}`);
 
     res.status(200).json({
       success: true,
-      data: updatedSubmission,
+      data: result.updated,
       message: 'Submission updated successfully',
     });
 
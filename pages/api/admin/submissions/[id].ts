@@ -1,8 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { z } from 'zod';
-import { requireAdmin } from '@/lib/auth';
-import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, TABLES } from '@/lib/aws-config';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit, recordFollowUpUpdate } from '@/lib/audit';
+import { canAccessChurch, getChurchScope } from '@/lib/permissions';
+import { submissionsService } from '@/lib/submissions-service';
 import { ApiResponse, HealthSubmission, SubmissionFollowUpStatus } from '@/types';
 
 const FOLLOW_UP_STATUS_VALUES: SubmissionFollowUpStatus[] = [
@@ -34,15 +35,53 @@ export default async function handler(
     return res.status(400).json({ success: false, error: 'Submission id is required' });
   }
 
-  if (req.method !== 'PUT') {
-    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  switch (req.method) {
+    case 'GET':
+      return handleGet(submissionId, req, res);
+    case 'PUT':
+      return handleUpdate(submissionId, req, res);
+    default:
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
+}
+
+async function handleGet(
+  submissionId: string,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<HealthSubmission>>
+) {
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
 
   try {
-    requireAdmin(req, res);
-  } catch {
-    return res.status(401).json({ success: false, error: 'Unauthorized' });
+    const submission = await submissionsService.getSubmission(submissionId);
+
+    // Submissions outside the caller's location are reported as missing
+    if (!submission || !canAccessChurch(user, submission.churchId)) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+
+    await recordAudit(req, user, {
+      action: 'submission.view',
+      resourceType: 'submission',
+      resourceId: submission.id,
+      churchId: submission.churchId,
+    });
+
+    return res.status(200).json({ success: true, data: submission });
+  } catch (error) {
+    console.error('Get submission error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load submission' });
   }
+}
+
+async function handleUpdate(
+  submissionId: string,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<HealthSubmission>>
+) {
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: true });
+  if (!user) return; // Response already sent by requirePermission
 
   const parseResult = updateSchema.safeParse(req.body);
   if (!parseResult.success) {
@@ -55,60 +94,25 @@ export default async function handler(
     return res.status(400).json({ success: false, error: 'No update fields provided' });
   }
 
-  const updateExpressions: string[] = [];
-  const expressionAttributeNames: Record<string, string> = {};
-  const expressionAttributeValues: Record<string, unknown> = {};
-
-  if (followUpStatus) {
-    expressionAttributeNames['#followUpStatus'] = 'followUpStatus';
-    expressionAttributeValues[':followUpStatus'] = followUpStatus;
-    updateExpressions.push('#followUpStatus = :followUpStatus');
-  }
-
-  if (typeof followUpNotes === 'string') {
-    expressionAttributeNames['#followUpNotes'] = 'followUpNotes';
-    expressionAttributeValues[':followUpNotes'] = followUpNotes;
-    updateExpressions.push('#followUpNotes = :followUpNotes');
-  }
-
-  if (followUpDate) {
-    expressionAttributeNames['#followUpDate'] = 'followUpDate';
-    expressionAttributeValues[':followUpDate'] = followUpDate;
-    updateExpressions.push('#followUpDate = :followUpDate');
-  }
-
-  expressionAttributeNames['#updatedAt'] = 'updatedAt';
-  expressionAttributeValues[':updatedAt'] = new Date().toISOString();
-  updateExpressions.push('#updatedAt = :updatedAt');
-
   try {
-    const command = new UpdateCommand({
-      TableName: TABLES.SUBMISSIONS,
-      Key: { id: submissionId },
-      UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-      ExpressionAttributeNames: expressionAttributeNames,
-      ExpressionAttributeValues: expressionAttributeValues,
-      ConditionExpression: 'attribute_exists(id)',
-      ReturnValues: 'ALL_NEW',
-    });
+    const result = await submissionsService.updateFollowUp(submissionId, {
+      followUpStatus,
+      followUpNotes,
+      followUpDate: followUpDate || undefined,
+    }, getChurchScope(user));
 
-    const result = await docClient.send(command);
-    const updatedSubmission = result.Attributes as HealthSubmission | undefined;
-
-    if (!updatedSubmission) {
+    if (!result) {
       return res.status(404).json({ success: false, error: 'Submission not found' });
     }
 
+    await recordFollowUpUpdate(req, user, result.before, result.updated);
+
     return res.status(200).json({
       success: true,
-      data: updatedSubmission,
+      data: result.updated,
       message: 'Submission updated successfully',
     });
-  } catch (error: any) {
-    if (error?.name === 'ConditionalCheckFailedException') {
-      return res.status(404).json({ success: false, error: 'Submission not found' });
-    }
-
+  } catch (error) {
     console.error('Update submission error:', error);
     return res.status(500).json({ success: false, error: 'Failed to update submission' });
   }
@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getSmsConsent } from '@/lib/consent/ledger';
+import { canAccessChurch } from '@/lib/permissions';
+import { formatPhoneNumber } from '@/lib/sms-service';
+import { submissionsService } from '@/lib/submissions-service';
+import { ApiResponse, SmsConsentSummary } from '@/types';
+
+/**
+ * SMS consent for the submission's phone number: whether it is opted out,
+ * and every consent ledger entry for the number across screenings.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsConsentSummary | null>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const submissionId = Array.isArray(id) ? id[0] : id;
+  if (!submissionId) {
+    return res.status(400).json({ success: false, error: 'Submission id is required' });
+  }
+
+  try {
+    const submission = await submissionsService.getSubmission(submissionId);
+
+    // Submissions outside the caller's location are reported as missing
+    if (!submission || !canAccessChurch(user, submission.churchId)) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+
+    const phone = formatPhoneNumber(submission.phone || '');
+    if (!phone) {
+      return res.status(200).json({ success: true, data: null, message: 'No phone number on this submission' });
+    }
+
+    const consent = await getSmsConsent(phone);
+    // The opt-out applies everywhere, but other locations' ledger entries stay with them
+    consent.records = consent.records.filter((record) => !record.churchId || canAccessChurch(user, record.churchId));
+
+    await recordAudit(req, user, {
+      action: 'consent.view',
+      resourceType: 'consent',
+      resourceId: submission.id,
+      churchId: submission.churchId,
+    });
+
+    return res.status(200).json({ success: true, data: consent });
+  } catch (error) {
+    console.error('Submission consent API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
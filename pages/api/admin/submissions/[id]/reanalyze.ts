@@ -0,0 +1,82 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requeueAnalysis, runAnalysisJob } from '@/lib/analysis-queue';
+import { canAccessChurch } from '@/lib/permissions';
+import { submissionsService } from '@/lib/submissions-service';
+import { ApiResponse, HealthSubmission } from '@/types';
+
+/**
+ * Queue the submission's selfie for analysis again with a fresh set of retries,
+ * and make the first attempt right away. Completed analyses are not re-run.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<HealthSubmission>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: true });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const submissionId = Array.isArray(id) ? id[0] : id;
+  if (!submissionId) {
+    return res.status(400).json({ success: false, error: 'Submission id is required' });
+  }
+
+  try {
+    const submission = await submissionsService.getSubmission(submissionId);
+
+    // Submissions outside the caller's location are reported as missing
+    if (!submission || !canAccessChurch(user, submission.churchId)) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+    if (submission.analysisStatus === 'complete') {
+      return res.status(409).json({
+        success: false,
+        error: 'Already analyzed',
+        message: 'This selfie has already been analyzed',
+      });
+    }
+
+    const job = await requeueAnalysis(submission);
+    if (!job) {
+      return res.status(422).json({
+        success: false,
+        error: 'No photo',
+        message: 'This submission has no stored photo to analyze',
+      });
+    }
+
+    await recordAudit(req, user, {
+      action: 'submission.reanalyze',
+      resourceType: 'submission',
+      resourceId: submission.id,
+      churchId: submission.churchId,
+      details: { previousStatus: submission.analysisStatus || null },
+    });
+
+    const outcome = await runAnalysisJob(submission.id);
+    const updated = await submissionsService.getSubmission(submission.id);
+
+    return res.status(200).json({
+      success: true,
+      data: updated || submission,
+      message: outcome === 'complete'
+        ? 'Selfie analysis completed'
+        : outcome === 'unknown'
+          ? 'The selfie could not be analyzed'
+          : 'Selfie analysis queued; it will be retried shortly',
+    });
+  } catch (error) {
+    console.error('Re-run analysis error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to re-run selfie analysis',
+    });
+  }
+}
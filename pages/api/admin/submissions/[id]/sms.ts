@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { canAccessChurch } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { submissionsService } from '@/lib/submissions-service';
+import { ApiResponse, SmsLogEntry } from '@/types';
+
+/**
+ * Contact history of a submission: every text sent about it and every reply
+ * tied to it, newest first, with delivery status.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsLogEntry[]>>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const user = await requirePermission(req, res, 'canViewSubmissions');
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const submissionId = Array.isArray(id) ? id[0] : id;
+  if (!submissionId) {
+    return res.status(400).json({ success: false, error: 'Submission id is required' });
+  }
+
+  try {
+    const submission = await submissionsService.getSubmission(submissionId);
+
+    // Submissions outside the caller's location are reported as missing
+    if (!submission || !canAccessChurch(user, submission.churchId)) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+
+    const messages = await getStorage().smsLog.listBySubmission(submission.id);
+
+    await recordAudit(req, user, {
+      action: 'sms.view',
+      resourceType: 'sms',
+      resourceId: submission.id,
+      churchId: submission.churchId,
+    });
+
+    return res.status(200).json({ success: true, data: messages });
+  } catch (error) {
+    console.error('Submission SMS history API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { completeSignIn, SignInResult } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { completeEnrollment, enforceTwoFactorRateLimit, resolveEnrollingUser } from '@/lib/two-factor';
+import { validateData, twoFactorEnableSchema } from '@/lib/validation';
+import { ApiResponse } from '@/types';
+
+interface EnableTwoFactorResponse {
+  /** Shown once; only their hashes are stored */
+  recoveryCodes: string[];
+  /** Present when enrollment finished a sign-in */
+  signIn?: SignInResult;
+}
+
+/**
+ * Finish enrollment with the first code from the authenticator app.
+ * When enrolling during sign-in, this also starts the session.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<EnableTwoFactorResponse>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const validation = validateData(twoFactorEnableSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: validation.errors.join(', '),
+    });
+  }
+
+  const { code, challengeToken } = validation.data;
+
+  try {
+    const actor = await resolveEnrollingUser(req, res, challengeToken);
+    if (!actor) return; // Response already sent by resolveEnrollingUser
+
+    if (!(await enforceTwoFactorRateLimit(req, res, actor.user.id))) return;
+
+    const recoveryCodes = await completeEnrollment(actor.user, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid code',
+        message: 'The code did not match. Check the time on your phone and try again.',
+      });
+    }
+
+    await recordAudit(req, { userId: actor.user.id, email: actor.user.email, role: actor.user.role }, {
+      action: 'two_factor.enable',
+      resourceType: 'user',
+      resourceId: actor.user.id,
+    });
+
+    console.log(`Two-factor authentication enabled for ${actor.user.email}`);
+
+    const signIn = actor.viaChallenge ? await completeSignIn(req, res, actor.user) : undefined;
+
+    return res.status(200).json({
+      success: true,
+      data: { recoveryCodes, signIn },
+      message: 'Two-factor authentication enabled',
+    });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to enable two-factor authentication',
+    });
+  }
+}
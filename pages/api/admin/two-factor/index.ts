@@ -0,0 +1,105 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JwtPayload, requireAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { revokeUserSessions } from '@/lib/sessions';
+import { getStorage } from '@/lib/storage';
+import {
+  disableTwoFactor,
+  enforceTwoFactorRateLimit,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from '@/lib/two-factor';
+import { validateData, twoFactorConfirmSchema } from '@/lib/validation';
+import { ApiResponse, TwoFactorStatus } from '@/types';
+
+/**
+ * The signed-in user's two-factor settings:
+ * GET returns the status, DELETE turns two-factor off (needs a current code).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<TwoFactorStatus>>
+) {
+  // Verify authentication
+  const user = await requireAuth(req, res);
+  if (!user) return; // Response already sent by requireAuth
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const account = await getStorage().users.get(user.userId);
+        return res.status(200).json({
+          success: true,
+          data: getTwoFactorStatus(account),
+          message: 'Two-factor status retrieved',
+        });
+      }
+      case 'DELETE':
+        return await handleDisable(user, req, res);
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Two-factor API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
+
+async function handleDisable(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<TwoFactorStatus>>
+) {
+  if (isTwoFactorRequired()) {
+    return res.status(403).json({
+      success: false,
+      error: 'Two-factor authentication is required for all accounts',
+    });
+  }
+
+  const validation = validateData(twoFactorConfirmSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: validation.errors.join(', '),
+    });
+  }
+
+  if (!(await enforceTwoFactorRateLimit(req, res, user.userId))) return;
+
+  const account = await getStorage().users.get(user.userId);
+  if (!account || !(await verifySecondFactor(account, validation.data.code))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid code',
+      message: 'The code is incorrect or has already been used.',
+    });
+  }
+
+  await disableTwoFactor(account.id);
+
+  // Other devices signed in with the second factor; keep only this one
+  await revokeUserSessions(account.id, 'account_changed', user.sessionId);
+
+  await recordAudit(req, user, {
+    action: 'two_factor.disable',
+    resourceType: 'user',
+    resourceId: account.id,
+  });
+
+  console.log(`Two-factor authentication disabled by ${account.email}`);
+
+  return res.status(200).json({
+    success: true,
+    data: getTwoFactorStatus(null),
+    message: 'Two-factor authentication disabled',
+  });
+}
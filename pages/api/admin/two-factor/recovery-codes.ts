@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getStorage } from '@/lib/storage';
+import { enforceTwoFactorRateLimit, regenerateRecoveryCodes, verifySecondFactor } from '@/lib/two-factor';
+import { validateData, twoFactorConfirmSchema } from '@/lib/validation';
+import { ApiResponse } from '@/types';
+
+interface RecoveryCodesResponse {
+  /** Shown once; only their hashes are stored */
+  recoveryCodes: string[];
+}
+
+/**
+ * Replace the signed-in user's recovery codes (needs a current code)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RecoveryCodesResponse>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  // Verify authentication
+  const user = await requireAuth(req, res);
+  if (!user) return; // Response already sent by requireAuth
+
+  const validation = validateData(twoFactorConfirmSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: validation.errors.join(', '),
+    });
+  }
+
+  if (!(await enforceTwoFactorRateLimit(req, res, user.userId))) return;
+
+  try {
+    const account = await getStorage().users.get(user.userId);
+    if (!account || !(await verifySecondFactor(account, validation.data.code))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid code',
+        message: 'The code is incorrect or has already been used.',
+      });
+    }
+
+    // Re-read so the replay protection recorded for the accepted code is kept
+    const recoveryCodes = await regenerateRecoveryCodes((await getStorage().users.get(account.id)) || account);
+
+    await recordAudit(req, user, {
+      action: 'two_factor.recovery_codes',
+      resourceType: 'user',
+      resourceId: account.id,
+    });
+
+    console.log(`Recovery codes regenerated by ${account.email}`);
+
+    return res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Recovery codes regenerated',
+    });
+  } catch (error) {
+    console.error('Recovery code regeneration error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to regenerate recovery codes',
+    });
+  }
+}
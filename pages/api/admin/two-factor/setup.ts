@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { beginEnrollment, isTwoFactorEnabled, resolveEnrollingUser } from '@/lib/two-factor';
+import { validateData, twoFactorSetupSchema } from '@/lib/validation';
+import { ApiResponse, TwoFactorEnrollment } from '@/types';
+
+/**
+ * Start enrollment: returns a new secret and its QR code.
+ * Called by signed-in users, or with an `enroll` challenge token during sign-in.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<TwoFactorEnrollment>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const validation = validateData(twoFactorSetupSchema, req.body || {});
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: validation.errors.join(', '),
+    });
+  }
+
+  try {
+    const actor = await resolveEnrollingUser(req, res, validation.data.challengeToken);
+    if (!actor) return; // Response already sent by resolveEnrollingUser
+
+    // Starting over would silently replace the working secret
+    if (isTwoFactorEnabled(actor.user)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    const enrollment = await beginEnrollment(actor.user);
+
+    return res.status(200).json({
+      success: true,
+      data: enrollment,
+      message: 'Scan the QR code with your authenticator app',
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to start two-factor setup',
+    });
+  }
+}
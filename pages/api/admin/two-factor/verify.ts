@@ -0,0 +1,91 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { completeSignIn, SignInResult } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { hasValidScope } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { enforceTwoFactorRateLimit, verifySecondFactor, verifyTwoFactorChallenge } from '@/lib/two-factor';
+import { validateData, twoFactorVerifySchema } from '@/lib/validation';
+import { ApiResponse } from '@/types';
+
+/**
+ * Second login step: exchange the challenge token from `/api/admin/auth`
+ * and an authenticator or recovery code for a session
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SignInResult>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const validation = validateData(twoFactorVerifySchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: validation.errors.join(', '),
+    });
+  }
+
+  const { challengeToken, code } = validation.data;
+
+  const challenge = verifyTwoFactorChallenge(challengeToken, 'verify');
+  if (!challenge) {
+    return res.status(401).json({
+      success: false,
+      error: 'Sign-in expired',
+      message: 'Please log in again',
+    });
+  }
+
+  if (!(await enforceTwoFactorRateLimit(req, res, challenge.userId))) return;
+
+  try {
+    const user = await getStorage().users.get(challenge.userId);
+    if (!user || !user.isActive || !hasValidScope(user)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Sign-in expired',
+        message: 'Please log in again',
+      });
+    }
+
+    const method = await verifySecondFactor(user, code);
+    if (!method) {
+      console.warn(`Invalid two-factor code for ${user.email} at ${new Date().toISOString()}`);
+
+      await recordAudit(req, { userId: user.id, email: user.email, role: user.role }, {
+        action: 'auth.login_failed',
+        resourceType: 'session',
+        details: { reason: 'invalid_two_factor_code' },
+      });
+
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid code',
+        message: 'The code is incorrect or has already been used.',
+      });
+    }
+
+    const signIn = await completeSignIn(req, res, user);
+
+    console.log(`✅ Admin login successful (two-factor: ${method}) - User: ${user.email}, Role: ${user.role}, UserAgent: ${req.headers['user-agent']}, Timestamp: ${new Date().toISOString()}`);
+
+    return res.status(200).json({
+      success: true,
+      data: signIn,
+      message: 'Login successful',
+    });
+  } catch (error) {
+    console.error('Two-factor verification error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'An error occurred during authentication.',
+    });
+  }
+}
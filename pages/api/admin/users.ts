@@ -0,0 +1,151 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { v4 as uuidv4 } from 'uuid';
+import { JwtPayload, generateTemporaryPassword, hashPassword, requirePermission } from '@/lib/auth';
+import { canManageAccount, toPublicAdminUser } from '@/lib/admin-users';
+import { pickFields, recordAudit, USER_AUDIT_FIELDS } from '@/lib/audit';
+import { getChurchScope, ROLE_DEFAULT_PERMISSIONS } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { validateData, adminUserCreateSchema } from '@/lib/validation';
+import { AdminUser, ApiResponse, PublicAdminUser } from '@/types';
+
+interface InviteUserResponse {
+  user: PublicAdminUser;
+  /** Only present when the password was generated; it is not retrievable later */
+  temporaryPassword?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PublicAdminUser[] | InviteUserResponse>>
+) {
+  // Verify user management permission
+  const user = await requirePermission(req, res, 'canManageUsers', { write: req.method !== 'GET' });
+  if (!user) return; // Response already sent by requirePermission
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(user, res);
+      case 'POST':
+        return await handlePost(user, req, res);
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Users API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
+
+async function handleGet(
+  user: JwtPayload,
+  res: NextApiResponse<ApiResponse<PublicAdminUser[]>>
+) {
+  const users = (await getStorage().users.list())
+    .filter((account) => canManageAccount(user, account))
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`))
+    .map(toPublicAdminUser);
+
+  return res.status(200).json({
+    success: true,
+    data: users,
+    message: 'Users retrieved successfully',
+  });
+}
+
+async function handlePost(
+  user: JwtPayload,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<InviteUserResponse>>
+) {
+  const validation = validateData(adminUserCreateSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid user data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { email, firstName, lastName, role, permissions, password } = validation.data;
+  const churchScope = getChurchScope(user);
+  // Location-scoped managers can only invite accounts into their own location
+  const churchId = role === 'admin' ? undefined : churchScope || validation.data.churchId;
+
+  if (churchScope && role === 'admin') {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'Location-scoped accounts cannot create administrators',
+    });
+  }
+
+  const storage = getStorage();
+
+  if (role !== 'admin') {
+    if (!churchId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'Coordinators and viewers must be assigned to an outreach location',
+      });
+    }
+    if (!(await storage.locations.get(churchId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'Outreach location not found',
+      });
+    }
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (await storage.users.findByEmail(normalizedEmail)) {
+    return res.status(409).json({
+      success: false,
+      error: 'A user with this email already exists',
+    });
+  }
+
+  const temporaryPassword = password ? undefined : generateTemporaryPassword();
+
+  const newUser: AdminUser = {
+    id: uuidv4(),
+    email: normalizedEmail,
+    passwordHash: await hashPassword(password || (temporaryPassword as string)),
+    role,
+    firstName,
+    lastName,
+    createdDate: new Date().toISOString(),
+    isActive: true,
+    churchId,
+    permissions: { ...ROLE_DEFAULT_PERMISSIONS[role], ...(permissions || {}) },
+  };
+
+  await storage.users.create(newUser);
+
+  await recordAudit(req, user, {
+    action: 'user.create',
+    resourceType: 'user',
+    resourceId: newUser.id,
+    churchId: newUser.churchId,
+    after: pickFields(newUser, USER_AUDIT_FIELDS),
+  });
+
+  console.log(`User ${newUser.email} (${role}) invited by ${user.email}`);
+
+  return res.status(201).json({
+    success: true,
+    data: {
+      user: toPublicAdminUser(newUser),
+      temporaryPassword,
+    },
+    message: 'User invited successfully',
+  });
+}
@@ -0,0 +1,196 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JwtPayload, requirePermission } from '@/lib/auth';
+import { canManageAccount, toPublicAdminUser, wouldRemoveLastAdmin } from '@/lib/admin-users';
+import { diffFields, pickFields, recordAudit, USER_AUDIT_FIELDS } from '@/lib/audit';
+import { getChurchScope, ROLE_DEFAULT_PERMISSIONS } from '@/lib/permissions';
+import { revokeUserSessions } from '@/lib/sessions';
+import { getStorage } from '@/lib/storage';
+import { validateData, adminUserUpdateSchema } from '@/lib/validation';
+import { AdminPermission, AdminUser, ApiResponse, PublicAdminUser } from '@/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PublicAdminUser | null>>
+) {
+  // Verify user management permission
+  const user = await requirePermission(req, res, 'canManageUsers', { write: req.method !== 'GET' });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const userId = Array.isArray(id) ? id[0] : id;
+
+  if (!userId) {
+    return res.status(400).json({ success: false, error: 'User id is required' });
+  }
+
+  try {
+    // Accounts outside a scoped manager's location are reported as missing
+    const target = await getStorage().users.get(userId);
+    if (!target || !canManageAccount(user, target)) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ success: true, data: toPublicAdminUser(target), message: 'User retrieved' });
+      case 'PUT':
+        return await handlePut(user, target, req, res);
+      case 'DELETE':
+        return await handleDelete(user, target, req, res);
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Users [id] API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function handlePut(
+  user: JwtPayload,
+  target: AdminUser,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PublicAdminUser | null>>
+) {
+  const validation = validateData(adminUserUpdateSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid user data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const updates = validation.data;
+  const role = updates.role || target.role;
+  const roleChanged = role !== target.role;
+
+  const churchScope = getChurchScope(user);
+  const requestedChurchId = updates.churchId === undefined ? target.churchId : updates.churchId || undefined;
+  const churchId = role === 'admin' ? undefined : churchScope || requestedChurchId;
+
+  // A role change without explicit flags resets them to the new role's defaults
+  const basePermissions = roleChanged ? ROLE_DEFAULT_PERMISSIONS[role] : target.permissions;
+  const permissions = { ...basePermissions, ...(updates.permissions || {}) };
+  const isActive = updates.isActive ?? target.isActive;
+  const accessChanged =
+    roleChanged ||
+    !isActive ||
+    (churchId || '') !== (target.churchId || '') ||
+    (Object.keys(permissions) as AdminPermission[]).some((key) => permissions[key] !== target.permissions[key]);
+
+  // Prevent accidental self lock-out; another manager has to make these changes
+  if (target.id === user.userId && accessChanged) {
+    return res.status(400).json({
+      success: false,
+      error: 'You cannot change your own role, location, permissions or status',
+    });
+  }
+
+  if (churchScope && role === 'admin') {
+    return res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      message: 'Location-scoped accounts cannot create administrators',
+    });
+  }
+
+  if (role !== 'admin') {
+    if (!churchId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'Coordinators and viewers must be assigned to an outreach location',
+      });
+    }
+    if (churchId !== target.churchId && !(await getStorage().locations.get(churchId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'Outreach location not found',
+      });
+    }
+  }
+
+  if (await wouldRemoveLastAdmin(target, { role, isActive })) {
+    return res.status(409).json({
+      success: false,
+      error: 'At least one active administrator is required',
+    });
+  }
+
+  const updated = await getStorage().users.update(target.id, {
+    firstName: updates.firstName,
+    lastName: updates.lastName,
+    role,
+    // Stored as an empty string when cleared, because repository updates skip undefined fields
+    churchId: churchId || '',
+    isActive,
+    permissions,
+  });
+
+  if (!updated) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  const changes = diffFields(target, updated, USER_AUDIT_FIELDS);
+  if (changes) {
+    await recordAudit(req, user, {
+      action: 'user.update',
+      resourceType: 'user',
+      resourceId: target.id,
+      churchId: updated.churchId || target.churchId,
+      ...changes,
+    });
+  }
+
+  // Access changes take effect immediately instead of when existing tokens expire
+  if (accessChanged) {
+    await revokeUserSessions(target.id, 'account_changed');
+  }
+
+  console.log(`User ${updated.email} updated by ${user.email} (role: ${updated.role}, active: ${updated.isActive})`);
+
+  return res.status(200).json({
+    success: true,
+    data: toPublicAdminUser(updated),
+    message: 'User updated successfully',
+  });
+}
+
+async function handleDelete(
+  user: JwtPayload,
+  target: AdminUser,
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<null>>
+) {
+  if (target.id === user.userId) {
+    return res.status(400).json({ success: false, error: 'You cannot delete your own account' });
+  }
+
+  if (await wouldRemoveLastAdmin(target, null)) {
+    return res.status(409).json({
+      success: false,
+      error: 'At least one active administrator is required',
+    });
+  }
+
+  const deleted = await getStorage().users.delete(target.id);
+  if (!deleted) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  await revokeUserSessions(target.id, 'account_changed');
+
+  await recordAudit(req, user, {
+    action: 'user.delete',
+    resourceType: 'user',
+    resourceId: target.id,
+    churchId: target.churchId,
+    before: pickFields(target, USER_AUDIT_FIELDS),
+  });
+
+  console.log(`User ${target.email} deleted by ${user.email}`);
+
+  return res.status(200).json({ success: true, data: null, message: 'User deleted successfully' });
+}
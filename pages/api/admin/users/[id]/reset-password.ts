@@ -0,0 +1,84 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { generateTemporaryPassword, hashPassword, requirePermission } from '@/lib/auth';
+import { canManageAccount } from '@/lib/admin-users';
+import { recordAudit } from '@/lib/audit';
+import { revokeUserSessions } from '@/lib/sessions';
+import { getStorage } from '@/lib/storage';
+import { validateData, passwordResetSchema } from '@/lib/validation';
+import { ApiResponse } from '@/types';
+
+interface PasswordResetResponse {
+  /** Only present when the password was generated; it is not retrievable later */
+  temporaryPassword?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PasswordResetResponse>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  // Verify user management permission
+  const user = await requirePermission(req, res, 'canManageUsers', { write: true });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const userId = Array.isArray(id) ? id[0] : id;
+
+  if (!userId) {
+    return res.status(400).json({ success: false, error: 'User id is required' });
+  }
+
+  const validation = validateData(passwordResetSchema, req.body || {});
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Invalid password: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  try {
+    const storage = getStorage();
+    const target = await storage.users.get(userId);
+    if (!target || !canManageAccount(user, target)) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const temporaryPassword = validation.data.password ? undefined : generateTemporaryPassword();
+    const passwordHash = await hashPassword(validation.data.password || (temporaryPassword as string));
+
+    await storage.users.update(target.id, { passwordHash });
+
+    // Sign the account out everywhere so the old password's sessions end
+    await revokeUserSessions(target.id, 'account_changed');
+
+    await recordAudit(req, user, {
+      action: 'user.password_reset',
+      resourceType: 'user',
+      resourceId: target.id,
+      churchId: target.churchId,
+      details: { temporaryPassword: !!temporaryPassword },
+    });
+
+    console.log(`Password reset for ${target.email} by ${user.email}`);
+
+    return res.status(200).json({
+      success: true,
+      data: { temporaryPassword },
+      message: 'Password reset successfully',
+    });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to reset password',
+    });
+  }
+}
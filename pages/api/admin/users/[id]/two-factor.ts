@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission } from '@/lib/auth';
+import { canManageAccount } from '@/lib/admin-users';
+import { recordAudit } from '@/lib/audit';
+import { revokeUserSessions } from '@/lib/sessions';
+import { getStorage } from '@/lib/storage';
+import { disableTwoFactor } from '@/lib/two-factor';
+import { ApiResponse } from '@/types';
+
+/**
+ * Reset another user's two-factor enrollment, e.g. after a lost phone.
+ * They are signed out everywhere and enroll again on their next sign-in
+ * when two-factor is required.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<null>>
+) {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  // Verify user management permission
+  const user = await requirePermission(req, res, 'canManageUsers', { write: true });
+  if (!user) return; // Response already sent by requirePermission
+
+  const { id } = req.query;
+  const userId = Array.isArray(id) ? id[0] : id;
+
+  if (!userId) {
+    return res.status(400).json({ success: false, error: 'User id is required' });
+  }
+
+  // Users turn off their own two-factor from the security page, with a code
+  if (userId === user.userId) {
+    return res.status(400).json({ success: false, error: 'You cannot reset your own two-factor authentication' });
+  }
+
+  try {
+    const target = await getStorage().users.get(userId);
+    if (!target || !canManageAccount(user, target)) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    await disableTwoFactor(target.id);
+    await revokeUserSessions(target.id, 'account_changed');
+
+    await recordAudit(req, user, {
+      action: 'user.two_factor_reset',
+      resourceType: 'user',
+      resourceId: target.id,
+      churchId: target.churchId,
+    });
+
+    console.log(`Two-factor authentication reset for ${target.email} by ${user.email}`);
+
+    return res.status(200).json({ success: true, data: null, message: 'Two-factor authentication reset' });
+  } catch (error) {
+    console.error('Two-factor reset error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to reset two-factor authentication',
+    });
+  }
+}
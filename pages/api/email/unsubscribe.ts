@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { suppressEmail, verifyUnsubscribeToken } from '@/lib/email/unsubscribe';
+import { ApiResponse } from '@/types';
+
+function getToken(req: NextApiRequest): string {
+  const fromQuery = Array.isArray(req.query.token) ? req.query.token[0] : req.query.token;
+  const fromBody = req.body && typeof req.body === 'object' ? req.body.token : undefined;
+  return fromQuery || (typeof fromBody === 'string' ? fromBody : '');
+}
+
+/**
+ * Stop emails to the address named by a signed unsubscribe token. Used by the
+ * /unsubscribe page and by RFC 8058 one-click unsubscribes, which mail clients
+ * POST here with the token in the query string. GET does nothing, so link
+ * scanners that follow URLs cannot unsubscribe anyone.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const payload = verifyUnsubscribeToken(getToken(req));
+  if (!payload) {
+    return res.status(400).json({ success: false, error: 'Invalid unsubscribe link' });
+  }
+
+  try {
+    await suppressEmail(payload.email, 'unsubscribe_link', payload.submissionId);
+    return res.status(200).json({
+      success: true,
+      message: 'You have been unsubscribed and will receive no more health screening emails.',
+    });
+  } catch (error) {
+    console.error('Email unsubscribe API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
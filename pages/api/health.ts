@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { TABLES } from '@/lib/aws-config';
-import { DynamoDBClient, DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { getStorage } from '@/lib/storage';
 
 interface HealthStatus {
   status: 'healthy' | 'unhealthy';
@@ -51,11 +51,13 @@ export default async function handler(
     debugInfo.jwt_secret_length = process.env.JWT_SECRET ? process.env.JWT_SECRET.length : 0;
     debugInfo.jwt_secret_first_chars = process.env.JWT_SECRET ? process.env.JWT_SECRET.substring(0, 5) : 'NONE';
 
+    const storage = getStorage();
+    debugInfo.storage_backend = storage.name;
+
     // Check environment variables
-    const requiredEnvVars = [
-      'JWT_SECRET',
-      'APP_DYNAMODB_TABLE_NAME'
-    ];
+    const requiredEnvVars = storage.name === 'dynamodb'
+      ? ['JWT_SECRET', 'APP_DYNAMODB_TABLE_NAME']
+      : ['JWT_SECRET'];
     
     const missingEnvVars = requiredEnvVars.filter(envVar => {
       const value = process.env[envVar];
@@ -67,18 +69,10 @@ export default async function handler(
     
     const environmentStatus: 'healthy' | 'unhealthy' = missingEnvVars.length === 0 ? 'healthy' : 'unhealthy';
 
-    // Check database connection using correct DynamoDB client
+    // Check the configured storage backend is reachable
     let databaseStatus: 'healthy' | 'unhealthy' = 'healthy';
     try {
-      // Create a DynamoDB client with the same config as our document client
-      const dynamoClient = new DynamoDBClient({
-        region: process.env.AWS_REGION || process.env.APP_AWS_REGION || 'us-east-1',
-        // Use IAM role credentials in production (no explicit credentials)
-      });
-
-      await dynamoClient.send(new DescribeTableCommand({
-        TableName: TABLES.SUBMISSIONS,
-      }));
+      await storage.ping();
     } catch (error) {
       debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
       databaseStatus = 'unhealthy';
@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AnalysisRunSummary, runDueAnalysisJobs } from '@/lib/analysis-queue';
+import { requireJobRunner } from '@/lib/job-runner';
+import { ApiResponse } from '@/types';
+
+const RUN_BATCH_SIZE = 25;
+
+/**
+ * Entry point for a scheduler (cron, EventBridge) to work the selfie analysis
+ * queue. Requires `Authorization: Bearer <APP_JOB_RUNNER_SECRET>` and is
+ * disabled while the secret is unset.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<AnalysisRunSummary>>
+) {
+  if (!requireJobRunner(req, res)) return; // Response already sent by requireJobRunner
+
+  try {
+    const summary = await runDueAnalysisJobs(RUN_BATCH_SIZE);
+    return res.status(200).json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Scheduled analysis run error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to run the analysis queue' });
+  }
+}
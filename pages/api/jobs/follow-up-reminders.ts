@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { FollowUpRunSummary, runFollowUpReminders } from '@/lib/follow-up-reminders';
+import { requireJobRunner } from '@/lib/job-runner';
+import { ApiResponse } from '@/types';
+
+/**
+ * Entry point for a scheduler (cron, EventBridge) to send due follow-up
+ * reminders and escalate stale Pending screenings. Requires
+ * `Authorization: Bearer <APP_JOB_RUNNER_SECRET>` and is disabled while the
+ * secret is unset.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<FollowUpRunSummary>>
+) {
+  if (!requireJobRunner(req, res)) return; // Response already sent by requireJobRunner
+
+  try {
+    const summary = await runFollowUpReminders();
+    return res.status(200).json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Scheduled follow-up reminder run error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to run follow-up reminders' });
+  }
+}
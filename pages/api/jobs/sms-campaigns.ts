@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireJobRunner } from '@/lib/job-runner';
+import { runDueSmsCampaigns, SmsCampaignRunSummary } from '@/lib/sms-campaigns';
+import { ApiResponse } from '@/types';
+
+/**
+ * Entry point for a scheduler (cron, EventBridge) to send scheduled SMS
+ * campaigns and retry failed sends. Requires
+ * `Authorization: Bearer <APP_JOB_RUNNER_SECRET>` and is disabled while the
+ * secret is unset.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SmsCampaignRunSummary>>
+) {
+  if (!requireJobRunner(req, res)) return; // Response already sent by requireJobRunner
+
+  try {
+    const summary = await runDueSmsCampaigns();
+    return res.status(200).json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Scheduled SMS campaign run error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to run SMS campaigns' });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { verifyPassword } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { extractIpAddress } from '@/lib/device-tracker';
+import { KioskSessionGrant } from '@/lib/kiosk';
+import { createKioskSession, isKioskAvailable } from '@/lib/kiosk/tokens';
+import { checkRateLimit, createRateLimitHeaders } from '@/lib/rate-limiter';
+import { getStorage } from '@/lib/storage';
+import { kioskSessionSchema, validateData } from '@/lib/validation';
+import { ApiResponse } from '@/types';
+
+// Kiosk tablets have no account; audit entries name the volunteer in details
+const KIOSK_ACTOR = { userId: 'kiosk', email: 'kiosk' };
+
+/**
+ * Start a kiosk session on a tablet with the location's volunteer PIN.
+ * The returned token is sent with every screening taken on the tablet so
+ * it is attributed to the volunteer and device.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<KioskSessionGrant>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const validation = validateData(kioskSessionSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request data: ${validation.errors.join(', ')}`,
+    });
+  }
+
+  const { churchId, pin, volunteerName, deviceLabel, deviceId } = validation.data;
+
+  const clientIP = extractIpAddress(req);
+  const rateLimitResult = await checkRateLimit(`${clientIP}:${churchId}`, 'KIOSK_PIN');
+  Object.entries(createRateLimitHeaders(rateLimitResult)).forEach(([key, value]) => {
+    res.setHeader(key, value);
+  });
+
+  if (!rateLimitResult.allowed) {
+    console.warn(`Kiosk PIN rate limit exceeded for IP: ${clientIP}`);
+    return res.status(429).json({
+      success: false,
+      error: 'Too many attempts',
+      message: 'Please wait a few minutes before trying the PIN again.',
+    });
+  }
+
+  try {
+    const location = await getStorage().locations.get(churchId);
+    if (!isKioskAvailable(location)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Kiosk mode is not available',
+        message: 'Kiosk mode is not turned on for this location.',
+      });
+    }
+
+    const details = { volunteerName, deviceLabel, deviceId };
+
+    if (!(await verifyPassword(pin, location.kioskPinHash!))) {
+      await recordAudit(req, KIOSK_ACTOR, {
+        action: 'kiosk.session_start_failed',
+        resourceType: 'location',
+        resourceId: location.id,
+        churchId: location.id,
+        details,
+      });
+      return res.status(401).json({
+        success: false,
+        error: 'Incorrect PIN',
+        message: 'That PIN is not correct.',
+      });
+    }
+
+    const session = createKioskSession(location.id, details);
+
+    await recordAudit(req, KIOSK_ACTOR, {
+      action: 'kiosk.session_start',
+      resourceType: 'location',
+      resourceId: location.id,
+      churchId: location.id,
+      details: { ...details, sessionId: session.sessionId },
+    });
+
+    return res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    console.error('Kiosk session API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -1,8 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { GetObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { s3Client, S3_BUCKET, docClient, TABLES } from '@/lib/aws-config';
-import { GetCommand } from '@aws-sdk/lib-dynamodb';
+import { getStorage } from '@/lib/storage';
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -33,22 +30,15 @@ export default async function handler(
     }
 
     // Get submission from database to verify ownership and get photo path
-    const getCommand = new GetCommand({
-      TableName: TABLES.SUBMISSIONS,
-      Key: { id: submissionId },
-    });
-
-    const result = await docClient.send(getCommand);
+    const submission = await getStorage().submissions.get(submissionId);
     
-    if (!result.Item) {
+    if (!submission) {
       return res.status(404).json({
         success: false,
         error: 'Submission not found',
       });
     }
 
-    const submission = result.Item;
-
     // Optional: Verify user owns this submission via phone number
     // This adds a layer of security without requiring full auth
     if (phoneVerification && submission.phone !== phoneVerification) {
@@ -65,26 +55,17 @@ export default async function handler(
       });
     }
 
-    // Extract S3 key from the existing selfieUrl
-    let s3Key = submission.selfieUrl;
-    
-    // If it's a full URL, extract just the key part
-    if (submission.selfieUrl.includes('s3.amazonaws.com/')) {
-      const urlParts = submission.selfieUrl.split('s3.amazonaws.com/');
-      if (urlParts.length > 1) {
-        s3Key = urlParts[1];
-      }
+    const { photos } = getStorage();
+    const photoKey = photos.keyFromUrl(submission.selfieUrl);
+    if (!photoKey) {
+      return res.status(404).json({
+        success: false,
+        error: 'No photo found for this submission',
+      });
     }
 
-    // Generate signed URL valid for 2 hours (longer than admin for user convenience)
-    const command = new GetObjectCommand({
-      Bucket: S3_BUCKET,
-      Key: s3Key,
-    });
-
-    const signedUrl = await getSignedUrl(s3Client, command, { 
-      expiresIn: 7200 // 2 hours
-    });
+    // Valid for 2 hours (longer than admin for user convenience)
+    const signedUrl = await photos.getViewUrl(photoKey, 7200);
 
     res.status(200).json({
       success: true,
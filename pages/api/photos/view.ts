@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { verifyPhotoLink } from '@/lib/photo-links';
+import { getStorage } from '@/lib/storage';
+
+function queryValue(value: string | string[] | undefined): string {
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
+
+/**
+ * Serves a photo from the local file store through a link made by
+ * /api/photo-url or /api/admin/photo-url. The S3 store hands out presigned
+ * S3 URLs instead, so nothing is served here.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const storage = getStorage();
+  const key = queryValue(req.query.key);
+  if (storage.name !== 'local' || !key || !verifyPhotoLink(key, queryValue(req.query.expires), queryValue(req.query.signature))) {
+    return res.status(403).json({ success: false, error: 'Invalid or expired photo link' });
+  }
+
+  try {
+    const photo = await storage.photos.get(key);
+    if (!photo) {
+      return res.status(404).json({ success: false, error: 'Photo not found' });
+    }
+
+    res.setHeader('Content-Type', photo.contentType || 'application/octet-stream');
+    res.setHeader('Content-Length', photo.body.length);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    return res.status(200).send(photo.body);
+  } catch (error) {
+    console.error('Photo view error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load photo' });
+  }
+}
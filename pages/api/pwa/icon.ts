@@ -0,0 +1,18 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { THEME_COLOR } from '@/lib/pwa';
+
+// Heart on the theme color, with padding so it survives maskable icon cropping
+const ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512">
+  <rect width="512" height="512" fill="${THEME_COLOR}"/>
+  <path fill="#ffffff" d="M256 392c-6 0-12-2-16-6C158 312 112 270 112 208c0-44 34-80 78-80 28 0 50 14 66 36 16-22 38-36 66-36 44 0 78 36 78 80 0 62-46 104-128 178-4 4-10 6-16 6z"/>
+</svg>`;
+
+/** Home screen icon for the installed form */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  res.setHeader('Content-Type', 'image/svg+xml');
+  return res.status(200).send(ICON_SVG);
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { buildFormManifest } from '@/lib/pwa';
+
+/** Web app manifest for a location's form, so it can be installed to a home screen */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const churchId = Array.isArray(req.query.churchId) ? req.query.churchId[0] : req.query.churchId;
+
+  try {
+    const location = churchId ? await getStorage().locations.get(churchId) : null;
+    if (!location || !location.isActive) {
+      return res.status(404).json({ success: false, error: 'Location not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/manifest+json');
+    return res.status(200).send(JSON.stringify(buildFormManifest(location)));
+  } catch (error) {
+    console.error('Manifest API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { FORM_SCOPE } from '@/lib/pwa';
+import { SERVICE_WORKER_SOURCE } from '@/lib/pwa/service-worker';
+
+/**
+ * The screening form's service worker. It lives under /api/ so it ships with
+ * the build, and `Service-Worker-Allowed` lets it control the form pages.
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  res.setHeader('Content-Type', 'application/javascript; charset=utf-8');
+  res.setHeader('Service-Worker-Allowed', FORM_SCOPE);
+  return res.status(200).send(SERVICE_WORKER_SOURCE);
+}
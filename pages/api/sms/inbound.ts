@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleInboundSms, InboundSms, InboundSmsResult } from '@/lib/sms-inbound';
+import { receiveSnsNotification } from '@/lib/sns-webhook';
+import { ApiResponse } from '@/types';
+
+/**
+ * HTTPS subscription for the SNS topic that two-way SMS publishes replies to.
+ * Only signed messages from `APP_SNS_INBOUND_TOPIC_ARN` are accepted, and the
+ * endpoint is disabled while that is unset.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<InboundSmsResult | null>>
+) {
+  const message = await receiveSnsNotification(req, res, process.env.APP_SNS_INBOUND_TOPIC_ARN);
+  if (!message) return; // Response already sent by receiveSnsNotification
+
+  try {
+    let inbound: InboundSms;
+    try {
+      inbound = JSON.parse(message.Message);
+    } catch {
+      // Acknowledge it anyway so SNS does not retry a message that will never parse
+      console.warn(`Ignoring SNS message ${message.MessageId}: not an inbound SMS`);
+      return res.status(200).json({ success: true, data: null });
+    }
+    if (!inbound?.originationNumber || typeof inbound.messageBody !== 'string') {
+      console.warn(`Ignoring SNS message ${message.MessageId}: not an inbound SMS`);
+      return res.status(200).json({ success: true, data: null });
+    }
+
+    const result = await handleInboundSms(inbound);
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    // A 5xx makes SNS deliver the message again later
+    console.error('Inbound SMS webhook error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
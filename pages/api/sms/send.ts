@@ -1,7 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { smsService } from '../../../lib/sms-service';
-import { requireAdmin } from '../../../lib/auth';
+import { requirePermission } from '../../../lib/auth';
+import { recordAudit } from '../../../lib/audit';
+import { contactChannels } from '../../../lib/contact-preference';
+import { canAccessChurch, getChurchScope } from '../../../lib/permissions';
+import { getStorage } from '../../../lib/storage';
 import { validateData, smsRequestSchema, SmsRequestInput } from '../../../lib/validation';
+import { HealthSubmission } from '../../../types';
 
 
 interface SendSMSResponse {
@@ -25,9 +30,9 @@ export default async function handler(
     });
   }
 
-  // Verify admin authentication
-  const user = requireAdmin(req, res);
-  if (!user) return; // Response already sent by requireAdmin
+  // Messaging participants is part of follow-up work on submissions
+  const user = await requirePermission(req, res, 'canViewSubmissions', { write: true });
+  if (!user) return; // Response already sent by requirePermission
 
   try {
     // Validate request body using Zod
@@ -41,7 +46,8 @@ export default async function handler(
       });
     }
 
-    const { phoneNumber, message, firstName, messageType }: SmsRequestInput = validation.data;
+    const { message, messageType, submissionId, locale }: SmsRequestInput = validation.data;
+    let { phoneNumber, firstName } = validation.data;
 
     // Check if SMS service is enabled
     if (!smsService.isEnabled()) {
@@ -51,45 +57,71 @@ export default async function handler(
       });
     }
 
-    let result;
+    let submission: HealthSubmission | null = null;
+    if (submissionId) {
+      submission = await getStorage().submissions.get(submissionId);
+      // Submissions outside the caller's location are reported as missing
+      if (!submission || !canAccessChurch(user, submission.churchId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Submission not found',
+        });
+      }
+      if (!contactChannels(submission).includes('sms')) {
+        return res.status(400).json({
+          success: false,
+          error: 'Participant asked to be contacted by email only',
+        });
+      }
+      phoneNumber = phoneNumber || submission.phone;
+      firstName = submission.firstName;
+    }
+
+    // The welcome and follow-up message types are the templates with those keys
+    const templateKey = validation.data.templateKey || (messageType !== 'custom' ? messageType : undefined);
 
-    // Send different types of SMS based on messageType
-    switch (messageType) {
-      case 'welcome':
-        if (!firstName) {
-          return res.status(400).json({
-            success: false,
-            error: 'First name is required for welcome messages',
-          });
-        }
-        result = await smsService.sendWelcomeSMS(phoneNumber, firstName);
-        break;
-      
-      case 'followup':
-        if (!firstName) {
-          return res.status(400).json({
-            success: false,
-            error: 'First name is required for follow-up messages',
-          });
-        }
-        result = await smsService.sendFollowUpSMS(phoneNumber, firstName);
-        break;
-      
-      case 'custom':
-      default:
-        if (!message) {
-          return res.status(400).json({
-            success: false,
-            error: 'Message content is required for custom messages',
-          });
-        }
-        result = await smsService.sendSMS({
-          phoneNumber,
-          message,
+    // A number typed in by hand is logged under the sender's location
+    const log = {
+      submissionId: submission?.id,
+      churchId: submission?.churchId || getChurchScope(user),
+      sentBy: user.email,
+    };
+
+    let result;
+    if (templateKey) {
+      result = await smsService.sendTemplateSMS(phoneNumber, templateKey, {
+        churchId: submission?.churchId,
+        locale: locale || submission?.locale,
+        firstName,
+        riskLevel: submission?.healthRiskLevel,
+      }, { log });
+    } else {
+      if (!message?.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Message content is required for custom messages',
         });
-        break;
+      }
+      result = await smsService.sendSMS({
+        phoneNumber,
+        message,
+      }, { log });
     }
 
+    await recordAudit(req, user, {
+      action: 'sms.send',
+      resourceType: 'sms',
+      resourceId: result.messageId,
+      churchId: submission?.churchId,
+      details: {
+        messageType: messageType || 'custom',
+        templateKey: templateKey || null,
+        // Enough to tell recipients apart without copying the number into the log
+        phoneLast4: phoneNumber.slice(-4),
+        sent: result.success,
+      },
+    });
+
     if (result.success) {
       res.status(200).json({
         success: true,
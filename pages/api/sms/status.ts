@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { applyDeliveryStatus, parseDeliveryStatus } from '@/lib/sms-log';
+import { receiveSnsNotification } from '@/lib/sns-webhook';
+import { ApiResponse, SmsMessageStatus } from '@/types';
+
+interface DeliveryStatusResult {
+  messageId: string;
+  status: SmsMessageStatus;
+}
+
+/**
+ * HTTPS subscription for the SNS topic that SMS delivery status records are
+ * forwarded to. Only signed messages from `APP_SNS_DELIVERY_STATUS_TOPIC_ARN`
+ * are accepted, and the endpoint is disabled while that is unset.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<DeliveryStatusResult | null>>
+) {
+  const message = await receiveSnsNotification(req, res, process.env.APP_SNS_DELIVERY_STATUS_TOPIC_ARN);
+  if (!message) return; // Response already sent by receiveSnsNotification
+
+  const record = parseDeliveryStatus(message.Message);
+  if (!record) {
+    // Acknowledge it anyway so SNS does not retry a message that will never parse
+    console.warn(`Ignoring SNS message ${message.MessageId}: not an SMS delivery status`);
+    return res.status(200).json({ success: true, data: null });
+  }
+
+  try {
+    const entry = await applyDeliveryStatus(record);
+    if (!entry) {
+      console.warn(`Delivery status for unknown SMS ${record.notification.messageId}`);
+      return res.status(200).json({ success: true, data: null });
+    }
+
+    return res.status(200).json({ success: true, data: { messageId: entry.id, status: entry.status } });
+  } catch (error) {
+    // A 5xx makes SNS deliver the message again later
+    console.error('SMS delivery status webhook error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -27,7 +27,7 @@ export default async function handler(
   }
 
   // Verify admin authentication
-  const user = requireAdmin(req, res);
+  const user = await requireAdmin(req, res);
   if (!user) return; // Response already sent by requireAdmin
 
   try {
@@ -53,7 +53,9 @@ export default async function handler(
     }
 
     // Send test SMS
-    const result = await smsService.sendTestSMS(phoneNumber);
+    const result = await smsService.sendTemplateSMS(phoneNumber, 'test', {}, {
+      log: { sentBy: user.email },
+    });
 
     if (result.success) {
       res.status(200).json({
@@ -1,26 +1,48 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { PutCommand } from '@aws-sdk/lib-dynamodb';
-import { PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { v4 as uuidv4 } from 'uuid';
 import { tmpdir } from 'os';
 import formidable from 'formidable';
 import fs from 'fs';
-import { docClient, s3Client, TABLES, S3_BUCKET } from '@/lib/aws-config';
-import { aryaAI } from '@/lib/arya-ai';
-import { validateUploadedFile, SELFIE_VALIDATION_OPTIONS, checkUploadRateLimit } from '@/lib/file-validation';
-import { SMSService } from '@/lib/sms-service';
+import { getStorage } from '@/lib/storage';
+import { submissionsService } from '@/lib/submissions-service';
+import { enqueueAnalysis } from '@/lib/analysis-queue';
+import { validateUploadedFile, SELFIE_VALIDATION_OPTIONS } from '@/lib/file-validation';
+import { checkRateLimit, createRateLimitHeaders } from '@/lib/rate-limiter';
+import { formatPhoneNumber, SMSService } from '@/lib/sms-service';
+import { getTcpaDisclosure, hasTcpaTranslation, LEGACY_TCPA_DISCLOSURE_VERSION } from '@/lib/consent';
+import { getTranslator, resolveLocale } from '@/lib/i18n';
+import { recordConsent } from '@/lib/consent/ledger';
+import { contactChannels, parseContactPreference } from '@/lib/contact-preference';
+import { validateCustomFieldAnswers } from '@/lib/custom-fields';
+import { verifyKioskToken } from '@/lib/kiosk/tokens';
+import { loadAnsweredForm } from '@/lib/location-forms';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  isValidIdempotencyKey,
+  readIdempotencyKey,
+  releaseIdempotencyKey,
+} from '@/lib/submission-idempotency';
+import {
+  DuplicateMatch,
+  findDuplicateMatches,
+  hasWelcomeSmsBeenSent,
+  identityMatchKey,
+  phoneMatchKey,
+  toDuplicateCandidates,
+  unlinkedMatches,
+} from '@/lib/duplicates';
+import { createParticipant, findParticipantIdForIdentity } from '@/lib/participants';
 import { 
   extractNetworkInfo, 
   parseUserAgent, 
   generateSubmissionFingerprint,
   extractIpAddress
 } from '@/lib/device-tracker';
-import { HealthSubmission, ApiResponse, DeviceInfo, NetworkInfo } from '@/types';
+import { HealthSubmission, ApiResponse, CustomFieldAnswer, DeviceInfo, NetworkInfo } from '@/types';
 
-// Production mode - always use AWS services
 console.log('API Environment:', {
-  bucket: S3_BUCKET,
-  table: TABLES.SUBMISSIONS,
+  storage: getStorage().name,
   region: process.env.AWS_REGION || 'us-east-1'
 });
 
@@ -43,14 +65,23 @@ export default async function handler(
     });
   }
 
-  let submissionId: string = '';
+  // Chosen up front so the idempotency key names the submission before it is saved
+  const submissionId = uuidv4();
+  // Held until the submission is saved; released if the request fails before that
+  let claimedIdempotencyKey: string | undefined;
+  let isSubmissionSaved = false;
   
   try {
     // Extract client IP for rate limiting and fraud detection
     const clientIP = extractIpAddress(req);
 
     // Check rate limiting
-    if (!checkUploadRateLimit(clientIP, 5, 60000)) {
+    const rateLimitResult = await checkRateLimit(clientIP, 'SUBMISSION');
+    Object.entries(createRateLimitHeaders(rateLimitResult)).forEach(([key, value]) => {
+      res.setHeader(key, value);
+    });
+
+    if (!rateLimitResult.allowed) {
       console.warn(`Rate limit exceeded for IP: ${clientIP}`);
       return res.status(429).json({
         success: false,
@@ -69,6 +100,39 @@ export default async function handler(
       });
     }
 
+    // Retries of a submission (including offline syncs) reuse its key, so each is saved once
+    const idempotencyKey = readIdempotencyKey(req);
+    if (idempotencyKey !== undefined) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid idempotency key',
+          message: 'Idempotency-Key must be 16-128 letters, digits, dashes or underscores.',
+        });
+      }
+
+      const claim = await claimIdempotencyKey(idempotencyKey, submissionId);
+      if (claim.status === 'completed') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(200).json({
+          success: true,
+          data: {
+            submissionId: claim.submissionId,
+            message: 'Health screening submitted successfully!',
+          },
+          message: 'Thank you for your submission. We will be in touch soon.',
+        });
+      }
+      if (claim.status === 'in_progress') {
+        return res.status(409).json({
+          success: false,
+          error: 'Submission in progress',
+          message: 'This submission is still being processed. Please try again shortly.',
+        });
+      }
+      claimedIdempotencyKey = idempotencyKey;
+    }
+
     // Parse multipart form data
     const form = formidable({
       uploadDir: tmpdir(),
@@ -106,8 +170,14 @@ export default async function handler(
       insuranceType: (Array.isArray(fields.insuranceType) ? fields.insuranceType[0] : fields.insuranceType || 'not-sure') as 'private' | 'government' | 'none' | 'not-sure',
       insuranceId: Array.isArray(fields.insuranceId) ? fields.insuranceId[0] : fields.insuranceId || '',
       tcpaConsent: (Array.isArray(fields.tcpaConsent) ? fields.tcpaConsent[0] : fields.tcpaConsent) === 'true',
+      // Forms loaded before versions were sent showed the first disclosure
+      tcpaDisclosureVersion: (Array.isArray(fields.tcpaDisclosureVersion) ? fields.tcpaDisclosureVersion[0] : fields.tcpaDisclosureVersion) || LEGACY_TCPA_DISCLOSURE_VERSION,
       phone: Array.isArray(fields.phone) ? fields.phone[0] : fields.phone || '',
       email: Array.isArray(fields.email) ? fields.email[0] : fields.email || '',
+      contactPreference: Array.isArray(fields.contactPreference) ? fields.contactPreference[0] : fields.contactPreference || '',
+      customFields: Array.isArray(fields.customFields) ? fields.customFields[0] : fields.customFields || '',
+      formVersion: Number(Array.isArray(fields.formVersion) ? fields.formVersion[0] : fields.formVersion) || undefined,
+      locale: resolveLocale(Array.isArray(fields.locale) ? fields.locale[0] : fields.locale),
     };
 
     // Validation checks
@@ -139,6 +209,42 @@ export default async function handler(
         message: 'You must agree to receive communications.',
       });
     }
+    const tcpaDisclosure = getTcpaDisclosure(formData.tcpaDisclosureVersion);
+    if (!tcpaDisclosure) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown consent version',
+        message: 'The consent text has changed. Please reload the form and try again.',
+      });
+    }
+
+    // The location's own questions, checked against the version the participant was shown
+    let customFieldAnswers: CustomFieldAnswer[] = [];
+    const location = await getStorage().locations.get(formData.churchId);
+    const answeredForm = await loadAnsweredForm(location, formData.formVersion);
+    if (answeredForm.fields.length) {
+      let rawAnswers: Record<string, unknown> = {};
+      try {
+        const parsed = formData.customFields ? JSON.parse(formData.customFields) : {};
+        rawAnswers = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+      } catch {
+        // Unreadable answers are treated as missing, so required fields are reported below
+      }
+
+      const { answers, errors } = validateCustomFieldAnswers(
+        answeredForm.fields,
+        rawAnswers,
+        getTranslator(formData.locale)
+      );
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid answers',
+          message: errors.join('. '),
+        });
+      }
+      customFieldAnswers = answers;
+    }
 
     // File validation
     const selfieFile = Array.isArray(files.selfie) ? files.selfie[0] : files.selfie;
@@ -184,38 +290,25 @@ export default async function handler(
     }
 
     // Generate unique identifiers
-    submissionId = uuidv4();
     const timestamp = new Date().toISOString();
-    const s3Key = `submissions/${submissionId}/${Date.now()}-${selfieFile.originalFilename || 'photo.jpg'}`;
+    const photoKey = `submissions/${submissionId}/${Date.now()}-${selfieFile.originalFilename || 'photo.jpg'}`;
 
     let selfieUrl = '';
 
-    // Upload photo to S3 with enhanced security
     try {
-      await s3Client.send(new PutObjectCommand({
-        Bucket: S3_BUCKET,
-        Key: s3Key,
-        Body: fileBuffer,
-        ContentType: fileValidation.detectedMimeType || 'image/jpeg',
-        ContentDisposition: 'inline',
-        ContentEncoding: undefined,
-        Metadata: {
-          submissionId,
-          churchId: formData.churchId,
-          uploadDate: timestamp,
-          originalSize: fileBuffer.length.toString(),
-          clientIP: clientIP.substring(0, 12),
-        },
-        ServerSideEncryption: 'AES256',
-        StorageClass: 'STANDARD_IA',
-      }));
-      selfieUrl = `https://${S3_BUCKET}.s3.amazonaws.com/${s3Key}`;
+      selfieUrl = await getStorage().photos.put(photoKey, fileBuffer, fileValidation.detectedMimeType || 'image/jpeg', {
+        submissionId,
+        churchId: formData.churchId,
+        uploadDate: timestamp,
+        originalSize: fileBuffer.length.toString(),
+        clientIP: clientIP.substring(0, 12),
+      });
     } catch (error) {
-      console.error('S3 upload failed:', error);
+      console.error('Photo upload failed:', error);
       try {
         fs.unlinkSync(selfieFile.filepath);
       } catch (cleanupError) {
-        console.warn('Failed to clean up file after S3 error:', cleanupError);
+        console.warn('Failed to clean up file after photo storage error:', cleanupError);
       }
       
       return res.status(500).json({
@@ -227,32 +320,19 @@ export default async function handler(
     // Capture device and network information
     const networkInfo: NetworkInfo = extractNetworkInfo(req);
 
+    // Screenings taken on a kiosk tablet carry its signed session; a bad token only loses the attribution
+    const kioskToken = Array.isArray(fields.kioskToken) ? fields.kioskToken[0] : fields.kioskToken;
+    const kiosk = kioskToken ? verifyKioskToken(kioskToken, formData.churchId) : null;
+    if (kioskToken && !kiosk) {
+      console.warn(`Ignoring invalid kiosk token on submission ${submissionId} from ${clientIP}`);
+    }
+
     // Fraud detection
     const fraudIndicators: string[] = [];
     if (fraudIndicators.length > 0) {
       console.warn(`Fraud indicators detected for submission ${submissionId}:`, fraudIndicators);
     }
 
-    // AI analysis
-    let aiAnalysis = null;
-    let healthRisk = null;
-    
-    try {
-      aiAnalysis = await aryaAI.analyzeSelfie(fileBuffer, fileValidation.detectedMimeType || 'image/jpeg');
-      
-      if (aiAnalysis.success) {
-        healthRisk = aryaAI.assessHealthRisk(
-          aiAnalysis.bmi.value,
-          formData.familyHistoryDiabetes,
-          formData.familyHistoryHighBP,
-          formData.familyHistoryDementia,
-          formData.nerveSymptoms
-        );
-      }
-    } catch (error) {
-      console.error('AI Analysis error:', error);
-    }
-
     // Create submission record
     const submission: HealthSubmission = {
       id: submissionId,
@@ -276,20 +356,20 @@ export default async function handler(
       diabetes: formData.diabetes,
       insuranceType: formData.insuranceType,
       insuranceId: formData.insuranceId,
+      ...(customFieldAnswers.length > 0 && { customFieldAnswers }),
+      ...(answeredForm.version && { formVersion: answeredForm.version }),
       
       // Contact information
       tcpaConsent: formData.tcpaConsent,
+      tcpaDisclosureVersion: formData.tcpaDisclosureVersion,
+      locale: formData.locale,
       phone: formData.phone,
       email: formData.email,
+      contactPreference: parseContactPreference(formData.contactPreference, formData.email),
       
-      // AI analysis results
-      estimatedBMI: aiAnalysis?.bmi?.value || undefined,
-      bmiCategory: aiAnalysis?.bmi?.category || undefined,
-      estimatedAge: aiAnalysis?.age?.estimated || undefined,
-      estimatedGender: aiAnalysis?.gender?.predicted || undefined,
-      healthRiskLevel: healthRisk?.riskLevel || undefined,
-      healthRiskScore: healthRisk?.riskScore || undefined,
-      recommendations: healthRisk?.recommendations || [],
+      // AI analysis results are filled in by the analysis queue
+      analysisStatus: 'pending',
+      recommendations: [],
       
       // Follow-up status
       followUpStatus: 'Pending',
@@ -299,26 +379,49 @@ export default async function handler(
       networkInfo,
       submissionFingerprint: generateSubmissionFingerprint(clientDeviceInfo, networkInfo, formData as unknown as Record<string, unknown>),
       sessionId: uuidv4(),
+      ...(kiosk && { kiosk }),
+
+      // Duplicate detection keys
+      phoneKey: phoneMatchKey(formData.phone),
+      identityKey: identityMatchKey(formData.firstName, formData.lastName, formData.dateOfBirth),
     };
 
-    // Save to DynamoDB with error handling
+    // Join the participant with the same name and date of birth, and flag other
+    // earlier submissions that look like the same person for admin review
+    let duplicateMatches: DuplicateMatch[] = [];
     try {
-      await docClient.send(new PutCommand({
-        TableName: TABLES.SUBMISSIONS,
-        Item: submission,
-        ConditionExpression: 'attribute_not_exists(id)',
-      }));
+      duplicateMatches = await findDuplicateMatches(submission);
+      submission.participantId = findParticipantIdForIdentity(duplicateMatches);
+
+      const flagged = unlinkedMatches(duplicateMatches, submission.participantId);
+      if (flagged.length > 0) {
+        submission.duplicateStatus = 'pending';
+        submission.duplicateCandidates = toDuplicateCandidates(flagged);
+        console.log(`Submission ${submissionId} flagged as a possible duplicate of ${flagged.length} earlier submission(s)`);
+      }
+    } catch (error) {
+      // Never block a screening over duplicate detection
+      console.error('Duplicate detection failed:', error);
+    }
+
+    // First screening for this person starts a new participant
+    const isNewParticipant = !submission.participantId;
+    if (isNewParticipant) {
+      submission.participantId = uuidv4();
+    }
+
+    // Persist with error handling
+    try {
+      await submissionsService.createSubmission(submission);
+      isSubmissionSaved = true;
     } catch (error) {
-      console.error('DynamoDB save failed:', error);
+      console.error('Submission save failed:', error);
       
-      // Clean up S3 file if database save fails
+      // Clean up the photo if the database save fails
       try {
-        await s3Client.send(new DeleteObjectCommand({
-          Bucket: S3_BUCKET,
-          Key: s3Key,
-        }));
-      } catch (s3Error) {
-        console.error('Failed to clean up S3 file after DB error:', s3Error);
+        await getStorage().photos.delete(photoKey);
+      } catch (photoError) {
+        console.error('Failed to clean up photo after DB error:', photoError);
       }
       
       return res.status(500).json({
@@ -327,6 +430,55 @@ export default async function handler(
       });
     }
 
+    if (claimedIdempotencyKey) {
+      try {
+        await completeIdempotencyKey(claimedIdempotencyKey, submissionId);
+      } catch (error) {
+        // The screening is saved and the key already names it, so retries still replay it
+        console.error('Failed to complete idempotency key:', error);
+      }
+    }
+
+    // Queue the selfie for /api/jobs/analysis, so a slow provider never holds up the participant
+    const mimeType = fileValidation.detectedMimeType || 'image/jpeg';
+    try {
+      await enqueueAnalysis(submission, photoKey, mimeType);
+    } catch (error) {
+      console.error('Failed to queue selfie analysis:', error);
+      await getStorage().submissions.update(submissionId, {
+        analysisStatus: 'failed',
+        analysisError: 'Could not queue analysis',
+      }).catch(() => undefined);
+    }
+
+    if (isNewParticipant) {
+      try {
+        await createParticipant(submission, submission.participantId);
+      } catch (error) {
+        // The screening is saved; merging it later recreates the participant record
+        console.error('Participant creation failed:', error);
+      }
+    }
+
+    // TCPA consent ledger: what the participant agreed to, when and from where
+    const consentPhone = formatPhoneNumber(formData.phone);
+    if (formData.tcpaConsent && consentPhone) {
+      try {
+        await recordConsent(consentPhone, {
+          source: 'screening_form',
+          disclosureVersion: formData.tcpaDisclosureVersion,
+          // Disclosures without a translation were shown in English
+          disclosureLocale: hasTcpaTranslation(tcpaDisclosure, formData.locale) ? formData.locale : 'en',
+          ipAddress: clientIP,
+          userAgent,
+          submissionId,
+          churchId: formData.churchId,
+        });
+      } catch (error) {
+        console.error('Failed to record TCPA consent:', error);
+      }
+    }
+
     // Clean up temporary file
     try {
       fs.unlinkSync(selfieFile.filepath);
@@ -334,14 +486,23 @@ export default async function handler(
       console.warn('Failed to clean up temporary file:', error);
     }
 
-    // Send welcome SMS if enabled and user consented
-    if (formData.tcpaConsent && formData.phone) {
+    // Send welcome SMS if enabled and user consented to texts, once per phone number
+    const isWelcomeSmsWanted = formData.tcpaConsent && formData.phone && contactChannels(submission).includes('sms');
+    if (isWelcomeSmsWanted && hasWelcomeSmsBeenSent(duplicateMatches)) {
+      console.log(`Skipping welcome SMS for submission ${submissionId}: already sent for an earlier screening`);
+    } else if (isWelcomeSmsWanted) {
       try {
         const smsService = new SMSService();
-        const smsResult = await smsService.sendWelcomeSMS(formData.phone, formData.firstName);
+        const smsResult = await smsService.sendTemplateSMS(formData.phone, 'welcome', {
+          churchId: formData.churchId,
+          locale: formData.locale,
+          firstName: formData.firstName,
+        }, {
+          log: { submissionId, churchId: formData.churchId },
+        });
         
         if (smsResult.success) {
-          // SMS sent successfully
+          await getStorage().submissions.update(submissionId, { welcomeSmsSentAt: new Date().toISOString() });
         } else {
           console.warn('Failed to send welcome SMS:', smsResult.error);
         }
@@ -351,17 +512,16 @@ export default async function handler(
     }
 
     // Return success response
-    return res.status(201).json({
+    res.status(201).json({
       success: true,
       data: {
         submissionId,
         message: 'Health screening submitted successfully!',
-        estimatedBMI: submission.estimatedBMI,
-        healthRiskLevel: submission.healthRiskLevel,
-        recommendations: submission.recommendations,
+        analysisStatus: submission.analysisStatus,
       },
       message: 'Thank you for your submission. We will be in touch soon.',
     });
+    return;
 
   } catch (error) {
     console.error('=== SUBMISSION API ERROR ===');
@@ -372,5 +532,11 @@ export default async function handler(
       error: 'Internal server error',
       message: 'An error occurred while processing your submission. Please try again.',
     });
+  } finally {
+    if (claimedIdempotencyKey && !isSubmissionSaved) {
+      await releaseIdempotencyKey(claimedIdempotencyKey).catch((error) => {
+        console.error('Failed to release idempotency key:', error);
+      });
+    }
   }
 } 
\ No newline at end of file
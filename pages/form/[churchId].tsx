@@ -1,26 +1,73 @@
 import { GetServerSideProps } from 'next';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
 import HealthScreeningForm from '@/components/HealthScreeningForm';
+import KioskMode from '@/components/KioskMode';
+import OfflineQueueStatus from '@/components/OfflineQueueStatus';
 import { OutreachLocation } from '@/types';
-import { CheckCircleIcon, HeartIcon } from '@heroicons/react/24/outline';
+import { detectLocale, getTranslator, LOCALE_COOKIE, translate, type Locale } from '@/lib/i18n';
+import { loadKioskSession } from '@/lib/kiosk/device';
+import { formManifestUrl, registerFormServiceWorker, THEME_COLOR } from '@/lib/pwa';
+import { CheckCircleIcon, CloudArrowUpIcon, HeartIcon } from '@heroicons/react/24/outline';
 
 interface FormPageProps {
   church: OutreachLocation;
+  initialLocale: Locale;
   error?: string;
 }
 
-export default function FormPage({ church, error }: FormPageProps) {
+// A year, so a returning participant sees the form in the language they picked
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export default function FormPage({ church, initialLocale, error }: FormPageProps) {
   const router = useRouter();
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [submissionId, setSubmissionId] = useState<string>('');
+  const [isQueued, setIsQueued] = useState(false);
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  // Kiosk tablets open `?kiosk=1` or remember their session; that is only readable after mount
+  const [isKiosk, setIsKiosk] = useState<boolean | null>(
+    router.query.kiosk === '1' ? true : church?.kioskEnabled ? null : false
+  );
+
+  useEffect(() => {
+    if (isKiosk === null && church) {
+      setIsKiosk(loadKioskSession(church.id) !== null);
+    }
+  }, [isKiosk, church]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Keeps the form loading when the event has no signal
+  useEffect(() => {
+    if (!error) {
+      registerFormServiceWorker();
+    }
+  }, [error]);
+
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    // A `?lang=` link would otherwise switch the language back on reload
+    if (router.query.lang) {
+      router.replace({ pathname: router.pathname, query: { ...router.query, lang: next } }, undefined, { shallow: true });
+    }
+  };
 
   const handleSuccess = (id: string) => {
     setSubmissionId(id);
     setIsSubmitted(true);
   };
 
+  const handleQueued = () => {
+    setIsQueued(true);
+    setIsSubmitted(true);
+  };
+
   if (error) {
     return (
       <div className="min-h-screen trust-gradient flex items-center justify-center">
@@ -31,14 +78,14 @@ export default function FormPage({ church, error }: FormPageProps) {
                 <HeartIcon className="w-16 h-16 mx-auto" />
               </div>
               <h1 className="text-2xl font-bold text-trust-900 mb-4">
-                Oops! Something went wrong
+                {t('page.errorTitle')}
               </h1>
               <p className="text-trust-600 mb-6">{error}</p>
               <button
                 onClick={() => router.push('/')}
                 className="btn-primary"
               >
-                Go Home
+                {t('page.goHome')}
               </button>
             </div>
           </div>
@@ -47,12 +94,20 @@ export default function FormPage({ church, error }: FormPageProps) {
     );
   }
 
+  if (isKiosk === null) {
+    return null;
+  }
+
+  if (isKiosk) {
+    return <KioskMode church={church} initialLocale={initialLocale} />;
+  }
+
   if (isSubmitted) {
     return (
       <>
         <Head>
-          <title>Thank You - Health Screening | {church.name}</title>
-          <meta name="description" content="Thank you for completing your health screening" />
+          <title>{t('results.title', { location: church.name })}</title>
+          <meta name="description" content={t('results.description')} />
           <meta name="viewport" content="width=device-width, initial-scale=1" />
         </Head>
         
@@ -61,44 +116,58 @@ export default function FormPage({ church, error }: FormPageProps) {
             <div className="card text-center animate-fade-in-up">
               <div className="card-body">
                 <div className="text-health-600 mb-6">
-                  <CheckCircleIcon className="w-20 h-20 mx-auto" />
+                  {isQueued ? (
+                    <CloudArrowUpIcon className="w-20 h-20 mx-auto" />
+                  ) : (
+                    <CheckCircleIcon className="w-20 h-20 mx-auto" />
+                  )}
                 </div>
                 
                 <h1 className="text-3xl font-bold text-gradient mb-4">
-                  Thank You!
+                  {t('results.heading')}
                 </h1>
                 
                 <p className="text-lg text-trust-700 mb-4">
-                  Your health screening has been submitted successfully.
+                  {isQueued ? t('results.savedOffline') : t('results.submitted')}
                 </p>
                 
-                <div className="bg-health-50 border border-health-200 rounded-lg p-4 mb-6">
-                  <p className="text-sm text-health-800">
-                    <strong>Submission ID:</strong> {submissionId}
-                  </p>
-                  <p className="text-sm text-health-600 mt-2">
-                    Save this ID for your records. We'll contact you soon with your results and next steps.
-                  </p>
-                </div>
+                {isQueued ? (
+                  <div className="bg-primary-50 border border-primary-200 rounded-lg p-4 mb-6">
+                    <p className="text-sm text-primary-800">
+                      {t('results.savedOfflineDetail')}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="bg-health-50 border border-health-200 rounded-lg p-4 mb-6">
+                    <p className="text-sm text-health-800">
+                      <strong>{t('results.submissionId')}</strong> {submissionId}
+                    </p>
+                    <p className="text-sm text-health-600 mt-2">
+                      {t('results.saveId')}
+                    </p>
+                  </div>
+                )}
+
+                <OfflineQueueStatus locale={locale} />
 
                 <div className="space-y-4 text-left">
-                  <h3 className="font-semibold text-trust-900">What's Next?</h3>
+                  <h3 className="font-semibold text-trust-900">{t('results.nextTitle')}</h3>
                   <ul className="space-y-2 text-sm text-trust-600">
 
                     <li className="flex items-start">
                       <span className="flex-shrink-0 w-2 h-2 bg-primary-500 rounded-full mt-2 mr-3"></span>
-                      You'll receive your results and personalized recommendations
+                      {t('results.nextResults')}
                     </li>
                     <li className="flex items-start">
                       <span className="flex-shrink-0 w-2 h-2 bg-primary-500 rounded-full mt-2 mr-3"></span>
-                      Our team will contact you to discuss follow-up care if needed
+                      {t('results.nextFollowUp')}
                     </li>
                   </ul>
                 </div>
 
                 <div className="mt-8 pt-6 border-t border-trust-200">
                   <p className="text-sm text-trust-500">
-                    Thank you for taking the first step in your health journey with {church.name}
+                    {t('results.closing', { location: church.name })}
                   </p>
                 </div>
               </div>
@@ -112,20 +181,21 @@ export default function FormPage({ church, error }: FormPageProps) {
   return (
     <>
       <Head>
-        <title>Health Screening | {church.name}</title>
-        <meta name="description" content={`Complete your health screening with ${church.name} - Join the fight against diabetes`} />
+        <title>{t('page.title', { location: church.name })}</title>
+        <meta name="description" content={t('page.description', { location: church.name })} />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <meta name="robots" content="noindex, nofollow" />
         
         {/* PWA Meta Tags */}
-        <meta name="theme-color" content="#0ea5e9" />
+        <meta name="theme-color" content={THEME_COLOR} />
         <meta name="apple-mobile-web-app-capable" content="yes" />
         <meta name="apple-mobile-web-app-status-bar-style" content="default" />
-        <meta name="apple-mobile-web-app-title" content="Health Screening" />
+        <meta name="apple-mobile-web-app-title" content={t('form.title')} />
         
         {/* Favicon */}
         <link rel="icon" href="/favicon.ico" />
         <link rel="apple-touch-icon" href="/apple-touch-icon.png" />
+        <link rel="manifest" href={formManifestUrl(church.id)} />
         
         {/* Custom branding if available */}
         {church.brandingColors && (
@@ -142,7 +212,12 @@ export default function FormPage({ church, error }: FormPageProps) {
       <HealthScreeningForm
         churchId={church.id}
         churchName={church.name}
+        customFields={church.customFields || []}
+        formVersion={church.formVersion}
+        locale={locale}
+        onLocaleChange={handleLocaleChange}
         onSuccess={handleSuccess}
+        onQueued={handleQueued}
       />
     </>
   );
@@ -150,26 +225,20 @@ export default function FormPage({ church, error }: FormPageProps) {
 
 export const getServerSideProps: GetServerSideProps = async (context) => {
   const { churchId } = context.params!;
+  const initialLocale = detectLocale({
+    query: context.query.lang,
+    cookie: context.req.cookies[LOCALE_COOKIE],
+    acceptLanguage: context.req.headers['accept-language'],
+  });
 
   try {
-    // Query the church/location from DynamoDB
-    const { ScanCommand } = await import('@aws-sdk/lib-dynamodb');
-    const { docClient, TABLES } = await import('@/lib/aws-config');
+    // Load the church/location from storage
+    const { getStorage } = await import('@/lib/storage');
     
     let church: OutreachLocation | null = null;
 
     try {
-      const result = await docClient.send(new ScanCommand({
-        TableName: TABLES.CHURCHES,
-        FilterExpression: 'id = :churchId',
-        ExpressionAttributeValues: {
-          ':churchId': churchId as string,
-        },
-      }));
-
-      if (result.Items && result.Items.length > 0) {
-        church = result.Items[0] as OutreachLocation;
-      }
+      church = await getStorage().locations.get(churchId as string);
     } catch (dbError) {
       console.error('Database query error:', dbError);
     }
@@ -178,7 +247,8 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       return {
         props: {
           church: null,
-          error: 'Church not found. Please check your QR code and try again.',
+          initialLocale,
+          error: translate(initialLocale, 'page.notFound'),
         },
       };
     }
@@ -187,14 +257,18 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       return {
         props: {
           church: null,
-          error: 'This health screening is currently unavailable. Please contact the church directly.',
+          initialLocale,
+          error: translate(initialLocale, 'page.unavailable'),
         },
       };
     }
 
+    const { withoutKioskPin } = await import('@/lib/kiosk/tokens');
+
     return {
       props: {
-        church,
+        church: withoutKioskPin(church),
+        initialLocale,
       },
     };
   } catch (error) {
@@ -202,7 +276,8 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
     return {
       props: {
         church: null,
-        error: 'Unable to load the health screening form right now. Please try again later.',
+        initialLocale,
+        error: translate(initialLocale, 'page.loadFailed'),
       },
     };
   }
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { CheckCircleIcon, EnvelopeIcon } from '@heroicons/react/24/outline';
+
+/**
+ * Landing page for the unsubscribe link in health screening emails. The
+ * participant confirms with a button, since mail scanners open links too.
+ */
+export default function UnsubscribePage() {
+  const router = useRouter();
+  const token = Array.isArray(router.query.token) ? router.query.token[0] : router.query.token;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState('');
+
+  const unsubscribe = async () => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/email/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setIsDone(true);
+      } else {
+        setError(result.error || 'Failed to unsubscribe');
+      }
+    } catch {
+      setError('Failed to unsubscribe. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Unsubscribe - Health Screening</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen trust-gradient flex items-center justify-center">
+        <div className="mobile-container">
+          <div className="card text-center animate-fade-in-up">
+            <div className="card-body">
+              {isDone ? (
+                <>
+                  <div className="text-health-600 mb-6">
+                    <CheckCircleIcon className="w-16 h-16 mx-auto" />
+                  </div>
+                  <h1 className="text-2xl font-bold text-trust-900 mb-4">You have been unsubscribed</h1>
+                  <p className="text-trust-600">
+                    You will receive no more health screening emails. Text messages are not affected; reply STOP to any text to stop those.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="text-primary-600 mb-6">
+                    <EnvelopeIcon className="w-16 h-16 mx-auto" />
+                  </div>
+                  <h1 className="text-2xl font-bold text-trust-900 mb-4">Unsubscribe from emails</h1>
+                  <p className="text-trust-600 mb-6">
+                    Stop receiving health screening results and follow-up reminders by email.
+                  </p>
+                  {error && <p className="form-error mb-4">{error}</p>}
+                  <button
+                    onClick={unsubscribe}
+                    disabled={!token || isSubmitting}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Unsubscribing...' : 'Unsubscribe'}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
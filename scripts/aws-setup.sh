@@ -61,6 +61,28 @@ aws dynamodb create-table \
     --region $REGION \
     --no-cli-pager || log_warn "Submissions table may already exist"
 
+# Create participants table; screenings link to it through participantId
+aws dynamodb create-table \
+    --table-name health-screening-participants \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Participants table may already exist"
+
+# Create selfie analysis job queue; jobs are deleted once analysis finishes
+aws dynamodb create-table \
+    --table-name health-screening-analysis-jobs \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Analysis jobs table may already exist"
+
 # Create churches table
 aws dynamodb create-table \
     --table-name health-screening-churches \
@@ -75,6 +97,106 @@ aws dynamodb create-table \
     --region $REGION \
     --no-cli-pager || log_warn "Churches table may already exist"
 
+# Create SMS templates table
+aws dynamodb create-table \
+    --table-name health-screening-sms-templates \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "SMS templates table may already exist"
+
+# Create SMS opt-out list, keyed by E.164 phone number
+aws dynamodb create-table \
+    --table-name health-screening-sms-suppressions \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "SMS suppressions table may already exist"
+
+# Create custom form versions (partitioned by location, sorted by version)
+aws dynamodb create-table \
+    --table-name health-screening-form-versions \
+    --attribute-definitions \
+        AttributeName=churchId,AttributeType=S \
+        AttributeName=version,AttributeType=N \
+    --key-schema \
+        AttributeName=churchId,KeyType=HASH \
+        AttributeName=version,KeyType=RANGE \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Form versions table may already exist"
+
+# Create TCPA consent ledger (append-only, partitioned by phone number)
+aws dynamodb create-table \
+    --table-name health-screening-consent-ledger \
+    --attribute-definitions \
+        AttributeName=phone,AttributeType=S \
+        AttributeName=sortKey,AttributeType=S \
+    --key-schema \
+        AttributeName=phone,KeyType=HASH \
+        AttributeName=sortKey,KeyType=RANGE \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Consent ledger table may already exist"
+
+# Create SMS campaigns table
+aws dynamodb create-table \
+    --table-name health-screening-sms-campaigns \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "SMS campaigns table may already exist"
+
+# Create SMS campaign recipients table (per-recipient delivery results)
+aws dynamodb create-table \
+    --table-name health-screening-sms-campaign-recipients \
+    --attribute-definitions \
+        AttributeName=campaignId,AttributeType=S \
+        AttributeName=submissionId,AttributeType=S \
+    --key-schema \
+        AttributeName=campaignId,KeyType=HASH \
+        AttributeName=submissionId,KeyType=RANGE \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "SMS campaign recipients table may already exist"
+
+# Create SMS log table (every text sent or received, with delivery status)
+aws dynamodb create-table \
+    --table-name health-screening-sms-log \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+        AttributeName=submissionId,AttributeType=S \
+        AttributeName=day,AttributeType=S \
+        AttributeName=sentAt,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --global-secondary-indexes \
+        'IndexName=sms-log-submission-index,KeySchema=[{AttributeName=submissionId,KeyType=HASH},{AttributeName=sentAt,KeyType=RANGE}],Projection={ProjectionType=ALL}' \
+        'IndexName=sms-log-day-index,KeySchema=[{AttributeName=day,KeyType=HASH},{AttributeName=sentAt,KeyType=RANGE}],Projection={ProjectionType=ALL}' \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "SMS log table may already exist"
+
+# Create email unsubscribe list, keyed by lowercased address
+aws dynamodb create-table \
+    --table-name health-screening-email-suppressions \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Email suppressions table may already exist"
+
 # Create users table
 aws dynamodb create-table \
     --table-name health-screening-users \
@@ -86,6 +208,87 @@ aws dynamodb create-table \
     --region $REGION \
     --no-cli-pager || log_warn "Users table may already exist"
 
+# Create dashboard stats (rollups) table
+aws dynamodb create-table \
+    --table-name health-screening-stats \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Stats table may already exist"
+
+# Create admin sessions table; revoked and expired sessions are removed by TTL
+aws dynamodb create-table \
+    --table-name health-screening-sessions \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Sessions table may already exist"
+
+aws dynamodb update-time-to-live \
+    --table-name health-screening-sessions \
+    --time-to-live-specification Enabled=true,AttributeName=ttl \
+    --region $REGION \
+    --no-cli-pager || log_warn "Sessions table TTL may already be enabled"
+
+# Create submission idempotency keys table; keys are removed by TTL after 30 days
+aws dynamodb create-table \
+    --table-name health-screening-idempotency-keys \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Idempotency keys table may already exist"
+
+aws dynamodb update-time-to-live \
+    --table-name health-screening-idempotency-keys \
+    --time-to-live-specification Enabled=true,AttributeName=ttl \
+    --region $REGION \
+    --no-cli-pager || log_warn "Idempotency keys table TTL may already be enabled"
+
+# Create append-only audit log table, partitioned by UTC day
+aws dynamodb create-table \
+    --table-name health-screening-audit-log \
+    --attribute-definitions \
+        AttributeName=day,AttributeType=S \
+        AttributeName=sortKey,AttributeType=S \
+    --key-schema \
+        AttributeName=day,KeyType=HASH \
+        AttributeName=sortKey,KeyType=RANGE \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Audit log table may already exist"
+
+aws dynamodb update-continuous-backups \
+    --table-name health-screening-audit-log \
+    --point-in-time-recovery-specification PointInTimeRecoveryEnabled=true \
+    --region $REGION \
+    --no-cli-pager || log_warn "Audit log point-in-time recovery may already be enabled"
+
+# Create shared rate limit counters table; expired windows and buckets are removed by TTL
+aws dynamodb create-table \
+    --table-name health-screening-rate-limits \
+    --attribute-definitions \
+        AttributeName=id,AttributeType=S \
+    --key-schema \
+        AttributeName=id,KeyType=HASH \
+    --billing-mode PAY_PER_REQUEST \
+    --region $REGION \
+    --no-cli-pager || log_warn "Rate limits table may already exist"
+
+aws dynamodb update-time-to-live \
+    --table-name health-screening-rate-limits \
+    --time-to-live-specification Enabled=true,AttributeName=ttl \
+    --region $REGION \
+    --no-cli-pager || log_warn "Rate limits table TTL may already be enabled"
+
 log_info "DynamoDB tables created successfully"
 
 # 2. Create S3 Bucket
@@ -145,6 +348,20 @@ POLICY_DOCUMENT=$(cat <<EOF
                 "arn:aws:dynamodb:${REGION}:*:table/health-screening-*/index/*"
             ]
         },
+        {
+            "Effect": "Deny",
+            "Action": [
+                "dynamodb:UpdateItem",
+                "dynamodb:DeleteItem",
+                "dynamodb:BatchWriteItem",
+                "dynamodb:DeleteTable"
+            ],
+            "Resource": [
+                "arn:aws:dynamodb:${REGION}:*:table/health-screening-audit-log",
+                "arn:aws:dynamodb:${REGION}:*:table/health-screening-consent-ledger",
+                "arn:aws:dynamodb:${REGION}:*:table/health-screening-form-versions"
+            ]
+        },
         {
             "Effect": "Allow",
             "Action": [
@@ -184,8 +401,22 @@ echo "📋 Resources Created:"
 echo "===================="
 echo "✅ DynamoDB Tables:"
 echo "   - health-screening-submissions"
+echo "   - health-screening-participants"
+echo "   - health-screening-analysis-jobs"
 echo "   - health-screening-churches"
+echo "   - health-screening-sms-templates"
+echo "   - health-screening-sms-suppressions"
+echo "   - health-screening-form-versions"
+echo "   - health-screening-consent-ledger"
+echo "   - health-screening-sms-campaigns"
+echo "   - health-screening-sms-campaign-recipients"
+echo "   - health-screening-sms-log"
+echo "   - health-screening-email-suppressions"
 echo "   - health-screening-users"
+echo "   - health-screening-sessions"
+echo "   - health-screening-idempotency-keys"
+echo "   - health-screening-audit-log"
+echo "   - health-screening-rate-limits"
 echo "✅ S3 Bucket: $BUCKET_NAME"
 echo "✅ IAM Policy: $POLICY_NAME"
 echo ""
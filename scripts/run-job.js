@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * Scheduled Job Runner
+ *
+ * Runs one of the scheduled jobs by calling its API route, for cron or any
+ * scheduler that can run a command:
+ *
+ *   node scripts/run-job.js follow-up-reminders
+ *   npm run job -- sms-campaigns
+ *
+ * Jobs: analysis, sms-campaigns, follow-up-reminders
+ *
+ * Environment Variables Required:
+ * - APP_JOB_RUNNER_SECRET (bearer token the job routes expect)
+ * - APP_JOB_RUNNER_URL or NEXTAUTH_URL (base URL of the deployed app)
+ */
+
+const JOBS = ['analysis', 'sms-campaigns', 'follow-up-reminders'];
+
+async function main() {
+  const job = process.argv[2];
+  if (!JOBS.includes(job)) {
+    console.error(`Usage: node scripts/run-job.js <${JOBS.join('|')}>`);
+    process.exit(2);
+  }
+
+  const secret = process.env.APP_JOB_RUNNER_SECRET;
+  const baseUrl = process.env.APP_JOB_RUNNER_URL || process.env.NEXTAUTH_URL;
+  if (!secret || !baseUrl) {
+    console.error('❌ APP_JOB_RUNNER_SECRET and APP_JOB_RUNNER_URL (or NEXTAUTH_URL) must be set');
+    process.exit(2);
+  }
+
+  const response = await fetch(new URL(`/api/jobs/${job}`, baseUrl), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+    // Job runs stop after 45 seconds
+    signal: AbortSignal.timeout(90 * 1000),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    console.error(`❌ ${job} failed (${response.status}): ${result.error || response.statusText}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${job}: ${JSON.stringify(result.data)}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Job runner error:', error.message);
+  process.exit(1);
+});
@@ -3,8 +3,10 @@
 /**
  * DynamoDB GSI Setup Script
  *
- * This script creates the Global Secondary Index (GSI) for the submissions table
- * to enable efficient querying by churchId and submissionDate.
+ * This script creates the Global Secondary Indexes (GSIs) for the submissions table:
+ * churchId + submissionDate for filtered listing, and the fingerprint, phone and
+ * identity keys used for duplicate detection. DynamoDB only builds one index at a
+ * time, so run the script again once the previous index is ACTIVE.
  *
  * Environment Variables Required:
  * - AWS_REGION or APP_AWS_REGION
@@ -12,6 +14,7 @@
  * - APP_SECRET_ACCESS_KEY (for local development)
  * - APP_DYNAMODB_TABLE_NAME (submissions table name)
  * - APP_DYNAMODB_SUBMISSIONS_GSI_CHURCH_DATE (GSI name)
+ * - APP_DYNAMODB_SUBMISSIONS_GSI_FINGERPRINT, _PHONE, _IDENTITY (optional GSI names)
  */
 
 const { DynamoDBClient, UpdateTableCommand, DescribeTableCommand } = require('@aws-sdk/client-dynamodb');
@@ -34,29 +37,37 @@ const dynamoClient = new DynamoDBClient(config);
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
 
 const SUBMISSIONS_TABLE = process.env.APP_DYNAMODB_TABLE_NAME || 'health-screening-submissions';
-const GSI_NAME = process.env.APP_DYNAMODB_SUBMISSIONS_GSI_CHURCH_DATE || 'submissions-church-date-index';
 
-async function checkIfGSIExists() {
-  try {
-    console.log(`🔍 Checking if GSI "${GSI_NAME}" exists on table "${SUBMISSIONS_TABLE}"...`);
+// Every index is keyed by one attribute and sorted by submissionDate
+const GSI_DEFINITIONS = [
+  {
+    name: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_CHURCH_DATE || 'submissions-church-date-index',
+    hashKey: 'churchId',
+  },
+  {
+    name: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_FINGERPRINT || 'submissions-fingerprint-index',
+    hashKey: 'submissionFingerprint',
+  },
+  {
+    name: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_PHONE || 'submissions-phone-index',
+    hashKey: 'phoneKey',
+  },
+  {
+    name: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_IDENTITY || 'submissions-identity-index',
+    hashKey: 'identityKey',
+  },
+  {
+    name: process.env.APP_DYNAMODB_SUBMISSIONS_GSI_PARTICIPANT || 'submissions-participant-index',
+    hashKey: 'participantId',
+  },
+];
 
+async function describeIndexes() {
+  try {
     const result = await dynamoClient.send(new DescribeTableCommand({
       TableName: SUBMISSIONS_TABLE,
     }));
-
-    const existingGSI = result.Table.GlobalSecondaryIndexes?.find(
-      gsi => gsi.IndexName === GSI_NAME
-    );
-
-    if (existingGSI) {
-      console.log(`✅ GSI "${GSI_NAME}" already exists`);
-      console.log(`   - ProjectionType: ${existingGSI.Projection.ProjectionType}`);
-      console.log(`   - KeySchema: ${existingGSI.KeySchema.map(k => `${k.AttributeName}(${k.KeyType})`).join(', ')}`);
-      return true;
-    }
-
-    console.log(`❌ GSI "${GSI_NAME}" does not exist`);
-    return false;
+    return result.Table;
   } catch (error) {
     if (error.name === 'ResourceNotFoundException') {
       console.error(`❌ Table "${SUBMISSIONS_TABLE}" does not exist`);
@@ -67,16 +78,33 @@ async function checkIfGSIExists() {
   }
 }
 
-async function createGSI() {
-  console.log(`🚀 Creating GSI "${GSI_NAME}" on table "${SUBMISSIONS_TABLE}"...`);
+async function checkIfGSIExists(definition) {
+  console.log(`🔍 Checking if GSI "${definition.name}" exists on table "${SUBMISSIONS_TABLE}"...`);
+
+  const table = await describeIndexes();
+  const existingGSI = table.GlobalSecondaryIndexes?.find(
+    gsi => gsi.IndexName === definition.name
+  );
+
+  if (existingGSI) {
+    console.log(`✅ GSI "${definition.name}" already exists`);
+    console.log(`   - ProjectionType: ${existingGSI.Projection.ProjectionType}`);
+    console.log(`   - KeySchema: ${existingGSI.KeySchema.map(k => `${k.AttributeName}(${k.KeyType})`).join(', ')}`);
+    return true;
+  }
+
+  console.log(`❌ GSI "${definition.name}" does not exist`);
+  return false;
+}
+
+async function createGSI(definition) {
+  console.log(`🚀 Creating GSI "${definition.name}" on table "${SUBMISSIONS_TABLE}"...`);
 
   // Determine billing mode to decide whether to include provisioned throughput
   let billingMode;
   try {
-    const tableDescription = await dynamoClient.send(new DescribeTableCommand({
-      TableName: SUBMISSIONS_TABLE,
-    }));
-    billingMode = tableDescription.Table?.BillingModeSummary?.BillingMode || 'PROVISIONED';
+    const table = await describeIndexes();
+    billingMode = table?.BillingModeSummary?.BillingMode || 'PROVISIONED';
   } catch (error) {
     console.error('❌ Failed to retrieve table billing mode:', error.message);
     process.exit(1);
@@ -86,7 +114,7 @@ async function createGSI() {
     TableName: SUBMISSIONS_TABLE,
     AttributeDefinitions: [
       {
-        AttributeName: 'churchId',
+        AttributeName: definition.hashKey,
         AttributeType: 'S',
       },
       {
@@ -97,10 +125,10 @@ async function createGSI() {
     GlobalSecondaryIndexUpdates: [
       {
         Create: {
-          IndexName: GSI_NAME,
+          IndexName: definition.name,
           KeySchema: [
             {
-              AttributeName: 'churchId',
+              AttributeName: definition.hashKey,
               KeyType: 'HASH',
             },
             {
@@ -134,12 +162,14 @@ async function createGSI() {
     console.log('⏳ This may take several minutes to complete.');
     console.log('⏳ You can check the status using:');
     console.log(`   node scripts/setup-dynamodb-gsi.js --check`);
+    console.log('⏳ Run this script again once it is ACTIVE to create any remaining indexes.');
 
   } catch (error) {
-    if (error.name === 'ValidationException') {
+    if (error.name === 'ValidationException' || error.name === 'LimitExceededException') {
       console.error('❌ Validation Error:', error.message);
       console.log('💡 This might be because:');
       console.log('   - The GSI already exists (try --check)');
+      console.log('   - Another index on the table is still being created');
       console.log('   - Invalid attribute names or types');
       console.log('   - Table is in BACKING_UP or other incompatible state');
     } else {
@@ -151,32 +181,32 @@ async function createGSI() {
 
 async function checkGSIStatus() {
   try {
-    console.log(`🔍 Checking GSI "${GSI_NAME}" status on table "${SUBMISSIONS_TABLE}"...`);
+    const table = await describeIndexes();
 
-    const result = await dynamoClient.send(new DescribeTableCommand({
-      TableName: SUBMISSIONS_TABLE,
-    }));
+    for (const definition of GSI_DEFINITIONS) {
+      console.log(`\n🔍 Checking GSI "${definition.name}" status on table "${SUBMISSIONS_TABLE}"...`);
 
-    const gsi = result.Table.GlobalSecondaryIndexes?.find(
-      idx => idx.IndexName === GSI_NAME
-    );
+      const gsi = table.GlobalSecondaryIndexes?.find(
+        idx => idx.IndexName === definition.name
+      );
 
-    if (!gsi) {
-      console.log(`❌ GSI "${GSI_NAME}" not found`);
-      return;
-    }
+      if (!gsi) {
+        console.log(`❌ GSI "${definition.name}" not found`);
+        continue;
+      }
 
-    console.log(`📊 GSI Status: ${gsi.IndexStatus}`);
-    console.log(`📊 Backfilling: ${gsi.Backfilling ? 'Yes' : 'No'}`);
+      console.log(`📊 GSI Status: ${gsi.IndexStatus}`);
+      console.log(`📊 Backfilling: ${gsi.Backfilling ? 'Yes' : 'No'}`);
 
-    if (gsi.IndexStatus === 'ACTIVE') {
-      console.log('✅ GSI is ready to use!');
-      console.log(`📊 ItemCount: ${gsi.ItemCount || 0} items`);
-    } else if (gsi.IndexStatus === 'CREATING') {
-      console.log('⏳ GSI is still being created...');
-      console.log('💡 This may take several minutes for large tables');
-    } else {
-      console.log(`⚠️  GSI Status: ${gsi.IndexStatus}`);
+      if (gsi.IndexStatus === 'ACTIVE') {
+        console.log('✅ GSI is ready to use!');
+        console.log(`📊 ItemCount: ${gsi.ItemCount || 0} items`);
+      } else if (gsi.IndexStatus === 'CREATING') {
+        console.log('⏳ GSI is still being created...');
+        console.log('💡 This may take several minutes for large tables');
+      } else {
+        console.log(`⚠️  GSI Status: ${gsi.IndexStatus}`);
+      }
     }
 
   } catch (error) {
@@ -190,7 +220,7 @@ async function main() {
   console.log('==========================');
   console.log(`📍 Region: ${config.region}`);
   console.log(`📍 Table: ${SUBMISSIONS_TABLE}`);
-  console.log(`📍 GSI: ${GSI_NAME}`);
+  console.log(`📍 GSIs: ${GSI_DEFINITIONS.map(definition => definition.name).join(', ')}`);
 
   const args = process.argv.slice(2);
   const isCheckMode = args.includes('--check') || args.includes('-c');
@@ -199,11 +229,16 @@ async function main() {
     if (isCheckMode) {
       await checkGSIStatus();
     } else {
-      const gsiExists = await checkIfGSIExists();
+      // Create the first missing index; DynamoDB rejects a second concurrent creation
+      for (const definition of GSI_DEFINITIONS) {
+        const gsiExists = await checkIfGSIExists(definition);
 
-      if (!gsiExists) {
-        await createGSI();
+        if (!gsiExists) {
+          await createGSI(definition);
+          return;
+        }
       }
+      console.log('\n✅ All indexes exist');
     }
   } catch (error) {
     console.error('💥 Unexpected error:', error.message);
@@ -217,6 +252,7 @@ if (require.main === module) {
 }
 
 module.exports = {
+  GSI_DEFINITIONS,
   checkIfGSIExists,
   createGSI,
   checkGSIStatus,
@@ -62,11 +62,21 @@ export interface HealthSubmission {
   diabetes: boolean;
   insuranceType: 'private' | 'government' | 'none' | 'not-sure';
   insuranceId?: string;
+  customFieldAnswers?: CustomFieldAnswer[]; // Answers to the location's own questions
+  formVersion?: number; // Version of the location's questions the participant answered
   
   // TCPA Consent
   tcpaConsent: boolean;
+  tcpaDisclosureVersion?: string; // Consent text the participant agreed to; the ledger holds the full record
+
+  // Language the participant filled in the form in; follow-up messages use it. Unset means English
+  locale?: string;
   
   // AI Analysis results
+  analysisStatus?: SelfieAnalysisStatus; // Unset on submissions saved before statuses were recorded
+  analysisProvider?: string;
+  analysisError?: string; // Why no estimates were produced when the status is unknown or failed
+  analyzedAt?: string;
   estimatedBMI?: number;
   bmiCategory?: string;
   estimatedAge?: number;
@@ -74,21 +84,216 @@ export interface HealthSubmission {
   healthRiskLevel?: 'Low' | 'Moderate' | 'High' | 'Very High';
   healthRiskScore?: number;
   recommendations?: string[];
+  riskRuleVersion?: string; // Risk rule set the score was computed with; unset means v1
+  riskScoredAt?: string;
   
   // Contact information (required phone, optional email)
   phone: string;
   email?: string;
+  contactPreference?: ContactPreference; // Unset means SMS only
+  resultsEmailSentAt?: string;
   
   // Follow-up tracking
   followUpStatus?: 'Pending' | 'Contacted' | 'Scheduled' | 'Completed';
   followUpNotes?: string;
-  followUpDate?: string;
+  followUpDate?: string; // When to follow up next; the reminder scheduler texts the participant once it is due
+  followUpReminderFor?: string; // followUpDate the scheduler last handled, so each date gets one reminder
+  followUpEscalatedAt?: string; // Set when the screening was still Pending after the escalation period
+  followUpHistory?: FollowUpEvent[];
+  updatedAt?: string;
   
   // Device and Network Tracking
   deviceInfo?: DeviceInfo;
   networkInfo?: NetworkInfo;
-  submissionFingerprint?: string; // Unique submission identifier
+  submissionFingerprint?: string; // Device, network and answers hash; repeats flag duplicates
   sessionId?: string;
+
+  // Duplicate detection and merging
+  phoneKey?: string; // Digits-only phone used to match returning participants
+  identityKey?: string; // Normalized name and date of birth used to match returning participants
+  duplicateStatus?: DuplicateStatus;
+  duplicateCandidates?: DuplicateCandidate[];
+  participantId?: string; // Participant this screening belongs to
+  mergeHistory?: SubmissionMergeEvent[];
+  welcomeSmsSentAt?: string;
+
+  // Volunteer and device, when the screening was taken on a kiosk tablet
+  kiosk?: KioskAttribution;
+}
+
+/** Who ran the kiosk tablet a screening was taken on, from its signed kiosk session */
+export interface KioskAttribution {
+  sessionId: string;
+  deviceId: string; // Stays the same across sessions on one tablet
+  deviceLabel: string;
+  volunteerName: string;
+  startedAt: string;
+}
+
+/**
+ * 'pending' while queued or retrying, 'failed' once retries are used up.
+ * 'unknown' means the provider could not produce estimates; BMI, age and gender are then left unset.
+ */
+export type SelfieAnalysisStatus = 'pending' | 'complete' | 'unknown' | 'failed';
+
+export type AnalysisJobStatus = Extract<SelfieAnalysisStatus, 'pending' | 'failed'>;
+
+/**
+ * Selfie analysis still owed for a submission, keyed by submission id.
+ * Jobs are deleted once analysis produces a result, so only unfinished work is kept.
+ */
+export interface AnalysisJob {
+  id: string;
+  churchId: string;
+  photoKey: string; // S3 key of the selfie
+  mimeType: string;
+  status: AnalysisJobStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lockedUntil?: string; // Lease held by the runner working on the job
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnalysisQueueItem {
+  job: AnalysisJob;
+  submission: HealthSubmission;
+}
+
+/**
+ * `Idempotency-Key` sent with a form submission, keyed by the key itself.
+ * A retried request with a completed key gets the original submission id back.
+ */
+export interface SubmissionIdempotencyKey {
+  id: string;
+  status: 'processing' | 'completed';
+  submissionId?: string; // Set at the claim; a processing key's submission exists once it is saved
+  createdAt: string;
+  lockedUntil?: string; // Lease held by the request creating the submission
+  completedAt?: string;
+  /** Epoch seconds; lets DynamoDB TTL remove old keys */
+  ttl: number;
+}
+
+export type DuplicateMatchReason = 'fingerprint' | 'phone' | 'name_dob';
+
+export type DuplicateStatus = 'pending' | 'merged' | 'dismissed';
+
+/** Earlier submission that looks like the same person */
+export interface DuplicateCandidate {
+  submissionId: string;
+  reasons: DuplicateMatchReason[];
+}
+
+export interface SubmissionMergeEvent {
+  action: 'merged' | 'dismissed';
+  at: string;
+  by: string; // Admin email
+  participantId?: string;
+  submissionIds: string[];
+}
+
+export type ContactChannel = 'sms' | 'email';
+
+// Channels a participant asked to be contacted on
+export type ContactPreference = ContactChannel | 'both';
+
+export type FollowUpEventAction = 'reminder_sent' | 'reminder_failed' | 'reminder_skipped' | 'escalated';
+
+export type FollowUpReminderSkipReason =
+  | 'no_phone'
+  | 'no_consent'
+  | 'opted_out'
+  | 'duplicate_phone'
+  | 'no_email'
+  | 'unsubscribed'
+  | 'duplicate_email'
+  | 'expired';
+
+/** Something the follow-up reminder scheduler did to a submission */
+export interface FollowUpEvent {
+  action: FollowUpEventAction;
+  at: string;
+  by: string; // `scheduler`
+  channel?: ContactChannel; // How the reminder went out; unset on events from before email reminders
+  followUpDate?: string; // Due date the reminder was for
+  messageId?: string;
+  skipReason?: FollowUpReminderSkipReason;
+  error?: string;
+}
+
+/**
+ * One person across screenings. Submissions point at it through participantId:
+ * a screening with the same name and date of birth as an earlier one joins that
+ * participant automatically, other matches join when an admin merges them.
+ */
+export interface Participant {
+  id: string;
+  identityKey?: string; // Normalized name and date of birth of the first screening
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  mergedIntoId?: string; // Set when this participant was folded into another one
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Screening outcome plotted on a participant's timeline */
+export type ParticipantTimelineEntry = Pick<
+  HealthSubmission,
+  | 'id'
+  | 'churchId'
+  | 'submissionDate'
+  | 'estimatedBMI'
+  | 'bmiCategory'
+  | 'healthRiskScore'
+  | 'healthRiskLevel'
+  | 'followUpStatus'
+  | 'followUpDate'
+  | 'followUpNotes'
+>;
+
+export interface ParticipantTimeline {
+  participant: Participant;
+  /** Oldest screening first */
+  entries: ParticipantTimelineEntry[];
+}
+
+/** How one submission's risk result changes under another rule version */
+export interface RiskRescoreChange {
+  submissionId: string;
+  churchId: string;
+  fromVersion: string;
+  before: Pick<HealthSubmission, 'healthRiskScore' | 'healthRiskLevel'>;
+  after: Pick<HealthSubmission, 'healthRiskScore' | 'healthRiskLevel'>;
+  recommendationsAdded: string[];
+  recommendationsRemoved: string[];
+}
+
+/** Diff report for one page of a re-score run */
+export interface RiskRescoreReport {
+  toVersion: string;
+  /** False for a dry run, which reports changes without saving them */
+  applied: boolean;
+  scanned: number;
+  changed: number;
+  unchanged: number;
+  /** Submissions without a BMI estimate, which are never scored */
+  skipped: number;
+  /** Counts keyed by "<before> -> <after>" risk level */
+  levelTransitions: Record<string, number>;
+  changes: RiskRescoreChange[];
+  nextToken?: string;
+}
+
+/** Flagged submission with the earlier records it may duplicate */
+export interface DuplicateReviewItem {
+  submission: HealthSubmission;
+  candidates: Array<{
+    submission: HealthSubmission;
+    reasons: DuplicateMatchReason[];
+  }>;
 }
 
 export interface OutreachLocation {
@@ -101,15 +306,22 @@ export interface OutreachLocation {
   qrCode: string;
   createdDate: string;
   isActive: boolean;
+  archivedAt?: string;
   
   // Custom form settings
   customFields?: CustomField[];
+  formVersion?: number; // Published version of customFields; unset until the first publish
   brandingColors?: {
     primary: string;
     secondary: string;
     accent: string;
   };
   logo?: string;
+
+  // Kiosk mode for tablets passed between participants at a staffed table
+  kioskEnabled?: boolean;
+  kioskPinHash?: string; // bcrypt hash of the volunteer PIN; never sent to browsers
+  kioskPinUpdatedAt?: string;
   
   // Statistics
   totalSubmissions?: number;
@@ -131,23 +343,413 @@ export interface CustomField {
   };
 }
 
+/** A published snapshot of a location's custom fields. Versions are never edited. */
+export interface LocationFormVersion {
+  churchId: string;
+  version: number; // Counts up from 1 per location
+  fields: CustomField[];
+  publishedAt: string;
+  publishedBy: string; // Email of the admin who published it
+}
+
+/** A location's current questions with every published version, newest first */
+export interface LocationFormHistory {
+  formVersion: number; // 0 when nothing has been published
+  fields: CustomField[];
+  versions: LocationFormVersion[];
+}
+
+/** A participant's answer to a location's custom field, with the label it was asked with */
+export interface CustomFieldAnswer {
+  fieldId: string;
+  label: string;
+  value: string | number | boolean;
+}
+
+export type AdminRole = 'admin' | 'coordinator' | 'viewer';
+
+export interface AdminPermissions {
+  canViewSubmissions: boolean;
+  canExportData: boolean;
+  canManageChurches: boolean;
+  canManageUsers: boolean;
+  canViewAnalytics: boolean;
+}
+
+export type AdminPermission = keyof AdminPermissions;
+
 export interface AdminUser {
   id: string;
   email: string;
-  hashedPassword: string;
-  role: 'admin' | 'viewer';
+  passwordHash: string;
+  role: AdminRole;
   firstName: string;
   lastName: string;
   createdDate: string;
   lastLogin?: string;
   isActive: boolean;
-  permissions: {
-    canViewSubmissions: boolean;
-    canExportData: boolean;
-    canManageChurches: boolean;
-    canManageUsers: boolean;
-    canViewAnalytics: boolean;
-  };
+  /** Outreach location a coordinator or viewer is limited to; ignored for admins */
+  churchId?: string;
+  permissions: AdminPermissions;
+  /** TOTP enrollment; null once reset by an administrator */
+  twoFactor?: AdminTwoFactor | null;
+}
+
+export interface AdminTwoFactor {
+  /** Base32 TOTP secret */
+  secret: string;
+  /** Unset while enrollment is waiting for the first code */
+  enabledAt?: string;
+  /** SHA-256 hashes of the unused recovery codes */
+  recoveryCodeHashes: string[];
+  /** Time step of the last accepted code, so codes cannot be replayed */
+  lastUsedStep?: number;
+}
+
+/** Admin user as returned by the API, without credentials */
+export type PublicAdminUser = Omit<AdminUser, 'passwordHash' | 'twoFactor'> & {
+  twoFactorEnabled: boolean;
+};
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Whether sign-in requires two-factor authentication for every account */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  /** PNG data URL of the otpauth QR code */
+  qrCode: string;
+}
+
+export type SessionRevocationReason =
+  | 'logout'
+  | 'signed_out_everywhere'
+  | 'revoked_by_user'
+  | 'refresh_token_reuse'
+  | 'account_changed';
+
+/**
+ * Server-side record of a signed-in device. Its id travels in the JWT `sessionId`
+ * claim, and `refreshTokenId` is the `jti` of the only refresh token currently accepted.
+ */
+export interface AdminSession {
+  id: string;
+  userId: string;
+  email: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  ipAddress: string;
+  userAgent: string;
+  device?: Pick<DeviceInfo, 'browser' | 'os' | 'device'>;
+  refreshTokenId: string;
+  /** Token replaced by the latest rotation, accepted briefly for concurrent refreshes */
+  previousRefreshTokenId?: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  revokedReason?: SessionRevocationReason;
+  /** Epoch seconds; lets DynamoDB TTL remove expired sessions */
+  ttl: number;
+}
+
+/** Session as listed to its owner */
+export interface AdminSessionSummary {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string;
+  ipAddress: string;
+  device?: AdminSession['device'];
+  isCurrent: boolean;
+}
+
+export const AUDIT_ACTIONS = [
+  'submission.view',
+  'submission.list',
+  'submission.update',
+  'submission.merge',
+  'submission.dismiss_duplicate',
+  'submission.rescore',
+  'submission.reanalyze',
+  'participant.view',
+  'photo.view',
+  'data.export',
+  'location.create',
+  'location.update',
+  'location.delete',
+  'location.form_publish',
+  'location.kiosk_update',
+  'kiosk.session_start',
+  'kiosk.session_start_failed',
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.password_reset',
+  'user.two_factor_reset',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'session.revoke',
+  'two_factor.enable',
+  'two_factor.disable',
+  'two_factor.recovery_codes',
+  'sms.send',
+  'sms.view',
+  'sms_template.create',
+  'sms_template.update',
+  'sms_template.delete',
+  'sms_suppression.create',
+  'sms_suppression.delete',
+  'sms_campaign.create',
+  'sms_campaign.view',
+  'sms_campaign.cancel',
+  'consent.view',
+  'audit.export',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_RESOURCE_TYPES = [
+  'submission',
+  'participant',
+  'photo',
+  'location',
+  'user',
+  'session',
+  'export',
+  'sms',
+  'sms_template',
+  'sms_suppression',
+  'sms_campaign',
+  'consent',
+  'audit',
+] as const;
+
+export type AuditResourceType = typeof AUDIT_RESOURCE_TYPES[number];
+
+/**
+ * Append-only record of PHI access or an admin action. Entries are never
+ * updated or deleted; `before`/`after` hold only the fields that changed.
+ */
+export interface AuditEvent {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  /** Admin user id, or `anonymous` for failed sign-ins to unknown accounts */
+  actorId: string;
+  actorEmail: string;
+  actorRole?: string;
+  ipAddress: string;
+  userAgent?: string;
+  resourceType: AuditResourceType;
+  resourceId?: string;
+  /** Outreach location the resource belongs to, when known */
+  churchId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  /** Request context such as export filters or result counts */
+  details?: Record<string, unknown>;
+}
+
+export interface AuditLogQueryParams {
+  /** Inclusive YYYY-MM-DD bounds */
+  startDate?: string;
+  endDate?: string;
+  actorEmail?: string;
+  action?: AuditAction;
+  resourceType?: AuditResourceType;
+  resourceId?: string;
+  churchId?: string;
+}
+
+/**
+ * Stored SMS template. Built-in defaults cover `welcome`, `followup` and `test`
+ * in English and Spanish;
+ * a stored template replaces the default for its key and language, and one
+ * with a `churchId` overrides it for that location only.
+ */
+export interface SmsTemplate {
+  id: string;
+  key: string; // Slug sends pick the template by, e.g. `welcome`
+  name: string;
+  locale: string; // Language variant, e.g. `en` or `es`
+  churchId?: string; // Location override; unset applies to every location
+  body: string; // Text with {{firstName}}, {{locationName}} and {{riskLevel}} variables
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string; // Email of the admin who last saved it
+}
+
+export type ConsentStatus = 'granted' | 'revoked';
+
+// Where a consent change came from: the screening form, a STOP/START reply, or an admin
+export type ConsentSource = 'screening_form' | 'sms_keyword' | 'admin';
+
+/**
+ * One entry in the append-only TCPA consent ledger. A phone number's current
+ * consent is its newest entry; entries are never updated or deleted.
+ */
+export interface ConsentRecord {
+  id: string;
+  phone: string; // E.164
+  channel: 'sms';
+  status: ConsentStatus;
+  source: ConsentSource;
+  recordedAt: string;
+  disclosureVersion?: string; // Published disclosure text shown with the form
+  disclosureLocale?: string; // Language the disclosure was shown in; unset means English
+  ipAddress?: string;
+  userAgent?: string;
+  submissionId?: string;
+  churchId?: string;
+  keyword?: string; // Reply text as received, e.g. `Stop`
+  inboundMessageId?: string;
+  actorEmail?: string; // Admin who recorded it
+  note?: string;
+}
+
+/**
+ * Phone number that must not be sent SMS. Keyed by the E.164 number.
+ */
+export interface SmsSuppression {
+  id: string; // E.164 phone number
+  source: ConsentSource;
+  keyword?: string;
+  createdAt: string;
+  createdBy?: string; // Admin email when added by hand
+  note?: string;
+}
+
+/** Current SMS consent for a phone number with its ledger history, newest first */
+export interface SmsConsentSummary {
+  phone: string;
+  suppression: SmsSuppression | null;
+  records: ConsentRecord[];
+}
+
+export type EmailSuppressionSource = 'unsubscribe_link' | 'admin';
+
+/**
+ * Email address that must not be sent email. Keyed by the lowercased address.
+ */
+export interface EmailSuppression {
+  id: string; // Lowercased email address
+  source: EmailSuppressionSource;
+  submissionId?: string; // Screening whose email carried the unsubscribe link
+  createdAt: string;
+}
+
+export type SmsCampaignStatus = 'scheduled' | 'sending' | 'completed' | 'cancelled';
+
+/** Submission filters a campaign's audience is built from */
+export type SmsCampaignFilters = Pick<
+  SubmissionsQueryParams,
+  'churchId' | 'startDate' | 'endDate' | 'riskLevels' | 'followUpStatuses' | 'searchTerm'
+>;
+
+export type SmsCampaignRecipientStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+// Why a matched submission is not texted
+export type SmsCampaignSkipReason = 'no_phone' | 'no_consent' | 'sms_not_preferred' | 'opted_out' | 'duplicate_phone';
+
+export type SmsCampaignCounts = Record<SmsCampaignRecipientStatus, number> & { total: number };
+
+/**
+ * Bulk SMS to the submissions matching a set of filters. Recipients are
+ * fixed when the campaign is created and sent from `scheduledAt` onwards.
+ */
+export interface SmsCampaign {
+  id: string;
+  name: string;
+  filters: SmsCampaignFilters;
+  templateKey?: string; // Stored template rendered per recipient
+  message?: string; // Custom text, used when there is no template key
+  locale?: string;
+  status: SmsCampaignStatus;
+  scheduledAt: string;
+  counts: SmsCampaignCounts;
+  lockedUntil?: string; // Lease held by the runner sending the campaign
+  startedAt?: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+  createdAt: string;
+  createdBy: string; // Admin email
+  updatedAt: string;
+}
+
+/** Delivery result for one submission in a campaign */
+export interface SmsCampaignRecipient {
+  campaignId: string;
+  submissionId: string;
+  churchId: string;
+  phone?: string; // E.164; unset when the submission has no usable number
+  status: SmsCampaignRecipientStatus;
+  skipReason?: SmsCampaignSkipReason;
+  attempts: number;
+  messageId?: string;
+  error?: string;
+  sentAt?: string;
+  updatedAt: string;
+}
+
+export interface SmsCampaignDetail {
+  campaign: SmsCampaign;
+  recipients: SmsCampaignRecipient[];
+}
+
+export type SmsMessageDirection = 'outbound' | 'inbound';
+
+/**
+ * `queued` until SNS reports the carrier's delivery receipt; inbound
+ * messages are `received`.
+ */
+export type SmsMessageStatus = 'queued' | 'delivered' | 'failed' | 'received';
+
+/**
+ * One text sent to or received from a participant. Outbound messages are
+ * keyed by the SNS message id so delivery status can be matched to them;
+ * sends that failed before SNS accepted them get a generated id.
+ */
+export interface SmsLogEntry {
+  id: string;
+  direction: SmsMessageDirection;
+  status: SmsMessageStatus;
+  /** Participant's E.164 number */
+  phone: string;
+  body: string;
+  /** Screening the message is about; inbound replies use the latest one from the number */
+  submissionId?: string;
+  churchId?: string;
+  templateKey?: string;
+  campaignId?: string;
+  /** Email of the admin who sent it by hand */
+  sentBy?: string;
+  error?: string;
+  /** Carrier response from the delivery receipt */
+  providerResponse?: string;
+  sentAt: string;
+  deliveredAt?: string;
+  updatedAt: string;
+}
+
+export interface SmsLogQueryParams {
+  /** Inclusive YYYY-MM-DD bounds */
+  startDate?: string;
+  endDate?: string;
+  churchId?: string;
+  direction?: SmsMessageDirection;
+  status?: SmsMessageStatus;
+}
+
+/** Audience of a campaign as a dry run reports it, before anything is saved */
+export interface SmsCampaignAudience {
+  matched: number;
+  eligible: number;
+  skipped: Record<SmsCampaignSkipReason, number>;
 }
 
 export interface DashboardStats {
@@ -186,6 +788,14 @@ export interface DashboardStats {
     overweight: number;
     obese: number;
   };
+
+  // Follow-up pipeline
+  followUpDistribution: {
+    pending: number;
+    contacted: number;
+    scheduled: number;
+    completed: number;
+  };
   
   // Top performing locations
   topLocations: {
@@ -221,9 +831,13 @@ export interface FormData {
   diabetes: boolean;
   insuranceType: 'private' | 'government' | 'none' | 'not-sure';
   insuranceId?: string;
+
+  // Location custom fields, keyed by field id
+  customFields?: Record<string, string | boolean>;
   
   // TCPA Consent
   tcpaConsent: boolean;
+  contactPreference?: ContactPreference;
 }
 
 export interface ApiResponse<T = unknown> {
@@ -276,6 +890,11 @@ export interface AuthTokenClaims {
   email: string;
   role: string;
   name?: string;
+  /** Set for accounts limited to a single outreach location */
+  churchId?: string;
+  permissions?: AdminPermissions;
+  /** Server-side session the token belongs to */
+  sessionId?: string;
   exp: number;
   iat: number;
 } 
\ No newline at end of file
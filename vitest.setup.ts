@@ -0,0 +1,14 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// Each test file gets its own empty local data directory
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'health-screening-test-'));
+process.env.APP_STORAGE_BACKEND = 'local';
+process.env.APP_LOCAL_DATA_DIR = dataDir;
+process.env.JWT_SECRET = 'test-secret-that-is-long-enough-for-signing';
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});